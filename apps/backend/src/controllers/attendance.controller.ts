@@ -2,7 +2,14 @@ import { Response, NextFunction } from 'express';
 import { z } from 'zod';
 import attendanceService from '../services/attendance.service';
 import { AuthRequest } from '../middleware/auth';
-import { requiredUuid, optionalString, requiredEnum, optionalEnum } from '../utils/validation-messages';
+import {
+  requiredUuid,
+  optionalString,
+  requiredEnum,
+  optionalEnum,
+  optionalBoolean,
+  optionalDateString,
+} from '../utils/validation-messages';
 
 const attendanceStatusValues = ['PRESENT', 'ABSENT', 'LATE', 'EXCUSED'] as const;
 const attendanceStatusLabels = {
@@ -35,6 +42,40 @@ const bulkUpsertAttendanceSchema = z.object({
   ),
 });
 
+const registerQuerySchema = z.object({
+  dateFrom: optionalDateString('Data od'),
+  dateTo: optionalDateString('Data do'),
+});
+
+const registerExportQuerySchema = registerQuerySchema.extend({
+  format: requiredEnum('Format', ['pdf', 'xlsx'] as const, { pdf: 'PDF', xlsx: 'XLSX' }),
+});
+
+const bulkMarkRegisterSchema = z.object({
+  entries: z
+    .array(
+      z.object({
+        lessonId: requiredUuid('Lekcja'),
+        studentId: requiredUuid('Uczeń'),
+        status: requiredEnum('Status obecności', attendanceStatusValues, attendanceStatusLabels),
+      })
+    )
+    .min(1, { message: 'Zaznacz co najmniej jedną obecność' })
+    .max(2000, { message: 'Można zapisać maksymalnie 2000 obecności naraz' }),
+});
+
+const attendanceSettingsSchema = z.object({
+  alertsEnabled: optionalBoolean('Alerty frekwencji'),
+  minAttendancePercent: z.number({ invalid_type_error: 'Pole "Minimalna frekwencja" musi być liczbą' })
+    .min(0, { message: 'Pole "Minimalna frekwencja" nie może być ujemne' })
+    .max(100, { message: 'Pole "Minimalna frekwencja" nie może przekraczać 100%' })
+    .optional(),
+  maxConsecutiveAbsences: z.number({ invalid_type_error: 'Pole "Nieobecności z rzędu" musi być liczbą' })
+    .int()
+    .min(0, { message: 'Pole "Nieobecności z rzędu" nie może być ujemne' })
+    .optional(),
+});
+
 class AttendanceController {
   async createAttendance(req: AuthRequest, res: Response, next: NextFunction) {
     try {
@@ -95,6 +136,66 @@ class AttendanceController {
       next(error);
     }
   }
+
+  async getCourseRegister(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { courseId } = req.params;
+      const filters = registerQuerySchema.parse(req.query);
+      const register = await attendanceService.getCourseRegister(courseId as string, req.user!.organizationId, filters);
+      res.json({ message: 'Dziennik obecności pobrany pomyślnie', data: register });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async bulkMarkRegister(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { courseId } = req.params;
+      const { entries } = bulkMarkRegisterSchema.parse(req.body);
+      const result = await attendanceService.bulkMarkRegister(courseId as string, entries, req.user!.organizationId);
+      res.json({ message: 'Dziennik obecności zaktualizowany pomyślnie', data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async exportCourseRegister(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { courseId } = req.params;
+      const { format, ...filters } = registerExportQuerySchema.parse(req.query);
+      const { content, fileName, contentType } = await attendanceService.exportCourseRegister(
+        courseId as string,
+        req.user!.organizationId,
+        format,
+        filters
+      );
+
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(content);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSettings(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const settings = await attendanceService.getAttendanceSettings(req.user!.organizationId);
+      res.json({ data: settings });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateSettings(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = attendanceSettingsSchema.parse(req.body);
+      const settings = await attendanceService.updateAttendanceSettings(req.user!.organizationId, data);
+      res.json({ message: 'Ustawienia frekwencji zostały zapisane', data: settings });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default new AttendanceController();
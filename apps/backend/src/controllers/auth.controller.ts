@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import authService from '../services/auth.service';
+import sessionService, { SessionMeta } from '../services/session.service';
 import { AuthRequest } from '../middleware/auth';
 import {
   requiredEmail,
@@ -31,11 +32,20 @@ const resetPasswordSchema = z.object({
   password: requiredString('Hasło', { min: 8 }),
 });
 
+const refreshSchema = z.object({
+  refreshToken: requiredString('Token odświeżania'),
+});
+
+const sessionMeta = (req: Request): SessionMeta => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
 export class AuthController {
   async register(req: Request, res: Response, next: NextFunction) {
     try {
       const data = registerSchema.parse(req.body);
-      const result = await authService.register(data);
+      const result = await authService.register(data, sessionMeta(req));
 
       res.status(201).json({
         message: 'Rejestracja zakończona pomyślnie',
@@ -49,7 +59,7 @@ export class AuthController {
   async login(req: Request, res: Response, next: NextFunction) {
     try {
       const data = loginSchema.parse(req.body);
-      const result = await authService.login(data);
+      const result = await authService.login(data, sessionMeta(req));
 
       res.json({
         message: 'Zalogowano pomyślnie',
@@ -87,7 +97,7 @@ export class AuthController {
       if (!idToken) {
         return res.status(400).json({ error: { message: 'Brak tokenu Google' } });
       }
-      const result = await authService.googleAuth(idToken);
+      const result = await authService.googleAuth(idToken, sessionMeta(req));
       return res.json({
         message: 'Zalogowano pomyślnie przez Google',
         data: result,
@@ -117,6 +127,61 @@ export class AuthController {
       return next(error);
     }
   }
+
+  async refresh(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { refreshToken } = refreshSchema.parse(req.body);
+      const result = await sessionService.refresh(refreshToken, sessionMeta(req));
+      return res.json({ data: result });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async logout(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      await sessionService.revokeSession(req.user!.sessionId, req.user!.id, 'LOGOUT');
+      return res.json({ message: 'Wylogowano pomyślnie' });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async logoutAll(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      // keepCurrent=true logs out other devices only
+      const keepCurrent = req.body?.keepCurrent === true;
+      const count = await sessionService.revokeAllSessions(
+        req.user!.id,
+        'LOGOUT_ALL',
+        keepCurrent ? req.user!.sessionId : undefined,
+      );
+      return res.json({
+        message: keepCurrent ? 'Wylogowano pozostałe sesje' : 'Wylogowano ze wszystkich urządzeń',
+        data: { count },
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getSessions(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const sessions = await sessionService.getActiveSessions(req.user!.id, req.user!.sessionId);
+      return res.json({ data: sessions });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async revokeSession(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      await sessionService.revokeSession(req.params.id, req.user!.id, 'LOGOUT');
+      return res.json({ message: 'Sesja została zakończona' });
+    } catch (error) {
+      return next(error);
+    }
+  }
 }
 
 export default new AuthController();
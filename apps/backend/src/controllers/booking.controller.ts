@@ -0,0 +1,102 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { addDays } from 'date-fns';
+import bookingService from '../services/booking.service';
+import { AuthRequest } from '../middleware/auth';
+import {
+  requiredUuid,
+  requiredDateString,
+  optionalDateString,
+  optionalEnum,
+  optionalBoolean,
+} from '../utils/validation-messages';
+
+const bookingSettingsSchema = z.object({
+  enabled: optionalBoolean('Rezerwacje online'),
+  minNoticeHours: z.number({ invalid_type_error: 'Pole "Minimalne wyprzedzenie" musi być liczbą' })
+    .int()
+    .min(0, { message: 'Pole "Minimalne wyprzedzenie" nie może być ujemne' })
+    .optional(),
+  maxBookingsPerWeek: z.number({ invalid_type_error: 'Pole "Limit rezerwacji w tygodniu" musi być liczbą' })
+    .int()
+    .min(0, { message: 'Pole "Limit rezerwacji w tygodniu" nie może być ujemne' })
+    .optional(),
+  maxDaysAhead: z.number({ invalid_type_error: 'Pole "Rezerwacja z wyprzedzeniem" musi być liczbą' })
+    .int()
+    .positive({ message: 'Pole "Rezerwacja z wyprzedzeniem" musi być liczbą dodatnią' })
+    .optional(),
+});
+
+const slotsQuerySchema = z.object({
+  enrollmentId: requiredUuid('Kurs'),
+  from: requiredDateString('Data od'),
+  to: optionalDateString('Data do'),
+});
+
+const bookLessonSchema = z.object({
+  enrollmentId: requiredUuid('Kurs'),
+  scheduledAt: requiredDateString('Termin'),
+  deliveryMode: optionalEnum('Tryb lekcji', ['IN_PERSON', 'ONLINE'] as const, {
+    IN_PERSON: 'Stacjonarnie',
+    ONLINE: 'Online',
+  }),
+});
+
+class BookingController {
+  async getSettings(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const settings = await bookingService.getBookingSettings(req.user!.organizationId);
+      res.json({ data: settings });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateSettings(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = bookingSettingsSchema.parse(req.body);
+      const settings = await bookingService.updateBookingSettings(req.user!.organizationId, data);
+      res.json({ message: 'Ustawienia rezerwacji zostały zapisane', data: settings });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getMyOptions(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const options = await bookingService.getBookingOptions(req.user!.id, req.user!.organizationId);
+      res.json({ data: options });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getMySlots(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const query = slotsQuerySchema.parse(req.query);
+      const slots = await bookingService.getBookableSlots(
+        req.user!.id,
+        req.user!.organizationId,
+        query.enrollmentId,
+        query.from,
+        // Default range: one week from the start date
+        query.to || addDays(query.from, 7)
+      );
+      res.json({ data: slots });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async bookLesson(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = bookLessonSchema.parse(req.body);
+      const lesson = await bookingService.bookLesson(req.user!.id, req.user!.organizationId, data);
+      res.status(201).json({ message: 'Lekcja została zarezerwowana', data: lesson });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new BookingController();
@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import certificateService from '../services/certificate.service';
+import { AuthRequest } from '../middleware/auth';
+import { requiredUuid, requiredEnum } from '../utils/validation-messages';
+
+const certificateTypeLabels = {
+  ATTENDANCE: 'Zaświadczenie o uczestnictwie',
+  COMPLETION: 'Certyfikat ukończenia',
+};
+
+const issueCertificateSchema = z.object({
+  enrollmentId: requiredUuid('Kurs'),
+  type: requiredEnum('Rodzaj zaświadczenia', ['ATTENDANCE', 'COMPLETION'] as const, certificateTypeLabels),
+});
+
+const templateSchema = z.object({
+  title: z.string().trim().min(1, { message: 'Tytuł zaświadczenia jest wymagany' }).max(200),
+  body: z.string().trim().min(1, { message: 'Treść zaświadczenia jest wymagana' }).max(3000),
+});
+
+const updateTemplatesSchema = z.object({
+  ATTENDANCE: templateSchema.optional(),
+  COMPLETION: templateSchema.optional(),
+});
+
+class CertificateController {
+  async getTemplates(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const templates = await certificateService.getTemplates(req.user!.organizationId);
+      res.json({ data: templates });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateTemplates(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = updateTemplatesSchema.parse(req.body);
+      const templates = await certificateService.updateTemplates(req.user!.organizationId, data);
+      res.json({ message: 'Szablony zaświadczeń zostały zapisane', data: templates });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getStudentCertificates(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { studentId } = req.params;
+      const certificates = await certificateService.getStudentCertificates(
+        studentId as string,
+        req.user!.organizationId
+      );
+      res.json({ data: certificates });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async issueCertificate(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = issueCertificateSchema.parse(req.body);
+      const certificate = await certificateService.issueCertificate(data, req.user!.organizationId, req.user!.id);
+      res.status(201).json({ message: 'Zaświadczenie zostało wystawione', data: certificate });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async revokeCertificate(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const certificate = await certificateService.revokeCertificate(id as string, req.user!.organizationId);
+      res.json({ message: 'Zaświadczenie zostało unieważnione', data: certificate });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async verifyCertificate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { code } = req.params;
+      const result = await certificateService.verifyCertificate(code as string);
+      if (!result) {
+        return res.status(404).json({
+          error: { code: 'NOT_FOUND', message: 'Nie znaleziono zaświadczenia o podanym kodzie' },
+        });
+      }
+      return res.json({ data: result });
+    } catch (error) {
+      return next(error);
+    }
+  }
+}
+
+export default new CertificateController();
@@ -1,16 +1,27 @@
 import { Response, NextFunction, Request } from 'express';
 import { z } from 'zod';
-import { ApplicationStatus } from '@prisma/client';
+import { ApplicationSource, ApplicationStatus, LanguageLevel } from '@prisma/client';
 import { AuthRequest } from '../middleware/auth';
 import courseApplicationService from '../services/courseApplication.service';
+import applicationPipelineService, { APPLICATION_SOURCE_LABELS } from '../services/applicationPipeline.service';
+import googleCalendarService from '../services/google-calendar.service';
 import {
   requiredString,
   requiredEmail,
   optionalString,
   optionalPhone,
+  optionalUuid,
+  requiredUuid,
   requiredEnum,
+  requiredDateString,
+  optionalDateString,
+  requiredPositiveInt,
+  optionalNonNegative,
+  optionalUrl,
 } from '../utils/validation-messages';
 
+const applicationSources = Object.keys(APPLICATION_SOURCE_LABELS) as [ApplicationSource, ...ApplicationSource[]];
+
 // Validation schemas
 const createPublicApplicationSchema = z.object({
   name: requiredString('Imię i nazwisko', { min: 2 }),
@@ -21,11 +32,73 @@ const createPublicApplicationSchema = z.object({
   languageLevel: optionalString('Poziom językowy'),
   availability: optionalString('Dostępność'),
   notes: optionalString('Uwagi'),
+  placementAttemptId: optionalUuid('Test poziomujący'),
+  source: z.enum(['WEBSITE', 'WIDGET']).optional(),
+  // Honeypot - hidden from people, bots tend to fill every field
+  website: z.string().optional(),
+});
+
+const publicCatalogQuerySchema = z.object({
+  language: optionalString('Język', { max: 10 }),
+  level: z.nativeEnum(LanguageLevel, { errorMap: () => ({ message: 'Nieprawidłowy poziom językowy' }) }).optional(),
+  deliveryMode: z.enum(['IN_PERSON', 'ONLINE']).optional(),
+  startDateFrom: optionalDateString('Początek kursu od'),
+  startDateTo: optionalDateString('Początek kursu do'),
+  hasFreeSeats: z.enum(['true', 'false']).optional(),
+});
+
+const createApplicationSchema = z.object({
+  name: requiredString('Imię i nazwisko', { min: 2 }),
+  email: requiredEmail('Email'),
+  phone: optionalPhone('Telefon'),
+  courseId: optionalUuid('Kurs'),
+  preferences: optionalString('Preferencje'),
+  languageLevel: optionalString('Poziom językowy'),
+  availability: optionalString('Dostępność'),
+  notes: optionalString('Uwagi'),
+  source: requiredEnum('Źródło', applicationSources, APPLICATION_SOURCE_LABELS),
 });
 
 const updateStatusSchema = z.object({
   status: requiredEnum('Status', ['NEW', 'ACCEPTED', 'REJECTED'] as const),
   internalNotes: optionalString('Notatki wewnętrzne'),
+  lossReason: optionalString('Powód utraty', { max: 500 }),
+});
+
+const moveToStageSchema = z.object({
+  stageId: requiredUuid('Etap'),
+  lossReason: optionalString('Powód utraty', { max: 500 }),
+});
+
+const stageSchema = z.object({
+  name: requiredString('Nazwa etapu', { max: 100 }),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, { message: 'Kolor musi mieć format #RRGGBB' }).optional(),
+  kind: requiredEnum('Rodzaj etapu', ['OPEN', 'WON', 'LOST'] as const, {
+    OPEN: 'W toku',
+    WON: 'Wygrane',
+    LOST: 'Przegrane',
+  }).optional(),
+});
+
+const updateStageSchema = stageSchema.omit({ kind: true }).partial();
+
+const reorderStagesSchema = z.object({
+  stageIds: z.array(z.string().uuid()).min(1, { message: 'Lista etapów jest wymagana' }),
+});
+
+const noteSchema = z.object({
+  message: requiredString('Notatka', { max: 2000 }),
+});
+
+const taskSchema = z.object({
+  title: requiredString('Zadanie', { max: 200 }),
+  dueAt: requiredDateString('Termin'),
+  assignedToId: optionalUuid('Osoba odpowiedzialna'),
+});
+
+const reportQuerySchema = z.object({
+  dateFrom: optionalDateString('Data od'),
+  dateTo: optionalDateString('Data do'),
 });
 
 const convertToStudentSchema = z.object({
@@ -39,6 +112,21 @@ const convertToStudentSchema = z.object({
   skipEnroll: z.boolean().optional(),
 });
 
+const scheduleTrialLessonSchema = z.object({
+  teacherId: requiredUuid('Lektor'),
+  scheduledAt: requiredDateString('Data i godzina'),
+  durationMinutes: requiredPositiveInt('Czas trwania').default(60),
+  deliveryMode: requiredEnum('Tryb lekcji', ['IN_PERSON', 'ONLINE'] as const, { IN_PERSON: 'Stacjonarnie', ONLINE: 'Online' }),
+  meetingUrl: optionalUrl('Link do spotkania'),
+  locationId: optionalUuid('Lokalizacja'),
+  classroomId: optionalUuid('Sala'),
+  pricePerLesson: optionalNonNegative('Cena lekcji'),
+});
+
+const archiveTrialSchema = z.object({
+  lossReason: optionalString('Powód utraty', { max: 500 }),
+});
+
 class CourseApplicationController {
   // === PUBLIC ENDPOINTS ===
 
@@ -52,10 +140,38 @@ class CourseApplicationController {
     }
   }
 
+  async getPublicCatalog(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { orgSlug } = req.params;
+      const query = publicCatalogQuerySchema.parse(req.query);
+      const data = await courseApplicationService.getPublicCatalog(orgSlug, {
+        language: query.language,
+        level: query.level,
+        deliveryMode: query.deliveryMode,
+        startDateFrom: query.startDateFrom ? new Date(query.startDateFrom) : undefined,
+        startDateTo: query.startDateTo ? new Date(query.startDateTo) : undefined,
+        hasFreeSeats: query.hasFreeSeats === 'true',
+      });
+      return res.json({ data });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
   async createPublicApplication(req: Request, res: Response, next: NextFunction) {
     try {
       const { orgSlug } = req.params;
-      const data = createPublicApplicationSchema.parse(req.body);
+      const { website, ...data } = createPublicApplicationSchema.parse(req.body);
+
+      // Honeypot filled in - answer like a success so the bot does not retry, but store nothing
+      if (website) {
+        console.warn(`Public application honeypot triggered for "${orgSlug}" from ${req.ip}`);
+        return res.status(201).json({
+          message: 'Zgłoszenie zostało wysłane pomyślnie',
+          data: null,
+        });
+      }
+
       const application = await courseApplicationService.createPublicApplication(orgSlug, data);
       return res.status(201).json({
         message: 'Zgłoszenie zostało wysłane pomyślnie',
@@ -70,11 +186,13 @@ class CourseApplicationController {
 
   async getApplications(req: AuthRequest, res: Response, next: NextFunction) {
     try {
-      const { status, search } = req.query;
+      const { status, stageId, source, search } = req.query;
       const applications = await courseApplicationService.getApplications(
         req.user!.organizationId,
         {
           status: status as ApplicationStatus | undefined,
+          stageId: stageId as string | undefined,
+          source: source as ApplicationSource | undefined,
           search: search as string | undefined,
         },
       );
@@ -97,6 +215,36 @@ class CourseApplicationController {
     }
   }
 
+  async getSuggestedCourses(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const suggestions = await courseApplicationService.getSuggestedCourses(
+        id,
+        req.user!.organizationId,
+      );
+      return res.json({ data: suggestions });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async createApplication(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = createApplicationSchema.parse(req.body);
+      const application = await courseApplicationService.createApplication(
+        data,
+        req.user!.organizationId,
+        req.user!.id,
+      );
+      return res.status(201).json({
+        message: 'Zgłoszenie zostało dodane',
+        data: application,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
   async updateStatus(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
@@ -106,6 +254,7 @@ class CourseApplicationController {
         req.user!.organizationId,
         data.status as ApplicationStatus,
         data.internalNotes,
+        { lossReason: data.lossReason, userId: req.user!.id },
       );
       return res.json({
         message: 'Status zgłoszenia został zaktualizowany',
@@ -124,6 +273,7 @@ class CourseApplicationController {
         id,
         req.user!.organizationId,
         data,
+        req.user!.id,
       );
       return res.status(201).json({
         message: 'Uczeń został utworzony na podstawie zgłoszenia',
@@ -133,6 +283,210 @@ class CourseApplicationController {
       return next(error);
     }
   }
+
+  // === TRIAL LESSON ===
+
+  async scheduleTrialLesson(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const data = scheduleTrialLessonSchema.parse(req.body);
+
+      if (data.deliveryMode === 'IN_PERSON' && !data.classroomId) {
+        return res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Sala jest wymagana dla lekcji stacjonarnej.',
+          },
+        });
+      }
+
+      const result = await courseApplicationService.scheduleTrialLesson(
+        id,
+        req.user!.organizationId,
+        { ...data, scheduledAt: new Date(data.scheduledAt) },
+        req.user!.id,
+      );
+
+      googleCalendarService.createEventFromLesson(result.lesson.id, req.user!.id).catch(error => {
+        console.error('Failed to sync trial lesson to Google Calendar:', error);
+      });
+
+      return res.status(201).json({
+        message: 'Lekcja próbna została umówiona',
+        data: result,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async convertTrialStudent(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const result = await courseApplicationService.convertTrialStudent(id, req.user!.organizationId, req.user!.id);
+      return res.json({
+        message: 'Uczeń z lekcji próbnej został zapisany jako pełny uczeń',
+        data: result,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async archiveTrialStudent(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const data = archiveTrialSchema.parse(req.body);
+      const application = await courseApplicationService.archiveTrialStudent(
+        id,
+        req.user!.organizationId,
+        data.lossReason,
+        req.user!.id,
+      );
+      return res.json({
+        message: 'Uczeń z lekcji próbnej został zarchiwizowany',
+        data: application,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  // === PIPELINE (CRM) ===
+
+  async moveToStage(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const data = moveToStageSchema.parse(req.body);
+      const application = await courseApplicationService.moveToStage(
+        id,
+        req.user!.organizationId,
+        data.stageId,
+        { lossReason: data.lossReason, userId: req.user!.id },
+      );
+      return res.json({
+        message: 'Zgłoszenie zostało przeniesione',
+        data: application,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getStages(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const stages = await applicationPipelineService.getStages(req.user!.organizationId);
+      return res.json({ data: stages });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async createStage(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = stageSchema.parse(req.body);
+      const stage = await applicationPipelineService.createStage(data, req.user!.organizationId);
+      return res.status(201).json({ message: 'Etap został dodany', data: stage });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async updateStage(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { stageId } = req.params;
+      const data = updateStageSchema.parse(req.body);
+      const stage = await applicationPipelineService.updateStage(stageId, data, req.user!.organizationId);
+      return res.json({ message: 'Etap został zaktualizowany', data: stage });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async deleteStage(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { stageId } = req.params;
+      await applicationPipelineService.deleteStage(stageId, req.user!.organizationId);
+      return res.json({ message: 'Etap został usunięty' });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async reorderStages(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { stageIds } = reorderStagesSchema.parse(req.body);
+      const stages = await applicationPipelineService.reorderStages(stageIds, req.user!.organizationId);
+      return res.json({ message: 'Kolejność etapów została zapisana', data: stages });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getTimeline(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const timeline = await applicationPipelineService.getTimeline(id, req.user!.organizationId);
+      return res.json({ data: timeline });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async addNote(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { message } = noteSchema.parse(req.body);
+      const activity = await applicationPipelineService.addNote(id, message, req.user!.organizationId, req.user!.id);
+      return res.status(201).json({ message: 'Notatka została dodana', data: activity });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async createTask(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const data = taskSchema.parse(req.body);
+      const task = await applicationPipelineService.createTask(id, data, req.user!.organizationId, req.user!.id);
+      return res.status(201).json({ message: 'Zadanie zostało dodane', data: task });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async toggleTask(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { taskId } = req.params;
+      const task = await applicationPipelineService.toggleTask(taskId, req.user!.organizationId, req.user!.id);
+      return res.json({
+        message: task.completedAt ? 'Zadanie zostało wykonane' : 'Zadanie zostało przywrócone',
+        data: task,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async deleteTask(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { taskId } = req.params;
+      await applicationPipelineService.deleteTask(taskId, req.user!.organizationId);
+      return res.json({ message: 'Zadanie zostało usunięte' });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getConversionReport(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const filters = reportQuerySchema.parse(req.query);
+      const report = await applicationPipelineService.getConversionReport(req.user!.organizationId, filters);
+      return res.json({ data: report });
+    } catch (error) {
+      return next(error);
+    }
+  }
 }
 
 export default new CourseApplicationController();
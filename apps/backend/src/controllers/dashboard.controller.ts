@@ -37,7 +37,7 @@ export class DashboardController {
         return;
       }
 
-      const { rangeType, year, month } = req.query;
+      const { rangeType, year, month, reportingCurrency } = req.query;
 
       // Validate rangeType
       const validRangeTypes: DateRangeType[] = ['last30days', 'month', 'year'];
@@ -58,6 +58,7 @@ export class DashboardController {
         rangeType: range,
         year: year ? parseInt(year as string, 10) : undefined,
         month: month ? parseInt(month as string, 10) : undefined,
+        reportingCurrency: reportingCurrency ? String(reportingCurrency) : undefined,
       });
 
       res.json({
@@ -0,0 +1,388 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import invoiceService from '../services/invoice.service';
+import { InvoiceStatus, InvoiceType, InvoiceSeriesResetPeriod } from '@prisma/client';
+import {
+  requiredUuid,
+  optionalUuid,
+  requiredString,
+  optionalString,
+  requiredEnum,
+  optionalEnum,
+  optionalDateString,
+  optionalBoolean,
+  messages,
+} from '../utils/validation-messages';
+
+const invoiceTypeLabels = {
+  INVOICE: 'Faktura',
+  CORRECTION: 'Faktura korygująca',
+};
+const resetPeriodLabels = {
+  MONTHLY: 'Co miesiąc',
+  YEARLY: 'Co rok',
+  NEVER: 'Nigdy',
+};
+
+const invoiceTypeValues = Object.values(InvoiceType) as [string, ...string[]];
+const resetPeriodValues = Object.values(InvoiceSeriesResetPeriod) as [string, ...string[]];
+
+const taxRateSchema = z
+  .number({ invalid_type_error: 'Stawka VAT musi być liczbą' })
+  .min(0, 'Stawka VAT nie może być ujemna')
+  .max(100, 'Stawka VAT nie może przekraczać 100%')
+  .nullable();
+
+const issueInvoiceSchema = z.object({
+  paymentId: requiredUuid('Płatność'),
+  seriesId: optionalUuid('Seria numeracji'),
+  issueDate: optionalDateString('Data wystawienia'),
+  dueDate: optionalDateString('Termin płatności'),
+  taxRate: taxRateSchema.optional(),
+  description: optionalString('Opis'),
+  buyerName: optionalString('Nabywca'),
+  buyerAddress: optionalString('Adres nabywcy'),
+  notes: optionalString('Uwagi'),
+});
+
+const correctInvoiceSchema = z.object({
+  correctedTotalAmount: z.number({
+    required_error: 'Kwota po korekcie jest wymagana',
+    invalid_type_error: 'Kwota po korekcie musi być liczbą',
+  }).min(0, 'Kwota po korekcie nie może być ujemna'),
+  reason: requiredString('Przyczyna korekty'),
+  seriesId: optionalUuid('Seria numeracji'),
+});
+
+const voidInvoiceSchema = z.object({
+  reason: requiredString('Powód anulowania'),
+});
+
+const createSeriesSchema = z.object({
+  name: requiredString('Nazwa'),
+  type: optionalEnum('Typ', invoiceTypeValues, invoiceTypeLabels),
+  pattern: requiredString('Wzorzec'),
+  resetPeriod: requiredEnum('Reset numeracji', resetPeriodValues, resetPeriodLabels),
+  isDefault: optionalBoolean('Domyślna'),
+  isActive: optionalBoolean('Aktywna'),
+});
+
+const updateSeriesSchema = z.object({
+  name: optionalString('Nazwa'),
+  pattern: optionalString('Wzorzec'),
+  resetPeriod: optionalEnum('Reset numeracji', resetPeriodValues, resetPeriodLabels),
+  isDefault: optionalBoolean('Domyślna'),
+  isActive: optionalBoolean('Aktywna'),
+});
+
+const invoicingSettingsSchema = z.object({
+  autoIssueOnPayment: optionalBoolean('Automatyczne wystawianie'),
+  taxRate: taxRateSchema.optional(),
+  paymentTermDays: z.number().int().min(0, 'Termin płatności nie może być ujemny').max(365).optional(),
+  defaultDescription: optionalString('Domyślny opis'),
+  notes: optionalString('Uwagi'),
+});
+
+class InvoiceController {
+  /**
+   * Get invoices with filters
+   * GET /api/invoices
+   */
+  async getInvoices(req: AuthRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId;
+      const { studentId, status, type, dateFrom, dateTo, search, page, pageSize } = req.query;
+
+      const result = await invoiceService.getInvoices({
+        organizationId,
+        studentId: studentId as string | undefined,
+        status: status as InvoiceStatus | undefined,
+        type: type as InvoiceType | undefined,
+        dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
+        dateTo: dateTo ? new Date(dateTo as string) : undefined,
+        search: search as string | undefined,
+        page: page ? parseInt(page as string) : undefined,
+        pageSize: pageSize ? parseInt(pageSize as string) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Nie udało się pobrać faktur',
+      });
+    }
+  }
+
+  /**
+   * Get invoice by ID
+   * GET /api/invoices/:id
+   */
+  async getInvoiceById(req: AuthRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId;
+      const invoice = await invoiceService.getInvoiceById(req.params.id as string, organizationId);
+
+      res.json({
+        success: true,
+        data: invoice,
+      });
+    } catch (error) {
+      console.error('Error fetching invoice:', error);
+      res.status(404).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Nie udało się pobrać faktury',
+      });
+    }
+  }
+
+  /**
+   * Issue invoice for a completed payment
+   * POST /api/invoices
+   */
+  async issueInvoice(req: AuthRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId;
+      const data = issueInvoiceSchema.parse(req.body);
+
+      const invoice = await invoiceService.issueInvoice(
+        data.paymentId,
+        organizationId,
+        {
+          seriesId: data.seriesId,
+          issueDate: data.issueDate ? new Date(data.issueDate) : undefined,
+          dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
+          taxRate: data.taxRate,
+          description: data.description,
+          buyerName: data.buyerName,
+          buyerAddress: data.buyerAddress,
+          notes: data.notes,
+        },
+        req.user!.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: invoice,
+        message: `Wystawiono fakturę ${invoice.invoiceNumber}`,
+      });
+    } catch (error) {
+      console.error('Error issuing invoice:', error);
+      this.handleError(res, error, 'Nie udało się wystawić faktury');
+    }
+  }
+
+  /**
+   * Download invoice PDF
+   * GET /api/invoices/:id/pdf
+   */
+  async downloadInvoice(req: AuthRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId;
+      const { buffer, fileName } = await invoiceService.generatePdf(req.params.id as string, organizationId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error('Error generating invoice PDF:', error);
+      res.status(404).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Nie udało się pobrać faktury',
+      });
+    }
+  }
+
+  /**
+   * Issue credit note for invoice
+   * POST /api/invoices/:id/correct
+   */
+  async correctInvoice(req: AuthRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId;
+      const data = correctInvoiceSchema.parse(req.body);
+
+      const correction = await invoiceService.correctInvoice(
+        req.params.id as string,
+        organizationId,
+        data,
+        req.user!.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: correction,
+        message: `Wystawiono fakturę korygującą ${correction.invoiceNumber}`,
+      });
+    } catch (error) {
+      console.error('Error correcting invoice:', error);
+      this.handleError(res, error, 'Nie udało się wystawić korekty');
+    }
+  }
+
+  /**
+   * Void invoice
+   * POST /api/invoices/:id/void
+   */
+  async voidInvoice(req: AuthRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId;
+      const { reason } = voidInvoiceSchema.parse(req.body);
+
+      const invoice = await invoiceService.voidInvoice(req.params.id as string, organizationId, reason);
+
+      res.json({
+        success: true,
+        data: invoice,
+        message: 'Faktura została anulowana',
+      });
+    } catch (error) {
+      console.error('Error voiding invoice:', error);
+      this.handleError(res, error, 'Nie udało się anulować faktury');
+    }
+  }
+
+  /**
+   * Get numbering series
+   * GET /api/invoices/series
+   */
+  async getSeries(req: AuthRequest, res: Response) {
+    try {
+      const series = await invoiceService.getSeries(req.user!.organizationId);
+      res.json({ success: true, data: series });
+    } catch (error) {
+      console.error('Error fetching invoice series:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Nie udało się pobrać serii numeracji',
+      });
+    }
+  }
+
+  /**
+   * Create numbering series
+   * POST /api/invoices/series
+   */
+  async createSeries(req: AuthRequest, res: Response) {
+    try {
+      const data = createSeriesSchema.parse(req.body);
+      const series = await invoiceService.createSeries(req.user!.organizationId, {
+        ...data,
+        type: data.type as InvoiceType | undefined,
+        resetPeriod: data.resetPeriod as InvoiceSeriesResetPeriod,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: series,
+        message: 'Seria numeracji została utworzona',
+      });
+    } catch (error) {
+      console.error('Error creating invoice series:', error);
+      this.handleError(res, error, 'Nie udało się utworzyć serii numeracji');
+    }
+  }
+
+  /**
+   * Update numbering series
+   * PUT /api/invoices/series/:id
+   */
+  async updateSeries(req: AuthRequest, res: Response) {
+    try {
+      const data = updateSeriesSchema.parse(req.body);
+      const series = await invoiceService.updateSeries(req.params.id as string, req.user!.organizationId, {
+        ...data,
+        resetPeriod: data.resetPeriod as InvoiceSeriesResetPeriod | undefined,
+      });
+
+      res.json({
+        success: true,
+        data: series,
+        message: 'Seria numeracji została zaktualizowana',
+      });
+    } catch (error) {
+      console.error('Error updating invoice series:', error);
+      this.handleError(res, error, 'Nie udało się zaktualizować serii numeracji');
+    }
+  }
+
+  /**
+   * Delete numbering series
+   * DELETE /api/invoices/series/:id
+   */
+  async deleteSeries(req: AuthRequest, res: Response) {
+    try {
+      await invoiceService.deleteSeries(req.params.id as string, req.user!.organizationId);
+      res.json({
+        success: true,
+        message: 'Seria numeracji została usunięta',
+      });
+    } catch (error) {
+      console.error('Error deleting invoice series:', error);
+      this.handleError(res, error, 'Nie udało się usunąć serii numeracji');
+    }
+  }
+
+  /**
+   * Get invoicing settings
+   * GET /api/invoices/settings
+   */
+  async getSettings(req: AuthRequest, res: Response) {
+    try {
+      const settings = await invoiceService.getInvoicingSettings(req.user!.organizationId);
+      res.json({ success: true, data: settings });
+    } catch (error) {
+      console.error('Error fetching invoicing settings:', error);
+      res.status(500).json({
+        success: false,
+        message: messages.system.internalError,
+      });
+    }
+  }
+
+  /**
+   * Update invoicing settings
+   * PUT /api/invoices/settings
+   */
+  async updateSettings(req: AuthRequest, res: Response) {
+    try {
+      const data = invoicingSettingsSchema.parse(req.body);
+      const settings = await invoiceService.updateInvoicingSettings(req.user!.organizationId, data);
+
+      res.json({
+        success: true,
+        data: settings,
+        message: 'Ustawienia faktur zostały zapisane',
+      });
+    } catch (error) {
+      console.error('Error updating invoicing settings:', error);
+      this.handleError(res, error, 'Nie udało się zapisać ustawień faktur');
+    }
+  }
+
+  /**
+   * Map service and validation errors to 400 responses
+   */
+  private handleError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: error.errors[0]?.message || messages.system.validationFailed,
+        errors: error.errors,
+      });
+    }
+
+    return res.status(400).json({
+      success: false,
+      message: error instanceof Error ? error.message : fallback,
+    });
+  }
+}
+
+export default new InvoiceController();
@@ -48,6 +48,7 @@ const createLessonSchema = z.object({
   isRecurring: requiredBoolean('Cykliczna').default(false),
   recurringPatternId: optionalUuid('Wzorzec cykliczny'),
   teacherRate: optionalNonNegative('Stawka lektora'),
+  participantStudentIds: z.array(requiredUuid('ID ucznia')).optional(),
 });
 
 const updateLessonSchema = z.object({
@@ -64,6 +65,10 @@ const updateLessonSchema = z.object({
   teacherRate: optionalNonNegative('Stawka lektora'),
 });
 
+const selfCancelSchema = z.object({
+  reason: optionalString('Powód odwołania', { max: 500 }),
+});
+
 class LessonController {
   async getLessons(req: AuthRequest, res: Response, next: NextFunction) {
     try {
@@ -234,11 +239,11 @@ class LessonController {
     try {
       const { teacherId, studentId, scheduledAt, durationMinutes, excludeLessonId } = req.query;
 
-      if (!teacherId || !studentId || !scheduledAt || !durationMinutes) {
+      if (!teacherId || !scheduledAt || !durationMinutes) {
         return res.status(400).json({
           error: {
             code: 'VALIDATION_ERROR',
-            message: 'Brak wymaganych parametrów: lektor, uczeń, data i godzina, czas trwania',
+            message: 'Brak wymaganych parametrów: lektor, data i godzina, czas trwania',
           },
         });
       }
@@ -246,7 +251,7 @@ class LessonController {
       const conflicts = await lessonService.checkConflicts(
         req.user!.organizationId,
         String(teacherId),
-        String(studentId),
+        studentId ? String(studentId) : null,
         new Date(String(scheduledAt)),
         Number(durationMinutes),
         excludeLessonId ? String(excludeLessonId) : undefined
@@ -305,6 +310,34 @@ class LessonController {
     }
   }
 
+  async getSelfCancellationPreview(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const preview = await lessonService.getStudentCancellationPreview(
+        req.params.id as string,
+        req.user!.id,
+        req.user!.organizationId
+      );
+      return res.json({ message: 'Podgląd odwołania pobrany pomyślnie', data: preview });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async selfCancelLesson(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { reason } = selfCancelSchema.parse(req.body);
+      const lesson = await lessonService.cancelLessonByStudent(
+        req.params.id as string,
+        req.user!.id,
+        req.user!.organizationId,
+        reason
+      );
+      return res.json({ message: 'Lekcja została odwołana', data: lesson });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
   async bulkUpdateStatus(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const organizationId = req.user!.organizationId;
@@ -40,6 +40,13 @@ const sendBulkEmailSchema = z.object({
   scheduledAt: z.string().optional(),
 });
 
+const updateScheduledMailingSchema = z.object({
+  subject: z.string().min(1, 'Pole "Temat" jest wymagane').optional(),
+  message: z.string().min(1, 'Pole "Wiadomość" jest wymagane').optional(),
+  mailType: z.enum(['custom', 'welcome', 'reminder', 'payment', 'teacher-rating', 'survey', 'complaint']).optional(),
+  scheduledAt: z.string().refine((value) => !isNaN(Date.parse(value)), 'Nieprawidłowa data wysyłki').optional(),
+});
+
 // Request type with multer files
 interface MulterRequest extends AuthRequest {
   files?: Express.Multer.File[];
@@ -111,6 +118,7 @@ export const sendBulkEmail = async (req: MulterRequest, res: Response) => {
       organizationId,
       attachments: attachments.length > 0 ? attachments : undefined,
       scheduledAt: validatedData.scheduledAt ? new Date(validatedData.scheduledAt) : undefined,
+      createdById: req.user!.id,
     });
 
     return res.status(200).json(result);
@@ -149,3 +157,53 @@ export const getDebtorsCount = async (req: AuthRequest, res: Response) => {
     return res.status(500).json({ message: 'Nie udało się pobrać liczby dłużników' });
   }
 };
+
+export const getScheduledMailings = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user!.organizationId!;
+    const mailings = await mailingService.getScheduledMailings(organizationId);
+    return res.status(200).json(mailings);
+  } catch (error) {
+    console.error('Error getting scheduled mailings:', error);
+    return res.status(500).json({ message: 'Nie udało się pobrać zaplanowanych wysyłek' });
+  }
+};
+
+export const updateScheduledMailing = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = updateScheduledMailingSchema.parse(req.body);
+    const organizationId = req.user!.organizationId!;
+
+    const result = await mailingService.updateScheduledMailing(req.params.id, organizationId, {
+      subject: validatedData.subject,
+      message: validatedData.message,
+      mailType: validatedData.mailType,
+      scheduledAt: validatedData.scheduledAt ? new Date(validatedData.scheduledAt) : undefined,
+    });
+
+    return res.status(200).json({ message: 'Zaplanowana wysyłka została zaktualizowana', data: result });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Błąd walidacji', errors: error.errors });
+    }
+    if (error.message === 'Scheduled mailing not found') {
+      return res.status(404).json({ message: 'Nie znaleziono zaplanowanej wysyłki' });
+    }
+    console.error('Error updating scheduled mailing:', error);
+    return res.status(400).json({ message: error.message || 'Nie udało się zaktualizować wysyłki' });
+  }
+};
+
+export const cancelScheduledMailing = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user!.organizationId!;
+    const result = await mailingService.cancelScheduledMailing(req.params.id, organizationId);
+    return res.status(200).json(result);
+  } catch (error: any) {
+    if (error.message === 'Scheduled mailing not found') {
+      return res.status(404).json({ message: 'Nie znaleziono zaplanowanej wysyłki' });
+    }
+    console.error('Error cancelling scheduled mailing:', error);
+    return res.status(400).json({ message: error.message || 'Nie udało się anulować wysyłki' });
+  }
+};
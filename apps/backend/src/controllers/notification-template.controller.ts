@@ -0,0 +1,128 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import notificationTemplateService from '../services/notification-template.service';
+import { AuthRequest } from '../middleware/auth';
+import { EMAIL_TRIGGER_EVENT_KEYS, EMAIL_TRIGGER_EVENTS } from '../utils/email-templates';
+import {
+  requiredString,
+  optionalString,
+  optionalBoolean,
+  requiredEnum,
+  optionalEmail,
+} from '../utils/validation-messages';
+
+const triggerEventLabels = Object.fromEntries(
+  EMAIL_TRIGGER_EVENT_KEYS.map((key) => [key, EMAIL_TRIGGER_EVENTS[key].label])
+) as Record<(typeof EMAIL_TRIGGER_EVENT_KEYS)[number], string>;
+
+const createTemplateSchema = z.object({
+  name: requiredString('Nazwa szablonu', { min: 2 }),
+  triggerEvent: requiredEnum('Zdarzenie', EMAIL_TRIGGER_EVENT_KEYS, triggerEventLabels),
+  subjectTemplate: requiredString('Temat'),
+  bodyTemplate: requiredString('Treść'),
+  isActive: optionalBoolean('Aktywny'),
+});
+
+const updateTemplateSchema = z.object({
+  name: optionalString('Nazwa szablonu', { min: 2 }),
+  subjectTemplate: optionalString('Temat', { min: 1 }),
+  bodyTemplate: optionalString('Treść', { min: 1 }),
+  isActive: optionalBoolean('Aktywny'),
+});
+
+const draftSchema = z.object({
+  triggerEvent: requiredEnum('Zdarzenie', EMAIL_TRIGGER_EVENT_KEYS, triggerEventLabels),
+  subjectTemplate: requiredString('Temat'),
+  bodyTemplate: requiredString('Treść'),
+});
+
+const testSendSchema = draftSchema.extend({
+  to: optionalEmail('Adres odbiorcy'),
+});
+
+class NotificationTemplateController {
+  async getTriggerEvents(_req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const triggers = notificationTemplateService.getTriggerEvents();
+      res.json({ message: 'Zdarzenia pobrane pomyślnie', data: triggers });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getTemplates(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const templates = await notificationTemplateService.getTemplates(req.user!.organizationId);
+      res.json({ message: 'Szablony pobrane pomyślnie', data: templates });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getTemplateById(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const template = await notificationTemplateService.getTemplateById(req.params.id as string, req.user!.organizationId);
+      res.json({ message: 'Szablon pobrany pomyślnie', data: template });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createTemplate(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = createTemplateSchema.parse(req.body);
+      const template = await notificationTemplateService.createTemplate({
+        ...data,
+        organizationId: req.user!.organizationId,
+      });
+      res.status(201).json({ message: 'Szablon utworzony pomyślnie', data: template });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateTemplate(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = updateTemplateSchema.parse(req.body);
+      const template = await notificationTemplateService.updateTemplate(req.params.id as string, req.user!.organizationId, data);
+      res.json({ message: 'Szablon zaktualizowany pomyślnie', data: template });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteTemplate(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const result = await notificationTemplateService.deleteTemplate(req.params.id as string, req.user!.organizationId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async previewTemplate(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = draftSchema.parse(req.body);
+      const preview = await notificationTemplateService.previewTemplate(req.user!.organizationId, data);
+      res.json({ message: 'Podgląd wygenerowany', data: preview });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async sendTestEmail(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { to, ...draft } = testSendSchema.parse(req.body);
+      const result = await notificationTemplateService.sendTestEmail(
+        req.user!.organizationId,
+        draft,
+        to || req.user!.email
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new NotificationTemplateController();
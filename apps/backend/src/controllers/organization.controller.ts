@@ -78,7 +78,10 @@ class OrganizationController {
         return;
       }
 
-      const userOrganization = await organizationService.switchOrganization(userId, organizationId);
+      const userOrganization = await organizationService.switchOrganization(userId, organizationId, {
+        userAgent: req.get('user-agent'),
+        ipAddress: req.ip,
+      });
 
       res.json({
         success: true,
@@ -0,0 +1,135 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { PaymentMethod } from '@prisma/client';
+import packageService from '../services/package.service';
+import { AuthRequest } from '../middleware/auth';
+import {
+  requiredUuid,
+  optionalUuid,
+  requiredString,
+  optionalString,
+  requiredPositiveInt,
+  optionalPositiveInt,
+  requiredNonNegative,
+  optionalNonNegative,
+  optionalBoolean,
+  optionalEnum,
+  optionalDateString,
+} from '../utils/validation-messages';
+
+const paymentMethodValues = Object.values(PaymentMethod) as [string, ...string[]];
+const paymentMethodLabels = {
+  CASH: 'Gotówka',
+  BANK_TRANSFER: 'Przelew',
+  CARD: 'Karta',
+  ONLINE: 'Online',
+  OTHER: 'Inne',
+};
+
+const createPackageSchema = z.object({
+  name: requiredString('Nazwa pakietu', { min: 2 }),
+  description: optionalString('Opis'),
+  totalHours: requiredNonNegative('Liczba godzin').positive({ message: 'Liczba godzin musi być większa od 0' }),
+  price: requiredNonNegative('Cena'),
+  currency: optionalString('Waluta'),
+  validityDays: requiredPositiveInt('Ważność (dni)'),
+  isActive: optionalBoolean('Aktywny'),
+});
+
+const updatePackageSchema = z.object({
+  name: optionalString('Nazwa pakietu', { min: 2 }),
+  description: optionalString('Opis'),
+  totalHours: optionalNonNegative('Liczba godzin'),
+  price: optionalNonNegative('Cena'),
+  currency: optionalString('Waluta'),
+  validityDays: optionalPositiveInt('Ważność (dni)'),
+  isActive: optionalBoolean('Aktywny'),
+});
+
+const assignPackageSchema = z.object({
+  studentId: requiredUuid('Uczeń'),
+  courseId: optionalUuid('Kurs'),
+  paymentMethod: optionalEnum('Metoda płatności', paymentMethodValues, paymentMethodLabels),
+  dueAt: optionalDateString('Termin płatności'),
+  notes: optionalString('Notatki'),
+});
+
+class PackageController {
+  async getPackages(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const isActive = req.query.isActive === 'true' ? true : req.query.isActive === 'false' ? false : undefined;
+      const packages = await packageService.getPackages(req.user!.organizationId, { isActive });
+      res.json({ message: 'Pakiety pobrane pomyślnie', data: packages });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getPackageById(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const pkg = await packageService.getPackageById(req.params.id as string, req.user!.organizationId);
+      res.json({ message: 'Pakiet pobrany pomyślnie', data: pkg });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createPackage(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = createPackageSchema.parse(req.body);
+      const pkg = await packageService.createPackage({
+        ...data,
+        organizationId: req.user!.organizationId,
+      });
+      res.status(201).json({ message: 'Pakiet utworzony pomyślnie', data: pkg });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updatePackage(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = updatePackageSchema.parse(req.body);
+      const pkg = await packageService.updatePackage(req.params.id as string, req.user!.organizationId, data);
+      res.json({ message: 'Pakiet zaktualizowany pomyślnie', data: pkg });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deletePackage(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const result = await packageService.deletePackage(req.params.id as string, req.user!.organizationId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async assignPackage(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = assignPackageSchema.parse(req.body);
+      const result = await packageService.assignPackageToStudent(req.params.id as string, req.user!.organizationId, {
+        studentId: data.studentId,
+        courseId: data.courseId,
+        paymentMethod: data.paymentMethod as PaymentMethod | undefined,
+        dueAt: data.dueAt ? new Date(data.dueAt) : undefined,
+        notes: data.notes,
+      });
+      res.status(201).json({ message: 'Pakiet przypisany uczniowi', data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getStudentPackages(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const packages = await packageService.getStudentPackages(req.params.studentId as string, req.user!.organizationId);
+      res.json({ message: 'Pakiety ucznia pobrane pomyślnie', data: packages });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new PackageController();
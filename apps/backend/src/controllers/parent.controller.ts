@@ -0,0 +1,110 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import parentService from '../services/parent.service';
+import { AuthRequest } from '../middleware/auth';
+import {
+  requiredEmail,
+  requiredString,
+  optionalString,
+  optionalPhone,
+  optionalBoolean,
+} from '../utils/validation-messages';
+
+const linkParentSchema = z.object({
+  email: requiredEmail('Email'),
+  firstName: requiredString('Imię', { min: 2 }),
+  lastName: requiredString('Nazwisko', { min: 2 }),
+  phone: optionalPhone('Telefon'),
+  relationshipType: optionalString('Rodzaj relacji'),
+  canManagePayments: optionalBoolean('Zarządzanie płatnościami'),
+  canManageSchedule: optionalBoolean('Zarządzanie grafikiem'),
+});
+
+const updateRelationSchema = z.object({
+  relationshipType: optionalString('Rodzaj relacji'),
+  canManagePayments: optionalBoolean('Zarządzanie płatnościami'),
+  canManageSchedule: optionalBoolean('Zarządzanie grafikiem'),
+});
+
+const cancelLessonSchema = z.object({
+  reason: optionalString('Powód odwołania', { max: 500 }),
+});
+
+class ParentController {
+  async getStudentParents(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const parents = await parentService.getStudentParents(req.params.studentId as string, req.user!.organizationId);
+      res.json({ message: 'Rodzice ucznia pobrani pomyślnie', data: parents });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async linkParent(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = linkParentSchema.parse(req.body);
+      const relation = await parentService.linkParent(req.params.studentId as string, req.user!.organizationId, data);
+      res.status(201).json({ message: 'Rodzic został powiązany z uczniem', data: relation });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateRelation(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = updateRelationSchema.parse(req.body);
+      const relation = await parentService.updateRelation(req.params.id as string, req.user!.organizationId, data);
+      res.json({ message: 'Uprawnienia rodzica zaktualizowane', data: relation });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async unlinkParent(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const result = await parentService.unlinkParent(req.params.id as string, req.user!.organizationId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getMyChildren(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const children = await parentService.getChildrenOverview(req.user!.id, req.user!.organizationId);
+      res.json({ message: 'Dane dzieci pobrane pomyślnie', data: children });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getCancellationPreview(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const preview = await parentService.getCancellationPreview(
+        req.user!.id,
+        req.params.lessonId as string,
+        req.user!.organizationId
+      );
+      res.json({ message: 'Podgląd odwołania pobrany pomyślnie', data: preview });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async cancelLesson(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { reason } = cancelLessonSchema.parse(req.body);
+      const lesson = await parentService.cancelLesson(
+        req.user!.id,
+        req.params.lessonId as string,
+        req.user!.organizationId,
+        reason
+      );
+      res.json({ message: 'Lekcja została odwołana', data: lesson });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ParentController();
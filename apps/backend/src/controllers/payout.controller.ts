@@ -1,7 +1,62 @@
 import { Response } from 'express';
-import { TeacherPayoutStatus } from '@prisma/client';
+import { z } from 'zod';
+import { CourseFormat, LessonDeliveryMode, TeacherPayoutStatus, TeacherRateType, UserRole } from '@prisma/client';
 import payoutService from '../services/payout.service';
+import payrollService from '../services/payroll.service';
+import teacherRateRuleService from '../services/teacherRateRule.service';
+import teacherEarningsService from '../services/teacherEarnings.service';
+import bankTransferService from '../services/bankTransfer.service';
 import { AuthRequest } from '../middleware/auth';
+import { requiredString, requiredNonNegative, optionalBoolean, requiredEnum, optionalDateString } from '../utils/validation-messages';
+
+const timeField = (fieldName: string) =>
+  z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: `Pole "${fieldName}" musi mieć format GG:MM` })
+    .nullable()
+    .optional();
+
+const participantsField = (fieldName: string) =>
+  z
+    .number({ invalid_type_error: `Pole "${fieldName}" musi być liczbą` })
+    .int({ message: `Pole "${fieldName}" musi być liczbą całkowitą` })
+    .positive({ message: `Pole "${fieldName}" musi być liczbą dodatnią` })
+    .nullable()
+    .optional();
+
+const rateRuleSchema = z.object({
+  name: requiredString('Nazwa reguły', { min: 2, max: 100 }),
+  isActive: optionalBoolean('Aktywna'),
+  courseFormat: z.nativeEnum(CourseFormat).nullable().optional(),
+  deliveryMode: z.nativeEnum(LessonDeliveryMode).nullable().optional(),
+  courseId: z.string().uuid({ message: 'Pole "Kurs" musi zawierać poprawny identyfikator UUID' }).nullable().optional(),
+  minParticipants: participantsField('Min. uczestników'),
+  maxParticipants: participantsField('Maks. uczestników'),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+  startTime: timeField('Od godziny'),
+  endTime: timeField('Do godziny'),
+  rateType: requiredEnum('Typ stawki', Object.values(TeacherRateType) as [TeacherRateType, ...TeacherRateType[]], {
+    HOURLY: 'Za godzinę',
+    PER_LESSON: 'Za lekcję',
+  }),
+  rate: requiredNonNegative('Stawka'),
+});
+
+const rateRuleErrors = [
+  'Nie znaleziono lektora',
+  'Nie znaleziono reguły stawki',
+  'Nie znaleziono kursu',
+  'Minimalna liczba uczestników nie może być większa niż maksymalna',
+  'Lista reguł do uporządkowania jest niekompletna',
+];
+
+const handleRateRuleError = (res: Response, error: any, fallback: string) => {
+  if (rateRuleErrors.includes(error.message)) {
+    const status = error.message.startsWith('Nie znaleziono') ? 404 : 400;
+    return res.status(status).json({ error: error.message });
+  }
+  return res.status(500).json({ error: fallback });
+};
 
 export const previewPayout = async (req: AuthRequest, res: Response) => {
   try {
@@ -155,19 +210,28 @@ export const updatePayoutStatus = async (req: AuthRequest, res: Response) => {
     }
 
     const { id } = req.params;
-    const { status, notes } = req.body;
+    const { status, notes, disputeResolution } = req.body;
 
     if (!status || !Object.values(TeacherPayoutStatus).includes(status)) {
       return res.status(400).json({ error: 'Valid status is required' });
     }
+    if (disputeResolution !== undefined && typeof disputeResolution !== 'string') {
+      return res.status(400).json({ error: 'Pole "disputeResolution" musi być tekstem' });
+    }
 
-    const payout = await payoutService.updatePayoutStatus(id, organizationId, status, notes);
+    const payout = await payoutService.updatePayoutStatus(id, organizationId, status, notes, disputeResolution);
     return res.json(payout);
   } catch (error: any) {
     console.error('Update payout status error:', error);
     if (error.message === 'Nie znaleziono wypłaty') {
       return res.status(404).json({ error: 'Nie znaleziono wypłaty' });
     }
+    if (
+      error.message === 'Przed oznaczeniem wypłaty jako wypłaconej dołącz fakturę lektora' ||
+      error.message === 'Lektor zakwestionował tę wypłatę - opisz rozstrzygnięcie zastrzeżeń przed zatwierdzeniem'
+    ) {
+      return res.status(400).json({ error: error.message });
+    }
     return res.status(500).json({ error: 'Failed to update payout status' });
   }
 };
@@ -314,3 +378,408 @@ export const getLessonsForRange = async (req: AuthRequest, res: Response) => {
     return res.status(500).json({ error: 'Failed to get lessons for range' });
   }
 };
+
+// GET /payouts/teacher/:teacherId/rate-rules
+export const getTeacherRateRules = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const rules = await teacherRateRuleService.getRules(req.params.teacherId, organizationId);
+    return res.json(rules);
+  } catch (error) {
+    console.error('Get teacher rate rules error:', error);
+    return res.status(500).json({ error: 'Nie udało się pobrać stawek lektora' });
+  }
+};
+
+export const createTeacherRateRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = rateRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const rule = await teacherRateRuleService.createRule(req.params.teacherId, organizationId, parsed.data);
+    return res.status(201).json(rule);
+  } catch (error: any) {
+    console.error('Create teacher rate rule error:', error);
+    return handleRateRuleError(res, error, 'Nie udało się dodać reguły stawki');
+  }
+};
+
+export const updateTeacherRateRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = rateRuleSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const rule = await teacherRateRuleService.updateRule(req.params.ruleId, organizationId, parsed.data);
+    return res.json(rule);
+  } catch (error: any) {
+    console.error('Update teacher rate rule error:', error);
+    return handleRateRuleError(res, error, 'Nie udało się zaktualizować reguły stawki');
+  }
+};
+
+export const deleteTeacherRateRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    await teacherRateRuleService.deleteRule(req.params.ruleId, organizationId);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Delete teacher rate rule error:', error);
+    return handleRateRuleError(res, error, 'Nie udało się usunąć reguły stawki');
+  }
+};
+
+// PUT /payouts/teacher/:teacherId/rate-rules/reorder { ruleIds: [...] }
+export const reorderTeacherRateRules = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { ruleIds } = req.body;
+    if (!Array.isArray(ruleIds) || !ruleIds.every((id) => typeof id === 'string')) {
+      return res.status(400).json({ error: 'ruleIds is required' });
+    }
+
+    const rules = await teacherRateRuleService.reorderRules(req.params.teacherId, organizationId, ruleIds);
+    return res.json(rules);
+  } catch (error: any) {
+    console.error('Reorder teacher rate rules error:', error);
+    return handleRateRuleError(res, error, 'Nie udało się zmienić kolejności reguł');
+  }
+};
+
+const parseMonth = (month: unknown): Date | null => {
+  if (typeof month !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) return null;
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1);
+};
+
+// GET /payouts/payroll?month=YYYY-MM
+export const getPayroll = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const month = parseMonth(req.query.month);
+    if (!month) {
+      return res.status(400).json({ error: 'month is required (YYYY-MM)' });
+    }
+
+    const rows = await payrollService.getPayrollRows(organizationId, month);
+    return res.json(rows);
+  } catch (error) {
+    console.error('Get payroll error:', error);
+    return res.status(500).json({ error: 'Nie udało się pobrać listy płac' });
+  }
+};
+
+// GET /payouts/payroll/export?month=YYYY-MM&format=csv|xlsx
+export const exportPayroll = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const month = parseMonth(req.query.month);
+    const fileFormat = req.query.format;
+    if (!month || (fileFormat !== 'csv' && fileFormat !== 'xlsx')) {
+      return res.status(400).json({ error: 'month (YYYY-MM) and format (csv|xlsx) are required' });
+    }
+
+    const { content, fileName, contentType } = await payrollService.exportPayroll(organizationId, month, fileFormat);
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    return res.send(content);
+  } catch (error) {
+    console.error('Export payroll error:', error);
+    return res.status(500).json({ error: 'Nie udało się wygenerować listy płac' });
+  }
+};
+
+const transferBatchSchema = z.object({
+  payoutIds: z
+    .array(z.string().uuid({ message: 'Nieprawidłowy identyfikator wypłaty' }), {
+      required_error: 'Wybierz co najmniej jedną wypłatę',
+    })
+    .min(1, { message: 'Wybierz co najmniej jedną wypłatę' }),
+  format: z.enum(['elixir', 'sepa'], {
+    errorMap: () => ({ message: 'Format pliku musi mieć wartość elixir lub sepa' }),
+  }),
+  executionDate: optionalDateString('Data realizacji'),
+});
+
+const markBatchPaidSchema = z.object({
+  payoutIds: transferBatchSchema.shape.payoutIds,
+  paidAt: optionalDateString('Data wypłaty'),
+});
+
+const handleTransferBatchError = (res: Response, error: any, fallback: string) => {
+  if (error.message === 'Payout not found') {
+    return res.status(404).json({ error: 'Nie znaleziono wypłaty' });
+  }
+  if (error.statusCode === 400) {
+    return res.status(400).json({ error: error.message });
+  }
+  return res.status(500).json({ error: fallback });
+};
+
+// POST /payouts/transfer-batch/export - Elixir-O or SEPA file for the selected approved payouts
+export const exportTransferBatch = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = transferBatchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const { content, fileName, contentType } = await bankTransferService.generateTransferFile(
+      organizationId,
+      parsed.data.payoutIds,
+      parsed.data.format,
+      parsed.data.executionDate ?? new Date()
+    );
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    return res.send(content);
+  } catch (error: any) {
+    console.error('Export transfer batch error:', error);
+    return handleTransferBatchError(res, error, 'Nie udało się wygenerować pliku przelewów');
+  }
+};
+
+// POST /payouts/transfer-batch/mark-paid - confirm the bank accepted the batch
+export const markTransferBatchPaid = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = markBatchPaidSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await bankTransferService.markBatchPaid(
+      organizationId,
+      parsed.data.payoutIds,
+      parsed.data.paidAt ?? new Date()
+    );
+    return res.json(result);
+  } catch (error: any) {
+    console.error('Mark transfer batch paid error:', error);
+    return handleTransferBatchError(res, error, 'Nie udało się oznaczyć wypłat jako wypłaconych');
+  }
+};
+
+const invoiceErrors = [
+  'Faktura musi być plikiem PDF',
+  'Do tej wypłaty nie dołączono faktury',
+  'Faktury dołącza się tylko do wypłat dla lektorów na umowie B2B',
+  'Nie można zmienić faktury wypłaty, która została rozliczona',
+];
+
+// POST /payouts/:id/invoice (multipart: file, invoiceNumber)
+export const uploadPayoutInvoice = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'Brak pliku' });
+    }
+
+    const payout = await payoutService.attachInvoice(
+      req.params.id,
+      organizationId,
+      req.user!.id,
+      {
+        file: req.file.buffer,
+        fileName: req.file.originalname,
+        fileType: req.file.mimetype,
+        fileSize: req.file.size,
+        invoiceNumber: typeof req.body.invoiceNumber === 'string' ? req.body.invoiceNumber.trim() : undefined,
+      },
+      // Teachers can only attach invoices to their own payouts
+      req.user!.role === UserRole.TEACHER ? req.user!.id : undefined
+    );
+
+    return res.json(payout);
+  } catch (error: any) {
+    console.error('Upload payout invoice error:', error);
+    if (error.message === 'Payout not found') {
+      return res.status(404).json({ error: 'Nie znaleziono wypłaty' });
+    }
+    if (invoiceErrors.includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Nie udało się dołączyć faktury' });
+  }
+};
+
+export const deletePayoutInvoice = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const payout = await payoutService.removeInvoice(
+      req.params.id,
+      organizationId,
+      req.user!.role === UserRole.TEACHER ? req.user!.id : undefined
+    );
+
+    return res.json(payout);
+  } catch (error: any) {
+    console.error('Delete payout invoice error:', error);
+    if (error.message === 'Payout not found') {
+      return res.status(404).json({ error: 'Nie znaleziono wypłaty' });
+    }
+    if (invoiceErrors.includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Nie udało się usunąć faktury' });
+  }
+};
+
+const payoutDisputeSchema = z.object({
+  lessonIds: z
+    .array(z.string().uuid({ message: 'Nieprawidłowy identyfikator lekcji' }), {
+      required_error: 'Wskaż co najmniej jedną kwestionowaną lekcję',
+    })
+    .min(1, { message: 'Wskaż co najmniej jedną kwestionowaną lekcję' }),
+  reason: requiredString('Powód', { min: 3, max: 1000 }),
+});
+
+const signOffErrors = [
+  'Wskaż co najmniej jedną kwestionowaną lekcję',
+  'Można potwierdzić lub zakwestionować tylko wypłatę oczekującą na zatwierdzenie',
+];
+
+const handleSignOffError = (res: Response, error: any, fallback: string) => {
+  if (error.message === 'Payout not found') {
+    return res.status(404).json({ error: 'Nie znaleziono wypłaty' });
+  }
+  if (error.message === 'Nie znaleziono profilu lektora') {
+    return res.status(404).json({ error: error.message });
+  }
+  if (signOffErrors.includes(error.message)) {
+    return res.status(400).json({ error: error.message });
+  }
+  return res.status(500).json({ error: fallback });
+};
+
+// GET /payouts/my/summary?month=YYYY-MM - teacher's own month-to-date earnings
+export const getMyEarnings = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const month = req.query.month ? parseMonth(req.query.month) : new Date();
+    if (!month) {
+      return res.status(400).json({ error: 'month must be in YYYY-MM format' });
+    }
+
+    const summary = await teacherEarningsService.getMonthSummary(req.user!.id, organizationId, month);
+    return res.json(summary);
+  } catch (error: any) {
+    console.error('Get my earnings error:', error);
+    return handleSignOffError(res, error, 'Nie udało się pobrać zarobków');
+  }
+};
+
+// GET /payouts/my - teacher's own payouts
+export const getMyPayouts = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const payouts = await teacherEarningsService.getMyPayouts(req.user!.id, organizationId);
+    return res.json(payouts);
+  } catch (error: any) {
+    console.error('Get my payouts error:', error);
+    return handleSignOffError(res, error, 'Nie udało się pobrać wypłat');
+  }
+};
+
+// POST /payouts/my/:id/confirm
+export const confirmMyPayout = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const payout = await teacherEarningsService.confirmPayout(req.user!.id, organizationId, req.params.id);
+    return res.json(payout);
+  } catch (error: any) {
+    console.error('Confirm payout error:', error);
+    return handleSignOffError(res, error, 'Nie udało się potwierdzić wypłaty');
+  }
+};
+
+// POST /payouts/my/:id/dispute
+export const disputeMyPayout = async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = payoutDisputeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const payout = await teacherEarningsService.disputePayout(
+      req.user!.id,
+      organizationId,
+      req.params.id,
+      parsed.data.lessonIds,
+      parsed.data.reason
+    );
+    return res.json(payout);
+  } catch (error: any) {
+    console.error('Dispute payout error:', error);
+    return handleSignOffError(res, error, 'Nie udało się zgłosić zastrzeżeń');
+  }
+};
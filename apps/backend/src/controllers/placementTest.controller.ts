@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import placementTestService, { CEFR_LEVELS } from '../services/placementTest.service';
+import { AuthRequest } from '../middleware/auth';
+import { requiredString, optionalString, optionalBoolean, requiredEnum } from '../utils/validation-messages';
+
+const questionTypeLabels = {
+  MULTIPLE_CHOICE: 'Wybór odpowiedzi',
+  GAP_FILL: 'Uzupełnianie luki',
+};
+
+const answerString = z.string().trim().min(1, { message: 'Odpowiedź nie może być pusta' }).max(500);
+
+const questionSchema = z
+  .object({
+    type: requiredEnum('Typ pytania', ['MULTIPLE_CHOICE', 'GAP_FILL'] as const, questionTypeLabels),
+    level: requiredEnum('Poziom pytania', CEFR_LEVELS),
+    prompt: requiredString('Treść pytania', { min: 1, max: 1000 }),
+    options: z.array(answerString).max(8).optional(),
+    correctAnswers: z.array(answerString).min(1, { message: 'Podaj poprawną odpowiedź' }),
+  })
+  .superRefine((question, ctx) => {
+    if (question.type !== 'MULTIPLE_CHOICE') return;
+    const options = question.options || [];
+    if (options.length < 2) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Pytanie wyboru wymaga co najmniej 2 odpowiedzi' });
+    }
+    if (!question.correctAnswers.every((answer) => options.includes(answer))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['correctAnswers'], message: 'Poprawna odpowiedź musi być jedną z opcji' });
+    }
+  });
+
+const testFields = {
+  language: requiredString('Język', { min: 2, max: 10 }),
+  name: requiredString('Nazwa testu', { min: 2, max: 200 }),
+  description: optionalString('Opis', { max: 2000 }),
+  timeLimitMinutes: z.number().int().min(1, { message: 'Limit czasu musi wynosić co najmniej 1 minutę' }).max(180).optional(),
+  passThreshold: z.number().int().min(1).max(100, { message: 'Próg zaliczenia poziomu musi być w zakresie 1-100%' }).optional(),
+  isActive: optionalBoolean('Aktywny'),
+  questions: z.array(questionSchema).max(200).optional(),
+};
+
+const createTestSchema = z.object(testFields);
+const updateTestSchema = z.object(testFields).partial();
+
+const submitAttemptSchema = z.object({
+  answers: z.record(z.string(), z.string().max(500)),
+});
+
+class PlacementTestController {
+  // === PUBLIC ENDPOINTS ===
+
+  async getPublicTests(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { orgSlug } = req.params;
+      const tests = await placementTestService.getPublicTests(orgSlug, req.query.language as string | undefined);
+      res.json({ data: tests });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async startAttempt(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { orgSlug, testId } = req.params;
+      const attempt = await placementTestService.startAttempt(orgSlug, testId);
+      res.status(201).json({ data: attempt });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async submitAttempt(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { attemptId } = req.params;
+      const { answers } = submitAttemptSchema.parse(req.body);
+      const result = await placementTestService.submitAttempt(attemptId, answers);
+      res.json({ message: 'Test został oceniony', data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // === PROTECTED ENDPOINTS ===
+
+  async getTests(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const tests = await placementTestService.getTests(req.user!.organizationId, {
+        language: req.query.language as string | undefined,
+      });
+      res.json({ data: tests });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getTestById(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const test = await placementTestService.getTestById(req.params.id, req.user!.organizationId);
+      res.json({ data: test });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createTest(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = createTestSchema.parse(req.body);
+      const test = await placementTestService.createTest(data, req.user!.organizationId);
+      res.status(201).json({ message: 'Test poziomujący został utworzony', data: test });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateTest(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = updateTestSchema.parse(req.body);
+      const test = await placementTestService.updateTest(req.params.id, data, req.user!.organizationId);
+      res.json({ message: 'Test poziomujący został zaktualizowany', data: test });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteTest(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      await placementTestService.deleteTest(req.params.id, req.user!.organizationId);
+      res.json({ message: 'Test poziomujący został usunięty' });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new PlacementTestController();
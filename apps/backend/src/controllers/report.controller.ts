@@ -13,13 +13,14 @@ class ReportController {
   async getTeacherPayoutsReport(req: AuthRequest, res: Response) {
     try {
       const organizationId = req.user!.organizationId;
-      const { startDate, endDate, teacherId } = req.query;
+      const { startDate, endDate, teacherId, reportingCurrency } = req.query;
 
       const filters = {
         organizationId,
         startDate: startDate ? new Date(String(startDate)) : undefined,
         endDate: endDate ? new Date(String(endDate)) : undefined,
         teacherId: teacherId ? String(teacherId) : undefined,
+        reportingCurrency: reportingCurrency ? String(reportingCurrency) : undefined,
       };
 
       const data = await reportService.generateTeacherPayoutsReport(filters);
@@ -28,8 +29,11 @@ class ReportController {
         message: 'Teacher payouts report generated successfully',
         data,
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error generating teacher payouts report:', error);
+      if (error.statusCode === 400) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: 'Failed to generate teacher payouts report' });
     }
   }
@@ -41,7 +45,7 @@ class ReportController {
   async getNewStudentsReport(req: AuthRequest, res: Response) {
     try {
       const organizationId = req.user!.organizationId;
-      const { month, year } = req.query;
+      const { month, year, reportingCurrency } = req.query;
 
       if (!month || !year) {
         return res.status(400).json({ message: 'Month and year are required' });
@@ -50,15 +54,19 @@ class ReportController {
       const data = await reportService.generateNewStudentsReport(
         organizationId,
         parseInt(String(month)),
-        parseInt(String(year))
+        parseInt(String(year)),
+        reportingCurrency ? String(reportingCurrency) : undefined
       );
 
       return res.json({
         message: 'New students report generated successfully',
         data,
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error generating new students report:', error);
+      if (error.statusCode === 400) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: 'Failed to generate new students report' });
     }
   }
@@ -70,7 +78,7 @@ class ReportController {
   async getMarginsReport(req: AuthRequest, res: Response) {
     try {
       const organizationId = req.user!.organizationId;
-      const { startDate, endDate, courseId, courseType } = req.query;
+      const { startDate, endDate, courseId, courseType, reportingCurrency } = req.query;
 
       const filters = {
         organizationId,
@@ -80,6 +88,7 @@ class ReportController {
         courseType: courseType && (courseType === 'GROUP' || courseType === 'INDIVIDUAL')
           ? courseType as 'GROUP' | 'INDIVIDUAL'
           : undefined,
+        reportingCurrency: reportingCurrency ? String(reportingCurrency) : undefined,
       };
 
       const data = await reportService.generateMarginsReport(filters);
@@ -88,8 +97,11 @@ class ReportController {
         message: 'Margins report generated successfully',
         data,
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error generating margins report:', error);
+      if (error.statusCode === 400) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: 'Failed to generate margins report' });
     }
   }
@@ -101,20 +113,24 @@ class ReportController {
   async getDebtorsReport(req: AuthRequest, res: Response) {
     try {
       const organizationId = req.user!.organizationId;
-      const { minAmount, daysPastDue } = req.query;
+      const { minAmount, daysPastDue, reportingCurrency } = req.query;
 
       const data = await reportService.generateDebtorsReport(
         organizationId,
         minAmount ? parseFloat(String(minAmount)) : undefined,
-        daysPastDue ? parseInt(String(daysPastDue)) : undefined
+        daysPastDue ? parseInt(String(daysPastDue)) : undefined,
+        reportingCurrency ? String(reportingCurrency) : undefined
       );
 
       return res.json({
         message: 'Debtors report generated successfully',
         data,
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error generating debtors report:', error);
+      if (error.statusCode === 400) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: 'Failed to generate debtors report' });
     }
   }
@@ -164,6 +180,7 @@ class ReportController {
       });
 
       const orgName = organization?.name || 'LingoDesk';
+      const reportingCurrency = filters.reportingCurrency ? String(filters.reportingCurrency) : undefined;
 
       let data: any;
       let fileName: string;
@@ -176,6 +193,7 @@ class ReportController {
             startDate: filters.startDate ? new Date(String(filters.startDate)) : undefined,
             endDate: filters.endDate ? new Date(String(filters.endDate)) : undefined,
             teacherId: filters.teacherId ? String(filters.teacherId) : undefined,
+            reportingCurrency,
           });
 
           if (format === 'csv') {
@@ -201,7 +219,8 @@ class ReportController {
           data = await reportService.generateNewStudentsReport(
             organizationId,
             parseInt(String(filters.month)),
-            parseInt(String(filters.year))
+            parseInt(String(filters.year)),
+            reportingCurrency
           );
 
           if (format === 'csv') {
@@ -227,6 +246,7 @@ class ReportController {
             courseType: filters.courseType && (filters.courseType === 'GROUP' || filters.courseType === 'INDIVIDUAL')
               ? filters.courseType as 'GROUP' | 'INDIVIDUAL'
               : undefined,
+            reportingCurrency,
           });
 
           if (format === 'csv') {
@@ -248,7 +268,8 @@ class ReportController {
           data = await reportService.generateDebtorsReport(
             organizationId,
             filters.minAmount ? parseFloat(String(filters.minAmount)) : undefined,
-            filters.daysPastDue ? parseInt(String(filters.daysPastDue)) : undefined
+            filters.daysPastDue ? parseInt(String(filters.daysPastDue)) : undefined,
+            reportingCurrency
           );
 
           if (format === 'csv') {
@@ -282,8 +303,11 @@ class ReportController {
       res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
 
       return res.send(content);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error exporting report:', error);
+      if (error.statusCode === 400) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: 'Failed to export report' });
     }
   }
@@ -0,0 +1,153 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { PaymentMethod } from '@prisma/client';
+import subscriptionService from '../services/subscription.service';
+import { AuthRequest } from '../middleware/auth';
+import {
+  requiredUuid,
+  optionalUuid,
+  requiredString,
+  optionalString,
+  requiredPositiveInt,
+  optionalPositiveInt,
+  requiredNonNegative,
+  optionalNonNegative,
+  optionalBoolean,
+  optionalEnum,
+  requiredEnum,
+} from '../utils/validation-messages';
+
+const paymentMethodValues = Object.values(PaymentMethod) as [string, ...string[]];
+const paymentMethodLabels = {
+  CASH: 'Gotówka',
+  BANK_TRANSFER: 'Przelew',
+  CARD: 'Karta',
+  ONLINE: 'Online',
+  OTHER: 'Inne',
+};
+
+const createSubscriptionSchema = z.object({
+  name: requiredString('Nazwa abonamentu', { min: 2 }),
+  description: optionalString('Opis'),
+  monthlyPrice: requiredNonNegative('Cena miesięczna'),
+  lessonsPerMonth: requiredPositiveInt('Lekcje w miesiącu'),
+  currency: optionalString('Waluta'),
+  isActive: optionalBoolean('Aktywny'),
+});
+
+const updateSubscriptionSchema = z.object({
+  name: optionalString('Nazwa abonamentu', { min: 2 }),
+  description: optionalString('Opis'),
+  monthlyPrice: optionalNonNegative('Cena miesięczna'),
+  lessonsPerMonth: optionalPositiveInt('Lekcje w miesiącu'),
+  currency: optionalString('Waluta'),
+  isActive: optionalBoolean('Aktywny'),
+});
+
+const assignSubscriptionSchema = z.object({
+  studentId: requiredUuid('Uczeń'),
+  courseId: optionalUuid('Kurs'),
+  paymentMethod: optionalEnum('Metoda płatności', paymentMethodValues, paymentMethodLabels),
+  notes: optionalString('Notatki'),
+});
+
+const updateStatusSchema = z.object({
+  status: requiredEnum('Status', ['ACTIVE', 'PAUSED', 'CANCELLED'] as const, {
+    ACTIVE: 'Aktywny',
+    PAUSED: 'Wstrzymany',
+    CANCELLED: 'Anulowany',
+  }),
+});
+
+class SubscriptionController {
+  async getSubscriptions(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const isActive = req.query.isActive === 'true' ? true : req.query.isActive === 'false' ? false : undefined;
+      const subscriptions = await subscriptionService.getSubscriptions(req.user!.organizationId, { isActive });
+      res.json({ message: 'Abonamenty pobrane pomyślnie', data: subscriptions });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSubscriptionById(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const subscription = await subscriptionService.getSubscriptionById(req.params.id as string, req.user!.organizationId);
+      res.json({ message: 'Abonament pobrany pomyślnie', data: subscription });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createSubscription(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = createSubscriptionSchema.parse(req.body);
+      const subscription = await subscriptionService.createSubscription({
+        ...data,
+        organizationId: req.user!.organizationId,
+      });
+      res.status(201).json({ message: 'Abonament utworzony pomyślnie', data: subscription });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateSubscription(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = updateSubscriptionSchema.parse(req.body);
+      const subscription = await subscriptionService.updateSubscription(req.params.id as string, req.user!.organizationId, data);
+      res.json({ message: 'Abonament zaktualizowany pomyślnie', data: subscription });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteSubscription(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const result = await subscriptionService.deleteSubscription(req.params.id as string, req.user!.organizationId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async assignSubscription(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = assignSubscriptionSchema.parse(req.body);
+      const result = await subscriptionService.assignSubscriptionToStudent(req.params.id as string, req.user!.organizationId, {
+        studentId: data.studentId,
+        courseId: data.courseId,
+        paymentMethod: data.paymentMethod as PaymentMethod | undefined,
+        notes: data.notes,
+      });
+      res.status(201).json({ message: 'Abonament przypisany uczniowi', data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getStudentSubscriptions(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const subscriptions = await subscriptionService.getStudentSubscriptions(req.params.studentId as string, req.user!.organizationId);
+      res.json({ message: 'Abonamenty ucznia pobrane pomyślnie', data: subscriptions });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateEnrollmentStatus(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { status } = updateStatusSchema.parse(req.body);
+      const enrollment = await subscriptionService.updateSubscriptionStatus(
+        req.params.enrollmentId as string,
+        req.user!.organizationId,
+        status
+      );
+      res.json({ message: 'Status abonamentu zaktualizowany', data: enrollment });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new SubscriptionController();
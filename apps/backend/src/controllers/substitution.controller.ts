@@ -1,7 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import substitutionService from '../services/substitution.service';
-import { requiredUuid, optionalUuid, optionalString } from '../utils/validation-messages';
+import { requiredUuid, optionalUuid, optionalString, requiredDateString } from '../utils/validation-messages';
 
 // Validation schemas
 const createSubstitutionSchema = z.object({
@@ -18,6 +18,21 @@ const updateSubstitutionSchema = z.object({
   notes: optionalString('Notatki'),
 });
 
+const rangeRecommendationsSchema = z.object({
+  originalTeacherId: requiredUuid('Lektor pierwotny'),
+  dateFrom: requiredDateString('Data od'),
+  dateTo: requiredDateString('Data do'),
+});
+
+const bulkSubstitutionSchema = z.object({
+  originalTeacherId: requiredUuid('Lektor pierwotny'),
+  dateFrom: requiredDateString('Data od'),
+  dateTo: requiredDateString('Data do'),
+  substituteTeacherId: optionalUuid('Lektor zastępujący'),
+  reason: optionalString('Powód'),
+  notes: optionalString('Notatki'),
+});
+
 interface AuthRequest extends Request {
   user?: {
     id: string;
@@ -102,6 +117,75 @@ class SubstitutionController {
     }
   }
 
+  /**
+   * Get ranked substitute candidates for a lesson
+   * GET /api/substitutions/candidates/:lessonId
+   */
+  async getSubstituteCandidates(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { lessonId } = req.params;
+      const organizationId = req.user!.organizationId;
+
+      const candidates = await substitutionService.getSubstituteCandidates(lessonId as string, organizationId);
+
+      res.json({
+        success: true,
+        data: candidates,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get ranked substitute candidates for all lessons of a teacher in a date range
+   * GET /api/substitutions/recommendations
+   */
+  async getRangeRecommendations(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const organizationId = req.user!.organizationId;
+      const { originalTeacherId, dateFrom, dateTo } = rangeRecommendationsSchema.parse(req.query);
+
+      const recommendations = await substitutionService.getRangeRecommendations(
+        organizationId,
+        originalTeacherId,
+        dateFrom,
+        dateTo
+      );
+
+      res.json({
+        success: true,
+        data: recommendations,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Substitute all lessons of a teacher in a date range
+   * POST /api/substitutions/bulk
+   */
+  async bulkSubstitute(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const organizationId = req.user!.organizationId;
+      const data = bulkSubstitutionSchema.parse(req.body);
+
+      const result = await substitutionService.bulkSubstitute({
+        ...data,
+        organizationId,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Utworzono zastępstw: ${result.created.length}, pominięto: ${result.skipped.length}`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Create a new substitution
    * POST /api/substitutions
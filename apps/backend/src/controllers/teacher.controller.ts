@@ -1,8 +1,9 @@
 import { Response, NextFunction } from 'express';
 import { z } from 'zod';
 import teacherService from '../services/teacher.service';
+import teacherAvailabilityService from '../services/teacher-availability.service';
 import { AuthRequest } from '../middleware/auth';
-import { ContractType } from '@prisma/client';
+import { ContractType, TeacherUnavailabilityReason, UserRole } from '@prisma/client';
 import {
   requiredEmail,
   optionalEmail,
@@ -12,8 +13,11 @@ import {
   //requiredEnum,
   //optionalEnum,
   optionalBoolean,
+  requiredDateString,
+  optionalDateString,
   messages,
 } from '../utils/validation-messages';
+import { optionalBankAccount } from '../utils/bank-account';
 
 
 const createTeacherSchema = z.object({
@@ -49,6 +53,36 @@ const updateTeacherSchema = z.object({
   cancellationPayoutEnabled: z.boolean().optional(),
   cancellationPayoutHours: z.number().int().positive({ message: 'Próg godzin musi być liczbą dodatnią' }).nullable().optional(),
   cancellationPayoutPercent: z.number().int().min(0, { message: 'Procent musi być od 0 do 100' }).max(100, { message: 'Procent musi być od 0 do 100' }).nullable().optional(),
+  vatRate: z.number().int().min(0, { message: 'Stawka VAT musi być od 0 do 100' }).max(100, { message: 'Stawka VAT musi być od 0 do 100' }).nullable().optional(),
+  zusExempt: z.boolean().optional(),
+  pitExempt: z.boolean().optional(),
+  bankAccountNumber: optionalBankAccount('Numer konta'),
+});
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, { message: 'Godzina musi być w formacie HH:MM' });
+
+const availabilitySchema = z.object({
+  windows: z.array(
+    z.object({
+      dayOfWeek: z.number().int().min(0, { message: 'Dzień tygodnia musi być od 0 do 6' }).max(6, { message: 'Dzień tygodnia musi być od 0 do 6' }),
+      startTime: timeSchema,
+      endTime: timeSchema,
+    })
+  ),
+});
+
+const unavailabilitySchema = z.object({
+  startDate: requiredDateString('Data rozpoczęcia'),
+  endDate: requiredDateString('Data zakończenia'),
+  reason: z.nativeEnum(TeacherUnavailabilityReason).optional(),
+  notes: optionalString('Uwagi'),
+});
+
+const freeSlotsQuerySchema = z.object({
+  from: requiredDateString('Data od'),
+  to: optionalDateString('Data do'),
+  durationMinutes: z.coerce.number().int().positive({ message: 'Pole "Czas trwania" musi być liczbą dodatnią' }).optional(),
+  stepMinutes: z.coerce.number().int().positive({ message: 'Pole "Krok" musi być liczbą dodatnią' }).optional(),
 });
 
 export class TeacherController {
@@ -245,6 +279,166 @@ export class TeacherController {
     }
   }
 
+  async getAvailability(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.organizationId) {
+        return res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Organization ID not found',
+          },
+        });
+      }
+
+      const { id } = req.params;
+      const availability = await teacherAvailabilityService.getAvailability(id as string, req.user.organizationId);
+
+      return res.json({
+        data: availability,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async setAvailability(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.organizationId) {
+        return res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Organization ID not found',
+          },
+        });
+      }
+
+      const { id } = req.params;
+      if (!(await this.canManageAvailability(req, id as string))) {
+        return res.status(403).json({ error: { code: 'FORBIDDEN', message: 'Access denied' } });
+      }
+
+      const { windows } = availabilitySchema.parse(req.body);
+      const availability = await teacherAvailabilityService.setWeeklyAvailability(
+        id as string,
+        req.user.organizationId,
+        windows
+      );
+
+      return res.json({
+        message: 'Godziny dostępności zostały zapisane',
+        data: availability,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async createUnavailability(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.organizationId) {
+        return res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Organization ID not found',
+          },
+        });
+      }
+
+      const { id } = req.params;
+      if (!(await this.canManageAvailability(req, id as string))) {
+        return res.status(403).json({ error: { code: 'FORBIDDEN', message: 'Access denied' } });
+      }
+
+      const data = unavailabilitySchema.parse(req.body);
+      const unavailability = await teacherAvailabilityService.createUnavailability(
+        id as string,
+        req.user.organizationId,
+        data
+      );
+
+      return res.status(201).json({
+        message: 'Niedostępność została dodana',
+        data: unavailability,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async deleteUnavailability(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.organizationId) {
+        return res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Organization ID not found',
+          },
+        });
+      }
+
+      const { id, unavailabilityId } = req.params;
+      if (!(await this.canManageAvailability(req, id as string))) {
+        return res.status(403).json({ error: { code: 'FORBIDDEN', message: 'Access denied' } });
+      }
+
+      const result = await teacherAvailabilityService.deleteUnavailability(
+        unavailabilityId as string,
+        id as string,
+        req.user.organizationId
+      );
+
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getFreeSlots(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.organizationId) {
+        return res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Organization ID not found',
+          },
+        });
+      }
+
+      const { id } = req.params;
+      const query = freeSlotsQuerySchema.parse(req.query);
+
+      const slots = await teacherAvailabilityService.getFreeSlots(id as string, req.user.organizationId, {
+        from: query.from,
+        // Default range: one week from the start date
+        to: query.to || new Date(query.from.getTime() + 7 * 24 * 60 * 60000),
+        durationMinutes: query.durationMinutes || 60,
+        stepMinutes: query.stepMinutes,
+      });
+
+      return res.json({
+        data: slots,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  /**
+   * Admins and managers manage any teacher's availability, teachers only their own
+   */
+  private async canManageAvailability(req: AuthRequest, teacherId: string) {
+    if (req.user!.role === UserRole.ADMIN || req.user!.role === UserRole.MANAGER) {
+      return true;
+    }
+
+    if (req.user!.role === UserRole.TEACHER) {
+      const teacher = await teacherService.getTeacherByUserId(req.user!.id);
+      return teacher?.id === teacherId;
+    }
+
+    return false;
+  }
+
   async getMe(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       if (!req.user?.id || !req.user?.organizationId) {
@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import waitlistService from '../services/waitlist.service';
+import { AuthRequest } from '../middleware/auth';
+import { requiredUuid, optionalUuid, optionalString, requiredEnum } from '../utils/validation-messages';
+
+const addToWaitlistSchema = z
+  .object({
+    courseId: requiredUuid('Kurs'),
+    studentId: optionalUuid('Uczeń'),
+    applicationId: optionalUuid('Zgłoszenie'),
+    notes: optionalString('Notatki', { max: 1000 }),
+  })
+  .refine((data) => data.studentId || data.applicationId, {
+    message: 'Wskaż ucznia lub zgłoszenie',
+    path: ['studentId'],
+  });
+
+const moveEntrySchema = z.object({
+  direction: requiredEnum('Kierunek', ['up', 'down'] as const, { up: 'W górę', down: 'W dół' }),
+});
+
+class WaitlistController {
+  async getCourseWaitlist(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { courseId } = req.params;
+      const waitlist = await waitlistService.getCourseWaitlist(courseId as string, req.user!.organizationId);
+      res.json({ data: waitlist });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async addToWaitlist(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const data = addToWaitlistSchema.parse(req.body);
+      const entry = await waitlistService.addToWaitlist(data, req.user!.organizationId);
+      res.status(201).json({ message: 'Dodano do listy oczekujących', data: entry });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async moveEntry(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { direction } = moveEntrySchema.parse(req.body);
+      await waitlistService.moveEntry(id as string, direction, req.user!.organizationId);
+      res.json({ message: 'Kolejność została zmieniona' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async removeEntry(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      await waitlistService.removeEntry(id as string, req.user!.organizationId);
+      res.json({ message: 'Usunięto z listy oczekujących' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getOffer(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { token } = req.params;
+      const offer = await waitlistService.getOffer(token as string);
+      res.json({ data: offer });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async acceptOffer(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { token } = req.params;
+      const result = await waitlistService.acceptOffer(token as string);
+      res.json({ message: 'Miejsce w kursie zostało potwierdzone', data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async declineOffer(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { token } = req.params;
+      await waitlistService.declineOffer(token as string);
+      res.json({ message: 'Rezygnacja została zapisana' });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new WaitlistController();
@@ -15,8 +15,13 @@ import teacherRoutes from './routes/teacher.routes';
 import courseRoutes from './routes/course.routes';
 import lessonRoutes from './routes/lesson.routes';
 import paymentRoutes from './routes/payment.routes';
+import invoiceRoutes from './routes/invoice.routes';
+import packageRoutes from './routes/package.routes';
+import subscriptionRoutes from './routes/subscription.routes';
+import parentRoutes from './routes/parent.routes';
 import organizationRoutes from './routes/organization.routes';
 import notificationRoutes from './routes/notification.routes';
+import notificationTemplateRoutes from './routes/notification-template.routes';
 import dashboardRoutes from './routes/dashboard.routes';
 import alertRoutes from './routes/alert.routes';
 import materialRoutes from './routes/material.routes';
@@ -34,6 +39,10 @@ import payoutRoutes from './routes/payout.routes';
 import balanceRoutes from './routes/balance.routes';
 import courseApplicationRoutes from './routes/courseApplication.routes';
 import classroomRoutes from './routes/classroom.routes';
+import bookingRoutes from './routes/booking.routes';
+import certificateRoutes from './routes/certificate.routes';
+import placementTestRoutes from './routes/placementTest.routes';
+import waitlistRoutes from './routes/waitlist.routes';
 
 // Import scheduler and jobs
 import scheduler from './utils/scheduler';
@@ -76,14 +85,21 @@ if (process.env.NODE_ENV === 'development') {
   app.use(morgan('combined'));
 }
 
-// CORS
+// CORS - the public catalog and application endpoints can be called from any site (embedded widget)
 app.use((req, res, next) => {
   const origin = process.env.FRONTEND_URL;
-  
-  res.header('Access-Control-Allow-Origin', origin);
-  res.header('Access-Control-Allow-Methods', 'GET,POST,PUT,DELETE,PATCH,OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
-  res.header('Access-Control-Allow-Credentials', 'true');
+  const isPublicApplicationApi = req.path.startsWith('/api/applications/public/');
+
+  if (isPublicApplicationApi) {
+    res.header('Access-Control-Allow-Origin', '*');
+    res.header('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type');
+  } else {
+    res.header('Access-Control-Allow-Origin', origin);
+    res.header('Access-Control-Allow-Methods', 'GET,POST,PUT,DELETE,PATCH,OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
+    res.header('Access-Control-Allow-Credentials', 'true');
+  }
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -117,8 +133,13 @@ app.use('/api/teachers', teacherRoutes);
 app.use('/api/courses', courseRoutes);
 app.use('/api/lessons', lessonRoutes);
 app.use('/api/payments', paymentRoutes);
+app.use('/api/invoices', invoiceRoutes);
+app.use('/api/packages', packageRoutes);
+app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/parents', parentRoutes);
 app.use('/api/organizations', organizationRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/notification-templates', notificationTemplateRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/alerts', alertRoutes);
 app.use('/api/materials', materialRoutes);
@@ -136,6 +157,10 @@ app.use('/api/payouts', payoutRoutes);
 app.use('/api/balance', balanceRoutes);
 app.use('/api/applications', courseApplicationRoutes);
 app.use('/api/classrooms', classroomRoutes);
+app.use('/api/booking', bookingRoutes);
+app.use('/api/certificates', certificateRoutes);
+app.use('/api/placement-tests', placementTestRoutes);
+app.use('/api/waitlist', waitlistRoutes);
 
 // ============================================
 // ERROR HANDLING
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { UserRole } from '@prisma/client';
 import { Permission, hasPermission, hasAnyPermission } from '../config/permissions';
+import sessionService from '../services/session.service';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -9,6 +10,7 @@ export interface AuthRequest extends Request {
     email: string;
     role: UserRole;
     organizationId: string;
+    sessionId: string;
   };
 }
 
@@ -41,11 +43,37 @@ export const authenticate = async (
       email: string;
       role: UserRole;
       organizationId: string;
+      sid?: string;
     };
 
-    req.user = decoded;
+    // Tokens issued before sessions existed carry no session id and must be replaced by a fresh login
+    if (!decoded.sid || !(await sessionService.isSessionActive(decoded.sid, decoded.id))) {
+      return res.status(401).json({
+        error: {
+          code: 'SESSION_REVOKED',
+          message: 'Session has been terminated',
+        },
+      });
+    }
+
+    req.user = {
+      id: decoded.id,
+      email: decoded.email,
+      role: decoded.role,
+      organizationId: decoded.organizationId,
+      sessionId: decoded.sid,
+    };
     return next();
   } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({
+        error: {
+          code: 'TOKEN_EXPIRED',
+          message: 'Access token expired',
+        },
+      });
+    }
+
     if (error instanceof jwt.JsonWebTokenError) {
       return res.status(401).json({
         error: {
@@ -24,3 +24,45 @@ export const authLimiter = rateLimit({
   },
   skipSuccessfulRequests: true,
 });
+
+// Session refresh - own store so failed refreshes don't lock out logins, counts only rejected tokens
+export const refreshLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // 20 rejected refresh tokens
+  message: {
+    error: {
+      code: 'TOO_MANY_REFRESH_ATTEMPTS',
+      message: 'Too many session refresh attempts. Please log in again in 15 minutes.',
+    },
+  },
+  skipSuccessfulRequests: true,
+});
+
+// Public forms (application form, embedded widget) - per IP, counts only accepted submissions
+export const publicFormLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: parseInt(process.env.PUBLIC_FORM_RATE_LIMIT || '10'), // 10 submissions per hour
+  message: {
+    error: {
+      code: 'RATE_LIMIT_EXCEEDED',
+      message: 'Zbyt wiele zgłoszeń z tego adresu. Spróbuj ponownie później.',
+    },
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipFailedRequests: true,
+});
+
+// Public placement tests - starting and submitting attempts, per IP (failed requests count too)
+export const placementTestLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: parseInt(process.env.PLACEMENT_TEST_RATE_LIMIT || '20'), // 20 requests per hour (start + submit per attempt)
+  message: {
+    error: {
+      code: 'RATE_LIMIT_EXCEEDED',
+      message: 'Zbyt wiele podejść do testu z tego adresu. Spróbuj ponownie później.',
+    },
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
@@ -9,6 +9,40 @@ router.use(authenticate);
 // Get attendance for a specific lesson
 router.get('/lesson/:lessonId', attendanceController.getAttendanceByLesson.bind(attendanceController));
 
+// Attendance alert rules
+router.get(
+  '/settings',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  attendanceController.getSettings.bind(attendanceController)
+);
+
+router.put(
+  '/settings',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  attendanceController.updateSettings.bind(attendanceController)
+);
+
+// Course register: students x lessons grid (teachers, managers, admins)
+router.get(
+  '/course/:courseId/register',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.TEACHER),
+  attendanceController.getCourseRegister.bind(attendanceController)
+);
+
+// Export course register as PDF or XLSX
+router.get(
+  '/course/:courseId/register/export',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.TEACHER),
+  attendanceController.exportCourseRegister.bind(attendanceController)
+);
+
+// Bulk mark course register cells
+router.post(
+  '/course/:courseId/register',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.TEACHER),
+  attendanceController.bulkMarkRegister.bind(attendanceController)
+);
+
 // Create attendance record (teachers, managers, admins)
 router.post(
   '/',
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import authController from '../controllers/auth.controller';
 import { authenticate } from '../middleware/auth';
-import { authLimiter } from '../middleware/rateLimiter';
+import { authLimiter, refreshLimiter } from '../middleware/rateLimiter';
 
 const router = Router();
 
@@ -12,4 +12,11 @@ router.get('/me', authenticate, authController.getMe.bind(authController));
 router.post('/forgot-password', authLimiter, authController.forgotPassword.bind(authController));
 router.post('/reset-password', authLimiter, authController.resetPassword.bind(authController));
 
+// Sessions
+router.post('/refresh', refreshLimiter, authController.refresh.bind(authController));
+router.post('/logout', authenticate, authController.logout.bind(authController));
+router.post('/logout-all', authenticate, authController.logoutAll.bind(authController));
+router.get('/sessions', authenticate, authController.getSessions.bind(authController));
+router.delete('/sessions/:id', authenticate, authController.revokeSession.bind(authController));
+
 export default router;
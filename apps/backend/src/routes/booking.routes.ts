@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '@prisma/client';
+import bookingController from '../controllers/booking.controller';
+
+const router = Router();
+router.use(authenticate);
+
+// GET /api/booking/settings - Self-booking rules
+router.get(
+  '/settings',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  bookingController.getSettings.bind(bookingController)
+);
+
+// PUT /api/booking/settings - Update self-booking rules
+router.put(
+  '/settings',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  bookingController.updateSettings.bind(bookingController)
+);
+
+// GET /api/booking/me/options - Bookable courses, rules and remaining budget of the logged-in student
+router.get(
+  '/me/options',
+  authorize(UserRole.STUDENT),
+  bookingController.getMyOptions.bind(bookingController)
+);
+
+// GET /api/booking/me/slots - Free slots of the course teacher
+router.get(
+  '/me/slots',
+  authorize(UserRole.STUDENT),
+  bookingController.getMySlots.bind(bookingController)
+);
+
+// POST /api/booking/me/lessons - Book a lesson
+router.post(
+  '/me/lessons',
+  authorize(UserRole.STUDENT),
+  bookingController.bookLesson.bind(bookingController)
+);
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '@prisma/client';
+import certificateController from '../controllers/certificate.controller';
+
+const router = Router();
+
+// === PUBLIC ENDPOINTS (no auth required) ===
+
+// GET /api/certificates/verify/:code - Verify a certificate by the code printed on it
+router.get('/verify/:code', certificateController.verifyCertificate.bind(certificateController));
+
+// === PROTECTED ENDPOINTS ===
+router.use(authenticate);
+
+// GET /api/certificates/templates - Certificate templates per type
+router.get(
+  '/templates',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  certificateController.getTemplates.bind(certificateController)
+);
+
+// PUT /api/certificates/templates - Update certificate templates
+router.put(
+  '/templates',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  certificateController.updateTemplates.bind(certificateController)
+);
+
+// GET /api/certificates/student/:studentId - Certificates issued to a student
+router.get(
+  '/student/:studentId',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.TEACHER, UserRole.METHODOLOGIST),
+  certificateController.getStudentCertificates.bind(certificateController)
+);
+
+// POST /api/certificates - Issue a certificate for an enrollment
+router.post(
+  '/',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  certificateController.issueCertificate.bind(certificateController)
+);
+
+// POST /api/certificates/:id/revoke - Revoke an issued certificate
+router.post(
+  '/:id/revoke',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  certificateController.revokeCertificate.bind(certificateController)
+);
+
+export default router;
@@ -2,6 +2,7 @@ import express from 'express';
 import { authenticate, authorize } from '../middleware/auth';
 import { UserRole } from '@prisma/client';
 import courseApplicationController from '../controllers/courseApplication.controller';
+import { publicFormLimiter } from '../middleware/rateLimiter';
 
 const router = express.Router();
 
@@ -11,8 +12,14 @@ router.get(
   courseApplicationController.getPublicCourses.bind(courseApplicationController),
 );
 
+router.get(
+  '/public/:orgSlug/catalog',
+  courseApplicationController.getPublicCatalog.bind(courseApplicationController),
+);
+
 router.post(
   '/public/:orgSlug',
+  publicFormLimiter,
   courseApplicationController.createPublicApplication.bind(courseApplicationController),
 );
 
@@ -25,12 +32,73 @@ router.get(
   courseApplicationController.getApplications.bind(courseApplicationController),
 );
 
+router.post(
+  '/',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.createApplication.bind(courseApplicationController),
+);
+
+// Pipeline stages - registered before /:id so the paths are not taken for an application id
+router.get(
+  '/stages',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.getStages.bind(courseApplicationController),
+);
+
+router.post(
+  '/stages',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.createStage.bind(courseApplicationController),
+);
+
+router.put(
+  '/stages/reorder',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.reorderStages.bind(courseApplicationController),
+);
+
+router.put(
+  '/stages/:stageId',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.updateStage.bind(courseApplicationController),
+);
+
+router.delete(
+  '/stages/:stageId',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.deleteStage.bind(courseApplicationController),
+);
+
+router.get(
+  '/reports/conversion',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.getConversionReport.bind(courseApplicationController),
+);
+
+router.post(
+  '/tasks/:taskId/toggle',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.toggleTask.bind(courseApplicationController),
+);
+
+router.delete(
+  '/tasks/:taskId',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.deleteTask.bind(courseApplicationController),
+);
+
 router.get(
   '/:id',
   authorize(UserRole.ADMIN, UserRole.MANAGER),
   courseApplicationController.getApplicationById.bind(courseApplicationController),
 );
 
+router.get(
+  '/:id/suggested-courses',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.getSuggestedCourses.bind(courseApplicationController),
+);
+
 router.put(
   '/:id/status',
   authorize(UserRole.ADMIN, UserRole.MANAGER),
@@ -43,4 +111,46 @@ router.post(
   courseApplicationController.convertToStudent.bind(courseApplicationController),
 );
 
+router.post(
+  '/:id/trial-lesson',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.scheduleTrialLesson.bind(courseApplicationController),
+);
+
+router.post(
+  '/:id/trial-lesson/convert',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.convertTrialStudent.bind(courseApplicationController),
+);
+
+router.post(
+  '/:id/trial-lesson/archive',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.archiveTrialStudent.bind(courseApplicationController),
+);
+
+router.put(
+  '/:id/stage',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.moveToStage.bind(courseApplicationController),
+);
+
+router.get(
+  '/:id/timeline',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.getTimeline.bind(courseApplicationController),
+);
+
+router.post(
+  '/:id/notes',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.addNote.bind(courseApplicationController),
+);
+
+router.post(
+  '/:id/tasks',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  courseApplicationController.createTask.bind(courseApplicationController),
+);
+
 export default router;
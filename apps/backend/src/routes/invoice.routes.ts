@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+import invoiceController from '../controllers/invoice.controller';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+
+// All invoice routes require authentication and finance access
+router.use(authenticate);
+router.use(authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR));
+
+// Invoicing settings (must be before /:id route)
+router.get('/settings', invoiceController.getSettings.bind(invoiceController));
+router.put('/settings', invoiceController.updateSettings.bind(invoiceController));
+
+// Numbering series
+router.get('/series', invoiceController.getSeries.bind(invoiceController));
+router.post('/series', invoiceController.createSeries.bind(invoiceController));
+router.put('/series/:id', invoiceController.updateSeries.bind(invoiceController));
+router.delete('/series/:id', invoiceController.deleteSeries.bind(invoiceController));
+
+// Invoices
+router.get('/', invoiceController.getInvoices.bind(invoiceController));
+router.post('/', invoiceController.issueInvoice.bind(invoiceController));
+router.get('/:id', invoiceController.getInvoiceById.bind(invoiceController));
+router.get('/:id/pdf', invoiceController.downloadInvoice.bind(invoiceController));
+
+// Credit note and voiding
+router.post('/:id/correct', invoiceController.correctInvoice.bind(invoiceController));
+router.post('/:id/void', invoiceController.voidInvoice.bind(invoiceController));
+
+export default router;
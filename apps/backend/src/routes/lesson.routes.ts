@@ -35,6 +35,20 @@ router.patch(
 // Get cancellation fee preview for a lesson
 router.get('/:id/cancellation-fee-preview', lessonController.getCancellationFeePreview.bind(lessonController));
 
+// Cancellation preview for the logged-in student (fee and remaining cancellations)
+router.get(
+  '/:id/self-cancellation-preview',
+  authorize(UserRole.STUDENT),
+  lessonController.getSelfCancellationPreview.bind(lessonController)
+);
+
+// Cancel own lesson (students)
+router.post(
+  '/:id/self-cancel',
+  authorize(UserRole.STUDENT),
+  lessonController.selfCancelLesson.bind(lessonController)
+);
+
 // Get cancellation stats for a student
 router.get('/student/:studentId/cancellation-stats', lessonController.getCancellationStats.bind(lessonController));
 
@@ -1,6 +1,12 @@
 import express from 'express';
 import multer from 'multer';
-import { sendBulkEmail, getDebtorsCount } from '../controllers/mailing.controller';
+import {
+  sendBulkEmail,
+  getDebtorsCount,
+  getScheduledMailings,
+  updateScheduledMailing,
+  cancelScheduledMailing,
+} from '../controllers/mailing.controller';
 import { authenticate, authorize } from '../middleware/auth';
 import { UserRole } from '@prisma/client';
 
@@ -24,4 +30,9 @@ router.get('/debtors-count', authorize(UserRole.ADMIN, UserRole.MANAGER), getDeb
 // Send bulk email with attachments - only ADMIN and MANAGER can send bulk emails
 router.post('/send-bulk', authorize(UserRole.ADMIN, UserRole.MANAGER), upload.array('attachments', 10), sendBulkEmail as any);
 
+// Scheduled mailings - list, edit and cancel before they are dispatched
+router.get('/scheduled', authorize(UserRole.ADMIN, UserRole.MANAGER), getScheduledMailings);
+router.put('/scheduled/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), updateScheduledMailing);
+router.post('/scheduled/:id/cancel', authorize(UserRole.ADMIN, UserRole.MANAGER), cancelScheduledMailing);
+
 export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '@prisma/client';
+import notificationTemplateController from '../controllers/notification-template.controller';
+
+const router = Router();
+router.use(authenticate);
+router.use(authorize(UserRole.ADMIN, UserRole.MANAGER));
+
+// GET /api/notification-templates/triggers - Trigger events with available placeholders
+router.get('/triggers', notificationTemplateController.getTriggerEvents.bind(notificationTemplateController));
+
+// POST /api/notification-templates/preview - Render draft with sample data
+router.post('/preview', notificationTemplateController.previewTemplate.bind(notificationTemplateController));
+
+// POST /api/notification-templates/test - Send draft to the current user (or given address)
+router.post('/test', notificationTemplateController.sendTestEmail.bind(notificationTemplateController));
+
+// GET /api/notification-templates - List templates
+router.get('/', notificationTemplateController.getTemplates.bind(notificationTemplateController));
+
+// GET /api/notification-templates/:id - Get template by ID
+router.get('/:id', notificationTemplateController.getTemplateById.bind(notificationTemplateController));
+
+// POST /api/notification-templates - Create template
+router.post('/', notificationTemplateController.createTemplate.bind(notificationTemplateController));
+
+// PUT /api/notification-templates/:id - Update template
+router.put('/:id', notificationTemplateController.updateTemplate.bind(notificationTemplateController));
+
+// DELETE /api/notification-templates/:id - Delete template (falls back to built-in email)
+router.delete('/:id', notificationTemplateController.deleteTemplate.bind(notificationTemplateController));
+
+export default router;
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '@prisma/client';
+import packageController from '../controllers/package.controller';
+
+const router = Router();
+router.use(authenticate);
+
+// GET /api/packages - List packages
+router.get(
+  '/',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR),
+  packageController.getPackages.bind(packageController)
+);
+
+// GET /api/packages/student/:studentId - Get student's package enrollments
+router.get(
+  '/student/:studentId',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR),
+  packageController.getStudentPackages.bind(packageController)
+);
+
+// GET /api/packages/:id - Get package by ID
+router.get(
+  '/:id',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR),
+  packageController.getPackageById.bind(packageController)
+);
+
+// POST /api/packages - Create package
+router.post(
+  '/',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  packageController.createPackage.bind(packageController)
+);
+
+// PUT /api/packages/:id - Update package
+router.put(
+  '/:id',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  packageController.updatePackage.bind(packageController)
+);
+
+// DELETE /api/packages/:id - Delete (or deactivate) package
+router.delete(
+  '/:id',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  packageController.deletePackage.bind(packageController)
+);
+
+// POST /api/packages/:id/assign - Assign package to student (enrollment + pending payment)
+router.post(
+  '/:id/assign',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  packageController.assignPackage.bind(packageController)
+);
+
+export default router;
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '@prisma/client';
+import parentController from '../controllers/parent.controller';
+
+const router = Router();
+router.use(authenticate);
+
+// GET /api/parents/me/children - Parent dashboard (children, lessons, balance, payments)
+router.get(
+  '/me/children',
+  authorize(UserRole.PARENT),
+  parentController.getMyChildren.bind(parentController)
+);
+
+// GET /api/parents/me/lessons/:lessonId/cancellation-preview - Fee preview before cancelling child's lesson
+router.get(
+  '/me/lessons/:lessonId/cancellation-preview',
+  authorize(UserRole.PARENT),
+  parentController.getCancellationPreview.bind(parentController)
+);
+
+// POST /api/parents/me/lessons/:lessonId/cancel - Cancel child's lesson (requires canManageSchedule)
+router.post(
+  '/me/lessons/:lessonId/cancel',
+  authorize(UserRole.PARENT),
+  parentController.cancelLesson.bind(parentController)
+);
+
+// GET /api/parents/student/:studentId - Parents linked to student
+router.get(
+  '/student/:studentId',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR),
+  parentController.getStudentParents.bind(parentController)
+);
+
+// POST /api/parents/student/:studentId - Link parent to student (creates parent account if needed)
+router.post(
+  '/student/:studentId',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  parentController.linkParent.bind(parentController)
+);
+
+// PUT /api/parents/relations/:id - Update parent permissions
+router.put(
+  '/relations/:id',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  parentController.updateRelation.bind(parentController)
+);
+
+// DELETE /api/parents/relations/:id - Unlink parent from student
+router.delete(
+  '/relations/:id',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  parentController.unlinkParent.bind(parentController)
+);
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth';
+import multer from 'multer';
+import { UserRole } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
 import {
   previewPayout,
   createPayout,
@@ -12,10 +14,31 @@ import {
   getLessonsForDay,
   getLessonsForRange,
   getPayoutForecast,
+  getTeacherRateRules,
+  createTeacherRateRule,
+  updateTeacherRateRule,
+  deleteTeacherRateRule,
+  reorderTeacherRateRules,
+  getPayroll,
+  exportPayroll,
+  uploadPayoutInvoice,
+  deletePayoutInvoice,
+  getMyEarnings,
+  getMyPayouts,
+  confirmMyPayout,
+  disputeMyPayout,
+  exportTransferBatch,
+  markTransferBatchPaid,
 } from '../controllers/payout.controller';
 
 const router = Router();
 
+// B2B invoices (PDF) attached to payouts
+const invoiceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
+});
+
 // All routes require authentication
 router.use(authenticate);
 
@@ -25,6 +48,24 @@ router.get('/teachers-summary', getTeachersSummary);
 // Payout forecast for a given date (all teachers or single teacher)
 router.get('/forecast', getPayoutForecast);
 
+// Rate card rules (first matching rule prices the lesson)
+router.put('/rate-rules/:ruleId', authorize(UserRole.ADMIN, UserRole.MANAGER), updateTeacherRateRule);
+router.delete('/rate-rules/:ruleId', authorize(UserRole.ADMIN, UserRole.MANAGER), deleteTeacherRateRule);
+
+// Monthly payroll by contract type (approved payouts) and its CSV/XLSX export
+router.get('/payroll', authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR), getPayroll);
+router.get('/payroll/export', authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR), exportPayroll);
+
+// Bulk bank transfer file (Elixir-O / SEPA) for approved payouts, then mark the whole batch as paid
+router.post('/transfer-batch/export', authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR), exportTransferBatch);
+router.post('/transfer-batch/mark-paid', authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR), markTransferBatchPaid);
+
+// Teacher's own earnings and payout sign-off (confirm or dispute lines before approval)
+router.get('/my/summary', authorize(UserRole.TEACHER), getMyEarnings);
+router.get('/my', authorize(UserRole.TEACHER), getMyPayouts);
+router.post('/my/:id/confirm', authorize(UserRole.TEACHER), confirmMyPayout);
+router.post('/my/:id/dispute', authorize(UserRole.TEACHER), disputeMyPayout);
+
 // Get all payouts (with optional filters)
 router.get('/', getPayouts);
 
@@ -40,10 +81,26 @@ router.patch('/:id/status', updatePayoutStatus);
 // Delete payout
 router.delete('/:id', deletePayout);
 
+// Teacher's invoice for B2B payouts - required before marking as PAID
+router.post(
+  '/:id/invoice',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR, UserRole.TEACHER),
+  invoiceUpload.single('file'),
+  uploadPayoutInvoice
+);
+router.delete(
+  '/:id/invoice',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR, UserRole.TEACHER),
+  deletePayoutInvoice
+);
+
 // Teacher-specific routes
 router.get('/teacher/:teacherId', getTeacherPayouts);
 router.get('/teacher/:teacherId/preview', previewPayout);
 router.get('/teacher/:teacherId/lessons', getLessonsForDay);
 router.get('/teacher/:teacherId/lessons-range', getLessonsForRange);
+router.get('/teacher/:teacherId/rate-rules', getTeacherRateRules);
+router.post('/teacher/:teacherId/rate-rules', authorize(UserRole.ADMIN, UserRole.MANAGER), createTeacherRateRule);
+router.put('/teacher/:teacherId/rate-rules/reorder', authorize(UserRole.ADMIN, UserRole.MANAGER), reorderTeacherRateRules);
 
 export default router;
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '@prisma/client';
+import placementTestController from '../controllers/placementTest.controller';
+import { placementTestLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+
+// === PUBLIC ENDPOINTS (no auth required) ===
+
+// GET /api/placement-tests/public/:orgSlug - Tests offered on the application form
+router.get('/public/:orgSlug', placementTestController.getPublicTests.bind(placementTestController));
+
+// POST /api/placement-tests/public/:orgSlug/:testId/start - Start a timed attempt
+router.post(
+  '/public/:orgSlug/:testId/start',
+  placementTestLimiter,
+  placementTestController.startAttempt.bind(placementTestController)
+);
+
+// POST /api/placement-tests/attempts/:attemptId/submit - Submit answers and get the suggested level
+router.post(
+  '/attempts/:attemptId/submit',
+  placementTestLimiter,
+  placementTestController.submitAttempt.bind(placementTestController)
+);
+
+// === PROTECTED ENDPOINTS ===
+router.use(authenticate);
+router.use(authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.METHODOLOGIST));
+
+// GET /api/placement-tests - Question banks
+router.get('/', placementTestController.getTests.bind(placementTestController));
+
+// GET /api/placement-tests/:id - Test with questions and answers
+router.get('/:id', placementTestController.getTestById.bind(placementTestController));
+
+// POST /api/placement-tests - Create a test
+router.post('/', placementTestController.createTest.bind(placementTestController));
+
+// PUT /api/placement-tests/:id - Update a test (questions replace the whole bank)
+router.put('/:id', placementTestController.updateTest.bind(placementTestController));
+
+// DELETE /api/placement-tests/:id - Delete a test
+router.delete('/:id', placementTestController.deleteTest.bind(placementTestController));
+
+export default router;
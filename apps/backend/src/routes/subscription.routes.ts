@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '@prisma/client';
+import subscriptionController from '../controllers/subscription.controller';
+
+const router = Router();
+router.use(authenticate);
+
+// GET /api/subscriptions - List subscription plans
+router.get(
+  '/',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR),
+  subscriptionController.getSubscriptions.bind(subscriptionController)
+);
+
+// GET /api/subscriptions/student/:studentId - Get student's subscription enrollments
+router.get(
+  '/student/:studentId',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR),
+  subscriptionController.getStudentSubscriptions.bind(subscriptionController)
+);
+
+// PATCH /api/subscriptions/enrollments/:enrollmentId/status - Pause, resume or cancel subscription
+router.patch(
+  '/enrollments/:enrollmentId/status',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  subscriptionController.updateEnrollmentStatus.bind(subscriptionController)
+);
+
+// GET /api/subscriptions/:id - Get subscription plan by ID
+router.get(
+  '/:id',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.HR),
+  subscriptionController.getSubscriptionById.bind(subscriptionController)
+);
+
+// POST /api/subscriptions - Create subscription plan
+router.post(
+  '/',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  subscriptionController.createSubscription.bind(subscriptionController)
+);
+
+// PUT /api/subscriptions/:id - Update subscription plan
+router.put(
+  '/:id',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  subscriptionController.updateSubscription.bind(subscriptionController)
+);
+
+// DELETE /api/subscriptions/:id - Delete (or deactivate) subscription plan
+router.delete(
+  '/:id',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  subscriptionController.deleteSubscription.bind(subscriptionController)
+);
+
+// POST /api/subscriptions/:id/assign - Assign subscription to student (enrollment + first monthly charge)
+router.post(
+  '/:id/assign',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  subscriptionController.assignSubscription.bind(subscriptionController)
+);
+
+export default router;
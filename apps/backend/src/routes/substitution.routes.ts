@@ -9,6 +9,27 @@ router.use(authenticate);
 // Get all substitutions
 router.get('/', substitutionController.getSubstitutions.bind(substitutionController));
 
+// Get ranked substitute candidates for a lesson (managers, admins)
+router.get(
+  '/candidates/:lessonId',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  substitutionController.getSubstituteCandidates.bind(substitutionController)
+);
+
+// Get ranked candidates for a teacher's lessons in a date range (managers, admins)
+router.get(
+  '/recommendations',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  substitutionController.getRangeRecommendations.bind(substitutionController)
+);
+
+// Substitute all lessons of a teacher in a date range (managers, admins)
+router.post(
+  '/bulk',
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  substitutionController.bulkSubstitute.bind(substitutionController)
+);
+
 // Get substitution by lesson ID
 router.get('/lesson/:lessonId', substitutionController.getSubstitutionByLessonId.bind(substitutionController));
 
@@ -34,6 +34,33 @@ router.get(
   teacherController.getMySchedule.bind(teacherController)
 );
 
+// GET /api/teachers/:id/availability - Get weekly availability and unavailability periods
+router.get('/:id/availability', teacherController.getAvailability.bind(teacherController));
+
+// PUT /api/teachers/:id/availability - Replace weekly availability windows
+router.put(
+  '/:id/availability',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.TEACHER),
+  teacherController.setAvailability.bind(teacherController)
+);
+
+// POST /api/teachers/:id/unavailability - Add unavailability period (vacation, sick leave)
+router.post(
+  '/:id/unavailability',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.TEACHER),
+  teacherController.createUnavailability.bind(teacherController)
+);
+
+// DELETE /api/teachers/:id/unavailability/:unavailabilityId - Remove unavailability period
+router.delete(
+  '/:id/unavailability/:unavailabilityId',
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.TEACHER),
+  teacherController.deleteUnavailability.bind(teacherController)
+);
+
+// GET /api/teachers/:id/free-slots - Bookable slots for a date range
+router.get('/:id/free-slots', teacherController.getFreeSlots.bind(teacherController));
+
 // GET /api/teachers/:id - Get teacher by ID
 router.get('/:id', teacherController.getTeacherById.bind(teacherController));
 
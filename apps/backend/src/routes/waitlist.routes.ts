@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '@prisma/client';
+import waitlistController from '../controllers/waitlist.controller';
+
+const router = Router();
+
+// === PUBLIC ENDPOINTS (no auth required) ===
+
+// GET /api/waitlist/offer/:token - Seat offer from the email link
+router.get('/offer/:token', waitlistController.getOffer.bind(waitlistController));
+
+// POST /api/waitlist/offer/:token/accept - Accept the offered seat (enrolls the student)
+router.post('/offer/:token/accept', waitlistController.acceptOffer.bind(waitlistController));
+
+// POST /api/waitlist/offer/:token/decline - Decline the offered seat (passes it to the next person)
+router.post('/offer/:token/decline', waitlistController.declineOffer.bind(waitlistController));
+
+// === PROTECTED ENDPOINTS ===
+router.use(authenticate);
+router.use(authorize(UserRole.ADMIN, UserRole.MANAGER));
+
+// GET /api/waitlist/course/:courseId - Waiting list of a course with recent history
+router.get('/course/:courseId', waitlistController.getCourseWaitlist.bind(waitlistController));
+
+// POST /api/waitlist - Add a student or an applicant to a course waiting list
+router.post('/', waitlistController.addToWaitlist.bind(waitlistController));
+
+// POST /api/waitlist/:id/move - Move an entry up or down the queue
+router.post('/:id/move', waitlistController.moveEntry.bind(waitlistController));
+
+// DELETE /api/waitlist/:id - Remove an entry from the waiting list
+router.delete('/:id', waitlistController.removeEntry.bind(waitlistController));
+
+export default router;
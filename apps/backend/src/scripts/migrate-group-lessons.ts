@@ -0,0 +1,171 @@
+import prisma from '../utils/prisma';
+import googleCalendarService from '../services/google-calendar.service';
+
+/**
+ * Migration script to merge per-student lessons of GROUP courses into group lessons
+ * Lessons of the same course, teacher, time, duration and status become one lesson
+ * with a LessonParticipant per student. Attendance, payments, balance transactions
+ * and materials are moved to the kept lesson, the remaining copies are deleted.
+ * Slots where more than one copy is already in a teacher payout are skipped to keep payout history intact.
+ */
+async function migrateGroupLessons() {
+  try {
+    console.log('Starting group lessons migration...');
+
+    const lessons = await prisma.lesson.findMany({
+      where: {
+        isGroupLesson: false,
+        course: { courseType: 'GROUP' },
+      },
+      select: {
+        id: true,
+        courseId: true,
+        teacherId: true,
+        studentId: true,
+        enrollmentId: true,
+        scheduledAt: true,
+        durationMinutes: true,
+        status: true,
+        createdAt: true,
+        substitution: { select: { id: true } },
+        googleCalendarEvent: { select: { id: true } },
+        _count: { select: { payoutLessons: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    console.log(`Found ${lessons.length} lessons of group courses to migrate`);
+
+    // Group lessons by slot
+    const slots = new Map<string, typeof lessons>();
+    for (const lesson of lessons) {
+      const key = [lesson.courseId, lesson.teacherId, lesson.scheduledAt.toISOString(), lesson.durationMinutes, lesson.status].join('|');
+      slots.set(key, [...(slots.get(key) || []), lesson]);
+    }
+
+    let mergedCount = 0;
+    let removedCount = 0;
+    let skippedCount = 0;
+
+    for (const slotLessons of slots.values()) {
+      const settled = slotLessons.filter((lesson) => lesson._count.payoutLessons > 0);
+      if (settled.length > 1) {
+        console.log(`Skipping slot ${slotLessons[0].scheduledAt.toISOString()} (course ${slotLessons[0].courseId}) - ${settled.length} copies already in teacher payouts`);
+        skippedCount++;
+        continue;
+      }
+
+      // Keep the copy referenced by a payout, substitution or calendar event - otherwise the oldest one
+      const keeper =
+        settled[0] ||
+        slotLessons.find((lesson) => lesson.substitution) ||
+        slotLessons.find((lesson) => lesson.googleCalendarEvent) ||
+        slotLessons[0];
+      const duplicates = slotLessons.filter((lesson) => lesson.id !== keeper.id);
+      const duplicateIds = duplicates.map((lesson) => lesson.id);
+
+      // Remove Google Calendar events of the copies before they are deleted
+      for (const duplicate of duplicates) {
+        if (!duplicate.googleCalendarEvent) continue;
+        try {
+          await googleCalendarService.deleteEventFromLesson(duplicate.id);
+        } catch (error) {
+          console.error(`Failed to delete Google Calendar event of lesson ${duplicate.id}:`, error);
+        }
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.lesson.update({
+          where: { id: keeper.id },
+          data: { isGroupLesson: true },
+        });
+
+        await tx.lessonParticipant.createMany({
+          data: slotLessons.map((lesson) => ({
+            lessonId: keeper.id,
+            studentId: lesson.studentId,
+            enrollmentId: lesson.enrollmentId,
+          })),
+          skipDuplicates: true,
+        });
+
+        if (duplicateIds.length === 0) return;
+
+        // Move attendance (a student listed twice keeps the record already on the kept lesson)
+        const attendances = await tx.lessonAttendance.findMany({
+          where: { lessonId: { in: [keeper.id, ...duplicateIds] } },
+          orderBy: { createdAt: 'asc' },
+        });
+        const attendedStudentIds = new Set(
+          attendances.filter((attendance) => attendance.lessonId === keeper.id).map((attendance) => attendance.studentId)
+        );
+        for (const attendance of attendances) {
+          if (attendance.lessonId === keeper.id) continue;
+          if (attendedStudentIds.has(attendance.studentId)) {
+            await tx.lessonAttendance.delete({ where: { id: attendance.id } });
+            continue;
+          }
+          await tx.lessonAttendance.update({
+            where: { id: attendance.id },
+            data: { lessonId: keeper.id },
+          });
+          attendedStudentIds.add(attendance.studentId);
+        }
+
+        await tx.payment.updateMany({
+          where: { lessonId: { in: duplicateIds } },
+          data: { lessonId: keeper.id },
+        });
+
+        await tx.balanceTransaction.updateMany({
+          where: { lessonId: { in: duplicateIds } },
+          data: { lessonId: keeper.id },
+        });
+
+        await tx.lessonMaterial.updateMany({
+          where: { lessonId: { in: duplicateIds } },
+          data: { lessonId: keeper.id },
+        });
+
+        // Substitutions and calendar mappings of the copies are removed by cascade
+        await tx.lesson.deleteMany({
+          where: { id: { in: duplicateIds } },
+        });
+      });
+
+      // Refresh the kept calendar event so it lists all participants
+      if (keeper.googleCalendarEvent) {
+        try {
+          await googleCalendarService.updateEventFromLesson(keeper.id);
+        } catch (error) {
+          console.error(`Failed to update Google Calendar event of lesson ${keeper.id}:`, error);
+        }
+      }
+
+      mergedCount++;
+      removedCount += duplicateIds.length;
+      console.log(`Merged ${slotLessons.length} lessons into group lesson ${keeper.id}`);
+    }
+
+    console.log('\nMigration completed!');
+    console.log(`Group lessons: ${mergedCount}`);
+    console.log(`Removed copies: ${removedCount}`);
+    console.log(`Skipped slots: ${skippedCount} (already settled in teacher payouts)`);
+  } catch (error) {
+    console.error('Error during migration:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run migration
+migrateGroupLessons()
+  .then(() => {
+    console.log('Migration script finished successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration script failed:', error);
+    process.exit(1);
+  });
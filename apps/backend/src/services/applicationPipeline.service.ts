@@ -0,0 +1,459 @@
+import {
+  AlertPriority,
+  AlertType,
+  ApplicationActivityType,
+  ApplicationSource,
+  ApplicationStageKind,
+  ApplicationStatus,
+  Prisma,
+} from '@prisma/client';
+import prisma from '../utils/prisma';
+import alertService from './alert.service';
+
+export interface StageData {
+  name: string;
+  color?: string;
+  kind?: ApplicationStageKind;
+}
+
+export interface TaskData {
+  title: string;
+  dueAt: Date;
+  assignedToId?: string;
+}
+
+interface ActivityData {
+  organizationId: string;
+  applicationId: string;
+  type: ApplicationActivityType;
+  message: string;
+  metadata?: Record<string, unknown>;
+  userId?: string;
+}
+
+// Application status that follows from the stage an application sits in
+export const STAGE_KIND_STATUS: Record<ApplicationStageKind, ApplicationStatus> = {
+  OPEN: ApplicationStatus.NEW,
+  WON: ApplicationStatus.ACCEPTED,
+  LOST: ApplicationStatus.REJECTED,
+};
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  NEW: 'Nowe',
+  ACCEPTED: 'Zaakceptowane',
+  REJECTED: 'Odrzucone',
+};
+
+export const APPLICATION_SOURCE_LABELS: Record<ApplicationSource, string> = {
+  WEBSITE: 'Formularz WWW',
+  WIDGET: 'Widget na stronie',
+  PHONE: 'Telefon',
+  EMAIL: 'E-mail',
+  WALK_IN: 'Wizyta w szkole',
+  REFERRAL: 'Polecenie',
+  SOCIAL_MEDIA: 'Media społecznościowe',
+  OTHER: 'Inne',
+};
+
+const DEFAULT_STAGES: StageData[] = [
+  { name: 'Nowe', color: '#3B82F6', kind: ApplicationStageKind.OPEN },
+  { name: 'Skontaktowano', color: '#8B5CF6', kind: ApplicationStageKind.OPEN },
+  { name: 'Lekcja próbna umówiona', color: '#F59E0B', kind: ApplicationStageKind.OPEN },
+  { name: 'Oferta wysłana', color: '#06B6D4', kind: ApplicationStageKind.OPEN },
+  { name: 'Wygrane', color: '#10B981', kind: ApplicationStageKind.WON },
+  { name: 'Przegrane', color: '#EF4444', kind: ApplicationStageKind.LOST },
+];
+
+const taskInclude = {
+  assignedTo: { select: { id: true, firstName: true, lastName: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+} as const;
+
+function formatDueDate(date: Date): string {
+  return date.toLocaleString('pl-PL', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function summarize(rows: { status: ApplicationStatus; convertedStudentId: string | null }[]) {
+  const won = rows.filter((row) => row.status === ApplicationStatus.ACCEPTED).length;
+  const lost = rows.filter((row) => row.status === ApplicationStatus.REJECTED).length;
+
+  return {
+    total: rows.length,
+    open: rows.length - won - lost,
+    won,
+    lost,
+    converted: rows.filter((row) => row.convertedStudentId).length,
+    conversionRate: rows.length > 0 ? Math.round((won / rows.length) * 1000) / 10 : 0,
+  };
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const group = groups.get(key(row)) ?? [];
+    group.push(row);
+    groups.set(key(row), group);
+  }
+  return groups;
+}
+
+class ApplicationPipelineService {
+  /**
+   * Pipeline stages in board order - the default pipeline is created on first use
+   */
+  async getStages(organizationId: string) {
+    const stages = await prisma.applicationStage.findMany({
+      where: { organizationId },
+      orderBy: { position: 'asc' },
+    });
+
+    if (stages.length > 0) {
+      return stages;
+    }
+
+    await prisma.applicationStage.createMany({
+      data: DEFAULT_STAGES.map((stage, index) => ({ ...stage, organizationId, position: index })),
+    });
+
+    const created = await prisma.applicationStage.findMany({
+      where: { organizationId },
+      orderBy: { position: 'asc' },
+    });
+
+    // Applications from before the pipeline existed start in the first stage matching their status
+    for (const kind of Object.values(ApplicationStageKind)) {
+      const stage = created.find((s) => s.kind === kind);
+      if (!stage) continue;
+      await prisma.courseApplication.updateMany({
+        where: { organizationId, stageId: null, status: STAGE_KIND_STATUS[kind] },
+        data: { stageId: stage.id },
+      });
+    }
+
+    return created;
+  }
+
+  async getStage(id: string, organizationId: string) {
+    const stage = await prisma.applicationStage.findFirst({
+      where: { id, organizationId },
+    });
+
+    if (!stage) {
+      throw new Error('Etap nie został znaleziony');
+    }
+
+    return stage;
+  }
+
+  /**
+   * First stage (in board order) that corresponds to the given status
+   */
+  async getStageForStatus(organizationId: string, status: ApplicationStatus) {
+    const stages = await this.getStages(organizationId);
+    return stages.find((stage) => STAGE_KIND_STATUS[stage.kind] === status) ?? null;
+  }
+
+  async createStage(data: StageData, organizationId: string) {
+    const stages = await this.getStages(organizationId);
+
+    return prisma.applicationStage.create({
+      data: {
+        ...data,
+        organizationId,
+        position: stages.length > 0 ? stages[stages.length - 1].position + 1 : 0,
+      },
+    });
+  }
+
+  /**
+   * Kind is fixed after creation - changing it would silently change the status of every application in the stage
+   */
+  async updateStage(id: string, data: Omit<Partial<StageData>, 'kind'>, organizationId: string) {
+    await this.getStage(id, organizationId);
+
+    return prisma.applicationStage.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * Applications in the deleted stage move to the first other stage of the same kind
+   */
+  async deleteStage(id: string, organizationId: string) {
+    const stage = await this.getStage(id, organizationId);
+
+    const replacement = await prisma.applicationStage.findFirst({
+      where: { organizationId, kind: stage.kind, id: { not: id } },
+      orderBy: { position: 'asc' },
+    });
+
+    if (!replacement) {
+      throw new Error('Nie można usunąć jedynego etapu tego rodzaju');
+    }
+
+    await prisma.$transaction([
+      prisma.courseApplication.updateMany({
+        where: { stageId: id },
+        data: { stageId: replacement.id },
+      }),
+      prisma.applicationStage.delete({ where: { id } }),
+    ]);
+  }
+
+  async reorderStages(stageIds: string[], organizationId: string) {
+    const stages = await this.getStages(organizationId);
+
+    if (stageIds.length !== stages.length || !stages.every((stage) => stageIds.includes(stage.id))) {
+      throw new Error('Lista etapów jest niekompletna');
+    }
+
+    await prisma.$transaction(
+      stageIds.map((id, position) => prisma.applicationStage.update({ where: { id }, data: { position } })),
+    );
+
+    return this.getStages(organizationId);
+  }
+
+  async logActivity(data: ActivityData) {
+    return prisma.applicationActivity.create({
+      data: {
+        ...data,
+        metadata: data.metadata as Prisma.InputJsonValue | undefined,
+      },
+    });
+  }
+
+  /**
+   * Activity log and follow-up tasks of an application, newest first
+   */
+  async getTimeline(applicationId: string, organizationId: string) {
+    await this.assertApplication(applicationId, organizationId);
+
+    const [activities, tasks] = await Promise.all([
+      prisma.applicationActivity.findMany({
+        where: { applicationId },
+        include: { user: { select: { id: true, firstName: true, lastName: true } } },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.applicationTask.findMany({
+        where: { applicationId },
+        include: taskInclude,
+        orderBy: [{ completedAt: { sort: 'asc', nulls: 'first' } }, { dueAt: 'asc' }],
+      }),
+    ]);
+
+    return { activities, tasks };
+  }
+
+  async addNote(applicationId: string, message: string, organizationId: string, userId: string) {
+    await this.assertApplication(applicationId, organizationId);
+
+    return this.logActivity({
+      organizationId,
+      applicationId,
+      type: ApplicationActivityType.NOTE,
+      message,
+      userId,
+    });
+  }
+
+  async createTask(applicationId: string, data: TaskData, organizationId: string, userId: string) {
+    await this.assertApplication(applicationId, organizationId);
+
+    if (data.assignedToId) {
+      const assignee = await prisma.user.findFirst({
+        where: { id: data.assignedToId, organizationId, isActive: true },
+        select: { id: true },
+      });
+      if (!assignee) {
+        throw new Error('Wybrana osoba nie należy do organizacji');
+      }
+    }
+
+    const task = await prisma.applicationTask.create({
+      data: {
+        organizationId,
+        applicationId,
+        title: data.title,
+        dueAt: data.dueAt,
+        assignedToId: data.assignedToId,
+        createdById: userId,
+      },
+      include: taskInclude,
+    });
+
+    await this.logActivity({
+      organizationId,
+      applicationId,
+      type: ApplicationActivityType.TASK_CREATED,
+      message: `Zadanie: ${task.title} (termin ${formatDueDate(task.dueAt)})`,
+      metadata: { taskId: task.id },
+      userId,
+    });
+
+    return task;
+  }
+
+  /**
+   * Mark a task done, or reopen a completed one
+   */
+  async toggleTask(id: string, organizationId: string, userId: string) {
+    const task = await prisma.applicationTask.findFirst({
+      where: { id, organizationId },
+    });
+
+    if (!task) {
+      throw new Error('Zadanie nie zostało znalezione');
+    }
+
+    const updated = await prisma.applicationTask.update({
+      where: { id },
+      data: { completedAt: task.completedAt ? null : new Date() },
+      include: taskInclude,
+    });
+
+    if (updated.completedAt) {
+      await this.logActivity({
+        organizationId,
+        applicationId: task.applicationId,
+        type: ApplicationActivityType.TASK_COMPLETED,
+        message: `Wykonano zadanie: ${task.title}`,
+        metadata: { taskId: task.id },
+        userId,
+      });
+    }
+
+    return updated;
+  }
+
+  async deleteTask(id: string, organizationId: string) {
+    const task = await prisma.applicationTask.findFirst({
+      where: { id, organizationId },
+    });
+
+    if (!task) {
+      throw new Error('Zadanie nie zostało znalezione');
+    }
+
+    await prisma.applicationTask.delete({ where: { id } });
+  }
+
+  /**
+   * Raise an alert for every follow-up that became due (run periodically)
+   */
+  async processDueTasks() {
+    const tasks = await prisma.applicationTask.findMany({
+      where: { completedAt: null, alertedAt: null, dueAt: { lte: new Date() } },
+      include: { application: { select: { id: true, name: true } } },
+    });
+
+    for (const task of tasks) {
+      try {
+        await alertService.createAlert({
+          organizationId: task.organizationId,
+          userId: task.assignedToId ?? undefined,
+          type: AlertType.WARNING,
+          priority: AlertPriority.HIGH,
+          title: `Zadanie do wykonania: ${task.title}`,
+          message: `Minął termin zadania dla zgłoszenia ${task.application.name} (${formatDueDate(task.dueAt)}).`,
+          metadata: { applicationId: task.application.id, taskId: task.id },
+        });
+
+        await prisma.applicationTask.update({
+          where: { id: task.id },
+          data: { alertedAt: new Date() },
+        });
+      } catch (error) {
+        console.error(`Failed to raise alert for application task ${task.id}:`, error);
+      }
+    }
+
+    return tasks.length;
+  }
+
+  /**
+   * Conversion (won / all applications) by source and course for applications created in the period
+   */
+  async getConversionReport(organizationId: string, filters: { dateFrom?: Date; dateTo?: Date }) {
+    const [applications, stages] = await Promise.all([
+      prisma.courseApplication.findMany({
+        where: {
+          organizationId,
+          ...((filters.dateFrom || filters.dateTo) && {
+            createdAt: {
+              ...(filters.dateFrom && { gte: filters.dateFrom }),
+              ...(filters.dateTo && { lte: filters.dateTo }),
+            },
+          }),
+        },
+        select: {
+          status: true,
+          source: true,
+          stageId: true,
+          lossReason: true,
+          convertedStudentId: true,
+          courseId: true,
+          course: { select: { name: true } },
+        },
+      }),
+      this.getStages(organizationId),
+    ]);
+
+    const bySource = [...groupBy(applications, (app) => app.source).entries()]
+      .map(([source, rows]) => ({
+        source: source as ApplicationSource,
+        label: APPLICATION_SOURCE_LABELS[source as ApplicationSource],
+        ...summarize(rows),
+      }))
+      .sort((a, b) => b.total - a.total);
+
+    const byCourse = [...groupBy(applications, (app) => app.courseId ?? '').entries()]
+      .map(([courseId, rows]) => ({
+        courseId: courseId || null,
+        courseName: rows[0].course?.name ?? 'Bez wskazanego kursu',
+        ...summarize(rows),
+      }))
+      .sort((a, b) => b.total - a.total);
+
+    const lost = applications.filter((app) => app.status === ApplicationStatus.REJECTED);
+    const lossReasons = [...groupBy(lost, (app) => app.lossReason?.trim() || 'Nie podano').entries()]
+      .map(([reason, rows]) => ({ reason, count: rows.length }))
+      .sort((a, b) => b.count - a.count);
+
+    const byStage = stages.map((stage) => ({
+      stageId: stage.id,
+      name: stage.name,
+      color: stage.color,
+      kind: stage.kind,
+      count: applications.filter((app) => app.stageId === stage.id).length,
+    }));
+
+    return {
+      summary: summarize(applications),
+      bySource,
+      byCourse,
+      byStage,
+      lossReasons,
+    };
+  }
+
+  private async assertApplication(applicationId: string, organizationId: string) {
+    const application = await prisma.courseApplication.findFirst({
+      where: { id: applicationId, organizationId },
+      select: { id: true },
+    });
+
+    if (!application) {
+      throw new Error('Zgłoszenie nie zostało znalezione');
+    }
+  }
+}
+
+export default new ApplicationPipelineService();
@@ -1,4 +1,8 @@
-import { PrismaClient, AttendanceStatus } from '@prisma/client';
+import { PrismaClient, AttendanceStatus, AlertPriority, LessonStatus } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import alertService from './alert.service';
+import PdfGenerator from '../utils/pdf-generator';
 
 const prisma = new PrismaClient();
 
@@ -14,7 +18,96 @@ export interface UpdateAttendanceData {
   notes?: string;
 }
 
+export interface AttendanceSettings {
+  alertsEnabled: boolean;
+  minAttendancePercent: number; // Alert when a student's course attendance drops below this
+  maxConsecutiveAbsences: number; // Alert after this many absences in a row (0 = off)
+}
+
+export interface RegisterEntry {
+  lessonId: string;
+  studentId: string;
+  status: AttendanceStatus;
+}
+
+export interface RegisterFilters {
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export interface StudentAttendanceStats {
+  present: number;
+  absent: number;
+  late: number;
+  excused: number;
+  percent: number | null; // null until at least one countable lesson is marked
+  consecutiveAbsences: number;
+}
+
+const DEFAULT_ATTENDANCE_SETTINGS: AttendanceSettings = {
+  alertsEnabled: false,
+  minAttendancePercent: 70,
+  maxConsecutiveAbsences: 3,
+};
+
+// The percentage rule only fires once enough lessons are marked to be meaningful
+const MIN_MARKED_LESSONS_FOR_PERCENT_ALERT = 3;
+
+const cancelledStatuses: LessonStatus[] = [LessonStatus.CANCELLED_ON_TIME, LessonStatus.CANCELLED_LATE];
+
+const statusSymbols: Record<AttendanceStatus, string> = {
+  PRESENT: 'O',
+  ABSENT: 'N',
+  LATE: 'S',
+  EXCUSED: 'U',
+};
+
+/**
+ * Attendance percent = (present + late) / (present + late + absent).
+ * Excused absences are left out of both sides; the streak counts unexcused absences
+ * since the last attended lesson.
+ */
+export function calculateAttendanceStats(statuses: AttendanceStatus[]): StudentAttendanceStats {
+  const count = (status: AttendanceStatus) => statuses.filter((s) => s === status).length;
+  const present = count(AttendanceStatus.PRESENT);
+  const absent = count(AttendanceStatus.ABSENT);
+  const late = count(AttendanceStatus.LATE);
+  const excused = count(AttendanceStatus.EXCUSED);
+  const countable = present + late + absent;
+
+  let consecutiveAbsences = 0;
+  for (let i = statuses.length - 1; i >= 0; i--) {
+    if (statuses[i] === AttendanceStatus.ABSENT) {
+      consecutiveAbsences++;
+    } else if (statuses[i] !== AttendanceStatus.EXCUSED) {
+      break;
+    }
+  }
+
+  return {
+    present,
+    absent,
+    late,
+    excused,
+    percent: countable > 0 ? Math.round(((present + late) / countable) * 1000) / 10 : null,
+    consecutiveAbsences,
+  };
+}
+
 class AttendanceService {
+  /**
+   * Attendance is recorded per participant - the lesson's student or a group lesson participant
+   */
+  private isLessonStudent(
+    lesson: { studentId: string; isGroupLesson: boolean; participants: { studentId: string }[] },
+    studentId: string
+  ) {
+    if (lesson.isGroupLesson) {
+      return lesson.participants.some((participant) => participant.studentId === studentId);
+    }
+    return lesson.studentId === studentId;
+  }
+
   async createAttendance(data: CreateAttendanceData, organizationId: string) {
     // Verify lesson exists and belongs to organization
     const lesson = await prisma.lesson.findFirst({
@@ -22,12 +115,19 @@ class AttendanceService {
         id: data.lessonId,
         organizationId,
       },
+      include: {
+        participants: { select: { studentId: true } },
+      },
     });
 
     if (!lesson) {
       throw new Error('Lesson not found');
     }
 
+    if (!this.isLessonStudent(lesson, data.studentId)) {
+      throw new Error('Student is not a participant of this lesson');
+    }
+
     // Verify student exists and belongs to organization
     const student = await prisma.student.findFirst({
       where: {
@@ -77,6 +177,12 @@ class AttendanceService {
       },
     });
 
+    if (lesson.courseId) {
+      this.checkAttendanceAlerts(lesson.courseId, organizationId, [data.studentId]).catch((err) =>
+        console.error('Failed to check attendance alerts:', err)
+      );
+    }
+
     return attendance;
   }
 
@@ -95,6 +201,9 @@ class AttendanceService {
           organizationId,
         },
       },
+      include: {
+        lesson: { select: { courseId: true } },
+      },
     });
 
     if (!attendance) {
@@ -125,6 +234,12 @@ class AttendanceService {
       },
     });
 
+    if (attendance.lesson.courseId) {
+      this.checkAttendanceAlerts(attendance.lesson.courseId, organizationId, [studentId]).catch((err) =>
+        console.error('Failed to check attendance alerts:', err)
+      );
+    }
+
     return updatedAttendance;
   }
 
@@ -206,12 +321,19 @@ class AttendanceService {
         id: lessonId,
         organizationId,
       },
+      include: {
+        participants: { select: { studentId: true } },
+      },
     });
 
     if (!lesson) {
       throw new Error('Lesson not found');
     }
 
+    if (attendances.some((attendance) => !this.isLessonStudent(lesson, attendance.studentId))) {
+      throw new Error('Student is not a participant of this lesson');
+    }
+
     // Use transaction to ensure all updates succeed or fail together
     const results = await prisma.$transaction(
       attendances.map((attendance) =>
@@ -236,8 +358,392 @@ class AttendanceService {
       )
     );
 
+    if (lesson.courseId) {
+      this.checkAttendanceAlerts(
+        lesson.courseId,
+        organizationId,
+        attendances.map((attendance) => attendance.studentId)
+      ).catch((err) => console.error('Failed to check attendance alerts:', err));
+    }
+
     return results;
   }
+
+  /**
+   * Attendance alert rules (stored in OrganizationSettings.settings.attendance)
+   */
+  async getAttendanceSettings(organizationId: string): Promise<AttendanceSettings> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { organizationId },
+      select: { settings: true },
+    });
+
+    const customSettings = (settings?.settings as Record<string, any>) || {};
+    return { ...DEFAULT_ATTENDANCE_SETTINGS, ...(customSettings.attendance || {}) };
+  }
+
+  async updateAttendanceSettings(organizationId: string, data: Partial<AttendanceSettings>) {
+    const currentSettings = await prisma.organizationSettings.findUnique({
+      where: { organizationId },
+      select: { settings: true },
+    });
+
+    const existingSettings = (currentSettings?.settings as Record<string, any>) || {};
+    const attendance = { ...DEFAULT_ATTENDANCE_SETTINGS, ...(existingSettings.attendance || {}), ...data };
+    const mergedSettings = { ...existingSettings, attendance };
+
+    await prisma.organizationSettings.upsert({
+      where: { organizationId },
+      create: { organizationId, settings: mergedSettings },
+      update: { settings: mergedSettings },
+    });
+
+    return attendance as AttendanceSettings;
+  }
+
+  /**
+   * Students x lessons grid for a course, with per-student statistics
+   */
+  async getCourseRegister(courseId: string, organizationId: string, filters: RegisterFilters = {}) {
+    const course = await prisma.course.findFirst({
+      where: { id: courseId, organizationId },
+      include: {
+        teacher: { include: { user: { select: { firstName: true, lastName: true } } } },
+      },
+    });
+
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    const lessons = await prisma.lesson.findMany({
+      where: {
+        courseId,
+        organizationId,
+        status: { notIn: cancelledStatuses },
+        ...(filters.dateFrom || filters.dateTo
+          ? {
+              scheduledAt: {
+                ...(filters.dateFrom && { gte: filters.dateFrom }),
+                ...(filters.dateTo && { lte: filters.dateTo }),
+              },
+            }
+          : {}),
+      },
+      select: {
+        id: true,
+        title: true,
+        scheduledAt: true,
+        durationMinutes: true,
+        status: true,
+        studentId: true,
+        isGroupLesson: true,
+        participants: { select: { studentId: true } },
+        attendances: { select: { studentId: true, status: true } },
+      },
+      orderBy: { scheduledAt: 'asc' },
+    });
+
+    const enrollments = await prisma.studentEnrollment.findMany({
+      where: { courseId, status: { not: 'CANCELLED' } },
+      select: { studentId: true },
+    });
+
+    const studentIds = new Set([
+      ...enrollments.map((enrollment) => enrollment.studentId),
+      ...lessons.flatMap((lesson) =>
+        lesson.isGroupLesson ? lesson.participants.map((participant) => participant.studentId) : [lesson.studentId]
+      ),
+    ]);
+
+    const students = await prisma.student.findMany({
+      where: { id: { in: [...studentIds] }, organizationId },
+      include: { user: { select: { firstName: true, lastName: true } } },
+      orderBy: [{ user: { lastName: 'asc' } }, { user: { firstName: 'asc' } }],
+    });
+
+    const settings = await this.getAttendanceSettings(organizationId);
+
+    return {
+      alertSettings: settings,
+      course: {
+        id: course.id,
+        name: course.name,
+        courseType: course.courseType,
+        teacherName: `${course.teacher.user.firstName} ${course.teacher.user.lastName}`,
+      },
+      lessons: lessons.map((lesson) => ({
+        id: lesson.id,
+        title: lesson.title,
+        scheduledAt: lesson.scheduledAt,
+        durationMinutes: lesson.durationMinutes,
+        status: lesson.status,
+        studentIds: lesson.isGroupLesson
+          ? lesson.participants.map((participant) => participant.studentId)
+          : [lesson.studentId],
+      })),
+      students: students.map((student) => {
+        const attendance: Record<string, AttendanceStatus> = {};
+        for (const lesson of lessons) {
+          const record = lesson.attendances.find((a) => a.studentId === student.id);
+          if (record) {
+            attendance[lesson.id] = record.status;
+          }
+        }
+
+        return {
+          id: student.id,
+          firstName: student.user.firstName,
+          lastName: student.user.lastName,
+          attendance,
+          stats: calculateAttendanceStats(Object.values(attendance)),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Mark many register cells at once and re-check the attendance alert rules
+   */
+  async bulkMarkRegister(courseId: string, entries: RegisterEntry[], organizationId: string) {
+    const lessonIds = [...new Set(entries.map((entry) => entry.lessonId))];
+
+    const lessons = await prisma.lesson.findMany({
+      where: { id: { in: lessonIds }, courseId, organizationId },
+      include: {
+        participants: { select: { studentId: true } },
+      },
+    });
+
+    if (lessons.length !== lessonIds.length) {
+      throw new Error('Lesson not found in this course');
+    }
+
+    for (const entry of entries) {
+      const lesson = lessons.find((l) => l.id === entry.lessonId)!;
+      if (!this.isLessonStudent(lesson, entry.studentId)) {
+        throw new Error('Student is not a participant of this lesson');
+      }
+    }
+
+    const results = await prisma.$transaction(
+      entries.map((entry) =>
+        prisma.lessonAttendance.upsert({
+          where: {
+            lessonId_studentId: {
+              lessonId: entry.lessonId,
+              studentId: entry.studentId,
+            },
+          },
+          update: { status: entry.status },
+          create: {
+            lessonId: entry.lessonId,
+            studentId: entry.studentId,
+            status: entry.status,
+          },
+        })
+      )
+    );
+
+    this.checkAttendanceAlerts(courseId, organizationId, [...new Set(entries.map((entry) => entry.studentId))]).catch(
+      (err) => console.error('Failed to check attendance alerts:', err)
+    );
+
+    return { updated: results.length };
+  }
+
+  /**
+   * Export the course register as PDF or XLSX
+   */
+  async exportCourseRegister(
+    courseId: string,
+    organizationId: string,
+    fileFormat: 'pdf' | 'xlsx',
+    filters: RegisterFilters = {}
+  ): Promise<{ content: Buffer; fileName: string; contentType: string }> {
+    const register = await this.getCourseRegister(courseId, organizationId, filters);
+    const fileBase = `dziennik-obecnosci-${format(new Date(), 'yyyy-MM-dd')}`;
+
+    const rows = register.students.map((student) => ({
+      name: `${student.lastName} ${student.firstName}`,
+      cells: register.lessons.map((lesson) => {
+        const status = student.attendance[lesson.id];
+        if (status) return statusSymbols[status];
+        return lesson.studentIds.includes(student.id) ? '' : '-';
+      }),
+      stats: student.stats,
+    }));
+
+    if (fileFormat === 'xlsx') {
+      const header = [
+        'Uczeń',
+        ...register.lessons.map((lesson) => format(lesson.scheduledAt, 'dd.MM.yyyy HH:mm')),
+        'Obecny',
+        'Nieobecny',
+        'Spóźniony',
+        'Usprawiedliwiony',
+        'Frekwencja %',
+      ];
+      const sheetRows = rows.map((row) => [
+        row.name,
+        ...row.cells,
+        row.stats.present,
+        row.stats.absent,
+        row.stats.late,
+        row.stats.excused,
+        row.stats.percent ?? '',
+      ]);
+
+      const worksheet = XLSX.utils.aoa_to_sheet([
+        [`${register.course.name} - ${register.course.teacherName}`],
+        [],
+        header,
+        ...sheetRows,
+        [],
+        ['O = obecny, N = nieobecny, S = spóźniony, U = usprawiedliwiony, - = nie dotyczy'],
+      ]);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, worksheet, 'Obecność');
+
+      return {
+        content: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer,
+        fileName: `${fileBase}.xlsx`,
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      };
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { name: true },
+    });
+
+    const content = await PdfGenerator.generateAttendanceRegisterPdf({
+      organizationName: organization?.name || 'LingoDesk',
+      courseName: register.course.name,
+      teacherName: register.course.teacherName,
+      dateRange: filters.dateFrom && filters.dateTo ? { start: filters.dateFrom, end: filters.dateTo } : undefined,
+      lessonDates: register.lessons.map((lesson) => lesson.scheduledAt),
+      rows: rows.map((row) => ({
+        name: row.name,
+        cells: row.cells,
+        percent: row.stats.percent,
+      })),
+    });
+
+    return { content, fileName: `${fileBase}.pdf`, contentType: 'application/pdf' };
+  }
+
+  /**
+   * Raise alerts for students below the attendance threshold or with too many absences in a row
+   */
+  private async checkAttendanceAlerts(courseId: string, organizationId: string, studentIds: string[]) {
+    const settings = await this.getAttendanceSettings(organizationId);
+    if (!settings.alertsEnabled || studentIds.length === 0) {
+      return;
+    }
+
+    const course = await prisma.course.findFirst({
+      where: { id: courseId, organizationId },
+      select: { name: true, teacher: { select: { userId: true } } },
+    });
+
+    if (!course) {
+      return;
+    }
+
+    const records = await prisma.lessonAttendance.findMany({
+      where: {
+        studentId: { in: studentIds },
+        lesson: { courseId, status: { notIn: cancelledStatuses } },
+      },
+      select: {
+        studentId: true,
+        status: true,
+        student: { select: { user: { select: { firstName: true, lastName: true } } } },
+      },
+      orderBy: { lesson: { scheduledAt: 'asc' } },
+    });
+
+    for (const studentId of studentIds) {
+      const studentRecords = records.filter((record) => record.studentId === studentId);
+      if (studentRecords.length === 0) continue;
+
+      const stats = calculateAttendanceStats(studentRecords.map((record) => record.status));
+      const { firstName, lastName } = studentRecords[0].student.user;
+      const studentName = `${firstName} ${lastName}`;
+      const alertBase = { organizationId, courseId, studentId, teacherUserId: course.teacher.userId };
+
+      if (settings.maxConsecutiveAbsences > 0 && stats.consecutiveAbsences >= settings.maxConsecutiveAbsences) {
+        await this.raiseAttendanceAlert({
+          ...alertBase,
+          alertType: 'CONSECUTIVE_ABSENCES',
+          priority: AlertPriority.HIGH,
+          title: 'Kolejne nieobecności ucznia',
+          message: `${studentName}: ${stats.consecutiveAbsences} nieobecności z rzędu w kursie "${course.name}".`,
+        });
+      }
+
+      const countable = stats.present + stats.late + stats.absent;
+      if (
+        stats.percent !== null &&
+        countable >= MIN_MARKED_LESSONS_FOR_PERCENT_ALERT &&
+        stats.percent < settings.minAttendancePercent
+      ) {
+        await this.raiseAttendanceAlert({
+          ...alertBase,
+          alertType: 'LOW_ATTENDANCE',
+          priority: AlertPriority.NORMAL,
+          title: 'Niska frekwencja ucznia',
+          message: `Frekwencja ${studentName} w kursie "${course.name}" wynosi ${stats.percent}% (próg: ${settings.minAttendancePercent}%).`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Alert admins/managers (org-wide) and the course teacher, unless an unread alert for the same rule exists
+   */
+  private async raiseAttendanceAlert(params: {
+    organizationId: string;
+    courseId: string;
+    studentId: string;
+    teacherUserId: string;
+    alertType: 'CONSECUTIVE_ABSENCES' | 'LOW_ATTENDANCE';
+    priority: AlertPriority;
+    title: string;
+    message: string;
+  }) {
+    for (const userId of [null, params.teacherUserId]) {
+      const existingAlert = await prisma.alert.findFirst({
+        where: {
+          organizationId: params.organizationId,
+          userId,
+          isRead: false,
+          AND: [
+            { metadata: { path: ['alertType'], equals: params.alertType } },
+            { metadata: { path: ['courseId'], equals: params.courseId } },
+            { metadata: { path: ['studentId'], equals: params.studentId } },
+          ],
+        },
+      });
+
+      if (existingAlert) continue;
+
+      await alertService.createAlert({
+        organizationId: params.organizationId,
+        userId: userId ?? undefined,
+        type: 'WARNING',
+        priority: params.priority,
+        title: params.title,
+        message: params.message,
+        metadata: {
+          alertType: params.alertType,
+          courseId: params.courseId,
+          studentId: params.studentId,
+        },
+      });
+    }
+  }
 }
 
 export default new AttendanceService();
@@ -1,13 +1,15 @@
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { OAuth2Client } from 'google-auth-library';
 import prisma from '../utils/prisma';
 import { UserRole } from '@prisma/client';
 import emailService from './email.service';
+import sessionService, { AccessTokenPayload, SessionMeta } from './session.service';
 
 const googleClient = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
 
+const PROVISIONAL_ACCOUNT_MESSAGE = 'Konto ucznia nie zostało jeszcze aktywowane przez szkołę';
+
 interface RegisterData {
   email: string;
   password: string;
@@ -23,15 +25,7 @@ interface LoginData {
 }
 
 export class AuthService {
-  private readonly JWT_SECRET: string;
-  private readonly JWT_EXPIRES_IN: string;
-
-  constructor() {
-    this.JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-    this.JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
-  }
-
-  async register(data: RegisterData) {
+  async register(data: RegisterData, meta: SessionMeta = {}) {
     const { email, password, firstName, lastName, organizationName, role } = data;
 
     // Check if user exists
@@ -105,16 +99,16 @@ export class AuthService {
       return user;
     });
 
-    // Generate token
-    const token = this.generateToken(result);
+    // Start session
+    const tokens = await this.startSession(result, meta);
 
     return {
       user: result,
-      token,
+      ...tokens,
     };
   }
 
-  async login(data: LoginData) {
+  async login(data: LoginData, meta: SessionMeta = {}) {
     const { email, password } = data;
 
     // Find user
@@ -131,6 +125,10 @@ export class AuthService {
       throw new Error('Account is deactivated');
     }
 
+    if (await this.isProvisionalStudent(user.id)) {
+      throw new Error(PROVISIONAL_ACCOUNT_MESSAGE);
+    }
+
     // Account has no password (Google-only)
     if (!user.passwordHash) {
       throw new Error('To konto używa logowania przez Google. Użyj przycisku „Zaloguj przez Google".');
@@ -167,20 +165,20 @@ export class AuthService {
       }
     }
 
-    // Generate token
-    const token = this.generateToken({
+    // Start session
+    const tokens = await this.startSession({
       id: user.id,
       email: user.email,
       role: user.role,
       organizationId: user.organizationId,
-    });
+    }, meta);
 
     // Fetch full user with organization (same shape as getMe)
     const fullUser = await this.getMe(user.id);
 
     return {
       user: fullUser,
-      token,
+      ...tokens,
     };
   }
 
@@ -220,7 +218,7 @@ export class AuthService {
     return user;
   }
 
-  async googleAuth(idToken: string) {
+  async googleAuth(idToken: string, meta: SessionMeta = {}) {
     // Verify Google token
     const ticket = await googleClient.verifyIdToken({
       idToken,
@@ -239,9 +237,10 @@ export class AuthService {
 
     if (user) {
       if (!user.isActive) throw new Error('Konto jest dezaktywowane');
+      if (await this.isProvisionalStudent(user.id)) throw new Error(PROVISIONAL_ACCOUNT_MESSAGE);
       await prisma.user.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
       const fullUser = await this.getMe(user.id);
-      return { user: fullUser, token: this.generateToken({ id: user.id, email: user.email, role: user.role, organizationId: user.organizationId }) };
+      return { user: fullUser, ...(await this.startSession({ id: user.id, email: user.email, role: user.role, organizationId: user.organizationId }, meta)) };
     }
 
     // Case 2: user with same email exists → link Google to existing account
@@ -249,12 +248,13 @@ export class AuthService {
 
     if (existingByEmail) {
       if (!existingByEmail.isActive) throw new Error('Konto jest dezaktywowane');
+      if (await this.isProvisionalStudent(existingByEmail.id)) throw new Error(PROVISIONAL_ACCOUNT_MESSAGE);
       user = await prisma.user.update({
         where: { id: existingByEmail.id },
         data: { googleId, avatarUrl: existingByEmail.avatarUrl || avatarUrl || null, lastLoginAt: new Date() },
       });
       const fullUser = await this.getMe(user.id);
-      return { user: fullUser, token: this.generateToken({ id: user.id, email: user.email, role: user.role, organizationId: user.organizationId }), linked: true };
+      return { user: fullUser, ...(await this.startSession({ id: user.id, email: user.email, role: user.role, organizationId: user.organizationId }, meta)), linked: true };
     }
 
     // Case 3: new user → register with Google
@@ -292,25 +292,21 @@ export class AuthService {
     const fullUser = await this.getMe(result.id);
     return {
       user: fullUser,
-      token: this.generateToken({ id: result.id, email: result.email, role: result.role, organizationId: result.organizationId }),
+      ...(await this.startSession({ id: result.id, email: result.email, role: result.role, organizationId: result.organizationId }, meta)),
     };
   }
 
-  private generateToken(payload: {
-    id: string;
-    email: string;
-    role: UserRole;
-    organizationId: string;
-  }): string {
-    return jwt.sign(payload, this.JWT_SECRET, {
-      expiresIn: this.JWT_EXPIRES_IN as any,
-    });
+  /**
+   * Issues a short-lived access token and a rotating refresh token bound to a new session
+   */
+  private startSession(payload: AccessTokenPayload, meta: SessionMeta) {
+    return sessionService.createSession(payload, meta);
   }
 
   async forgotPassword(email: string) {
     // Always return success — never reveal whether email exists
     const user = await prisma.user.findUnique({ where: { email } });
-    if (!user || !user.isActive) return;
+    if (!user || !user.isActive || (await this.isProvisionalStudent(user.id))) return;
 
     // Invalidate any previous unused tokens for this user
     await prisma.passwordResetToken.updateMany({
@@ -350,6 +346,10 @@ export class AuthService {
       throw new Error('Token wygasł. Wygeneruj nowy link resetujący.');
     }
 
+    if (await this.isProvisionalStudent(record.userId)) {
+      throw new Error(PROVISIONAL_ACCOUNT_MESSAGE);
+    }
+
     const passwordHash = await bcrypt.hash(newPassword, 10);
 
     await prisma.$transaction([
@@ -362,6 +362,17 @@ export class AuthService {
         data: { usedAt: new Date() },
       }),
     ]);
+
+    // Whoever knew the old password must not stay logged in
+    await sessionService.revokeAllSessions(record.userId, 'PASSWORD_RESET');
+  }
+
+  /**
+   * Trial-lesson students get their account only when the application is converted
+   */
+  private async isProvisionalStudent(userId: string) {
+    const count = await prisma.student.count({ where: { userId, isProvisional: true } });
+    return count > 0;
   }
 
   private generateSlug(name: string): string {
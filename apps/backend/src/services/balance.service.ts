@@ -198,10 +198,12 @@ class BalanceService {
   ): Promise<BalanceUpdateResult | null> {
     return await prisma.$transaction(async (tx) => {
       // Check if lesson was already charged (prevent double-charging)
+      // Scoped to the student - every participant of a group lesson is charged separately
       const existingCharge = await tx.balanceTransaction.findFirst({
         where: {
           lessonId,
           type: BalanceTransactionType.LESSON_CHARGE,
+          budget: { studentId },
         },
       });
 
@@ -274,6 +276,7 @@ class BalanceService {
         where: {
           lessonId,
           type: BalanceTransactionType.LESSON_CHARGE,
+          budget: { studentId },
         },
       });
 
@@ -287,6 +290,7 @@ class BalanceService {
         where: {
           lessonId,
           type: BalanceTransactionType.LESSON_REFUND,
+          budget: { studentId },
         },
       });
 
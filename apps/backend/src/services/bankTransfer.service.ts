@@ -0,0 +1,319 @@
+import { ContractType, PayoutSignOffStatus, TeacherPayoutStatus } from '@prisma/client';
+import { format } from 'date-fns';
+import prisma from '../utils/prisma';
+import { getBankSortCode, isValidIban, normalizeBankAccount, toNrb } from '../utils/bank-account';
+import payrollService from './payroll.service';
+
+export type TransferFileFormat = 'elixir' | 'sepa';
+
+interface TransferItem {
+  payoutId: string;
+  recipientName: string;
+  account: string; // IBAN
+  amount: number;
+  currency: string;
+  title: string;
+}
+
+interface TransferOrderer {
+  name: string;
+  addressLines: string[];
+  account: string; // IBAN
+}
+
+const POLISH_CHARS: Record<string, string> = {
+  ą: 'a', ć: 'c', ę: 'e', ł: 'l', ń: 'n', ó: 'o', ś: 's', ź: 'z', ż: 'z',
+  Ą: 'A', Ć: 'C', Ę: 'E', Ł: 'L', Ń: 'N', Ó: 'O', Ś: 'S', Ź: 'Z', Ż: 'Z',
+};
+
+/**
+ * Bank files are read as Windows-1250 (Elixir-O) or the restricted SEPA Latin set - plain ASCII is safe for both
+ */
+const toBankText = (value: string) =>
+  value
+    .replace(/[ąćęłńóśźżĄĆĘŁŃÓŚŹŻ]/g, (char) => POLISH_CHARS[char])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 /\-?:().,'+]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/'/g, '&apos;');
+
+const badRequest = (message: string) => {
+  const error: any = new Error(message);
+  error.statusCode = 400;
+  return error;
+};
+
+class BankTransferService {
+  /**
+   * Approved payouts of the batch - every selected payout must be ready to be paid by transfer
+   */
+  private async getBatchPayouts(organizationId: string, payoutIds: string[]) {
+    const ids = [...new Set(payoutIds)];
+    const payouts = await prisma.teacherPayout.findMany({
+      where: { id: { in: ids }, organizationId },
+      include: {
+        teacher: {
+          include: { user: { select: { firstName: true, lastName: true } } },
+        },
+      },
+      orderBy: [{ teacher: { user: { lastName: 'asc' } } }, { periodStart: 'asc' }],
+    });
+
+    if (payouts.length !== ids.length) {
+      throw new Error('Payout not found');
+    }
+
+    const problems: string[] = [];
+    for (const payout of payouts) {
+      const teacherName = `${payout.teacher.user.firstName} ${payout.teacher.user.lastName}`;
+      if (payout.status !== TeacherPayoutStatus.APPROVED) {
+        problems.push(`${teacherName}: wypłata nie jest zatwierdzona`);
+        continue;
+      }
+      if (payout.signOffStatus === PayoutSignOffStatus.DISPUTED) {
+        problems.push(`${teacherName}: wypłata zakwestionowana przez lektora`);
+      }
+      if (!payout.teacher.bankAccountNumber || !isValidIban(payout.teacher.bankAccountNumber)) {
+        problems.push(`${teacherName}: brak poprawnego numeru konta`);
+      }
+      const contractType = payout.contractType ?? payout.teacher.contractType;
+      if (contractType === ContractType.B2B && !payout.invoiceFileId) {
+        problems.push(`${teacherName}: brak faktury`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw badRequest(`Nie można zlecić przelewów - ${problems.join('; ')}`);
+    }
+
+    return payouts;
+  }
+
+  /**
+   * Bulk transfer file for the bank: Elixir-O (domestic PLN) or SEPA pain.001.001.03
+   */
+  async generateTransferFile(
+    organizationId: string,
+    payoutIds: string[],
+    fileFormat: TransferFileFormat,
+    executionDate: Date
+  ): Promise<{ content: string; fileName: string; contentType: string }> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { name: true, address: true, postalCode: true, city: true, bankAccountNumber: true },
+    });
+
+    if (!organization?.bankAccountNumber || !isValidIban(organization.bankAccountNumber)) {
+      throw badRequest('Uzupełnij numer konta organizacji w ustawieniach, aby wygenerować plik przelewów');
+    }
+
+    const payouts = await this.getBatchPayouts(organizationId, payoutIds);
+    const currencies = new Set(payouts.map((payout) => payout.currency));
+    if (currencies.size > 1) {
+      throw badRequest('Wszystkie wypłaty w paczce przelewów muszą być w tej samej walucie');
+    }
+
+    const orderer: TransferOrderer = {
+      name: organization.name,
+      addressLines: [organization.address, [organization.postalCode, organization.city].filter(Boolean).join(' ')].filter(
+        (line): line is string => !!line
+      ),
+      account: normalizeBankAccount(organization.bankAccountNumber),
+    };
+
+    const items: TransferItem[] = payouts.map((payout) => {
+      // The teacher receives the net pay (ZUS and PIT advance are withheld), for B2B the invoice gross
+      const { netAmount } = payrollService.calculate(Number(payout.totalAmount), {
+        contractType: payout.contractType ?? payout.teacher.contractType,
+        vatRate: payout.teacher.vatRate,
+        zusExempt: payout.teacher.zusExempt,
+        pitExempt: payout.teacher.pitExempt,
+      });
+      const period = `${format(payout.periodStart, 'dd.MM.yyyy')}-${format(payout.periodEnd, 'dd.MM.yyyy')}`;
+      return {
+        payoutId: payout.id,
+        recipientName: `${payout.teacher.user.firstName} ${payout.teacher.user.lastName}`,
+        account: normalizeBankAccount(payout.teacher.bankAccountNumber!),
+        amount: netAmount,
+        currency: payout.currency,
+        title: payout.invoiceNumber
+          ? `Faktura ${payout.invoiceNumber} za ${period}`
+          : `Wynagrodzenie za ${period}`,
+      };
+    });
+
+    const fileBase = `przelewy-lektorzy-${format(executionDate, 'yyyy-MM-dd')}`;
+
+    if (fileFormat === 'elixir') {
+      return {
+        content: this.buildElixir(orderer, items, executionDate),
+        fileName: `${fileBase}.pli`,
+        contentType: 'text/plain; charset=windows-1250',
+      };
+    }
+
+    return {
+      content: this.buildSepa(orderer, items, executionDate),
+      fileName: `${fileBase}.xml`,
+      contentType: 'application/xml; charset=utf-8',
+    };
+  }
+
+  /**
+   * After the bank accepted the file - all payouts of the batch become PAID at once
+   */
+  async markBatchPaid(organizationId: string, payoutIds: string[], paidAt: Date) {
+    const payouts = await this.getBatchPayouts(organizationId, payoutIds);
+
+    const result = await prisma.teacherPayout.updateMany({
+      where: {
+        id: { in: payouts.map((payout) => payout.id) },
+        status: TeacherPayoutStatus.APPROVED,
+      },
+      data: { status: TeacherPayoutStatus.PAID, paidAt },
+    });
+
+    return { count: result.count };
+  }
+
+  /**
+   * Elixir-O, message type 110 (domestic transfer) - one comma-separated record per line
+   */
+  private buildElixir(orderer: TransferOrderer, items: TransferItem[], executionDate: Date): string {
+    const ordererNrb = toNrb(orderer.account);
+    if (!ordererNrb) {
+      throw badRequest('Plik Elixir-O wymaga polskiego rachunku organizacji');
+    }
+
+    const problems = items
+      .filter((item) => item.currency !== 'PLN' || !toNrb(item.account))
+      .map((item) => item.recipientName);
+    if (problems.length > 0) {
+      throw badRequest(`Elixir-O obsługuje tylko przelewy krajowe w PLN - użyj formatu SEPA dla: ${problems.join(', ')}`);
+    }
+
+    // Name/address and title fields: up to 4 lines of 35 characters separated by "|"
+    const lines = (parts: string[]) =>
+      parts
+        .map(toBankText)
+        .filter(Boolean)
+        .flatMap((part) => part.match(/.{1,35}/g) ?? [])
+        .slice(0, 4)
+        .join('|');
+    const quoted = (value: string) => `"${value}"`;
+
+    const records = items.map((item) => {
+      const recipientNrb = toNrb(item.account)!;
+      return [
+        '110',
+        format(executionDate, 'yyyyMMdd'),
+        String(Math.round(item.amount * 100)), // amount in grosze
+        getBankSortCode(ordererNrb),
+        '0',
+        quoted(ordererNrb),
+        quoted(recipientNrb),
+        quoted(lines([orderer.name, ...orderer.addressLines])),
+        quoted(lines([item.recipientName])),
+        '0',
+        getBankSortCode(recipientNrb),
+        quoted(lines([item.title])),
+        quoted(''),
+        quoted(''),
+        quoted('51'), // transaction classification: regular transfer
+        quoted(item.payoutId.replace(/-/g, '').slice(0, 32)),
+      ].join(',');
+    });
+
+    return `${records.join('\r\n')}\r\n`;
+  }
+
+  /**
+   * ISO 20022 customer credit transfer initiation (pain.001.001.03), one payment block for the batch
+   */
+  private buildSepa(orderer: TransferOrderer, items: TransferItem[], executionDate: Date): string {
+    if (items.some((item) => item.currency !== 'EUR')) {
+      throw badRequest('Przelewy SEPA realizowane są tylko w EUR - dla wypłat w PLN użyj formatu Elixir-O');
+    }
+
+    const now = new Date();
+    const messageId = `LD${format(now, 'yyyyMMddHHmmss')}`;
+    const controlSum = items.reduce((sum, item) => sum + Math.round(item.amount * 100), 0) / 100;
+    const text = (value: string, maxLength: number) => escapeXml(toBankText(value).slice(0, maxLength));
+
+    const transactions = items
+      .map(
+        (item) => `      <CdtTrfTxInf>
+        <PmtId>
+          <EndToEndId>${item.payoutId.replace(/-/g, '').slice(0, 35)}</EndToEndId>
+        </PmtId>
+        <Amt>
+          <InstdAmt Ccy="${item.currency}">${item.amount.toFixed(2)}</InstdAmt>
+        </Amt>
+        <Cdtr>
+          <Nm>${text(item.recipientName, 70)}</Nm>
+        </Cdtr>
+        <CdtrAcct>
+          <Id>
+            <IBAN>${item.account}</IBAN>
+          </Id>
+        </CdtrAcct>
+        <RmtInf>
+          <Ustrd>${text(item.title, 140)}</Ustrd>
+        </RmtInf>
+      </CdtTrfTxInf>`
+      )
+      .join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <CstmrCdtTrfInitn>
+    <GrpHdr>
+      <MsgId>${messageId}</MsgId>
+      <CreDtTm>${format(now, "yyyy-MM-dd'T'HH:mm:ss")}</CreDtTm>
+      <NbOfTxs>${items.length}</NbOfTxs>
+      <CtrlSum>${controlSum.toFixed(2)}</CtrlSum>
+      <InitgPty>
+        <Nm>${text(orderer.name, 70)}</Nm>
+      </InitgPty>
+    </GrpHdr>
+    <PmtInf>
+      <PmtInfId>${messageId}-1</PmtInfId>
+      <PmtMtd>TRF</PmtMtd>
+      <BtchBookg>true</BtchBookg>
+      <NbOfTxs>${items.length}</NbOfTxs>
+      <CtrlSum>${controlSum.toFixed(2)}</CtrlSum>
+      <PmtTpInf>
+        <SvcLvl>
+          <Cd>SEPA</Cd>
+        </SvcLvl>
+      </PmtTpInf>
+      <ReqdExctnDt>${format(executionDate, 'yyyy-MM-dd')}</ReqdExctnDt>
+      <Dbtr>
+        <Nm>${text(orderer.name, 70)}</Nm>
+      </Dbtr>
+      <DbtrAcct>
+        <Id>
+          <IBAN>${orderer.account}</IBAN>
+        </Id>
+      </DbtrAcct>
+      <DbtrAgt>
+        <FinInstnId>
+          <Othr>
+            <Id>NOTPROVIDED</Id>
+          </Othr>
+        </FinInstnId>
+      </DbtrAgt>
+      <ChrgBr>SLEV</ChrgBr>
+${transactions}
+    </PmtInf>
+  </CstmrCdtTrfInitn>
+</Document>
+`;
+  }
+}
+
+export default new BankTransferService();
@@ -0,0 +1,427 @@
+import prisma from '../utils/prisma';
+import { addDays, addHours, endOfMonth, endOfWeek, startOfMonth, startOfWeek } from 'date-fns';
+import lessonService from './lesson.service';
+import teacherAvailabilityService from './teacher-availability.service';
+import googleCalendarService from './google-calendar.service';
+import { studentLessonFilter } from '../utils/lesson-participants';
+
+export interface BookingSettings {
+  enabled: boolean;
+  minNoticeHours: number; // Earliest booking: now + minNoticeHours
+  maxBookingsPerWeek: number; // Self-booked lessons per calendar week (0 = no limit)
+  maxDaysAhead: number; // Latest booking: now + maxDaysAhead days
+}
+
+export interface BookLessonData {
+  enrollmentId: string;
+  scheduledAt: Date;
+  deliveryMode?: 'IN_PERSON' | 'ONLINE';
+}
+
+export interface RemainingBudget {
+  paymentMode: string;
+  remaining: number | null; // null = no prepaid limit (PER_LESSON)
+  unit: 'HOURS' | 'PLN' | 'LESSONS' | null;
+  expiresAt: Date | null;
+}
+
+const DEFAULT_BOOKING_SETTINGS: BookingSettings = {
+  enabled: false,
+  minNoticeHours: 24,
+  maxBookingsPerWeek: 2,
+  maxDaysAhead: 30,
+};
+
+const SLOT_STEP_MINUTES = 30;
+
+const bookableEnrollmentInclude = {
+  course: {
+    include: {
+      teacher: {
+        include: {
+          user: {
+            select: {
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+      },
+    },
+  },
+  subscription: {
+    select: { lessonsPerMonth: true },
+  },
+} as const;
+
+class BookingService {
+  /**
+   * Get self-booking rules (stored in OrganizationSettings.settings.booking)
+   */
+  async getBookingSettings(organizationId: string): Promise<BookingSettings> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { organizationId },
+      select: { settings: true },
+    });
+
+    const customSettings = (settings?.settings as Record<string, any>) || {};
+    return { ...DEFAULT_BOOKING_SETTINGS, ...(customSettings.booking || {}) };
+  }
+
+  /**
+   * Update self-booking rules
+   */
+  async updateBookingSettings(organizationId: string, data: Partial<BookingSettings>) {
+    const currentSettings = await prisma.organizationSettings.findUnique({
+      where: { organizationId },
+      select: { settings: true },
+    });
+
+    const existingSettings = (currentSettings?.settings as Record<string, any>) || {};
+    const booking = { ...DEFAULT_BOOKING_SETTINGS, ...(existingSettings.booking || {}), ...data };
+    const mergedSettings = { ...existingSettings, booking };
+
+    await prisma.organizationSettings.upsert({
+      where: { organizationId },
+      create: { organizationId, settings: mergedSettings },
+      update: { settings: mergedSettings },
+    });
+
+    return booking as BookingSettings;
+  }
+
+  /**
+   * Booking overview for the logged-in student: rules, this week's usage
+   * and the individual courses they can book with remaining budget
+   */
+  async getBookingOptions(userId: string, organizationId: string) {
+    const student = await this.getStudent(userId, organizationId);
+    const settings = await this.getBookingSettings(organizationId);
+
+    const enrollments = await prisma.studentEnrollment.findMany({
+      where: this.bookableEnrollmentWhere(student.id),
+      include: bookableEnrollmentInclude,
+      orderBy: { enrollmentDate: 'asc' },
+    });
+
+    const now = new Date();
+    const bookingsThisWeek = await this.countWeeklyBookings(student.id, now);
+
+    const courses = await Promise.all(
+      enrollments.map(async (enrollment) => ({
+        enrollmentId: enrollment.id,
+        courseId: enrollment.course!.id,
+        courseName: enrollment.course!.name,
+        durationMinutes: enrollment.course!.defaultDurationMinutes,
+        deliveryMode: enrollment.course!.deliveryMode,
+        teacher: {
+          id: enrollment.course!.teacher.id,
+          firstName: enrollment.course!.teacher.user.firstName,
+          lastName: enrollment.course!.teacher.user.lastName,
+        },
+        budget: await this.getRemainingBudget(enrollment, now),
+      }))
+    );
+
+    return {
+      settings,
+      bookingsThisWeek,
+      bookingsLeftThisWeek: settings.maxBookingsPerWeek > 0
+        ? Math.max(0, settings.maxBookingsPerWeek - bookingsThisWeek)
+        : null,
+      courses,
+    };
+  }
+
+  /**
+   * Free slots of the enrollment's teacher within the organization's booking window
+   * Slots colliding with the student's own lessons are left out.
+   */
+  async getBookableSlots(userId: string, organizationId: string, enrollmentId: string, from: Date, to: Date) {
+    const student = await this.getStudent(userId, organizationId);
+    const settings = await this.getBookingSettings(organizationId);
+    this.assertBookingEnabled(settings);
+
+    const enrollment = await this.getBookableEnrollment(student.id, enrollmentId);
+    const course = enrollment.course!;
+
+    const now = new Date();
+    const earliest = addHours(now, settings.minNoticeHours);
+    const latest = addDays(now, settings.maxDaysAhead);
+    const rangeStart = from > earliest ? from : earliest;
+    const rangeEnd = to < latest ? to : latest;
+
+    if (rangeEnd <= rangeStart) {
+      return [];
+    }
+
+    const slots = await teacherAvailabilityService.getFreeSlots(course.teacherId, organizationId, {
+      from: rangeStart,
+      to: rangeEnd,
+      durationMinutes: course.defaultDurationMinutes,
+      stepMinutes: SLOT_STEP_MINUTES,
+    });
+
+    const studentLessons = await prisma.lesson.findMany({
+      where: {
+        organizationId,
+        status: { notIn: ['CANCELLED_ON_TIME', 'CANCELLED_LATE'] },
+        scheduledAt: { lt: rangeEnd, gte: addDays(rangeStart, -1) },
+        ...studentLessonFilter(student.id),
+      },
+      select: { scheduledAt: true, durationMinutes: true },
+    });
+
+    return slots.filter((slot) =>
+      !studentLessons.some((lesson) => {
+        const lessonEnd = new Date(lesson.scheduledAt.getTime() + lesson.durationMinutes * 60000);
+        return lesson.scheduledAt < slot.end && lessonEnd > slot.start;
+      })
+    );
+  }
+
+  /**
+   * Book a lesson in a free slot of the enrollment's teacher
+   * Enforces minimum notice, booking horizon, weekly limit and remaining budget.
+   */
+  async bookLesson(userId: string, organizationId: string, data: BookLessonData) {
+    const student = await this.getStudent(userId, organizationId);
+    const settings = await this.getBookingSettings(organizationId);
+    this.assertBookingEnabled(settings);
+
+    const enrollment = await this.getBookableEnrollment(student.id, data.enrollmentId);
+    const course = enrollment.course!;
+    const scheduledAt = new Date(data.scheduledAt);
+    const durationMinutes = course.defaultDurationMinutes;
+    const now = new Date();
+
+    if (scheduledAt < addHours(now, settings.minNoticeHours)) {
+      throw new Error(`Lekcję można zarezerwować najpóźniej ${settings.minNoticeHours} godz. przed jej rozpoczęciem`);
+    }
+
+    if (scheduledAt > addDays(now, settings.maxDaysAhead)) {
+      throw new Error(`Lekcję można zarezerwować maksymalnie ${settings.maxDaysAhead} dni naprzód`);
+    }
+
+    if (settings.maxBookingsPerWeek > 0) {
+      const weeklyBookings = await this.countWeeklyBookings(student.id, scheduledAt);
+      if (weeklyBookings >= settings.maxBookingsPerWeek) {
+        throw new Error(`Osiągnięto limit ${settings.maxBookingsPerWeek} rezerwacji w tygodniu`);
+      }
+    }
+
+    // The requested time must be one of the teacher's free slots
+    const freeSlots = await teacherAvailabilityService.getFreeSlots(course.teacherId, organizationId, {
+      from: scheduledAt,
+      to: new Date(scheduledAt.getTime() + durationMinutes * 60000),
+      durationMinutes,
+      stepMinutes: SLOT_STEP_MINUTES,
+    });
+    if (!freeSlots.some((slot) => slot.start.getTime() === scheduledAt.getTime())) {
+      throw new Error('Wybrany termin nie jest już dostępny');
+    }
+
+    const conflicts = await lessonService.checkConflicts(
+      organizationId,
+      course.teacherId,
+      student.id,
+      scheduledAt,
+      durationMinutes
+    );
+    if (conflicts.hasConflicts) {
+      throw new Error(
+        conflicts.studentConflicts.length > 0
+          ? 'Masz już zaplanowane zajęcia w tym terminie'
+          : 'Wybrany termin nie jest już dostępny'
+      );
+    }
+
+    // Course price is set for its default lesson duration
+    const price = Number(course.pricePerLesson);
+    this.assertBudget(await this.getRemainingBudget(enrollment, scheduledAt), durationMinutes, price);
+
+    const deliveryMode = course.deliveryMode === 'BOTH'
+      ? data.deliveryMode || 'ONLINE'
+      : course.deliveryMode;
+
+    const lesson = await lessonService.createLesson({
+      organizationId,
+      courseId: course.id,
+      enrollmentId: enrollment.id,
+      teacherId: course.teacherId,
+      studentId: student.id,
+      title: course.name,
+      scheduledAt,
+      durationMinutes,
+      pricePerLesson: price > 0 ? price : undefined,
+      currency: course.currency,
+      deliveryMode,
+      meetingUrl: deliveryMode === 'ONLINE' ? course.onlineMeetingUrl || undefined : undefined,
+      locationId: deliveryMode === 'IN_PERSON' ? course.locationId || undefined : undefined,
+      classroomId: deliveryMode === 'IN_PERSON' ? course.classroomId || undefined : undefined,
+      status: 'CONFIRMED',
+      bookedByStudent: true,
+    });
+
+    // Sync to the teacher's Google Calendar (don't block the booking)
+    googleCalendarService.createEventFromLesson(lesson.id, course.teacher.userId).catch((error) => {
+      console.error('Failed to sync booked lesson to Google Calendar:', error);
+    });
+
+    return lesson;
+  }
+
+  /**
+   * Budget left for new bookings - already booked upcoming lessons are reserved against it
+   * PER_LESSON enrollments are paid after the lesson and have no prepaid limit (remaining = null).
+   */
+  private async getRemainingBudget(
+    enrollment: {
+      id: string;
+      studentId: string;
+      paymentMode: string;
+      hoursPurchased: unknown;
+      hoursUsed: unknown;
+      hoursExpired: unknown;
+      expiresAt: Date | null;
+      lessonsUsedInPeriod: number;
+      billingPeriod: string | null;
+      course: { pricePerLesson: unknown } | null;
+      subscription: { lessonsPerMonth: number } | null;
+    },
+    referenceDate: Date
+  ): Promise<RemainingBudget> {
+    const upcomingLessons = await prisma.lesson.findMany({
+      where: {
+        enrollmentId: enrollment.id,
+        status: 'CONFIRMED',
+        scheduledAt: { gte: new Date() },
+      },
+      select: { scheduledAt: true, durationMinutes: true, pricePerLesson: true },
+    });
+
+    if (enrollment.paymentMode === 'PACKAGE') {
+      const reservedHours = upcomingLessons.reduce((sum, lesson) => sum + lesson.durationMinutes / 60, 0);
+      const remaining =
+        Number(enrollment.hoursPurchased) -
+        Number(enrollment.hoursUsed) -
+        Number(enrollment.hoursExpired) -
+        reservedHours;
+      return { paymentMode: enrollment.paymentMode, remaining: Math.max(0, remaining), unit: 'HOURS', expiresAt: enrollment.expiresAt };
+    }
+
+    if (enrollment.paymentMode === 'BALANCE') {
+      const budget = await prisma.studentBudget.findUnique({
+        where: { studentId: enrollment.studentId },
+        select: { currentBalance: true },
+      });
+      const reservedAmount = upcomingLessons.reduce(
+        (sum, lesson) => sum + Number(lesson.pricePerLesson ?? enrollment.course?.pricePerLesson ?? 0),
+        0
+      );
+      const remaining = Number(budget?.currentBalance ?? 0) - reservedAmount;
+      return { paymentMode: enrollment.paymentMode, remaining: Math.max(0, remaining), unit: 'PLN', expiresAt: null };
+    }
+
+    if (enrollment.paymentMode === 'SUBSCRIPTION') {
+      // Allowance is per calendar month of the lesson
+      const monthStart = startOfMonth(referenceDate);
+      const monthEnd = endOfMonth(referenceDate);
+      const period = `${monthStart.getFullYear()}-${String(monthStart.getMonth() + 1).padStart(2, '0')}`;
+      const usedInPeriod = enrollment.billingPeriod === period ? enrollment.lessonsUsedInPeriod : 0;
+      const reservedInPeriod = upcomingLessons.filter(
+        (lesson) => lesson.scheduledAt >= monthStart && lesson.scheduledAt <= monthEnd
+      ).length;
+      const remaining = (enrollment.subscription?.lessonsPerMonth ?? 0) - usedInPeriod - reservedInPeriod;
+      return { paymentMode: enrollment.paymentMode, remaining: Math.max(0, remaining), unit: 'LESSONS', expiresAt: null };
+    }
+
+    return { paymentMode: enrollment.paymentMode, remaining: null, unit: null, expiresAt: null };
+  }
+
+  private assertBudget(budget: RemainingBudget, durationMinutes: number, price: number) {
+    if (budget.remaining === null) return;
+
+    if (budget.unit === 'HOURS') {
+      const requiredHours = durationMinutes / 60;
+      if (budget.remaining < requiredHours) {
+        throw new Error(`Niewystarczająca liczba godzin w pakiecie. Pozostało: ${budget.remaining.toFixed(1)} h, wymagane: ${requiredHours.toFixed(1)} h`);
+      }
+    } else if (budget.unit === 'PLN') {
+      if (budget.remaining < price) {
+        throw new Error(`Niewystarczające saldo. Dostępne: ${budget.remaining.toFixed(2)} PLN, wymagane: ${price.toFixed(2)} PLN`);
+      }
+    } else if (budget.unit === 'LESSONS') {
+      if (budget.remaining < 1) {
+        throw new Error('Wykorzystano limit lekcji abonamentu w tym miesiącu');
+      }
+    }
+  }
+
+  private async getBookableEnrollment(studentId: string, enrollmentId: string) {
+    const enrollment = await prisma.studentEnrollment.findFirst({
+      where: { id: enrollmentId, ...this.bookableEnrollmentWhere(studentId) },
+      include: bookableEnrollmentInclude,
+    });
+
+    if (!enrollment || !enrollment.course) {
+      throw new Error('Ten kurs nie pozwala na samodzielną rezerwację lekcji');
+    }
+
+    if (enrollment.expiresAt && enrollment.expiresAt < new Date()) {
+      throw new Error('Pakiet godzin wygasł. Skontaktuj się ze szkołą, aby go odnowić.');
+    }
+
+    return enrollment;
+  }
+
+  /**
+   * Active enrollments in active individual courses of teachers open for booking
+   */
+  private bookableEnrollmentWhere(studentId: string) {
+    return {
+      studentId,
+      status: 'ACTIVE' as const,
+      course: {
+        courseType: 'INDIVIDUAL' as const,
+        isActive: true,
+        teacher: { isAvailableForBooking: true },
+      },
+    };
+  }
+
+  private async countWeeklyBookings(studentId: string, date: Date) {
+    return prisma.lesson.count({
+      where: {
+        studentId,
+        bookedByStudent: true,
+        status: { notIn: ['CANCELLED_ON_TIME', 'CANCELLED_LATE'] },
+        scheduledAt: {
+          gte: startOfWeek(date, { weekStartsOn: 1 }),
+          lte: endOfWeek(date, { weekStartsOn: 1 }),
+        },
+      },
+    });
+  }
+
+  private assertBookingEnabled(settings: BookingSettings) {
+    if (!settings.enabled) {
+      throw new Error('Samodzielna rezerwacja lekcji jest wyłączona w tej szkole');
+    }
+  }
+
+  private async getStudent(userId: string, organizationId: string) {
+    const student = await prisma.student.findFirst({
+      where: { userId, organizationId },
+      select: { id: true },
+    });
+
+    if (!student) {
+      throw new Error('Student not found');
+    }
+
+    return student;
+  }
+}
+
+export default new BookingService();
@@ -0,0 +1,366 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { AttendanceStatus, CertificateType, DocumentStatus, LessonStatus, StudentDocumentType } from '@prisma/client';
+import prisma from '../utils/prisma';
+import PdfGenerator from '../utils/pdf-generator';
+import { fileService } from './file.service';
+import { calculateAttendanceStats } from './attendance.service';
+import { studentLessonFilter } from '../utils/lesson-participants';
+
+export interface CertificateTemplate {
+  title: string;
+  body: string; // Supports {{placeholders}} - see CERTIFICATE_PLACEHOLDERS
+}
+
+export type CertificateTemplates = Record<CertificateType, CertificateTemplate>;
+
+export interface IssueCertificateData {
+  enrollmentId: string;
+  type: CertificateType;
+}
+
+export const CERTIFICATE_PLACEHOLDERS = [
+  'studentName',
+  'courseName',
+  'level',
+  'startDate',
+  'endDate',
+  'lessonsAttended',
+  'hours',
+  'attendancePercent',
+  'organizationName',
+] as const;
+
+const DEFAULT_CERTIFICATE_TEMPLATES: CertificateTemplates = {
+  ATTENDANCE: {
+    title: 'Zaświadczenie o uczestnictwie',
+    body:
+      'Zaświadcza się, że {{studentName}} uczestniczy w kursie "{{courseName}}" (poziom {{level}}) ' +
+      'prowadzonym przez {{organizationName}} w okresie od {{startDate}} do {{endDate}}. ' +
+      'W tym czasie wziął(a) udział w {{lessonsAttended}} zajęciach ({{hours}} godz. lekcyjnych), ' +
+      'frekwencja wynosi {{attendancePercent}}.',
+  },
+  COMPLETION: {
+    title: 'Certyfikat ukończenia kursu',
+    body:
+      'Niniejszym potwierdza się, że {{studentName}} ukończył(a) kurs "{{courseName}}" na poziomie {{level}}, ' +
+      'realizowany w {{organizationName}} w okresie od {{startDate}} do {{endDate}} ' +
+      'w wymiarze {{hours}} godz. zajęć.',
+  },
+};
+
+const CERTIFICATE_TYPE_NAMES: Record<CertificateType, string> = {
+  ATTENDANCE: 'Zaświadczenie o uczestnictwie',
+  COMPLETION: 'Certyfikat ukończenia',
+};
+
+const cancelledStatuses: LessonStatus[] = [LessonStatus.CANCELLED_ON_TIME, LessonStatus.CANCELLED_LATE];
+
+const certificateInclude = {
+  document: {
+    include: {
+      file: { select: { id: true, publicUrl: true, fileName: true } },
+    },
+  },
+  issuedBy: { select: { firstName: true, lastName: true } },
+} as const;
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('pl-PL', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (match, key) => values[key] ?? match);
+}
+
+// Short, unambiguous code printed on the certificate, e.g. 7F3A-91C2-0BDE
+function generateVerificationCode(): string {
+  return crypto.randomBytes(6).toString('hex').toUpperCase().match(/.{4}/g)!.join('-');
+}
+
+class CertificateService {
+  /**
+   * Certificate templates per type (stored in OrganizationSettings.settings.certificates)
+   */
+  async getTemplates(organizationId: string): Promise<CertificateTemplates> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { organizationId },
+      select: { settings: true },
+    });
+
+    const custom = ((settings?.settings as Record<string, any>) || {}).certificates || {};
+    return {
+      ATTENDANCE: { ...DEFAULT_CERTIFICATE_TEMPLATES.ATTENDANCE, ...(custom.ATTENDANCE || {}) },
+      COMPLETION: { ...DEFAULT_CERTIFICATE_TEMPLATES.COMPLETION, ...(custom.COMPLETION || {}) },
+    };
+  }
+
+  async updateTemplates(organizationId: string, data: Partial<CertificateTemplates>) {
+    const currentSettings = await prisma.organizationSettings.findUnique({
+      where: { organizationId },
+      select: { settings: true },
+    });
+
+    const existingSettings = (currentSettings?.settings as Record<string, any>) || {};
+    const current = await this.getTemplates(organizationId);
+    const certificates = {
+      ATTENDANCE: { ...current.ATTENDANCE, ...(data.ATTENDANCE || {}) },
+      COMPLETION: { ...current.COMPLETION, ...(data.COMPLETION || {}) },
+    };
+    const mergedSettings = { ...existingSettings, certificates };
+
+    await prisma.organizationSettings.upsert({
+      where: { organizationId },
+      create: { organizationId, settings: mergedSettings },
+      update: { settings: mergedSettings },
+    });
+
+    return certificates;
+  }
+
+  async getStudentCertificates(studentId: string, organizationId: string) {
+    return prisma.certificate.findMany({
+      where: { studentId, organizationId },
+      include: certificateInclude,
+      orderBy: { issuedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Generate the certificate PDF, store it as a StudentDocument and register its verification code
+   */
+  async issueCertificate(data: IssueCertificateData, organizationId: string, issuedById: string) {
+    const enrollment = await prisma.studentEnrollment.findFirst({
+      where: { id: data.enrollmentId, student: { organizationId } },
+      include: {
+        course: true,
+        student: { include: { user: { select: { firstName: true, lastName: true } } } },
+      },
+    });
+
+    if (!enrollment) {
+      throw new Error('Enrollment not found');
+    }
+
+    const course = enrollment.course;
+    if (!course) {
+      throw new Error('Zaświadczenie można wystawić tylko dla zapisu na kurs');
+    }
+
+    const now = new Date();
+    const courseEnded = !!course.endDate && course.endDate <= now;
+    if (data.type === CertificateType.COMPLETION && enrollment.status !== 'COMPLETED' && !courseEnded) {
+      throw new Error('Certyfikat ukończenia można wystawić dopiero po zakończeniu kursu');
+    }
+
+    const periodStart = enrollment.enrollmentDate > course.startDate ? enrollment.enrollmentDate : course.startDate;
+    const periodEnd = courseEnded ? course.endDate! : now;
+
+    const attendance = await this.getAttendanceSummary(enrollment.studentId, course.id, periodStart, periodEnd);
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { name: true, city: true, logoUrl: true, primaryColor: true },
+    });
+
+    if (!organization) {
+      throw new Error('Organization not found');
+    }
+
+    const studentName = `${enrollment.student.user.firstName} ${enrollment.student.user.lastName}`;
+    const templates = await this.getTemplates(organizationId);
+    const template = templates[data.type];
+    const values: Record<string, string> = {
+      studentName,
+      courseName: course.name,
+      level: course.level,
+      startDate: formatDate(periodStart),
+      endDate: formatDate(periodEnd),
+      lessonsAttended: String(attendance.lessonsAttended),
+      hours: attendance.hoursAttended.toFixed(1),
+      attendancePercent: attendance.percent !== null ? `${attendance.percent}%` : 'brak danych',
+      organizationName: organization.name,
+    };
+
+    const verificationCode = generateVerificationCode();
+    const verificationUrl = `${process.env.FRONTEND_URL || 'https://lingodesk.pl'}/verify/${verificationCode}`;
+
+    const pdf = await PdfGenerator.generateCertificatePdf({
+      title: fillTemplate(template.title, values),
+      body: fillTemplate(template.body, values),
+      organizationName: organization.name,
+      organizationCity: organization.city,
+      logo: await this.fetchLogo(organization.logoUrl),
+      primaryColor: organization.primaryColor,
+      issuedAt: now,
+      verificationCode,
+      verificationUrl,
+    });
+
+    const uploadedFile = await fileService.uploadFile(
+      {
+        file: pdf,
+        fileName: `${data.type === CertificateType.COMPLETION ? 'certyfikat' : 'zaswiadczenie'}-${verificationCode}.pdf`,
+        fileType: 'application/pdf',
+        fileSize: pdf.length,
+        relatedToType: 'STUDENT',
+        relatedToId: enrollment.studentId,
+        isPublic: false,
+      },
+      organizationId,
+      issuedById
+    );
+
+    return prisma.$transaction(async (tx) => {
+      const document = await tx.studentDocument.create({
+        data: {
+          organizationId,
+          studentId: enrollment.studentId,
+          fileId: uploadedFile.id,
+          name: `${CERTIFICATE_TYPE_NAMES[data.type]} - ${course.name}`,
+          type: StudentDocumentType.CERTIFICATE,
+          notes: `Kod weryfikacyjny: ${verificationCode}`,
+        },
+      });
+
+      return tx.certificate.create({
+        data: {
+          organizationId,
+          studentId: enrollment.studentId,
+          enrollmentId: enrollment.id,
+          documentId: document.id,
+          type: data.type,
+          verificationCode,
+          studentName,
+          courseName: course.name,
+          courseLevel: course.level,
+          periodStart,
+          periodEnd,
+          lessonsAttended: attendance.lessonsAttended,
+          hoursAttended: attendance.hoursAttended,
+          attendancePercent: attendance.percent,
+          issuedById,
+          issuedAt: now,
+        },
+        include: certificateInclude,
+      });
+    });
+  }
+
+  /**
+   * Revoked certificates stay verifiable but are reported as invalid
+   */
+  async revokeCertificate(id: string, organizationId: string) {
+    const certificate = await prisma.certificate.findFirst({
+      where: { id, organizationId },
+    });
+
+    if (!certificate) {
+      throw new Error('Certificate not found');
+    }
+
+    if (certificate.revokedAt) {
+      throw new Error('Zaświadczenie zostało już unieważnione');
+    }
+
+    return prisma.$transaction(async (tx) => {
+      if (certificate.documentId) {
+        await tx.studentDocument.update({
+          where: { id: certificate.documentId },
+          data: { status: DocumentStatus.ARCHIVED },
+        });
+      }
+
+      return tx.certificate.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+        include: certificateInclude,
+      });
+    });
+  }
+
+  /**
+   * Public lookup by verification code - returns only what is printed on the certificate
+   */
+  async verifyCertificate(verificationCode: string) {
+    const certificate = await prisma.certificate.findUnique({
+      where: { verificationCode: verificationCode.trim().toUpperCase() },
+      include: { organization: { select: { name: true, logoUrl: true } } },
+    });
+
+    if (!certificate) {
+      return null;
+    }
+
+    return {
+      valid: !certificate.revokedAt,
+      revokedAt: certificate.revokedAt,
+      type: certificate.type,
+      verificationCode: certificate.verificationCode,
+      studentName: certificate.studentName,
+      courseName: certificate.courseName,
+      courseLevel: certificate.courseLevel,
+      periodStart: certificate.periodStart,
+      periodEnd: certificate.periodEnd,
+      lessonsAttended: certificate.lessonsAttended,
+      hoursAttended: Number(certificate.hoursAttended),
+      issuedAt: certificate.issuedAt,
+      organization: certificate.organization,
+    };
+  }
+
+  /**
+   * Attendance records take precedence; a completed lesson without a record counts as attended
+   */
+  private async getAttendanceSummary(studentId: string, courseId: string, periodStart: Date, periodEnd: Date) {
+    const lessons = await prisma.lesson.findMany({
+      where: {
+        ...studentLessonFilter(studentId),
+        courseId,
+        status: { notIn: cancelledStatuses },
+        scheduledAt: { gte: periodStart, lte: periodEnd },
+      },
+      select: {
+        durationMinutes: true,
+        status: true,
+        attendances: { where: { studentId }, select: { status: true } },
+      },
+    });
+
+    const statuses: AttendanceStatus[] = [];
+    let minutesAttended = 0;
+
+    for (const lesson of lessons) {
+      const status =
+        lesson.attendances[0]?.status ??
+        (lesson.status === LessonStatus.COMPLETED ? AttendanceStatus.PRESENT : null);
+      if (!status) continue;
+
+      statuses.push(status);
+      if (status === AttendanceStatus.PRESENT || status === AttendanceStatus.LATE) {
+        minutesAttended += lesson.durationMinutes;
+      }
+    }
+
+    const stats = calculateAttendanceStats(statuses);
+    return {
+      lessonsAttended: stats.present + stats.late,
+      hoursAttended: minutesAttended / 60,
+      percent: stats.percent,
+    };
+  }
+
+  private async fetchLogo(logoUrl: string | null): Promise<Buffer | null> {
+    if (!logoUrl) return null;
+
+    try {
+      const response = await axios.get<ArrayBuffer>(logoUrl, { responseType: 'arraybuffer', timeout: 5000 });
+      return Buffer.from(response.data);
+    } catch (error) {
+      console.error('Failed to fetch organization logo for certificate:', error);
+      return null;
+    }
+  }
+}
+
+export default new CertificateService();
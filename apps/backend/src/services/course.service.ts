@@ -380,31 +380,64 @@ class CourseService {
         }
       }
 
-      // 3. Create lessons for each student and each date
+      // 3. Create lessons - a GROUP course gets one shared lesson per date, an individual course one per student
       const lessons: any[] = [];
       const errors: { date: string; studentId: string; error: string }[] = [];
 
       // Use price per lesson from course
       const pricePerLesson = courseData.pricePerLesson ? Number(courseData.pricePerLesson) : undefined;
+      const isGroupCourse = course.courseType === 'GROUP';
 
       for (const lessonDate of lessonDates) {
+        const lessonBase = {
+          organizationId,
+          courseId: course.id,
+          teacherId,
+          title: lessonDate.title || course.name,
+          scheduledAt: lessonDate.date,
+          durationMinutes: lessonDate.durationMinutes,
+          deliveryMode: lessonDate.deliveryMode as LessonDeliveryMode,
+          meetingUrl: lessonDate.meetingUrl,
+          status: 'CONFIRMED' as LessonStatus,
+          pricePerLesson,
+          currency: courseData.currency || 'PLN',
+        };
+
+        if (isGroupCourse && enrollments.length > 0) {
+          // First enrolled student is the primary participant (Lesson.studentId)
+          try {
+            const lesson = await tx.lesson.create({
+              data: {
+                ...lessonBase,
+                enrollmentId: enrollments[0].id,
+                studentId: enrollments[0].studentId,
+                isGroupLesson: true,
+                participants: {
+                  create: enrollments.map((enrollment) => ({
+                    studentId: enrollment.studentId,
+                    enrollmentId: enrollment.id,
+                  })),
+                },
+              },
+            });
+            lessons.push(lesson);
+          } catch (error) {
+            errors.push({
+              date: lessonDate.date.toISOString(),
+              studentId: enrollments[0].studentId,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+          continue;
+        }
+
         for (const enrollment of enrollments) {
           try {
             const lesson = await tx.lesson.create({
               data: {
-                organizationId,
-                courseId: course.id,
+                ...lessonBase,
                 enrollmentId: enrollment.id,
-                teacherId,
                 studentId: enrollment.studentId,
-                title: lessonDate.title || course.name,
-                scheduledAt: lessonDate.date,
-                durationMinutes: lessonDate.durationMinutes,
-                deliveryMode: lessonDate.deliveryMode as LessonDeliveryMode,
-                meetingUrl: lessonDate.meetingUrl,
-                status: 'CONFIRMED' as LessonStatus,
-                pricePerLesson,
-                currency: courseData.currency || 'PLN',
               },
             });
             lessons.push(lesson);
@@ -685,6 +718,7 @@ class CourseService {
             select: {
               enrollments: true,
               lessons: true,
+              waitlistEntries: { where: { status: { in: ['WAITING', 'OFFERED'] } } },
             },
           },
         },
@@ -1027,9 +1061,12 @@ class CourseService {
       throw new Error('Course not found or inactive');
     }
 
-    // Check if course is full (count only active enrollments)
+    // Check if course is full (active enrollments + seats held by pending waitlist offers)
+    const pendingOffersCount = await prisma.courseWaitlistEntry.count({
+      where: { courseId, status: 'OFFERED', offerExpiresAt: { gt: new Date() } },
+    });
     const activeEnrollmentsCount = course.enrollments.length;
-    if (course.maxStudents && activeEnrollmentsCount >= course.maxStudents) {
+    if (course.maxStudents && activeEnrollmentsCount + pendingOffersCount >= course.maxStudents) {
       throw new Error('Course is full');
     }
 
@@ -1086,6 +1123,11 @@ class CourseService {
       },
     });
 
+    // Join the upcoming lessons of a group course
+    if (enrollment.course!.courseType === 'GROUP') {
+      await this.joinUpcomingGroupLessons(courseId, studentId, enrollment.id);
+    }
+
     // Send enrollment confirmation email
     try {
       await emailService.sendEnrollmentConfirmation({
@@ -1094,6 +1136,7 @@ class CourseService {
         courseName: enrollment.course!.name,
         courseType: `${enrollment.course!.courseType === 'GROUP' ? 'Grupowy' : 'Indywidualny'} - ${enrollment.course!.language} ${enrollment.course!.level}`,
         startDate: enrollment.course!.startDate,
+        organizationId: enrollment.course!.organizationId,
       });
     } catch (emailError) {
       console.error('Failed to send enrollment confirmation email:', emailError);
@@ -1110,6 +1153,9 @@ class CourseService {
         id: enrollmentId,
         course: { organizationId },
       },
+      include: {
+        course: { select: { courseType: true } },
+      },
     });
 
     if (!enrollment) {
@@ -1122,8 +1168,81 @@ class CourseService {
       data: { status: 'CANCELLED' },
     });
 
+    if (enrollment.courseId && enrollment.course?.courseType === 'GROUP') {
+      await this.leaveUpcomingGroupLessons(enrollment.courseId, enrollment.studentId);
+    }
+
+    // Offer the freed seat to the first person on the waiting list
+    if (enrollment.courseId && enrollment.status === 'ACTIVE') {
+      try {
+        const { default: waitlistService } = await import('./waitlist.service');
+        await waitlistService.offerFreeSpots(enrollment.courseId);
+      } catch (waitlistError) {
+        console.error('Failed to offer freed seat to the waiting list:', waitlistError);
+      }
+    }
+
     return { message: 'Student unenrolled successfully' };
   }
+
+  /**
+   * Add a newly enrolled student to the upcoming lessons of a group course
+   */
+  private async joinUpcomingGroupLessons(courseId: string, studentId: string, enrollmentId: string) {
+    const upcomingLessons = await prisma.lesson.findMany({
+      where: {
+        courseId,
+        isGroupLesson: true,
+        status: 'CONFIRMED',
+        scheduledAt: { gte: new Date() },
+      },
+      select: { id: true },
+    });
+
+    if (upcomingLessons.length === 0) {
+      return;
+    }
+
+    await prisma.lessonParticipant.createMany({
+      data: upcomingLessons.map((lesson) => ({ lessonId: lesson.id, studentId, enrollmentId })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Remove an unenrolled student from the upcoming lessons of a group course
+   * When the student was the primary participant, the next participant takes over Lesson.studentId.
+   */
+  private async leaveUpcomingGroupLessons(courseId: string, studentId: string) {
+    const upcomingLessons = await prisma.lesson.findMany({
+      where: {
+        courseId,
+        isGroupLesson: true,
+        status: 'CONFIRMED',
+        scheduledAt: { gte: new Date() },
+        participants: { some: { studentId } },
+      },
+      include: {
+        participants: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    for (const lesson of upcomingLessons) {
+      const remaining = lesson.participants.filter((participant) => participant.studentId !== studentId);
+      // Last participant - keep the lesson as it is
+      if (remaining.length === 0) continue;
+
+      await prisma.$transaction([
+        prisma.lessonParticipant.deleteMany({ where: { lessonId: lesson.id, studentId } }),
+        ...(lesson.studentId === studentId
+          ? [prisma.lesson.update({
+              where: { id: lesson.id },
+              data: { studentId: remaining[0].studentId, enrollmentId: remaining[0].enrollmentId },
+            })]
+          : []),
+      ]);
+    }
+  }
 }
 
 export default new CourseService();
@@ -1,8 +1,25 @@
+import crypto from 'crypto';
 import prisma from '../utils/prisma';
-import { ApplicationStatus, AlertType, LanguageLevel } from '@prisma/client';
+import {
+  ApplicationActivityType,
+  ApplicationSource,
+  ApplicationStageKind,
+  ApplicationStatus,
+  AlertType,
+  CourseDeliveryMode,
+  LanguageLevel,
+  LessonStatus,
+  Prisma,
+} from '@prisma/client';
 import studentService from './student.service';
+import lessonService from './lesson.service';
 import emailService from './email.service';
 import courseService from './course.service';
+import waitlistService from './waitlist.service';
+import applicationPipelineService, {
+  APPLICATION_STATUS_LABELS,
+  STAGE_KIND_STATUS,
+} from './applicationPipeline.service';
 
 interface CreateApplicationData {
   name: string;
@@ -13,10 +30,89 @@ interface CreateApplicationData {
   languageLevel?: string;
   availability?: string;
   notes?: string;
+  placementAttemptId?: string;
+  source?: 'WEBSITE' | 'WIDGET';
 }
 
+export interface PublicCatalogFilters {
+  language?: string;
+  level?: LanguageLevel;
+  deliveryMode?: 'IN_PERSON' | 'ONLINE';
+  startDateFrom?: Date;
+  startDateTo?: Date;
+  hasFreeSeats?: boolean;
+}
+
+interface CreateManualApplicationData extends Omit<CreateApplicationData, 'placementAttemptId' | 'source'> {
+  source: ApplicationSource;
+}
+
+interface StatusChangeOptions {
+  stageId?: string;
+  lossReason?: string;
+  userId?: string;
+  notify?: boolean; // Email the applicant about acceptance/rejection (default: true)
+}
+
+interface ScheduleTrialLessonData {
+  teacherId: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  deliveryMode: 'IN_PERSON' | 'ONLINE';
+  meetingUrl?: string;
+  locationId?: string;
+  classroomId?: string;
+  pricePerLesson?: number; // 0 or empty = free trial
+}
+
+const courseSelect = {
+  id: true,
+  name: true,
+  language: true,
+  level: true,
+  courseType: true,
+} as const;
+
+const placementAttemptSelect = {
+  id: true,
+  score: true,
+  maxScore: true,
+  levelScores: true,
+  suggestedLevel: true,
+  startedAt: true,
+  submittedAt: true,
+  test: { select: { id: true, name: true, language: true } },
+} as const;
+
+const stageSelect = {
+  id: true,
+  name: true,
+  color: true,
+  kind: true,
+} as const;
+
+const trialLessonSelect = {
+  id: true,
+  scheduledAt: true,
+  durationMinutes: true,
+  status: true,
+  deliveryMode: true,
+  pricePerLesson: true,
+  teacher: { select: { id: true, user: { select: { firstName: true, lastName: true } } } },
+} as const;
+
+const applicationInclude = {
+  course: { select: courseSelect },
+  stage: { select: stageSelect },
+  trialLesson: { select: trialLessonSelect },
+  trialStudent: { select: { id: true, isProvisional: true, archivedAt: true } },
+  placementAttempt: { select: placementAttemptSelect },
+} as const;
+
 interface ApplicationFilters {
   status?: ApplicationStatus;
+  stageId?: string;
+  source?: ApplicationSource;
   search?: string;
 }
 
@@ -31,6 +127,14 @@ class CourseApplicationService {
       where.status = filters.status;
     }
 
+    if (filters?.stageId) {
+      where.stageId = filters.stageId;
+    }
+
+    if (filters?.source) {
+      where.source = filters.source;
+    }
+
     if (filters?.search) {
       where.OR = [
         { name: { contains: filters.search, mode: 'insensitive' } },
@@ -38,18 +142,20 @@ class CourseApplicationService {
       ];
     }
 
+    // Make sure the pipeline exists so every application has a stage on the board
+    await applicationPipelineService.getStages(organizationId);
+
     return prisma.courseApplication.findMany({
       where,
       include: {
-        course: {
-          select: {
-            id: true,
-            name: true,
-            language: true,
-            level: true,
-            courseType: true,
-          },
+        ...applicationInclude,
+        tasks: {
+          where: { completedAt: null },
+          select: { id: true, title: true, dueAt: true },
+          orderBy: { dueAt: 'asc' },
+          take: 1,
         },
+        _count: { select: { tasks: { where: { completedAt: null } } } },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -61,17 +167,7 @@ class CourseApplicationService {
   async getApplicationById(id: string, organizationId: string) {
     const application = await prisma.courseApplication.findFirst({
       where: { id, organizationId },
-      include: {
-        course: {
-          select: {
-            id: true,
-            name: true,
-            language: true,
-            level: true,
-            courseType: true,
-          },
-        },
-      },
+      include: applicationInclude,
     });
 
     if (!application) {
@@ -117,18 +213,37 @@ class CourseApplicationService {
       courseName = course?.name;
     }
 
+    // A finished placement test of this school can be attached once
+    const placementAttempt = data.placementAttemptId
+      ? await prisma.placementTestAttempt.findFirst({
+          where: {
+            id: data.placementAttemptId,
+            organizationId: organization.id,
+            submittedAt: { not: null },
+            applicationId: null,
+          },
+          select: { id: true, suggestedLevel: true },
+        })
+      : null;
+
+    const stage = await applicationPipelineService.getStageForStatus(organization.id, ApplicationStatus.NEW);
+
     // Create application
     const application = await prisma.courseApplication.create({
       data: {
         organizationId: organization.id,
+        stageId: stage?.id,
+        source: data.source ?? ApplicationSource.WEBSITE,
         name: data.name,
         email: data.email,
         phone: data.phone || null,
         courseId: data.courseId || null,
         preferences: data.preferences || null,
-        languageLevel: data.languageLevel || null,
+        languageLevel: data.languageLevel || placementAttempt?.suggestedLevel || null,
         availability: data.availability || null,
         notes: data.notes || null,
+        placementLevel: placementAttempt?.suggestedLevel ?? null,
+        ...(placementAttempt && { placementAttempt: { connect: { id: placementAttempt.id } } }),
       },
     });
 
@@ -147,14 +262,23 @@ class CourseApplicationService {
       },
     });
 
+    await applicationPipelineService.logActivity({
+      organizationId: organization.id,
+      applicationId: application.id,
+      type: ApplicationActivityType.CREATED,
+      message: data.source === ApplicationSource.WIDGET ? 'Zgłoszenie z widgetu na stronie szkoły' : 'Zgłoszenie z formularza WWW',
+    });
+
     // Send confirmation email to applicant
     try {
-      await emailService.sendApplicationConfirmation({
+      const result = await emailService.sendApplicationConfirmation({
         applicantEmail: data.email,
         applicantName: data.name,
         organizationName: organization.name,
         courseName,
+        organizationId: organization.id,
       });
+      await this.logEmail(organization.id, application.id, result.success, 'potwierdzenie otrzymania zgłoszenia');
     } catch (emailError) {
       console.error('Failed to send application confirmation email:', emailError);
     }
@@ -162,6 +286,50 @@ class CourseApplicationService {
     return application;
   }
 
+  /**
+   * Application entered by staff (phone call, walk-in, referral...) - no confirmation email
+   */
+  async createApplication(data: CreateManualApplicationData, organizationId: string, userId: string) {
+    if (data.courseId) {
+      const course = await prisma.course.findFirst({
+        where: { id: data.courseId, organizationId },
+        select: { id: true },
+      });
+      if (!course) {
+        throw new Error('Course not found');
+      }
+    }
+
+    const stage = await applicationPipelineService.getStageForStatus(organizationId, ApplicationStatus.NEW);
+
+    const application = await prisma.courseApplication.create({
+      data: {
+        organizationId,
+        stageId: stage?.id,
+        source: data.source,
+        name: data.name,
+        email: data.email,
+        phone: data.phone || null,
+        courseId: data.courseId || null,
+        preferences: data.preferences || null,
+        languageLevel: data.languageLevel || null,
+        availability: data.availability || null,
+        notes: data.notes || null,
+      },
+      include: applicationInclude,
+    });
+
+    await applicationPipelineService.logActivity({
+      organizationId,
+      applicationId: application.id,
+      type: ApplicationActivityType.CREATED,
+      message: 'Zgłoszenie dodane ręcznie',
+      userId,
+    });
+
+    return application;
+  }
+
   /**
    * Get public courses for application form dropdown
    */
@@ -194,6 +362,138 @@ class CourseApplicationService {
     return { organization, courses };
   }
 
+  /**
+   * Public course catalog for the embeddable widget - group courses still open for sign-up, with free seats
+   */
+  async getPublicCatalog(orgSlug: string, filters: PublicCatalogFilters = {}) {
+    const organization = await prisma.organization.findUnique({
+      where: { slug: orgSlug },
+      select: { id: true, name: true, logoUrl: true, primaryColor: true, website: true, description: true },
+    });
+
+    if (!organization) {
+      throw new Error('Nie znaleziono szkoły');
+    }
+
+    const baseWhere: Prisma.CourseWhereInput = {
+      organizationId: organization.id,
+      isActive: true,
+      courseType: 'GROUP',
+      OR: [{ endDate: null }, { endDate: { gte: new Date() } }],
+    };
+
+    const where: Prisma.CourseWhereInput = {
+      ...baseWhere,
+      ...(filters.language && { language: filters.language }),
+      ...(filters.level && { level: filters.level }),
+      // Hybrid courses match both delivery modes
+      ...(filters.deliveryMode && {
+        deliveryMode: { in: [filters.deliveryMode as CourseDeliveryMode, CourseDeliveryMode.BOTH] },
+      }),
+      ...((filters.startDateFrom || filters.startDateTo) && {
+        startDate: {
+          ...(filters.startDateFrom && { gte: filters.startDateFrom }),
+          ...(filters.startDateTo && { lte: filters.startDateTo }),
+        },
+      }),
+    };
+
+    const [courses, options] = await Promise.all([
+      prisma.course.findMany({
+        where,
+        select: {
+          id: true,
+          name: true,
+          language: true,
+          level: true,
+          deliveryMode: true,
+          description: true,
+          startDate: true,
+          endDate: true,
+          defaultDurationMinutes: true,
+          pricePerLesson: true,
+          currency: true,
+          maxStudents: true,
+          teacher: { select: { user: { select: { firstName: true, lastName: true } } } },
+          location: { select: { name: true, address: true } },
+        },
+        orderBy: [{ startDate: 'asc' }, { name: 'asc' }],
+      }),
+      prisma.course.findMany({
+        where: baseWhere,
+        select: { language: true, level: true },
+        distinct: ['language', 'level'],
+      }),
+    ]);
+
+    const catalog = await Promise.all(
+      courses.map(async (course) => ({
+        ...course,
+        freeSeats: await waitlistService.getFreeSpots(course.id),
+      })),
+    );
+
+    return {
+      organization: {
+        name: organization.name,
+        logoUrl: organization.logoUrl,
+        primaryColor: organization.primaryColor,
+        website: organization.website,
+        description: organization.description,
+      },
+      // Unlimited courses (freeSeats = null) always have room
+      courses: filters.hasFreeSeats ? catalog.filter((course) => course.freeSeats !== 0) : catalog,
+      filters: {
+        languages: [...new Set(options.map((option) => option.language))].sort(),
+        levels: [...new Set(options.map((option) => option.level))].sort(),
+      },
+    };
+  }
+
+  /**
+   * Active courses matching the applicant's language and level (placement result first, then declared level)
+   */
+  async getSuggestedCourses(id: string, organizationId: string) {
+    const application = await this.getApplicationById(id, organizationId);
+
+    const declaredLevel = Object.values(LanguageLevel).find(
+      (level) => level === application.languageLevel?.trim().toUpperCase(),
+    );
+    const level = application.placementLevel ?? declaredLevel;
+    const language = application.placementAttempt?.test.language ?? application.course?.language;
+
+    if (!level || !language) {
+      return { level: level ?? null, language: language ?? null, courses: [] };
+    }
+
+    const courses = await prisma.course.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        language,
+        level,
+        OR: [{ endDate: null }, { endDate: { gte: new Date() } }],
+      },
+      select: {
+        ...courseSelect,
+        startDate: true,
+        maxStudents: true,
+        currentStudentsCount: true,
+        teacher: { select: { user: { select: { firstName: true, lastName: true } } } },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    return {
+      level,
+      language,
+      courses: courses.map((course) => ({
+        ...course,
+        hasFreeSpots: course.maxStudents === null || course.currentStudentsCount < course.maxStudents,
+      })),
+    };
+  }
+
   /**
    * Update application status
    */
@@ -202,30 +502,45 @@ class CourseApplicationService {
     organizationId: string,
     status: ApplicationStatus,
     internalNotes?: string,
+    options: StatusChangeOptions = {},
   ) {
     const application = await this.getApplicationById(id, organizationId);
 
+    // Keep the pipeline stage in line with the status unless a specific stage was chosen
+    const stageId =
+      options.stageId ??
+      (application.stage && STAGE_KIND_STATUS[application.stage.kind] === status
+        ? application.stage.id
+        : (await applicationPipelineService.getStageForStatus(organizationId, status))?.id);
+
     const updated = await prisma.courseApplication.update({
       where: { id: application.id },
       data: {
         status,
         internalNotes: internalNotes ?? application.internalNotes,
+        stageId,
+        ...(stageId !== application.stageId && { stageChangedAt: new Date() }),
+        lossReason: status === ApplicationStatus.REJECTED ? (options.lossReason ?? application.lossReason) : null,
       },
-      include: {
-        course: {
-          select: {
-            id: true,
-            name: true,
-            language: true,
-            level: true,
-            courseType: true,
-          },
-        },
-      },
+      include: applicationInclude,
     });
 
+    if (status !== application.status || stageId !== application.stageId) {
+      await applicationPipelineService.logActivity({
+        organizationId,
+        applicationId: application.id,
+        type: status !== application.status ? ApplicationActivityType.STATUS_CHANGED : ApplicationActivityType.STAGE_CHANGED,
+        message:
+          `${APPLICATION_STATUS_LABELS[application.status]} → ${APPLICATION_STATUS_LABELS[status]}` +
+          (updated.stage ? ` (etap: ${updated.stage.name})` : '') +
+          (updated.lossReason && status === ApplicationStatus.REJECTED ? `, powód: ${updated.lossReason}` : ''),
+        metadata: { fromStatus: application.status, toStatus: status, fromStageId: application.stageId, toStageId: stageId },
+        userId: options.userId,
+      });
+    }
+
     // Send status change email only when accepting or rejecting
-    if (status === ApplicationStatus.ACCEPTED || status === ApplicationStatus.REJECTED) {
+    if (options.notify !== false && (status === ApplicationStatus.ACCEPTED || status === ApplicationStatus.REJECTED)) {
       try {
         const organization = await prisma.organization.findUnique({
           where: { id: organizationId },
@@ -233,20 +548,84 @@ class CourseApplicationService {
         });
 
         if (organization) {
-          await emailService.sendApplicationStatusChange({
+          const result = await emailService.sendApplicationStatusChange({
             applicantEmail: application.email,
             applicantName: application.name,
             organizationName: organization.name,
             status,
             courseName: updated.course?.name,
             internalNotes: updated.internalNotes,
+            organizationId,
           });
+          await this.logEmail(
+            organizationId,
+            application.id,
+            result.success,
+            status === ApplicationStatus.ACCEPTED ? 'akceptacja zgłoszenia' : 'odrzucenie zgłoszenia',
+          );
         }
       } catch (emailError) {
         console.error('Failed to send application status change email:', emailError);
       }
     }
 
+    // Accepted into a full course - queue the applicant instead of overbooking
+    let waitlistPosition: number | undefined;
+    if (status === ApplicationStatus.ACCEPTED && updated.courseId && !updated.convertedStudentId) {
+      const existing = await waitlistService.findActiveEntry(updated.courseId, { applicationId: updated.id });
+      if (existing) {
+        waitlistPosition = existing.position;
+      } else if ((await waitlistService.getFreeSpots(updated.courseId)) === 0) {
+        const entry = await waitlistService.addToWaitlist(
+          { courseId: updated.courseId, applicationId: updated.id },
+          organizationId,
+        );
+        waitlistPosition = entry.position;
+      }
+    }
+
+    return { ...updated, waitlistPosition };
+  }
+
+  /**
+   * Move an application on the board - entering a won/lost stage changes the status (and sends its email)
+   */
+  async moveToStage(id: string, organizationId: string, stageId: string, options: Omit<StatusChangeOptions, 'stageId'> = {}) {
+    const application = await this.getApplicationById(id, organizationId);
+    const stage = await applicationPipelineService.getStage(stageId, organizationId);
+
+    if (stage.kind === ApplicationStageKind.LOST && !options.lossReason && !application.lossReason) {
+      throw new Error('Podaj powód utraty zgłoszenia');
+    }
+
+    const status = STAGE_KIND_STATUS[stage.kind];
+    if (status !== application.status) {
+      return this.updateStatus(id, organizationId, status, undefined, { ...options, stageId });
+    }
+
+    if (stage.id === application.stageId) {
+      return application;
+    }
+
+    const updated = await prisma.courseApplication.update({
+      where: { id: application.id },
+      data: {
+        stageId: stage.id,
+        stageChangedAt: new Date(),
+        ...(stage.kind === ApplicationStageKind.LOST && options.lossReason && { lossReason: options.lossReason }),
+      },
+      include: applicationInclude,
+    });
+
+    await applicationPipelineService.logActivity({
+      organizationId,
+      applicationId: application.id,
+      type: ApplicationActivityType.STAGE_CHANGED,
+      message: `${application.stage?.name ?? 'Bez etapu'} → ${stage.name}`,
+      metadata: { fromStageId: application.stageId, toStageId: stage.id },
+      userId: options.userId,
+    });
+
     return updated;
   }
 
@@ -266,6 +645,7 @@ class CourseApplicationService {
       language?: string;
       skipEnroll?: boolean;
     },
+    userId?: string,
   ) {
     const application = await this.getApplicationById(id, organizationId);
 
@@ -281,26 +661,65 @@ class CourseApplicationService {
     // Save plaintext password before hashing (for welcome email)
     const plaintextPassword = studentData.password;
 
-    // Create student using existing studentService
-    const student = await studentService.createStudent({
-      ...studentData,
-      organizationId,
-      languageLevel: (studentData.languageLevel || 'A1') as LanguageLevel,
-      language: studentData.language || 'en',
-    });
+    // Create student using existing studentService - a trial lesson student gets promoted instead
+    const student =
+      application.trialStudent?.isProvisional && !application.trialStudent.archivedAt
+        ? await studentService.activateProvisionalStudent(application.trialStudent.id, organizationId, {
+            ...studentData,
+            languageLevel: (studentData.languageLevel || 'A1') as LanguageLevel,
+            language: studentData.language || 'en',
+          })
+        : await studentService.createStudent({
+            ...studentData,
+            organizationId,
+            languageLevel: (studentData.languageLevel || 'A1') as LanguageLevel,
+            language: studentData.language || 'en',
+          });
 
     // Update application with converted student ID and ACCEPTED status
+    const wonStage =
+      application.stage?.kind === ApplicationStageKind.WON
+        ? application.stage
+        : await applicationPipelineService.getStageForStatus(organizationId, ApplicationStatus.ACCEPTED);
+
     await prisma.courseApplication.update({
       where: { id: application.id },
       data: {
         convertedStudentId: student.id,
         status: ApplicationStatus.ACCEPTED,
+        stageId: wonStage?.id,
+        ...(wonStage?.id !== application.stageId && { stageChangedAt: new Date() }),
+        lossReason: null,
       },
     });
 
-    // Auto-enroll student in the requested course (if application had courseId and not skipped)
+    await applicationPipelineService.logActivity({
+      organizationId,
+      applicationId: application.id,
+      type: ApplicationActivityType.CONVERTED,
+      message: `Utworzono konto ucznia ${studentData.firstName} ${studentData.lastName}`,
+      metadata: { studentId: student.id },
+      userId,
+    });
+
+    // Auto-enroll student in the requested course (if application had courseId and not skipped).
+    // An applicant already queued keeps their place; a full course puts the new student on the waiting list.
     let enrolledCourseName: string | undefined;
-    if (application.courseId && !studentData.skipEnroll) {
+    let waitlistPosition: number | undefined;
+    const waitlistEntry = application.courseId
+      ? await waitlistService.findActiveEntry(application.courseId, { applicationId: application.id })
+      : null;
+
+    if (waitlistEntry) {
+      await waitlistService.attachStudent(application.id, student.id);
+      waitlistPosition = waitlistEntry.position;
+    } else if (application.courseId && !studentData.skipEnroll && (await waitlistService.getFreeSpots(application.courseId)) === 0) {
+      const entry = await waitlistService.addToWaitlist(
+        { courseId: application.courseId, studentId: student.id, applicationId: application.id },
+        organizationId,
+      );
+      waitlistPosition = entry.position;
+    } else if (application.courseId && !studentData.skipEnroll) {
       try {
         const enrollment = await courseService.enrollStudent(
           application.courseId,
@@ -316,18 +735,206 @@ class CourseApplicationService {
 
     // Send welcome email with credentials
     try {
-      await emailService.sendApplicationConverted({
+      const result = await emailService.sendApplicationConverted({
         studentEmail: studentData.email,
         studentName: `${studentData.firstName} ${studentData.lastName}`,
         organizationName: organization?.name || '',
         temporaryPassword: plaintextPassword,
         courseName: enrolledCourseName,
+        organizationId,
       });
+      await this.logEmail(organizationId, application.id, result.success, 'dane logowania ucznia');
     } catch (emailError) {
       console.error('Failed to send application converted email:', emailError);
     }
 
-    return { student, application, enrolledCourseName };
+    return { student, application, enrolledCourseName, waitlistPosition };
+  }
+
+  /**
+   * Book a trial lesson for an applicant - creates a provisional student (no login) and checks the teacher's calendar
+   */
+  async scheduleTrialLesson(id: string, organizationId: string, data: ScheduleTrialLessonData, userId?: string) {
+    const application = await this.getApplicationById(id, organizationId);
+
+    if (application.convertedStudentId) {
+      throw new Error('To zgłoszenie zostało już przekonwertowane na ucznia');
+    }
+    if (application.status === ApplicationStatus.REJECTED) {
+      throw new Error('Nie można umówić lekcji próbnej dla odrzuconego zgłoszenia');
+    }
+    if (
+      application.trialLesson &&
+      application.trialLesson.status !== LessonStatus.CANCELLED_ON_TIME &&
+      application.trialLesson.status !== LessonStatus.CANCELLED_LATE
+    ) {
+      throw new Error('Lekcja próbna dla tego zgłoszenia jest już umówiona');
+    }
+
+    const existingStudentId =
+      application.trialStudent && !application.trialStudent.archivedAt ? application.trialStudent.id : null;
+
+    const conflicts = await lessonService.checkConflicts(
+      organizationId,
+      data.teacherId,
+      existingStudentId,
+      data.scheduledAt,
+      data.durationMinutes,
+    );
+    if (conflicts.hasConflicts) {
+      const conflict = conflicts.teacherConflicts[0] ?? conflicts.studentConflicts[0];
+      const time = new Date(conflict.scheduledAt).toLocaleString('pl-PL', { dateStyle: 'short', timeStyle: 'short' });
+      throw new Error(`Termin koliduje z lekcją „${conflict.title}" (${time})`);
+    }
+
+    // languageLevel is free text from the public form - use it only when it names a real level
+    const declaredLevel = Object.values(LanguageLevel).find(
+      (level) => level === application.languageLevel?.trim().toUpperCase(),
+    );
+
+    const [firstName, ...lastNameParts] = application.name.trim().split(/\s+/);
+    const studentId =
+      existingStudentId ??
+      (
+        await studentService.createStudent({
+          email: application.email,
+          // Random password - the applicant gets credentials only after conversion
+          password: crypto.randomBytes(24).toString('hex'),
+          firstName,
+          lastName: lastNameParts.join(' '),
+          phone: application.phone ?? undefined,
+          languageLevel: application.placementLevel ?? declaredLevel ?? LanguageLevel.A1,
+          language: application.course?.language || 'en',
+          isProvisional: true,
+          organizationId,
+        })
+      ).id;
+
+    const lesson = await lessonService.createLesson({
+      organizationId,
+      teacherId: data.teacherId,
+      studentId,
+      title: `Lekcja próbna - ${application.name}`,
+      description: application.preferences ?? undefined,
+      scheduledAt: data.scheduledAt,
+      durationMinutes: data.durationMinutes,
+      pricePerLesson: data.pricePerLesson ?? 0,
+      deliveryMode: data.deliveryMode,
+      meetingUrl: data.meetingUrl,
+      locationId: data.locationId,
+      classroomId: data.classroomId,
+    });
+
+    await prisma.courseApplication.update({
+      where: { id: application.id },
+      data: { trialStudentId: studentId, trialLessonId: lesson.id },
+    });
+
+    const teacherName = `${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}`;
+    await applicationPipelineService.logActivity({
+      organizationId,
+      applicationId: application.id,
+      type: ApplicationActivityType.TRIAL_SCHEDULED,
+      message: `Umówiono lekcję próbną na ${lesson.scheduledAt.toLocaleString('pl-PL', { dateStyle: 'short', timeStyle: 'short' })} z lektorem ${teacherName}`,
+      metadata: { lessonId: lesson.id, studentId },
+      userId,
+    });
+
+    try {
+      const organization = await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { name: true },
+      });
+      const result = await emailService.sendTrialLessonScheduled({
+        applicantEmail: application.email,
+        applicantName: application.name,
+        teacherName,
+        organizationName: organization?.name || '',
+        scheduledAt: lesson.scheduledAt,
+        durationMinutes: lesson.durationMinutes,
+        deliveryMode: lesson.deliveryMode as 'IN_PERSON' | 'ONLINE',
+        meetingUrl: lesson.meetingUrl,
+        locationName: lesson.location?.name,
+        price: lesson.pricePerLesson ? Number(lesson.pricePerLesson) : null,
+        currency: lesson.currency,
+        organizationId,
+      });
+      await this.logEmail(organizationId, application.id, result.success, 'szczegóły lekcji próbnej');
+    } catch (emailError) {
+      console.error('Failed to send trial lesson email:', emailError);
+    }
+
+    return { application: await this.getApplicationById(id, organizationId), lesson };
+  }
+
+  /**
+   * One-click conversion after a trial lesson - promotes the provisional student with a generated password
+   */
+  async convertTrialStudent(id: string, organizationId: string, userId?: string) {
+    const application = await this.getApplicationById(id, organizationId);
+
+    if (!application.trialStudent?.isProvisional || application.trialStudent.archivedAt) {
+      throw new Error('To zgłoszenie nie ma ucznia z lekcji próbnej do konwersji');
+    }
+
+    const student = await prisma.student.findUniqueOrThrow({
+      where: { id: application.trialStudent.id },
+      include: { user: { select: { email: true, firstName: true, lastName: true, phone: true } } },
+    });
+
+    return this.convertToStudent(
+      id,
+      organizationId,
+      {
+        firstName: student.user.firstName,
+        lastName: student.user.lastName,
+        email: student.user.email,
+        password: crypto.randomBytes(6).toString('base64url'),
+        phone: student.user.phone ?? undefined,
+        languageLevel: application.placementLevel ?? student.languageLevel,
+        language: student.language,
+      },
+      userId,
+    );
+  }
+
+  /**
+   * Applicant did not continue after the trial - archive the provisional student and close the application as lost
+   */
+  async archiveTrialStudent(id: string, organizationId: string, lossReason?: string, userId?: string) {
+    const application = await this.getApplicationById(id, organizationId);
+
+    if (!application.trialStudent?.isProvisional || application.trialStudent.archivedAt) {
+      throw new Error('To zgłoszenie nie ma ucznia z lekcji próbnej do archiwizacji');
+    }
+
+    // A trial that has not taken place yet is removed from the teacher's calendar
+    const trialLesson = application.trialLesson;
+    if (trialLesson && trialLesson.status === LessonStatus.CONFIRMED && trialLesson.scheduledAt > new Date()) {
+      await lessonService.updateLesson(trialLesson.id, organizationId, {
+        status: 'CANCELLED_ON_TIME',
+        cancellationReason: 'Zgłoszenie zamknięte po lekcji próbnej',
+      }, userId);
+    }
+
+    await studentService.deleteStudent(application.trialStudent.id, organizationId);
+
+    return this.updateStatus(id, organizationId, ApplicationStatus.REJECTED, undefined, {
+      lossReason: lossReason || 'Rezygnacja po lekcji próbnej',
+      userId,
+      notify: false,
+    });
+  }
+
+  private async logEmail(organizationId: string, applicationId: string, sent: boolean, subject: string) {
+    if (!sent) return;
+
+    await applicationPipelineService.logActivity({
+      organizationId,
+      applicationId,
+      type: ApplicationActivityType.EMAIL_SENT,
+      message: `Wysłano e-mail: ${subject}`,
+    });
   }
 }
 
@@ -1,4 +1,5 @@
 import prisma from '../utils/prisma';
+import exchangeRateService, { CurrencyConverter } from './exchange-rate.service';
 
 export type DateRangeType = 'last30days' | 'month' | 'year';
 
@@ -7,6 +8,7 @@ export interface ChartDataParams {
   rangeType: DateRangeType;
   year?: number;
   month?: number; // 1-12
+  reportingCurrency?: string; // defaults to the organization's currency
 }
 
 export class DashboardService {
@@ -368,11 +370,12 @@ export class DashboardService {
    * Get chart data with flexible date range and grouping
    */
   async getChartData(params: ChartDataParams) {
-    const { organizationId, rangeType, year, month } = params;
+    const { organizationId, rangeType, year, month, reportingCurrency } = params;
     const { startDate, endDate, groupBy } = this.getDateRangeAndGrouping(rangeType, year, month);
+    const converter = await exchangeRateService.createConverter(organizationId, reportingCurrency);
 
     const [revenueData, lessonsData] = await Promise.all([
-      this.getRevenueChartDataByStudentType(organizationId, startDate, endDate, groupBy),
+      this.getRevenueChartDataByStudentType(organizationId, startDate, endDate, groupBy, converter),
       this.getLessonsChartData(organizationId, startDate, endDate, groupBy),
     ]);
 
@@ -389,6 +392,7 @@ export class DashboardService {
       groupBy,
       revenue: {
         data: revenueData,
+        currency: converter.targetCurrency,
         total: totalRevenue,
         totalNew: totalRevenueNew,
         totalReturning: totalRevenueReturning,
@@ -450,7 +454,8 @@ export class DashboardService {
     organizationId: string,
     startDate: Date,
     endDate: Date,
-    groupBy: 'day' | 'month'
+    groupBy: 'day' | 'month',
+    converter: CurrencyConverter
   ) {
     // Fetch all completed payments in range with studentId
     const payments = await prisma.payment.findMany({
@@ -459,7 +464,14 @@ export class DashboardService {
         createdAt: { gte: startDate, lte: endDate },
         status: 'COMPLETED',
       },
-      select: { amount: true, createdAt: true, studentId: true },
+      select: {
+        amount: true,
+        currency: true,
+        exchangeRateOverride: true,
+        paidAt: true,
+        createdAt: true,
+        studentId: true,
+      },
       orderBy: { createdAt: 'asc' },
     });
 
@@ -491,12 +503,18 @@ export class DashboardService {
     const newData = new Map<string, number>();
     const returningData = new Map<string, number>();
 
-    payments.forEach((payment) => {
+    for (const payment of payments) {
       const key = groupBy === 'day'
         ? payment.createdAt.toISOString().split('T')[0]
         : `${payment.createdAt.getFullYear()}-${String(payment.createdAt.getMonth() + 1).padStart(2, '0')}`;
 
-      const amount = parseFloat(payment.amount.toString());
+      // Converted with the rate from the payment date, a manual override wins
+      const amount = await converter.convert(
+        parseFloat(payment.amount.toString()),
+        payment.currency,
+        payment.paidAt ?? payment.createdAt,
+        payment.exchangeRateOverride ? Number(payment.exchangeRateOverride) : null
+      );
       const firstDate = firstPaymentDate.get(payment.studentId);
 
       // Student is "new" if this payment IS their first ever payment
@@ -508,7 +526,7 @@ export class DashboardService {
       } else {
         returningData.set(key, (returningData.get(key) || 0) + amount);
       }
-    });
+    }
 
     // Build full chart array
     const chartData: Array<{ date: string; label: string; amountNew: number; amountReturning: number; amount: number }> = [];
@@ -1,4 +1,6 @@
 import { Resend } from 'resend';
+import prisma from '../utils/prisma';
+import { EmailTriggerEvent, TemplateVariables, renderEmailTemplate } from '../utils/email-templates';
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -6,6 +8,9 @@ const resend = new Resend(process.env.RESEND_API_KEY);
 const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
 const MAX_TOTAL_ATTACHMENTS_SIZE = 25 * 1024 * 1024;
 
+// Labels for the other side of a lesson in cancellation/rescheduling emails
+const otherPersonRoleLabels = { lektor: 'Lektor', uczeń: 'Uczeń', grupa: 'Grupa' } as const;
+
 export interface EmailAttachment {
   filename: string;
   content: Buffer | string;
@@ -18,6 +23,8 @@ export interface SendEmailOptions {
   html: string;
   from?: string;
   attachments?: EmailAttachment[];
+  cc?: string[];
+  copyToParents?: boolean; // CC parents of minor students among recipients
 }
 
 class EmailService {
@@ -70,6 +77,60 @@ class EmailService {
     return { valid: true };
   }
 
+  /**
+   * Get parent emails of minor students among the recipients
+   */
+  private async getParentCopyRecipients(recipients: string[]): Promise<string[]> {
+    try {
+      const relations = await prisma.parentStudentRelation.findMany({
+        where: {
+          student: {
+            isMinor: true,
+            user: { email: { in: recipients } },
+          },
+          parent: { isActive: true },
+        },
+        select: { parent: { select: { email: true } } },
+      });
+
+      return [...new Set(relations.map((r) => r.parent.email))].filter((email) => !recipients.includes(email));
+    } catch (error) {
+      console.error('Failed to resolve parent copy recipients:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Use the organization's active template for a trigger event, or the built-in email as fallback
+   */
+  private async withTemplate(
+    organizationId: string | undefined,
+    triggerEvent: EmailTriggerEvent,
+    variables: TemplateVariables,
+    fallback: { subject: string; html: string }
+  ): Promise<{ subject: string; html: string }> {
+    if (!organizationId) {
+      return fallback;
+    }
+
+    try {
+      const template = await prisma.notificationTemplate.findFirst({
+        where: { organizationId, triggerEvent, isActive: true, channels: { has: 'EMAIL' } },
+        orderBy: { updatedAt: 'desc' },
+        include: { organization: { select: { name: true } } },
+      });
+
+      if (!template) {
+        return fallback;
+      }
+
+      return renderEmailTemplate(template, { organizationName: template.organization.name, ...variables });
+    } catch (error) {
+      console.error(`Failed to load email template "${triggerEvent}":`, error);
+      return fallback;
+    }
+  }
+
   /**
    * Send email using Resend
    */
@@ -93,6 +154,12 @@ class EmailService {
       attachmentsFailed = true;
     }
 
+    const toList = Array.isArray(options.to) ? options.to : [options.to];
+    const cc = [
+      ...(options.cc || []),
+      ...(options.copyToParents ? await this.getParentCopyRecipients(toList) : []),
+    ];
+
     try {
       // Prepare attachments for Resend format
       const resendAttachments = attachmentsToSend?.map(att => ({
@@ -102,7 +169,8 @@ class EmailService {
 
       const { data, error } = await resend.emails.send({
         from: options.from || this.fromEmail,
-        to: Array.isArray(options.to) ? options.to : [options.to],
+        to: toList,
+        ...(cc.length > 0 && { cc }),
         subject: options.subject,
         html: options.html,
         attachments: resendAttachments,
@@ -115,7 +183,8 @@ class EmailService {
 
           const retryResult = await resend.emails.send({
             from: options.from || this.fromEmail,
-            to: Array.isArray(options.to) ? options.to : [options.to],
+            to: toList,
+            ...(cc.length > 0 && { cc }),
             subject: options.subject,
             html: options.html,
           });
@@ -159,8 +228,9 @@ class EmailService {
     lessonDuration: number;
     deliveryMode: string;
     meetingUrl?: string;
+    organizationId?: string;
   }) {
-    const { teacherEmail, teacherName, studentEmail, studentName, lessonTitle, lessonDate, lessonDuration, deliveryMode, meetingUrl } = data;
+    const { teacherEmail, teacherName, studentEmail, studentName, lessonTitle, lessonDate, lessonDuration, deliveryMode, meetingUrl, organizationId } = data;
 
     const formattedDate = new Date(lessonDate).toLocaleString('pl-PL', {
       weekday: 'long',
@@ -209,17 +279,37 @@ class EmailService {
       </div>
     `;
 
+    const variables = {
+      teacherName,
+      studentName,
+      lessonTitle,
+      lessonDate: formattedDate,
+      lessonDuration,
+      deliveryMode: deliveryMode === 'ONLINE' ? 'Online' : 'Stacjonarnie',
+      meetingUrl,
+    };
+
+    const [teacherContent, studentContent] = await Promise.all([
+      this.withTemplate(organizationId, 'lesson_reminder_teacher', variables, {
+        subject: `Przypomnienie: Zajęcia z ${studentName} jutro`,
+        html: teacherHtml,
+      }),
+      this.withTemplate(organizationId, 'lesson_reminder_student', variables, {
+        subject: `Przypomnienie: Zajęcia z ${teacherName} jutro`,
+        html: studentHtml,
+      }),
+    ]);
+
     // Send both emails
     const teacherResult = await this.sendEmail({
       to: teacherEmail,
-      subject: `Przypomnienie: Zajęcia z ${studentName} jutro`,
-      html: teacherHtml,
+      ...teacherContent,
     });
 
     const studentResult = await this.sendEmail({
       to: studentEmail,
-      subject: `Przypomnienie: Zajęcia z ${teacherName} jutro`,
-      html: studentHtml,
+      ...studentContent,
+      copyToParents: true,
     });
 
     return {
@@ -237,8 +327,9 @@ class EmailService {
     courseName: string;
     hoursRemaining: number;
     managerEmail?: string;
+    organizationId?: string;
   }) {
-    const { studentEmail, studentName, courseName, hoursRemaining, managerEmail } = data;
+    const { studentEmail, studentName, courseName, hoursRemaining, managerEmail, organizationId } = data;
 
     const html = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -254,11 +345,18 @@ class EmailService {
       </div>
     `;
 
+    const content = await this.withTemplate(
+      organizationId,
+      'low_budget',
+      { studentName, courseName, hoursRemaining: hoursRemaining.toFixed(1) },
+      { subject: `⚠️ Niski stan konta - ${courseName}`, html }
+    );
+
     // Send to student
     const studentResult = await this.sendEmail({
       to: studentEmail,
-      subject: `⚠️ Niski stan konta - ${courseName}`,
-      html,
+      ...content,
+      copyToParents: true,
     });
 
     // Also send to manager if provided
@@ -302,8 +400,9 @@ class EmailService {
     lessonTitle: string;
     lessonDate: Date;
     lessonDuration: number;
+    organizationId?: string;
   }) {
-    const { studentEmail, studentName, teacherName, lessonTitle, lessonDate, lessonDuration } = data;
+    const { studentEmail, studentName, teacherName, lessonTitle, lessonDate, lessonDuration, organizationId } = data;
 
     const formattedDate = new Date(lessonDate).toLocaleString('pl-PL', {
       weekday: 'long',
@@ -330,10 +429,17 @@ class EmailService {
       </div>
     `;
 
+    const content = await this.withTemplate(
+      organizationId,
+      'lesson_confirmation',
+      { studentName, teacherName, lessonTitle, lessonDate: formattedDate, lessonDuration },
+      { subject: `✓ Potwierdzone: Zajęcia z ${teacherName}`, html }
+    );
+
     return await this.sendEmail({
       to: studentEmail,
-      subject: `✓ Potwierdzone: Zajęcia z ${teacherName}`,
-      html,
+      ...content,
+      copyToParents: true,
     });
   }
 
@@ -344,12 +450,13 @@ class EmailService {
     recipientEmail: string;
     recipientName: string;
     otherPersonName: string;
-    otherPersonRole: 'lektor' | 'uczeń';
+    otherPersonRole: keyof typeof otherPersonRoleLabels;
     lessonTitle: string;
     lessonDate: Date;
     cancellationReason?: string;
+    organizationId?: string;
   }) {
-    const { recipientEmail, recipientName, otherPersonName, otherPersonRole, lessonTitle, lessonDate, cancellationReason } = data;
+    const { recipientEmail, recipientName, otherPersonName, otherPersonRole, lessonTitle, lessonDate, cancellationReason, organizationId } = data;
 
     const formattedDate = new Date(lessonDate).toLocaleString('pl-PL', {
       weekday: 'long',
@@ -366,7 +473,7 @@ class EmailService {
         <p style="margin: 0 0 16px 0;">Dzień dobry ${recipientName},</p>
         <p style="margin: 0 0 16px 0;">Informujemy, że następujące zajęcia zostały odwołane:</p>
         <div style="background-color: #fef2f2; border-left: 4px solid #dc2626; padding: 20px; margin: 20px 0;">
-          <p style="margin: 5px 0;"><strong>${otherPersonRole === 'lektor' ? 'Lektor' : 'Uczeń'}:</strong> ${otherPersonName}</p>
+          <p style="margin: 5px 0;"><strong>${otherPersonRoleLabels[otherPersonRole]}:</strong> ${otherPersonName}</p>
           <p style="margin: 5px 0;"><strong>Temat:</strong> ${lessonTitle}</p>
           <p style="margin: 5px 0;"><strong>Data:</strong> ${formattedDate}</p>
           ${cancellationReason ? `<p style="margin: 5px 0;"><strong>Powód:</strong> ${cancellationReason}</p>` : ''}
@@ -376,10 +483,24 @@ class EmailService {
       </div>
     `;
 
+    const content = await this.withTemplate(
+      organizationId,
+      'lesson_cancellation',
+      {
+        recipientName,
+        otherPersonName,
+        otherPersonRole: otherPersonRoleLabels[otherPersonRole],
+        lessonTitle,
+        lessonDate: formattedDate,
+        cancellationReason,
+      },
+      { subject: `❌ Odwołane: Zajęcia z ${otherPersonName}`, html }
+    );
+
     return await this.sendEmail({
       to: recipientEmail,
-      subject: `❌ Odwołane: Zajęcia z ${otherPersonName}`,
-      html,
+      ...content,
+      copyToParents: true,
     });
   }
 
@@ -392,8 +513,9 @@ class EmailService {
     courseName: string;
     courseType: string;
     startDate: Date;
+    organizationId?: string;
   }) {
-    const { studentEmail, studentName, courseName, courseType, startDate } = data;
+    const { studentEmail, studentName, courseName, courseType, startDate, organizationId } = data;
 
     const formattedDate = new Date(startDate).toLocaleDateString('pl-PL', {
       year: 'numeric',
@@ -416,10 +538,16 @@ class EmailService {
       </div>
     `;
 
+    const content = await this.withTemplate(
+      organizationId,
+      'enrollment_confirmation',
+      { studentName, courseName, courseType, startDate: formattedDate },
+      { subject: `🎓 Potwierdzenie zapisu: ${courseName}`, html }
+    );
+
     return await this.sendEmail({
       to: studentEmail,
-      subject: `🎓 Potwierdzenie zapisu: ${courseName}`,
-      html,
+      ...content,
     });
   }
 
@@ -434,8 +562,9 @@ class EmailService {
     paymentMethod: string;
     courseName?: string;
     invoiceUrl?: string | null;
+    organizationId?: string;
   }) {
-    const { studentEmail, studentName, amount, currency, paymentMethod, courseName, invoiceUrl } = data;
+    const { studentEmail, studentName, amount, currency, paymentMethod, courseName, invoiceUrl, organizationId } = data;
 
     const html = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -453,10 +582,17 @@ class EmailService {
       </div>
     `;
 
+    const content = await this.withTemplate(
+      organizationId,
+      'payment_confirmation',
+      { studentName, amount: amount.toFixed(2), currency, paymentMethod, courseName, invoiceUrl },
+      { subject: `✓ Potwierdzenie płatności: ${amount.toFixed(2)} ${currency}`, html }
+    );
+
     return await this.sendEmail({
       to: studentEmail,
-      subject: `✓ Potwierdzenie płatności: ${amount.toFixed(2)} ${currency}`,
-      html,
+      ...content,
+      copyToParents: true,
     });
   }
 
@@ -467,7 +603,7 @@ class EmailService {
     recipientEmail: string;
     recipientName: string;
     otherPersonName: string;
-    otherPersonRole: 'lektor' | 'uczeń';
+    otherPersonRole: keyof typeof otherPersonRoleLabels;
     lessonTitle: string;
     oldDate: Date;
     newDate: Date;
@@ -475,6 +611,7 @@ class EmailService {
     deliveryMode: string;
     meetingUrl?: string;
     rescheduledBy: string;
+    organizationId?: string;
   }) {
     const {
       recipientEmail,
@@ -488,6 +625,7 @@ class EmailService {
       deliveryMode,
       meetingUrl,
       rescheduledBy,
+      organizationId,
     } = data;
 
     const formatDate = (date: Date) => {
@@ -511,7 +649,7 @@ class EmailService {
         <p style="margin: 0 0 16px 0;">Informujemy o zmianie terminu zajęć przez ${rescheduledBy}:</p>
 
         <div style="background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 20px; margin: 20px 0;">
-          <p style="margin: 5px 0;"><strong>${otherPersonRole === 'lektor' ? 'Lektor' : 'Uczeń'}:</strong> ${otherPersonName}</p>
+          <p style="margin: 5px 0;"><strong>${otherPersonRoleLabels[otherPersonRole]}:</strong> ${otherPersonName}</p>
           <p style="margin: 5px 0;"><strong>Temat:</strong> ${lessonTitle}</p>
           <p style="margin: 5px 0;"><strong>Czas trwania:</strong> ${lessonDuration} minut</p>
           <p style="margin: 5px 0;"><strong>Tryb:</strong> ${deliveryMode === 'ONLINE' ? 'Online' : 'Stacjonarnie'}</p>
@@ -535,10 +673,113 @@ class EmailService {
       </div>
     `;
 
+    const content = await this.withTemplate(
+      organizationId,
+      'lesson_rescheduled',
+      {
+        recipientName,
+        otherPersonName,
+        otherPersonRole: otherPersonRoleLabels[otherPersonRole],
+        lessonTitle,
+        oldDate: oldFormattedDate,
+        newDate: newFormattedDate,
+        lessonDuration,
+        deliveryMode: deliveryMode === 'ONLINE' ? 'Online' : 'Stacjonarnie',
+        meetingUrl,
+        rescheduledBy,
+      },
+      { subject: `🔄 Zmiana terminu: Zajęcia z ${otherPersonName}`, html }
+    );
+
+    return await this.sendEmail({
+      to: recipientEmail,
+      ...content,
+      copyToParents: true,
+    });
+  }
+
+  /**
+   * Send substitution lifecycle email (assigned / changed / removed)
+   */
+  async sendSubstitutionNotification(data: {
+    recipientEmail: string;
+    recipientName: string;
+    event: 'assigned' | 'changed' | 'removed';
+    lessonTitle: string;
+    lessonDate: Date;
+    originalTeacherName: string;
+    substituteTeacherName: string;
+    previousSubstituteName?: string;
+    reason?: string | null;
+    organizationId?: string;
+  }) {
+    const {
+      recipientEmail,
+      recipientName,
+      event,
+      lessonTitle,
+      lessonDate,
+      originalTeacherName,
+      substituteTeacherName,
+      previousSubstituteName,
+      reason,
+      organizationId,
+    } = data;
+
+    const formattedDate = new Date(lessonDate).toLocaleString('pl-PL', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+    const substitutionInfo = {
+      assigned: `Zajęcia poprowadzi ${substituteTeacherName} w zastępstwie za ${originalTeacherName}.`,
+      changed: `Zmiana zastępstwa: zajęcia poprowadzi ${substituteTeacherName}${previousSubstituteName ? ` (wcześniej ${previousSubstituteName})` : ''} w zastępstwie za ${originalTeacherName}.`,
+      removed: `Zastępstwo zostało odwołane - zajęcia poprowadzi ${originalTeacherName}.`,
+    }[event];
+
+    const headline = {
+      assigned: '🔁 Zastępstwo na zajęciach',
+      changed: '🔁 Zmiana zastępstwa',
+      removed: '↩️ Zastępstwo odwołane',
+    }[event];
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #d97706;">${headline}</h2>
+        <p style="margin: 0 0 16px 0;">Dzień dobry ${recipientName},</p>
+        <p style="margin: 0 0 16px 0;">${substitutionInfo}</p>
+        <div style="background-color: #fffbeb; border-left: 4px solid #d97706; padding: 20px; margin: 20px 0;">
+          <p style="margin: 5px 0;"><strong>Temat:</strong> ${lessonTitle}</p>
+          <p style="margin: 5px 0;"><strong>Data:</strong> ${formattedDate}</p>
+          ${reason && event !== 'removed' ? `<p style="margin: 5px 0;"><strong>Powód:</strong> ${reason}</p>` : ''}
+        </div>
+        <p style="color: #6b7280; font-size: 12px; margin-top: 30px;">LingoDesk - System zarządzania szkołą językową</p>
+      </div>
+    `;
+
+    const content = await this.withTemplate(
+      organizationId,
+      'lesson_substitution',
+      {
+        recipientName,
+        lessonTitle,
+        lessonDate: formattedDate,
+        originalTeacherName,
+        substituteTeacherName,
+        substitutionInfo,
+        reason,
+      },
+      { subject: `${headline}: ${lessonTitle}`, html }
+    );
+
     return await this.sendEmail({
       to: recipientEmail,
-      subject: `🔄 Zmiana terminu: Zajęcia z ${otherPersonName}`,
-      html,
+      ...content,
+      copyToParents: true,
     });
   }
 
@@ -557,6 +798,7 @@ class EmailService {
     organizationEmail?: string;
     bankAccountInfo?: string;
     lessonInfo?: string;
+    organizationId?: string;
   }) {
     const {
       studentEmail,
@@ -570,6 +812,7 @@ class EmailService {
       organizationEmail,
       bankAccountInfo,
       lessonInfo,
+      organizationId,
     } = data;
 
     const formattedDueDate = dueDate
@@ -637,10 +880,27 @@ class EmailService {
         ? `📅 Płatność do dziś: ${amount.toFixed(2)} ${currency}`
         : `⏰ Przypomnienie o płatności: ${amount.toFixed(2)} ${currency}`;
 
+    const content = await this.withTemplate(
+      organizationId,
+      'payment_reminder',
+      {
+        studentName,
+        amount: amount.toFixed(2),
+        currency,
+        dueDate: formattedDueDate,
+        statusMessage: urgencyMessage || 'Przypominamy o oczekującej płatności.',
+        lessonInfo,
+        bankAccountInfo,
+        organizationName,
+        organizationEmail,
+      },
+      { subject, html }
+    );
+
     return await this.sendEmail({
       to: studentEmail,
-      subject,
-      html,
+      ...content,
+      copyToParents: true,
     });
   }
 
@@ -653,8 +913,9 @@ class EmailService {
     role: string;
     organizationName: string;
     loginUrl: string;
+    organizationId?: string;
   }) {
-    const { userEmail, userName, role, organizationName, loginUrl } = data;
+    const { userEmail, userName, role, organizationName, loginUrl, organizationId } = data;
 
     const roleNames: Record<string, string> = {
       ADMIN: 'Administrator',
@@ -684,10 +945,16 @@ class EmailService {
       </div>
     `;
 
+    const content = await this.withTemplate(
+      organizationId,
+      'welcome',
+      { userName, userEmail, role: roleNames[role] || role, organizationName, loginUrl },
+      { subject: `👋 Witamy w LingoDesk - ${organizationName}`, html }
+    );
+
     return await this.sendEmail({
       to: userEmail,
-      subject: `👋 Witamy w LingoDesk - ${organizationName}`,
-      html,
+      ...content,
     });
   }
 
@@ -700,8 +967,9 @@ class EmailService {
     organizationName: string;
     temporaryPassword: string;
     role: string;
+    organizationId?: string;
   }) {
-    const { to, firstName, organizationName, temporaryPassword, role } = data;
+    const { to, firstName, organizationName, temporaryPassword, role, organizationId } = data;
 
     const roleNames: Record<string, string> = {
       ADMIN: 'Administrator',
@@ -741,10 +1009,16 @@ class EmailService {
       </div>
     `;
 
+    const content = await this.withTemplate(
+      organizationId,
+      'user_invitation',
+      { firstName, email: to, role: roleNames[role] || role, temporaryPassword, organizationName, loginUrl: `${loginUrl}/login` },
+      { subject: `🎉 Zaproszenie do ${organizationName} - LingoDesk`, html }
+    );
+
     return await this.sendEmail({
       to,
-      subject: `🎉 Zaproszenie do ${organizationName} - LingoDesk`,
-      html,
+      ...content,
     });
   }
 
@@ -756,8 +1030,9 @@ class EmailService {
     applicantName: string;
     organizationName: string;
     courseName?: string;
+    organizationId?: string;
   }) {
-    const { applicantEmail, applicantName, organizationName, courseName } = data;
+    const { applicantEmail, applicantName, organizationName, courseName, organizationId } = data;
 
     const html = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -774,10 +1049,16 @@ class EmailService {
       </div>
     `;
 
+    const content = await this.withTemplate(
+      organizationId,
+      'application_confirmation',
+      { applicantName, organizationName, courseName },
+      { subject: `✅ Zgłoszenie otrzymane - ${organizationName}`, html }
+    );
+
     return await this.sendEmail({
       to: applicantEmail,
-      subject: `✅ Zgłoszenie otrzymane - ${organizationName}`,
-      html,
+      ...content,
     });
   }
 
@@ -791,8 +1072,9 @@ class EmailService {
     status: 'ACCEPTED' | 'REJECTED';
     courseName?: string;
     internalNotes?: string | null;
+    organizationId?: string;
   }) {
-    const { applicantEmail, applicantName, organizationName, status, courseName, internalNotes } = data;
+    const { applicantEmail, applicantName, organizationName, status, courseName, internalNotes, organizationId } = data;
 
     const isAccepted = status === 'ACCEPTED';
     const headerColor = isAccepted ? '#10b981' : '#ef4444';
@@ -821,10 +1103,16 @@ class EmailService {
       </div>
     `;
 
+    const content = await this.withTemplate(
+      organizationId,
+      isAccepted ? 'application_accepted' : 'application_rejected',
+      { applicantName, organizationName, courseName, notes: internalNotes },
+      { subject: `${headerEmoji} ${headerText} - ${organizationName}`, html }
+    );
+
     return await this.sendEmail({
       to: applicantEmail,
-      subject: `${headerEmoji} ${headerText} - ${organizationName}`,
-      html,
+      ...content,
     });
   }
 
@@ -837,8 +1125,9 @@ class EmailService {
     organizationName: string;
     temporaryPassword: string;
     courseName?: string;
+    organizationId?: string;
   }) {
-    const { studentEmail, studentName, organizationName, temporaryPassword, courseName } = data;
+    const { studentEmail, studentName, organizationName, temporaryPassword, courseName, organizationId } = data;
     const loginUrl = process.env.FRONTEND_URL || 'https://lingodesk.pl';
 
     const html = `
@@ -862,10 +1151,155 @@ class EmailService {
       </div>
     `;
 
+    const content = await this.withTemplate(
+      organizationId,
+      'application_converted',
+      { studentName, studentEmail, temporaryPassword, courseName, organizationName, loginUrl: `${loginUrl}/login` },
+      { subject: `🎓 Konto ucznia gotowe - ${organizationName}`, html }
+    );
+
     return await this.sendEmail({
       to: studentEmail,
-      subject: `🎓 Konto ucznia gotowe - ${organizationName}`,
-      html,
+      ...content,
+    });
+  }
+
+  /**
+   * Send trial lesson details to an applicant
+   */
+  async sendTrialLessonScheduled(data: {
+    applicantEmail: string;
+    applicantName: string;
+    teacherName: string;
+    organizationName: string;
+    scheduledAt: Date;
+    durationMinutes: number;
+    deliveryMode: 'IN_PERSON' | 'ONLINE';
+    meetingUrl?: string | null;
+    locationName?: string | null;
+    price?: number | null;
+    currency?: string;
+    organizationId?: string;
+  }) {
+    const {
+      applicantEmail,
+      applicantName,
+      teacherName,
+      organizationName,
+      scheduledAt,
+      durationMinutes,
+      deliveryMode,
+      meetingUrl,
+      locationName,
+      price,
+      currency = 'PLN',
+      organizationId,
+    } = data;
+
+    const formattedDate = new Date(scheduledAt).toLocaleString('pl-PL', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    const deliveryLabel = deliveryMode === 'ONLINE' ? 'Online' : 'Stacjonarnie';
+    const priceLabel = price ? `${price.toFixed(2)} ${currency}` : 'bezpłatna';
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #3b82f6;">📅 Lekcja próbna umówiona</h2>
+        <p style="margin: 0 0 16px 0;">Dzień dobry ${applicantName},</p>
+        <p style="margin: 0 0 16px 0;">Dziękujemy za zgłoszenie! Umówiliśmy dla Ciebie lekcję próbną w <strong>${organizationName}</strong>.</p>
+        <div style="background-color: #eff6ff; border-left: 4px solid #3b82f6; padding: 20px; margin: 20px 0;">
+          <p style="margin: 5px 0;"><strong>Termin:</strong> ${formattedDate}</p>
+          <p style="margin: 5px 0;"><strong>Czas trwania:</strong> ${durationMinutes} minut</p>
+          <p style="margin: 5px 0;"><strong>Lektor:</strong> ${teacherName}</p>
+          <p style="margin: 5px 0;"><strong>Tryb:</strong> ${deliveryLabel}</p>
+          ${locationName ? `<p style="margin: 5px 0;"><strong>Miejsce:</strong> ${locationName}</p>` : ''}
+          ${meetingUrl ? `<p style="margin: 5px 0;"><strong>Link do spotkania:</strong> <a href="${meetingUrl}">${meetingUrl}</a></p>` : ''}
+          <p style="margin: 5px 0;"><strong>Cena:</strong> ${priceLabel}</p>
+        </div>
+        <p style="margin: 0 0 16px 0;">Jeśli termin Ci nie odpowiada, odpowiedz na tę wiadomość lub skontaktuj się ze szkołą.</p>
+        <p style="color: #6b7280; font-size: 12px; margin-top: 30px;">${organizationName} - LingoDesk</p>
+      </div>
+    `;
+
+    const content = await this.withTemplate(
+      organizationId,
+      'trial_lesson_scheduled',
+      {
+        applicantName,
+        teacherName,
+        lessonTitle: 'Lekcja próbna',
+        lessonDate: formattedDate,
+        lessonDuration: durationMinutes,
+        deliveryMode: deliveryLabel,
+        meetingUrl,
+        price: priceLabel,
+      },
+      { subject: `📅 Lekcja próbna ${formattedDate} - ${organizationName}`, html }
+    );
+
+    return await this.sendEmail({
+      to: applicantEmail,
+      ...content,
+    });
+  }
+
+  /**
+   * Send a seat offer to the first person on a course waiting list
+   */
+  async sendWaitlistOffer(data: {
+    recipientEmail: string;
+    recipientName: string;
+    courseName: string;
+    organizationName: string;
+    offerUrl: string;
+    expiresAt: Date;
+    organizationId?: string;
+  }) {
+    const { recipientEmail, recipientName, courseName, organizationName, offerUrl, expiresAt, organizationId } = data;
+
+    const formattedExpiry = new Date(expiresAt).toLocaleString('pl-PL', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #10b981;">🎉 Zwolniło się miejsce w kursie</h2>
+        <p style="margin: 0 0 16px 0;">Dzień dobry ${recipientName},</p>
+        <p style="margin: 0 0 16px 0;">W kursie <strong>${courseName}</strong> zwolniło się miejsce, a Ty jesteś pierwsza/pierwszy na liście oczekujących.</p>
+        <div style="background-color: #f0fdf4; border-left: 4px solid #10b981; padding: 20px; margin: 20px 0;">
+          <p style="margin: 5px 0;"><strong>Kurs:</strong> ${courseName}</p>
+          <p style="margin: 5px 0;"><strong>Oferta ważna do:</strong> ${formattedExpiry}</p>
+        </div>
+        <p style="margin: 0 0 16px 0;">
+          <a href="${offerUrl}" style="display: inline-block; background-color: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 10px;">
+            Zajmij miejsce
+          </a>
+        </p>
+        <p style="margin: 0 0 16px 0;">Po upływie terminu miejsce zostanie zaproponowane kolejnej osobie z listy.</p>
+        <p style="color: #6b7280; font-size: 12px; margin-top: 30px;">${organizationName} - LingoDesk</p>
+      </div>
+    `;
+
+    const content = await this.withTemplate(
+      organizationId,
+      'waitlist_offer',
+      { recipientName, courseName, offerUrl, expiresAt: formattedExpiry },
+      { subject: `🎉 Wolne miejsce w kursie ${courseName} - ${organizationName}`, html }
+    );
+
+    return await this.sendEmail({
+      to: recipientEmail,
+      ...content,
     });
   }
 
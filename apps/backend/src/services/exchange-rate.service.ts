@@ -17,6 +17,48 @@ interface NBPResponse {
   rates: NBPRate[];
 }
 
+/**
+ * Converts many amounts into one reporting currency, using the NBP rate effective on each amount's date.
+ * Rates are cached per currency and day, so a report hits the database once per distinct day.
+ */
+export class CurrencyConverter {
+  private rates = new Map<string, Promise<number>>();
+
+  constructor(
+    private readonly service: ExchangeRateService,
+    private readonly organizationId: string,
+    readonly targetCurrency: string
+  ) {}
+
+  private getRate(currency: string, date: Date): Promise<number> {
+    const key = `${currency}:${date.toDateString()}`;
+    let rate = this.rates.get(key);
+    if (!rate) {
+      rate = this.service.getExchangeRate(this.organizationId, currency, date).catch(() => {
+        const error: any = new Error(
+          `Brak kursu NBP dla ${currency} z dnia ${date.toLocaleDateString('pl-PL')} - nie można przeliczyć kwot`
+        );
+        error.statusCode = 400;
+        throw error;
+      });
+      this.rates.set(key, rate);
+    }
+    return rate;
+  }
+
+  /**
+   * @param overrideRate manual rate of fromCurrency to PLN (Payment.exchangeRateOverride)
+   */
+  async convert(amount: number, fromCurrency: string, date: Date, overrideRate?: number | null): Promise<number> {
+    if (fromCurrency === this.targetCurrency) {
+      return amount;
+    }
+
+    const plnAmount = fromCurrency === 'PLN' ? amount : amount * (overrideRate ?? (await this.getRate(fromCurrency, date)));
+    return this.targetCurrency === 'PLN' ? plnAmount : plnAmount / (await this.getRate(this.targetCurrency, date));
+  }
+}
+
 class ExchangeRateService {
   /**
    * Fetch exchange rates from NBP API for a specific date
@@ -213,6 +255,29 @@ class ExchangeRateService {
     return await this.convertFromPLN(organizationId, plnAmount, toCurrency, date);
   }
 
+  /**
+   * Converter for reports - falls back to the organization's currency when none is requested
+   */
+  async createConverter(organizationId: string, reportingCurrency?: string): Promise<CurrencyConverter> {
+    let currency = reportingCurrency?.toUpperCase();
+
+    if (!currency) {
+      const organization = await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { currency: true },
+      });
+      currency = organization?.currency || 'PLN';
+    }
+
+    if (!this.getSupportedCurrencies().includes(currency)) {
+      const error: any = new Error(`Nieobsługiwana waluta raportu: ${currency}`);
+      error.statusCode = 400;
+      throw error;
+    }
+
+    return new CurrencyConverter(this, organizationId, currency);
+  }
+
   /**
    * Format date for NBP API (YYYY-MM-DD)
    */
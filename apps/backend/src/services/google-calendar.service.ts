@@ -1,6 +1,7 @@
 import { google, calendar_v3 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
 import prisma from '../utils/prisma';
+import { LessonStudentLike, LessonWithParticipants, getLessonStudents, studentLessonFilter } from '../utils/lesson-participants';
 
 class GoogleCalendarService {
   private oauth2Client: OAuth2Client;
@@ -154,6 +155,32 @@ class GoogleCalendarService {
     }
   }
 
+  /**
+   * Students line of the event description - a group lesson lists all participants in one event
+   */
+  private formatStudentsLine(lesson: LessonWithParticipants<LessonStudentLike>) {
+    const names = getLessonStudents(lesson).map((lessonStudent) => `${lessonStudent.user.firstName} ${lessonStudent.user.lastName}`);
+    return lesson.isGroupLesson ? `Uczniowie: ${names.join(', ')}` : `Uczeń: ${names[0]}`;
+  }
+
+  /**
+   * Teacher actually running the lesson (the substitute when one is assigned)
+   */
+  private getLessonTeacherUser(lesson: {
+    teacher: { user: { id: string; firstName: string; lastName: string; email: string } };
+    substitution?: { substituteTeacher: { user: { id: string; firstName: string; lastName: string; email: string } } } | null;
+  }) {
+    return lesson.substitution?.substituteTeacher.user ?? lesson.teacher.user;
+  }
+
+  private formatTeacherLine(lesson: Parameters<GoogleCalendarService['getLessonTeacherUser']>[0]) {
+    const teacherUser = this.getLessonTeacherUser(lesson);
+    const line = `Nauczyciel: ${teacherUser.firstName} ${teacherUser.lastName}`;
+    return lesson.substitution
+      ? `${line} (zastępstwo za ${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName})`
+      : line;
+  }
+
   /**
    * Create Google Calendar event from lesson
    * @param lessonId - ID of the lesson to sync
@@ -166,7 +193,9 @@ class GoogleCalendarService {
         include: {
           teacher: { include: { user: true } },
           student: { include: { user: true } },
+          participants: { include: { student: { include: { user: true } } }, orderBy: { createdAt: 'asc' } },
           course: true,
+          substitution: { include: { substituteTeacher: { include: { user: true } } } },
         },
       });
 
@@ -174,9 +203,9 @@ class GoogleCalendarService {
         throw new Error('Lesson not found');
       }
 
-      // Use syncUserId if provided, otherwise fall back to teacher's user ID
+      // Use syncUserId if provided, otherwise fall back to the teacher running the lesson
       // This allows admins/managers to sync lessons to their own calendar
-      const calendarOwnerId = syncUserId || lesson.teacher.user.id;
+      const calendarOwnerId = syncUserId || this.getLessonTeacherUser(lesson).id;
 
       const calendar = await this.getCalendarClient(calendarOwnerId);
       if (!calendar) {
@@ -193,10 +222,11 @@ class GoogleCalendarService {
       // Prepare event data
       const startTime = new Date(lesson.scheduledAt);
       const endTime = new Date(startTime.getTime() + lesson.durationMinutes * 60000);
+      const teacherUser = this.getLessonTeacherUser(lesson);
 
       const eventData: calendar_v3.Schema$Event = {
         summary: lesson.title,
-        description: `Nauczyciel: ${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}\nUczeń: ${lesson.student.user.firstName} ${lesson.student.user.lastName}\n${lesson.description || ''}`,
+        description: `${this.formatTeacherLine(lesson)}\n${this.formatStudentsLine(lesson)}\n${lesson.description || ''}`,
         start: {
           dateTime: startTime.toISOString(),
           timeZone: 'Europe/Warsaw',
@@ -206,8 +236,11 @@ class GoogleCalendarService {
           timeZone: 'Europe/Warsaw',
         },
         attendees: [
-          { email: lesson.teacher.user.email, displayName: `${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}` },
-          { email: lesson.student.user.email, displayName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}` },
+          { email: teacherUser.email, displayName: `${teacherUser.firstName} ${teacherUser.lastName}` },
+          ...getLessonStudents(lesson).map((lessonStudent) => ({
+            email: lessonStudent.user.email,
+            displayName: `${lessonStudent.user.firstName} ${lessonStudent.user.lastName}`,
+          })),
         ],
         reminders: {
           useDefault: false,
@@ -261,7 +294,9 @@ class GoogleCalendarService {
         include: {
           teacher: { include: { user: true } },
           student: { include: { user: true } },
+          participants: { include: { student: { include: { user: true } } }, orderBy: { createdAt: 'asc' } },
           course: true,
+          substitution: { include: { substituteTeacher: { include: { user: true } } } },
           googleCalendarEvent: {
             include: { googleCalendarSync: true },
           },
@@ -292,10 +327,11 @@ class GoogleCalendarService {
       // Prepare updated event data
       const startTime = new Date(lesson.scheduledAt);
       const endTime = new Date(startTime.getTime() + lesson.durationMinutes * 60000);
+      const teacherUser = this.getLessonTeacherUser(lesson);
 
       const eventData: calendar_v3.Schema$Event = {
         summary: lesson.title,
-        description: `Nauczyciel: ${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}\nUczeń: ${lesson.student.user.firstName} ${lesson.student.user.lastName}\n${lesson.description || ''}`,
+        description: `${this.formatTeacherLine(lesson)}\n${this.formatStudentsLine(lesson)}\n${lesson.description || ''}`,
         start: {
           dateTime: startTime.toISOString(),
           timeZone: 'Europe/Warsaw',
@@ -305,8 +341,11 @@ class GoogleCalendarService {
           timeZone: 'Europe/Warsaw',
         },
         attendees: [
-          { email: lesson.teacher.user.email, displayName: `${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}` },
-          { email: lesson.student.user.email, displayName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}` },
+          { email: teacherUser.email, displayName: `${teacherUser.firstName} ${teacherUser.lastName}` },
+          ...getLessonStudents(lesson).map((lessonStudent) => ({
+            email: lessonStudent.user.email,
+            displayName: `${lessonStudent.user.firstName} ${lessonStudent.user.lastName}`,
+          })),
         ],
       };
 
@@ -391,6 +430,27 @@ class GoogleCalendarService {
     }
   }
 
+  /**
+   * Move a lesson's event to another teacher's calendar (substitution assigned, changed or removed)
+   * The event is recreated in the target calendar; nothing is created when the target has no connected calendar.
+   */
+  async moveEventToTeacher(lessonId: string, targetUserId: string) {
+    const existingEvent = await prisma.lessonGoogleCalendarEvent.findUnique({
+      where: { lessonId },
+      include: { googleCalendarSync: true },
+    });
+
+    if (existingEvent?.googleCalendarSync.userId === targetUserId) {
+      return this.updateEventFromLesson(lessonId);
+    }
+
+    if (existingEvent) {
+      await this.deleteEventFromLesson(lessonId);
+    }
+
+    return this.createEventFromLesson(lessonId, targetUserId);
+  }
+
   /**
    * Disconnect Google Calendar for a user
    */
@@ -492,13 +552,13 @@ class GoogleCalendarService {
           break;
 
         case 'STUDENT': {
-          // Only lessons where user is the student — pick the student record for current org
+          // Only lessons the user takes part in (incl. group lessons) — pick the student record for current org
           const studentRecord = user.students.find(s => s.organizationId === user.organizationId);
           if (!studentRecord) {
             console.log(`User ${userId} is STUDENT but has no student profile`);
             return { total: 0, synced: 0, failed: 0 };
           }
-          lessonFilter.studentId = studentRecord.id;
+          lessonFilter = { ...lessonFilter, ...studentLessonFilter(studentRecord.id) };
           console.log(`Syncing lessons for STUDENT ${studentRecord.id}`);
           break;
         }
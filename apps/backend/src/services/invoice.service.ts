@@ -0,0 +1,723 @@
+import prisma from '../utils/prisma';
+import { InvoiceStatus, InvoiceType, InvoiceSeriesResetPeriod, PaymentMethod, Prisma } from '@prisma/client';
+import { format, addDays } from 'date-fns';
+import PdfGenerator from '../utils/pdf-generator';
+import { uploadFile, deleteFile, getSignedUrl } from '../utils/supabase';
+
+export interface InvoiceFilters {
+  organizationId: string;
+  studentId?: string;
+  status?: InvoiceStatus;
+  type?: InvoiceType;
+  dateFrom?: Date;
+  dateTo?: Date;
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface IssueInvoiceData {
+  seriesId?: string;
+  issueDate?: Date;
+  dueDate?: Date;
+  taxRate?: number | null;
+  description?: string;
+  buyerName?: string;
+  buyerAddress?: string;
+  notes?: string;
+}
+
+export interface CorrectInvoiceData {
+  correctedTotalAmount: number;
+  reason: string;
+  seriesId?: string;
+}
+
+export interface InvoiceSeriesData {
+  name: string;
+  type?: InvoiceType;
+  pattern: string;
+  resetPeriod?: InvoiceSeriesResetPeriod;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+export interface InvoicingSettings {
+  autoIssueOnPayment: boolean;
+  taxRate: number | null; // null = VAT exempt (zw.)
+  paymentTermDays: number;
+  defaultDescription: string;
+  notes: string;
+}
+
+const DEFAULT_INVOICING_SETTINGS: InvoicingSettings = {
+  autoIssueOnPayment: false,
+  taxRate: null,
+  paymentTermDays: 14,
+  defaultDescription: 'Usługa nauki języka obcego',
+  notes: '',
+};
+
+const DEFAULT_SERIES: Record<InvoiceType, { name: string; pattern: string }> = {
+  INVOICE: { name: 'Faktury', pattern: 'FV/{YYYY}/{MM}/{seq}' },
+  CORRECTION: { name: 'Korekty', pattern: 'KOR/{YYYY}/{MM}/{seq}' },
+};
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  STRIPE: 'Płatność online (karta)',
+  CASH: 'Gotówka',
+  BANK_TRANSFER: 'Przelew',
+};
+
+const invoiceInclude = {
+  student: {
+    include: {
+      user: {
+        select: {
+          firstName: true,
+          lastName: true,
+          email: true,
+        },
+      },
+    },
+  },
+  payment: {
+    select: {
+      id: true,
+      status: true,
+      paidAt: true,
+    },
+  },
+  series: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  correctedInvoice: {
+    select: {
+      id: true,
+      invoiceNumber: true,
+    },
+  },
+  corrections: {
+    select: {
+      id: true,
+      invoiceNumber: true,
+      totalAmount: true,
+      status: true,
+    },
+  },
+} satisfies Prisma.InvoiceInclude;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+class InvoiceService {
+  /**
+   * Get invoicing settings (stored in OrganizationSettings.settings.invoicing)
+   */
+  async getInvoicingSettings(organizationId: string): Promise<InvoicingSettings> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { organizationId },
+      select: { settings: true },
+    });
+
+    const customSettings = (settings?.settings as Record<string, any>) || {};
+    return { ...DEFAULT_INVOICING_SETTINGS, ...(customSettings.invoicing || {}) };
+  }
+
+  /**
+   * Update invoicing settings
+   */
+  async updateInvoicingSettings(organizationId: string, data: Partial<InvoicingSettings>) {
+    const currentSettings = await prisma.organizationSettings.findUnique({
+      where: { organizationId },
+      select: { settings: true },
+    });
+
+    const existingSettings = (currentSettings?.settings as Record<string, any>) || {};
+    const invoicing = { ...DEFAULT_INVOICING_SETTINGS, ...(existingSettings.invoicing || {}), ...data };
+    const mergedSettings = { ...existingSettings, invoicing };
+
+    await prisma.organizationSettings.upsert({
+      where: { organizationId },
+      create: { organizationId, settings: mergedSettings },
+      update: { settings: mergedSettings },
+    });
+
+    return invoicing as InvoicingSettings;
+  }
+
+  /**
+   * Get numbering series for organization
+   */
+  async getSeries(organizationId: string) {
+    return prisma.invoiceSeries.findMany({
+      where: { organizationId },
+      include: { _count: { select: { invoices: true } } },
+      orderBy: [{ type: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Create numbering series
+   */
+  async createSeries(organizationId: string, data: InvoiceSeriesData) {
+    this.validatePattern(data.pattern, data.resetPeriod || InvoiceSeriesResetPeriod.MONTHLY);
+    const type = data.type || InvoiceType.INVOICE;
+
+    return prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.invoiceSeries.updateMany({
+          where: { organizationId, type },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.invoiceSeries.create({
+        data: {
+          organizationId,
+          name: data.name,
+          type,
+          pattern: data.pattern,
+          resetPeriod: data.resetPeriod || InvoiceSeriesResetPeriod.MONTHLY,
+          isDefault: data.isDefault ?? false,
+          isActive: data.isActive ?? true,
+        },
+      });
+    });
+  }
+
+  /**
+   * Update numbering series
+   */
+  async updateSeries(id: string, organizationId: string, data: Partial<InvoiceSeriesData>) {
+    const series = await prisma.invoiceSeries.findFirst({ where: { id, organizationId } });
+    if (!series) {
+      throw new Error('Seria numeracji nie została znaleziona');
+    }
+
+    if (data.pattern || data.resetPeriod) {
+      this.validatePattern(data.pattern || series.pattern, data.resetPeriod || series.resetPeriod);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.invoiceSeries.updateMany({
+          where: { organizationId, type: series.type, id: { not: id } },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.invoiceSeries.update({
+        where: { id },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.pattern !== undefined && { pattern: data.pattern }),
+          ...(data.resetPeriod !== undefined && { resetPeriod: data.resetPeriod }),
+          ...(data.isDefault !== undefined && { isDefault: data.isDefault }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+        },
+      });
+    });
+  }
+
+  /**
+   * Delete numbering series (only if no invoices were issued in it)
+   */
+  async deleteSeries(id: string, organizationId: string) {
+    const series = await prisma.invoiceSeries.findFirst({
+      where: { id, organizationId },
+      include: { _count: { select: { invoices: true } } },
+    });
+
+    if (!series) {
+      throw new Error('Seria numeracji nie została znaleziona');
+    }
+
+    if (series._count.invoices > 0) {
+      throw new Error('Nie można usunąć serii, w której wystawiono faktury. Możesz ją dezaktywować.');
+    }
+
+    await prisma.invoiceSeries.delete({ where: { id } });
+    return { success: true };
+  }
+
+  /**
+   * Get invoices with filters and pagination
+   */
+  async getInvoices(filters: InvoiceFilters) {
+    const { organizationId, studentId, status, type, dateFrom, dateTo, search } = filters;
+    const page = Math.max(1, filters.page || 1);
+    const pageSize = Math.min(100, Math.max(1, filters.pageSize || 20));
+
+    const where: Prisma.InvoiceWhereInput = {
+      organizationId,
+      ...(studentId && { studentId }),
+      ...(status && { status }),
+      ...(type && { type }),
+    };
+
+    if (dateFrom || dateTo) {
+      where.issueDate = {
+        ...(dateFrom && { gte: dateFrom }),
+        ...(dateTo && { lte: dateTo }),
+      };
+    }
+
+    if (search) {
+      where.OR = [
+        { invoiceNumber: { contains: search, mode: 'insensitive' } },
+        { buyerName: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.invoice.findMany({
+        where,
+        include: invoiceInclude,
+        orderBy: [{ issueDate: 'desc' }, { createdAt: 'desc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.invoice.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / pageSize);
+
+    return {
+      data,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages,
+        hasMore: page < totalPages,
+      },
+    };
+  }
+
+  /**
+   * Get invoice by ID
+   */
+  async getInvoiceById(id: string, organizationId: string) {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, organizationId },
+      include: invoiceInclude,
+    });
+
+    if (!invoice) {
+      throw new Error('Faktura nie została znaleziona');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Issue invoice for a completed payment
+   */
+  async issueInvoice(paymentId: string, organizationId: string, data: IssueInvoiceData = {}, createdById?: string) {
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, organizationId },
+      include: {
+        invoice: { select: { id: true, invoiceNumber: true } },
+        student: {
+          include: {
+            user: {
+              select: {
+                firstName: true,
+                lastName: true,
+                email: true,
+                profile: { select: { address: true } },
+              },
+            },
+          },
+        },
+        enrollment: { include: { course: { select: { name: true } } } },
+      },
+    });
+
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    if (payment.status !== 'COMPLETED') {
+      throw new Error('Fakturę można wystawić tylko dla zrealizowanej płatności');
+    }
+
+    if (payment.invoice) {
+      throw new Error(`Dla tej płatności wystawiono już fakturę ${payment.invoice.invoiceNumber}`);
+    }
+
+    const [organization, settings] = await Promise.all([
+      prisma.organization.findUniqueOrThrow({ where: { id: organizationId } }),
+      this.getInvoicingSettings(organizationId),
+    ]);
+
+    const issueDate = data.issueDate || new Date();
+    const dueDate = data.dueDate || addDays(issueDate, settings.paymentTermDays);
+    const taxRate = data.taxRate !== undefined ? data.taxRate : settings.taxRate;
+    const totalAmount = round2(Number(payment.amount));
+    const { netAmount, taxAmount } = this.splitGross(totalAmount, taxRate);
+
+    const description =
+      data.description ||
+      (payment.enrollment?.course?.name
+        ? `${settings.defaultDescription} - ${payment.enrollment.course.name}`
+        : payment.notes || settings.defaultDescription);
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      const series = await this.resolveSeries(tx, organizationId, InvoiceType.INVOICE, data.seriesId);
+      const invoiceNumber = await this.nextNumber(tx, series, issueDate);
+
+      return tx.invoice.create({
+        data: {
+          organizationId,
+          paymentId: payment.id,
+          seriesId: series.id,
+          type: InvoiceType.INVOICE,
+          invoiceNumber,
+          issueDate,
+          saleDate: payment.paidAt || issueDate,
+          dueDate,
+          studentId: payment.studentId,
+          sellerName: organization.name,
+          sellerTaxId: organization.taxId,
+          sellerAddress: this.formatAddress(organization.address, organization.postalCode, organization.city),
+          buyerName: data.buyerName || `${payment.student.user.firstName} ${payment.student.user.lastName}`,
+          buyerEmail: payment.student.user.email,
+          buyerAddress: data.buyerAddress ?? payment.student.user.profile?.address ?? null,
+          description,
+          currency: payment.currency,
+          netAmount,
+          taxRate,
+          taxAmount,
+          totalAmount,
+          paymentMethod: payment.paymentMethod,
+          notes: data.notes ?? (settings.notes || null),
+          createdById,
+        },
+      });
+    });
+
+    return this.storePdf(invoice.id, organizationId);
+  }
+
+  /**
+   * Issue credit note (faktura korygująca) for an invoice
+   * The correction holds the difference between corrected and current total.
+   */
+  async correctInvoice(id: string, organizationId: string, data: CorrectInvoiceData, createdById?: string) {
+    const original = await this.getInvoiceById(id, organizationId);
+
+    if (original.type !== InvoiceType.INVOICE) {
+      throw new Error('Nie można korygować faktury korygującej - skoryguj fakturę pierwotną');
+    }
+
+    if (original.status === InvoiceStatus.VOIDED) {
+      throw new Error('Nie można korygować anulowanej faktury');
+    }
+
+    // Current total includes previously issued corrections
+    const currentTotal = round2(
+      Number(original.totalAmount) +
+        original.corrections
+          .filter((c) => c.status !== InvoiceStatus.VOIDED)
+          .reduce((sum, c) => sum + Number(c.totalAmount), 0)
+    );
+    const difference = round2(data.correctedTotalAmount - currentTotal);
+
+    if (difference === 0) {
+      throw new Error('Kwota po korekcie jest taka sama jak obecna kwota faktury');
+    }
+
+    const taxRate = original.taxRate !== null ? Number(original.taxRate) : null;
+    const { netAmount, taxAmount } = this.splitGross(difference, taxRate);
+    const issueDate = new Date();
+
+    const correction = await prisma.$transaction(async (tx) => {
+      const series = await this.resolveSeries(tx, organizationId, InvoiceType.CORRECTION, data.seriesId);
+      const invoiceNumber = await this.nextNumber(tx, series, issueDate);
+
+      return tx.invoice.create({
+        data: {
+          organizationId,
+          seriesId: series.id,
+          correctedInvoiceId: original.id,
+          type: InvoiceType.CORRECTION,
+          invoiceNumber,
+          issueDate,
+          saleDate: original.saleDate,
+          dueDate: issueDate,
+          studentId: original.studentId,
+          sellerName: original.sellerName,
+          sellerTaxId: original.sellerTaxId,
+          sellerAddress: original.sellerAddress,
+          buyerName: original.buyerName,
+          buyerEmail: original.buyerEmail,
+          buyerAddress: original.buyerAddress,
+          description: original.description,
+          currency: original.currency,
+          netAmount,
+          taxRate,
+          taxAmount,
+          totalAmount: difference,
+          paymentMethod: original.paymentMethod,
+          correctionReason: data.reason,
+          createdById,
+        },
+      });
+    });
+
+    return this.storePdf(correction.id, organizationId);
+  }
+
+  /**
+   * Void invoice
+   * Releases the payment link so a new invoice can be issued for the same payment.
+   */
+  async voidInvoice(id: string, organizationId: string, reason: string) {
+    const invoice = await this.getInvoiceById(id, organizationId);
+
+    if (invoice.status === InvoiceStatus.VOIDED) {
+      throw new Error('Faktura jest już anulowana');
+    }
+
+    if (invoice.corrections.some((c) => c.status !== InvoiceStatus.VOIDED)) {
+      throw new Error('Nie można anulować faktury z wystawionymi korektami - najpierw anuluj korekty');
+    }
+
+    await prisma.invoice.update({
+      where: { id },
+      data: {
+        status: InvoiceStatus.VOIDED,
+        voidedAt: new Date(),
+        voidReason: reason,
+        paymentId: null,
+        notes: invoice.paymentId
+          ? [invoice.notes, `Anulowana faktura do płatności ${invoice.paymentId}`].filter(Boolean).join('\n')
+          : invoice.notes,
+      },
+    });
+
+    // Regenerate PDF with the voided mark
+    return this.storePdf(id, organizationId);
+  }
+
+  /**
+   * Generate invoice PDF from the stored snapshot
+   */
+  async generatePdf(id: string, organizationId: string): Promise<{ buffer: Buffer; fileName: string }> {
+    const invoice = await this.getInvoiceById(id, organizationId);
+
+    const buffer = await PdfGenerator.generateInvoicePdf({
+      type: invoice.type,
+      invoiceNumber: invoice.invoiceNumber,
+      issueDate: invoice.issueDate,
+      saleDate: invoice.saleDate,
+      dueDate: invoice.dueDate,
+      seller: { name: invoice.sellerName, taxId: invoice.sellerTaxId, address: invoice.sellerAddress },
+      buyer: { name: invoice.buyerName, email: invoice.buyerEmail, address: invoice.buyerAddress },
+      description: invoice.description,
+      currency: invoice.currency,
+      netAmount: Number(invoice.netAmount),
+      taxRate: invoice.taxRate !== null ? Number(invoice.taxRate) : null,
+      taxAmount: Number(invoice.taxAmount),
+      totalAmount: Number(invoice.totalAmount),
+      paymentMethod: invoice.paymentMethod ? PAYMENT_METHOD_LABELS[invoice.paymentMethod] : null,
+      isPaid: invoice.type === InvoiceType.INVOICE && (!invoice.payment || invoice.payment.status === 'COMPLETED'),
+      notes: invoice.notes,
+      correctedInvoiceNumber: invoice.correctedInvoice?.invoiceNumber,
+      correctionReason: invoice.correctionReason,
+      isVoided: invoice.status === InvoiceStatus.VOIDED,
+    });
+
+    return {
+      buffer,
+      fileName: `${invoice.invoiceNumber.replace(/[^a-zA-Z0-9-_]/g, '_')}.pdf`,
+    };
+  }
+
+  /**
+   * Get a time-limited download link for the stored invoice PDF
+   */
+  async getInvoiceLink(id: string, organizationId: string, expiresInSeconds: number = 7 * 24 * 3600) {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, organizationId },
+      select: { fileUrl: true, fileStoragePath: true },
+    });
+
+    if (!invoice?.fileStoragePath) {
+      return invoice?.fileUrl || undefined;
+    }
+
+    try {
+      return await getSignedUrl(invoice.fileStoragePath, expiresInSeconds);
+    } catch (error) {
+      console.error('Failed to create signed invoice URL:', error);
+      return invoice.fileUrl || undefined;
+    }
+  }
+
+  /**
+   * Render PDF and upload it to storage
+   * Storage failures are logged - the PDF can always be regenerated on download.
+   */
+  private async storePdf(id: string, organizationId: string) {
+    try {
+      const { buffer, fileName } = await this.generatePdf(id, organizationId);
+      const existing = await prisma.invoice.findUnique({ where: { id }, select: { fileStoragePath: true } });
+      const { path, publicUrl } = await uploadFile(buffer, `invoices-${fileName}`, organizationId, 'application/pdf');
+
+      await prisma.invoice.update({
+        where: { id },
+        data: { fileUrl: publicUrl, fileStoragePath: path },
+      });
+
+      if (existing?.fileStoragePath) {
+        await deleteFile(existing.fileStoragePath).catch((error) =>
+          console.error('Failed to delete previous invoice PDF:', error)
+        );
+      }
+    } catch (error) {
+      console.error('Failed to store invoice PDF:', error);
+    }
+
+    return this.getInvoiceById(id, organizationId);
+  }
+
+  /**
+   * Find requested or default active series, creating the default one if missing
+   */
+  private async resolveSeries(
+    tx: Prisma.TransactionClient,
+    organizationId: string,
+    type: InvoiceType,
+    seriesId?: string
+  ) {
+    if (seriesId) {
+      const series = await tx.invoiceSeries.findFirst({
+        where: { id: seriesId, organizationId, type, isActive: true },
+      });
+      if (!series) {
+        throw new Error('Wybrana seria numeracji nie istnieje lub jest nieaktywna');
+      }
+      return series;
+    }
+
+    const defaultSeries =
+      (await tx.invoiceSeries.findFirst({
+        where: { organizationId, type, isActive: true },
+        orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+      })) ||
+      (await tx.invoiceSeries.create({
+        data: {
+          organizationId,
+          type,
+          name: DEFAULT_SERIES[type].name,
+          pattern: DEFAULT_SERIES[type].pattern,
+          isDefault: true,
+        },
+      }));
+
+    return defaultSeries;
+  }
+
+  /**
+   * Reserve next number in series (counter resets per period)
+   */
+  private async nextNumber(
+    tx: Prisma.TransactionClient,
+    series: { id: string; pattern: string; resetPeriod: InvoiceSeriesResetPeriod },
+    date: Date
+  ): Promise<string> {
+    const periodKey = this.getPeriodKey(series.resetPeriod, date);
+
+    // Always increment first: the row lock serializes concurrent issuers, also for the first
+    // number of a new period (a concurrent issuer waits here and then sees the reset counter)
+    const current = await tx.invoiceSeries.update({
+      where: { id: series.id },
+      data: { lastNumber: { increment: 1 } },
+      select: { lastNumber: true, currentPeriod: true },
+    });
+
+    if (current.currentPeriod === periodKey) {
+      return this.formatNumber(series.pattern, date, current.lastNumber);
+    }
+
+    // Only one counter per series - restarting an earlier period would repeat its numbers
+    if (
+      current.currentPeriod &&
+      current.currentPeriod.length === periodKey.length &&
+      current.currentPeriod > periodKey
+    ) {
+      throw new Error(
+        `W tej serii wystawiono już faktury za okres ${current.currentPeriod} - data wystawienia nie może przypadać na wcześniejszy okres`
+      );
+    }
+
+    await tx.invoiceSeries.update({
+      where: { id: series.id },
+      data: { currentPeriod: periodKey, lastNumber: 1 },
+    });
+
+    return this.formatNumber(series.pattern, date, 1);
+  }
+
+  /**
+   * Build invoice number from pattern
+   */
+  private formatNumber(pattern: string, date: Date, seq: number): string {
+    return pattern
+      .replace(/\{YYYY\}/g, format(date, 'yyyy'))
+      .replace(/\{YY\}/g, format(date, 'yy'))
+      .replace(/\{MM\}/g, format(date, 'MM'))
+      .replace(/\{DD\}/g, format(date, 'dd'))
+      .replace(/\{seq(?::(\d+))?\}/g, (_match, width) => String(seq).padStart(width ? parseInt(width) : 1, '0'));
+  }
+
+  private getPeriodKey(resetPeriod: InvoiceSeriesResetPeriod, date: Date): string {
+    switch (resetPeriod) {
+      case InvoiceSeriesResetPeriod.MONTHLY:
+        return format(date, 'yyyy-MM');
+      case InvoiceSeriesResetPeriod.YEARLY:
+        return format(date, 'yyyy');
+      default:
+        return 'ALL';
+    }
+  }
+
+  private validatePattern(pattern: string, resetPeriod: InvoiceSeriesResetPeriod) {
+    if (!/\{seq(?::\d+)?\}/.test(pattern)) {
+      throw new Error('Wzorzec numeracji musi zawierać {seq}');
+    }
+
+    // The counter restarts each period, so the period must be part of the number
+    const hasYear = /\{YYYY\}|\{YY\}/.test(pattern);
+    if (resetPeriod === InvoiceSeriesResetPeriod.MONTHLY && (!hasYear || !pattern.includes('{MM}'))) {
+      throw new Error('Wzorzec numeracji z resetem miesięcznym musi zawierać {YYYY} (lub {YY}) i {MM}');
+    }
+    if (resetPeriod === InvoiceSeriesResetPeriod.YEARLY && !hasYear) {
+      throw new Error('Wzorzec numeracji z resetem rocznym musi zawierać {YYYY} (lub {YY})');
+    }
+  }
+
+  /**
+   * Split gross amount into net and tax parts
+   */
+  private splitGross(gross: number, taxRate: number | null) {
+    if (!taxRate) {
+      return { netAmount: gross, taxAmount: 0 };
+    }
+    const netAmount = round2(gross / (1 + taxRate / 100));
+    return { netAmount, taxAmount: round2(gross - netAmount) };
+  }
+
+  private formatAddress(address?: string | null, postalCode?: string | null, city?: string | null) {
+    const cityLine = [postalCode, city].filter(Boolean).join(' ');
+    const full = [address, cityLine].filter(Boolean).join(', ');
+    return full || null;
+  }
+}
+
+export default new InvoiceService();
@@ -2,9 +2,17 @@ import { PrismaClient, NotificationType, LessonDeliveryMode, LessonStatus, Recur
 import emailService from './email.service';
 import googleCalendarService from './google-calendar.service';
 import balanceService from './balance.service';
+import subscriptionService from './subscription.service';
 import { getHolidayName } from '../utils/polish-holidays';
 import { alertService } from './alert.service';
 import classroomService from './classroom.service';
+import teacherAvailabilityService from './teacher-availability.service';
+import {
+  formatLessonStudents,
+  getLessonStudents,
+  participantsWithUserInclude,
+  studentLessonFilter,
+} from '../utils/lesson-participants';
 
 const prisma = new PrismaClient();
 
@@ -28,6 +36,8 @@ export interface CreateLessonData {
   status?: 'CONFIRMED' | 'COMPLETED' | 'CANCELLED_ON_TIME' | 'CANCELLED_LATE';
   isRecurring?: boolean;
   recurringPatternId?: string;
+  bookedByStudent?: boolean;
+  participantStudentIds?: string[]; // Group lesson participants - defaults to active enrollments of a GROUP course
 }
 
 export interface UpdateLessonData {
@@ -103,8 +113,74 @@ class LessonService {
     return teacherHourlyRate * hours;
   }
 
+  /**
+   * Resolve participants of a group lesson with the enrollment charged for each of them
+   * Without an explicit list all active enrollments of the course take part.
+   * Participants without an enrollment get a PER_LESSON one (same as individual lessons).
+   */
+  private async resolveGroupParticipants(
+    organizationId: string,
+    courseId: string | null,
+    primary: { studentId: string; enrollmentId?: string },
+    participantStudentIds?: string[]
+  ): Promise<{ studentId: string; enrollmentId: string }[]> {
+    const activeEnrollments = courseId
+      ? await prisma.studentEnrollment.findMany({
+          where: { courseId, status: 'ACTIVE' },
+          select: { id: true, studentId: true },
+          orderBy: { enrollmentDate: 'asc' },
+        })
+      : [];
+
+    const studentIds = Array.from(new Set([
+      primary.studentId,
+      ...(participantStudentIds ?? activeEnrollments.map((enrollment) => enrollment.studentId)),
+    ]));
+
+    const students = await prisma.student.findMany({
+      where: {
+        id: { in: studentIds },
+        user: { organizationId },
+      },
+      select: { id: true },
+    });
+
+    if (students.length !== studentIds.length) {
+      throw new Error('One or more students not found');
+    }
+
+    const participants: { studentId: string; enrollmentId: string }[] = [];
+    for (const participantId of studentIds) {
+      if (participantId === primary.studentId && primary.enrollmentId) {
+        participants.push({ studentId: participantId, enrollmentId: primary.enrollmentId });
+        continue;
+      }
+
+      const existing = activeEnrollments.find((enrollment) => enrollment.studentId === participantId);
+      if (existing) {
+        participants.push({ studentId: participantId, enrollmentId: existing.id });
+        continue;
+      }
+
+      const created = await prisma.studentEnrollment.create({
+        data: {
+          courseId,
+          studentId: participantId,
+          enrollmentDate: new Date(),
+          status: 'ACTIVE',
+          paymentMode: 'PER_LESSON',
+          hoursPurchased: 0,
+          hoursUsed: 0,
+        },
+      });
+      participants.push({ studentId: participantId, enrollmentId: created.id });
+    }
+
+    return participants;
+  }
+
   async createLesson(data: CreateLessonData) {
-    const { organizationId, enrollmentId, teacherId, studentId, courseId, ...lessonData } = data;
+    const { organizationId, enrollmentId, teacherId, studentId, courseId, participantStudentIds, ...lessonData } = data;
 
     // Verify enrollment exists and belongs to organization
     let contractEnrollmentId = enrollmentId;
@@ -173,6 +249,17 @@ class LessonService {
       throw new Error('Student not found');
     }
 
+    // Group lesson: one lesson shared by all participants, each charged through their own enrollment
+    const isGroupLesson = enrollment.course?.courseType === 'GROUP' || (participantStudentIds?.length ?? 0) > 0;
+    const participants = isGroupLesson
+      ? await this.resolveGroupParticipants(
+          organizationId,
+          enrollment.courseId,
+          { studentId, enrollmentId: contractEnrollmentId! },
+          participantStudentIds
+        )
+      : [];
+
     // Check if date falls on a Polish holiday (if skipHolidays is enabled)
     const orgSettings = await prisma.organizationSettings.findUnique({
       where: { organizationId },
@@ -223,7 +310,11 @@ class LessonService {
         studentId,
         status: data.status || 'CONFIRMED',
         teacherRate: calculatedTeacherRate,
+        isGroupLesson,
         ...lessonData,
+        ...(isGroupLesson && {
+          participants: { create: participants },
+        }),
       },
       include: {
         teacher: {
@@ -257,6 +348,7 @@ class LessonService {
         location: true,
         classroom: true,
         attendances: true,
+        participants: participantsWithUserInclude,
       },
     });
 
@@ -273,7 +365,6 @@ class LessonService {
       day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit',
     });
     const teacherUserId = lesson.teacher?.user?.id;
-    const studentUserId = lesson.student?.user?.id;
     if (teacherUserId) {
       alertService.createLessonAlert({
         userId: teacherUserId,
@@ -281,13 +372,13 @@ class LessonService {
         priority: AlertPriority.NORMAL,
         type: AlertType.INFO,
         title: 'Nowa lekcja zaplanowana',
-        message: `Zaplanowano nową lekcję "${lesson.title}" z ${lesson.student.user.firstName} ${lesson.student.user.lastName} na ${lessonDate}.`,
+        message: `Zaplanowano nową lekcję "${lesson.title}" z ${formatLessonStudents(lesson)} na ${lessonDate}.`,
         metadata: { lessonId: lesson.id },
       }).catch(err => console.error('Failed to create lesson alert for teacher:', err));
     }
-    if (studentUserId) {
+    for (const lessonStudent of getLessonStudents(lesson)) {
       alertService.createLessonAlert({
-        userId: studentUserId,
+        userId: lessonStudent.user.id,
         organizationId,
         priority: AlertPriority.NORMAL,
         type: AlertType.INFO,
@@ -340,6 +431,20 @@ class LessonService {
             },
           },
         },
+        {
+          participants: {
+            some: {
+              student: {
+                user: {
+                  OR: [
+                    { firstName: { contains: search, mode: 'insensitive' } },
+                    { lastName: { contains: search, mode: 'insensitive' } },
+                  ],
+                },
+              },
+            },
+          },
+        },
       ];
     }
 
@@ -348,7 +453,7 @@ class LessonService {
     }
 
     if (studentId) {
-      where.studentId = studentId;
+      where.AND = [studentLessonFilter(studentId)];
     }
 
     if (courseId) {
@@ -396,6 +501,7 @@ class LessonService {
           currency: true,
           cancellationReason: true,
           recordingUrl: true,
+          isGroupLesson: true,
           //isPaidCancellation: true,
           createdAt: true,
           teacher: {
@@ -442,10 +548,11 @@ class LessonService {
               name: true,
             },
           },
-          // Only count attendances, don't fetch all records
+          // Only count attendances and participants, don't fetch all records
           _count: {
             select: {
               attendances: true,
+              participants: true,
             },
           },
         },
@@ -500,11 +607,25 @@ class LessonService {
             },
           },
         },
+        {
+          participants: {
+            some: {
+              student: {
+                user: {
+                  OR: [
+                    { firstName: { contains: search, mode: 'insensitive' } },
+                    { lastName: { contains: search, mode: 'insensitive' } },
+                  ],
+                },
+              },
+            },
+          },
+        },
       ];
     }
 
     if (teacherId) where.teacherId = teacherId;
-    if (studentId) where.studentId = studentId;
+    if (studentId) where.AND = [studentLessonFilter(studentId)];
     if (courseId) where.courseId = courseId;
     if (status) where.status = status;
 
@@ -528,6 +649,7 @@ class LessonService {
         currency: true,
         cancellationReason: true,
         recordingUrl: true,
+        isGroupLesson: true,
         //isPaidCancellation: true,
         teacher: {
           select: {
@@ -561,6 +683,11 @@ class LessonService {
             name: true,
           },
         },
+        _count: {
+          select: {
+            participants: true,
+          },
+        },
       },
       orderBy: {
         scheduledAt: 'desc',
@@ -613,6 +740,7 @@ class LessonService {
         },
         location: true,
         classroom: true,
+        participants: participantsWithUserInclude,
         attendances: {
           include: {
             student: {
@@ -659,6 +787,7 @@ class LessonService {
             user: true,
           },
         },
+        participants: true,
       },
     });
 
@@ -688,16 +817,19 @@ class LessonService {
     const isCancellingLesson = (data.status === 'CANCELLED_ON_TIME' || data.status === 'CANCELLED_LATE') && !wasAlreadyCancelled && !existingLesson.cancelledAt;
 
     if (isCancellingLesson) {
-      // Check if cancellation limit is exceeded
-      const limitCheck = await this.checkCancellationLimit(existingLesson.studentId);
-      if (!limitCheck.canCancel) {
-        throw new Error(`Limit odwołań został przekroczony. Wykorzystano ${limitCheck.used} z ${limitCheck.limit} dozwolonych odwołań w tym okresie.`);
+      // Group lessons are cancelled for the whole group - student limits and fees don't apply
+      if (!existingLesson.isGroupLesson) {
+        // Check if cancellation limit is exceeded
+        const limitCheck = await this.checkCancellationLimit(existingLesson.studentId);
+        if (!limitCheck.canCancel) {
+          throw new Error(`Limit odwołań został przekroczony. Wykorzystano ${limitCheck.used} z ${limitCheck.limit} dozwolonych odwołań w tym okresie.`);
+        }
       }
 
       updateData.cancelledAt = new Date();
 
       // CANCELLED_LATE: apply cancellation fee (charge student, pay teacher)
-      if (data.status === 'CANCELLED_LATE') {
+      if (data.status === 'CANCELLED_LATE' && !existingLesson.isGroupLesson) {
         const cancellationFeeResult = await this.checkAndApplyCancellationFee(
           existingLesson,
           organizationId
@@ -718,15 +850,8 @@ class LessonService {
       updateData.completedAt = new Date();
 
       // Deduct hours from student budget, create payment for per-lesson mode, or charge from balance
-      // Only if enrollment exists
-      if (existingLesson.enrollmentId) {
-        await this.deductLessonFromBudget(
-          existingLesson.enrollmentId,
-          existingLesson.durationMinutes,
-          existingLesson.id,
-          existingLesson.title
-        );
-      }
+      // Only if enrollment exists (group lessons charge every participant)
+      await this.deductLessonBudgets(existingLesson);
     }
 
     // If uncompleting (reverting from COMPLETED to another status), restore budget and remove payment
@@ -735,15 +860,8 @@ class LessonService {
       updateData.completedAt = null;
 
       // Restore budget, remove payment, or refund balance
-      // Only if enrollment exists
-      if (existingLesson.enrollmentId) {
-        await this.restoreLessonBudget(
-          existingLesson.enrollmentId,
-          existingLesson.durationMinutes,
-          existingLesson.id,
-          existingLesson.title
-        );
-      }
+      // Only if enrollment exists (group lessons refund every participant)
+      await this.restoreLessonBudgets(existingLesson);
     }
 
     const lesson = await prisma.lesson.update({
@@ -781,6 +899,7 @@ class LessonService {
         location: true,
         classroom: true,
         attendances: true,
+        participants: participantsWithUserInclude,
       },
     });
 
@@ -795,7 +914,6 @@ class LessonService {
         day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit',
       });
       const teacherUserId = lesson.teacher?.user?.id;
-      const studentUserId = lesson.student?.user?.id;
       if (teacherUserId) {
         alertService.createLessonAlert({
           userId: teacherUserId,
@@ -803,13 +921,13 @@ class LessonService {
           priority: AlertPriority.HIGH,
           type: AlertType.WARNING,
           title: 'Lekcja odwołana',
-          message: `Lekcja "${lesson.title}" z ${lesson.student.user.firstName} ${lesson.student.user.lastName} zaplanowana na ${cancelDate} została odwołana.`,
+          message: `Lekcja "${lesson.title}" z ${formatLessonStudents(lesson)} zaplanowana na ${cancelDate} została odwołana.`,
           metadata: { lessonId: lesson.id },
         }).catch(err => console.error('Failed to create cancellation alert for teacher:', err));
       }
-      if (studentUserId) {
+      for (const lessonStudent of getLessonStudents(lesson)) {
         alertService.createLessonAlert({
-          userId: studentUserId,
+          userId: lessonStudent.user.id,
           organizationId,
           priority: AlertPriority.HIGH,
           type: AlertType.WARNING,
@@ -1040,6 +1158,7 @@ class LessonService {
     const cancellationsCount = await prisma.lesson.count({
       where: {
         studentId,
+        isGroupLesson: false, // Group lessons are cancelled by the school, not the student
         status: { in: ['CANCELLED_ON_TIME', 'CANCELLED_LATE'] },
         cancelledAt: {
           gte: periodStart,
@@ -1126,6 +1245,7 @@ class LessonService {
     const cancelledLessons = await prisma.lesson.findMany({
       where: {
         studentId,
+        isGroupLesson: false,
         status: { in: ['CANCELLED_ON_TIME', 'CANCELLED_LATE'] },
         cancelledAt: periodStart ? { gte: periodStart } : { not: null },
       },
@@ -1168,6 +1288,122 @@ class LessonService {
     };
   }
 
+  /**
+   * Cancellation preview for the logged-in student: fee and remaining cancellations in the current period
+   */
+  async getStudentCancellationPreview(lessonId: string, userId: string, organizationId: string) {
+    const lesson = await this.getOwnStudentLesson(lessonId, userId, organizationId);
+
+    const [feePreview, limitCheck] = await Promise.all([
+      this.getCancellationFeePreview(lessonId, organizationId),
+      this.checkCancellationLimit(lesson.studentId),
+    ]);
+
+    return {
+      ...feePreview,
+      limitEnabled: limitCheck.limitEnabled,
+      limit: limitCheck.limit,
+      used: limitCheck.used,
+      remaining: limitCheck.limit !== null ? Math.max(0, limitCheck.limit - limitCheck.used) : null,
+      period: limitCheck.period,
+      canCancel: limitCheck.canCancel,
+    };
+  }
+
+  /**
+   * Cancel a lesson by the student themselves
+   * Late cancellations follow the student's cancellation fee settings; the school admins are notified.
+   */
+  async cancelLessonByStudent(lessonId: string, userId: string, organizationId: string, reason?: string) {
+    const existingLesson = await this.getOwnStudentLesson(lessonId, userId, organizationId);
+
+    if (existingLesson.scheduledAt <= new Date()) {
+      throw new Error('Nie można odwołać lekcji, która już się rozpoczęła');
+    }
+
+    if (existingLesson.status !== 'CONFIRMED') {
+      throw new Error('Tej lekcji nie można już odwołać');
+    }
+
+    const preview = await this.getCancellationFeePreview(lessonId, organizationId);
+    const cancellationReason = reason ? `Odwołane przez ucznia: ${reason}` : 'Odwołane przez ucznia';
+
+    const lesson = await this.updateLesson(
+      lessonId,
+      organizationId,
+      {
+        status: preview.feeApplies ? 'CANCELLED_LATE' : 'CANCELLED_ON_TIME',
+        cancellationReason,
+      },
+      userId
+    );
+
+    this.notifyAdminsOfStudentCancellation(lesson, cancellationReason).catch(err =>
+      console.error('Failed to notify admins about student cancellation:', err)
+    );
+
+    return lesson;
+  }
+
+  private async getOwnStudentLesson(lessonId: string, userId: string, organizationId: string) {
+    const lesson = await prisma.lesson.findFirst({
+      where: { id: lessonId, organizationId, student: { userId } },
+      select: { id: true, studentId: true, scheduledAt: true, status: true, isGroupLesson: true },
+    });
+
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+
+    if (lesson.isGroupLesson) {
+      throw new Error('Zajęcia grupowe może odwołać tylko szkoła');
+    }
+
+    return lesson;
+  }
+
+  /**
+   * Email and alert every active admin about a lesson cancelled by the student (fire-and-forget helper)
+   */
+  private async notifyAdminsOfStudentCancellation(lesson: any, cancellationReason: string) {
+    const admins = await prisma.user.findMany({
+      where: { organizationId: lesson.organizationId, role: 'ADMIN', isActive: true },
+      select: { id: true, email: true, firstName: true, lastName: true },
+    });
+
+    const studentName = `${lesson.student.user.firstName} ${lesson.student.user.lastName}`;
+    const cancelDate = new Date(lesson.scheduledAt).toLocaleDateString('pl-PL', {
+      day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit',
+    });
+    const feeInfo = lesson.cancellationFeeApplied
+      ? ` Naliczono opłatę za późne odwołanie: ${Number(lesson.cancellationFeeAmount).toFixed(2)} ${lesson.currency || 'PLN'}.`
+      : '';
+
+    await Promise.all(
+      admins.flatMap((admin) => [
+        emailService.sendLessonCancellation({
+          recipientEmail: admin.email,
+          recipientName: `${admin.firstName} ${admin.lastName}`,
+          otherPersonName: studentName,
+          otherPersonRole: 'uczeń',
+          lessonTitle: lesson.title,
+          lessonDate: lesson.scheduledAt,
+          cancellationReason,
+          organizationId: lesson.organizationId,
+        }),
+        alertService.createLessonAlert({
+          userId: admin.id,
+          organizationId: lesson.organizationId,
+          priority: lesson.cancellationFeeApplied ? AlertPriority.HIGH : AlertPriority.NORMAL,
+          type: AlertType.WARNING,
+          title: 'Uczeń odwołał lekcję',
+          message: `${studentName} odwołał(a) lekcję "${lesson.title}" z lektorem ${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName} zaplanowaną na ${cancelDate}.${feeInfo}`,
+          metadata: { lessonId: lesson.id, studentId: lesson.studentId },
+        }),
+      ])
+    );
+  }
+
   /**
    * Send cancellation emails to teacher and student (fire-and-forget helper)
    */
@@ -1176,21 +1412,25 @@ class LessonService {
       emailService.sendLessonCancellation({
         recipientEmail: lesson.teacher.user.email,
         recipientName: `${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}`,
-        otherPersonName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}`,
-        otherPersonRole: 'uczeń',
-        lessonTitle: lesson.title,
-        lessonDate: lesson.scheduledAt,
-        cancellationReason,
-      }),
-      emailService.sendLessonCancellation({
-        recipientEmail: lesson.student.user.email,
-        recipientName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}`,
-        otherPersonName: `${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}`,
-        otherPersonRole: 'lektor',
+        otherPersonName: formatLessonStudents(lesson),
+        otherPersonRole: lesson.isGroupLesson ? 'grupa' : 'uczeń',
         lessonTitle: lesson.title,
         lessonDate: lesson.scheduledAt,
         cancellationReason,
+        organizationId: lesson.organizationId,
       }),
+      ...getLessonStudents<any>(lesson).map((lessonStudent) =>
+        emailService.sendLessonCancellation({
+          recipientEmail: lessonStudent.user.email,
+          recipientName: `${lessonStudent.user.firstName} ${lessonStudent.user.lastName}`,
+          otherPersonName: `${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}`,
+          otherPersonRole: 'lektor',
+          lessonTitle: lesson.title,
+          lessonDate: lesson.scheduledAt,
+          cancellationReason,
+          organizationId: lesson.organizationId,
+        })
+      ),
     ]);
   }
 
@@ -1212,6 +1452,7 @@ class LessonService {
     const rescheduledByName = userWhoRescheduled
       ? `${userWhoRescheduled.firstName} ${userWhoRescheduled.lastName}`
       : 'System';
+    const students = getLessonStudents<any>(lesson);
 
     // Create in-app notifications and send emails in parallel
     await Promise.all([
@@ -1223,7 +1464,7 @@ class LessonService {
           type: NotificationType.IN_APP,
           channel: 'IN_APP',
           subject: 'Zmiana terminu zajęć',
-          body: `Zajęcia "${lesson.title}" z ${lesson.student.user.firstName} ${lesson.student.user.lastName} zostały przeniesione. Nowy termin: ${new Date(lesson.scheduledAt).toLocaleString('pl-PL')}`,
+          body: `Zajęcia "${lesson.title}" z ${formatLessonStudents(lesson)} zostały przeniesione. Nowy termin: ${new Date(lesson.scheduledAt).toLocaleString('pl-PL')}`,
           status: 'SENT',
           metadata: {
             lessonId: lesson.id,
@@ -1233,44 +1474,32 @@ class LessonService {
           },
         },
       }),
-      // In-app notification for student
-      prisma.notification.create({
-        data: {
-          organizationId,
-          userId: lesson.student.userId,
-          type: NotificationType.IN_APP,
-          channel: 'IN_APP',
-          subject: 'Zmiana terminu zajęć',
-          body: `Zajęcia "${lesson.title}" z ${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName} zostały przeniesione. Nowy termin: ${new Date(lesson.scheduledAt).toLocaleString('pl-PL')}`,
-          status: 'SENT',
-          metadata: {
-            lessonId: lesson.id,
-            oldDate: oldScheduledAt,
-            newDate: lesson.scheduledAt,
-            rescheduledBy: userId,
+      // In-app notification for each student
+      ...students.map((lessonStudent) =>
+        prisma.notification.create({
+          data: {
+            organizationId,
+            userId: lessonStudent.userId,
+            type: NotificationType.IN_APP,
+            channel: 'IN_APP',
+            subject: 'Zmiana terminu zajęć',
+            body: `Zajęcia "${lesson.title}" z ${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName} zostały przeniesione. Nowy termin: ${new Date(lesson.scheduledAt).toLocaleString('pl-PL')}`,
+            status: 'SENT',
+            metadata: {
+              lessonId: lesson.id,
+              oldDate: oldScheduledAt,
+              newDate: lesson.scheduledAt,
+              rescheduledBy: userId,
+            },
           },
-        },
-      }),
+        })
+      ),
       // Email to teacher
       emailService.sendLessonRescheduled({
         recipientEmail: lesson.teacher.user.email,
         recipientName: `${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}`,
-        otherPersonName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}`,
-        otherPersonRole: 'uczeń',
-        lessonTitle: lesson.title,
-        oldDate: oldScheduledAt,
-        newDate: lesson.scheduledAt,
-        lessonDuration: lesson.durationMinutes,
-        deliveryMode: lesson.deliveryMode || 'IN_PERSON',
-        meetingUrl: lesson.meetingUrl,
-        rescheduledBy: rescheduledByName,
-      }),
-      // Email to student
-      emailService.sendLessonRescheduled({
-        recipientEmail: lesson.student.user.email,
-        recipientName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}`,
-        otherPersonName: `${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}`,
-        otherPersonRole: 'lektor',
+        otherPersonName: formatLessonStudents(lesson),
+        otherPersonRole: lesson.isGroupLesson ? 'grupa' : 'uczeń',
         lessonTitle: lesson.title,
         oldDate: oldScheduledAt,
         newDate: lesson.scheduledAt,
@@ -1278,7 +1507,25 @@ class LessonService {
         deliveryMode: lesson.deliveryMode || 'IN_PERSON',
         meetingUrl: lesson.meetingUrl,
         rescheduledBy: rescheduledByName,
+        organizationId: lesson.organizationId,
       }),
+      // Email to each student
+      ...students.map((lessonStudent) =>
+        emailService.sendLessonRescheduled({
+          recipientEmail: lessonStudent.user.email,
+          recipientName: `${lessonStudent.user.firstName} ${lessonStudent.user.lastName}`,
+          otherPersonName: `${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}`,
+          otherPersonRole: 'lektor',
+          lessonTitle: lesson.title,
+          oldDate: oldScheduledAt,
+          newDate: lesson.scheduledAt,
+          lessonDuration: lesson.durationMinutes,
+          deliveryMode: lesson.deliveryMode || 'IN_PERSON',
+          meetingUrl: lesson.meetingUrl,
+          rescheduledBy: rescheduledByName,
+          organizationId: lesson.organizationId,
+        })
+      ),
     ]);
   }
 
@@ -1291,23 +1538,23 @@ class LessonService {
       timeStyle: 'short',
     });
 
-    // Create IN_APP notification for student
-    await prisma.notification.create({
-      data: {
+    // Create IN_APP notification for each student of the lesson
+    await prisma.notification.createMany({
+      data: getLessonStudents<any>(lesson).map((lessonStudent) => ({
         organizationId: lesson.organizationId,
-        userId: lesson.student.user.id,
+        userId: lessonStudent.user.id,
         type: NotificationType.IN_APP,
         channel: 'IN_APP',
         subject: 'Nowe zajęcia zaplanowane',
         body: `Zaplanowano nowe zajęcia "${lesson.title}" z ${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName}. Termin: ${scheduledAtFormatted}`,
-        status: 'SENT',
+        status: 'SENT' as const,
         metadata: {
           lessonId: lesson.id,
           scheduledAt: lesson.scheduledAt,
           teacherId: lesson.teacherId,
           durationMinutes: lesson.durationMinutes,
         },
-      },
+      })),
     });
   }
 
@@ -1320,26 +1567,125 @@ class LessonService {
       timeStyle: 'short',
     });
 
-    // Create IN_APP notification for student
-    await prisma.notification.create({
-      data: {
+    // Create IN_APP notification for each student of the lesson
+    await prisma.notification.createMany({
+      data: getLessonStudents<any>(lesson).map((lessonStudent) => ({
         organizationId,
-        userId: lesson.student.user.id,
+        userId: lessonStudent.user.id,
         type: NotificationType.IN_APP,
         channel: 'IN_APP',
         subject: 'Zajęcia potwierdzone',
         body: `Zajęcia "${lesson.title}" z ${lesson.teacher.user.firstName} ${lesson.teacher.user.lastName} zostały potwierdzone. Termin: ${scheduledAtFormatted}`,
-        status: 'SENT',
+        status: 'SENT' as const,
         metadata: {
           lessonId: lesson.id,
           scheduledAt: lesson.scheduledAt,
           teacherId: lesson.teacherId,
           confirmedAt: lesson.confirmedByTeacherAt,
         },
+      })),
+    });
+  }
+
+  /**
+   * Charge a completed lesson - group lessons charge every participant through their own enrollment
+   * A failed participant charge (e.g. exhausted package) is logged and doesn't block the rest of the group.
+   */
+  private async deductLessonBudgets(lesson: {
+    id: string;
+    organizationId: string;
+    title: string;
+    scheduledAt: Date;
+    durationMinutes: number;
+    enrollmentId: string | null;
+    isGroupLesson: boolean;
+    participants: { id: string; studentId: string; enrollmentId: string | null; chargeFailed: boolean }[];
+  }) {
+    if (!lesson.isGroupLesson) {
+      if (lesson.enrollmentId) {
+        await this.deductLessonFromBudget(lesson.enrollmentId, lesson.durationMinutes, lesson.id, lesson.title);
+      }
+      return;
+    }
+
+    for (const participant of lesson.participants) {
+      if (!participant.enrollmentId) continue;
+      try {
+        await this.deductLessonFromBudget(participant.enrollmentId, lesson.durationMinutes, lesson.id, lesson.title);
+        if (participant.chargeFailed) {
+          await prisma.lessonParticipant.update({ where: { id: participant.id }, data: { chargeFailed: false } });
+        }
+      } catch (error: any) {
+        console.error(`Failed to charge participant ${participant.studentId} for group lesson ${lesson.id}:`, error);
+        // Remembered so that uncompleting the lesson does not give back hours that were never charged
+        await prisma.lessonParticipant.update({ where: { id: participant.id }, data: { chargeFailed: true } });
+        // The lesson still completes for the others - staff has to settle this participant manually
+        await this.alertFailedParticipantCharge(lesson, participant, error?.message).catch((alertError) =>
+          console.error(`Failed to create charge alert for group lesson ${lesson.id}:`, alertError)
+        );
+      }
+    }
+  }
+
+  /**
+   * Alert staff about a group lesson participant whose charge failed
+   */
+  private async alertFailedParticipantCharge(
+    lesson: { id: string; organizationId: string; title: string; scheduledAt: Date },
+    participant: { studentId: string; enrollmentId: string | null },
+    reason?: string
+  ) {
+    const student = await prisma.student.findUnique({
+      where: { id: participant.studentId },
+      select: { user: { select: { firstName: true, lastName: true } } },
+    });
+    const studentName = student ? `${student.user.firstName} ${student.user.lastName}` : 'uczestnika';
+
+    await alertService.createAlert({
+      organizationId: lesson.organizationId,
+      type: AlertType.WARNING,
+      priority: AlertPriority.HIGH,
+      title: 'Nie rozliczono uczestnika lekcji grupowej',
+      message: `Nie udało się obciążyć ucznia ${studentName} za lekcję "${lesson.title}" z dnia ${lesson.scheduledAt.toLocaleDateString('pl-PL')}${reason ? ` (${reason})` : ''}. Rozlicz lekcję ręcznie.`,
+      metadata: {
+        lessonId: lesson.id,
+        studentId: participant.studentId,
+        enrollmentId: participant.enrollmentId,
       },
     });
   }
 
+  /**
+   * Reverse the charges of an uncompleted lesson (every charged participant of a group lesson)
+   */
+  private async restoreLessonBudgets(lesson: {
+    id: string;
+    title: string;
+    durationMinutes: number;
+    enrollmentId: string | null;
+    isGroupLesson: boolean;
+    participants: { studentId: string; enrollmentId: string | null; chargeFailed: boolean }[];
+  }) {
+    const enrollmentIds = lesson.isGroupLesson
+      ? lesson.participants
+          .filter((participant) => !participant.chargeFailed)
+          .map((participant) => participant.enrollmentId)
+      : [lesson.enrollmentId];
+
+    for (const enrollmentId of enrollmentIds) {
+      if (enrollmentId) {
+        await this.restoreLessonBudget(enrollmentId, lesson.durationMinutes, lesson.id, lesson.title);
+      }
+    }
+
+    if (lesson.isGroupLesson && lesson.participants.some((participant) => participant.chargeFailed)) {
+      await prisma.lessonParticipant.updateMany({
+        where: { lessonId: lesson.id, chargeFailed: true },
+        data: { chargeFailed: false },
+      });
+    }
+  }
+
   /**
    * Restore budget when uncompleting a lesson (reverting from COMPLETED status)
    */
@@ -1371,7 +1717,7 @@ class LessonService {
       return;
     }
 
-    // Use transaction for PACKAGE and PER_LESSON modes
+    // Use transaction for PACKAGE, PER_LESSON and SUBSCRIPTION modes
     await prisma.$transaction(async (tx) => {
       if (enrollment.paymentMode === 'PACKAGE') {
         // PACKAGE mode: Restore hoursUsed
@@ -1389,6 +1735,7 @@ class LessonService {
           const payment = await tx.payment.findFirst({
             where: {
               lessonId,
+              studentId: enrollment.studentId, // Group lessons have one payment per participant
               status: 'PENDING', // Only delete if still pending
             },
           });
@@ -1400,6 +1747,9 @@ class LessonService {
           }
           // If payment was already COMPLETED, we don't delete it - that's a financial record
         }
+      } else if (enrollment.paymentMode === 'SUBSCRIPTION') {
+        // SUBSCRIPTION mode: Give the lesson back to the monthly allowance
+        await subscriptionService.releaseLessonUsage(enrollmentId, tx);
       }
     });
   }
@@ -1454,12 +1804,26 @@ class LessonService {
       return;
     }
 
-    // Use transaction for PACKAGE and PER_LESSON modes
+    // Use transaction for PACKAGE, PER_LESSON and SUBSCRIPTION modes
     return await prisma.$transaction(async (tx) => {
       // Handle based on payment mode
       if (enrollment.paymentMode === 'PACKAGE') {
-        // PACKAGE mode: Check and deduct from hoursPurchased/hoursUsed
-        const remainingHours = parseFloat(enrollment.hoursPurchased.toString()) - parseFloat(enrollment.hoursUsed.toString());
+        // Package hours cannot be used for lessons held after the package expired
+        if (enrollment.packageId && enrollment.expiresAt) {
+          const lesson = lessonId
+            ? await tx.lesson.findUnique({ where: { id: lessonId }, select: { scheduledAt: true } })
+            : null;
+          const lessonDate = lesson?.scheduledAt || new Date();
+          if (enrollment.expiresAt < lessonDate) {
+            throw new Error(`Pakiet godzin wygasł ${enrollment.expiresAt.toLocaleDateString('pl-PL')}. Przypisz uczniowi nowy pakiet, aby rozliczyć lekcję.`);
+          }
+        }
+
+        // PACKAGE mode: Check and deduct from hoursPurchased/hoursUsed (expired hours are forfeited)
+        const remainingHours =
+          parseFloat(enrollment.hoursPurchased.toString()) -
+          parseFloat(enrollment.hoursUsed.toString()) -
+          parseFloat(enrollment.hoursExpired.toString());
         if (remainingHours < hoursToDeduct) {
           throw new Error(`Insufficient budget. Remaining hours: ${remainingHours.toFixed(2)}, Required: ${hoursToDeduct.toFixed(2)}`);
         }
@@ -1480,6 +1844,7 @@ class LessonService {
           const existingPayment = await tx.payment.findFirst({
             where: {
               lessonId,
+              studentId: enrollment.studentId, // Group lessons have one payment per participant
               status: { in: ['COMPLETED', 'PENDING'] },
             },
           });
@@ -1543,6 +1908,9 @@ class LessonService {
             });
           }
         }
+      } else if (enrollment.paymentMode === 'SUBSCRIPTION') {
+        // SUBSCRIPTION mode: Count the lesson against the monthly allowance (over-limit lessons are flagged, not blocked)
+        await subscriptionService.registerLessonUsage(enrollmentId, tx);
       }
     });
   }
@@ -1623,6 +1991,7 @@ class LessonService {
         confirmedByTeacherAt: new Date(),
       },
       include: {
+        participants: participantsWithUserInclude,
         teacher: {
           include: {
             user: {
@@ -1704,11 +2073,11 @@ class LessonService {
     };
   }
 
-  // Check for scheduling conflicts
+  // Check for scheduling conflicts (student conflicts are skipped when no student is given)
   async checkConflicts(
     organizationId: string,
     teacherId: string,
-    studentId: string,
+    studentId: string | null,
     scheduledAt: Date,
     durationMinutes: number,
     excludeLessonId?: string
@@ -1742,6 +2111,7 @@ class LessonService {
         title: true,
         scheduledAt: true,
         durationMinutes: true,
+        isGroupLesson: true,
         student: {
           select: {
             user: {
@@ -1752,6 +2122,20 @@ class LessonService {
             },
           },
         },
+        participants: {
+          select: {
+            student: {
+              select: {
+                user: {
+                  select: {
+                    firstName: true,
+                    lastName: true,
+                  },
+                },
+              },
+            },
+          },
+        },
       },
     });
 
@@ -1762,11 +2146,11 @@ class LessonService {
       return existingStart < lessonEnd && existingEnd > lessonStart;
     });
 
-    // Check student conflicts
-    const studentConflicts = await prisma.lesson.findMany({
+    // Check student conflicts (including group lessons the student takes part in)
+    const studentConflicts = !studentId ? [] : await prisma.lesson.findMany({
       where: {
         ...baseWhere,
-        studentId,
+        ...studentLessonFilter(studentId),
       },
       select: {
         id: true,
@@ -1793,14 +2177,19 @@ class LessonService {
       return existingStart < lessonEnd && existingEnd > lessonStart;
     });
 
+    // Working hours and vacations are reported as warnings - they do not block scheduling
+    const availabilityWarnings = await teacherAvailabilityService.checkAvailability(teacherId, lessonStart, durationMinutes);
+
     return {
       hasConflicts: teacherOverlaps.length > 0 || studentOverlaps.length > 0,
+      isOutsideAvailability: availabilityWarnings.length > 0,
+      availabilityWarnings,
       teacherConflicts: teacherOverlaps.map((lesson) => ({
         id: lesson.id,
         title: lesson.title,
         scheduledAt: lesson.scheduledAt,
         durationMinutes: lesson.durationMinutes,
-        studentName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}`,
+        studentName: formatLessonStudents(lesson),
       })),
       studentConflicts: studentOverlaps.map((lesson) => ({
         id: lesson.id,
@@ -1830,6 +2219,7 @@ class LessonService {
       deliveryMode: LessonDeliveryMode;
       meetingUrl?: string;
       status: LessonStatus;
+      participantStudentIds?: string[]; // Group lesson participants - defaults to active enrollments of a GROUP course
     },
     pattern: {
       frequency: RecurringFrequency;
@@ -1903,20 +2293,47 @@ class LessonService {
         lessonData.durationMinutes
       );
 
-      if (!conflicts.hasConflicts) {
-        lessonDates.push(new Date(currentDate));
-        count++;
-      } else {
+      if (conflicts.hasConflicts) {
         errors.push({
           date: currentDate.toISOString(),
           error: 'Scheduling conflict',
         });
+      } else if (conflicts.isOutsideAvailability) {
+        // Skip occurrences outside the teacher's working hours or during vacation
+        errors.push({
+          date: currentDate.toISOString(),
+          error: conflicts.availabilityWarnings.join('; '),
+        });
+      } else {
+        lessonDates.push(new Date(currentDate));
+        count++;
       }
 
       // Move to next occurrence
       currentDate = this.getNextDate(currentDate, pattern.frequency, pattern.interval || 1, originalDayOfMonth);
     }
 
+    // Recurring lessons of a GROUP course become group lessons shared by the course participants
+    const recurringCourseId = lessonData.courseId && lessonData.courseId.trim() !== '' ? lessonData.courseId : undefined;
+    const groupCourse = recurringCourseId
+      ? await prisma.course.findFirst({
+          where: { id: recurringCourseId, organizationId, courseType: 'GROUP' },
+          select: { id: true },
+        })
+      : null;
+    const participants = groupCourse
+      ? await this.resolveGroupParticipants(
+          organizationId,
+          groupCourse.id,
+          {
+            studentId: lessonData.studentId,
+            enrollmentId: lessonData.enrollmentId && lessonData.enrollmentId.trim() !== '' ? lessonData.enrollmentId : undefined,
+          },
+          lessonData.participantStudentIds
+        )
+      : [];
+    const primaryEnrollmentId = participants.find((participant) => participant.studentId === lessonData.studentId)?.enrollmentId;
+
     // Use transaction to ensure atomicity - either all lessons are created or none
     const result = await prisma.$transaction(async (tx) => {
       // Create the recurring pattern
@@ -1937,8 +2354,9 @@ class LessonService {
       const createdLessons = [];
 
       // Sanitize lessonData - remove empty string values for optional foreign keys
+      const { participantStudentIds: _participantStudentIds, ...recurringLessonData } = lessonData;
       const sanitizedLessonData = {
-        ...lessonData,
+        ...recurringLessonData,
         enrollmentId: lessonData.enrollmentId && lessonData.enrollmentId.trim() !== '' ? lessonData.enrollmentId : undefined,
         courseId: lessonData.courseId && lessonData.courseId.trim() !== '' ? lessonData.courseId : undefined,
         locationId: lessonData.locationId && lessonData.locationId.trim() !== '' ? lessonData.locationId : undefined,
@@ -1951,6 +2369,11 @@ class LessonService {
           data: {
             organizationId,
             ...sanitizedLessonData,
+            ...(groupCourse && {
+              enrollmentId: primaryEnrollmentId,
+              isGroupLesson: true,
+              participants: { create: participants },
+            }),
             scheduledAt: lessonDate,
             isRecurring: true,
             recurringPatternId: recurringPattern.id,
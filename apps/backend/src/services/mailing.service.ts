@@ -1,6 +1,7 @@
 import prisma from '../utils/prisma';
 import emailService, { EmailAttachment } from './email.service';
-import { PaymentStatus } from '@prisma/client';
+import { uploadFile, deleteFile, downloadFile } from '../utils/supabase';
+import { NotificationStatus, PaymentStatus, Prisma } from '@prisma/client';
 
 export interface AttachmentData {
   filename: string;
@@ -10,17 +11,61 @@ export interface AttachmentData {
 
 export type MailType = 'custom' | 'welcome' | 'reminder' | 'payment' | 'teacher-rating' | 'survey' | 'complaint';
 
-interface SendBulkEmailData {
-  subject: string;
-  message: string;
-  mailType: MailType;
-  recipients: 'all' | 'selected' | 'debtors' | 'course' | 'lesson';
+export type MailingRecipients = 'all' | 'selected' | 'debtors' | 'course' | 'lesson';
+
+interface MailingRecipientsFilter {
+  recipients: MailingRecipients;
   selectedStudentIds?: string[];
   courseId?: string;
   lessonId?: string;
+}
+
+interface SendBulkEmailData extends MailingRecipientsFilter {
+  subject: string;
+  message: string;
+  mailType: MailType;
   organizationId: string;
   attachments?: AttachmentData[];
   scheduledAt?: Date; // null = immediate
+  createdById?: string;
+}
+
+export interface UpdateScheduledMailingData {
+  subject?: string;
+  message?: string;
+  mailType?: MailType;
+  scheduledAt?: Date;
+}
+
+// Attachment uploaded to storage until the scheduled mailing is sent
+interface StoredAttachment {
+  filename: string;
+  contentType: string;
+  path: string;
+  url: string;
+}
+
+interface MailingRecipientResult {
+  studentId: string;
+  email: string;
+  status: 'SENT' | 'FAILED';
+  error?: string;
+}
+
+// Shape of Notification.metadata for scheduled mailings
+interface ScheduledMailingMetadata extends MailingRecipientsFilter {
+  mailType: MailType;
+  scheduledAt: string;
+  attachments?: StoredAttachment[];
+  delivery?: {
+    startedAt: string;
+    completedAt: string;
+    totalRecipients: number;
+    totalSent: number;
+    totalFailed: number;
+    error?: string;
+    results: MailingRecipientResult[];
+  };
 }
 
 class MailingService {
@@ -138,55 +183,12 @@ class MailingService {
     `;
   }
 
-  async sendBulkEmail(data: SendBulkEmailData) {
-    const { subject, message, mailType, recipients, selectedStudentIds, courseId, lessonId, organizationId, attachments, scheduledAt } = data;
-
-    // If scheduled for the future, save and return
-    if (scheduledAt && scheduledAt > new Date()) {
-      const scheduled = await prisma.notification.create({
-        data: {
-          organizationId,
-          userId: (await prisma.user.findFirst({ where: { organizationId, role: 'ADMIN' }, select: { id: true } }))?.id || '',
-          type: 'EMAIL',
-          channel: 'EMAIL',
-          subject,
-          body: message,
-          status: 'PENDING',
-          sentAt: null,
-          metadata: {
-            mailType,
-            recipients,
-            selectedStudentIds,
-            courseId,
-            lessonId,
-            scheduledAt: scheduledAt.toISOString(),
-            attachments: attachments?.map(a => ({ filename: a.filename, contentType: a.contentType })),
-          },
-        },
-      });
-
-      return {
-        totalSent: 0,
-        totalFailed: 0,
-        totalRecipients: 0,
-        failedEmails: [],
-        failedDetails: [],
-        attachmentsIncluded: attachments ? attachments.length : 0,
-        attachmentFailures: 0,
-        scheduled: true,
-        scheduledAt: scheduledAt.toISOString(),
-        scheduledId: scheduled.id,
-      };
-    }
-
-    // Convert attachments to EmailAttachment format
-    const emailAttachments: EmailAttachment[] | undefined = attachments?.map(att => ({
-      filename: att.filename,
-      content: att.content,
-      contentType: att.contentType,
-    }));
+  /**
+   * Resolve recipient students for a mailing ('all' | 'debtors' | 'course' | 'lesson' | 'selected')
+   */
+  private async resolveRecipients(organizationId: string, filter: MailingRecipientsFilter) {
+    const { recipients, selectedStudentIds, courseId, lessonId } = filter;
 
-    // Get students based on recipients type
     let students;
     if (recipients === 'all') {
       students = await prisma.student.findMany({
@@ -274,8 +276,14 @@ class MailingService {
       throw new Error('No students found to send email to');
     }
 
-    // Fetch context info for course/lesson
-    let context: { courseName?: string; lessonTitle?: string; teacherName?: string } = {};
+    return students;
+  }
+
+  /**
+   * Fetch course/lesson context shown in the email header
+   */
+  private async getMailContext(courseId?: string, lessonId?: string) {
+    const context: { courseName?: string; lessonTitle?: string; teacherName?: string } = {};
     if (courseId) {
       const course = await prisma.course.findUnique({
         where: { id: courseId },
@@ -302,6 +310,21 @@ class MailingService {
         }
       }
     }
+    return context;
+  }
+
+  /**
+   * Resolve recipients and send the mailing, returning totals and per-recipient results
+   */
+  private async deliver(
+    organizationId: string,
+    content: { subject: string; message: string; mailType: MailType },
+    filter: MailingRecipientsFilter,
+    emailAttachments?: EmailAttachment[]
+  ) {
+    const { subject, message, mailType } = content;
+    const students = await this.resolveRecipients(organizationId, filter);
+    const context = await this.getMailContext(filter.courseId, filter.lessonId);
 
     // Build attachments info for email body
     const attachmentsInfoHtml = emailAttachments && emailAttachments.length > 0
@@ -328,6 +351,13 @@ class MailingService {
 
     const results = await Promise.all(emailPromises);
 
+    const recipientResults: MailingRecipientResult[] = students.map((student, index) => {
+      const result: any = results[index];
+      return result?.success === false
+        ? { studentId: student.id, email: student.user.email, status: 'FAILED', error: result.error || 'Unknown error' }
+        : { studentId: student.id, email: student.user.email, status: 'SENT' };
+    });
+
     // Count successful, failed emails, and attachment failures
     const failedEmails = results.filter((r: any) => r?.success === false);
     const attachmentFailures = results.filter((r: any) => r?.attachmentsFailed === true);
@@ -349,8 +379,335 @@ class MailingService {
       failedDetails: failedEmails.map((r: any) => ({ email: r.email, error: r.error })),
       attachmentsIncluded: emailAttachments ? emailAttachments.length : 0,
       attachmentFailures: attachmentFailures.length,
+      results: recipientResults,
     };
   }
+
+  async sendBulkEmail(data: SendBulkEmailData) {
+    const { subject, message, mailType, recipients, selectedStudentIds, courseId, lessonId, organizationId, attachments, scheduledAt, createdById } = data;
+
+    // If scheduled for the future, save and return
+    if (scheduledAt && scheduledAt > new Date()) {
+      // Upload attachments now - the dispatcher needs their content at send time
+      const storedAttachments: StoredAttachment[] = [];
+      try {
+        for (const att of attachments || []) {
+          const contentType = att.contentType || 'application/octet-stream';
+          const { path, publicUrl } = await uploadFile(
+            Buffer.from(att.content, 'base64'),
+            `mailings-${att.filename}`,
+            organizationId,
+            contentType
+          );
+          storedAttachments.push({ filename: att.filename, contentType, path, url: publicUrl });
+        }
+      } catch (error) {
+        await this.deleteStoredAttachments(storedAttachments);
+        throw error;
+      }
+
+      const metadata: ScheduledMailingMetadata = {
+        mailType,
+        recipients,
+        selectedStudentIds,
+        courseId,
+        lessonId,
+        scheduledAt: scheduledAt.toISOString(),
+        attachments: storedAttachments,
+      };
+
+      const scheduled = await prisma.notification.create({
+        data: {
+          organizationId,
+          userId: createdById || (await prisma.user.findFirst({ where: { organizationId, role: 'ADMIN' }, select: { id: true } }))?.id || '',
+          type: 'EMAIL',
+          channel: 'EMAIL',
+          subject,
+          body: message,
+          status: 'PENDING',
+          sentAt: null,
+          metadata: metadata as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      return {
+        totalSent: 0,
+        totalFailed: 0,
+        totalRecipients: 0,
+        failedEmails: [],
+        failedDetails: [],
+        attachmentsIncluded: storedAttachments.length,
+        attachmentFailures: 0,
+        scheduled: true,
+        scheduledAt: scheduledAt.toISOString(),
+        scheduledId: scheduled.id,
+      };
+    }
+
+    // Convert attachments to EmailAttachment format
+    const emailAttachments: EmailAttachment[] | undefined = attachments?.map(att => ({
+      filename: att.filename,
+      content: att.content,
+      contentType: att.contentType,
+    }));
+
+    const { results: _results, ...summary } = await this.deliver(
+      organizationId,
+      { subject, message, mailType },
+      { recipients, selectedStudentIds, courseId, lessonId },
+      emailAttachments
+    );
+
+    return summary;
+  }
+
+  /**
+   * Get scheduled mailings (pending first, then recent history)
+   */
+  async getScheduledMailings(organizationId: string) {
+    const mailings = await prisma.notification.findMany({
+      where: {
+        organizationId,
+        type: 'EMAIL',
+        channel: 'EMAIL',
+      },
+      include: {
+        user: { select: { firstName: true, lastName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    return mailings
+      .filter((mailing) => (mailing.metadata as ScheduledMailingMetadata | null)?.scheduledAt)
+      .map((mailing) => {
+        const metadata = mailing.metadata as unknown as ScheduledMailingMetadata;
+        return {
+          id: mailing.id,
+          subject: mailing.subject,
+          message: mailing.body,
+          status: mailing.status,
+          isSending: mailing.status === NotificationStatus.PENDING && !!mailing.sentAt,
+          sentAt: mailing.sentAt,
+          createdAt: mailing.createdAt,
+          createdBy: mailing.user,
+          mailType: metadata.mailType,
+          recipients: metadata.recipients,
+          selectedStudentIds: metadata.selectedStudentIds,
+          courseId: metadata.courseId,
+          lessonId: metadata.lessonId,
+          scheduledAt: metadata.scheduledAt,
+          attachments: (metadata.attachments || []).map((a) => ({ filename: a.filename, contentType: a.contentType })),
+          delivery: metadata.delivery,
+        };
+      })
+      .sort((a, b) => {
+        const aPending = a.status === NotificationStatus.PENDING ? 0 : 1;
+        const bPending = b.status === NotificationStatus.PENDING ? 0 : 1;
+        if (aPending !== bPending) return aPending - bPending;
+        return aPending === 0
+          ? new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime()
+          : new Date(b.scheduledAt).getTime() - new Date(a.scheduledAt).getTime();
+      });
+  }
+
+  /**
+   * Edit subject, message or send date of a mailing that has not been dispatched yet
+   */
+  async updateScheduledMailing(id: string, organizationId: string, data: UpdateScheduledMailingData) {
+    const mailing = await this.getEditableMailing(id, organizationId);
+    const metadata = mailing.metadata as unknown as ScheduledMailingMetadata;
+
+    if (data.scheduledAt && data.scheduledAt <= new Date()) {
+      throw new Error('Data wysyłki musi być w przyszłości');
+    }
+
+    const updated = await prisma.notification.updateMany({
+      where: { id, status: NotificationStatus.PENDING, sentAt: null },
+      data: {
+        ...(data.subject !== undefined && { subject: data.subject }),
+        ...(data.message !== undefined && { body: data.message }),
+        ...(data.mailType !== undefined || data.scheduledAt !== undefined
+          ? {
+              metadata: {
+                ...metadata,
+                ...(data.mailType !== undefined && { mailType: data.mailType }),
+                ...(data.scheduledAt !== undefined && { scheduledAt: data.scheduledAt.toISOString() }),
+              } as unknown as Prisma.InputJsonValue,
+            }
+          : {}),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new Error('Ta wysyłka jest już w trakcie realizacji i nie można jej zmienić');
+    }
+
+    return { id };
+  }
+
+  /**
+   * Cancel a mailing that has not been dispatched yet
+   */
+  async cancelScheduledMailing(id: string, organizationId: string) {
+    const mailing = await this.getEditableMailing(id, organizationId);
+    const metadata = mailing.metadata as unknown as ScheduledMailingMetadata;
+
+    const cancelled = await prisma.notification.updateMany({
+      where: { id, status: NotificationStatus.PENDING, sentAt: null },
+      data: { status: NotificationStatus.CANCELLED },
+    });
+
+    if (cancelled.count === 0) {
+      throw new Error('Ta wysyłka jest już w trakcie realizacji i nie można jej anulować');
+    }
+
+    await this.deleteStoredAttachments(metadata.attachments || []);
+
+    return { message: 'Zaplanowana wysyłka została anulowana' };
+  }
+
+  /**
+   * Send scheduled mailings that are due (called by the scheduler)
+   * Each mailing is claimed by setting sentAt, so overlapping runs never send it twice.
+   */
+  async dispatchScheduledMailings(referenceDate: Date = new Date()) {
+    const pending = await prisma.notification.findMany({
+      where: {
+        type: 'EMAIL',
+        channel: 'EMAIL',
+        status: NotificationStatus.PENDING,
+        sentAt: null,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const due = pending.filter((mailing) => {
+      const scheduledAt = (mailing.metadata as ScheduledMailingMetadata | null)?.scheduledAt;
+      return !!scheduledAt && new Date(scheduledAt) <= referenceDate;
+    });
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const mailing of due) {
+      const claimed = await prisma.notification.updateMany({
+        where: { id: mailing.id, status: NotificationStatus.PENDING, sentAt: null },
+        data: { sentAt: new Date() },
+      });
+
+      if (claimed.count === 0) continue;
+
+      const metadata = mailing.metadata as unknown as ScheduledMailingMetadata;
+      const startedAt = new Date();
+
+      try {
+        const emailAttachments = await this.loadStoredAttachments(metadata.attachments || []);
+        const result = await this.deliver(
+          mailing.organizationId,
+          { subject: mailing.subject || '', message: mailing.body, mailType: metadata.mailType },
+          metadata,
+          emailAttachments
+        );
+        const success = result.totalSent > 0;
+
+        await prisma.notification.update({
+          where: { id: mailing.id },
+          data: {
+            status: success ? NotificationStatus.SENT : NotificationStatus.FAILED,
+            sentAt: new Date(),
+            metadata: {
+              ...metadata,
+              delivery: {
+                startedAt: startedAt.toISOString(),
+                completedAt: new Date().toISOString(),
+                totalRecipients: result.totalRecipients,
+                totalSent: result.totalSent,
+                totalFailed: result.totalFailed,
+                results: result.results,
+              },
+            } as unknown as Prisma.InputJsonValue,
+          },
+        });
+
+        if (success) {
+          sent++;
+          await this.deleteStoredAttachments(metadata.attachments || []);
+        } else {
+          failed++;
+        }
+      } catch (error: any) {
+        console.error(`Failed to dispatch scheduled mailing ${mailing.id}:`, error);
+        failed++;
+
+        await prisma.notification.update({
+          where: { id: mailing.id },
+          data: {
+            status: NotificationStatus.FAILED,
+            sentAt: new Date(),
+            metadata: {
+              ...metadata,
+              delivery: {
+                startedAt: startedAt.toISOString(),
+                completedAt: new Date().toISOString(),
+                totalRecipients: 0,
+                totalSent: 0,
+                totalFailed: 0,
+                error: error?.message || 'Unknown error',
+                results: [],
+              },
+            } as unknown as Prisma.InputJsonValue,
+          },
+        });
+      }
+    }
+
+    return { processed: due.length, sent, failed };
+  }
+
+  private async getEditableMailing(id: string, organizationId: string) {
+    const mailing = await prisma.notification.findFirst({
+      where: { id, organizationId, type: 'EMAIL', channel: 'EMAIL' },
+    });
+
+    if (!mailing || !(mailing.metadata as ScheduledMailingMetadata | null)?.scheduledAt) {
+      throw new Error('Scheduled mailing not found');
+    }
+
+    if (mailing.status !== NotificationStatus.PENDING || mailing.sentAt) {
+      throw new Error('Ta wysyłka została już zrealizowana lub anulowana');
+    }
+
+    return mailing;
+  }
+
+  /**
+   * Download stored attachments for sending
+   */
+  private async loadStoredAttachments(attachments: StoredAttachment[]): Promise<EmailAttachment[] | undefined> {
+    if (attachments.length === 0) return undefined;
+
+    return Promise.all(
+      attachments.map(async (att) => {
+        try {
+          const content = await downloadFile(att.path);
+          return { filename: att.filename, content, contentType: att.contentType };
+        } catch (error) {
+          console.error(`Could not download mailing attachment ${att.path}:`, error);
+          throw new Error(`Nie udało się pobrać załącznika: ${att.filename}`);
+        }
+      })
+    );
+  }
+
+  private async deleteStoredAttachments(attachments: StoredAttachment[]) {
+    for (const att of attachments) {
+      if (!att.path) continue;
+      await deleteFile(att.path).catch((error) =>
+        console.error('Failed to delete mailing attachment:', error)
+      );
+    }
+  }
 }
 
 export default new MailingService();
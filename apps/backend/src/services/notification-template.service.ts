@@ -0,0 +1,200 @@
+import prisma from '../utils/prisma';
+import emailService from './email.service';
+import {
+  EMAIL_TRIGGER_EVENTS,
+  EmailTriggerEvent,
+  findUnknownPlaceholders,
+  getSampleVariables,
+  getTriggerPlaceholders,
+  isEmailTriggerEvent,
+  renderEmailTemplate,
+} from '../utils/email-templates';
+
+export interface CreateNotificationTemplateData {
+  organizationId: string;
+  name: string;
+  triggerEvent: EmailTriggerEvent;
+  subjectTemplate: string;
+  bodyTemplate: string;
+  isActive?: boolean;
+}
+
+export interface UpdateNotificationTemplateData {
+  name?: string;
+  subjectTemplate?: string;
+  bodyTemplate?: string;
+  isActive?: boolean;
+}
+
+export interface TemplateDraft {
+  triggerEvent: EmailTriggerEvent;
+  subjectTemplate: string;
+  bodyTemplate: string;
+}
+
+class NotificationTemplateService {
+  /**
+   * List trigger events with their placeholders and starter content
+   */
+  getTriggerEvents() {
+    return (Object.keys(EMAIL_TRIGGER_EVENTS) as EmailTriggerEvent[]).map((key) => {
+      const definition = EMAIL_TRIGGER_EVENTS[key];
+      return {
+        key,
+        label: definition.label,
+        description: definition.description,
+        placeholders: getTriggerPlaceholders(key),
+        defaultSubject: definition.defaultSubject,
+        defaultBody: definition.defaultBody,
+      };
+    });
+  }
+
+  /**
+   * Get organization email templates
+   */
+  async getTemplates(organizationId: string) {
+    return prisma.notificationTemplate.findMany({
+      where: { organizationId, channels: { has: 'EMAIL' } },
+      orderBy: [{ triggerEvent: 'asc' }, { updatedAt: 'desc' }],
+    });
+  }
+
+  /**
+   * Get template by ID
+   */
+  async getTemplateById(id: string, organizationId: string) {
+    const template = await prisma.notificationTemplate.findFirst({
+      where: { id, organizationId },
+    });
+
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    return template;
+  }
+
+  /**
+   * Create template
+   * Only one template per trigger event is active - activating one deactivates the others.
+   */
+  async createTemplate(data: CreateNotificationTemplateData) {
+    this.validatePlaceholders(data);
+    const isActive = data.isActive ?? true;
+
+    return prisma.$transaction(async (tx) => {
+      if (isActive) {
+        await tx.notificationTemplate.updateMany({
+          where: { organizationId: data.organizationId, triggerEvent: data.triggerEvent, isActive: true },
+          data: { isActive: false },
+        });
+      }
+
+      return tx.notificationTemplate.create({
+        data: {
+          organizationId: data.organizationId,
+          name: data.name,
+          triggerEvent: data.triggerEvent,
+          subjectTemplate: data.subjectTemplate,
+          bodyTemplate: data.bodyTemplate,
+          channels: ['EMAIL'],
+          isActive,
+        },
+      });
+    });
+  }
+
+  /**
+   * Update template
+   */
+  async updateTemplate(id: string, organizationId: string, data: UpdateNotificationTemplateData) {
+    const existing = await this.getTemplateById(id, organizationId);
+
+    if (!isEmailTriggerEvent(existing.triggerEvent)) {
+      throw new Error('Nieobsługiwane zdarzenie szablonu');
+    }
+
+    this.validatePlaceholders({
+      triggerEvent: existing.triggerEvent,
+      subjectTemplate: data.subjectTemplate ?? existing.subjectTemplate,
+      bodyTemplate: data.bodyTemplate ?? existing.bodyTemplate,
+    });
+
+    return prisma.$transaction(async (tx) => {
+      if (data.isActive && !existing.isActive) {
+        await tx.notificationTemplate.updateMany({
+          where: { organizationId, triggerEvent: existing.triggerEvent, isActive: true },
+          data: { isActive: false },
+        });
+      }
+
+      return tx.notificationTemplate.update({
+        where: { id },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.subjectTemplate !== undefined && { subjectTemplate: data.subjectTemplate }),
+          ...(data.bodyTemplate !== undefined && { bodyTemplate: data.bodyTemplate }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+        },
+      });
+    });
+  }
+
+  /**
+   * Delete template (emails fall back to the built-in content)
+   */
+  async deleteTemplate(id: string, organizationId: string) {
+    await this.getTemplateById(id, organizationId);
+    await prisma.notificationTemplate.delete({ where: { id } });
+    return { message: 'Szablon został usunięty. Wiadomości będą wysyłane w domyślnej treści.' };
+  }
+
+  /**
+   * Render a draft with sample data (live preview in the editor)
+   */
+  async previewTemplate(organizationId: string, draft: TemplateDraft) {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { name: true },
+    });
+
+    const rendered = renderEmailTemplate(draft, {
+      ...getSampleVariables(draft.triggerEvent),
+      ...(organization && { organizationName: organization.name }),
+    });
+
+    return {
+      ...rendered,
+      unknownPlaceholders: findUnknownPlaceholders(`${draft.subjectTemplate}\n${draft.bodyTemplate}`, draft.triggerEvent),
+    };
+  }
+
+  /**
+   * Send a draft rendered with sample data to the given address
+   */
+  async sendTestEmail(organizationId: string, draft: TemplateDraft, to: string) {
+    const preview = await this.previewTemplate(organizationId, draft);
+
+    const result = await emailService.sendEmail({
+      to,
+      subject: `[TEST] ${preview.subject}`,
+      html: preview.html,
+    });
+
+    if (!result.success) {
+      throw new Error(`Nie udało się wysłać wiadomości testowej: ${result.error || 'nieznany błąd'}`);
+    }
+
+    return { message: `Wiadomość testowa została wysłana na ${to}` };
+  }
+
+  private validatePlaceholders(draft: TemplateDraft) {
+    const unknown = findUnknownPlaceholders(`${draft.subjectTemplate}\n${draft.bodyTemplate}`, draft.triggerEvent);
+    if (unknown.length > 0) {
+      throw new Error(`Nieznane zmienne w szablonie: ${unknown.map((key) => `{{${key}}}`).join(', ')}`);
+    }
+  }
+}
+
+export default new NotificationTemplateService();
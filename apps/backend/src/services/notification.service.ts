@@ -250,6 +250,7 @@ class NotificationService {
           lessonDuration: lesson.durationMinutes,
           deliveryMode: lesson.deliveryMode,
           meetingUrl: lesson.meetingUrl || undefined,
+          organizationId: lesson.organizationId,
         });
 
         // Create in-app notifications
@@ -409,6 +410,7 @@ class NotificationService {
                   lessonDuration: lesson.durationMinutes,
                   deliveryMode: lesson.deliveryMode,
                   meetingUrl: lesson.meetingUrl || undefined,
+                  organizationId: org.id,
                 });
               }
             }
@@ -487,7 +489,8 @@ class NotificationService {
     const lowBudgetEnrollments = enrollments.filter((enrollment) => {
       const hoursPurchased = parseFloat(enrollment.hoursPurchased.toString());
       const hoursUsed = parseFloat(enrollment.hoursUsed.toString());
-      const hoursRemaining = hoursPurchased - hoursUsed;
+      const hoursExpired = parseFloat(enrollment.hoursExpired.toString());
+      const hoursRemaining = hoursPurchased - hoursUsed - hoursExpired;
       return hoursRemaining <= 2 && hoursRemaining > 0;
     });
 
@@ -497,7 +500,10 @@ class NotificationService {
 
     for (const enrollment of lowBudgetEnrollments) {
       try {
-        const hoursRemaining = parseFloat(enrollment.hoursPurchased.toString()) - parseFloat(enrollment.hoursUsed.toString());
+        const hoursRemaining =
+          parseFloat(enrollment.hoursPurchased.toString()) -
+          parseFloat(enrollment.hoursUsed.toString()) -
+          parseFloat(enrollment.hoursExpired.toString());
 
         // Send email alert
         const emailResult = await emailService.sendLowBudgetAlert({
@@ -506,6 +512,7 @@ class NotificationService {
           courseName: enrollment.course?.name || 'N/A',
           hoursRemaining,
           managerEmail,
+          organizationId,
         });
 
         // Create in-app notification
@@ -1,4 +1,6 @@
 import prisma from '../utils/prisma';
+import sessionService, { SessionMeta } from './session.service';
+import { isValidIban, normalizeBankAccount } from '../utils/bank-account';
 
 export interface UpdateOrganizationData {
   name?: string;
@@ -9,6 +11,7 @@ export interface UpdateOrganizationData {
   email?: string;
   website?: string;
   taxId?: string;
+  bankAccountNumber?: string | null;
   description?: string;
   logoUrl?: string;
   primaryColor?: string;
@@ -128,6 +131,17 @@ class OrganizationService {
       throw new Error('You do not have permission to update this organization');
     }
 
+    // Debit account for payout transfer files - stored as IBAN
+    if (data.bankAccountNumber !== undefined) {
+      const bankAccountNumber = data.bankAccountNumber?.trim() ? normalizeBankAccount(data.bankAccountNumber) : null;
+      if (bankAccountNumber && !isValidIban(bankAccountNumber)) {
+        const error: any = new Error('Pole "Numer konta" musi zawierać poprawny numer NRB lub IBAN');
+        error.statusCode = 400;
+        throw error;
+      }
+      data = { ...data, bankAccountNumber };
+    }
+
     const organization = await prisma.organization.update({
       where: { id },
       data,
@@ -184,7 +198,7 @@ class OrganizationService {
     return organization;
   }
 
-  async switchOrganization(userId: string, organizationId: string) {
+  async switchOrganization(userId: string, organizationId: string, meta: SessionMeta = {}) {
     // Verify user has access to this organization
     const userOrg = await prisma.userOrganization.findFirst({
       where: {
@@ -220,12 +234,19 @@ class OrganizationService {
     });
 
     // Also update user's primary organizationId
-    await prisma.user.update({
+    const user = await prisma.user.update({
       where: { id: userId },
       data: { organizationId },
     });
 
-    return userOrg;
+    // Existing tokens still point at the previous organization - end all sessions and start a fresh one here
+    await sessionService.revokeAllSessions(userId, 'ORGANIZATION_SWITCH');
+    const tokens = await sessionService.createSession(
+      { id: user.id, email: user.email, role: user.role, organizationId },
+      meta,
+    );
+
+    return { ...userOrg, ...tokens };
   }
 
   async addUserToOrganization(
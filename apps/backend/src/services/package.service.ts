@@ -0,0 +1,353 @@
+import prisma from '../utils/prisma';
+import { PaymentMethod, AlertType, AlertPriority } from '@prisma/client';
+import { addDays } from 'date-fns';
+
+export interface CreatePackageData {
+  organizationId: string;
+  name: string;
+  description?: string;
+  totalHours: number;
+  price: number;
+  currency?: string;
+  validityDays: number;
+  isActive?: boolean;
+}
+
+export interface UpdatePackageData {
+  name?: string;
+  description?: string;
+  totalHours?: number;
+  price?: number;
+  currency?: string;
+  validityDays?: number;
+  isActive?: boolean;
+}
+
+export interface AssignPackageData {
+  studentId: string;
+  courseId?: string;
+  paymentMethod?: PaymentMethod;
+  dueAt?: Date;
+  notes?: string;
+}
+
+const enrollmentInclude = {
+  package: {
+    select: {
+      id: true,
+      name: true,
+      totalHours: true,
+      validityDays: true,
+    },
+  },
+  course: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+};
+
+class PackageService {
+  /**
+   * Get all packages for organization
+   */
+  async getPackages(organizationId: string, filters?: { isActive?: boolean }) {
+    return prisma.package.findMany({
+      where: {
+        organizationId,
+        ...(filters?.isActive !== undefined && { isActive: filters.isActive }),
+      },
+      include: {
+        _count: {
+          select: { enrollments: true },
+        },
+      },
+      orderBy: [{ isActive: 'desc' }, { totalHours: 'asc' }],
+    });
+  }
+
+  /**
+   * Get package by ID
+   */
+  async getPackageById(id: string, organizationId: string) {
+    const pkg = await prisma.package.findFirst({
+      where: { id, organizationId },
+      include: {
+        _count: {
+          select: { enrollments: true },
+        },
+      },
+    });
+
+    if (!pkg) {
+      throw new Error('Pakiet nie został znaleziony');
+    }
+
+    return pkg;
+  }
+
+  /**
+   * Create package
+   */
+  async createPackage(data: CreatePackageData) {
+    return prisma.package.create({
+      data: {
+        organizationId: data.organizationId,
+        name: data.name,
+        description: data.description,
+        totalHours: data.totalHours,
+        price: data.price,
+        currency: data.currency || 'PLN',
+        validityDays: data.validityDays,
+        isActive: data.isActive ?? true,
+      },
+    });
+  }
+
+  /**
+   * Update package
+   * Already sold packages keep their hours and expiry - changes apply to new sales only.
+   */
+  async updatePackage(id: string, organizationId: string, data: UpdatePackageData) {
+    await this.getPackageById(id, organizationId);
+
+    return prisma.package.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.totalHours !== undefined && { totalHours: data.totalHours }),
+        ...(data.price !== undefined && { price: data.price }),
+        ...(data.currency !== undefined && { currency: data.currency }),
+        ...(data.validityDays !== undefined && { validityDays: data.validityDays }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+      },
+    });
+  }
+
+  /**
+   * Delete package (deactivates it if it was already sold)
+   */
+  async deletePackage(id: string, organizationId: string) {
+    const pkg = await this.getPackageById(id, organizationId);
+
+    if (pkg._count.enrollments > 0) {
+      await prisma.package.update({
+        where: { id },
+        data: { isActive: false },
+      });
+      return { message: 'Pakiet został sprzedany uczniom, więc został dezaktywowany zamiast usunięty', deactivated: true };
+    }
+
+    await prisma.package.delete({ where: { id } });
+    return { message: 'Pakiet został usunięty', deactivated: false };
+  }
+
+  /**
+   * Assign package to student
+   * Tops up the active course enrollment when a course is given, otherwise creates
+   * a standalone enrollment. Always creates a matching pending payment.
+   */
+  async assignPackageToStudent(packageId: string, organizationId: string, data: AssignPackageData) {
+    const pkg = await this.getPackageById(packageId, organizationId);
+
+    if (!pkg.isActive) {
+      throw new Error('Pakiet jest nieaktywny');
+    }
+
+    const student = await prisma.student.findFirst({
+      where: { id: data.studentId, organizationId },
+    });
+
+    if (!student) {
+      throw new Error('Student not found');
+    }
+
+    if (data.courseId) {
+      const course = await prisma.course.findFirst({
+        where: { id: data.courseId, organizationId },
+        select: { id: true },
+      });
+      if (!course) {
+        throw new Error('Course not found');
+      }
+    }
+
+    const now = new Date();
+    const expiresAt = addDays(now, pkg.validityDays);
+    const totalHours = Number(pkg.totalHours);
+    const dueAt = data.dueAt || addDays(now, student.paymentDueDays || 7);
+
+    return prisma.$transaction(async (tx) => {
+      const existingEnrollment = data.courseId
+        ? await tx.studentEnrollment.findFirst({
+            where: {
+              studentId: data.studentId,
+              courseId: data.courseId,
+              status: 'ACTIVE',
+            },
+          })
+        : null;
+
+      if (existingEnrollment && existingEnrollment.paymentMode !== 'PACKAGE') {
+        throw new Error('Uczeń jest zapisany na ten kurs w trybie innym niż pakietowy');
+      }
+
+      const enrollment = existingEnrollment
+        ? await tx.studentEnrollment.update({
+            where: { id: existingEnrollment.id },
+            data: {
+              packageId: pkg.id,
+              hoursPurchased: { increment: totalHours },
+              // Top-up extends validity of the whole balance
+              expiresAt:
+                existingEnrollment.expiresAt && existingEnrollment.expiresAt > expiresAt
+                  ? existingEnrollment.expiresAt
+                  : expiresAt,
+            },
+            include: enrollmentInclude,
+          })
+        : await tx.studentEnrollment.create({
+            data: {
+              studentId: data.studentId,
+              courseId: data.courseId || null,
+              packageId: pkg.id,
+              enrollmentDate: now,
+              status: 'ACTIVE',
+              paymentMode: 'PACKAGE',
+              hoursPurchased: totalHours,
+              hoursUsed: 0,
+              expiresAt,
+              notes: data.notes,
+            },
+            include: enrollmentInclude,
+          });
+
+      const payment = await tx.payment.create({
+        data: {
+          organizationId,
+          studentId: data.studentId,
+          enrollmentId: enrollment.id,
+          amount: pkg.price,
+          currency: pkg.currency,
+          status: 'PENDING',
+          paymentMethod: data.paymentMethod || PaymentMethod.BANK_TRANSFER,
+          dueAt,
+          notes: data.notes || `Pakiet: ${pkg.name}`,
+        },
+      });
+
+      return { enrollment, payment };
+    });
+  }
+
+  /**
+   * Get package enrollments of a student with budget info
+   */
+  async getStudentPackages(studentId: string, organizationId: string) {
+    const enrollments = await prisma.studentEnrollment.findMany({
+      where: {
+        studentId,
+        packageId: { not: null },
+        student: { organizationId },
+      },
+      include: enrollmentInclude,
+      orderBy: [{ status: 'asc' }, { expiresAt: 'desc' }],
+    });
+
+    const now = new Date();
+
+    return enrollments.map((enrollment) => {
+      const hoursPurchased = Number(enrollment.hoursPurchased);
+      const hoursUsed = Number(enrollment.hoursUsed);
+      const hoursExpired = Number(enrollment.hoursExpired);
+      const hoursRemaining = Math.max(0, hoursPurchased - hoursUsed - hoursExpired);
+
+      return {
+        ...enrollment,
+        hoursPurchased,
+        hoursUsed,
+        hoursExpired,
+        hoursRemaining,
+        lowBudget: hoursRemaining <= 2,
+        isExpired: !!enrollment.expiresAt && enrollment.expiresAt <= now,
+      };
+    });
+  }
+
+  /**
+   * Forfeit unused hours of expired packages
+   * Standalone package enrollments are completed; course enrollments stay active
+   * (the student remains in the course) but lose the remaining hours.
+   */
+  async expireUnusedHours() {
+    const now = new Date();
+
+    const expiredEnrollments = await prisma.studentEnrollment.findMany({
+      where: {
+        status: 'ACTIVE',
+        packageId: { not: null },
+        expiresAt: { lte: now },
+      },
+      include: {
+        package: { select: { name: true } },
+        course: { select: { name: true } },
+        student: {
+          select: {
+            id: true,
+            organizationId: true,
+            user: { select: { firstName: true, lastName: true } },
+          },
+        },
+      },
+    });
+
+    const results = [];
+
+    for (const enrollment of expiredEnrollments) {
+      const remaining =
+        Number(enrollment.hoursPurchased) - Number(enrollment.hoursUsed) - Number(enrollment.hoursExpired);
+
+      if (remaining <= 0 && enrollment.courseId) {
+        continue;
+      }
+
+      try {
+        await prisma.studentEnrollment.update({
+          where: { id: enrollment.id },
+          data: {
+            ...(remaining > 0 && { hoursExpired: { increment: remaining } }),
+            ...(!enrollment.courseId && { status: 'COMPLETED' }),
+          },
+        });
+
+        if (remaining > 0) {
+          const studentName = `${enrollment.student.user.firstName} ${enrollment.student.user.lastName}`;
+          await prisma.alert.create({
+            data: {
+              organizationId: enrollment.student.organizationId,
+              type: AlertType.WARNING,
+              priority: AlertPriority.NORMAL,
+              title: 'Wygasł pakiet godzin',
+              message: `Uczniowi ${studentName} wygasł pakiet "${enrollment.package?.name ?? ''}"${enrollment.course ? ` (${enrollment.course.name})` : ''}. Niewykorzystane godziny: ${remaining.toFixed(2)}h.`,
+              metadata: {
+                studentId: enrollment.student.id,
+                enrollmentId: enrollment.id,
+                hoursExpired: remaining,
+              },
+            },
+          });
+        }
+
+        results.push({ enrollmentId: enrollment.id, hoursExpired: Math.max(remaining, 0) });
+      } catch (error) {
+        console.error(`Failed to expire package enrollment ${enrollment.id}:`, error);
+      }
+    }
+
+    return results;
+  }
+}
+
+export default new PackageService();
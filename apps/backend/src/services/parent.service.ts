@@ -0,0 +1,294 @@
+import prisma from '../utils/prisma';
+import { UserRole } from '@prisma/client';
+import userService from './user.service';
+import lessonService from './lesson.service';
+import balanceService from './balance.service';
+import { studentLessonFilter } from '../utils/lesson-participants';
+
+export interface LinkParentData {
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  relationshipType?: string;
+  canManagePayments?: boolean;
+  canManageSchedule?: boolean;
+}
+
+export interface UpdateParentRelationData {
+  relationshipType?: string;
+  canManagePayments?: boolean;
+  canManageSchedule?: boolean;
+}
+
+const parentSelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  phone: true,
+  isActive: true,
+  lastLoginAt: true,
+};
+
+class ParentService {
+  /**
+   * Get parents linked to a student
+   */
+  async getStudentParents(studentId: string, organizationId: string) {
+    await this.verifyStudent(studentId, organizationId);
+
+    return prisma.parentStudentRelation.findMany({
+      where: { studentId },
+      include: { parent: { select: parentSelect } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Link a parent to a student
+   * Reuses an existing PARENT account with the same email, otherwise invites a new one.
+   */
+  async linkParent(studentId: string, organizationId: string, data: LinkParentData) {
+    const student = await this.verifyStudent(studentId, organizationId);
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: data.email },
+      select: { id: true, role: true, organizationId: true },
+    });
+
+    if (existingUser && (existingUser.role !== UserRole.PARENT || existingUser.organizationId !== organizationId)) {
+      throw new Error('Użytkownik z tym adresem email istnieje i nie jest kontem rodzica w tej organizacji');
+    }
+
+    const parent =
+      existingUser ||
+      (await userService.inviteUser(
+        organizationId,
+        {
+          email: data.email,
+          firstName: data.firstName,
+          lastName: data.lastName,
+          phone: data.phone,
+          role: UserRole.PARENT,
+        },
+        student.userId,
+        { allowedRoles: [UserRole.PARENT] }
+      ));
+
+    const existingRelation = await prisma.parentStudentRelation.findUnique({
+      where: { parentId_studentId: { parentId: parent.id, studentId } },
+    });
+
+    if (existingRelation) {
+      throw new Error('Ten rodzic jest już powiązany z uczniem');
+    }
+
+    return prisma.parentStudentRelation.create({
+      data: {
+        parentId: parent.id,
+        studentId,
+        relationshipType: data.relationshipType || 'parent',
+        canManagePayments: data.canManagePayments ?? true,
+        canManageSchedule: data.canManageSchedule ?? true,
+      },
+      include: { parent: { select: parentSelect } },
+    });
+  }
+
+  /**
+   * Update parent permissions for a student
+   */
+  async updateRelation(relationId: string, organizationId: string, data: UpdateParentRelationData) {
+    await this.getRelationForOrganization(relationId, organizationId);
+
+    return prisma.parentStudentRelation.update({
+      where: { id: relationId },
+      data: {
+        ...(data.relationshipType !== undefined && { relationshipType: data.relationshipType }),
+        ...(data.canManagePayments !== undefined && { canManagePayments: data.canManagePayments }),
+        ...(data.canManageSchedule !== undefined && { canManageSchedule: data.canManageSchedule }),
+      },
+      include: { parent: { select: parentSelect } },
+    });
+  }
+
+  /**
+   * Unlink a parent from a student (the parent account itself is kept)
+   */
+  async unlinkParent(relationId: string, organizationId: string) {
+    await this.getRelationForOrganization(relationId, organizationId);
+    await prisma.parentStudentRelation.delete({ where: { id: relationId } });
+    return { message: 'Rodzic został odłączony od ucznia' };
+  }
+
+  /**
+   * Parent dashboard: children with upcoming lessons, balance and payments
+   * Balance and payments are only included where the parent can manage payments.
+   */
+  async getChildrenOverview(parentId: string, organizationId: string) {
+    const relations = await prisma.parentStudentRelation.findMany({
+      where: {
+        parentId,
+        student: { organizationId, user: { isActive: true } },
+      },
+      include: {
+        student: {
+          include: {
+            user: { select: { id: true, firstName: true, lastName: true, email: true } },
+            enrollments: {
+              where: { status: { in: ['ACTIVE', 'PAUSED'] } },
+              include: { course: { select: { id: true, name: true } } },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const now = new Date();
+
+    return Promise.all(
+      relations.map(async (relation) => {
+        const { student } = relation;
+
+        const upcomingLessons = await prisma.lesson.findMany({
+          where: {
+            ...studentLessonFilter(student.id),
+            scheduledAt: { gte: now },
+            status: 'CONFIRMED',
+          },
+          include: {
+            teacher: { include: { user: { select: { firstName: true, lastName: true } } } },
+            course: { select: { id: true, name: true } },
+          },
+          orderBy: { scheduledAt: 'asc' },
+          take: 10,
+        });
+
+        const [balance, payments] = relation.canManagePayments
+          ? await Promise.all([
+              balanceService.getStudentBalance(student.id, organizationId),
+              prisma.payment.findMany({
+                where: { studentId: student.id, organizationId },
+                orderBy: [{ status: 'asc' }, { createdAt: 'desc' }],
+                take: 20,
+                include: { invoice: { select: { id: true, invoiceNumber: true } } },
+              }),
+            ])
+          : [null, []];
+
+        return {
+          relationId: relation.id,
+          relationshipType: relation.relationshipType,
+          canManagePayments: relation.canManagePayments,
+          canManageSchedule: relation.canManageSchedule,
+          student: {
+            id: student.id,
+            firstName: student.user.firstName,
+            lastName: student.user.lastName,
+            email: student.user.email,
+            isMinor: student.isMinor,
+            languageLevel: student.languageLevel,
+            enrollments: student.enrollments,
+          },
+          upcomingLessons,
+          balance: balance ? { balance: balance.balance, currency: balance.currency } : null,
+          payments,
+        };
+      })
+    );
+  }
+
+  /**
+   * Cancellation fee preview for a child's lesson
+   */
+  async getCancellationPreview(parentId: string, lessonId: string, organizationId: string) {
+    await this.verifyScheduleAccess(parentId, lessonId, organizationId);
+    return lessonService.getCancellationFeePreview(lessonId, organizationId);
+  }
+
+  /**
+   * Cancel a child's lesson on behalf of the parent (requires canManageSchedule)
+   * Late cancellations follow the student's cancellation fee settings.
+   */
+  async cancelLesson(parentId: string, lessonId: string, organizationId: string, reason?: string) {
+    const lesson = await this.verifyScheduleAccess(parentId, lessonId, organizationId);
+
+    if (lesson.scheduledAt <= new Date()) {
+      throw new Error('Nie można odwołać lekcji, która już się rozpoczęła');
+    }
+
+    if (lesson.status !== 'CONFIRMED') {
+      throw new Error('Tej lekcji nie można już odwołać');
+    }
+
+    const preview = await lessonService.getCancellationFeePreview(lessonId, organizationId);
+
+    return lessonService.updateLesson(
+      lessonId,
+      organizationId,
+      {
+        status: preview.feeApplies ? 'CANCELLED_LATE' : 'CANCELLED_ON_TIME',
+        cancellationReason: reason ? `Odwołane przez rodzica: ${reason}` : 'Odwołane przez rodzica',
+      },
+      parentId
+    );
+  }
+
+  private async verifyStudent(studentId: string, organizationId: string) {
+    const student = await prisma.student.findFirst({
+      where: { id: studentId, organizationId },
+      select: { id: true, userId: true },
+    });
+
+    if (!student) {
+      throw new Error('Student not found');
+    }
+
+    return student;
+  }
+
+  private async getRelationForOrganization(relationId: string, organizationId: string) {
+    const relation = await prisma.parentStudentRelation.findFirst({
+      where: { id: relationId, student: { organizationId } },
+    });
+
+    if (!relation) {
+      throw new Error('Powiązanie rodzica nie zostało znalezione');
+    }
+
+    return relation;
+  }
+
+  private async verifyScheduleAccess(parentId: string, lessonId: string, organizationId: string) {
+    const lesson = await prisma.lesson.findFirst({
+      where: { id: lessonId, organizationId },
+      select: { id: true, studentId: true, scheduledAt: true, status: true, isGroupLesson: true },
+    });
+
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+
+    if (lesson.isGroupLesson) {
+      throw new Error('Zajęcia grupowe może odwołać tylko szkoła');
+    }
+
+    const relation = await prisma.parentStudentRelation.findUnique({
+      where: { parentId_studentId: { parentId, studentId: lesson.studentId } },
+    });
+
+    if (!relation) {
+      throw new Error('Lesson not found');
+    }
+
+    if (!relation.canManageSchedule) {
+      throw new Error('Nie masz uprawnień do zarządzania grafikiem tego ucznia');
+    }
+
+    return lesson;
+  }
+}
+
+export default new ParentService();
@@ -109,6 +109,7 @@ class PaymentReminderService {
       organizationName: payment.organization.name,
       organizationEmail: payment.organization.email || undefined,
       lessonInfo,
+      organizationId: payment.organizationId,
     });
 
     // Log reminder
@@ -309,6 +310,7 @@ class PaymentReminderService {
         organizationName: payment.organization.name,
         organizationEmail: payment.organization.email || undefined,
         lessonInfo,
+        organizationId: payment.organizationId,
       });
 
       // Log reminder
@@ -3,6 +3,7 @@ import prisma from '../utils/prisma';
 import emailService from './email.service';
 import exchangeRateService from './exchange-rate.service';
 import balanceService from './balance.service';
+import invoiceService from './invoice.service';
 
 export interface CreatePaymentData {
   organizationId: string;
@@ -223,6 +224,25 @@ class PaymentService {
     }
   }
 
+  /**
+   * Issue invoice for completed payment when auto-issuing is enabled
+   * Returns invoice ID or null. Never fails the payment operation.
+   */
+  private async autoIssueInvoice(paymentId: string, organizationId: string): Promise<string | null> {
+    try {
+      const settings = await invoiceService.getInvoicingSettings(organizationId);
+      if (!settings.autoIssueOnPayment) {
+        return null;
+      }
+
+      const invoice = await invoiceService.issueInvoice(paymentId, organizationId);
+      return invoice.id;
+    } catch (error) {
+      console.error('Failed to auto-issue invoice:', error);
+      return null;
+    }
+  }
+
   /**
    * Get payment by ID
    */
@@ -309,6 +329,8 @@ class PaymentService {
         console.error('Failed to add deposit to student balance:', error);
         // Don't fail payment creation if balance update fails
       }
+
+      await this.autoIssueInvoice(payment.id, data.organizationId);
     }
 
     return payment;
@@ -353,7 +375,7 @@ class PaymentService {
         },
         invoice: {
           select: {
-            fileUrl: true,
+            id: true,
           },
         },
       },
@@ -384,8 +406,14 @@ class PaymentService {
         console.error('Failed to add deposit to student balance:', error);
       }
 
+      // Issue invoice automatically (if enabled) so the confirmation can link it
+      const invoiceId = payment.invoice?.id || (await this.autoIssueInvoice(payment.id, payment.organizationId));
+
       // Send payment confirmation email
       try {
+        const invoiceUrl = invoiceId
+          ? await invoiceService.getInvoiceLink(invoiceId, payment.organizationId)
+          : undefined;
         const paymentMethodNames: Record<string, string> = {
           STRIPE: 'Stripe',
           CASH: 'Gotówka',
@@ -399,7 +427,8 @@ class PaymentService {
           currency: payment.currency,
           paymentMethod: paymentMethodNames[payment.paymentMethod] || payment.paymentMethod,
           courseName: payment.enrollment?.course?.name,
-          invoiceUrl: payment.invoice?.fileUrl,
+          invoiceUrl,
+          organizationId: payment.organizationId,
         });
       } catch (emailError) {
         console.error('Failed to send payment confirmation email:', emailError);
@@ -448,7 +477,12 @@ class PaymentService {
    */
   async deletePayment(id: string, organizationId: string) {
     // Check if payment exists
-    await this.getPaymentById(id, organizationId);
+    const payment = await this.getPaymentById(id, organizationId);
+
+    // Issued invoices must be voided first so the numbering stays intact
+    if (payment.invoice) {
+      throw new Error(`Nie można usunąć płatności z wystawioną fakturą ${payment.invoice.invoiceNumber}. Najpierw anuluj fakturę.`);
+    }
 
     await prisma.payment.delete({
       where: { id },
@@ -1,5 +1,9 @@
-import { LessonStatus, TeacherPayoutStatus } from '@prisma/client';
+import { ContractType, LessonStatus, PayoutSignOffStatus, TeacherPayoutStatus } from '@prisma/client';
 import prisma from '../utils/prisma';
+import { formatLessonStudents } from '../utils/lesson-participants';
+import teacherRateRuleService, { BASE_RATE_LABEL } from './teacherRateRule.service';
+import payrollService from './payroll.service';
+import { fileService } from './file.service';
 
 
 export type QualificationReason = 'COMPLETED' | 'CONFIRMED' | 'LATE_CANCELLATION';
@@ -17,6 +21,17 @@ export interface QualifiedLesson {
   currency: string;
   qualificationReason: QualificationReason;
   payoutPercent: number; // 100 = full payout, e.g. 80 = 80% of rate (for late cancellations)
+  substituteFor: string | null; // original teacher's name when taught as a substitute
+  rateRuleId: string | null;
+  rateRuleName: string | null; // null = teacher's base hourly rate
+}
+
+export interface RuleBreakdownItem {
+  rateRuleId: string | null;
+  rateRuleName: string;
+  lessonsCount: number;
+  totalMinutes: number;
+  totalAmount: number;
 }
 
 export interface PayoutPreview {
@@ -25,6 +40,7 @@ export interface PayoutPreview {
   periodStart: Date;
   periodEnd: Date;
   qualifiedLessons: QualifiedLesson[];
+  ruleBreakdown: RuleBreakdownItem[];
   totalHours: number;
   totalAmount: number;
   currency: string;
@@ -38,6 +54,14 @@ export interface CreatePayoutData {
   notes?: string;
 }
 
+export interface InvoiceUploadData {
+  file: Buffer;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  invoiceNumber?: string;
+}
+
 export interface PayoutFilters {
   teacherId?: string;
   status?: TeacherPayoutStatus;
@@ -57,6 +81,8 @@ export interface ForecastLesson {
   currency: string;
   qualificationReason: QualificationReason;
   payoutPercent: number;
+  substituteFor: string | null;
+  rateRuleName: string | null;
 }
 
 export interface TeacherForecast {
@@ -78,6 +104,62 @@ export interface PayoutForecast {
   currency: string;
 }
 
+/**
+ * Lessons a teacher is paid for: their own lessons without a substitution,
+ * plus lessons they taught as a substitute
+ */
+function payoutLessonFilter(teacherId: string) {
+  return {
+    OR: [
+      { teacherId, substitution: null },
+      { substitution: { substituteTeacherId: teacherId } },
+    ],
+  };
+}
+
+const substitutionInclude = {
+  substitution: {
+    select: { originalTeacher: { select: { user: { select: { firstName: true, lastName: true } } } } },
+  },
+};
+
+// Course format is one of the rate card conditions
+const rateCourseInclude = {
+  course: { select: { courseType: true } },
+};
+
+/**
+ * Totals per pricing rule - lessons paid at the base rate are grouped together
+ */
+function buildRuleBreakdown(lessons: QualifiedLesson[]): RuleBreakdownItem[] {
+  const groups = new Map<string, RuleBreakdownItem>();
+
+  for (const lesson of lessons) {
+    const key = lesson.rateRuleId ?? 'BASE';
+    const group = groups.get(key) ?? {
+      rateRuleId: lesson.rateRuleId,
+      rateRuleName: lesson.rateRuleName ?? BASE_RATE_LABEL,
+      lessonsCount: 0,
+      totalMinutes: 0,
+      totalAmount: 0,
+    };
+    group.lessonsCount++;
+    group.totalMinutes += lesson.durationMinutes;
+    group.totalAmount += lesson.amount;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.totalAmount - a.totalAmount);
+}
+
+function formatSubstituteFor(lesson: {
+  substitution: { originalTeacher: { user: { firstName: string; lastName: string } } } | null;
+}): string | null {
+  if (!lesson.substitution) return null;
+  const { firstName, lastName } = lesson.substitution.originalTeacher.user;
+  return `${firstName} ${lastName}`;
+}
+
 class PayoutService {
   /**
    * Check if a lesson qualifies for payout
@@ -124,13 +206,6 @@ class PayoutService {
     return { qualified: false, reason: null, payoutPercent: 0 };
   }
 
-  /**
-   * Calculate payout amount for a lesson
-   */
-  private calculateLessonAmount(durationMinutes: number, hourlyRate: number, multiplier = 1.0): number {
-    return (durationMinutes / 60) * hourlyRate * multiplier;
-  }
-
   /**
    * Get all qualified lessons for a teacher in a period
    */
@@ -161,6 +236,7 @@ class PayoutService {
     }
 
     const hourlyRate = Number(teacher.hourlyRate);
+    const rateRules = await teacherRateRuleService.getActiveRules(teacherId);
     const teacherCancellationSettings = {
       cancellationPayoutEnabled: teacher.cancellationPayoutEnabled,
       cancellationPayoutHours: teacher.cancellationPayoutHours,
@@ -170,7 +246,7 @@ class PayoutService {
     // Get all lessons in the period for this teacher
     const lessons = await prisma.lesson.findMany({
       where: {
-        teacherId,
+        ...payoutLessonFilter(teacherId),
         organizationId,
         scheduledAt: {
           gte: periodStart,
@@ -191,6 +267,11 @@ class PayoutService {
             },
           },
         },
+        participants: {
+          include: { student: { include: { user: { select: { firstName: true, lastName: true } } } } },
+        },
+        ...substitutionInclude,
+        ...rateCourseInclude,
       },
       orderBy: {
         scheduledAt: 'asc',
@@ -213,7 +294,7 @@ class PayoutService {
 
         if (!existingPayoutLesson) {
           const multiplier = payoutPercent / 100;
-          const amount = this.calculateLessonAmount(lesson.durationMinutes, hourlyRate, multiplier);
+          const price = teacherRateRuleService.priceLesson(rateRules, hourlyRate, lesson, multiplier);
 
           qualifiedLessons.push({
             id: lesson.id,
@@ -222,12 +303,15 @@ class PayoutService {
             durationMinutes: lesson.durationMinutes,
             status: lesson.status,
             cancelledAt: lesson.cancelledAt,
-            studentName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}`,
-            hourlyRate,
-            amount,
+            studentName: formatLessonStudents(lesson),
+            hourlyRate: price.hourlyRate,
+            amount: price.amount,
             currency: lesson.currency,
             qualificationReason: reason,
             payoutPercent,
+            substituteFor: formatSubstituteFor(lesson),
+            rateRuleId: price.rateRuleId,
+            rateRuleName: price.rateRuleName,
           });
         }
       }
@@ -292,6 +376,7 @@ class PayoutService {
       periodStart,
       periodEnd,
       qualifiedLessons,
+      ruleBreakdown: buildRuleBreakdown(qualifiedLessons),
       totalHours,
       totalAmount,
       currency,
@@ -311,6 +396,11 @@ class PayoutService {
       throw new Error('No qualified lessons for payout in this period');
     }
 
+    const teacher = await prisma.teacher.findUnique({
+      where: { id: teacherId },
+      select: { contractType: true },
+    });
+
     // Create payout in transaction
     const payout = await prisma.$transaction(async (tx) => {
       // Create payout record
@@ -325,6 +415,7 @@ class PayoutService {
           currency: preview.currency,
           status: TeacherPayoutStatus.PENDING,
           notes,
+          contractType: teacher?.contractType,
         },
       });
 
@@ -343,6 +434,8 @@ class PayoutService {
             payoutPercent: lesson.payoutPercent === 100 ? null : lesson.payoutPercent,
             studentName: lesson.studentName,
             lessonTitle: lesson.title,
+            rateRuleId: lesson.rateRuleId,
+            rateRuleName: lesson.rateRuleName,
           },
         });
       }
@@ -382,6 +475,9 @@ class PayoutService {
             lessonDate: 'asc',
           },
         },
+        invoiceFile: {
+          select: { id: true, fileName: true, publicUrl: true },
+        },
       },
     });
 
@@ -443,13 +539,27 @@ class PayoutService {
       orderBy: [{ status: 'asc' }, { periodEnd: 'desc' }],
     });
 
-    return payouts;
+    // Net amount to transfer depends on the contract the payout was made under
+    return payouts.map((payout) => ({
+      ...payout,
+      payroll: payrollService.calculate(Number(payout.totalAmount), {
+        contractType: payout.contractType ?? payout.teacher.contractType,
+        vatRate: payout.teacher.vatRate,
+        zusExempt: payout.teacher.zusExempt,
+        pitExempt: payout.teacher.pitExempt,
+      }),
+    }));
   }
 
   /**
    * Get payouts for a specific teacher
    */
   async getTeacherPayouts(teacherId: string, organizationId: string) {
+    const teacher = await prisma.teacher.findFirst({
+      where: { id: teacherId, organizationId },
+      select: { contractType: true, vatRate: true, zusExempt: true, pitExempt: true },
+    });
+
     const payouts = await prisma.teacherPayout.findMany({
       where: {
         teacherId,
@@ -461,6 +571,9 @@ class PayoutService {
             lessonDate: 'asc',
           },
         },
+        invoiceFile: {
+          select: { id: true, fileName: true, publicUrl: true },
+        },
         _count: {
           select: {
             lessons: true,
@@ -470,7 +583,16 @@ class PayoutService {
       orderBy: [{ status: 'asc' }, { periodEnd: 'desc' }],
     });
 
-    return payouts;
+    // Gross/net estimate depending on the contract the payout was made under
+    return payouts.map((payout) => ({
+      ...payout,
+      payroll: teacher
+        ? payrollService.calculate(Number(payout.totalAmount), {
+            ...teacher,
+            contractType: payout.contractType ?? teacher.contractType,
+          })
+        : null,
+    }));
   }
 
   /**
@@ -480,7 +602,8 @@ class PayoutService {
     id: string,
     organizationId: string,
     status: TeacherPayoutStatus,
-    notes?: string
+    notes?: string,
+    disputeResolution?: string
   ) {
     const payout = await this.getPayoutById(id, organizationId);
 
@@ -488,7 +611,24 @@ class PayoutService {
       status,
     };
 
+    // A payout contested by the teacher is approved only together with a written resolution
+    const resolvesDispute =
+      payout.signOffStatus === PayoutSignOffStatus.DISPUTED &&
+      (status === TeacherPayoutStatus.APPROVED || status === TeacherPayoutStatus.PAID);
+
+    if (resolvesDispute) {
+      if (!disputeResolution?.trim()) {
+        throw new Error('Lektor zakwestionował tę wypłatę - opisz rozstrzygnięcie zastrzeżeń przed zatwierdzeniem');
+      }
+      updateData.signOffStatus = PayoutSignOffStatus.RESOLVED;
+      updateData.disputeResolution = disputeResolution.trim();
+    }
+
     if (status === TeacherPayoutStatus.PAID) {
+      const contractType = payout.contractType ?? payout.teacher.contractType;
+      if (contractType === ContractType.B2B && !payout.invoiceFileId) {
+        throw new Error('Przed oznaczeniem wypłaty jako wypłaconej dołącz fakturę lektora');
+      }
       updateData.paidAt = new Date();
     }
 
@@ -496,27 +636,117 @@ class PayoutService {
       updateData.notes = notes;
     }
 
-    const updatedPayout = await prisma.teacherPayout.update({
-      where: { id: payout.id },
-      data: updateData,
-      include: {
-        teacher: {
-          include: {
-            user: {
-              select: {
-                firstName: true,
-                lastName: true,
+    const updatedPayout = await prisma.$transaction(async (tx) => {
+      if (resolvesDispute) {
+        await tx.teacherPayoutLesson.updateMany({
+          where: { payoutId: payout.id, isDisputed: true },
+          data: { isDisputed: false },
+        });
+      }
+
+      return tx.teacherPayout.update({
+        where: { id: payout.id },
+        data: updateData,
+        include: {
+          teacher: {
+            include: {
+              user: {
+                select: {
+                  firstName: true,
+                  lastName: true,
+                },
               },
             },
           },
+          lessons: true,
         },
-        lessons: true,
-      },
+      });
     });
 
     return updatedPayout;
   }
 
+  /**
+   * Attach the teacher's invoice (PDF) to a B2B payout. Teachers may only upload to their own payouts.
+   */
+  async attachInvoice(
+    id: string,
+    organizationId: string,
+    uploadedBy: string,
+    data: InvoiceUploadData,
+    ownTeacherUserId?: string
+  ) {
+    const payout = await this.getPayoutForInvoice(id, organizationId, ownTeacherUserId);
+
+    if (data.fileType !== 'application/pdf') {
+      throw new Error('Faktura musi być plikiem PDF');
+    }
+
+    const file = await fileService.uploadFile(
+      {
+        file: data.file,
+        fileName: data.fileName,
+        fileType: data.fileType,
+        fileSize: data.fileSize,
+        relatedToType: 'TEACHER_PAYOUT',
+        relatedToId: payout.id,
+        isPublic: false,
+      },
+      organizationId,
+      uploadedBy
+    );
+
+    await prisma.teacherPayout.update({
+      where: { id: payout.id },
+      data: {
+        invoiceFileId: file.id,
+        invoiceNumber: data.invoiceNumber || null,
+        invoiceUploadedAt: new Date(),
+      },
+    });
+
+    // Replaced invoice - drop the previous file
+    if (payout.invoiceFileId) {
+      await fileService.deleteFile(payout.invoiceFileId, organizationId).catch((error) => {
+        console.error('Failed to delete previous payout invoice:', error);
+      });
+    }
+
+    return this.getPayoutById(payout.id, organizationId);
+  }
+
+  async removeInvoice(id: string, organizationId: string, ownTeacherUserId?: string) {
+    const payout = await this.getPayoutForInvoice(id, organizationId, ownTeacherUserId);
+
+    if (!payout.invoiceFileId) {
+      throw new Error('Do tej wypłaty nie dołączono faktury');
+    }
+
+    await prisma.teacherPayout.update({
+      where: { id: payout.id },
+      data: { invoiceFileId: null, invoiceNumber: null, invoiceUploadedAt: null },
+    });
+    await fileService.deleteFile(payout.invoiceFileId, organizationId);
+
+    return this.getPayoutById(payout.id, organizationId);
+  }
+
+  private async getPayoutForInvoice(id: string, organizationId: string, ownTeacherUserId?: string) {
+    const payout = await this.getPayoutById(id, organizationId);
+
+    if (ownTeacherUserId && payout.teacher.userId !== ownTeacherUserId) {
+      throw new Error('Payout not found');
+    }
+    if ((payout.contractType ?? payout.teacher.contractType) !== ContractType.B2B) {
+      throw new Error('Faktury dołącza się tylko do wypłat dla lektorów na umowie B2B');
+    }
+    if (payout.status === TeacherPayoutStatus.PAID || payout.status === TeacherPayoutStatus.CANCELLED) {
+      throw new Error('Nie można zmienić faktury wypłaty, która została rozliczona');
+    }
+
+    return payout;
+  }
+
   /**
    * Delete a payout (only PENDING payouts can be deleted)
    */
@@ -608,6 +838,7 @@ class PayoutService {
     }
 
     const hourlyRate = Number(teacher.hourlyRate);
+    const rateRules = await teacherRateRuleService.getActiveRules(teacherId);
     const teacherCancellationSettings = {
       cancellationPayoutEnabled: teacher.cancellationPayoutEnabled,
       cancellationPayoutHours: teacher.cancellationPayoutHours,
@@ -616,7 +847,7 @@ class PayoutService {
 
     const lessons = await prisma.lesson.findMany({
       where: {
-        teacherId,
+        ...payoutLessonFilter(teacherId),
         organizationId,
         scheduledAt: {
           gte: startOfDay,
@@ -634,6 +865,11 @@ class PayoutService {
             },
           },
         },
+        participants: {
+          include: { student: { include: { user: { select: { firstName: true, lastName: true } } } } },
+        },
+        ...substitutionInclude,
+        ...rateCourseInclude,
         payoutLessons: {
           include: {
             payout: {
@@ -655,7 +891,7 @@ class PayoutService {
       const { qualified, reason, payoutPercent } = this.isLessonQualified(lesson, teacherCancellationSettings);
       const payoutLesson = lesson.payoutLessons[0];
       const multiplier = payoutPercent / 100;
-      const amount = this.calculateLessonAmount(lesson.durationMinutes, hourlyRate, multiplier);
+      const price = teacherRateRuleService.priceLesson(rateRules, hourlyRate, lesson, multiplier);
 
       return {
         id: lesson.id,
@@ -664,13 +900,15 @@ class PayoutService {
         durationMinutes: lesson.durationMinutes,
         status: lesson.status,
         cancelledAt: lesson.cancelledAt,
-        studentName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}`,
-        hourlyRate,
-        amount,
+        studentName: formatLessonStudents(lesson),
+        hourlyRate: price.hourlyRate,
+        amount: price.amount,
         currency: lesson.currency,
         qualifiesForPayout: qualified,
         qualificationReason: reason,
         payoutPercent: qualified && reason === 'LATE_CANCELLATION' ? payoutPercent : null,
+        substituteFor: formatSubstituteFor(lesson),
+        rateRuleName: price.rateRuleName,
         payout: payoutLesson
           ? {
               id: payoutLesson.payout.id,
@@ -715,6 +953,7 @@ class PayoutService {
 
     for (const teacher of teachers) {
       const hourlyRate = Number(teacher.hourlyRate);
+      const rateRules = await teacherRateRuleService.getActiveRules(teacher.id);
       const cancellationSettings = {
         cancellationPayoutEnabled: teacher.cancellationPayoutEnabled,
         cancellationPayoutHours: teacher.cancellationPayoutHours,
@@ -723,14 +962,18 @@ class PayoutService {
 
       const lessons = await prisma.lesson.findMany({
         where: {
-          teacherId: teacher.id,
+          ...payoutLessonFilter(teacher.id),
           organizationId,
           scheduledAt: { gte: startOfDay, lte: endOfDay },
           status: { in: [LessonStatus.COMPLETED, LessonStatus.CONFIRMED, LessonStatus.CANCELLED_LATE] },
         },
         include: {
           student: { include: { user: { select: { firstName: true, lastName: true } } } },
+          participants: {
+            include: { student: { include: { user: { select: { firstName: true, lastName: true } } } } },
+          },
           course: { select: { courseType: true } },
+          ...substitutionInclude,
         },
         orderBy: { scheduledAt: 'asc' },
       });
@@ -742,7 +985,7 @@ class PayoutService {
         if (!qualified || !reason) continue;
 
         const multiplier = payoutPercent / 100;
-        const amount = this.calculateLessonAmount(lesson.durationMinutes, hourlyRate, multiplier);
+        const { amount, rateRuleName } = teacherRateRuleService.priceLesson(rateRules, hourlyRate, lesson, multiplier);
 
         forecastLessons.push({
           id: lesson.id,
@@ -750,12 +993,14 @@ class PayoutService {
           scheduledAt: lesson.scheduledAt,
           durationMinutes: lesson.durationMinutes,
           status: lesson.status,
-          studentName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}`,
+          studentName: formatLessonStudents(lesson),
           courseType: lesson.course?.courseType ?? null,
           amount,
           currency: lesson.currency,
           qualificationReason: reason,
           payoutPercent,
+          substituteFor: formatSubstituteFor(lesson),
+          rateRuleName,
         });
       }
 
@@ -799,6 +1044,7 @@ class PayoutService {
     if (!teacher) throw new Error('Teacher not found');
 
     const hourlyRate = Number(teacher.hourlyRate);
+    const rateRules = await teacherRateRuleService.getActiveRules(teacherId);
     const teacherCancellationSettings = {
       cancellationPayoutEnabled: teacher.cancellationPayoutEnabled,
       cancellationPayoutHours: teacher.cancellationPayoutHours,
@@ -807,12 +1053,17 @@ class PayoutService {
 
     const lessons = await prisma.lesson.findMany({
       where: {
-        teacherId,
+        ...payoutLessonFilter(teacherId),
         organizationId,
         scheduledAt: { gte: fromDate, lte: toDate },
       },
       include: {
         student: { include: { user: { select: { firstName: true, lastName: true } } } },
+        participants: {
+          include: { student: { include: { user: { select: { firstName: true, lastName: true } } } } },
+        },
+        ...substitutionInclude,
+        ...rateCourseInclude,
         payoutLessons: { include: { payout: { select: { id: true, status: true, paidAt: true } } } },
       },
       orderBy: { scheduledAt: 'asc' },
@@ -822,7 +1073,7 @@ class PayoutService {
       const { qualified, reason, payoutPercent } = this.isLessonQualified(lesson, teacherCancellationSettings);
       const payoutLesson = lesson.payoutLessons[0];
       const multiplier = payoutPercent / 100;
-      const amount = this.calculateLessonAmount(lesson.durationMinutes, hourlyRate, multiplier);
+      const price = teacherRateRuleService.priceLesson(rateRules, hourlyRate, lesson, multiplier);
 
       return {
         id: lesson.id,
@@ -831,13 +1082,15 @@ class PayoutService {
         durationMinutes: lesson.durationMinutes,
         status: lesson.status,
         cancelledAt: lesson.cancelledAt,
-        studentName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}`,
-        hourlyRate,
-        amount,
+        studentName: formatLessonStudents(lesson),
+        hourlyRate: price.hourlyRate,
+        amount: price.amount,
         currency: lesson.currency,
         qualifiesForPayout: qualified,
         qualificationReason: reason,
         payoutPercent: qualified && reason === 'LATE_CANCELLATION' ? payoutPercent : null,
+        substituteFor: formatSubstituteFor(lesson),
+        rateRuleName: price.rateRuleName,
         payout: payoutLesson
           ? {
               id: payoutLesson.payout.id,
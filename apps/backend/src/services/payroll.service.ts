@@ -0,0 +1,228 @@
+import { ContractType, TeacherPayoutStatus } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import prisma from '../utils/prisma';
+import CsvGenerator from '../utils/csv-generator';
+
+// Contribution rates (% of gross). These are estimates for the accountant, not a payroll engine.
+const ZUS_PENSION = 9.76; // emerytalne (employee and employer)
+const ZUS_DISABILITY_EMPLOYEE = 1.5; // rentowe
+const ZUS_SICKNESS = 2.45; // chorobowe - mandatory on employment, voluntary on civil contracts (left out)
+const ZUS_EMPLOYER = 9.76 + 6.5 + 1.67 + 2.45 + 0.1; // emerytalne, rentowe, wypadkowe, FP, FGŚP
+const HEALTH_INSURANCE = 9;
+const PIT_RATE = 12;
+const EMPLOYMENT_TAX_DEDUCTIBLE_COSTS = 250; // monthly flat KUP
+const EMPLOYMENT_TAX_REDUCTION = 300; // monthly reduction with PIT-2 filed
+const CIVIL_TAX_DEDUCTIBLE_PERCENT = 20;
+
+export interface PayrollSettings {
+  contractType: ContractType | null;
+  vatRate: number | null;
+  zusExempt: boolean;
+  pitExempt: boolean;
+}
+
+export interface PayrollBreakdown {
+  contractType: ContractType | null;
+  amount: number; // payout amount: gross pay, or the net invoice amount for B2B
+  employeeZus: number;
+  healthInsurance: number;
+  taxDeductibleCosts: number;
+  pitAdvance: number;
+  netAmount: number; // what the teacher receives (for B2B: invoice gross)
+  employerZus: number;
+  employerCost: number;
+  vatRate: number | null; // B2B only, null = VAT exempt
+  vatAmount: number;
+}
+
+export interface PayrollRow extends PayrollBreakdown {
+  payoutId: string;
+  teacherId: string;
+  teacherName: string;
+  email: string;
+  periodStart: Date;
+  periodEnd: Date;
+  totalHours: number;
+  currency: string;
+  status: TeacherPayoutStatus;
+  invoiceNumber: string | null;
+  hasInvoice: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const percent = (base: number, rate: number) => round((base * rate) / 100);
+
+class PayrollService {
+  /**
+   * Gross/net estimate for a payout amount depending on the teacher's contract
+   */
+  calculate(amount: number, settings: PayrollSettings): PayrollBreakdown {
+    const result: PayrollBreakdown = {
+      contractType: settings.contractType,
+      amount: round(amount),
+      employeeZus: 0,
+      healthInsurance: 0,
+      taxDeductibleCosts: 0,
+      pitAdvance: 0,
+      netAmount: round(amount),
+      employerZus: 0,
+      employerCost: round(amount),
+      vatRate: null,
+      vatAmount: 0,
+    };
+
+    if (settings.contractType === ContractType.B2B) {
+      result.vatRate = settings.vatRate;
+      result.vatAmount = settings.vatRate ? percent(amount, settings.vatRate) : 0;
+      result.netAmount = round(amount + result.vatAmount);
+      result.employerCost = result.netAmount;
+      return result;
+    }
+
+    if (settings.contractType === ContractType.EMPLOYMENT) {
+      result.employeeZus = percent(amount, ZUS_PENSION + ZUS_DISABILITY_EMPLOYEE + ZUS_SICKNESS);
+      result.taxDeductibleCosts = EMPLOYMENT_TAX_DEDUCTIBLE_COSTS;
+      const taxBase = Math.max(Math.round(amount - result.employeeZus - result.taxDeductibleCosts), 0);
+      result.pitAdvance = settings.pitExempt
+        ? 0
+        : Math.max(Math.round((taxBase * PIT_RATE) / 100 - EMPLOYMENT_TAX_REDUCTION), 0);
+      result.employerZus = percent(amount, ZUS_EMPLOYER);
+    }
+
+    if (settings.contractType === ContractType.CIVIL) {
+      // Students under 26 on a civil contract pay neither social nor health contributions
+      if (!settings.zusExempt) {
+        result.employeeZus = percent(amount, ZUS_PENSION + ZUS_DISABILITY_EMPLOYEE);
+        result.employerZus = percent(amount, ZUS_EMPLOYER);
+      }
+      result.taxDeductibleCosts = percent(amount - result.employeeZus, CIVIL_TAX_DEDUCTIBLE_PERCENT);
+      const taxBase = Math.max(Math.round(amount - result.employeeZus - result.taxDeductibleCosts), 0);
+      result.pitAdvance = settings.pitExempt ? 0 : Math.round((taxBase * PIT_RATE) / 100);
+    }
+
+    if (settings.contractType === ContractType.EMPLOYMENT || (settings.contractType === ContractType.CIVIL && !settings.zusExempt)) {
+      result.healthInsurance = percent(amount - result.employeeZus, HEALTH_INSURANCE);
+    }
+
+    result.netAmount = round(amount - result.employeeZus - result.healthInsurance - result.pitAdvance);
+    result.employerCost = round(amount + result.employerZus);
+    return result;
+  }
+
+  /**
+   * Approved (and already paid) payouts whose period starts in the given month
+   */
+  async getPayrollRows(organizationId: string, month: Date): Promise<PayrollRow[]> {
+    const payouts = await prisma.teacherPayout.findMany({
+      where: {
+        organizationId,
+        status: { in: [TeacherPayoutStatus.APPROVED, TeacherPayoutStatus.PAID] },
+        periodStart: { gte: startOfMonth(month), lte: endOfMonth(month) },
+      },
+      include: {
+        teacher: {
+          include: { user: { select: { firstName: true, lastName: true, email: true } } },
+        },
+      },
+      orderBy: [{ teacher: { user: { lastName: 'asc' } } }, { periodStart: 'asc' }],
+    });
+
+    return payouts.map((payout) => ({
+      ...this.calculate(Number(payout.totalAmount), {
+        // Payouts created before contract snapshots fall back to the current contract
+        contractType: payout.contractType ?? payout.teacher.contractType,
+        vatRate: payout.teacher.vatRate,
+        zusExempt: payout.teacher.zusExempt,
+        pitExempt: payout.teacher.pitExempt,
+      }),
+      payoutId: payout.id,
+      teacherId: payout.teacherId,
+      teacherName: `${payout.teacher.user.lastName} ${payout.teacher.user.firstName}`,
+      email: payout.teacher.user.email,
+      periodStart: payout.periodStart,
+      periodEnd: payout.periodEnd,
+      totalHours: Number(payout.totalHours),
+      currency: payout.currency,
+      status: payout.status,
+      invoiceNumber: payout.invoiceNumber,
+      hasInvoice: !!payout.invoiceFileId,
+    }));
+  }
+
+  /**
+   * Monthly payroll file for the accountant - CSV (flat) or XLSX (one sheet per contract type)
+   */
+  async exportPayroll(
+    organizationId: string,
+    month: Date,
+    fileFormat: 'csv' | 'xlsx'
+  ): Promise<{ content: Buffer | string; fileName: string; contentType: string }> {
+    const rows = await this.getPayrollRows(organizationId, month);
+    const fileBase = `lista-plac-${format(month, 'yyyy-MM')}`;
+
+    if (fileFormat === 'csv') {
+      return {
+        content: CsvGenerator.generatePayrollCsv(rows),
+        fileName: `${fileBase}.csv`,
+        contentType: 'text/csv; charset=utf-8',
+      };
+    }
+
+    const period = (row: PayrollRow) =>
+      `${format(row.periodStart, 'dd.MM.yyyy')} - ${format(row.periodEnd, 'dd.MM.yyyy')}`;
+    const workbook = XLSX.utils.book_new();
+
+    const sheets: { contractType: ContractType | null; name: string; header: string[]; toRow: (row: PayrollRow) => any[] }[] = [
+      {
+        contractType: ContractType.EMPLOYMENT,
+        name: 'Umowa o pracę',
+        header: ['Lektor', 'Okres', 'Godziny', 'Brutto', 'ZUS pracownika', 'Składka zdrowotna', 'KUP', 'Zaliczka PIT', 'Netto', 'ZUS pracodawcy', 'Koszt pracodawcy', 'Waluta'],
+        toRow: (row) => [row.teacherName, period(row), row.totalHours, row.amount, row.employeeZus, row.healthInsurance, row.taxDeductibleCosts, row.pitAdvance, row.netAmount, row.employerZus, row.employerCost, row.currency],
+      },
+      {
+        contractType: ContractType.CIVIL,
+        name: 'Umowa zlecenie',
+        header: ['Lektor', 'Okres', 'Godziny', 'Brutto', 'ZUS zleceniobiorcy', 'Składka zdrowotna', 'KUP', 'Zaliczka PIT', 'Netto', 'ZUS zleceniodawcy', 'Koszt zleceniodawcy', 'Waluta'],
+        toRow: (row) => [row.teacherName, period(row), row.totalHours, row.amount, row.employeeZus, row.healthInsurance, row.taxDeductibleCosts, row.pitAdvance, row.netAmount, row.employerZus, row.employerCost, row.currency],
+      },
+      {
+        contractType: ContractType.B2B,
+        name: 'B2B',
+        header: ['Lektor', 'Okres', 'Godziny', 'Netto', 'VAT %', 'VAT', 'Brutto faktury', 'Nr faktury', 'Faktura dołączona', 'Waluta'],
+        toRow: (row) => [row.teacherName, period(row), row.totalHours, row.amount, row.vatRate ?? 'zw', row.vatAmount, row.netAmount, row.invoiceNumber ?? '', row.hasInvoice ? 'tak' : 'nie', row.currency],
+      },
+      {
+        contractType: null,
+        name: 'Bez umowy',
+        header: ['Lektor', 'Okres', 'Godziny', 'Kwota', 'Waluta'],
+        toRow: (row) => [row.teacherName, period(row), row.totalHours, row.amount, row.currency],
+      },
+    ];
+
+    const summary: any[][] = [[`Lista płac ${format(month, 'MM.yyyy')}`], [], ['Typ umowy', 'Wypłat', 'Kwota', 'Do wypłaty', 'Koszt']];
+
+    for (const sheet of sheets) {
+      const sheetRows = rows.filter((row) => row.contractType === sheet.contractType);
+      if (sheetRows.length === 0) continue;
+
+      const sum = (key: keyof PayrollBreakdown) => round(sheetRows.reduce((total, row) => total + (row[key] as number), 0));
+      summary.push([sheet.name, sheetRows.length, sum('amount'), sum('netAmount'), sum('employerCost')]);
+
+      const worksheet = XLSX.utils.aoa_to_sheet([sheet.header, ...sheetRows.map(sheet.toRow)]);
+      XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name);
+    }
+
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summary), 'Podsumowanie');
+    // Summary first - that is what the accountant opens the file for
+    workbook.SheetNames.unshift(workbook.SheetNames.pop()!);
+
+    return {
+      content: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer,
+      fileName: `${fileBase}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  }
+}
+
+export default new PayrollService();
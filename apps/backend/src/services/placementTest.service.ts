@@ -0,0 +1,283 @@
+import prisma from '../utils/prisma';
+import { LanguageLevel, PlacementQuestionType, Prisma } from '@prisma/client';
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const;
+
+export type CefrLevel = (typeof CEFR_LEVELS)[number];
+
+export interface PlacementQuestionData {
+  type: PlacementQuestionType;
+  level: CefrLevel;
+  prompt: string;
+  options?: string[];
+  correctAnswers: string[];
+}
+
+export interface PlacementTestData {
+  language: string;
+  name: string;
+  description?: string;
+  timeLimitMinutes?: number;
+  passThreshold?: number;
+  isActive?: boolean;
+  questions?: PlacementQuestionData[];
+}
+
+export type LevelScores = Partial<Record<CefrLevel, { correct: number; total: number }>>;
+
+// Answers sent a little after the deadline still count (network latency, auto-submit)
+const SUBMIT_GRACE_SECONDS = 30;
+
+function normalizeAnswer(answer: string): string {
+  return answer.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function levelIndex(level: LanguageLevel): number {
+  return CEFR_LEVELS.indexOf(level as CefrLevel);
+}
+
+function toQuestionCreateInput(questions: PlacementQuestionData[]) {
+  return questions.map((question, index) => ({
+    type: question.type,
+    level: question.level as LanguageLevel,
+    prompt: question.prompt,
+    options: question.type === PlacementQuestionType.MULTIPLE_CHOICE ? question.options || [] : [],
+    correctAnswers: question.correctAnswers,
+    position: index,
+  }));
+}
+
+/**
+ * Suggested level = highest CEFR level reached without failing any lower tested level.
+ * Levels without questions are skipped; failing the lowest tested level gives A0.
+ */
+export function suggestLevel(levelScores: LevelScores, passThreshold: number): LanguageLevel {
+  let suggested: LanguageLevel = LanguageLevel.A0;
+
+  for (const level of CEFR_LEVELS) {
+    const result = levelScores[level];
+    if (!result || result.total === 0) continue;
+    if ((result.correct / result.total) * 100 < passThreshold) break;
+    suggested = level as LanguageLevel;
+  }
+
+  return suggested;
+}
+
+class PlacementTestService {
+  /**
+   * Question banks of the organization
+   */
+  async getTests(organizationId: string, filters?: { language?: string }) {
+    return prisma.placementTest.findMany({
+      where: {
+        organizationId,
+        ...(filters?.language && { language: filters.language }),
+      },
+      include: {
+        _count: { select: { questions: true, attempts: true } },
+      },
+      orderBy: [{ language: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async getTestById(id: string, organizationId: string) {
+    const test = await prisma.placementTest.findFirst({
+      where: { id, organizationId },
+      include: {
+        questions: { orderBy: { position: 'asc' } },
+      },
+    });
+
+    if (!test) {
+      throw new Error('Test poziomujący nie został znaleziony');
+    }
+
+    return test;
+  }
+
+  async createTest(data: PlacementTestData, organizationId: string) {
+    const { questions = [], ...testData } = data;
+
+    return prisma.placementTest.create({
+      data: {
+        ...testData,
+        organizationId,
+        questions: { create: toQuestionCreateInput(questions) },
+      },
+      include: {
+        questions: { orderBy: { position: 'asc' } },
+      },
+    });
+  }
+
+  /**
+   * Questions, when given, replace the whole bank - finished attempts keep their stored score
+   */
+  async updateTest(id: string, data: Partial<PlacementTestData>, organizationId: string) {
+    await this.getTestById(id, organizationId);
+    const { questions, ...testData } = data;
+
+    return prisma.$transaction(async (tx) => {
+      if (questions) {
+        await tx.placementQuestion.deleteMany({ where: { testId: id } });
+      }
+
+      return tx.placementTest.update({
+        where: { id },
+        data: {
+          ...testData,
+          ...(questions && { questions: { create: toQuestionCreateInput(questions) } }),
+        },
+        include: {
+          questions: { orderBy: { position: 'asc' } },
+        },
+      });
+    });
+  }
+
+  async deleteTest(id: string, organizationId: string) {
+    await this.getTestById(id, organizationId);
+    await prisma.placementTest.delete({ where: { id } });
+  }
+
+  /**
+   * Active tests offered on the public application form
+   */
+  async getPublicTests(orgSlug: string, language?: string) {
+    const organization = await prisma.organization.findUnique({
+      where: { slug: orgSlug },
+      select: { id: true },
+    });
+
+    if (!organization) {
+      throw new Error('Nie znaleziono szkoły');
+    }
+
+    const tests = await prisma.placementTest.findMany({
+      where: {
+        organizationId: organization.id,
+        isActive: true,
+        questions: { some: {} },
+        ...(language && { language }),
+      },
+      select: {
+        id: true,
+        language: true,
+        name: true,
+        description: true,
+        timeLimitMinutes: true,
+        _count: { select: { questions: true } },
+      },
+      orderBy: [{ language: 'asc' }, { name: 'asc' }],
+    });
+
+    return tests.map(({ _count, ...test }) => ({ ...test, questionCount: _count.questions }));
+  }
+
+  /**
+   * Start the clock - questions are returned without answers, easiest levels first
+   */
+  async startAttempt(orgSlug: string, testId: string) {
+    const test = await prisma.placementTest.findFirst({
+      where: { id: testId, isActive: true, organization: { slug: orgSlug } },
+      include: {
+        questions: {
+          select: { id: true, type: true, level: true, prompt: true, options: true, position: true },
+        },
+      },
+    });
+
+    if (!test || test.questions.length === 0) {
+      throw new Error('Test poziomujący nie jest dostępny');
+    }
+
+    const startedAt = new Date();
+    const attempt = await prisma.placementTestAttempt.create({
+      data: {
+        organizationId: test.organizationId,
+        testId: test.id,
+        startedAt,
+        expiresAt: new Date(startedAt.getTime() + test.timeLimitMinutes * 60 * 1000),
+      },
+    });
+
+    const questions = [...test.questions]
+      .sort((a, b) => levelIndex(a.level) - levelIndex(b.level) || a.position - b.position)
+      .map(({ id, type, prompt, options }) => ({ id, type, prompt, options }));
+
+    return {
+      attemptId: attempt.id,
+      testName: test.name,
+      timeLimitMinutes: test.timeLimitMinutes,
+      expiresAt: attempt.expiresAt,
+      questions,
+    };
+  }
+
+  /**
+   * Score the answers per level and store the suggested level
+   */
+  async submitAttempt(attemptId: string, answers: Record<string, string>) {
+    const attempt = await prisma.placementTestAttempt.findUnique({
+      where: { id: attemptId },
+      include: {
+        test: { include: { questions: true } },
+      },
+    });
+
+    if (!attempt) {
+      throw new Error('Nie znaleziono podejścia do testu');
+    }
+
+    if (attempt.submittedAt) {
+      throw new Error('Test został już przesłany');
+    }
+
+    if (Date.now() > attempt.expiresAt.getTime() + SUBMIT_GRACE_SECONDS * 1000) {
+      throw new Error('Czas na rozwiązanie testu minął');
+    }
+
+    const levelScores: LevelScores = {};
+    let score = 0;
+
+    for (const question of attempt.test.questions) {
+      const level = question.level as CefrLevel;
+      const result = levelScores[level] ?? { correct: 0, total: 0 };
+      const answer = answers[question.id];
+      const isCorrect =
+        !!answer && question.correctAnswers.some((correct) => normalizeAnswer(correct) === normalizeAnswer(answer));
+
+      result.total += 1;
+      if (isCorrect) {
+        result.correct += 1;
+        score += 1;
+      }
+      levelScores[level] = result;
+    }
+
+    const suggestedLevel = suggestLevel(levelScores, attempt.test.passThreshold);
+
+    const updated = await prisma.placementTestAttempt.update({
+      where: { id: attempt.id },
+      data: {
+        submittedAt: new Date(),
+        answers: answers as Prisma.InputJsonValue,
+        score,
+        maxScore: attempt.test.questions.length,
+        levelScores: levelScores as Prisma.InputJsonValue,
+        suggestedLevel,
+      },
+    });
+
+    return {
+      attemptId: updated.id,
+      score,
+      maxScore: updated.maxScore,
+      levelScores,
+      suggestedLevel,
+    };
+  }
+}
+
+export default new PlacementTestService();
@@ -1,4 +1,6 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../utils/prisma';
+import exchangeRateService, { CurrencyConverter } from './exchange-rate.service';
 
 interface ReportFilters {
   startDate?: Date;
@@ -7,6 +9,54 @@ interface ReportFilters {
   courseId?: string;
   courseType?: 'GROUP' | 'INDIVIDUAL';
   organizationId: string;
+  reportingCurrency?: string; // defaults to the organization's currency
+}
+
+export interface CurrencyAmount {
+  currency: string;
+  amount: number;
+}
+
+interface ReportPayment {
+  amount: Prisma.Decimal;
+  currency: string;
+  paidAt: Date | null;
+  createdAt: Date;
+  exchangeRateOverride: Prisma.Decimal | null;
+}
+
+const paymentAmountSelect = {
+  amount: true,
+  currency: true,
+  paidAt: true,
+  createdAt: true,
+  exchangeRateOverride: true,
+} as const;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Adds an unconverted amount to per-currency totals (shown next to the converted value in exports)
+ */
+function addOriginal(totals: CurrencyAmount[], currency: string, amount: number) {
+  const existing = totals.find((total) => total.currency === currency);
+  if (existing) {
+    existing.amount = round(existing.amount + amount);
+  } else {
+    totals.push({ currency, amount: round(amount) });
+  }
+}
+
+/**
+ * Payment amount in the reporting currency - rate from the payment date, manual override wins
+ */
+function convertPayment(converter: CurrencyConverter, payment: ReportPayment): Promise<number> {
+  return converter.convert(
+    Number(payment.amount),
+    payment.currency,
+    payment.paidAt ?? payment.createdAt,
+    payment.exchangeRateOverride ? Number(payment.exchangeRateOverride) : null
+  );
 }
 
 interface TeacherPayoutData {
@@ -18,6 +68,8 @@ interface TeacherPayoutData {
   lessonsCount: number;
   totalHours: number;
   totalPayout: number;
+  currency: string; // reporting currency of totalPayout
+  originalPayout: CurrencyAmount[];
   payoutStatus?: string;
 }
 
@@ -33,6 +85,8 @@ interface NewStudentData {
   goals: string | null;
   enrollmentsCount: number;
   totalSpent: number;
+  currency: string;
+  originalSpent: CurrencyAmount[];
 }
 
 interface MarginData {
@@ -47,6 +101,9 @@ interface MarginData {
   totalTeacherCost: number;
   grossProfit: number;
   marginPercent: number;
+  currency: string;
+  originalRevenue: CurrencyAmount[];
+  originalTeacherCost: CurrencyAmount[];
 }
 
 interface DebtorData {
@@ -55,6 +112,8 @@ interface DebtorData {
   email: string;
   phone: string | null;
   totalDebt: number;
+  currency: string;
+  originalDebt: CurrencyAmount[];
   oldestPaymentDate: Date;
   daysOverdue: number;
   pendingPaymentsCount: number;
@@ -95,6 +154,7 @@ class ReportService {
    */
   async generateTeacherPayoutsReport(filters: ReportFilters): Promise<TeacherPayoutData[]> {
     const { organizationId, startDate, endDate, teacherId } = filters;
+    const converter = await exchangeRateService.createConverter(organizationId, filters.reportingCurrency);
 
     const whereClause: any = {
       organizationId,
@@ -130,22 +190,31 @@ class ReportService {
             id: true,
             durationMinutes: true,
             teacherRate: true,
+            currency: true,
+            scheduledAt: true,
           },
         },
       },
     });
 
-    const result: TeacherPayoutData[] = teachers.map((teacher) => {
+    const result: TeacherPayoutData[] = [];
+
+    for (const teacher of teachers) {
       const lessonsCount = teacher.lessons.length;
       const totalMinutes = teacher.lessons.reduce((sum, lesson) => sum + lesson.durationMinutes, 0);
       const totalHours = totalMinutes / 60;
-      const totalPayout = teacher.lessons.reduce((sum, lesson) => {
+      const originalPayout: CurrencyAmount[] = [];
+      let totalPayout = 0;
+
+      for (const lesson of teacher.lessons) {
         // Zamieniamy Decimal na number przed dodawaniem
         const rate = lesson.teacherRate ? lesson.teacherRate.toNumber() : 0;
-        return sum + rate;
-      }, 0);
+        if (!rate) continue;
+        addOriginal(originalPayout, lesson.currency, rate);
+        totalPayout += await converter.convert(rate, lesson.currency, lesson.scheduledAt);
+      }
 
-      return {
+      result.push({
         teacherId: teacher.id,
         teacherName: `${teacher.user.firstName} ${teacher.user.lastName}`,
         email: teacher.user.email,
@@ -154,9 +223,11 @@ class ReportService {
         lessonsCount,
         totalHours: Math.round(totalHours * 100) / 100,
         totalPayout: Math.round(totalPayout * 100) / 100,
+        currency: converter.targetCurrency,
+        originalPayout,
         payoutStatus: 'PENDING', // Default status, can be enhanced with TeacherPayout table
-      };
-    });
+      });
+    }
 
     return result;
   }
@@ -167,8 +238,10 @@ class ReportService {
   async generateNewStudentsReport(
     organizationId: string,
     month: number,
-    year: number
+    year: number,
+    reportingCurrency?: string
   ): Promise<NewStudentData[]> {
+    const converter = await exchangeRateService.createConverter(organizationId, reportingCurrency);
     const startDate = new Date(year, month - 1, 1);
     const endDate = new Date(year, month, 0, 23, 59, 59);
 
@@ -198,9 +271,7 @@ class ReportService {
           where: {
             status: 'COMPLETED',
           },
-          select: {
-            amount: true,
-          },
+          select: paymentAmountSelect,
         },
       },
       orderBy: {
@@ -208,10 +279,18 @@ class ReportService {
       },
     });
 
-    const result: NewStudentData[] = students.map((student) => {
-      const totalSpent = student.payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+    const result: NewStudentData[] = [];
+
+    for (const student of students) {
+      const originalSpent: CurrencyAmount[] = [];
+      let totalSpent = 0;
+
+      for (const payment of student.payments) {
+        addOriginal(originalSpent, payment.currency, Number(payment.amount));
+        totalSpent += await convertPayment(converter, payment);
+      }
 
-      return {
+      result.push({
         studentId: student.id,
         studentNumber: student.studentNumber,
         firstName: student.user.firstName,
@@ -223,8 +302,10 @@ class ReportService {
         goals: student.goals,
         enrollmentsCount: student.enrollments.length,
         totalSpent: Math.round(totalSpent * 100) / 100,
-      };
-    });
+        currency: converter.targetCurrency,
+        originalSpent,
+      });
+    }
 
     return result;
   }
@@ -234,6 +315,7 @@ class ReportService {
    */
   async generateMarginsReport(filters: ReportFilters): Promise<MarginData[]> {
     const { organizationId, startDate, endDate, courseId, courseType } = filters;
+    const converter = await exchangeRateService.createConverter(organizationId, filters.reportingCurrency);
 
     const whereClause: any = {
       organizationId,
@@ -265,6 +347,8 @@ class ReportService {
           select: {
             id: true,
             teacherRate: true,
+            currency: true,
+            scheduledAt: true,
           },
         },
         enrollments: {
@@ -281,37 +365,44 @@ class ReportService {
                     }
                   : {}),
               },
-              select: {
-                amount: true,
-              },
+              select: paymentAmountSelect,
             },
           },
         },
       },
     });
 
-    const result: MarginData[] = courses.map((course) => {
+    const result: MarginData[] = [];
+
+    for (const course of courses) {
       const lessonsCount = course.lessons.length;
-      const totalTeacherCost = course.lessons.reduce(
-        (sum, lesson) => sum + Number(lesson.teacherRate || 0),
-        0
-      );
+      const originalTeacherCost: CurrencyAmount[] = [];
+      let totalTeacherCost = 0;
+
+      for (const lesson of course.lessons) {
+        const rate = Number(lesson.teacherRate || 0);
+        if (!rate) continue;
+        addOriginal(originalTeacherCost, lesson.currency, rate);
+        totalTeacherCost += await converter.convert(rate, lesson.currency, lesson.scheduledAt);
+      }
 
       const paymentsCount = course.enrollments.reduce(
         (sum, enroll) => sum + enroll.payments.length,
         0
       );
 
-      const totalRevenue = course.enrollments.reduce(
-        (sum, enroll) =>
-          sum + enroll.payments.reduce((paySum, pay) => paySum + Number(pay.amount), 0),
-        0
-      );
+      const originalRevenue: CurrencyAmount[] = [];
+      let totalRevenue = 0;
+
+      for (const payment of course.enrollments.flatMap((enroll) => enroll.payments)) {
+        addOriginal(originalRevenue, payment.currency, Number(payment.amount));
+        totalRevenue += await convertPayment(converter, payment);
+      }
 
       const grossProfit = totalRevenue - totalTeacherCost;
       const marginPercent = totalRevenue > 0 ? (grossProfit / totalRevenue) * 100 : 0;
 
-      return {
+      result.push({
         courseId: course.id,
         courseName: course.name,
         courseType: course.courseType,
@@ -323,8 +414,11 @@ class ReportService {
         totalTeacherCost: Math.round(totalTeacherCost * 100) / 100,
         grossProfit: Math.round(grossProfit * 100) / 100,
         marginPercent: Math.round(marginPercent * 100) / 100,
-      };
-    });
+        currency: converter.targetCurrency,
+        originalRevenue,
+        originalTeacherCost,
+      });
+    }
 
     return result.filter((r) => r.lessonsCount > 0 || r.paymentsCount > 0);
   }
@@ -335,8 +429,10 @@ class ReportService {
   async generateDebtorsReport(
     organizationId: string,
     minAmount?: number,
-    daysPastDue?: number
+    daysPastDue?: number,
+    reportingCurrency?: string
   ): Promise<DebtorData[]> {
+    const converter = await exchangeRateService.createConverter(organizationId, reportingCurrency);
     const now = new Date();
 
     const pendingPayments = await prisma.payment.findMany({
@@ -374,9 +470,11 @@ class ReportService {
       const daysOverdue = payment.dueAt
         ? Math.floor((now.getTime() - payment.dueAt.getTime()) / (1000 * 60 * 60 * 24))
         : 0;
+      const amount = await convertPayment(converter, payment);
 
       if (existing) {
-        existing.totalDebt += Number(payment.amount);
+        existing.totalDebt += amount;
+        addOriginal(existing.originalDebt, payment.currency, Number(payment.amount));
         existing.pendingPaymentsCount += 1;
         if (payment.dueAt && payment.dueAt < existing.oldestPaymentDate) {
           existing.oldestPaymentDate = payment.dueAt;
@@ -388,7 +486,9 @@ class ReportService {
           studentName: `${payment.student.user.firstName} ${payment.student.user.lastName}`,
           email: payment.student.user.email,
           phone: payment.student.user.phone,
-          totalDebt: Number(payment.amount),
+          totalDebt: amount,
+          currency: converter.targetCurrency,
+          originalDebt: [{ currency: payment.currency, amount: Number(payment.amount) }],
           oldestPaymentDate: payment.dueAt || payment.createdAt,
           daysOverdue,
           pendingPaymentsCount: 1,
@@ -396,7 +496,10 @@ class ReportService {
       }
     }
 
-    let result = Array.from(debtorMap.values());
+    let result = Array.from(debtorMap.values()).map((debtor) => ({
+      ...debtor,
+      totalDebt: round(debtor.totalDebt),
+    }));
 
     // Apply filters
     if (minAmount) {
@@ -0,0 +1,202 @@
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { UserRole } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+  role: UserRole;
+  organizationId: string;
+}
+
+export interface SessionMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export type SessionRevokeReason = 'LOGOUT' | 'LOGOUT_ALL' | 'DEACTIVATED' | 'PASSWORD_RESET' | 'ORGANIZATION_SWITCH' | 'TOKEN_REUSE';
+
+// A second tab may present the just-rotated token a moment after the first one refreshed
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export class SessionService {
+  private readonly JWT_SECRET: string;
+  private readonly ACCESS_TOKEN_EXPIRES_IN: string;
+  private readonly REFRESH_TOKEN_TTL_DAYS: number;
+
+  constructor() {
+    this.JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+    this.ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+    this.REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+  }
+
+  /**
+   * Start a new session (login) and issue an access + refresh token pair
+   */
+  async createSession(payload: AccessTokenPayload, meta: SessionMeta = {}) {
+    const refreshToken = this.generateRefreshToken();
+
+    const session = await prisma.userSession.create({
+      data: {
+        userId: payload.id,
+        refreshTokenHash: this.hashToken(refreshToken),
+        userAgent: meta.userAgent?.slice(0, 500),
+        ipAddress: meta.ipAddress,
+        expiresAt: this.refreshTokenExpiry(),
+      },
+    });
+
+    return {
+      token: this.signAccessToken(payload, session.id),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The refresh token is rotated on every use;
+   * presenting an already rotated token revokes the whole session.
+   */
+  async refresh(refreshToken: string, meta: SessionMeta = {}) {
+    const tokenHash = this.hashToken(refreshToken);
+    const session = await prisma.userSession.findUnique({
+      where: { refreshTokenHash: tokenHash },
+      include: {
+        user: { select: { id: true, email: true, role: true, organizationId: true, isActive: true } },
+      },
+    });
+
+    if (!session) {
+      const rotated = await prisma.userSession.findUnique({ where: { previousTokenHash: tokenHash } });
+      if (rotated && !rotated.revokedAt && Date.now() - rotated.lastUsedAt.getTime() > ROTATION_GRACE_MS) {
+        await this.revokeSession(rotated.id, rotated.userId, 'TOKEN_REUSE');
+      }
+      throw this.invalidRefreshToken();
+    }
+
+    if (session.revokedAt || session.expiresAt < new Date()) {
+      throw this.invalidRefreshToken();
+    }
+
+    if (!session.user.isActive) {
+      await this.revokeSession(session.id, session.userId, 'DEACTIVATED');
+      throw this.invalidRefreshToken();
+    }
+
+    // Conditional on the presented token, so two concurrent refreshes cannot both rotate it
+    const newRefreshToken = this.generateRefreshToken();
+    const rotation = await prisma.userSession.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: this.hashToken(newRefreshToken),
+        previousTokenHash: tokenHash,
+        lastUsedAt: new Date(),
+        expiresAt: this.refreshTokenExpiry(), // sliding: the session ends after TTL days without activity
+        ...(meta.userAgent && { userAgent: meta.userAgent.slice(0, 500) }),
+        ...(meta.ipAddress && { ipAddress: meta.ipAddress }),
+      },
+    });
+
+    if (rotation.count === 0) {
+      throw this.invalidRefreshToken();
+    }
+
+    // Role and organization are re-read on every refresh, so changes apply within one access token lifetime
+    const { user } = session;
+    return {
+      token: this.signAccessToken(
+        { id: user.id, email: user.email, role: user.role, organizationId: user.organizationId },
+        session.id,
+      ),
+      refreshToken: newRefreshToken,
+    };
+  }
+
+  /**
+   * Checked by the auth middleware on every request
+   */
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await prisma.userSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+
+    return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  async getActiveSessions(userId: string, currentSessionId?: string) {
+    const sessions = await prisma.userSession.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: { id: true, userAgent: true, ipAddress: true, lastUsedAt: true, createdAt: true, expiresAt: true },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({ ...session, isCurrent: session.id === currentSessionId }));
+  }
+
+  async revokeSession(sessionId: string, userId: string, reason: SessionRevokeReason = 'LOGOUT') {
+    const result = await prisma.userSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    if (result.count === 0) {
+      throw new Error('Sesja nie istnieje lub została już zakończona');
+    }
+  }
+
+  /**
+   * Log the user out everywhere (optionally keeping the session that made the request)
+   */
+  async revokeAllSessions(userId: string, reason: SessionRevokeReason, exceptSessionId?: string) {
+    const result = await prisma.userSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Housekeeping - drop sessions that expired or were revoked more than 30 days ago
+   */
+  async cleanupSessions() {
+    const cutoff = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const result = await prisma.userSession.deleteMany({
+      where: { OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }] },
+    });
+
+    return result.count;
+  }
+
+  private signAccessToken(payload: AccessTokenPayload, sessionId: string): string {
+    return jwt.sign({ ...payload, sid: sessionId }, this.JWT_SECRET, {
+      expiresIn: this.ACCESS_TOKEN_EXPIRES_IN as any,
+    });
+  }
+
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(48).toString('hex');
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private refreshTokenExpiry(): Date {
+    return new Date(Date.now() + this.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  private invalidRefreshToken() {
+    const error: any = new Error('Sesja wygasła. Zaloguj się ponownie.');
+    error.statusCode = 401;
+    error.code = 'INVALID_REFRESH_TOKEN';
+    return error;
+  }
+}
+
+export default new SessionService();
@@ -3,6 +3,7 @@ import { EnrollmentStatus, LanguageLevel, UserRole } from '@prisma/client';
 import bcrypt from 'bcrypt';
 import { parse } from 'csv-parse/sync';
 import { organizationService, VisibilitySettings } from './organization.service';
+import sessionService from './session.service';
 
 interface CreateStudentData {
   email: string;
@@ -17,6 +18,7 @@ interface CreateStudentData {
   isMinor?: boolean;
   paymentDueDays?: number | null;
   paymentDueDayOfMonth?: number | null;
+  isProvisional?: boolean;
   organizationId: string;
 }
 
@@ -59,6 +61,7 @@ export class StudentService {
       isMinor,
       paymentDueDays,
       paymentDueDayOfMonth,
+      isProvisional,
       organizationId
     } = data;
 
@@ -122,6 +125,7 @@ export class StudentService {
           isMinor: isMinor || false,
           paymentDueDays,
           paymentDueDayOfMonth,
+          isProvisional: isProvisional || false,
         },
         include: {
           user: {
@@ -490,6 +494,73 @@ export class StudentService {
     }
   }
 
+  /**
+   * Turn a provisional (trial lesson) student into a full student with login credentials
+   */
+  async activateProvisionalStudent(
+    id: string,
+    organizationId: string,
+    data: Pick<CreateStudentData, 'email' | 'password' | 'firstName' | 'lastName' | 'phone' | 'languageLevel' | 'language'>
+  ) {
+    const student = await prisma.student.findFirst({
+      where: { id, organizationId, isProvisional: true, archivedAt: null },
+    });
+
+    if (!student) {
+      throw new Error('Provisional student not found');
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: data.email },
+    });
+
+    if (existingUser && existingUser.id !== student.userId) {
+      const error: any = new Error('Użytkownik z tym adresem email już istnieje. Użyj innego adresu.');
+      error.statusCode = 409;
+      error.code = 'DUPLICATE_EMAIL';
+      throw error;
+    }
+
+    const passwordHash = await bcrypt.hash(data.password, 10);
+
+    const [, updated] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: student.userId },
+        data: {
+          email: data.email,
+          passwordHash,
+          firstName: data.firstName,
+          lastName: data.lastName,
+          phone: data.phone,
+          isActive: true,
+        },
+      }),
+      prisma.student.update({
+        where: { id },
+        data: {
+          languageLevel: data.languageLevel,
+          language: data.language,
+          isProvisional: false,
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              firstName: true,
+              lastName: true,
+              phone: true,
+              avatarUrl: true,
+              isActive: true,
+            },
+          },
+        },
+      }),
+    ]);
+
+    return updated;
+  }
+
   async deleteStudent(id: string, organizationId: string) {
     const student = await prisma.student.findFirst({
       where: { id, organizationId },
@@ -510,6 +581,7 @@ export class StudentService {
         data: { archivedAt: new Date() },
       }),
     ]);
+    await sessionService.revokeAllSessions(student.userId, 'DEACTIVATED');
 
     return { success: true, message: 'Student archived' };
   }
@@ -630,7 +702,8 @@ export class StudentService {
     const studentsWithLowBudget = enrollments.filter((enrollment) => {
       const hoursPurchased = parseFloat(enrollment.hoursPurchased.toString());
       const hoursUsed = parseFloat(enrollment.hoursUsed.toString());
-      const hoursRemaining = hoursPurchased - hoursUsed;
+      const hoursExpired = parseFloat(enrollment.hoursExpired.toString());
+      const hoursRemaining = hoursPurchased - hoursUsed - hoursExpired;
       return hoursRemaining <= 2 && hoursRemaining > 0;
     }).length;
 
@@ -648,7 +721,7 @@ export class StudentService {
     const enrollment = await prisma.studentEnrollment.findFirst({
       where: {
         id: enrollmentId,
-        course: { organizationId },
+        student: { organizationId },
       },
       include: {
         student: {
@@ -666,6 +739,11 @@ export class StudentService {
             name: true,
           },
         },
+        package: {
+          select: {
+            name: true,
+          },
+        },
       },
     });
 
@@ -675,14 +753,17 @@ export class StudentService {
 
     const hoursPurchased = parseFloat(enrollment.hoursPurchased.toString());
     const hoursUsed = parseFloat(enrollment.hoursUsed.toString());
-    const hoursRemaining = hoursPurchased - hoursUsed;
+    const hoursExpired = parseFloat(enrollment.hoursExpired.toString());
+    const hoursRemaining = Math.max(0, hoursPurchased - hoursUsed - hoursExpired);
 
     return {
       enrollmentId: enrollment.id,
       studentName: `${enrollment.student.user.firstName} ${enrollment.student.user.lastName}`,
       courseName: enrollment.course?.name || 'N/A',
+      packageName: enrollment.package?.name || null,
       hoursPurchased,
       hoursUsed,
+      hoursExpired,
       hoursRemaining,
       lowBudget: hoursRemaining <= 2,
       status: enrollment.status,
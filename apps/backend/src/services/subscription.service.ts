@@ -0,0 +1,447 @@
+import prisma from '../utils/prisma';
+import { PaymentMethod, AlertType, AlertPriority, Prisma } from '@prisma/client';
+import { format, addDays, addMonths, getDaysInMonth, startOfDay } from 'date-fns';
+
+export interface CreateSubscriptionData {
+  organizationId: string;
+  name: string;
+  description?: string;
+  monthlyPrice: number;
+  lessonsPerMonth: number;
+  currency?: string;
+  isActive?: boolean;
+}
+
+export interface UpdateSubscriptionData {
+  name?: string;
+  description?: string;
+  monthlyPrice?: number;
+  lessonsPerMonth?: number;
+  currency?: string;
+  isActive?: boolean;
+}
+
+export interface AssignSubscriptionData {
+  studentId: string;
+  courseId?: string;
+  paymentMethod?: PaymentMethod;
+  notes?: string;
+}
+
+const enrollmentInclude = {
+  subscription: {
+    select: {
+      id: true,
+      name: true,
+      monthlyPrice: true,
+      lessonsPerMonth: true,
+      currency: true,
+    },
+  },
+  course: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+};
+
+type ChargeableEnrollment = Prisma.StudentEnrollmentGetPayload<{
+  include: {
+    subscription: true;
+    student: { select: { organizationId: true; paymentDueDays: true; paymentDueDayOfMonth: true } };
+  };
+}>;
+
+class SubscriptionService {
+  /**
+   * Get all subscription plans for organization
+   */
+  async getSubscriptions(organizationId: string, filters?: { isActive?: boolean }) {
+    return prisma.subscription.findMany({
+      where: {
+        organizationId,
+        ...(filters?.isActive !== undefined && { isActive: filters.isActive }),
+      },
+      include: {
+        _count: {
+          select: { enrollments: { where: { status: { in: ['ACTIVE', 'PAUSED'] } } } },
+        },
+      },
+      orderBy: [{ isActive: 'desc' }, { monthlyPrice: 'asc' }],
+    });
+  }
+
+  /**
+   * Get subscription plan by ID
+   */
+  async getSubscriptionById(id: string, organizationId: string) {
+    const subscription = await prisma.subscription.findFirst({
+      where: { id, organizationId },
+      include: {
+        _count: {
+          select: { enrollments: { where: { status: { in: ['ACTIVE', 'PAUSED'] } } } },
+        },
+      },
+    });
+
+    if (!subscription) {
+      throw new Error('Abonament nie został znaleziony');
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Create subscription plan
+   */
+  async createSubscription(data: CreateSubscriptionData) {
+    return prisma.subscription.create({
+      data: {
+        organizationId: data.organizationId,
+        name: data.name,
+        description: data.description,
+        monthlyPrice: data.monthlyPrice,
+        lessonsPerMonth: data.lessonsPerMonth,
+        currency: data.currency || 'PLN',
+        isActive: data.isActive ?? true,
+      },
+    });
+  }
+
+  /**
+   * Update subscription plan
+   * Price changes apply from the next monthly charge.
+   */
+  async updateSubscription(id: string, organizationId: string, data: UpdateSubscriptionData) {
+    await this.getSubscriptionById(id, organizationId);
+
+    return prisma.subscription.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.monthlyPrice !== undefined && { monthlyPrice: data.monthlyPrice }),
+        ...(data.lessonsPerMonth !== undefined && { lessonsPerMonth: data.lessonsPerMonth }),
+        ...(data.currency !== undefined && { currency: data.currency }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+      },
+    });
+  }
+
+  /**
+   * Delete subscription plan (deactivates it if any student ever had it)
+   */
+  async deleteSubscription(id: string, organizationId: string) {
+    await this.getSubscriptionById(id, organizationId);
+
+    const enrollmentsCount = await prisma.studentEnrollment.count({
+      where: { subscriptionId: id },
+    });
+
+    if (enrollmentsCount > 0) {
+      await prisma.subscription.update({
+        where: { id },
+        data: { isActive: false },
+      });
+      return { message: 'Abonament był przypisany uczniom, więc został dezaktywowany zamiast usunięty', deactivated: true };
+    }
+
+    await prisma.subscription.delete({ where: { id } });
+    return { message: 'Abonament został usunięty', deactivated: false };
+  }
+
+  /**
+   * Assign subscription plan to student
+   * Creates a SUBSCRIPTION enrollment (or switches the plan of an existing one) and
+   * charges the current month right away.
+   */
+  async assignSubscriptionToStudent(subscriptionId: string, organizationId: string, data: AssignSubscriptionData) {
+    const subscription = await this.getSubscriptionById(subscriptionId, organizationId);
+
+    if (!subscription.isActive) {
+      throw new Error('Abonament jest nieaktywny');
+    }
+
+    const student = await prisma.student.findFirst({
+      where: { id: data.studentId, organizationId },
+    });
+
+    if (!student) {
+      throw new Error('Student not found');
+    }
+
+    if (data.courseId) {
+      const course = await prisma.course.findFirst({
+        where: { id: data.courseId, organizationId },
+        select: { id: true },
+      });
+      if (!course) {
+        throw new Error('Course not found');
+      }
+    }
+
+    const existingEnrollment = data.courseId
+      ? await prisma.studentEnrollment.findFirst({
+          where: {
+            studentId: data.studentId,
+            courseId: data.courseId,
+            status: { in: ['ACTIVE', 'PAUSED'] },
+          },
+        })
+      : null;
+
+    if (existingEnrollment && existingEnrollment.paymentMode !== 'SUBSCRIPTION') {
+      throw new Error('Uczeń jest zapisany na ten kurs w innym trybie płatności niż abonament');
+    }
+
+    // Plan change: the new price is charged from the next billing period
+    if (existingEnrollment) {
+      return {
+        enrollment: await prisma.studentEnrollment.update({
+          where: { id: existingEnrollment.id },
+          data: { subscriptionId: subscription.id },
+          include: enrollmentInclude,
+        }),
+        payment: null,
+      };
+    }
+
+    const enrollment = await prisma.studentEnrollment.create({
+      data: {
+        studentId: data.studentId,
+        courseId: data.courseId || null,
+        subscriptionId: subscription.id,
+        enrollmentDate: new Date(),
+        status: 'ACTIVE',
+        paymentMode: 'SUBSCRIPTION',
+        hoursPurchased: 0,
+        hoursUsed: 0,
+        notes: data.notes,
+      },
+      include: {
+        ...enrollmentInclude,
+        subscription: true,
+        student: { select: { organizationId: true, paymentDueDays: true, paymentDueDayOfMonth: true } },
+      },
+    });
+
+    const payment = await this.chargeEnrollment(enrollment, new Date(), data.paymentMethod);
+
+    return { enrollment, payment };
+  }
+
+  /**
+   * Pause, resume or cancel a subscription enrollment
+   * Paused enrollments are not charged for the months in which they stay paused.
+   */
+  async updateSubscriptionStatus(enrollmentId: string, organizationId: string, status: 'ACTIVE' | 'PAUSED' | 'CANCELLED') {
+    const enrollment = await prisma.studentEnrollment.findFirst({
+      where: {
+        id: enrollmentId,
+        paymentMode: 'SUBSCRIPTION',
+        student: { organizationId },
+      },
+    });
+
+    if (!enrollment) {
+      throw new Error('Enrollment not found');
+    }
+
+    if (enrollment.status === 'CANCELLED' || enrollment.status === 'COMPLETED') {
+      throw new Error('Abonament został już zakończony');
+    }
+
+    return prisma.studentEnrollment.update({
+      where: { id: enrollmentId },
+      data: { status },
+      include: enrollmentInclude,
+    });
+  }
+
+  /**
+   * Get subscription enrollments of a student with monthly allowance info
+   */
+  async getStudentSubscriptions(studentId: string, organizationId: string) {
+    const enrollments = await prisma.studentEnrollment.findMany({
+      where: {
+        studentId,
+        paymentMode: 'SUBSCRIPTION',
+        student: { organizationId },
+      },
+      include: enrollmentInclude,
+      orderBy: [{ status: 'asc' }, { enrollmentDate: 'desc' }],
+    });
+
+    return enrollments.map((enrollment) => {
+      const lessonsPerMonth = enrollment.subscription?.lessonsPerMonth ?? 0;
+
+      return {
+        ...enrollment,
+        lessonsPerMonth,
+        lessonsRemaining: Math.max(0, lessonsPerMonth - enrollment.lessonsUsedInPeriod),
+        overLimit: enrollment.lessonsUsedInPeriod > lessonsPerMonth,
+      };
+    });
+  }
+
+  /**
+   * Generate monthly charges for all subscription enrollments
+   * Runs daily and is idempotent - each enrollment is charged at most once per month.
+   * Paused enrollments only get their allowance reset.
+   */
+  async chargeMonthlySubscriptions(referenceDate: Date = new Date()) {
+    const period = format(referenceDate, 'yyyy-MM');
+
+    const enrollments = await prisma.studentEnrollment.findMany({
+      where: {
+        paymentMode: 'SUBSCRIPTION',
+        subscriptionId: { not: null },
+        status: { in: ['ACTIVE', 'PAUSED'] },
+        OR: [{ billingPeriod: null }, { billingPeriod: { not: period } }],
+      },
+      include: {
+        subscription: true,
+        student: { select: { organizationId: true, paymentDueDays: true, paymentDueDayOfMonth: true } },
+      },
+    });
+
+    const results = [];
+
+    for (const enrollment of enrollments) {
+      try {
+        const payment = await this.chargeEnrollment(enrollment, referenceDate);
+        results.push({ enrollmentId: enrollment.id, paymentId: payment?.id ?? null, skipped: !payment });
+      } catch (error) {
+        console.error(`Failed to charge subscription enrollment ${enrollment.id}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Count a completed lesson against the monthly allowance and flag the student
+   * the first time the limit is exceeded in the current period
+   */
+  async registerLessonUsage(enrollmentId: string, tx: Prisma.TransactionClient = prisma) {
+    const enrollment = await tx.studentEnrollment.update({
+      where: { id: enrollmentId },
+      data: { lessonsUsedInPeriod: { increment: 1 } },
+      include: {
+        subscription: true,
+        student: {
+          select: {
+            id: true,
+            organizationId: true,
+            user: { select: { firstName: true, lastName: true } },
+          },
+        },
+      },
+    });
+
+    const limit = enrollment.subscription?.lessonsPerMonth;
+    if (limit === undefined || enrollment.lessonsUsedInPeriod !== limit + 1) {
+      return;
+    }
+
+    const studentName = `${enrollment.student.user.firstName} ${enrollment.student.user.lastName}`;
+    await tx.alert.create({
+      data: {
+        organizationId: enrollment.student.organizationId,
+        type: AlertType.WARNING,
+        priority: AlertPriority.NORMAL,
+        title: 'Przekroczony limit lekcji w abonamencie',
+        message: `Uczeń ${studentName} przekroczył limit ${limit} lekcji w miesiącu w abonamencie "${enrollment.subscription!.name}".`,
+        metadata: {
+          studentId: enrollment.student.id,
+          enrollmentId: enrollment.id,
+          billingPeriod: enrollment.billingPeriod,
+          lessonsUsed: enrollment.lessonsUsedInPeriod,
+          lessonsPerMonth: limit,
+        },
+      },
+    });
+  }
+
+  /**
+   * Give back a lesson to the monthly allowance (lesson reverted from COMPLETED)
+   */
+  async releaseLessonUsage(enrollmentId: string, tx: Prisma.TransactionClient = prisma) {
+    await tx.studentEnrollment.updateMany({
+      where: { id: enrollmentId, lessonsUsedInPeriod: { gt: 0 } },
+      data: { lessonsUsedInPeriod: { decrement: 1 } },
+    });
+  }
+
+  /**
+   * Open a new billing period for the enrollment: reset the allowance and,
+   * unless the enrollment is paused, create the monthly payment
+   */
+  private async chargeEnrollment(enrollment: ChargeableEnrollment, chargeDate: Date, paymentMethod?: PaymentMethod) {
+    const period = format(chargeDate, 'yyyy-MM');
+    const subscription = enrollment.subscription;
+
+    if (!subscription) {
+      return null;
+    }
+
+    return prisma.$transaction(async (tx) => {
+      // Guarded update so concurrent runs cannot open the same period twice
+      const opened = await tx.studentEnrollment.updateMany({
+        where: {
+          id: enrollment.id,
+          OR: [{ billingPeriod: null }, { billingPeriod: { not: period } }],
+        },
+        data: {
+          billingPeriod: period,
+          lessonsUsedInPeriod: 0,
+        },
+      });
+
+      if (opened.count === 0 || enrollment.status !== 'ACTIVE') {
+        return null;
+      }
+
+      return tx.payment.create({
+        data: {
+          organizationId: enrollment.student.organizationId,
+          studentId: enrollment.studentId,
+          enrollmentId: enrollment.id,
+          amount: subscription.monthlyPrice,
+          currency: subscription.currency,
+          status: 'PENDING',
+          paymentMethod: paymentMethod || PaymentMethod.BANK_TRANSFER,
+          dueAt: this.getDueDate(enrollment.student, chargeDate),
+          billingPeriod: period,
+          notes: `Abonament: ${subscription.name} (${period})`,
+        },
+      });
+    });
+  }
+
+  /**
+   * Due date of a monthly charge based on student's payment settings
+   */
+  private getDueDate(
+    student: { paymentDueDays: number | null; paymentDueDayOfMonth: number | null },
+    chargeDate: Date
+  ): Date {
+    if (student.paymentDueDayOfMonth) {
+      const dayInMonth = (date: Date) =>
+        new Date(date.getFullYear(), date.getMonth(), Math.min(student.paymentDueDayOfMonth!, getDaysInMonth(date)));
+
+      const dueAt = dayInMonth(chargeDate);
+      // Day already passed this month (e.g. subscription assigned mid-month) - use next month
+      return dueAt < startOfDay(chargeDate) ? dayInMonth(addMonths(chargeDate, 1)) : dueAt;
+    }
+
+    if (student.paymentDueDays) {
+      return addDays(chargeDate, student.paymentDueDays);
+    }
+
+    return chargeDate;
+  }
+}
+
+export default new SubscriptionService();
@@ -1,4 +1,8 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, LessonStatus } from '@prisma/client';
+import lessonService from './lesson.service';
+import emailService from './email.service';
+import googleCalendarService from './google-calendar.service';
+import { getLessonStudents, participantsWithUserInclude } from '../utils/lesson-participants';
 
 const prisma = new PrismaClient();
 
@@ -27,6 +31,56 @@ export interface GetSubstitutionsFilters {
   offset?: number;
 }
 
+export interface BulkSubstitutionData {
+  organizationId: string;
+  originalTeacherId: string;
+  dateFrom: Date;
+  dateTo: Date;
+  substituteTeacherId?: string; // When omitted, the best-ranked free candidate is picked per lesson
+  reason?: string;
+  notes?: string;
+}
+
+export interface SubstituteCandidate {
+  teacher: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  score: number;
+  hasConflict: boolean;
+  conflicts: string[];
+  availabilityWarnings: string[];
+  reasons: string[];
+}
+
+const MAX_BULK_RANGE_DAYS = 31;
+
+// Teacher.languages is free text, courses store ISO codes
+const languageAliases: Record<string, string[]> = {
+  en: ['en', 'angielski', 'english'],
+  de: ['de', 'niemiecki', 'german', 'deutsch'],
+  es: ['es', 'hiszpański', 'spanish', 'español'],
+  fr: ['fr', 'francuski', 'french', 'français'],
+  it: ['it', 'włoski', 'italian', 'italiano'],
+  pl: ['pl', 'polski', 'polish'],
+};
+
+const cancelledStatuses: LessonStatus[] = ['CANCELLED_ON_TIME', 'CANCELLED_LATE'];
+
+function matchesLanguage(values: string[], language: string): boolean {
+  const aliases = languageAliases[language] || [language.toLowerCase()];
+  return values.some((value) => {
+    const normalized = value.trim().toLowerCase();
+    return aliases.some((alias) => normalized === alias || (alias.length > 2 && normalized.includes(alias)));
+  });
+}
+
+function mentionsLevel(values: string[], level: string): boolean {
+  return values.some((value) => new RegExp(`\\b${level}\\b`, 'i').test(value));
+}
+
 class SubstitutionService {
   /**
    * Create a new substitution
@@ -53,6 +107,8 @@ class SubstitutionService {
       throw new Error('Substitution already exists for this lesson');
     }
 
+    await this.assertNotPaidOut(data.lessonId);
+
     // Verify both teachers exist and belong to the organization
     const [originalTeacher, substituteTeacher] = await Promise.all([
       prisma.teacher.findFirst({
@@ -114,6 +170,8 @@ class SubstitutionService {
       },
     });
 
+    this.afterSubstitutionChange(data.lessonId, 'assigned', substitution.substituteTeacherId);
+
     return substitution;
   }
 
@@ -298,6 +356,10 @@ class SubstitutionService {
       if (existingSubstitution.originalTeacherId === data.substituteTeacherId) {
         throw new Error('Original teacher and substitute teacher cannot be the same');
       }
+
+      if (data.substituteTeacherId !== existingSubstitution.substituteTeacherId) {
+        await this.assertNotPaidOut(existingSubstitution.lessonId);
+      }
     }
 
     const substitution = await prisma.substitution.update({
@@ -331,6 +393,15 @@ class SubstitutionService {
       },
     });
 
+    if (data.substituteTeacherId && data.substituteTeacherId !== existingSubstitution.substituteTeacherId) {
+      this.afterSubstitutionChange(
+        existingSubstitution.lessonId,
+        'changed',
+        data.substituteTeacherId,
+        existingSubstitution.substituteTeacherId
+      );
+    }
+
     return substitution;
   }
 
@@ -350,12 +421,417 @@ class SubstitutionService {
       throw new Error('Substitution not found');
     }
 
+    await this.assertNotPaidOut(existingSubstitution.lessonId);
+
     await prisma.substitution.delete({
       where: { id },
     });
 
+    this.afterSubstitutionChange(
+      existingSubstitution.lessonId,
+      'removed',
+      existingSubstitution.substituteTeacherId,
+      undefined,
+      existingSubstitution.reason
+    );
+
     return { success: true };
   }
+
+  /**
+   * Rank substitute candidates for a single lesson
+   * Teachers with a clash are listed last; the rest are ordered by score.
+   */
+  async getSubstituteCandidates(lessonId: string, organizationId: string): Promise<SubstituteCandidate[]> {
+    const lesson = await this.getLessonForRanking(lessonId, organizationId);
+    const teachers = await this.getCandidateTeachers(organizationId);
+
+    return this.rankCandidates(lesson, teachers, organizationId);
+  }
+
+  /**
+   * Ranked candidates for every lesson of a teacher in a date range (lessons already substituted are skipped)
+   */
+  async getRangeRecommendations(organizationId: string, originalTeacherId: string, dateFrom: Date, dateTo: Date) {
+    const lessons = await this.getLessonsToSubstitute(organizationId, originalTeacherId, dateFrom, dateTo);
+    const teachers = await this.getCandidateTeachers(organizationId);
+
+    const recommendations = [];
+    for (const lesson of lessons) {
+      recommendations.push({
+        lesson: {
+          id: lesson.id,
+          title: lesson.title,
+          scheduledAt: lesson.scheduledAt,
+          durationMinutes: lesson.durationMinutes,
+          courseName: lesson.course?.name || null,
+          studentName: `${lesson.student.user.firstName} ${lesson.student.user.lastName}`,
+        },
+        candidates: await this.rankCandidates(lesson, teachers, organizationId),
+      });
+    }
+
+    return recommendations;
+  }
+
+  /**
+   * Substitute all lessons of a teacher in a date range in one go
+   * Lessons where the substitute (or any candidate, in automatic mode) is busy are skipped and reported.
+   */
+  async bulkSubstitute(data: BulkSubstitutionData) {
+    const { organizationId, originalTeacherId, dateFrom, dateTo, substituteTeacherId } = data;
+
+    if (substituteTeacherId) {
+      if (substituteTeacherId === originalTeacherId) {
+        throw new Error('Original teacher and substitute teacher cannot be the same');
+      }
+      const substituteTeacher = await prisma.teacher.findFirst({
+        where: { id: substituteTeacherId, organizationId },
+      });
+      if (!substituteTeacher) {
+        throw new Error('Substitute teacher not found');
+      }
+    }
+
+    const lessons = await this.getLessonsToSubstitute(organizationId, originalTeacherId, dateFrom, dateTo);
+    const teachers = await this.getCandidateTeachers(organizationId);
+
+    const created = [];
+    const skipped: Array<{ lessonId: string; title: string; scheduledAt: Date; reason: string }> = [];
+
+    // Sequential on purpose - each created substitution makes the substitute busy for the next lessons
+    for (const lesson of lessons) {
+      const candidates = await this.rankCandidates(
+        lesson,
+        substituteTeacherId ? teachers.filter((teacher) => teacher.id === substituteTeacherId) : teachers,
+        organizationId
+      );
+      const chosen = candidates.find((candidate) => !candidate.hasConflict);
+
+      if (!chosen) {
+        skipped.push({
+          lessonId: lesson.id,
+          title: lesson.title,
+          scheduledAt: lesson.scheduledAt,
+          reason: substituteTeacherId
+            ? `Lektor zastępujący ma w tym czasie inne zajęcia (${candidates[0]?.conflicts.join(', ') || 'konflikt terminu'})`
+            : 'Brak wolnego lektora w tym terminie',
+        });
+        continue;
+      }
+
+      created.push(
+        await this.createSubstitution({
+          organizationId,
+          lessonId: lesson.id,
+          originalTeacherId,
+          substituteTeacherId: chosen.teacher.id,
+          reason: data.reason,
+          notes: data.notes,
+        })
+      );
+    }
+
+    return { created, skipped };
+  }
+
+  /**
+   * Move the calendar event to whoever runs the lesson now and email everyone involved (fire-and-forget)
+   */
+  private afterSubstitutionChange(
+    lessonId: string,
+    event: 'assigned' | 'changed' | 'removed',
+    substituteTeacherId: string,
+    previousSubstituteTeacherId?: string,
+    removedReason?: string | null
+  ) {
+    this.syncSubstitutionCalendar(lessonId).catch(err =>
+      console.error('Failed to move lesson to substitute calendar:', err)
+    );
+    this.sendSubstitutionEmails(lessonId, event, substituteTeacherId, previousSubstituteTeacherId, removedReason).catch(err =>
+      console.error('Failed to send substitution emails:', err)
+    );
+  }
+
+  private async syncSubstitutionCalendar(lessonId: string) {
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      select: {
+        status: true,
+        teacher: { select: { userId: true } },
+        substitution: { select: { substituteTeacher: { select: { userId: true } } } },
+      },
+    });
+
+    if (!lesson || cancelledStatuses.includes(lesson.status)) {
+      return;
+    }
+
+    await googleCalendarService.moveEventToTeacher(
+      lessonId,
+      lesson.substitution?.substituteTeacher.userId ?? lesson.teacher.userId
+    );
+  }
+
+  private async sendSubstitutionEmails(
+    lessonId: string,
+    event: 'assigned' | 'changed' | 'removed',
+    substituteTeacherId: string,
+    previousSubstituteTeacherId?: string,
+    removedReason?: string | null
+  ) {
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      include: {
+        teacher: { include: { user: true } },
+        student: { include: { user: true } },
+        participants: participantsWithUserInclude,
+        substitution: true,
+      },
+    });
+
+    // Past or cancelled lessons are corrected silently
+    if (!lesson || lesson.scheduledAt < new Date() || lesson.status !== 'CONFIRMED') {
+      return;
+    }
+
+    const substitutes = await prisma.teacher.findMany({
+      where: { id: { in: [substituteTeacherId, ...(previousSubstituteTeacherId ? [previousSubstituteTeacherId] : [])] } },
+      include: { user: true },
+    });
+    const substitute = substitutes.find((teacher) => teacher.id === substituteTeacherId);
+    const previousSubstitute = substitutes.find((teacher) => teacher.id === previousSubstituteTeacherId);
+
+    if (!substitute) {
+      return;
+    }
+
+    const fullName = (user: { firstName: string; lastName: string }) => `${user.firstName} ${user.lastName}`;
+    const recipients = [
+      lesson.teacher.user,
+      substitute.user,
+      ...(previousSubstitute ? [previousSubstitute.user] : []),
+      ...getLessonStudents<any>(lesson).map((lessonStudent) => lessonStudent.user),
+    ];
+
+    await Promise.all(
+      recipients.map((recipient) =>
+        emailService.sendSubstitutionNotification({
+          recipientEmail: recipient.email,
+          recipientName: fullName(recipient),
+          event,
+          lessonTitle: lesson.title,
+          lessonDate: lesson.scheduledAt,
+          originalTeacherName: fullName(lesson.teacher.user),
+          substituteTeacherName: fullName(substitute.user),
+          previousSubstituteName: previousSubstitute ? fullName(previousSubstitute.user) : undefined,
+          reason: lesson.substitution?.reason ?? removedReason,
+          organizationId: lesson.organizationId,
+        })
+      )
+    );
+  }
+
+  /**
+   * A lesson already included in a teacher payout keeps its attribution
+   */
+  private async assertNotPaidOut(lessonId: string) {
+    const payoutLesson = await prisma.teacherPayoutLesson.findFirst({
+      where: { lessonId },
+    });
+
+    if (payoutLesson) {
+      throw new Error('Lekcja została już uwzględniona w wypłacie lektora - nie można zmienić zastępstwa');
+    }
+  }
+
+  private async rankCandidates(
+    lesson: Awaited<ReturnType<SubstitutionService['getLessonForRanking']>>,
+    teachers: Awaited<ReturnType<SubstitutionService['getCandidateTeachers']>>,
+    organizationId: string
+  ): Promise<SubstituteCandidate[]> {
+    const lessonStart = new Date(lesson.scheduledAt);
+    const lessonEnd = new Date(lessonStart.getTime() + lesson.durationMinutes * 60000);
+    const dayStart = new Date(lessonStart);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60000);
+
+    const [previousSubstitutions, sameDayLessons] = await Promise.all([
+      prisma.substitution.findMany({
+        where: { organizationId, lesson: { studentId: lesson.studentId } },
+        select: { substituteTeacherId: true },
+      }),
+      // Lessons covered as a substitute count as busy too, as do in-person lessons for the location bonus
+      prisma.lesson.findMany({
+        where: {
+          organizationId,
+          id: { not: lesson.id },
+          status: { notIn: cancelledStatuses },
+          scheduledAt: { gte: new Date(dayStart.getTime() - 24 * 60 * 60000), lt: dayEnd },
+          OR: [
+            { teacherId: { in: teachers.map((teacher) => teacher.id) } },
+            { substitution: { substituteTeacherId: { in: teachers.map((teacher) => teacher.id) } } },
+          ],
+        },
+        select: {
+          title: true,
+          teacherId: true,
+          scheduledAt: true,
+          durationMinutes: true,
+          locationId: true,
+          substitution: { select: { substituteTeacherId: true } },
+        },
+      }),
+    ]);
+
+    const candidates = await Promise.all(
+      teachers
+        .filter((teacher) => teacher.id !== lesson.teacherId)
+        .map(async (teacher) => {
+          const reasons: string[] = [];
+          let score = 0;
+
+          const conflictCheck = await lessonService.checkConflicts(
+            organizationId,
+            teacher.id,
+            null,
+            lessonStart,
+            lesson.durationMinutes,
+            lesson.id
+          );
+          const conflicts = conflictCheck.teacherConflicts.map((conflict) => conflict.title);
+          for (const other of sameDayLessons) {
+            if (other.substitution?.substituteTeacherId !== teacher.id) continue;
+            const otherStart = new Date(other.scheduledAt);
+            const otherEnd = new Date(otherStart.getTime() + other.durationMinutes * 60000);
+            if (otherStart < lessonEnd && otherEnd > lessonStart) {
+              conflicts.push(`${other.title} (zastępstwo)`);
+            }
+          }
+
+          if (lesson.course) {
+            const { language, level } = lesson.course;
+            const teachesLanguage = teacher.courses.some((course) => course.language === language);
+            if (matchesLanguage(teacher.languages, language) || teachesLanguage || matchesLanguage(teacher.specializations, language)) {
+              score += 40;
+              reasons.push('Uczy tego języka');
+            }
+            const teachesLevel = teacher.courses.some((course) => course.language === language && course.level === level);
+            if (teachesLevel || mentionsLevel(teacher.specializations, level)) {
+              score += 20;
+              reasons.push(`Prowadzi zajęcia na poziomie ${level}`);
+            }
+          }
+
+          if (lesson.deliveryMode === 'IN_PERSON' && lesson.locationId) {
+            const isOnSite = sameDayLessons.some(
+              (other) =>
+                other.locationId === lesson.locationId &&
+                other.scheduledAt >= dayStart &&
+                (other.teacherId === teacher.id || other.substitution?.substituteTeacherId === teacher.id)
+            );
+            if (isOnSite || teacher.courses.some((course) => course.locationId === lesson.locationId)) {
+              score += 15;
+              reasons.push(isOnSite ? 'Ma tego dnia zajęcia w tej lokalizacji' : 'Prowadzi kursy w tej lokalizacji');
+            }
+          }
+
+          const substitutionCount = previousSubstitutions.filter((substitution) => substitution.substituteTeacherId === teacher.id).length;
+          if (substitutionCount > 0) {
+            score += Math.min(substitutionCount, 2) * 10;
+            reasons.push(`Zastępował(a) już tego ucznia (${substitutionCount}x)`);
+          }
+
+          if (conflictCheck.availabilityWarnings.length > 0) {
+            score -= 25;
+          }
+
+          return {
+            teacher: {
+              id: teacher.id,
+              firstName: teacher.user.firstName,
+              lastName: teacher.user.lastName,
+              email: teacher.user.email,
+            },
+            score,
+            hasConflict: conflicts.length > 0,
+            conflicts,
+            availabilityWarnings: conflictCheck.availabilityWarnings,
+            reasons,
+          };
+        })
+    );
+
+    return candidates.sort(
+      (a, b) =>
+        Number(a.hasConflict) - Number(b.hasConflict) ||
+        b.score - a.score ||
+        a.teacher.lastName.localeCompare(b.teacher.lastName, 'pl')
+    );
+  }
+
+  private async getLessonForRanking(lessonId: string, organizationId: string) {
+    const lesson = await prisma.lesson.findFirst({
+      where: { id: lessonId, organizationId },
+      include: {
+        course: { select: { name: true, language: true, level: true } },
+        student: { include: { user: { select: { firstName: true, lastName: true } } } },
+      },
+    });
+
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+
+    return lesson;
+  }
+
+  private async getLessonsToSubstitute(organizationId: string, originalTeacherId: string, dateFrom: Date, dateTo: Date) {
+    if (dateTo < dateFrom) {
+      throw new Error('Data zakończenia musi być późniejsza niż data rozpoczęcia');
+    }
+    if (dateTo.getTime() - dateFrom.getTime() > MAX_BULK_RANGE_DAYS * 24 * 60 * 60000) {
+      throw new Error(`Zakres dat nie może przekraczać ${MAX_BULK_RANGE_DAYS} dni`);
+    }
+
+    const teacher = await prisma.teacher.findFirst({
+      where: { id: originalTeacherId, organizationId },
+    });
+
+    if (!teacher) {
+      throw new Error('Original teacher not found');
+    }
+
+    const now = new Date();
+    return prisma.lesson.findMany({
+      where: {
+        organizationId,
+        teacherId: originalTeacherId,
+        // Only upcoming lessons - completed ones are already settled with the original teacher
+        status: LessonStatus.CONFIRMED,
+        scheduledAt: { gte: dateFrom > now ? dateFrom : now, lte: dateTo },
+        substitution: null,
+      },
+      include: {
+        course: { select: { name: true, language: true, level: true } },
+        student: { include: { user: { select: { firstName: true, lastName: true } } } },
+      },
+      orderBy: { scheduledAt: 'asc' },
+    });
+  }
+
+  private async getCandidateTeachers(organizationId: string) {
+    return prisma.teacher.findMany({
+      where: { organizationId, user: { isActive: true } },
+      include: {
+        user: { select: { firstName: true, lastName: true, email: true } },
+        courses: {
+          where: { isActive: true },
+          select: { language: true, level: true, locationId: true },
+        },
+      },
+    });
+  }
 }
 
 const substitutionService = new SubstitutionService();
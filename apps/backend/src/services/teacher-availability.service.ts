@@ -0,0 +1,308 @@
+import prisma from '../utils/prisma';
+import { TeacherUnavailabilityReason } from '@prisma/client';
+import { addDays, format } from 'date-fns';
+import { fromZonedTime, getZonedParts } from '../utils/timezone';
+
+export interface AvailabilityWindowInput {
+  dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc.
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+}
+
+export interface CreateUnavailabilityData {
+  startDate: Date;
+  endDate: Date;
+  reason?: TeacherUnavailabilityReason;
+  notes?: string;
+}
+
+export interface FreeSlotsOptions {
+  from: Date;
+  to: Date;
+  durationMinutes: number;
+  stepMinutes?: number;
+}
+
+const MAX_FREE_SLOTS_RANGE_DAYS = 31;
+
+const dayNames = ['nd', 'pn', 'wt', 'śr', 'cz', 'pt', 'sb'];
+
+const unavailabilityReasonLabels: Record<TeacherUnavailabilityReason, string> = {
+  VACATION: 'urlop',
+  SICK_LEAVE: 'zwolnienie lekarskie',
+  OTHER: 'niedostępność',
+};
+
+/**
+ * Minutes since midnight for a HH:MM string
+ */
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Date on the given calendar day (UTC midnight) at the given minutes since midnight in the school timezone
+ */
+function atMinutes(day: Date, minutes: number): Date {
+  return fromZonedTime(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), minutes);
+}
+
+function overlaps(startA: Date, endA: Date, startB: Date, endB: Date): boolean {
+  return startA < endB && endA > startB;
+}
+
+class TeacherAvailabilityService {
+  /**
+   * Get weekly availability windows and current/upcoming unavailability periods
+   */
+  async getAvailability(teacherId: string, organizationId: string) {
+    await this.getTeacher(teacherId, organizationId);
+
+    const [windows, unavailabilities] = await Promise.all([
+      prisma.teacherAvailability.findMany({
+        where: { teacherId },
+        orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+      }),
+      prisma.teacherUnavailability.findMany({
+        where: { teacherId, endDate: { gte: new Date() } },
+        orderBy: { startDate: 'asc' },
+      }),
+    ]);
+
+    return { windows, unavailabilities };
+  }
+
+  /**
+   * Replace the teacher's weekly availability windows
+   * An empty list removes the working hours (teacher treated as always available).
+   */
+  async setWeeklyAvailability(teacherId: string, organizationId: string, windows: AvailabilityWindowInput[]) {
+    await this.getTeacher(teacherId, organizationId);
+
+    for (const window of windows) {
+      if (timeToMinutes(window.endTime) <= timeToMinutes(window.startTime)) {
+        throw new Error(`Godzina zakończenia musi być późniejsza niż godzina rozpoczęcia (${dayNames[window.dayOfWeek]} ${window.startTime}–${window.endTime})`);
+      }
+    }
+
+    const sorted = [...windows].sort(
+      (a, b) => a.dayOfWeek - b.dayOfWeek || timeToMinutes(a.startTime) - timeToMinutes(b.startTime)
+    );
+    for (let i = 1; i < sorted.length; i++) {
+      const previous = sorted[i - 1];
+      const current = sorted[i];
+      if (previous.dayOfWeek === current.dayOfWeek && timeToMinutes(current.startTime) < timeToMinutes(previous.endTime)) {
+        throw new Error(`Przedziały dostępności nakładają się (${dayNames[current.dayOfWeek]} ${previous.startTime}–${previous.endTime} i ${current.startTime}–${current.endTime})`);
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.teacherAvailability.deleteMany({ where: { teacherId } }),
+      prisma.teacherAvailability.createMany({
+        data: sorted.map((window) => ({ teacherId, ...window })),
+      }),
+    ]);
+
+    return this.getAvailability(teacherId, organizationId);
+  }
+
+  /**
+   * Add a one-off unavailability period (vacation, sick leave)
+   */
+  async createUnavailability(teacherId: string, organizationId: string, data: CreateUnavailabilityData) {
+    await this.getTeacher(teacherId, organizationId);
+
+    if (data.endDate <= data.startDate) {
+      throw new Error('Data zakończenia musi być późniejsza niż data rozpoczęcia');
+    }
+
+    return prisma.teacherUnavailability.create({
+      data: {
+        teacherId,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        reason: data.reason,
+        notes: data.notes,
+      },
+    });
+  }
+
+  /**
+   * Remove an unavailability period
+   */
+  async deleteUnavailability(id: string, teacherId: string, organizationId: string) {
+    await this.getTeacher(teacherId, organizationId);
+
+    const unavailability = await prisma.teacherUnavailability.findFirst({
+      where: { id, teacherId },
+    });
+
+    if (!unavailability) {
+      throw new Error('Unavailability not found');
+    }
+
+    await prisma.teacherUnavailability.delete({ where: { id } });
+    return { message: 'Niedostępność została usunięta' };
+  }
+
+  /**
+   * Warnings for a lesson falling outside the teacher's working hours or during an unavailability period
+   * Returns an empty list when the lesson fits the teacher's availability.
+   */
+  async checkAvailability(teacherId: string, scheduledAt: Date, durationMinutes: number): Promise<string[]> {
+    const lessonStart = new Date(scheduledAt);
+    const lessonEnd = new Date(lessonStart.getTime() + durationMinutes * 60000);
+
+    const [windows, unavailabilities] = await Promise.all([
+      prisma.teacherAvailability.findMany({
+        where: { teacherId },
+        orderBy: { startTime: 'asc' },
+      }),
+      prisma.teacherUnavailability.findMany({
+        where: {
+          teacherId,
+          startDate: { lt: lessonEnd },
+          endDate: { gt: lessonStart },
+        },
+        orderBy: { startDate: 'asc' },
+      }),
+    ]);
+
+    const warnings = unavailabilities.map((unavailability) =>
+      `Lektor jest niedostępny (${unavailabilityReasonLabels[unavailability.reason]}) od ${format(unavailability.startDate, 'dd.MM.yyyy HH:mm')} do ${format(unavailability.endDate, 'dd.MM.yyyy HH:mm')}`
+    );
+
+    if (windows.length > 0 && !this.fitsWindows(windows, lessonStart, durationMinutes)) {
+      const { dayOfWeek } = getZonedParts(lessonStart);
+      const dayWindows = windows.filter((window) => window.dayOfWeek === dayOfWeek);
+      warnings.push(
+        dayWindows.length > 0
+          ? `Termin poza godzinami pracy lektora (${dayNames[dayOfWeek]}: ${dayWindows.map((window) => `${window.startTime}–${window.endTime}`).join(', ')})`
+          : `Lektor nie pracuje w tym dniu tygodnia (${dayNames[dayOfWeek]})`
+      );
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Bookable slots within the teacher's weekly windows for a date range
+   * Slots overlapping existing lessons or unavailability periods are left out.
+   * Teachers without working hours or not available for booking have no slots.
+   */
+  async getFreeSlots(teacherId: string, organizationId: string, options: FreeSlotsOptions) {
+    const teacher = await this.getTeacher(teacherId, organizationId);
+    const { from, to, durationMinutes } = options;
+    const stepMinutes = options.stepMinutes || 30;
+
+    if (to <= from) {
+      throw new Error('Data zakończenia musi być późniejsza niż data rozpoczęcia');
+    }
+    if (to.getTime() - from.getTime() > MAX_FREE_SLOTS_RANGE_DAYS * 24 * 60 * 60000) {
+      throw new Error(`Zakres dat nie może przekraczać ${MAX_FREE_SLOTS_RANGE_DAYS} dni`);
+    }
+
+    if (!teacher.isAvailableForBooking) {
+      return [];
+    }
+
+    const windows = await prisma.teacherAvailability.findMany({
+      where: { teacherId },
+      orderBy: { startTime: 'asc' },
+    });
+
+    if (windows.length === 0) {
+      return [];
+    }
+
+    const [lessons, unavailabilities] = await Promise.all([
+      prisma.lesson.findMany({
+        where: {
+          organizationId,
+          teacherId,
+          status: { notIn: ['CANCELLED_ON_TIME', 'CANCELLED_LATE'] },
+          scheduledAt: { lt: to, gte: addDays(from, -1) },
+        },
+        select: { scheduledAt: true, durationMinutes: true },
+      }),
+      prisma.teacherUnavailability.findMany({
+        where: {
+          teacherId,
+          startDate: { lt: to },
+          endDate: { gt: from },
+        },
+      }),
+    ]);
+
+    const busy = [
+      ...lessons.map((lesson) => ({
+        start: lesson.scheduledAt,
+        end: new Date(lesson.scheduledAt.getTime() + lesson.durationMinutes * 60000),
+      })),
+      ...unavailabilities.map((unavailability) => ({
+        start: unavailability.startDate,
+        end: unavailability.endDate,
+      })),
+    ];
+
+    const now = new Date();
+    const earliest = from > now ? from : now;
+    const slots: Array<{ start: Date; end: Date }> = [];
+
+    // Walk calendar days of the school timezone, kept as UTC midnights so DST never shifts them
+    const first = getZonedParts(from);
+    for (
+      let day = new Date(Date.UTC(first.year, first.month - 1, first.day));
+      atMinutes(day, 0) < to;
+      day = new Date(day.getTime() + 24 * 60 * 60000)
+    ) {
+      for (const window of windows.filter((w) => w.dayOfWeek === day.getUTCDay())) {
+        const windowEnd = timeToMinutes(window.endTime);
+
+        for (let minutes = timeToMinutes(window.startTime); minutes + durationMinutes <= windowEnd; minutes += stepMinutes) {
+          const start = atMinutes(day, minutes);
+          const end = new Date(start.getTime() + durationMinutes * 60000);
+
+          if (start < earliest || end > to) continue;
+          if (busy.some((period) => overlaps(start, end, period.start, period.end))) continue;
+
+          slots.push({ start, end });
+        }
+      }
+    }
+
+    return slots;
+  }
+
+  private fitsWindows(
+    windows: Array<{ dayOfWeek: number; startTime: string; endTime: string }>,
+    start: Date,
+    durationMinutes: number
+  ): boolean {
+    const { dayOfWeek, minutes: startMinutes } = getZonedParts(start);
+    const endMinutes = startMinutes + durationMinutes;
+
+    return windows.some(
+      (window) =>
+        window.dayOfWeek === dayOfWeek &&
+        timeToMinutes(window.startTime) <= startMinutes &&
+        endMinutes <= timeToMinutes(window.endTime)
+    );
+  }
+
+  private async getTeacher(teacherId: string, organizationId: string) {
+    const teacher = await prisma.teacher.findFirst({
+      where: { id: teacherId, organizationId },
+      select: { id: true, userId: true, isAvailableForBooking: true },
+    });
+
+    if (!teacher) {
+      throw new Error('Teacher not found');
+    }
+
+    return teacher;
+  }
+}
+
+export default new TeacherAvailabilityService();
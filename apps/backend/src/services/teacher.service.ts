@@ -2,6 +2,7 @@ import prisma from '../utils/prisma';
 import { ContractType, UserRole } from '@prisma/client';
 import bcrypt from 'bcrypt';
 import { organizationService, VisibilitySettings } from './organization.service';
+import sessionService from './session.service';
 
 interface CreateTeacherData {
   email: string;
@@ -32,6 +33,10 @@ interface UpdateTeacherData {
   cancellationPayoutEnabled?: boolean;
   cancellationPayoutHours?: number | null;
   cancellationPayoutPercent?: number | null;
+  vatRate?: number | null;
+  zusExempt?: boolean;
+  pitExempt?: boolean;
+  bankAccountNumber?: string | null;
 }
 
 function buildTeacherOrderBy(sortBy?: string, sortOrder: 'asc' | 'desc' = 'asc'): any {
@@ -319,6 +324,10 @@ export class TeacherService {
           cancellationPayoutEnabled: data.cancellationPayoutEnabled,
           cancellationPayoutHours: data.cancellationPayoutHours,
           cancellationPayoutPercent: data.cancellationPayoutPercent,
+          vatRate: data.vatRate,
+          zusExempt: data.zusExempt,
+          pitExempt: data.pitExempt,
+          bankAccountNumber: data.bankAccountNumber,
         },
         include: {
           user: {
@@ -368,6 +377,7 @@ export class TeacherService {
       where: { id: teacher.userId },
       data: { isActive: false },
     });
+    await sessionService.revokeAllSessions(teacher.userId, 'DEACTIVATED');
 
     return { success: true, message: 'Teacher deactivated' };
   }
@@ -396,6 +406,7 @@ export class TeacherService {
       where: { id: teacher.userId },
       data: { isActive: false },
     });
+    await sessionService.revokeAllSessions(teacher.userId, 'DEACTIVATED');
 
     return { success: true, message: 'Teacher deactivated' };
   }
@@ -0,0 +1,170 @@
+import { AlertPriority, AlertType, PayoutSignOffStatus, TeacherPayoutStatus } from '@prisma/client';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import prisma from '../utils/prisma';
+import payoutService from './payout.service';
+import alertService from './alert.service';
+
+/**
+ * Teacher self-service view of own earnings and payout sign-off
+ */
+class TeacherEarningsService {
+  private async getTeacherForUser(userId: string, organizationId: string) {
+    const teacher = await prisma.teacher.findFirst({
+      where: { userId, organizationId },
+      include: { user: { select: { firstName: true, lastName: true } } },
+    });
+
+    if (!teacher) {
+      throw new Error('Nie znaleziono profilu lektora');
+    }
+
+    return teacher;
+  }
+
+  /**
+   * Month-to-date qualified lessons (including the ones already in a payout) and the part not yet settled
+   */
+  async getMonthSummary(userId: string, organizationId: string, month: Date) {
+    const teacher = await this.getTeacherForUser(userId, organizationId);
+    const monthStart = startOfMonth(month);
+    const monthEnd = endOfMonth(month);
+    const now = new Date();
+    const toDate = now < monthEnd ? now : monthEnd;
+
+    if (toDate < monthStart) {
+      return {
+        month: format(monthStart, 'yyyy-MM'),
+        dateFrom: monthStart,
+        dateTo: monthStart,
+        lessons: [],
+        lessonsCount: 0,
+        totalAmount: 0,
+        unsettledAmount: 0,
+        currency: 'PLN',
+      };
+    }
+
+    const [forecast, unsettled] = await Promise.all([
+      payoutService.getForecast(organizationId, monthStart, toDate, teacher.id),
+      payoutService.getQualifiedLessons(teacher.id, organizationId, monthStart, toDate),
+    ]);
+    const teacherForecast = forecast.teachers[0];
+
+    return {
+      month: format(monthStart, 'yyyy-MM'),
+      dateFrom: monthStart,
+      dateTo: toDate,
+      lessons: teacherForecast?.lessons ?? [],
+      lessonsCount: teacherForecast?.lessonsCount ?? 0,
+      totalAmount: teacherForecast?.totalAmount ?? 0,
+      unsettledAmount: unsettled.reduce((sum, lesson) => sum + lesson.amount, 0),
+      currency: teacherForecast?.currency ?? forecast.currency,
+    };
+  }
+
+  async getMyPayouts(userId: string, organizationId: string) {
+    const teacher = await this.getTeacherForUser(userId, organizationId);
+    return payoutService.getTeacherPayouts(teacher.id, organizationId);
+  }
+
+  /**
+   * Teacher agrees with every line of a pending payout
+   */
+  async confirmPayout(userId: string, organizationId: string, payoutId: string) {
+    const payout = await this.getOwnPendingPayout(userId, organizationId, payoutId);
+
+    await prisma.$transaction([
+      prisma.teacherPayoutLesson.updateMany({
+        where: { payoutId: payout.id, isDisputed: true },
+        data: { isDisputed: false },
+      }),
+      prisma.teacherPayout.update({
+        where: { id: payout.id },
+        data: {
+          signOffStatus: PayoutSignOffStatus.CONFIRMED,
+          signedOffAt: new Date(),
+          disputeReason: null,
+        },
+      }),
+    ]);
+
+    return payoutService.getPayoutById(payout.id, organizationId);
+  }
+
+  /**
+   * Teacher contests selected payout lines - HR gets an alert with the contested lessons
+   */
+  async disputePayout(
+    userId: string,
+    organizationId: string,
+    payoutId: string,
+    payoutLessonIds: string[],
+    reason: string
+  ) {
+    const payout = await this.getOwnPendingPayout(userId, organizationId, payoutId);
+    const disputedLines = payout.lessons.filter((line) => payoutLessonIds.includes(line.id));
+
+    if (disputedLines.length === 0) {
+      throw new Error('Wskaż co najmniej jedną kwestionowaną lekcję');
+    }
+
+    await prisma.$transaction([
+      prisma.teacherPayoutLesson.updateMany({
+        where: { payoutId: payout.id },
+        data: { isDisputed: false },
+      }),
+      prisma.teacherPayoutLesson.updateMany({
+        where: { id: { in: disputedLines.map((line) => line.id) } },
+        data: { isDisputed: true },
+      }),
+      prisma.teacherPayout.update({
+        where: { id: payout.id },
+        data: {
+          signOffStatus: PayoutSignOffStatus.DISPUTED,
+          signedOffAt: new Date(),
+          disputeReason: reason,
+        },
+      }),
+    ]);
+
+    const teacherName = `${payout.teacher.user.firstName} ${payout.teacher.user.lastName}`;
+    const period = `${format(payout.periodStart, 'dd.MM.yyyy')} - ${format(payout.periodEnd, 'dd.MM.yyyy')}`;
+
+    await alertService.createAlert({
+      organizationId,
+      type: AlertType.WARNING,
+      priority: AlertPriority.HIGH,
+      title: 'Lektor zakwestionował wypłatę',
+      message: `${teacherName} zakwestionował(a) ${disputedLines.length} poz. wypłaty za okres ${period}: ${reason}`,
+      metadata: {
+        payoutId: payout.id,
+        teacherId: payout.teacherId,
+        disputedLessons: disputedLines.map((line) => ({
+          lessonId: line.lessonId,
+          lessonDate: line.lessonDate,
+          lessonTitle: line.lessonTitle,
+          studentName: line.studentName,
+          amount: Number(line.amount),
+        })),
+      },
+    });
+
+    return payoutService.getPayoutById(payout.id, organizationId);
+  }
+
+  private async getOwnPendingPayout(userId: string, organizationId: string, payoutId: string) {
+    const teacher = await this.getTeacherForUser(userId, organizationId);
+    const payout = await payoutService.getPayoutById(payoutId, organizationId);
+
+    if (payout.teacherId !== teacher.id) {
+      throw new Error('Payout not found');
+    }
+    if (payout.status !== TeacherPayoutStatus.PENDING) {
+      throw new Error('Można potwierdzić lub zakwestionować tylko wypłatę oczekującą na zatwierdzenie');
+    }
+
+    return payout;
+  }
+}
+
+export default new TeacherEarningsService();
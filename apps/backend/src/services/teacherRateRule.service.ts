@@ -0,0 +1,210 @@
+import { CourseFormat, LessonDeliveryMode, TeacherRateRule, TeacherRateType } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { getZonedParts } from '../utils/timezone';
+
+export interface RateRuleData {
+  name: string;
+  isActive?: boolean;
+  courseFormat?: CourseFormat | null;
+  deliveryMode?: LessonDeliveryMode | null;
+  courseId?: string | null;
+  minParticipants?: number | null;
+  maxParticipants?: number | null;
+  daysOfWeek?: number[];
+  startTime?: string | null;
+  endTime?: string | null;
+  rateType: TeacherRateType;
+  rate: number;
+}
+
+/**
+ * Lesson fields the rate card matches on
+ */
+export interface PricedLesson {
+  scheduledAt: Date;
+  durationMinutes: number;
+  deliveryMode: LessonDeliveryMode;
+  courseId: string | null;
+  isGroupLesson: boolean;
+  course?: { courseType: CourseFormat } | null;
+  participants?: unknown[];
+}
+
+export interface LessonPrice {
+  hourlyRate: number; // effective rate per hour (for PER_LESSON rules: amount / hours)
+  amount: number;
+  rateRuleId: string | null;
+  rateRuleName: string | null; // null = teacher's base hourly rate
+}
+
+export const BASE_RATE_LABEL = 'Stawka podstawowa';
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+class TeacherRateRuleService {
+  async getRules(teacherId: string, organizationId: string) {
+    return prisma.teacherRateRule.findMany({
+      where: { teacherId, organizationId },
+      include: { course: { select: { id: true, name: true } } },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  /**
+   * Active rules in evaluation order - loaded once per teacher before pricing lessons
+   */
+  async getActiveRules(teacherId: string) {
+    return prisma.teacherRateRule.findMany({
+      where: { teacherId, isActive: true },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  async createRule(teacherId: string, organizationId: string, data: RateRuleData) {
+    const teacher = await prisma.teacher.findFirst({ where: { id: teacherId, organizationId } });
+    if (!teacher) {
+      throw new Error('Nie znaleziono lektora');
+    }
+    await this.validateRule(organizationId, data);
+
+    const last = await prisma.teacherRateRule.findFirst({
+      where: { teacherId },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+
+    return prisma.teacherRateRule.create({
+      data: {
+        ...data,
+        daysOfWeek: data.daysOfWeek ?? [],
+        organizationId,
+        teacherId,
+        position: (last?.position ?? -1) + 1,
+      },
+      include: { course: { select: { id: true, name: true } } },
+    });
+  }
+
+  async updateRule(ruleId: string, organizationId: string, data: Partial<RateRuleData>) {
+    const rule = await prisma.teacherRateRule.findFirst({ where: { id: ruleId, organizationId } });
+    if (!rule) {
+      throw new Error('Nie znaleziono reguły stawki');
+    }
+    await this.validateRule(organizationId, {
+      minParticipants: data.minParticipants !== undefined ? data.minParticipants : rule.minParticipants,
+      maxParticipants: data.maxParticipants !== undefined ? data.maxParticipants : rule.maxParticipants,
+      courseId: data.courseId,
+    });
+
+    return prisma.teacherRateRule.update({
+      where: { id: ruleId },
+      data,
+      include: { course: { select: { id: true, name: true } } },
+    });
+  }
+
+  async deleteRule(ruleId: string, organizationId: string) {
+    const rule = await prisma.teacherRateRule.findFirst({ where: { id: ruleId, organizationId } });
+    if (!rule) {
+      throw new Error('Nie znaleziono reguły stawki');
+    }
+
+    // Saved payout lines keep the rule name snapshot, the relation is cleared by the database
+    await prisma.teacherRateRule.delete({ where: { id: ruleId } });
+  }
+
+  /**
+   * Set evaluation order - ruleIds must contain every rule of the teacher
+   */
+  async reorderRules(teacherId: string, organizationId: string, ruleIds: string[]) {
+    const rules = await prisma.teacherRateRule.findMany({
+      where: { teacherId, organizationId },
+      select: { id: true },
+    });
+
+    if (rules.length !== ruleIds.length || !rules.every((rule) => ruleIds.includes(rule.id))) {
+      throw new Error('Lista reguł do uporządkowania jest niekompletna');
+    }
+
+    await prisma.$transaction(
+      ruleIds.map((id, position) => prisma.teacherRateRule.update({ where: { id }, data: { position } })),
+    );
+
+    return this.getRules(teacherId, organizationId);
+  }
+
+  /**
+   * First rule (in position order) whose every condition matches the lesson
+   */
+  matchRule(rules: TeacherRateRule[], lesson: PricedLesson): TeacherRateRule | null {
+    const participantCount = lesson.isGroupLesson ? Math.max(lesson.participants?.length ?? 0, 1) : 1;
+    // Rule days and hours are wall-clock times of the school
+    const { dayOfWeek, minutes: startMinutes } = getZonedParts(lesson.scheduledAt);
+    // Lessons without a course count as individual ones
+    const courseFormat = lesson.course?.courseType ?? (lesson.isGroupLesson ? CourseFormat.GROUP : CourseFormat.INDIVIDUAL);
+
+    return (
+      rules.find((rule) => {
+        if (!rule.isActive) return false;
+        if (rule.courseFormat && rule.courseFormat !== courseFormat) return false;
+        if (rule.deliveryMode && rule.deliveryMode !== lesson.deliveryMode) return false;
+        if (rule.courseId && rule.courseId !== lesson.courseId) return false;
+        if (rule.minParticipants !== null && participantCount < rule.minParticipants) return false;
+        if (rule.maxParticipants !== null && participantCount > rule.maxParticipants) return false;
+        if (rule.daysOfWeek.length > 0 && !rule.daysOfWeek.includes(dayOfWeek)) return false;
+        if (rule.startTime && startMinutes < timeToMinutes(rule.startTime)) return false;
+        if (rule.endTime && startMinutes >= timeToMinutes(rule.endTime)) return false;
+        return true;
+      }) ?? null
+    );
+  }
+
+  /**
+   * Price a lesson with the rate card, falling back to the teacher's base hourly rate.
+   * multiplier scales the result (partial payout for late cancellations).
+   */
+  priceLesson(rules: TeacherRateRule[], baseHourlyRate: number, lesson: PricedLesson, multiplier = 1.0): LessonPrice {
+    const hours = lesson.durationMinutes / 60;
+    const rule = this.matchRule(rules, lesson);
+
+    if (!rule) {
+      return {
+        hourlyRate: baseHourlyRate,
+        amount: hours * baseHourlyRate * multiplier,
+        rateRuleId: null,
+        rateRuleName: null,
+      };
+    }
+
+    const rate = Number(rule.rate);
+    const isFlat = rule.rateType === TeacherRateType.PER_LESSON;
+
+    return {
+      hourlyRate: isFlat ? (hours > 0 ? rate / hours : rate) : rate,
+      amount: (isFlat ? rate : hours * rate) * multiplier,
+      rateRuleId: rule.id,
+      rateRuleName: rule.name,
+    };
+  }
+
+  private async validateRule(
+    organizationId: string,
+    data: Pick<Partial<RateRuleData>, 'minParticipants' | 'maxParticipants' | 'courseId'>,
+  ) {
+    if (data.minParticipants != null && data.maxParticipants != null && data.minParticipants > data.maxParticipants) {
+      throw new Error('Minimalna liczba uczestników nie może być większa niż maksymalna');
+    }
+
+    if (data.courseId) {
+      const course = await prisma.course.findFirst({ where: { id: data.courseId, organizationId } });
+      if (!course) {
+        throw new Error('Nie znaleziono kursu');
+      }
+    }
+  }
+}
+
+export default new TeacherRateRuleService();
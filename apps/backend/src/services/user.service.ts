@@ -3,6 +3,7 @@ import bcrypt from 'bcrypt';
 import crypto from 'crypto';
 import prisma from '../utils/prisma';
 import emailService from './email.service';
+import sessionService from './session.service';
 import { ASSIGNABLE_ROLES, ROLE_HIERARCHY } from '../config/permissions';
 
 export interface CreateUserData {
@@ -147,7 +148,12 @@ class UserService {
    * Invite a new user to the organization
    * Creates user with temporary password and sends invitation email
    */
-  async inviteUser(organizationId: string, data: CreateUserData, _invitedBy: string) {
+  async inviteUser(
+    organizationId: string,
+    data: CreateUserData,
+    _invitedBy: string,
+    options?: { allowedRoles?: UserRole[] } // e.g. PARENT accounts created from the student profile
+  ) {
     // Check if email already exists
     const existingUser = await prisma.user.findUnique({
       where: { email: data.email },
@@ -158,7 +164,8 @@ class UserService {
     }
 
     // Validate role
-    if (!ASSIGNABLE_ROLES.includes(data.role) && data.role !== 'ADMIN') {
+    const allowedRoles = options?.allowedRoles ?? ASSIGNABLE_ROLES;
+    if (!allowedRoles.includes(data.role) && data.role !== 'ADMIN') {
       throw new Error('Nieprawidłowa rola użytkownika');
     }
 
@@ -204,6 +211,7 @@ class UserService {
         organizationName: organization?.name || 'LingoDesk',
         temporaryPassword,
         role: data.role,
+        organizationId,
       });
     } catch (error) {
       console.error('Failed to send invitation email:', error);
@@ -328,6 +336,9 @@ class UserService {
       },
     });
 
+    // Cut off access immediately instead of waiting for tokens to expire
+    await sessionService.revokeAllSessions(userId, 'DEACTIVATED');
+
     return updatedUser;
   }
 
@@ -386,6 +397,8 @@ class UserService {
       data: { passwordHash },
     });
 
+    await sessionService.revokeAllSessions(userId, 'PASSWORD_RESET');
+
     // Get organization name for email
     const organization = await prisma.organization.findUnique({
       where: { id: organizationId },
@@ -0,0 +1,473 @@
+import crypto from 'crypto';
+import { WaitlistStatus } from '@prisma/client';
+import prisma from '../utils/prisma';
+import courseService from './course.service';
+import emailService from './email.service';
+
+interface AddToWaitlistData {
+  courseId: string;
+  studentId?: string;
+  applicationId?: string;
+  notes?: string;
+}
+
+// How long the first person in the queue has to accept a freed seat
+export const WAITLIST_OFFER_HOURS = 48;
+
+const activeStatuses: WaitlistStatus[] = [WaitlistStatus.WAITING, WaitlistStatus.OFFERED];
+
+const entryInclude = {
+  student: {
+    select: { id: true, user: { select: { firstName: true, lastName: true, email: true } } },
+  },
+  application: { select: { id: true, status: true } },
+} as const;
+
+function splitName(fullName: string): { firstName: string; lastName: string } {
+  const parts = fullName.trim().split(/\s+/);
+  return { firstName: parts[0], lastName: parts.slice(1).join(' ') || parts[0] };
+}
+
+class WaitlistService {
+  /**
+   * Seats left after active enrollments and pending offers; null when the course has no limit
+   */
+  async getFreeSpots(courseId: string): Promise<number | null> {
+    const course = await prisma.course.findUnique({
+      where: { id: courseId },
+      select: { maxStudents: true },
+    });
+
+    if (!course?.maxStudents) {
+      return null;
+    }
+
+    const [activeEnrollments, pendingOffers] = await Promise.all([
+      prisma.studentEnrollment.count({ where: { courseId, status: 'ACTIVE' } }),
+      prisma.courseWaitlistEntry.count({
+        where: { courseId, status: WaitlistStatus.OFFERED, offerExpiresAt: { gt: new Date() } },
+      }),
+    ]);
+
+    return Math.max(0, course.maxStudents - activeEnrollments - pendingOffers);
+  }
+
+  async getCourseWaitlist(courseId: string, organizationId: string) {
+    const course = await prisma.course.findFirst({
+      where: { id: courseId, organizationId },
+      select: { id: true, name: true, maxStudents: true },
+    });
+
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    const [entries, history, activeEnrollments] = await Promise.all([
+      prisma.courseWaitlistEntry.findMany({
+        where: { courseId, status: { in: activeStatuses } },
+        include: entryInclude,
+        orderBy: { position: 'asc' },
+      }),
+      prisma.courseWaitlistEntry.findMany({
+        where: { courseId, status: { notIn: activeStatuses } },
+        include: entryInclude,
+        orderBy: { updatedAt: 'desc' },
+        take: 20,
+      }),
+      prisma.studentEnrollment.count({ where: { courseId, status: 'ACTIVE' } }),
+    ]);
+
+    return {
+      course: { ...course, activeEnrollments, freeSpots: await this.getFreeSpots(courseId) },
+      entries,
+      history,
+    };
+  }
+
+  /**
+   * Put a student or an accepted applicant at the end of the queue
+   */
+  async addToWaitlist(data: AddToWaitlistData, organizationId: string) {
+    const course = await prisma.course.findFirst({
+      where: { id: data.courseId, organizationId },
+      select: { id: true, maxStudents: true },
+    });
+
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    if (!course.maxStudents) {
+      throw new Error('Kurs nie ma limitu miejsc - zapisz ucznia bezpośrednio');
+    }
+
+    let person: { name: string; email: string };
+    if (data.studentId) {
+      const student = await prisma.student.findFirst({
+        where: { id: data.studentId, organizationId },
+        select: { user: { select: { firstName: true, lastName: true, email: true } } },
+      });
+      if (!student) {
+        throw new Error('Student not found');
+      }
+
+      const enrollment = await prisma.studentEnrollment.findFirst({
+        where: { courseId: data.courseId, studentId: data.studentId, status: 'ACTIVE' },
+      });
+      if (enrollment) {
+        throw new Error('Uczeń jest już zapisany na ten kurs');
+      }
+
+      person = { name: `${student.user.firstName} ${student.user.lastName}`, email: student.user.email };
+    } else if (data.applicationId) {
+      const application = await prisma.courseApplication.findFirst({
+        where: { id: data.applicationId, organizationId },
+        select: { name: true, email: true },
+      });
+      if (!application) {
+        throw new Error('Zgłoszenie nie zostało znalezione');
+      }
+      person = application;
+    } else {
+      throw new Error('Wskaż ucznia lub zgłoszenie');
+    }
+
+    const existing = await prisma.courseWaitlistEntry.findFirst({
+      where: {
+        courseId: data.courseId,
+        status: { in: activeStatuses },
+        OR: [
+          ...(data.studentId ? [{ studentId: data.studentId }] : []),
+          ...(data.applicationId ? [{ applicationId: data.applicationId }] : []),
+          { email: { equals: person.email, mode: 'insensitive' as const } },
+        ],
+      },
+    });
+
+    if (existing) {
+      throw new Error('Ta osoba jest już na liście oczekujących');
+    }
+
+    const last = await prisma.courseWaitlistEntry.findFirst({
+      where: { courseId: data.courseId, status: { in: activeStatuses } },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+
+    const entry = await prisma.courseWaitlistEntry.create({
+      data: {
+        organizationId,
+        courseId: data.courseId,
+        studentId: data.studentId,
+        applicationId: data.applicationId,
+        name: person.name,
+        email: person.email,
+        position: (last?.position ?? 0) + 1,
+        notes: data.notes,
+      },
+      include: entryInclude,
+    });
+
+    // A seat may already be free (e.g. added by hand to a course that is not full)
+    await this.offerFreeSpots(data.courseId);
+
+    return entry;
+  }
+
+  async removeEntry(id: string, organizationId: string) {
+    const entry = await this.getActiveEntry(id, organizationId);
+
+    await prisma.courseWaitlistEntry.update({
+      where: { id },
+      data: { status: WaitlistStatus.REMOVED, offerToken: null },
+    });
+    await this.renumber(entry.courseId);
+
+    if (entry.status === WaitlistStatus.OFFERED) {
+      await this.offerFreeSpots(entry.courseId);
+    }
+  }
+
+  /**
+   * Swap the entry with its neighbour in the queue
+   */
+  async moveEntry(id: string, direction: 'up' | 'down', organizationId: string) {
+    const entry = await this.getActiveEntry(id, organizationId);
+
+    const neighbour = await prisma.courseWaitlistEntry.findFirst({
+      where: {
+        courseId: entry.courseId,
+        status: { in: activeStatuses },
+        position: direction === 'up' ? { lt: entry.position } : { gt: entry.position },
+      },
+      orderBy: { position: direction === 'up' ? 'desc' : 'asc' },
+    });
+
+    if (!neighbour) {
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.courseWaitlistEntry.update({ where: { id: entry.id }, data: { position: neighbour.position } }),
+      prisma.courseWaitlistEntry.update({ where: { id: neighbour.id }, data: { position: entry.position } }),
+    ]);
+  }
+
+  /**
+   * Offer every free seat to the next waiting people, in queue order
+   */
+  async offerFreeSpots(courseId: string) {
+    const freeSpots = await this.getFreeSpots(courseId);
+    if (!freeSpots) {
+      return [];
+    }
+
+    const candidates = await prisma.courseWaitlistEntry.findMany({
+      where: { courseId, status: WaitlistStatus.WAITING },
+      orderBy: { position: 'asc' },
+      take: freeSpots,
+      include: {
+        course: { select: { name: true, organization: { select: { id: true, name: true } } } },
+      },
+    });
+
+    const offered = [];
+    for (const candidate of candidates) {
+      const offeredAt = new Date();
+      const entry = await prisma.courseWaitlistEntry.update({
+        where: { id: candidate.id },
+        data: {
+          status: WaitlistStatus.OFFERED,
+          offerToken: crypto.randomBytes(32).toString('hex'),
+          offeredAt,
+          offerExpiresAt: new Date(offeredAt.getTime() + WAITLIST_OFFER_HOURS * 60 * 60 * 1000),
+        },
+      });
+
+      try {
+        await emailService.sendWaitlistOffer({
+          recipientEmail: entry.email,
+          recipientName: entry.name,
+          courseName: candidate.course.name,
+          organizationName: candidate.course.organization.name,
+          offerUrl: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/waitlist/offer/${entry.offerToken}`,
+          expiresAt: entry.offerExpiresAt!,
+          organizationId: candidate.course.organization.id,
+        });
+      } catch (emailError) {
+        console.error('Failed to send waitlist offer email:', emailError);
+      }
+
+      offered.push(entry);
+    }
+
+    return offered;
+  }
+
+  /**
+   * Public view of an offer (accept link from the email)
+   */
+  async getOffer(token: string) {
+    const entry = await prisma.courseWaitlistEntry.findUnique({
+      where: { offerToken: token },
+      include: {
+        course: {
+          select: {
+            name: true,
+            language: true,
+            level: true,
+            startDate: true,
+            organization: { select: { name: true, logoUrl: true, primaryColor: true } },
+          },
+        },
+      },
+    });
+
+    if (!entry) {
+      throw new Error('Oferta nie została znaleziona');
+    }
+
+    const isExpired =
+      entry.status === WaitlistStatus.EXPIRED ||
+      (entry.status === WaitlistStatus.OFFERED && !!entry.offerExpiresAt && entry.offerExpiresAt <= new Date());
+
+    return {
+      name: entry.name,
+      status: isExpired ? WaitlistStatus.EXPIRED : entry.status,
+      offerExpiresAt: entry.offerExpiresAt,
+      course: entry.course,
+    };
+  }
+
+  async acceptOffer(token: string) {
+    const entry = await this.getOpenOffer(token);
+
+    // The entry no longer holds a pending seat, so the enrollment below can take it.
+    // Conditional on OFFERED - a parallel accept or the expiry job may have claimed the offer already
+    const now = new Date();
+    const claimed = await prisma.courseWaitlistEntry.updateMany({
+      where: {
+        id: entry.id,
+        status: WaitlistStatus.OFFERED,
+        OR: [{ offerExpiresAt: null }, { offerExpiresAt: { gt: now } }],
+      },
+      data: { status: WaitlistStatus.ENROLLED, respondedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Oferta nie jest już aktualna');
+    }
+
+    let studentId = entry.studentId;
+    try {
+      if (!studentId && entry.applicationId) {
+        // Applicant without an account - create the student the same way as converting the application
+        const { default: courseApplicationService } = await import('./courseApplication.service');
+        const { firstName, lastName } = splitName(entry.name);
+        const { student } = await courseApplicationService.convertToStudent(entry.applicationId, entry.organizationId, {
+          firstName,
+          lastName,
+          email: entry.email,
+          password: crypto.randomBytes(9).toString('base64url'),
+          // The applicant joins this course, so its language and level describe them best
+          language: entry.course.language,
+          languageLevel: entry.course.level,
+          skipEnroll: true,
+        });
+        studentId = student.id;
+      }
+
+      if (!studentId) {
+        throw new Error('Brak ucznia powiązanego z ofertą');
+      }
+
+      await courseService.enrollStudent(entry.courseId, studentId, entry.organizationId);
+
+      await prisma.courseWaitlistEntry.update({
+        where: { id: entry.id },
+        data: { studentId },
+      });
+    } catch (error) {
+      await prisma.courseWaitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: WaitlistStatus.OFFERED, respondedAt: null, studentId },
+      });
+      throw error;
+    }
+
+    await this.renumber(entry.courseId);
+    return { courseName: entry.course.name };
+  }
+
+  async declineOffer(token: string) {
+    const entry = await this.getOpenOffer(token);
+
+    const declined = await prisma.courseWaitlistEntry.updateMany({
+      where: { id: entry.id, status: WaitlistStatus.OFFERED },
+      data: { status: WaitlistStatus.DECLINED, respondedAt: new Date() },
+    });
+
+    if (declined.count === 0) {
+      throw new Error('Oferta nie jest już aktualna');
+    }
+    await this.renumber(entry.courseId);
+    await this.offerFreeSpots(entry.courseId);
+  }
+
+  /**
+   * Expire unanswered offers and pass the seats on (run periodically)
+   */
+  async expireOffers() {
+    const expired = await prisma.courseWaitlistEntry.findMany({
+      where: { status: WaitlistStatus.OFFERED, offerExpiresAt: { lte: new Date() } },
+      select: { id: true, courseId: true },
+    });
+
+    if (expired.length === 0) {
+      return { expired: 0, offered: 0 };
+    }
+
+    // Still OFFERED only - an offer accepted in the meantime must not be expired
+    const { count } = await prisma.courseWaitlistEntry.updateMany({
+      where: { id: { in: expired.map((entry) => entry.id) }, status: WaitlistStatus.OFFERED },
+      data: { status: WaitlistStatus.EXPIRED, offerToken: null },
+    });
+
+    let offered = 0;
+    for (const courseId of new Set(expired.map((entry) => entry.courseId))) {
+      await this.renumber(courseId);
+      offered += (await this.offerFreeSpots(courseId)).length;
+    }
+
+    return { expired: count, offered };
+  }
+
+  /**
+   * Link a waiting applicant to the student created from their application
+   */
+  async attachStudent(applicationId: string, studentId: string) {
+    await prisma.courseWaitlistEntry.updateMany({
+      where: { applicationId, studentId: null, status: { in: activeStatuses } },
+      data: { studentId },
+    });
+  }
+
+  async findActiveEntry(courseId: string, where: { studentId?: string; applicationId?: string }) {
+    return prisma.courseWaitlistEntry.findFirst({
+      where: { courseId, status: { in: activeStatuses }, ...where },
+    });
+  }
+
+  private async getActiveEntry(id: string, organizationId: string) {
+    const entry = await prisma.courseWaitlistEntry.findFirst({
+      where: { id, organizationId, status: { in: activeStatuses } },
+    });
+
+    if (!entry) {
+      throw new Error('Wpis na liście oczekujących nie został znaleziony');
+    }
+
+    return entry;
+  }
+
+  private async getOpenOffer(token: string) {
+    const entry = await prisma.courseWaitlistEntry.findUnique({
+      where: { offerToken: token },
+      include: { course: { select: { name: true, language: true, level: true } } },
+    });
+
+    if (!entry || entry.status !== WaitlistStatus.OFFERED) {
+      throw new Error('Oferta nie jest już aktualna');
+    }
+
+    if (entry.offerExpiresAt && entry.offerExpiresAt <= new Date()) {
+      throw new Error('Oferta wygasła');
+    }
+
+    return entry;
+  }
+
+  /**
+   * Close the gaps left by people who left the queue
+   */
+  private async renumber(courseId: string) {
+    const entries = await prisma.courseWaitlistEntry.findMany({
+      where: { courseId, status: { in: activeStatuses } },
+      orderBy: { position: 'asc' },
+      select: { id: true, position: true },
+    });
+
+    const updates = entries
+      .map((entry, index) => ({ ...entry, newPosition: index + 1 }))
+      .filter((entry) => entry.position !== entry.newPosition)
+      .map((entry) =>
+        prisma.courseWaitlistEntry.update({ where: { id: entry.id }, data: { position: entry.newPosition } })
+      );
+
+    if (updates.length > 0) {
+      await prisma.$transaction(updates);
+    }
+  }
+}
+
+export default new WaitlistService();
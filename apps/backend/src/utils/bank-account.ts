@@ -0,0 +1,83 @@
+import { z } from 'zod';
+
+// IBAN lengths for the countries we actually see in teacher/organization accounts
+const IBAN_LENGTHS: Record<string, number> = {
+  PL: 28,
+  DE: 22,
+  AT: 20,
+  CZ: 24,
+  SK: 24,
+  LT: 20,
+  GB: 22,
+  IE: 22,
+  FR: 27,
+  ES: 24,
+  IT: 27,
+  NL: 18,
+  BE: 16,
+  UA: 29,
+};
+
+/**
+ * Strip spaces and dashes; a bare 26-digit NRB becomes a Polish IBAN
+ */
+export function normalizeBankAccount(raw: string): string {
+  const compact = raw.replace(/[\s-]/g, '').toUpperCase();
+  return /^\d{26}$/.test(compact) ? `PL${compact}` : compact;
+}
+
+/**
+ * ISO 13616 check (mod 97) - for Polish accounts this also validates the NRB check digits
+ */
+export function isValidIban(value: string): boolean {
+  const iban = normalizeBankAccount(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(iban)) return false;
+
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (expectedLength && iban.length !== expectedLength) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  const digits = rearranged.replace(/[A-Z]/g, (char) => String(char.charCodeAt(0) - 55));
+
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * 26-digit NRB of a Polish account, or null for foreign accounts
+ */
+export function toNrb(value: string): string | null {
+  const iban = normalizeBankAccount(value);
+  return iban.startsWith('PL') && iban.length === 28 ? iban.slice(2) : null;
+}
+
+/**
+ * Bank sort code (numer rozliczeniowy) - digits 3-10 of the NRB
+ */
+export function getBankSortCode(nrb: string): string {
+  return nrb.slice(2, 10);
+}
+
+/**
+ * Groups of four for display: PL61 1090 1014 ...
+ */
+export function formatBankAccount(value: string): string {
+  return normalizeBankAccount(value).replace(/(.{4})/g, '$1 ').trim();
+}
+
+/**
+ * Optional NRB/IBAN field - normalized to IBAN, empty string clears the value
+ */
+export function optionalBankAccount(fieldName: string) {
+  return z
+    .string({ invalid_type_error: `Pole "${fieldName}" musi być tekstem` })
+    .transform((value) => (value.trim() === '' ? null : normalizeBankAccount(value)))
+    .refine((value) => value === null || isValidIban(value), {
+      message: `Pole "${fieldName}" musi zawierać poprawny numer NRB lub IBAN`,
+    })
+    .nullable()
+    .optional();
+}
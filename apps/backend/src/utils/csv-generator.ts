@@ -34,6 +34,20 @@ class CsvGenerator {
     return num.toFixed(decimals);
   }
 
+  /**
+   * Amounts before conversion, e.g. "100.00 EUR; 250.00 PLN"
+   */
+  private static formatOriginal(amounts: { currency: string; amount: number }[] | undefined): string {
+    return (amounts || []).map((item) => `${this.formatNumber(item.amount)} ${item.currency}`).join('; ');
+  }
+
+  /**
+   * Reporting currency the rows were converted to
+   */
+  private static reportCurrency(data: any[]): string {
+    return data[0]?.currency || 'PLN';
+  }
+
   /**
    * Generate CSV string from data array with UTF-8 BOM
    */
@@ -50,6 +64,7 @@ class CsvGenerator {
    * Generate Teacher Payouts CSV
    */
   static generateTeacherPayoutsCsv(data: any[]): string {
+    const currency = this.reportCurrency(data);
     const headers = [
       'Nauczyciel',
       'Email',
@@ -57,7 +72,8 @@ class CsvGenerator {
       'Stawka godzinowa (PLN)',
       'Liczba lekcji',
       'Godziny',
-      'Wypłata (PLN)',
+      'Wypłata (oryginalnie)',
+      `Wypłata (${currency})`,
       'Status',
     ];
 
@@ -68,6 +84,7 @@ class CsvGenerator {
       this.formatNumber(row.hourlyRate),
       String(row.lessonsCount),
       this.formatNumber(row.totalHours),
+      this.formatOriginal(row.originalPayout),
       this.formatNumber(row.totalPayout),
       row.payoutStatus || 'PENDING',
     ]);
@@ -79,6 +96,7 @@ class CsvGenerator {
    * Generate New Students CSV
    */
   static generateNewStudentsCsv(data: any[]): string {
+    const currency = this.reportCurrency(data);
     const headers = [
       'Numer studenta',
       'Imię',
@@ -89,7 +107,8 @@ class CsvGenerator {
       'Poziom języka',
       'Cele',
       'Liczba zapisów',
-      'Wydano (PLN)',
+      'Wydano (oryginalnie)',
+      `Wydano (${currency})`,
     ];
 
     const rows = data.map((row) => [
@@ -102,6 +121,7 @@ class CsvGenerator {
       row.languageLevel || '',
       row.goals || '',
       String(row.enrollmentsCount),
+      this.formatOriginal(row.originalSpent),
       this.formatNumber(row.totalSpent),
     ]);
 
@@ -112,16 +132,19 @@ class CsvGenerator {
    * Generate Margins CSV
    */
   static generateMarginsCsv(data: any[]): string {
+    const currency = this.reportCurrency(data);
     const headers = [
       'Kurs',
       'Typ',
       'Język',
       'Poziom',
       'Liczba płatności',
-      'Przychód (PLN)',
+      'Przychód (oryginalnie)',
+      `Przychód (${currency})`,
       'Liczba lekcji',
-      'Koszty nauczycieli (PLN)',
-      'Zysk brutto (PLN)',
+      'Koszty nauczycieli (oryginalnie)',
+      `Koszty nauczycieli (${currency})`,
+      `Zysk brutto (${currency})`,
       'Marża (%)',
     ];
 
@@ -131,8 +154,10 @@ class CsvGenerator {
       row.language,
       row.level,
       String(row.paymentsCount),
+      this.formatOriginal(row.originalRevenue),
       this.formatNumber(row.totalRevenue),
       String(row.lessonsCount),
+      this.formatOriginal(row.originalTeacherCost),
       this.formatNumber(row.totalTeacherCost),
       this.formatNumber(row.grossProfit),
       this.formatNumber(row.marginPercent),
@@ -145,11 +170,13 @@ class CsvGenerator {
    * Generate Debtors CSV
    */
   static generateDebtorsCsv(data: any[]): string {
+    const currency = this.reportCurrency(data);
     const headers = [
       'Student',
       'Email',
       'Telefon',
-      'Dług (PLN)',
+      'Dług (oryginalnie)',
+      `Dług (${currency})`,
       'Najstarsza płatność',
       'Dni opóźnienia',
       'Liczba płatności',
@@ -159,6 +186,7 @@ class CsvGenerator {
       row.studentName,
       row.email,
       row.phone || '',
+      this.formatOriginal(row.originalDebt),
       this.formatNumber(row.totalDebt),
       this.formatDate(row.oldestPaymentDate),
       String(row.daysOverdue),
@@ -217,6 +245,63 @@ class CsvGenerator {
 
     return this.generateCsv(headers, rows);
   }
+
+  /**
+   * Generate monthly payroll CSV (all contract types in one flat table)
+   */
+  static generatePayrollCsv(data: any[]): string {
+    const contractLabels: Record<string, string> = {
+      B2B: 'B2B',
+      EMPLOYMENT: 'Umowa o pracę',
+      CIVIL: 'Umowa zlecenie',
+    };
+
+    const headers = [
+      'Lektor',
+      'Email',
+      'Typ umowy',
+      'Okres od',
+      'Okres do',
+      'Godziny',
+      'Kwota (brutto / netto B2B)',
+      'ZUS pracownika',
+      'Składka zdrowotna',
+      'KUP',
+      'Zaliczka PIT',
+      'VAT %',
+      'VAT',
+      'Do wypłaty',
+      'ZUS pracodawcy',
+      'Koszt pracodawcy',
+      'Waluta',
+      'Nr faktury',
+      'Status',
+    ];
+
+    const rows = data.map((row) => [
+      row.teacherName,
+      row.email,
+      row.contractType ? contractLabels[row.contractType] : '',
+      this.formatDate(row.periodStart),
+      this.formatDate(row.periodEnd),
+      this.formatNumber(row.totalHours),
+      this.formatNumber(row.amount),
+      this.formatNumber(row.employeeZus),
+      this.formatNumber(row.healthInsurance),
+      this.formatNumber(row.taxDeductibleCosts),
+      this.formatNumber(row.pitAdvance),
+      row.contractType === 'B2B' ? (row.vatRate === null ? 'zw' : String(row.vatRate)) : '',
+      this.formatNumber(row.vatAmount),
+      this.formatNumber(row.netAmount),
+      this.formatNumber(row.employerZus),
+      this.formatNumber(row.employerCost),
+      row.currency,
+      row.invoiceNumber || '',
+      row.status,
+    ]);
+
+    return this.generateCsv(headers, rows);
+  }
 }
 
 export default CsvGenerator;
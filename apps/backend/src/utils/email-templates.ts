@@ -0,0 +1,339 @@
+/**
+ * Trigger events that can be customised with an organization NotificationTemplate.
+ * Each event lists its placeholders ({{name}}) with sample values used for previews and test sends.
+ */
+
+export interface TemplatePlaceholder {
+  key: string;
+  label: string;
+  sample: string;
+}
+
+export interface EmailTriggerDefinition {
+  label: string;
+  description: string;
+  placeholders: TemplatePlaceholder[];
+  defaultSubject: string;
+  defaultBody: string;
+}
+
+export type TemplateVariables = Record<string, string | number | null | undefined>;
+
+// Available in every template
+const COMMON_PLACEHOLDERS: TemplatePlaceholder[] = [
+  { key: 'organizationName', label: 'Nazwa szkoły', sample: 'Szkoła Językowa Lingo' },
+];
+
+const LESSON_PLACEHOLDERS: TemplatePlaceholder[] = [
+  { key: 'lessonTitle', label: 'Temat lekcji', sample: 'Conversation practice' },
+  { key: 'lessonDate', label: 'Data i godzina lekcji', sample: 'poniedziałek, 12 stycznia 2026 17:00' },
+  { key: 'lessonDuration', label: 'Czas trwania (min)', sample: '60' },
+  { key: 'deliveryMode', label: 'Tryb zajęć', sample: 'Online' },
+  { key: 'meetingUrl', label: 'Link do spotkania', sample: 'https://meet.example.com/abc-defg-hij' },
+];
+
+export const EMAIL_TRIGGER_EVENTS = {
+  lesson_reminder_student: {
+    label: 'Przypomnienie o zajęciach (uczeń)',
+    description: 'Wysyłane uczniowi przed zaplanowaną lekcją.',
+    placeholders: [
+      { key: 'studentName', label: 'Imię i nazwisko ucznia', sample: 'Anna Kowalska' },
+      { key: 'teacherName', label: 'Imię i nazwisko lektora', sample: 'Jan Nowak' },
+      ...LESSON_PLACEHOLDERS,
+    ],
+    defaultSubject: 'Przypomnienie: Zajęcia z {{teacherName}}',
+    defaultBody: 'Dzień dobry {{studentName}},\n\nPrzypominamy o zajęciach "{{lessonTitle}}" z lektorem {{teacherName}}.\nTermin: {{lessonDate}} ({{lessonDuration}} minut, {{deliveryMode}})\n\nDo zobaczenia!',
+  },
+  lesson_reminder_teacher: {
+    label: 'Przypomnienie o zajęciach (lektor)',
+    description: 'Wysyłane lektorowi przed zaplanowaną lekcją.',
+    placeholders: [
+      { key: 'teacherName', label: 'Imię i nazwisko lektora', sample: 'Jan Nowak' },
+      { key: 'studentName', label: 'Imię i nazwisko ucznia', sample: 'Anna Kowalska' },
+      ...LESSON_PLACEHOLDERS,
+    ],
+    defaultSubject: 'Przypomnienie: Zajęcia z {{studentName}}',
+    defaultBody: 'Dzień dobry {{teacherName}},\n\nPrzypominamy o zajęciach "{{lessonTitle}}" z uczniem {{studentName}}.\nTermin: {{lessonDate}} ({{lessonDuration}} minut, {{deliveryMode}})\n\nMiłego dnia!',
+  },
+  lesson_confirmation: {
+    label: 'Potwierdzenie zajęć',
+    description: 'Wysyłane uczniowi po potwierdzeniu lekcji przez lektora.',
+    placeholders: [
+      { key: 'studentName', label: 'Imię i nazwisko ucznia', sample: 'Anna Kowalska' },
+      { key: 'teacherName', label: 'Imię i nazwisko lektora', sample: 'Jan Nowak' },
+      ...LESSON_PLACEHOLDERS.slice(0, 3),
+    ],
+    defaultSubject: 'Potwierdzone: Zajęcia z {{teacherName}}',
+    defaultBody: 'Dzień dobry {{studentName}},\n\nLektor {{teacherName}} potwierdził zajęcia "{{lessonTitle}}" w terminie {{lessonDate}}.\n\nDo zobaczenia na zajęciach!',
+  },
+  lesson_cancellation: {
+    label: 'Odwołanie zajęć',
+    description: 'Wysyłane uczniowi i lektorowi po odwołaniu lekcji.',
+    placeholders: [
+      { key: 'recipientName', label: 'Imię i nazwisko odbiorcy', sample: 'Anna Kowalska' },
+      { key: 'otherPersonName', label: 'Druga strona (lektor lub uczeń)', sample: 'Jan Nowak' },
+      { key: 'otherPersonRole', label: 'Rola drugiej strony', sample: 'Lektor' },
+      { key: 'lessonTitle', label: 'Temat lekcji', sample: 'Conversation practice' },
+      { key: 'lessonDate', label: 'Data i godzina lekcji', sample: 'poniedziałek, 12 stycznia 2026 17:00' },
+      { key: 'cancellationReason', label: 'Powód odwołania', sample: 'Choroba' },
+    ],
+    defaultSubject: 'Odwołane: Zajęcia z {{otherPersonName}}',
+    defaultBody: 'Dzień dobry {{recipientName}},\n\nZajęcia "{{lessonTitle}}" ({{lessonDate}}) zostały odwołane.\nPowód: {{cancellationReason}}\n\nProsimy o kontakt w celu ustalenia nowego terminu.',
+  },
+  lesson_rescheduled: {
+    label: 'Zmiana terminu zajęć',
+    description: 'Wysyłane uczniowi i lektorowi po przeniesieniu lekcji.',
+    placeholders: [
+      { key: 'recipientName', label: 'Imię i nazwisko odbiorcy', sample: 'Anna Kowalska' },
+      { key: 'otherPersonName', label: 'Druga strona (lektor lub uczeń)', sample: 'Jan Nowak' },
+      { key: 'otherPersonRole', label: 'Rola drugiej strony', sample: 'Lektor' },
+      { key: 'oldDate', label: 'Poprzedni termin', sample: 'poniedziałek, 12 stycznia 2026 17:00' },
+      { key: 'newDate', label: 'Nowy termin', sample: 'środa, 14 stycznia 2026 18:00' },
+      { key: 'rescheduledBy', label: 'Kto zmienił termin', sample: 'Jan Nowak' },
+      ...LESSON_PLACEHOLDERS.filter((p) => p.key !== 'lessonDate'),
+    ],
+    defaultSubject: 'Zmiana terminu: Zajęcia z {{otherPersonName}}',
+    defaultBody: 'Dzień dobry {{recipientName}},\n\n{{rescheduledBy}} zmienił(a) termin zajęć "{{lessonTitle}}".\nStary termin: {{oldDate}}\nNowy termin: {{newDate}}\n\nProsimy o potwierdzenie lub kontakt w razie pytań.',
+  },
+  lesson_substitution: {
+    label: 'Zastępstwo',
+    description: 'Wysyłane uczniowi, lektorowi i zastępcy po przydzieleniu, zmianie lub odwołaniu zastępstwa.',
+    placeholders: [
+      { key: 'recipientName', label: 'Imię i nazwisko odbiorcy', sample: 'Anna Kowalska' },
+      { key: 'lessonTitle', label: 'Temat lekcji', sample: 'Conversation practice' },
+      { key: 'lessonDate', label: 'Data i godzina lekcji', sample: 'poniedziałek, 12 stycznia 2026 17:00' },
+      { key: 'originalTeacherName', label: 'Lektor prowadzący', sample: 'Jan Nowak' },
+      { key: 'substituteTeacherName', label: 'Lektor zastępujący', sample: 'Ewa Wiśniewska' },
+      { key: 'substitutionInfo', label: 'Opis zmiany', sample: 'Zajęcia poprowadzi Ewa Wiśniewska w zastępstwie za Jan Nowak.' },
+      { key: 'reason', label: 'Powód zastępstwa', sample: 'Choroba' },
+    ],
+    defaultSubject: 'Zastępstwo: {{lessonTitle}}',
+    defaultBody: 'Dzień dobry {{recipientName}},\n\n{{substitutionInfo}}\nZajęcia: "{{lessonTitle}}", {{lessonDate}}\n\nW razie pytań prosimy o kontakt.',
+  },
+  low_budget: {
+    label: 'Niski stan konta godzin',
+    description: 'Wysyłane uczniowi, gdy kończą się wykupione godziny.',
+    placeholders: [
+      { key: 'studentName', label: 'Imię i nazwisko ucznia', sample: 'Anna Kowalska' },
+      { key: 'courseName', label: 'Nazwa kursu', sample: 'Angielski B1' },
+      { key: 'hoursRemaining', label: 'Pozostało godzin', sample: '1.5' },
+    ],
+    defaultSubject: 'Niski stan konta - {{courseName}}',
+    defaultBody: 'Dzień dobry {{studentName}},\n\nNa kursie {{courseName}} pozostało {{hoursRemaining}} h.\nProsimy o kontakt w celu doładowania konta, aby uniknąć przerwy w nauce.',
+  },
+  enrollment_confirmation: {
+    label: 'Potwierdzenie zapisu na kurs',
+    description: 'Wysyłane uczniowi po zapisaniu na kurs.',
+    placeholders: [
+      { key: 'studentName', label: 'Imię i nazwisko ucznia', sample: 'Anna Kowalska' },
+      { key: 'courseName', label: 'Nazwa kursu', sample: 'Angielski B1' },
+      { key: 'courseType', label: 'Typ kursu', sample: 'Grupowy - angielski B1' },
+      { key: 'startDate', label: 'Data rozpoczęcia', sample: '12 stycznia 2026' },
+    ],
+    defaultSubject: 'Potwierdzenie zapisu: {{courseName}}',
+    defaultBody: 'Dzień dobry {{studentName}},\n\nZostałeś/aś zapisany/a na kurs {{courseName}} ({{courseType}}).\nData rozpoczęcia: {{startDate}}\n\nŻyczymy powodzenia w nauce!',
+  },
+  payment_confirmation: {
+    label: 'Potwierdzenie płatności',
+    description: 'Wysyłane uczniowi po zaksięgowaniu płatności.',
+    placeholders: [
+      { key: 'studentName', label: 'Imię i nazwisko ucznia', sample: 'Anna Kowalska' },
+      { key: 'amount', label: 'Kwota', sample: '450.00' },
+      { key: 'currency', label: 'Waluta', sample: 'PLN' },
+      { key: 'paymentMethod', label: 'Metoda płatności', sample: 'Przelew bankowy' },
+      { key: 'courseName', label: 'Nazwa kursu', sample: 'Angielski B1' },
+      { key: 'invoiceUrl', label: 'Link do faktury', sample: 'https://example.com/faktura.pdf' },
+    ],
+    defaultSubject: 'Potwierdzenie płatności: {{amount}} {{currency}}',
+    defaultBody: 'Dzień dobry {{studentName}},\n\nOtrzymaliśmy Twoją płatność {{amount}} {{currency}} ({{paymentMethod}}).\n\nDziękujemy!',
+  },
+  payment_reminder: {
+    label: 'Przypomnienie o płatności',
+    description: 'Wysyłane przed terminem płatności i po jego przekroczeniu.',
+    placeholders: [
+      { key: 'studentName', label: 'Imię i nazwisko ucznia', sample: 'Anna Kowalska' },
+      { key: 'amount', label: 'Kwota', sample: '450.00' },
+      { key: 'currency', label: 'Waluta', sample: 'PLN' },
+      { key: 'dueDate', label: 'Termin płatności', sample: 'piątek, 16 stycznia 2026' },
+      { key: 'statusMessage', label: 'Informacja o terminie', sample: 'Pozostało 3 dni do terminu płatności.' },
+      { key: 'lessonInfo', label: 'Dotyczy', sample: 'Lekcja: Conversation practice (12 stycznia 2026)' },
+      { key: 'bankAccountInfo', label: 'Dane do przelewu', sample: '12 3456 7890 1234 5678 9012 3456' },
+      { key: 'organizationEmail', label: 'Email szkoły', sample: 'kontakt@szkola.pl' },
+    ],
+    defaultSubject: 'Przypomnienie o płatności: {{amount}} {{currency}}',
+    defaultBody: 'Dzień dobry {{studentName}},\n\n{{statusMessage}}\nKwota do zapłaty: {{amount}} {{currency}}\nTermin płatności: {{dueDate}}\n\nProsimy o terminowe uregulowanie należności.',
+  },
+  welcome: {
+    label: 'Powitanie nowego użytkownika',
+    description: 'Wysyłane po utworzeniu konta.',
+    placeholders: [
+      { key: 'userName', label: 'Imię i nazwisko', sample: 'Anna Kowalska' },
+      { key: 'userEmail', label: 'Email', sample: 'anna@example.com' },
+      { key: 'role', label: 'Rola', sample: 'Uczeń' },
+      { key: 'loginUrl', label: 'Link do logowania', sample: 'https://app.lingodesk.pl/login' },
+    ],
+    defaultSubject: 'Witamy w {{organizationName}}',
+    defaultBody: 'Dzień dobry {{userName}},\n\nTwoje konto zostało utworzone. Zaloguj się: {{loginUrl}}',
+  },
+  user_invitation: {
+    label: 'Zaproszenie użytkownika',
+    description: 'Wysyłane z hasłem tymczasowym po dodaniu użytkownika.',
+    placeholders: [
+      { key: 'firstName', label: 'Imię', sample: 'Anna' },
+      { key: 'email', label: 'Email', sample: 'anna@example.com' },
+      { key: 'role', label: 'Rola', sample: 'Lektor' },
+      { key: 'temporaryPassword', label: 'Hasło tymczasowe', sample: 'Xy7#pQ2m' },
+      { key: 'loginUrl', label: 'Link do logowania', sample: 'https://app.lingodesk.pl/login' },
+    ],
+    defaultSubject: 'Zaproszenie do {{organizationName}}',
+    defaultBody: 'Dzień dobry {{firstName}},\n\nZostałeś/aś zaproszony/a do {{organizationName}}.\nEmail: {{email}}\nHasło tymczasowe: {{temporaryPassword}}\n\nZaloguj się: {{loginUrl}} i zmień hasło po pierwszym logowaniu.',
+  },
+  application_confirmation: {
+    label: 'Zgłoszenie otrzymane',
+    description: 'Wysyłane kandydatowi po złożeniu zgłoszenia na kurs.',
+    placeholders: [
+      { key: 'applicantName', label: 'Imię i nazwisko kandydata', sample: 'Anna Kowalska' },
+      { key: 'courseName', label: 'Preferowany kurs', sample: 'Angielski B1' },
+    ],
+    defaultSubject: 'Zgłoszenie otrzymane - {{organizationName}}',
+    defaultBody: 'Dzień dobry {{applicantName}},\n\nDziękujemy za zgłoszenie! Skontaktujemy się z Tobą wkrótce.',
+  },
+  application_accepted: {
+    label: 'Zgłoszenie zaakceptowane',
+    description: 'Wysyłane kandydatowi po akceptacji zgłoszenia.',
+    placeholders: [
+      { key: 'applicantName', label: 'Imię i nazwisko kandydata', sample: 'Anna Kowalska' },
+      { key: 'courseName', label: 'Kurs', sample: 'Angielski B1' },
+      { key: 'notes', label: 'Informacja dla kandydata', sample: 'Zajęcia startują w poniedziałek.' },
+    ],
+    defaultSubject: 'Zgłoszenie zaakceptowane - {{organizationName}}',
+    defaultBody: 'Dzień dobry {{applicantName}},\n\nTwoje zgłoszenie zostało zaakceptowane. Wkrótce skontaktujemy się z Tobą w celu omówienia szczegółów.',
+  },
+  application_rejected: {
+    label: 'Zgłoszenie odrzucone',
+    description: 'Wysyłane kandydatowi po odrzuceniu zgłoszenia.',
+    placeholders: [
+      { key: 'applicantName', label: 'Imię i nazwisko kandydata', sample: 'Anna Kowalska' },
+      { key: 'courseName', label: 'Kurs', sample: 'Angielski B1' },
+      { key: 'notes', label: 'Informacja dla kandydata', sample: 'Brak wolnych miejsc w grupie.' },
+    ],
+    defaultSubject: 'Zgłoszenie odrzucone - {{organizationName}}',
+    defaultBody: 'Dzień dobry {{applicantName}},\n\nPrzykro nam, ale Twoje zgłoszenie zostało odrzucone. Jeśli masz pytania, prosimy o kontakt.',
+  },
+  application_converted: {
+    label: 'Konto ucznia z zgłoszenia',
+    description: 'Wysyłane z danymi logowania po utworzeniu ucznia ze zgłoszenia.',
+    placeholders: [
+      { key: 'studentName', label: 'Imię i nazwisko ucznia', sample: 'Anna Kowalska' },
+      { key: 'studentEmail', label: 'Email ucznia', sample: 'anna@example.com' },
+      { key: 'temporaryPassword', label: 'Hasło tymczasowe', sample: 'Xy7#pQ2m' },
+      { key: 'courseName', label: 'Zapisany kurs', sample: 'Angielski B1' },
+      { key: 'loginUrl', label: 'Link do logowania', sample: 'https://app.lingodesk.pl/login' },
+    ],
+    defaultSubject: 'Konto ucznia gotowe - {{organizationName}}',
+    defaultBody: 'Dzień dobry {{studentName}},\n\nUtworzyliśmy dla Ciebie konto ucznia.\nEmail: {{studentEmail}}\nHasło tymczasowe: {{temporaryPassword}}\n\nZaloguj się: {{loginUrl}} i zmień hasło po pierwszym logowaniu.',
+  },
+  trial_lesson_scheduled: {
+    label: 'Lekcja próbna umówiona',
+    description: 'Wysyłane kandydatowi po umówieniu lekcji próbnej ze zgłoszenia.',
+    placeholders: [
+      { key: 'applicantName', label: 'Imię i nazwisko kandydata', sample: 'Anna Kowalska' },
+      { key: 'teacherName', label: 'Lektor', sample: 'Jan Nowak' },
+      ...LESSON_PLACEHOLDERS,
+      { key: 'price', label: 'Cena lekcji', sample: 'bezpłatna' },
+    ],
+    defaultSubject: 'Lekcja próbna - {{lessonDate}}',
+    defaultBody: 'Dzień dobry {{applicantName}},\n\nUmówiliśmy dla Ciebie lekcję próbną.\nTermin: {{lessonDate}} ({{lessonDuration}} min)\nLektor: {{teacherName}}\nTryb: {{deliveryMode}}\nCena: {{price}}\n\nDo zobaczenia!',
+  },
+  waitlist_offer: {
+    label: 'Wolne miejsce z listy oczekujących',
+    description: 'Wysyłane pierwszej osobie z listy oczekujących, gdy zwolni się miejsce w kursie.',
+    placeholders: [
+      { key: 'recipientName', label: 'Imię i nazwisko odbiorcy', sample: 'Anna Kowalska' },
+      { key: 'courseName', label: 'Kurs', sample: 'Angielski B1' },
+      { key: 'offerUrl', label: 'Link do przyjęcia miejsca', sample: 'https://app.lingodesk.pl/waitlist/offer/abc123' },
+      { key: 'expiresAt', label: 'Termin ważności oferty', sample: 'środa, 14 stycznia 2026 18:00' },
+    ],
+    defaultSubject: 'Zwolniło się miejsce w kursie {{courseName}}',
+    defaultBody: 'Dzień dobry {{recipientName}},\n\nW kursie {{courseName}} zwolniło się miejsce, a Ty jesteś pierwsza/pierwszy na liście oczekujących.\nAby je zająć, kliknij: {{offerUrl}}\n\nOferta jest ważna do {{expiresAt}}. Po tym terminie miejsce otrzyma kolejna osoba z listy.',
+  },
+} satisfies Record<string, EmailTriggerDefinition>;
+
+export type EmailTriggerEvent = keyof typeof EMAIL_TRIGGER_EVENTS;
+
+export const EMAIL_TRIGGER_EVENT_KEYS = Object.keys(EMAIL_TRIGGER_EVENTS) as [EmailTriggerEvent, ...EmailTriggerEvent[]];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+export function isEmailTriggerEvent(value: string): value is EmailTriggerEvent {
+  return value in EMAIL_TRIGGER_EVENTS;
+}
+
+/**
+ * All placeholders usable for a trigger event (event-specific + common)
+ */
+export function getTriggerPlaceholders(triggerEvent: EmailTriggerEvent): TemplatePlaceholder[] {
+  return [...EMAIL_TRIGGER_EVENTS[triggerEvent].placeholders, ...COMMON_PLACEHOLDERS];
+}
+
+/**
+ * Sample variables for previews and test sends
+ */
+export function getSampleVariables(triggerEvent: EmailTriggerEvent): TemplateVariables {
+  return Object.fromEntries(getTriggerPlaceholders(triggerEvent).map((p) => [p.key, p.sample]));
+}
+
+/**
+ * Placeholders used in a template that the trigger event does not provide
+ */
+export function findUnknownPlaceholders(template: string, triggerEvent: EmailTriggerEvent): string[] {
+  const known = new Set(getTriggerPlaceholders(triggerEvent).map((p) => p.key));
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!known.has(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Replace {{placeholders}} with values (missing values render as empty text)
+ */
+export function renderTemplate(template: string, variables: TemplateVariables, options: { escape: boolean }): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, key: string) => {
+    const value = variables[key];
+    if (value === null || value === undefined) return '';
+    return options.escape ? escapeHtml(String(value)) : String(value);
+  });
+}
+
+/**
+ * Render subject and HTML body of an organization template in the standard email layout
+ */
+export function renderEmailTemplate(
+  template: { subjectTemplate: string; bodyTemplate: string },
+  variables: TemplateVariables
+): { subject: string; html: string } {
+  const subject = renderTemplate(template.subjectTemplate, variables, { escape: false }).trim();
+  const body = renderTemplate(template.bodyTemplate, variables, { escape: true });
+  const footer = variables.organizationName
+    ? `${escapeHtml(String(variables.organizationName))} - LingoDesk`
+    : 'LingoDesk - System zarządzania szkołą językową';
+
+  const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="white-space: pre-wrap; line-height: 1.6;">${body.trim()}</div>
+        <p style="color: #6b7280; font-size: 12px; margin-top: 30px;">${footer}</p>
+      </div>
+    `;
+
+  return { subject, html };
+}
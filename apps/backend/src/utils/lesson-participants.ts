@@ -0,0 +1,75 @@
+/**
+ * Group lesson helpers
+ * A group lesson is a single Lesson row with many LessonParticipant rows.
+ * Lesson.studentId stays set to the primary participant so individual-lesson code keeps working.
+ */
+import { Prisma } from '@prisma/client';
+
+export interface LessonStudentLike {
+  user: {
+    firstName: string;
+    lastName: string;
+  };
+}
+
+export interface LessonWithParticipants<T extends LessonStudentLike> {
+  isGroupLesson: boolean;
+  student: T;
+  participants?: { student: T }[];
+}
+
+/**
+ * Where-clause matching lessons the student takes part in
+ * (as the lesson's student or as a participant of a group lesson)
+ */
+export function studentLessonFilter(studentId: string): Prisma.LessonWhereInput {
+  return {
+    OR: [
+      { studentId },
+      { participants: { some: { studentId } } },
+    ],
+  };
+}
+
+/**
+ * Include for lesson participants with the user data needed for notifications
+ */
+export const participantsWithUserInclude = {
+  include: {
+    student: {
+      include: {
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+            avatarUrl: true,
+          },
+        },
+      },
+    },
+  },
+  orderBy: { createdAt: 'asc' },
+} satisfies Prisma.Lesson$participantsArgs;
+
+/**
+ * Students attending the lesson - all participants of a group lesson, otherwise the lesson's student
+ */
+export function getLessonStudents<T extends LessonStudentLike>(lesson: LessonWithParticipants<T>): T[] {
+  if (lesson.isGroupLesson && lesson.participants && lesson.participants.length > 0) {
+    return lesson.participants.map((participant) => participant.student);
+  }
+  return [lesson.student];
+}
+
+/**
+ * Display name of the lesson's students ("Jan Kowalski" or "Grupa (8 os.)")
+ */
+export function formatLessonStudents<T extends LessonStudentLike>(lesson: LessonWithParticipants<T>): string {
+  const students = getLessonStudents(lesson);
+  if (lesson.isGroupLesson) {
+    return `Grupa (${students.length} os.)`;
+  }
+  return `${lesson.student.user.firstName} ${lesson.student.user.lastName}`;
+}
@@ -2,6 +2,49 @@ import PDFDocument from 'pdfkit';
 import { format } from 'date-fns';
 import { pl } from 'date-fns/locale';
 
+export interface InvoicePdfData {
+  type: 'INVOICE' | 'CORRECTION';
+  invoiceNumber: string;
+  issueDate: Date;
+  saleDate?: Date | null;
+  dueDate: Date;
+  seller: { name: string; taxId?: string | null; address?: string | null };
+  buyer: { name: string; email?: string | null; address?: string | null };
+  description: string;
+  currency: string;
+  netAmount: number;
+  taxRate: number | null;
+  taxAmount: number;
+  totalAmount: number;
+  paymentMethod?: string | null;
+  isPaid: boolean;
+  notes?: string | null;
+  correctedInvoiceNumber?: string | null;
+  correctionReason?: string | null;
+  isVoided?: boolean;
+}
+
+export interface AttendanceRegisterPdfData {
+  organizationName: string;
+  courseName: string;
+  teacherName: string;
+  dateRange?: { start: Date; end: Date };
+  lessonDates: Date[];
+  rows: { name: string; cells: string[]; percent: number | null }[];
+}
+
+export interface CertificatePdfData {
+  title: string;
+  body: string; // Template text with placeholders already filled in
+  organizationName: string;
+  organizationCity?: string | null;
+  logo?: Buffer | null;
+  primaryColor?: string | null;
+  issuedAt: Date;
+  verificationCode: string;
+  verificationUrl: string;
+}
+
 interface PdfGeneratorOptions {
   title: string;
   organizationName: string;
@@ -13,8 +56,16 @@ class PdfGenerator {
   /**
    * Format currency
    */
-  private static formatCurrency(amount: number): string {
-    return `${amount.toFixed(2)} PLN`;
+  private static formatCurrency(amount: number, currency: string = 'PLN'): string {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+
+  /**
+   * Amounts before conversion to the reporting currency, one currency per line
+   */
+  private static formatOriginal(amounts: { currency: string; amount: number }[] | undefined): string {
+    if (!amounts || amounts.length === 0) return '-';
+    return amounts.map((item) => this.formatCurrency(item.amount, item.currency)).join('\n');
   }
 
   /**
@@ -189,13 +240,15 @@ class PdfGenerator {
         });
 
         // Add table
-        const headers = ['Nauczyciel', 'Lekcji', 'Godziny', 'Wypłata', 'Status'];
-        const columnWidths = [150, 60, 80, 100, 100];
+        const currency = data[0]?.currency || 'PLN';
+        const headers = ['Nauczyciel', 'Lekcji', 'Godziny', 'Oryginalnie', `Wypłata (${currency})`, 'Status'];
+        const columnWidths = [120, 50, 60, 110, 90, 70];
         const rows = data.map((row) => [
           row.teacherName,
           String(row.lessonsCount),
           row.totalHours.toFixed(2),
-          this.formatCurrency(row.totalPayout),
+          this.formatOriginal(row.originalPayout),
+          this.formatCurrency(row.totalPayout, currency),
           row.payoutStatus || 'PENDING',
         ]);
 
@@ -210,7 +263,7 @@ class PdfGenerator {
           { label: 'Liczba nauczycieli', value: String(data.length) },
           { label: 'Całkowita liczba lekcji', value: String(totalLessons) },
           { label: 'Całkowite godziny', value: totalHours.toFixed(2) },
-          { label: 'Całkowita wypłata', value: this.formatCurrency(totalPayout) },
+          { label: 'Całkowita wypłata', value: this.formatCurrency(totalPayout, currency) },
         ]);
 
         doc.end();
@@ -249,15 +302,17 @@ class PdfGenerator {
           generatedAt: new Date(),
         });
 
-        const headers = ['Imię i nazwisko', 'Email', 'Data zapisu', 'Poziom', 'Zapisy', 'Wydano'];
-        const columnWidths = [120, 150, 80, 80, 60, 80];
+        const currency = data[0]?.currency || 'PLN';
+        const headers = ['Imię i nazwisko', 'Email', 'Data zapisu', 'Poziom', 'Zapisy', 'Oryginalnie', `Wydano (${currency})`];
+        const columnWidths = [120, 150, 80, 80, 60, 110, 80];
         const rows = data.map((row) => [
           `${row.firstName} ${row.lastName}`,
           row.email,
           this.formatDate(row.enrollmentDate),
           row.languageLevel || '-',
           String(row.enrollmentsCount),
-          this.formatCurrency(row.totalSpent),
+          this.formatOriginal(row.originalSpent),
+          this.formatCurrency(row.totalSpent, currency),
         ]);
 
         this.addTable(doc, headers, rows, columnWidths);
@@ -266,7 +321,7 @@ class PdfGenerator {
 
         this.addSummary(doc, [
           { label: 'Liczba nowych uczniów', value: String(data.length) },
-          { label: 'Łączne wydatki uczniów', value: this.formatCurrency(totalSpent) },
+          { label: 'Łączne wydatki uczniów', value: this.formatCurrency(totalSpent, currency) },
         ]);
 
         doc.end();
@@ -300,14 +355,26 @@ class PdfGenerator {
           generatedAt: new Date(),
         });
 
-        const headers = ['Kurs', 'Typ', 'Przychód', 'Koszty', 'Zysk', 'Marża %'];
-        const columnWidths = [150, 80, 90, 90, 90, 70];
+        const currency = data[0]?.currency || 'PLN';
+        const headers = [
+          'Kurs',
+          'Typ',
+          'Przychód oryg.',
+          `Przychód (${currency})`,
+          'Koszty oryg.',
+          `Koszty (${currency})`,
+          `Zysk (${currency})`,
+          'Marża %',
+        ];
+        const columnWidths = [120, 70, 100, 80, 100, 80, 80, 60];
         const rows = data.map((row) => [
           `${row.courseName} (${row.language} ${row.level})`,
           row.courseType === 'GROUP' ? 'Grupowy' : 'Indywidualny',
-          this.formatCurrency(row.totalRevenue),
-          this.formatCurrency(row.totalTeacherCost),
-          this.formatCurrency(row.grossProfit),
+          this.formatOriginal(row.originalRevenue),
+          this.formatCurrency(row.totalRevenue, currency),
+          this.formatOriginal(row.originalTeacherCost),
+          this.formatCurrency(row.totalTeacherCost, currency),
+          this.formatCurrency(row.grossProfit, currency),
           `${row.marginPercent.toFixed(2)}%`,
         ]);
 
@@ -319,9 +386,9 @@ class PdfGenerator {
         const avgMargin = totalRevenue > 0 ? ((totalProfit / totalRevenue) * 100).toFixed(2) : '0.00';
 
         this.addSummary(doc, [
-          { label: 'Całkowity przychód', value: this.formatCurrency(totalRevenue) },
-          { label: 'Całkowite koszty', value: this.formatCurrency(totalCosts) },
-          { label: 'Całkowity zysk', value: this.formatCurrency(totalProfit) },
+          { label: 'Całkowity przychód', value: this.formatCurrency(totalRevenue, currency) },
+          { label: 'Całkowite koszty', value: this.formatCurrency(totalCosts, currency) },
+          { label: 'Całkowity zysk', value: this.formatCurrency(totalProfit, currency) },
           { label: 'Średnia marża', value: `${avgMargin}%` },
         ]);
 
@@ -351,12 +418,14 @@ class PdfGenerator {
           generatedAt: new Date(),
         });
 
-        const headers = ['Student', 'Email', 'Dług', 'Dni opóźn.', 'Płatności'];
-        const columnWidths = [120, 150, 80, 80, 80];
+        const currency = data[0]?.currency || 'PLN';
+        const headers = ['Student', 'Email', 'Oryginalnie', `Dług (${currency})`, 'Dni opóźn.', 'Płatności'];
+        const columnWidths = [100, 120, 100, 80, 60, 50];
         const rows = data.map((row) => [
           row.studentName,
           row.email,
-          this.formatCurrency(row.totalDebt),
+          this.formatOriginal(row.originalDebt),
+          this.formatCurrency(row.totalDebt, currency),
           String(row.daysOverdue),
           String(row.pendingPaymentsCount),
         ]);
@@ -367,7 +436,7 @@ class PdfGenerator {
 
         this.addSummary(doc, [
           { label: 'Liczba dłużników', value: String(data.length) },
-          { label: 'Łączny dług', value: this.formatCurrency(totalDebt) },
+          { label: 'Łączny dług', value: this.formatCurrency(totalDebt, currency) },
         ]);
 
         doc.end();
@@ -448,6 +517,282 @@ class PdfGenerator {
       }
     });
   }
+
+  /**
+   * Generate course attendance register PDF (landscape, lessons split into column blocks)
+   */
+  static async generateAttendanceRegisterPdf(data: AttendanceRegisterPdfData): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({ margin: 50, size: 'A4', layout: 'landscape' });
+        const buffers: Buffer[] = [];
+
+        doc.on('data', buffers.push.bind(buffers));
+        doc.on('end', () => resolve(Buffer.concat(buffers)));
+        doc.on('error', reject);
+
+        this.addHeader(doc, {
+          title: `Dziennik obecności: ${data.courseName} (${data.teacherName})`,
+          organizationName: data.organizationName,
+          dateRange: data.dateRange,
+          generatedAt: new Date(),
+        });
+
+        const lessonsPerBlock = 18;
+        const nameWidth = 150;
+        const cellWidth = 30;
+        const percentWidth = 50;
+        const rowHeight = 18;
+        const pageBottom = doc.page.height - 60;
+
+        for (let blockStart = 0; blockStart < Math.max(data.lessonDates.length, 1); blockStart += lessonsPerBlock) {
+          const dates = data.lessonDates.slice(blockStart, blockStart + lessonsPerBlock);
+          const tableWidth = nameWidth + dates.length * cellWidth + percentWidth;
+          let y = doc.y + 10;
+
+          const drawHeader = () => {
+            doc.fontSize(8).font('Helvetica-Bold').fillColor('#000000');
+            doc.text(this.encodeText('Uczeń'), 50, y, { width: nameWidth });
+            dates.forEach((date, i) => {
+              doc.text(format(date, 'dd.MM'), 50 + nameWidth + i * cellWidth, y, { width: cellWidth, align: 'center' });
+            });
+            doc.text('%', 50 + nameWidth + dates.length * cellWidth, y, { width: percentWidth, align: 'right' });
+            y += rowHeight;
+            doc.moveTo(50, y - 5).lineTo(50 + tableWidth, y - 5).stroke();
+            doc.font('Helvetica');
+          };
+
+          drawHeader();
+
+          data.rows.forEach((row, rowIndex) => {
+            if (y > pageBottom) {
+              doc.addPage();
+              y = 50;
+              drawHeader();
+            }
+
+            if (rowIndex % 2 === 1) {
+              doc.rect(50, y - 4, tableWidth, rowHeight).fill('#f9fafb');
+            }
+
+            doc.fillColor('#000000').text(this.encodeText(row.name), 50, y, { width: nameWidth, lineBreak: false });
+            row.cells.slice(blockStart, blockStart + lessonsPerBlock).forEach((cell, i) => {
+              doc.text(cell, 50 + nameWidth + i * cellWidth, y, { width: cellWidth, align: 'center' });
+            });
+            doc.text(
+              row.percent !== null ? `${row.percent}%` : '-',
+              50 + nameWidth + dates.length * cellWidth,
+              y,
+              { width: percentWidth, align: 'right' }
+            );
+            y += rowHeight;
+          });
+
+          doc.y = y + 10;
+          if (blockStart + lessonsPerBlock < data.lessonDates.length && doc.y > pageBottom - 100) {
+            doc.addPage();
+          }
+        }
+
+        doc
+          .fontSize(8)
+          .font('Helvetica')
+          .text(
+            this.encodeText('O = obecny, N = nieobecny, S = spóźniony, U = usprawiedliwiony, - = nie dotyczy'),
+            50,
+            doc.y + 10
+          );
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Generate attendance / completion certificate PDF with organization branding
+   */
+  static async generateCertificatePdf(data: CertificatePdfData): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({ margin: 60, size: 'A4' });
+        const buffers: Buffer[] = [];
+
+        doc.on('data', buffers.push.bind(buffers));
+        doc.on('end', () => resolve(Buffer.concat(buffers)));
+        doc.on('error', reject);
+
+        const color = data.primaryColor && /^#[0-9a-fA-F]{6}$/.test(data.primaryColor) ? data.primaryColor : '#3B82F6';
+        const pageWidth = doc.page.width;
+        const contentWidth = pageWidth - 120;
+
+        // Frame in the organization's color
+        doc.lineWidth(3).rect(30, 30, pageWidth - 60, doc.page.height - 60).stroke(color);
+        doc.lineWidth(1);
+
+        let y = 70;
+        if (data.logo) {
+          try {
+            doc.image(data.logo, (pageWidth - 120) / 2, y, { fit: [120, 60], align: 'center' });
+            y += 80;
+          } catch {
+            // Unsupported logo format - the certificate is still valid without it
+          }
+        }
+
+        doc
+          .fontSize(14)
+          .font('Helvetica-Bold')
+          .fillColor('#000000')
+          .text(this.encodeText(data.organizationName), 60, y, { width: contentWidth, align: 'center' });
+
+        doc
+          .fontSize(26)
+          .fillColor(color)
+          .text(this.encodeText(data.title), 60, y + 60, { width: contentWidth, align: 'center' });
+
+        doc
+          .fontSize(12)
+          .font('Helvetica')
+          .fillColor('#000000')
+          .text(this.encodeText(data.body), 80, y + 140, { width: contentWidth - 40, align: 'justify', lineGap: 6 });
+
+        const footerY = doc.page.height - 220;
+        const place = data.organizationCity ? `${data.organizationCity}, ` : '';
+        doc.fontSize(10).text(this.encodeText(`${place}${this.formatDate(data.issuedAt)}`), 80, footerY);
+
+        doc.moveTo(pageWidth - 260, footerY + 40).lineTo(pageWidth - 80, footerY + 40).stroke('#9ca3af');
+        doc
+          .fontSize(8)
+          .fillColor('#6b7280')
+          .text(this.encodeText('podpis i pieczęć'), pageWidth - 260, footerY + 45, { width: 180, align: 'center' });
+
+        doc
+          .fontSize(8)
+          .fillColor('#6b7280')
+          .text(this.encodeText(`Kod weryfikacyjny: ${data.verificationCode}`), 60, doc.page.height - 110, {
+            width: contentWidth,
+            align: 'center',
+          })
+          .text(this.encodeText(`Sprawdź autentyczność: ${data.verificationUrl}`), 60, doc.page.height - 96, {
+            width: contentWidth,
+            align: 'center',
+            link: data.verificationUrl,
+          });
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Generate Invoice PDF (invoice or credit note)
+   */
+  static async generateInvoicePdf(data: InvoicePdfData): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({ margin: 50, size: 'A4' });
+        const buffers: Buffer[] = [];
+
+        doc.on('data', buffers.push.bind(buffers));
+        doc.on('end', () => resolve(Buffer.concat(buffers)));
+        doc.on('error', reject);
+
+        const title = data.type === 'CORRECTION' ? 'Faktura korygująca' : 'Faktura';
+
+        doc
+          .fontSize(18)
+          .font('Helvetica-Bold')
+          .text(this.encodeText(`${title} nr ${data.invoiceNumber}`), 50, 50);
+
+        doc.fontSize(9).font('Helvetica');
+        doc.text(this.encodeText(`Data wystawienia: ${this.formatDate(data.issueDate)}`), 350, 90);
+        doc.text(this.encodeText(`Data sprzedaży: ${this.formatDate(data.saleDate || data.issueDate)}`), 350, 104);
+        doc.text(this.encodeText(`Termin płatności: ${this.formatDate(data.dueDate)}`), 350, 118);
+
+        if (data.isVoided) {
+          doc.fontSize(14).font('Helvetica-Bold').fillColor('#dc2626')
+            .text(this.encodeText('ANULOWANA'), 50, 80);
+          doc.fillColor('#000000');
+        }
+
+        // Seller and buyer
+        const partyY = 150;
+        doc.fontSize(10).font('Helvetica-Bold').text(this.encodeText('Sprzedawca'), 50, partyY);
+        doc.text(this.encodeText('Nabywca'), 300, partyY);
+
+        doc.fontSize(9).font('Helvetica');
+        const sellerLines = [
+          data.seller.name,
+          data.seller.address,
+          data.seller.taxId ? `NIP: ${data.seller.taxId}` : null,
+        ].filter(Boolean) as string[];
+        const buyerLines = [
+          data.buyer.name,
+          data.buyer.address,
+          data.buyer.email,
+        ].filter(Boolean) as string[];
+
+        sellerLines.forEach((line, i) => doc.text(this.encodeText(line), 50, partyY + 16 + i * 13, { width: 230 }));
+        buyerLines.forEach((line, i) => doc.text(this.encodeText(line), 300, partyY + 16 + i * 13, { width: 230 }));
+
+        doc.y = partyY + 16 + Math.max(sellerLines.length, buyerLines.length) * 13 + 20;
+
+        if (data.type === 'CORRECTION') {
+          doc.fontSize(9).font('Helvetica');
+          if (data.correctedInvoiceNumber) {
+            doc.text(this.encodeText(`Dotyczy faktury nr ${data.correctedInvoiceNumber}`), 50, doc.y);
+          }
+          if (data.correctionReason) {
+            doc.text(this.encodeText(`Przyczyna korekty: ${data.correctionReason}`), 50, doc.y + 4);
+          }
+          doc.moveDown(1);
+        }
+
+        // Line items
+        const taxLabel = data.taxRate === null ? 'zw.' : `${data.taxRate}%`;
+        this.addTable(
+          doc,
+          ['Nazwa', 'Ilość', 'Netto', 'VAT', 'Kwota VAT', 'Brutto'],
+          [[
+            data.description,
+            '1',
+            this.formatCurrency(data.netAmount, data.currency),
+            taxLabel,
+            this.formatCurrency(data.taxAmount, data.currency),
+            this.formatCurrency(data.totalAmount, data.currency),
+          ]],
+          [170, 40, 80, 40, 80, 85]
+        );
+
+        this.addSummary(doc, [
+          { label: 'Razem netto', value: this.formatCurrency(data.netAmount, data.currency) },
+          { label: 'Razem VAT', value: this.formatCurrency(data.taxAmount, data.currency) },
+          { label: 'Razem do zapłaty', value: this.formatCurrency(data.totalAmount, data.currency) },
+          ...(data.paymentMethod ? [{ label: 'Sposób płatności', value: data.paymentMethod }] : []),
+          { label: 'Status', value: data.isPaid ? 'Zapłacono' : 'Do zapłaty' },
+        ]);
+
+        if (data.taxRate === null) {
+          doc
+            .fontSize(8)
+            .font('Helvetica')
+            .text(this.encodeText('Zwolnienie z VAT na podstawie art. 43 ust. 1 ustawy o VAT.'), 50, doc.y + 20);
+        }
+
+        if (data.notes) {
+          doc.fontSize(8).font('Helvetica').text(this.encodeText(data.notes), 50, doc.y + 10, { width: 495 });
+        }
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
 }
 
 export default PdfGenerator;
@@ -1,6 +1,12 @@
 import cron from 'node-cron';
 import notificationService from '../services/notification.service';
 import paymentReminderService from '../services/payment-reminder.service';
+import packageService from '../services/package.service';
+import subscriptionService from '../services/subscription.service';
+import mailingService from '../services/mailing.service';
+import waitlistService from '../services/waitlist.service';
+import applicationPipelineService from '../services/applicationPipeline.service';
+import sessionService from '../services/session.service';
 
 class Scheduler {
   private tasks: cron.ScheduledTask[] = [];
@@ -83,6 +89,117 @@ class Scheduler {
     this.tasks.push(paymentReminderTask);
     console.log('✅ Payment reminder task scheduled (daily at 9:00 AM)');
 
+    // Expire unused package hours - every day at 0:30 AM
+    const packageExpiryTask = cron.schedule('30 0 * * *', async () => {
+      console.log('⏰ Running package expiry task...');
+      try {
+        const results = await packageService.expireUnusedHours();
+        if (results.length > 0) {
+          console.log(`✅ Expired ${results.length} package(s)`);
+        }
+      } catch (error) {
+        console.error('❌ Error expiring packages:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'Europe/Warsaw',
+    });
+
+    this.tasks.push(packageExpiryTask);
+    console.log('✅ Package expiry task scheduled (daily at 0:30 AM)');
+
+    // Monthly subscription charges - checked every day at 1:00 AM, each enrollment is charged once per month
+    const subscriptionChargeTask = cron.schedule('0 1 * * *', async () => {
+      console.log('⏰ Running subscription charge task...');
+      try {
+        const results = await subscriptionService.chargeMonthlySubscriptions();
+        if (results.length > 0) {
+          const charged = results.filter(r => !r.skipped).length;
+          console.log(`✅ Subscriptions: ${charged} charged, ${results.length - charged} paused (allowance reset only)`);
+        }
+      } catch (error) {
+        console.error('❌ Error charging subscriptions:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'Europe/Warsaw',
+    });
+
+    this.tasks.push(subscriptionChargeTask);
+    console.log('✅ Subscription charge task scheduled (daily at 1:00 AM)');
+
+    // Scheduled bulk mailings - every 5 minutes
+    const scheduledMailingTask = cron.schedule('*/5 * * * *', async () => {
+      try {
+        const result = await mailingService.dispatchScheduledMailings();
+        if (result.processed > 0) {
+          console.log(`✅ Scheduled mailings: ${result.sent} sent, ${result.failed} failed`);
+        }
+      } catch (error) {
+        console.error('❌ Error dispatching scheduled mailings:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'Europe/Warsaw',
+    });
+
+    this.tasks.push(scheduledMailingTask);
+    console.log('✅ Scheduled mailing task scheduled (every 5 minutes)');
+
+    // Expire unanswered waiting list offers and pass seats on - every hour
+    const waitlistOfferTask = cron.schedule('0 * * * *', async () => {
+      try {
+        const result = await waitlistService.expireOffers();
+        if (result.expired > 0) {
+          console.log(`✅ Waitlist offers: ${result.expired} expired, ${result.offered} passed on`);
+        }
+      } catch (error) {
+        console.error('❌ Error expiring waitlist offers:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'Europe/Warsaw',
+    });
+
+    this.tasks.push(waitlistOfferTask);
+    console.log('✅ Waitlist offer expiry task scheduled (every hour)');
+
+    // Alerts for application follow-up tasks that became due - every 15 minutes
+    const followUpAlertTask = cron.schedule('*/15 * * * *', async () => {
+      try {
+        const alerted = await applicationPipelineService.processDueTasks();
+        if (alerted > 0) {
+          console.log(`✅ Raised ${alerted} application follow-up alert(s)`);
+        }
+      } catch (error) {
+        console.error('❌ Error processing application follow-up tasks:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'Europe/Warsaw',
+    });
+
+    this.tasks.push(followUpAlertTask);
+    console.log('✅ Application follow-up task scheduled (every 15 minutes)');
+
+    // Remove long-expired and revoked login sessions - daily at 3:30 AM
+    const sessionCleanupTask = cron.schedule('30 3 * * *', async () => {
+      try {
+        const removed = await sessionService.cleanupSessions();
+        if (removed > 0) {
+          console.log(`✅ Removed ${removed} stale session(s)`);
+        }
+      } catch (error) {
+        console.error('❌ Error cleaning up sessions:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'Europe/Warsaw',
+    });
+
+    this.tasks.push(sessionCleanupTask);
+    console.log('✅ Session cleanup task scheduled (daily at 3:30 AM)');
+
     console.log(`⏰ ${this.tasks.length} scheduled tasks running`);
   }
 
@@ -125,6 +242,36 @@ class Scheduler {
     console.log(`✅ Payment reminders: ${results.totalSent} sent, ${results.totalFailed} failed, ${results.totalSkipped} skipped`);
     return results;
   }
+
+  /**
+   * Manually trigger package expiry (for testing)
+   */
+  async triggerPackageExpiry() {
+    console.log('⏰ Manually triggering package expiry...');
+    const results = await packageService.expireUnusedHours();
+    console.log(`✅ Expired ${results.length} package(s)`);
+    return results;
+  }
+
+  /**
+   * Manually trigger subscription charges (for testing)
+   */
+  async triggerSubscriptionCharges() {
+    console.log('⏰ Manually triggering subscription charges...');
+    const results = await subscriptionService.chargeMonthlySubscriptions();
+    console.log(`✅ Processed ${results.length} subscription(s)`);
+    return results;
+  }
+
+  /**
+   * Manually trigger scheduled mailing dispatch (for testing)
+   */
+  async triggerScheduledMailings() {
+    console.log('⏰ Manually triggering scheduled mailings...');
+    const result = await mailingService.dispatchScheduledMailings();
+    console.log(`✅ Processed ${result.processed} scheduled mailing(s)`);
+    return result;
+  }
 }
 
 export default new Scheduler();
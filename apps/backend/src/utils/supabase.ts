@@ -160,6 +160,21 @@ export async function deleteFile(filePath: string): Promise<void> {
   }
 }
 
+/**
+ * Download file contents from Supabase Storage (service role, works for private files)
+ */
+export async function downloadFile(filePath: string): Promise<Buffer> {
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .download(filePath);
+
+  if (error) {
+    throw new Error(`Download failed: ${error.message}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
 /**
  * Get signed URL for private file access
  */
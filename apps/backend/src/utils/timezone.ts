@@ -0,0 +1,62 @@
+/**
+ * Organization timezone helpers
+ * Lesson times are stored as UTC instants, while rate cards and availability windows
+ * are wall-clock times in the school's timezone (same zone as the scheduler and Google Calendar).
+ */
+
+export const ORGANIZATION_TIMEZONE = 'Europe/Warsaw';
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc.
+  minutes: number; // Minutes since midnight
+}
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: ORGANIZATION_TIMEZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  weekday: 'short',
+  hour: 'numeric',
+  minute: 'numeric',
+});
+
+/**
+ * Calendar date, weekday and time of day of an instant in the organization timezone
+ */
+export function getZonedParts(date: Date): ZonedParts {
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    dayOfWeek: weekdays.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * Offset of the organization timezone from UTC at the given instant, in minutes
+ */
+function getOffsetMinutes(date: Date): number {
+  const { year, month, day, minutes } = getZonedParts(date);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  return (wallClock - Math.floor(date.getTime() / 60000) * 60000) / 60000;
+}
+
+/**
+ * Instant of a wall-clock time (minutes since midnight) on a calendar date in the organization timezone
+ */
+export function fromZonedTime(year: number, month: number, day: number, minutes: number): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  // Second pass picks up the right offset when the first guess lands across a DST change
+  const guess = wallClock - getOffsetMinutes(new Date(wallClock)) * 60000;
+  return new Date(wallClock - getOffsetMinutes(new Date(guess)) * 60000);
+}
@@ -0,0 +1,61 @@
+/**
+ * LingoDesk course catalog widget.
+ *
+ * Usage:
+ *   <div id="lingodesk-widget"></div>
+ *   <script src="https://<app>/widget.js" data-org="<org-slug>" async></script>
+ *
+ * Optional attributes preset the catalog filters: data-language, data-level,
+ * data-mode (IN_PERSON | ONLINE), data-from, data-to (YYYY-MM-DD), data-free-seats="true".
+ * data-target points to a container selector (defaults to #lingodesk-widget, or right after the script).
+ */
+(function () {
+  var script = document.currentScript;
+  if (!script) return;
+
+  var org = script.getAttribute('data-org');
+  if (!org) {
+    console.error('[LingoDesk] Missing data-org attribute on the widget script');
+    return;
+  }
+
+  var origin = new URL(script.src).origin;
+  var params = new URLSearchParams();
+  var attributes = {
+    language: 'data-language',
+    level: 'data-level',
+    mode: 'data-mode',
+    from: 'data-from',
+    to: 'data-to',
+    freeSeats: 'data-free-seats',
+  };
+  Object.keys(attributes).forEach(function (param) {
+    var value = script.getAttribute(attributes[param]);
+    if (value) params.set(param, value);
+  });
+
+  var iframe = document.createElement('iframe');
+  var query = params.toString();
+  iframe.src = origin + '/embed/' + encodeURIComponent(org) + (query ? '?' + query : '');
+  iframe.title = 'Oferta kursów';
+  iframe.loading = 'lazy';
+  iframe.style.width = '100%';
+  iframe.style.minHeight = '400px';
+  iframe.style.border = '0';
+
+  var target = document.querySelector(script.getAttribute('data-target') || '#lingodesk-widget');
+  if (target) {
+    target.appendChild(iframe);
+  } else {
+    script.parentNode.insertBefore(iframe, script.nextSibling);
+  }
+
+  // The embedded page reports its height so the iframe never needs a scrollbar
+  window.addEventListener('message', function (event) {
+    if (event.origin !== origin || event.source !== iframe.contentWindow) return;
+    var data = event.data;
+    if (data && data.type === 'lingodesk:widget-height' && typeof data.height === 'number') {
+      iframe.style.height = data.height + 'px';
+    }
+  });
+})();
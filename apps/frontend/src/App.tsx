@@ -17,15 +17,21 @@ const LessonsPage = lazy(() => import('./pages/LessonsPage'))
 const PaymentsPage = lazy(() => import('./pages/PaymentsPage'))
 const AlertsPage = lazy(() => import('./pages/AlertsPage'))
 const TeacherSchedulePage = lazy(() => import('./pages/TeacherSchedulePage'))
+const MyEarningsPage = lazy(() => import('./pages/MyEarningsPage'))
 const SettingsPage = lazy(() => import('./pages/SettingsPage'))
 const DebtorsPage = lazy(() => import('./pages/DebtorsPage'))
 const NotificationSettingsPage = lazy(() => import('./pages/NotificationSettingsPage'))
+const SessionsPage = lazy(() => import('./pages/SessionsPage'))
 const ReportsPage = lazy(() => import('./pages/ReportsPage'))
 const MailingsPage = lazy(() => import('./pages/MailingsPage'))
 const UsersPage = lazy(() => import('./pages/UsersPage'))
 const CourseApplicationsPage = lazy(() => import('./pages/CourseApplicationsPage'))
+const PlacementTestsPage = lazy(() => import('./pages/PlacementTestsPage'))
 const ClassroomsPage = lazy(() => import('./pages/ClassroomsPage'))
 const PublicApplicationForm = lazy(() => import('./pages/PublicApplicationForm'))
+const PublicCourseWidget = lazy(() => import('./pages/PublicCourseWidget'))
+const VerifyCertificatePage = lazy(() => import('./pages/VerifyCertificatePage'))
+const WaitlistOfferPage = lazy(() => import('./pages/WaitlistOfferPage'))
 const ForgotPasswordPage = lazy(() => import('./pages/ForgotPasswordPage'))
 const ResetPasswordPage = lazy(() => import('./pages/ResetPasswordPage'))
 
@@ -128,6 +134,36 @@ function App() {
           }
         />
 
+        {/* Embeddable course catalog (iframe, see public/widget.js) - no auth required */}
+        <Route
+          path="/embed/:orgSlug"
+          element={
+            <Suspense>
+              <PublicCourseWidget />
+            </Suspense>
+          }
+        />
+
+        {/* Public certificate verification - no auth required */}
+        <Route
+          path="/verify/:code?"
+          element={
+            <Suspense>
+              <VerifyCertificatePage />
+            </Suspense>
+          }
+        />
+
+        {/* Public waiting list seat offer - no auth required */}
+        <Route
+          path="/waitlist/offer/:token"
+          element={
+            <Suspense>
+              <WaitlistOfferPage />
+            </Suspense>
+          }
+        />
+
         {/* Protected routes */}
         <Route
           path="/"
@@ -202,6 +238,23 @@ function App() {
           }
         />
 
+        <Route
+          path="/placement-tests"
+          element={
+            isAuthenticated ? (
+              ['ADMIN', 'MANAGER', 'METHODOLOGIST'].includes(useAuthStore.getState().user?.role || '') ? (
+                <Layout>
+                  <LazyPage><PlacementTestsPage /></LazyPage>
+                </Layout>
+              ) : (
+                <Navigate to="/dashboard" />
+              )
+            ) : (
+              <Navigate to="/login" />
+            )
+          }
+        />
+
         <Route
           path="/students"
           element={
@@ -334,6 +387,19 @@ function App() {
           }
         />
 
+        <Route
+          path="/teacher/earnings"
+          element={
+            isAuthenticated ? (
+              <Layout>
+                <LazyPage><MyEarningsPage /></LazyPage>
+              </Layout>
+            ) : (
+              <Navigate to="/login" />
+            )
+          }
+        />
+
         <Route
           path="/settings"
           element={
@@ -407,6 +473,19 @@ function App() {
           }
         />
 
+        <Route
+          path="/settings/sessions"
+          element={
+            isAuthenticated ? (
+              <Layout>
+                <LazyPage><SessionsPage /></LazyPage>
+              </Layout>
+            ) : (
+              <Navigate to="/login" />
+            )
+          }
+        />
+
         {/* Catch-all route - redirect unknown paths */}
         <Route
           path="*"
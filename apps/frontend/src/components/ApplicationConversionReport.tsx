@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, subMonths } from 'date-fns';
+import courseApplicationService, { ConversionSummary } from '../services/courseApplicationService';
+import LoadingSpinner from './LoadingSpinner';
+
+const SummaryRow: React.FC<{ label: string; row: ConversionSummary }> = ({ label, row }) => (
+  <tr className="hover:bg-gray-50">
+    <td className="px-4 py-2 text-sm font-medium text-gray-900">{label}</td>
+    <td className="px-4 py-2 text-sm text-right text-gray-700">{row.total}</td>
+    <td className="px-4 py-2 text-sm text-right text-gray-500">{row.open}</td>
+    <td className="px-4 py-2 text-sm text-right text-green-700">{row.won}</td>
+    <td className="px-4 py-2 text-sm text-right text-red-600">{row.lost}</td>
+    <td className="px-4 py-2 text-sm text-right text-gray-700">{row.converted}</td>
+    <td className="px-4 py-2 text-sm text-right font-semibold text-gray-900">{row.conversionRate}%</td>
+  </tr>
+);
+
+const TableHead: React.FC<{ label: string }> = ({ label }) => (
+  <thead className="bg-gray-50 border-b border-gray-200">
+    <tr>
+      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{label}</th>
+      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Zgłoszenia</th>
+      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">W toku</th>
+      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Wygrane</th>
+      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Przegrane</th>
+      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Kursanci</th>
+      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Konwersja</th>
+    </tr>
+  </thead>
+);
+
+const ApplicationConversionReport: React.FC = () => {
+  const [dateFrom, setDateFrom] = useState(format(subMonths(new Date(), 3), 'yyyy-MM-dd'));
+  const [dateTo, setDateTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['applications', 'conversion-report', dateFrom, dateTo],
+    queryFn: () =>
+      courseApplicationService.getConversionReport({
+        dateFrom: dateFrom || undefined,
+        dateTo: dateTo || undefined,
+      }),
+  });
+
+  const maxStageCount = Math.max(1, ...(report?.byStage ?? []).map((stage) => stage.count));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-4 border border-gray-200 flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Od</label>
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Do</label>
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+        <p className="text-xs text-gray-500 pb-2">Konwersja = zgłoszenia wygrane / wszystkie zgłoszenia z okresu</p>
+      </div>
+
+      {isLoading || !report ? (
+        <LoadingSpinner message="Ładowanie raportu..." />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: 'Zgłoszenia', value: report.summary.total },
+              { label: 'W toku', value: report.summary.open },
+              { label: 'Wygrane', value: report.summary.won },
+              { label: 'Przegrane', value: report.summary.lost },
+              { label: 'Konwersja', value: `${report.summary.conversionRate}%` },
+            ].map((card) => (
+              <div key={card.label} className="bg-white rounded-lg shadow p-4 border border-gray-200">
+                <p className="text-sm text-gray-500">{card.label}</p>
+                <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg shadow border border-gray-200 overflow-x-auto">
+            <h3 className="px-4 py-3 text-sm font-semibold text-gray-900 border-b border-gray-200">Według źródła</h3>
+            <table className="w-full">
+              <TableHead label="Źródło" />
+              <tbody className="divide-y divide-gray-100">
+                {report.bySource.map((row) => (
+                  <SummaryRow key={row.source} label={row.label} row={row} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white rounded-lg shadow border border-gray-200 overflow-x-auto">
+            <h3 className="px-4 py-3 text-sm font-semibold text-gray-900 border-b border-gray-200">Według kursu</h3>
+            <table className="w-full">
+              <TableHead label="Kurs" />
+              <tbody className="divide-y divide-gray-100">
+                {report.byCourse.map((row) => (
+                  <SummaryRow key={row.courseId ?? 'none'} label={row.courseName} row={row} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="bg-white rounded-lg shadow p-4 border border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Zgłoszenia w etapach</h3>
+              <div className="space-y-2">
+                {report.byStage.map((stage) => (
+                  <div key={stage.stageId} className="flex items-center gap-3 text-sm">
+                    <span className="w-40 truncate text-gray-700">{stage.name}</span>
+                    <div className="flex-1 h-4 bg-gray-100 rounded">
+                      <div
+                        className="h-4 rounded"
+                        style={{ width: `${(stage.count / maxStageCount) * 100}%`, backgroundColor: stage.color }}
+                      />
+                    </div>
+                    <span className="w-8 text-right text-gray-600">{stage.count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-4 border border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Powody utraty</h3>
+              {report.lossReasons.length === 0 ? (
+                <p className="text-sm text-gray-500">Brak przegranych zgłoszeń w tym okresie</p>
+              ) : (
+                <ul className="space-y-1">
+                  {report.lossReasons.map((item) => (
+                    <li key={item.reason} className="flex justify-between text-sm">
+                      <span className="text-gray-700">{item.reason}</span>
+                      <span className="font-medium text-gray-900">{item.count}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ApplicationConversionReport;
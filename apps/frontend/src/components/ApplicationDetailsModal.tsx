@@ -1,11 +1,16 @@
 import React, { useState } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import courseApplicationService, {
+  APPLICATION_SOURCE_LABELS,
   CourseApplication,
   ConvertToStudentData,
 } from '../services/courseApplicationService';
-import { X, CheckCircle, XCircle, UserPlus, Copy, Eye, ChevronRight } from 'lucide-react';
+import { CEFR_LEVELS } from '../services/placementTestService';
+import { X, CheckCircle, XCircle, UserPlus, Copy, Eye, ChevronRight, ClipboardCheck, CalendarPlus, Archive } from 'lucide-react';
+import ApplicationTimeline from './ApplicationTimeline';
+import TrialLessonModal from './TrialLessonModal';
+import { getErrorMessage } from '../lib/errorUtils';
 
 interface ApplicationDetailsModalProps {
   application: CourseApplication;
@@ -25,6 +30,13 @@ const STATUS_LABEL: Record<string, string> = {
   REJECTED: 'Odrzucone',
 };
 
+const LESSON_STATUS_LABEL: Record<string, string> = {
+  CONFIRMED: 'Zaplanowana',
+  COMPLETED: 'Odbyta',
+  CANCELLED_ON_TIME: 'Odwołana',
+  CANCELLED_LATE: 'Odwołana',
+};
+
 function splitName(fullName: string): { firstName: string; lastName: string } {
   const parts = fullName.trim().split(/\s+/);
   if (parts.length === 1) return { firstName: parts[0], lastName: '' };
@@ -59,6 +71,14 @@ const ApplicationDetailsModal: React.FC<ApplicationDetailsModalProps> = ({
   // Convert form
   const [showConvertForm, setShowConvertForm] = useState(false);
 
+  // Reject reason, reported in the conversion report
+  const [lossReason, setLossReason] = useState('');
+
+  // Trial lesson
+  const [isTrialModalOpen, setIsTrialModalOpen] = useState(false);
+  const [showTrialArchive, setShowTrialArchive] = useState(false);
+  const [trialLossReason, setTrialLossReason] = useState('');
+
   const { firstName: defaultFirst, lastName: defaultLast } = splitName(application.name);
   const [generatedPassword] = useState(() => generatePassword());
 
@@ -68,11 +88,19 @@ const ApplicationDetailsModal: React.FC<ApplicationDetailsModalProps> = ({
     email: application.email,
     password: generatedPassword,
     phone: application.phone || '',
-    languageLevel: application.languageLevel || '',
-    language: 'en',
+    languageLevel: application.placementLevel || application.languageLevel || '',
+    language: application.placementAttempt?.test.language || application.course?.language || 'en',
   });
   const [convertErrors, setConvertErrors] = useState<Record<string, string>>({});
 
+  const placementAttempt = application.placementAttempt;
+
+  const { data: suggestions } = useQuery({
+    queryKey: ['application-suggested-courses', application.id],
+    queryFn: () => courseApplicationService.getSuggestedCourses(application.id),
+    enabled: !!(application.placementLevel || application.languageLevel),
+  });
+
   const invalidate = () => {
     queryClient.invalidateQueries({ queryKey: ['applications'] });
     queryClient.invalidateQueries({ queryKey: ['students'] });
@@ -80,10 +108,11 @@ const ApplicationDetailsModal: React.FC<ApplicationDetailsModalProps> = ({
   };
 
   const updateStatusMutation = useMutation({
-    mutationFn: ({ status, internalNotes }: { status: string; internalNotes?: string }) =>
-      courseApplicationService.updateStatus(application.id, status, internalNotes),
+    mutationFn: ({ status, internalNotes, lossReason }: { status: string; internalNotes?: string; lossReason?: string }) =>
+      courseApplicationService.updateStatus(application.id, status, internalNotes, lossReason),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['applications'] });
+      queryClient.invalidateQueries({ queryKey: ['application-timeline', application.id] });
       onStatusChange();
     },
   });
@@ -105,6 +134,41 @@ const ApplicationDetailsModal: React.FC<ApplicationDetailsModalProps> = ({
     },
   });
 
+  const convertTrialMutation = useMutation({
+    mutationFn: () => courseApplicationService.convertTrialStudent(application.id),
+    onSuccess: (result) => {
+      invalidate();
+      onStatusChange();
+      const msg = result?.enrolledCourseName
+        ? `Uczeń zapisany na kurs „${result.enrolledCourseName}". Dane logowania wysłano emailem.`
+        : 'Uczeń z lekcji próbnej jest teraz pełnym uczniem. Dane logowania wysłano emailem.';
+      toast.success(msg, { duration: 5000 });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zapisać ucznia'));
+    },
+  });
+
+  const archiveTrialMutation = useMutation({
+    mutationFn: () => courseApplicationService.archiveTrialStudent(application.id, trialLossReason.trim() || undefined),
+    onSuccess: () => {
+      invalidate();
+      onStatusChange();
+      toast.success('Uczeń próbny zarchiwizowany, zgłoszenie zamknięte');
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zarchiwizować ucznia'));
+    },
+  });
+
+  const trialLesson = application.trialLesson;
+  const isTrialCancelled = trialLesson?.status === 'CANCELLED_ON_TIME' || trialLesson?.status === 'CANCELLED_LATE';
+  const hasProvisionalStudent = !!application.trialStudent?.isProvisional && !application.trialStudent.archivedAt;
+  const canScheduleTrial =
+    !application.convertedStudentId && application.status !== 'REJECTED' && (!trialLesson || isTrialCancelled);
+
   // Accept without creating student — just change status
   const handleAcceptOnly = async () => {
     await updateStatusMutation.mutateAsync({ status: 'ACCEPTED' });
@@ -123,7 +187,7 @@ const ApplicationDetailsModal: React.FC<ApplicationDetailsModalProps> = ({
   };
 
   const handleRejectConfirm = async () => {
-    await updateStatusMutation.mutateAsync({ status: 'REJECTED' });
+    await updateStatusMutation.mutateAsync({ status: 'REJECTED', lossReason: lossReason.trim() || undefined });
     toast.success('Zgłoszenie odrzucone');
     setActionPanel('none');
     onClose();
@@ -190,6 +254,12 @@ const ApplicationDetailsModal: React.FC<ApplicationDetailsModalProps> = ({
                   Skonwertowany na ucznia
                 </span>
               )}
+              {application.stage && (
+                <span className="flex items-center gap-2 text-sm text-gray-700">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: application.stage.color }} />
+                  {application.stage.name}
+                </span>
+              )}
             </div>
 
             {/* Details grid */}
@@ -208,8 +278,79 @@ const ApplicationDetailsModal: React.FC<ApplicationDetailsModalProps> = ({
                   day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit',
                 })}
               />
+              <DetailRow label="Źródło" value={APPLICATION_SOURCE_LABELS[application.source]} />
+              {application.lossReason && <DetailRow label="Powód utraty" value={application.lossReason} />}
             </div>
 
+            {placementAttempt?.submittedAt && (
+              <div className="border-t border-gray-200 pt-4 mb-6">
+                <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2 mb-3">
+                  <ClipboardCheck className="h-4 w-4 text-primary" />
+                  Test poziomujący: {placementAttempt.test.name}
+                </h3>
+                <div className="flex items-center gap-4 mb-3">
+                  <span className="px-3 py-1 text-sm font-semibold rounded-full bg-primary/10 text-primary">
+                    Sugerowany poziom: {placementAttempt.suggestedLevel}
+                  </span>
+                  <span className="text-sm text-gray-600">
+                    Wynik: {placementAttempt.score}/{placementAttempt.maxScore}
+                  </span>
+                  <span className="text-xs text-gray-400">
+                    {new Date(placementAttempt.submittedAt).toLocaleDateString('pl-PL')}
+                  </span>
+                </div>
+                {placementAttempt.levelScores && (
+                  <div className="grid grid-cols-6 gap-2">
+                    {CEFR_LEVELS.filter((level) => placementAttempt.levelScores?.[level]).map((level) => {
+                      const { correct, total } = placementAttempt.levelScores![level]!;
+                      return (
+                        <div key={level} className="text-center">
+                          <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-primary" style={{ width: `${(correct / total) * 100}%` }} />
+                          </div>
+                          <p className="text-xs text-gray-600 mt-1">
+                            {level} · {correct}/{total}
+                          </p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {suggestions && suggestions.level && (
+              <div className="border-t border-gray-200 pt-4 mb-6">
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                  Pasujące kursy ({suggestions.language?.toUpperCase()} {suggestions.level})
+                </h3>
+                {suggestions.courses.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    {suggestions.language ? 'Brak aktywnych kursów na tym poziomie' : 'Nie wskazano języka kursu'}
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {suggestions.courses.map((course) => (
+                      <li key={course.id} className="px-3 py-2 flex items-center justify-between gap-3 text-sm">
+                        <div>
+                          <p className="font-medium text-gray-900">{course.name}</p>
+                          <p className="text-xs text-gray-500">
+                            {course.teacher.user.firstName} {course.teacher.user.lastName} · od{' '}
+                            {new Date(course.startDate).toLocaleDateString('pl-PL')}
+                          </p>
+                        </div>
+                        <span className={`text-xs ${course.hasFreeSpots ? 'text-green-700' : 'text-red-600'}`}>
+                          {course.maxStudents !== null
+                            ? `${course.currentStudentsCount}/${course.maxStudents} miejsc`
+                            : 'bez limitu miejsc'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             {(application.preferences || application.availability || application.notes) && (
               <div className="space-y-3 mb-6 border-t border-gray-200 pt-4">
                 {application.preferences && <DetailRow label="Preferencje / oczekiwania" value={application.preferences} />}
@@ -225,6 +366,103 @@ const ApplicationDetailsModal: React.FC<ApplicationDetailsModalProps> = ({
               </div>
             )}
 
+            {/* Trial lesson */}
+            {(trialLesson || canScheduleTrial) && (
+              <div className="border-t border-gray-200 pt-4 mb-6">
+                <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2 mb-3">
+                  <CalendarPlus className="h-4 w-4 text-primary" />
+                  Lekcja próbna
+                </h3>
+
+                {trialLesson && (
+                  <div className="flex items-center justify-between gap-3 border border-gray-200 rounded-lg px-3 py-2 mb-3 text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {new Date(trialLesson.scheduledAt).toLocaleString('pl-PL', {
+                          day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit',
+                        })}{' '}
+                        · {trialLesson.durationMinutes} min
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {trialLesson.teacher.user.firstName} {trialLesson.teacher.user.lastName} ·{' '}
+                        {trialLesson.deliveryMode === 'ONLINE' ? 'Online' : 'Stacjonarnie'} ·{' '}
+                        {Number(trialLesson.pricePerLesson) > 0 ? `${Number(trialLesson.pricePerLesson).toFixed(2)} PLN` : 'bezpłatna'}
+                      </p>
+                    </div>
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                      isTrialCancelled ? 'bg-red-100 text-red-800' : trialLesson.status === 'COMPLETED' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                    }`}>
+                      {LESSON_STATUS_LABEL[trialLesson.status]}
+                    </span>
+                  </div>
+                )}
+
+                {hasProvisionalStudent && !showTrialArchive && (
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => convertTrialMutation.mutate()}
+                      disabled={convertTrialMutation.isPending}
+                      className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      <UserPlus className="h-4 w-4" />
+                      {convertTrialMutation.isPending ? 'Zapisywanie...' : 'Zapisz jako ucznia'}
+                    </button>
+                    <button
+                      onClick={() => setShowTrialArchive(true)}
+                      className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <Archive className="h-4 w-4" />
+                      Archiwizuj
+                    </button>
+                  </div>
+                )}
+
+                {hasProvisionalStudent && showTrialArchive && (
+                  <div className="space-y-3">
+                    <p className="text-sm text-gray-600">
+                      Uczeń próbny zostanie zarchiwizowany, a zgłoszenie oznaczone jako przegrane (bez wysyłania emaila).
+                    </p>
+                    <input
+                      type="text"
+                      value={trialLossReason}
+                      onChange={(e) => setTrialLossReason(e.target.value)}
+                      placeholder="Powód, np. nie odpowiada termin zajęć"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                    />
+                    <div className="flex gap-3">
+                      <button
+                        onClick={() => archiveTrialMutation.mutate()}
+                        disabled={archiveTrialMutation.isPending}
+                        className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                      >
+                        <Archive className="h-4 w-4" />
+                        {archiveTrialMutation.isPending ? 'Archiwizowanie...' : 'Potwierdź archiwizację'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setShowTrialArchive(false)}
+                        className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                      >
+                        Anuluj
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {canScheduleTrial && (
+                  <button
+                    onClick={() => setIsTrialModalOpen(true)}
+                    className={`flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors ${
+                      hasProvisionalStudent ? 'mt-3' : ''
+                    }`}
+                  >
+                    <CalendarPlus className="h-4 w-4" />
+                    {trialLesson ? 'Umów ponownie' : 'Umów lekcję próbną'}
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Action buttons for NEW */}
             {application.status === 'NEW' && actionPanel === 'none' && (
               <div className="flex gap-3 border-t border-gray-200 pt-4">
@@ -327,6 +565,17 @@ const ApplicationDetailsModal: React.FC<ApplicationDetailsModalProps> = ({
                   </p>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Powód odrzucenia</label>
+                  <input
+                    type="text"
+                    value={lossReason}
+                    onChange={(e) => setLossReason(e.target.value)}
+                    placeholder="np. za wysoka cena, brak terminu"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                  />
+                </div>
+
                 <div className="flex gap-3">
                   <button
                     onClick={handleRejectConfirm}
@@ -504,6 +753,11 @@ const ApplicationDetailsModal: React.FC<ApplicationDetailsModalProps> = ({
                 )}
               </div>
             )}
+
+            {/* Follow-up tasks and activity */}
+            <div className="border-t border-gray-200 pt-4 mt-6">
+              <ApplicationTimeline applicationId={application.id} />
+            </div>
           </div>
 
           {/* Footer */}
@@ -514,6 +768,20 @@ const ApplicationDetailsModal: React.FC<ApplicationDetailsModalProps> = ({
           </div>
         </div>
       </div>
+
+      {isTrialModalOpen && (
+        <TrialLessonModal
+          application={application}
+          onClose={() => setIsTrialModalOpen(false)}
+          onSuccess={() => {
+            invalidate();
+            queryClient.invalidateQueries({ queryKey: ['application-timeline', application.id] });
+            queryClient.invalidateQueries({ queryKey: ['lessons'] });
+            onStatusChange();
+            onClose();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { format, isPast } from 'date-fns';
+import { pl } from 'date-fns/locale';
+import { CalendarClock, X } from 'lucide-react';
+import courseApplicationService, {
+  APPLICATION_SOURCE_LABELS,
+  ApplicationStage,
+  CourseApplication,
+} from '../services/courseApplicationService';
+import { getErrorMessage } from '../lib/errorUtils';
+
+interface ApplicationKanbanBoardProps {
+  applications: CourseApplication[];
+  stages: ApplicationStage[];
+  onOpen: (application: CourseApplication) => void;
+}
+
+const ApplicationKanbanBoard: React.FC<ApplicationKanbanBoardProps> = ({ applications, stages, onOpen }) => {
+  const queryClient = useQueryClient();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropStageId, setDropStageId] = useState<string | null>(null);
+  const [lossDialog, setLossDialog] = useState<{ application: CourseApplication; stage: ApplicationStage } | null>(null);
+  const [lossReason, setLossReason] = useState('');
+
+  const moveMutation = useMutation({
+    mutationFn: ({ id, stageId, lossReason }: { id: string; stageId: string; lossReason?: string }) =>
+      courseApplicationService.moveToStage(id, stageId, lossReason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['applications'] });
+      setLossDialog(null);
+      setLossReason('');
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się przenieść zgłoszenia'));
+    },
+  });
+
+  const handleDrop = (stage: ApplicationStage) => {
+    const application = applications.find((app) => app.id === draggedId);
+    setDraggedId(null);
+    setDropStageId(null);
+    if (!application || application.stageId === stage.id) return;
+
+    if (stage.kind === 'LOST' && !application.lossReason) {
+      setLossDialog({ application, stage });
+      return;
+    }
+
+    if (stage.kind === 'WON' && application.status !== 'ACCEPTED') {
+      if (!confirm(`Przenieść ${application.name} do etapu „${stage.name}"? Zgłoszenie zostanie zaakceptowane i zgłaszający otrzyma e-mail.`)) {
+        return;
+      }
+    }
+
+    moveMutation.mutate({ id: application.id, stageId: stage.id });
+  };
+
+  return (
+    <>
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {stages.map((stage) => {
+          const stageApplications = applications.filter((app) => app.stageId === stage.id);
+          return (
+            <div
+              key={stage.id}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropStageId(stage.id);
+              }}
+              onDragLeave={() => setDropStageId((current) => (current === stage.id ? null : current))}
+              onDrop={() => handleDrop(stage)}
+              className={`flex-shrink-0 w-72 rounded-lg bg-gray-100 border-2 transition-colors ${
+                dropStageId === stage.id ? 'border-primary' : 'border-transparent'
+              }`}
+            >
+              <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+                <div className="flex items-center gap-2">
+                  <span className="h-3 w-3 rounded-full" style={{ backgroundColor: stage.color }} />
+                  <span className="text-sm font-semibold text-gray-800">{stage.name}</span>
+                </div>
+                <span className="text-xs font-medium text-gray-500">{stageApplications.length}</span>
+              </div>
+
+              <div className="p-2 space-y-2 min-h-[120px] max-h-[65vh] overflow-y-auto">
+                {stageApplications.map((app) => {
+                  const nextTask = app.tasks?.[0];
+                  const isOverdue = nextTask && isPast(new Date(nextTask.dueAt));
+                  return (
+                    <div
+                      key={app.id}
+                      draggable
+                      onDragStart={() => setDraggedId(app.id)}
+                      onDragEnd={() => setDraggedId(null)}
+                      onClick={() => onOpen(app)}
+                      className={`bg-white rounded-lg shadow-sm border border-gray-200 p-3 cursor-pointer hover:shadow transition-shadow ${
+                        draggedId === app.id ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <p className="text-sm font-medium text-gray-900">{app.name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {app.course ? `${app.course.name} (${app.course.level})` : app.email}
+                      </p>
+                      <div className="flex items-center justify-between mt-2 text-xs">
+                        <span className="text-gray-400">{APPLICATION_SOURCE_LABELS[app.source]}</span>
+                        <span className="text-gray-400">{format(new Date(app.createdAt), 'd.MM', { locale: pl })}</span>
+                      </div>
+                      {nextTask && (
+                        <div
+                          className={`flex items-center gap-1 mt-2 text-xs ${isOverdue ? 'text-red-600 font-medium' : 'text-gray-600'}`}
+                          title={nextTask.title}
+                        >
+                          <CalendarClock className="h-3 w-3 flex-shrink-0" />
+                          <span className="truncate">
+                            {format(new Date(nextTask.dueAt), 'd.MM HH:mm')} · {nextTask.title}
+                          </span>
+                          {(app._count?.tasks ?? 0) > 1 && (
+                            <span className="text-gray-400">+{(app._count?.tasks ?? 0) - 1}</span>
+                          )}
+                        </div>
+                      )}
+                      {stage.kind === 'LOST' && app.lossReason && (
+                        <p className="mt-2 text-xs text-red-600 truncate" title={app.lossReason}>
+                          {app.lossReason}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {lossDialog && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <div className="fixed inset-0 bg-black/50" onClick={() => setLossDialog(null)} />
+            <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full">
+              <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                <h2 className="text-lg font-bold text-gray-900">Powód utraty zgłoszenia</h2>
+                <button onClick={() => setLossDialog(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="p-6 space-y-3">
+                <p className="text-sm text-gray-600">
+                  {lossDialog.application.name} trafi do etapu „{lossDialog.stage.name}". Zgłoszenie zostanie odrzucone i zgłaszający otrzyma e-mail.
+                </p>
+                <input
+                  type="text"
+                  value={lossReason}
+                  onChange={(e) => setLossReason(e.target.value)}
+                  placeholder="np. za wysoka cena, wybrał inną szkołę"
+                  autoFocus
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+              <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+                <button
+                  onClick={() => setLossDialog(null)}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Anuluj
+                </button>
+                <button
+                  onClick={() =>
+                    moveMutation.mutate({
+                      id: lossDialog.application.id,
+                      stageId: lossDialog.stage.id,
+                      lossReason: lossReason.trim(),
+                    })
+                  }
+                  disabled={!lossReason.trim() || moveMutation.isPending}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  {moveMutation.isPending ? 'Zapisywanie...' : 'Przenieś'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ApplicationKanbanBoard;
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, ChevronUp, ChevronDown, Trash2, Plus } from 'lucide-react';
+import courseApplicationService, {
+  ApplicationStage,
+  ApplicationStageKind,
+  STAGE_KIND_LABELS,
+} from '../services/courseApplicationService';
+import { getErrorMessage } from '../lib/errorUtils';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ApplicationStagesModalProps {
+  onClose: () => void;
+}
+
+const ApplicationStagesModal: React.FC<ApplicationStagesModalProps> = ({ onClose }) => {
+  const queryClient = useQueryClient();
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [colors, setColors] = useState<Record<string, string>>({});
+  const [newStage, setNewStage] = useState<{ name: string; color: string; kind: ApplicationStageKind }>({
+    name: '',
+    color: '#6B7280',
+    kind: 'OPEN',
+  });
+
+  const { data: stages = [], isLoading } = useQuery({
+    queryKey: ['application-stages'],
+    queryFn: () => courseApplicationService.getStages(),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['application-stages'] });
+    queryClient.invalidateQueries({ queryKey: ['applications'] });
+  };
+
+  const onError = (error: any) => {
+    toast.error(getErrorMessage(error, 'Nie udało się zapisać etapów'));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => courseApplicationService.createStage({ ...newStage, name: newStage.name.trim() }),
+    onSuccess: () => {
+      invalidate();
+      setNewStage({ name: '', color: '#6B7280', kind: 'OPEN' });
+      toast.success('Etap został dodany');
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: { name?: string; color?: string } }) =>
+      courseApplicationService.updateStage(id, data),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (stageIds: string[]) => courseApplicationService.reorderStages(stageIds),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => courseApplicationService.deleteStage(id),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Etap został usunięty');
+    },
+    onError,
+  });
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const ids = stages.map((stage) => stage.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const handleRename = (stage: ApplicationStage) => {
+    const name = names[stage.id]?.trim();
+    if (name && name !== stage.name) {
+      updateMutation.mutate({ id: stage.id, data: { name } });
+    }
+  };
+
+  const handleColorChange = (stage: ApplicationStage) => {
+    const color = colors[stage.id];
+    if (color && color !== stage.color) {
+      updateMutation.mutate({ id: stage.id, data: { color } });
+    }
+  };
+
+  const handleDelete = (stage: ApplicationStage) => {
+    if (confirm(`Usunąć etap „${stage.name}"? Zgłoszenia z tego etapu trafią do pierwszego etapu tego samego rodzaju.`)) {
+      deleteMutation.mutate(stage.id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/50" onClick={onClose} />
+
+        <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Etapy sprzedaży</h2>
+              <p className="text-sm text-gray-500">
+                Przeniesienie do etapu „wygrane" akceptuje zgłoszenie, do „przegrane" - odrzuca je
+              </p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {isLoading ? (
+              <LoadingSpinner message="Wczytywanie etapów..." />
+            ) : (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {stages.map((stage, index) => (
+                  <div key={stage.id} className="flex items-center gap-3 px-4 py-2">
+                    <input
+                      type="color"
+                      value={colors[stage.id] ?? stage.color}
+                      onChange={(e) => setColors({ ...colors, [stage.id]: e.target.value })}
+                      onBlur={() => handleColorChange(stage)}
+                      className="h-8 w-8 rounded cursor-pointer border-0 p-0"
+                      title="Kolor etapu"
+                    />
+                    <input
+                      type="text"
+                      value={names[stage.id] ?? stage.name}
+                      onChange={(e) => setNames({ ...names, [stage.id]: e.target.value })}
+                      onBlur={() => handleRename(stage)}
+                      className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                    <span className="w-40 text-xs text-gray-500">{STAGE_KIND_LABELS[stage.kind]}</span>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0 || reorderMutation.isPending}
+                        title="W górę"
+                        className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      >
+                        <ChevronUp className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === stages.length - 1 || reorderMutation.isPending}
+                        title="W dół"
+                        className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      >
+                        <ChevronDown className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(stage)}
+                        disabled={deleteMutation.isPending}
+                        title="Usuń etap"
+                        className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-30"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center gap-3">
+              <input
+                type="color"
+                value={newStage.color}
+                onChange={(e) => setNewStage({ ...newStage, color: e.target.value })}
+                className="h-9 w-9 rounded cursor-pointer border-0 p-0"
+                title="Kolor etapu"
+              />
+              <input
+                type="text"
+                value={newStage.name}
+                onChange={(e) => setNewStage({ ...newStage, name: e.target.value })}
+                placeholder="Nazwa nowego etapu"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+              <select
+                value={newStage.kind}
+                onChange={(e) => setNewStage({ ...newStage, kind: e.target.value as ApplicationStageKind })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {(Object.keys(STAGE_KIND_LABELS) as ApplicationStageKind[]).map((kind) => (
+                  <option key={kind} value={kind}>
+                    {STAGE_KIND_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => createMutation.mutate()}
+                disabled={!newStage.name.trim() || createMutation.isPending}
+                className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                Dodaj
+              </button>
+            </div>
+          </div>
+
+          <div className="flex justify-end p-6 border-t border-gray-200">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Zamknij
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApplicationStagesModal;
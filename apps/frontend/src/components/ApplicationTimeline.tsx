@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { addDays, format, isPast } from 'date-fns';
+import { pl } from 'date-fns/locale';
+import {
+  ArrowRight,
+  CalendarPlus,
+  CheckSquare,
+  Mail,
+  MessageSquare,
+  PlusCircle,
+  Square,
+  Trash2,
+  UserPlus,
+  ListTodo,
+  History,
+} from 'lucide-react';
+import courseApplicationService, { ApplicationActivityType } from '../services/courseApplicationService';
+import userService from '../services/userService';
+import { getErrorMessage } from '../lib/errorUtils';
+
+interface ApplicationTimelineProps {
+  applicationId: string;
+}
+
+const ACTIVITY_ICONS: Record<ApplicationActivityType, React.ElementType> = {
+  CREATED: PlusCircle,
+  STAGE_CHANGED: ArrowRight,
+  STATUS_CHANGED: ArrowRight,
+  EMAIL_SENT: Mail,
+  NOTE: MessageSquare,
+  TASK_CREATED: ListTodo,
+  TASK_COMPLETED: CheckSquare,
+  CONVERTED: UserPlus,
+  TRIAL_SCHEDULED: CalendarPlus,
+};
+
+const defaultDueAt = () => format(addDays(new Date(), 1), "yyyy-MM-dd'T'10:00");
+
+const ApplicationTimeline: React.FC<ApplicationTimelineProps> = ({ applicationId }) => {
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  const [taskTitle, setTaskTitle] = useState('');
+  const [taskDueAt, setTaskDueAt] = useState(defaultDueAt);
+  const [taskAssigneeId, setTaskAssigneeId] = useState('');
+
+  const { data: timeline } = useQuery({
+    queryKey: ['application-timeline', applicationId],
+    queryFn: () => courseApplicationService.getTimeline(applicationId),
+  });
+
+  const { data: usersResult } = useQuery({
+    queryKey: ['users', 'staff'],
+    queryFn: () => userService.getUsers({ isActive: true, pageSize: 200 }),
+    staleTime: 10 * 60 * 1000,
+  });
+  const staff = (usersResult?.data ?? []).filter((user) => user.role === 'ADMIN' || user.role === 'MANAGER');
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['application-timeline', applicationId] });
+    queryClient.invalidateQueries({ queryKey: ['applications'] });
+  };
+
+  const noteMutation = useMutation({
+    mutationFn: () => courseApplicationService.addNote(applicationId, note.trim()),
+    onSuccess: () => {
+      invalidate();
+      setNote('');
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się dodać notatki'));
+    },
+  });
+
+  const createTaskMutation = useMutation({
+    mutationFn: () =>
+      courseApplicationService.createTask(applicationId, {
+        title: taskTitle.trim(),
+        dueAt: new Date(taskDueAt).toISOString(),
+        assignedToId: taskAssigneeId || undefined,
+      }),
+    onSuccess: () => {
+      invalidate();
+      setTaskTitle('');
+      setTaskDueAt(defaultDueAt());
+      toast.success('Zadanie zostało dodane');
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się dodać zadania'));
+    },
+  });
+
+  const toggleTaskMutation = useMutation({
+    mutationFn: (taskId: string) => courseApplicationService.toggleTask(taskId),
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zmienić zadania'));
+    },
+  });
+
+  const deleteTaskMutation = useMutation({
+    mutationFn: (taskId: string) => courseApplicationService.deleteTask(taskId),
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się usunąć zadania'));
+    },
+  });
+
+  const tasks = timeline?.tasks ?? [];
+  const activities = timeline?.activities ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Follow-up tasks */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2 mb-3">
+          <ListTodo className="h-4 w-4 text-primary" />
+          Zadania
+        </h3>
+
+        {tasks.length > 0 && (
+          <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100 mb-3">
+            {tasks.map((task) => {
+              const isOverdue = !task.completedAt && isPast(new Date(task.dueAt));
+              return (
+                <li key={task.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <button
+                    onClick={() => toggleTaskMutation.mutate(task.id)}
+                    disabled={toggleTaskMutation.isPending}
+                    className="text-gray-500 hover:text-primary"
+                    title={task.completedAt ? 'Przywróć zadanie' : 'Oznacz jako wykonane'}
+                  >
+                    {task.completedAt ? <CheckSquare className="h-4 w-4 text-green-600" /> : <Square className="h-4 w-4" />}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <p className={task.completedAt ? 'text-gray-400 line-through' : 'text-gray-900'}>{task.title}</p>
+                    <p className={`text-xs ${isOverdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                      {format(new Date(task.dueAt), 'EEE d.MM.yyyy HH:mm', { locale: pl })}
+                      {task.assignedTo && ` · ${task.assignedTo.firstName} ${task.assignedTo.lastName}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => deleteTaskMutation.mutate(task.id)}
+                    disabled={deleteTaskMutation.isPending}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Usuń zadanie"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto_auto] gap-2">
+          <input
+            type="text"
+            value={taskTitle}
+            onChange={(e) => setTaskTitle(e.target.value)}
+            placeholder="np. Zadzwonić z ofertą"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <input
+            type="datetime-local"
+            value={taskDueAt}
+            onChange={(e) => setTaskDueAt(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <select
+            value={taskAssigneeId}
+            onChange={(e) => setTaskAssigneeId(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">Wszyscy</option>
+            {staff.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.firstName} {user.lastName}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => createTaskMutation.mutate()}
+            disabled={!taskTitle.trim() || !taskDueAt || createTaskMutation.isPending}
+            className="px-3 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            Dodaj
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">W terminie zadania osoba odpowiedzialna dostanie alert</p>
+      </div>
+
+      {/* Activity timeline */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2 mb-3">
+          <History className="h-4 w-4 text-primary" />
+          Historia
+        </h3>
+
+        <div className="flex gap-2 mb-3">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && note.trim()) noteMutation.mutate();
+            }}
+            placeholder="Dodaj notatkę, np. przebieg rozmowy telefonicznej"
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <button
+            onClick={() => noteMutation.mutate()}
+            disabled={!note.trim() || noteMutation.isPending}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            Zapisz
+          </button>
+        </div>
+
+        {activities.length === 0 ? (
+          <p className="text-sm text-gray-500">Brak zdarzeń</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+            {activities.map((activity) => {
+              const Icon = ACTIVITY_ICONS[activity.type];
+              return (
+                <li key={activity.id} className="ml-4">
+                  <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-white ring-2 ring-gray-200">
+                    <Icon className="h-2.5 w-2.5 text-gray-500" />
+                  </span>
+                  <p className={`text-sm ${activity.type === 'NOTE' ? 'text-gray-900 bg-yellow-50 rounded px-2 py-1' : 'text-gray-700'}`}>
+                    {activity.message}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {format(new Date(activity.createdAt), 'd.MM.yyyy HH:mm')}
+                    {activity.user ? ` · ${activity.user.firstName} ${activity.user.lastName}` : ' · system'}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApplicationTimeline;
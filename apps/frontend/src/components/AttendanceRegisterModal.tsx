@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { pl } from 'date-fns/locale';
+import { X, Download, Save } from 'lucide-react';
+import attendanceService, { AttendanceStatus, CourseRegister } from '../services/attendanceService';
+import { reportService } from '../services/reportService';
+import { Course } from '../services/courseService';
+import { getErrorMessage } from '../lib/errorUtils';
+import LoadingSpinner from './LoadingSpinner';
+
+interface AttendanceRegisterModalProps {
+  course: Course;
+  onClose: () => void;
+}
+
+const statusOptions: { value: AttendanceStatus; label: string; symbol: string; className: string }[] = [
+  { value: 'PRESENT', label: 'Obecny', symbol: 'O', className: 'bg-green-100 text-green-800' },
+  { value: 'ABSENT', label: 'Nieobecny', symbol: 'N', className: 'bg-red-100 text-red-800' },
+  { value: 'LATE', label: 'Spóźniony', symbol: 'S', className: 'bg-yellow-100 text-yellow-800' },
+  { value: 'EXCUSED', label: 'Usprawiedliwiony', symbol: 'U', className: 'bg-blue-100 text-blue-800' },
+];
+
+const cellKey = (lessonId: string, studentId: string) => `${lessonId}:${studentId}`;
+
+const AttendanceRegisterModal: React.FC<AttendanceRegisterModalProps> = ({ course, onClose }) => {
+  const queryClient = useQueryClient();
+  const [dateFrom, setDateFrom] = useState(course.startDate.split('T')[0]);
+  const [dateTo, setDateTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [brush, setBrush] = useState<AttendanceStatus>('PRESENT');
+  const [changes, setChanges] = useState<Record<string, AttendanceStatus>>({});
+  const [isExporting, setIsExporting] = useState(false);
+
+  const filters = {
+    dateFrom: dateFrom ? new Date(`${dateFrom}T00:00:00`).toISOString() : undefined,
+    dateTo: dateTo ? new Date(`${dateTo}T23:59:59`).toISOString() : undefined,
+  };
+
+  const { data: register, isLoading } = useQuery({
+    queryKey: ['attendance-register', course.id, filters],
+    queryFn: () => attendanceService.getCourseRegister(course.id, filters),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      attendanceService.bulkMarkRegister(
+        course.id,
+        Object.entries(changes).map(([key, status]) => {
+          const [lessonId, studentId] = key.split(':');
+          return { lessonId, studentId, status };
+        })
+      ),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['attendance-register', course.id] });
+      queryClient.invalidateQueries({ queryKey: ['attendances'] });
+      setChanges({});
+      toast.success(`Zapisano obecności: ${data.updated}`);
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zapisać obecności'));
+    },
+  });
+
+  const isExpected = (lesson: CourseRegister['lessons'][number], studentId: string) =>
+    lesson.studentIds.includes(studentId);
+
+  const markCells = (cells: { lessonId: string; studentId: string }[]) => {
+    setChanges((prev) => {
+      const next = { ...prev };
+      cells.forEach(({ lessonId, studentId }) => {
+        next[cellKey(lessonId, studentId)] = brush;
+      });
+      return next;
+    });
+  };
+
+  const markLesson = (lesson: CourseRegister['lessons'][number]) => {
+    markCells(lesson.studentIds.map((studentId) => ({ lessonId: lesson.id, studentId })));
+  };
+
+  // Row marking only fills lessons that already took place
+  const markStudent = (studentId: string) => {
+    if (!register) return;
+    markCells(
+      register.lessons
+        .filter((lesson) => isExpected(lesson, studentId) && new Date(lesson.scheduledAt) <= new Date())
+        .map((lesson) => ({ lessonId: lesson.id, studentId }))
+    );
+  };
+
+  const handleExport = async (fileFormat: 'pdf' | 'xlsx') => {
+    setIsExporting(true);
+    try {
+      const blob = await attendanceService.exportCourseRegister(course.id, fileFormat, filters);
+      reportService.downloadFile(blob, `dziennik-obecnosci-${format(new Date(), 'yyyy-MM-dd')}.${fileFormat}`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Nie udało się wyeksportować dziennika'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (Object.keys(changes).length > 0 && !confirm('Masz niezapisane zmiany. Zamknąć dziennik?')) {
+      return;
+    }
+    onClose();
+  };
+
+  const changesCount = Object.keys(changes).length;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/50" onClick={handleClose} />
+
+        <div className="relative bg-white rounded-lg shadow-xl max-w-6xl w-full">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Dziennik obecności</h2>
+              <p className="text-sm text-gray-500">
+                {course.name}
+                {register && ` · ${register.course.teacherName}`}
+              </p>
+            </div>
+            <button onClick={handleClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div className="flex items-end gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Od</label>
+                  <input
+                    type="date"
+                    value={dateFrom}
+                    onChange={(e) => setDateFrom(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Do</label>
+                  <input
+                    type="date"
+                    value={dateTo}
+                    onChange={(e) => setDateTo(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                {(['pdf', 'xlsx'] as const).map((fileFormat) => (
+                  <button
+                    key={fileFormat}
+                    type="button"
+                    onClick={() => handleExport(fileFormat)}
+                    disabled={isExporting || !register}
+                    className="flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    <Download className="h-4 w-4" />
+                    {fileFormat.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-600">Zaznaczaj jako:</span>
+              {statusOptions.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setBrush(option.value)}
+                  className={`px-3 py-1 rounded-lg border transition-colors ${
+                    brush === option.value ? `${option.className} border-current font-medium` : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {option.symbol} · {option.label}
+                </button>
+              ))}
+              <span className="text-xs text-gray-500">
+                Kliknij komórkę, datę (cała lekcja) lub ucznia (wszystkie minione lekcje)
+              </span>
+            </div>
+
+            {isLoading ? (
+              <LoadingSpinner message="Wczytywanie dziennika..." />
+            ) : !register || register.lessons.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">Brak lekcji w wybranym okresie</p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg overflow-auto max-h-[60vh]">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 sticky top-0 z-10">
+                    <tr>
+                      <th className="sticky left-0 bg-gray-50 px-3 py-2 text-left font-medium text-gray-700">Uczeń</th>
+                      {register.lessons.map((lesson) => (
+                        <th key={lesson.id} className="px-1 py-2 font-medium text-gray-700">
+                          <button
+                            type="button"
+                            onClick={() => markLesson(lesson)}
+                            title={`${lesson.title} - zaznacz wszystkich`}
+                            className="px-1 rounded hover:bg-gray-200 whitespace-nowrap"
+                          >
+                            {format(new Date(lesson.scheduledAt), 'dd.MM', { locale: pl })}
+                            <span className="block text-xs font-normal text-gray-500">
+                              {format(new Date(lesson.scheduledAt), 'HH:mm')}
+                            </span>
+                          </button>
+                        </th>
+                      ))}
+                      <th className="px-3 py-2 text-right font-medium text-gray-700">Frekwencja</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {register.students.map((student) => {
+                      const belowThreshold =
+                        student.stats.percent !== null &&
+                        student.stats.percent < register.alertSettings.minAttendancePercent;
+                      return (
+                        <tr key={student.id}>
+                          <td className="sticky left-0 bg-white px-3 py-2 whitespace-nowrap">
+                            <button
+                              type="button"
+                              onClick={() => markStudent(student.id)}
+                              className="text-left text-gray-900 hover:text-primary"
+                            >
+                              {student.lastName} {student.firstName}
+                            </button>
+                          </td>
+                          {register.lessons.map((lesson) => {
+                            if (!isExpected(lesson, student.id) && !student.attendance[lesson.id]) {
+                              return (
+                                <td key={lesson.id} className="px-1 py-1 text-center text-gray-300">
+                                  -
+                                </td>
+                              );
+                            }
+                            const key = cellKey(lesson.id, student.id);
+                            const status = changes[key] ?? student.attendance[lesson.id];
+                            const option = statusOptions.find((o) => o.value === status);
+                            return (
+                              <td key={lesson.id} className="px-1 py-1 text-center">
+                                <button
+                                  type="button"
+                                  onClick={() => markCells([{ lessonId: lesson.id, studentId: student.id }])}
+                                  title={option?.label}
+                                  className={`w-8 h-8 rounded font-medium ${
+                                    option ? option.className : 'border border-dashed border-gray-300 hover:bg-gray-50'
+                                  } ${changes[key] ? 'ring-2 ring-primary' : ''}`}
+                                >
+                                  {option?.symbol}
+                                </button>
+                              </td>
+                            );
+                          })}
+                          <td className="px-3 py-2 text-right whitespace-nowrap">
+                            <span className={belowThreshold ? 'font-semibold text-red-600' : 'text-gray-900'}>
+                              {student.stats.percent !== null ? `${student.stats.percent}%` : '—'}
+                            </span>
+                            {student.stats.consecutiveAbsences > 1 && (
+                              <span className="block text-xs text-red-600">
+                                {student.stats.consecutiveAbsences} nieob. z rzędu
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-3 p-6 border-t border-gray-200">
+            <span className="text-sm text-gray-500">
+              {changesCount > 0 ? `Niezapisane zmiany: ${changesCount}` : 'Frekwencja liczona bez nieobecności usprawiedliwionych'}
+            </span>
+            <div className="flex gap-3">
+              {changesCount > 0 && (
+                <button
+                  onClick={() => setChanges({})}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Cofnij zmiany
+                </button>
+              )}
+              <button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || changesCount === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                <Save className="h-4 w-4" />
+                {saveMutation.isPending ? 'Zapisywanie...' : 'Zapisz obecności'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttendanceRegisterModal;
@@ -118,12 +118,10 @@ const AttendanceSection: React.FC<AttendanceSectionProps> = ({ lesson }) => {
     );
   }
 
-  // For single student lesson
-  const studentId = lesson.studentId;
-  const currentStatus = attendanceData[studentId]?.status || 'PRESENT';
-  const currentNotes = attendanceData[studentId]?.notes || '';
-  const badge = getStatusBadge(currentStatus);
-  const StatusIcon = badge.icon;
+  // Group lessons list every participant, individual lessons only the lesson's student
+  const lessonStudents = lesson.isGroupLesson && lesson.participants?.length
+    ? lesson.participants.map((participant) => participant.student)
+    : [lesson.student];
 
   return (
     <div className="space-y-4">
@@ -144,78 +142,88 @@ const AttendanceSection: React.FC<AttendanceSectionProps> = ({ lesson }) => {
         )}
       </div>
 
-      <div className={`border-2 rounded-lg p-4 ${getStatusColor(currentStatus)}`}>
-        <div className="space-y-4">
-          {/* Student Info */}
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              {lesson.student.user.avatarUrl ? (
-                <img
-                  src={lesson.student.user.avatarUrl}
-                  alt={`${lesson.student.user.firstName} ${lesson.student.user.lastName}`}
-                  className="h-10 w-10 rounded-full object-cover"
-                />
-              ) : (
-                <div className="h-10 w-10 rounded-full bg-gray-200 flex items-center justify-center text-gray-600 font-medium">
-                  {lesson.student.user.firstName[0]}
-                  {lesson.student.user.lastName[0]}
+      {lessonStudents.map((student) => {
+        const studentId = student.id;
+        const currentStatus = attendanceData[studentId]?.status || 'PRESENT';
+        const currentNotes = attendanceData[studentId]?.notes || '';
+        const badge = getStatusBadge(currentStatus);
+        const StatusIcon = badge.icon;
+
+        return (
+          <div key={studentId} className={`border-2 rounded-lg p-4 ${getStatusColor(currentStatus)}`}>
+            <div className="space-y-4">
+              {/* Student Info */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  {student.user.avatarUrl ? (
+                    <img
+                      src={student.user.avatarUrl}
+                      alt={`${student.user.firstName} ${student.user.lastName}`}
+                      className="h-10 w-10 rounded-full object-cover"
+                    />
+                  ) : (
+                    <div className="h-10 w-10 rounded-full bg-gray-200 flex items-center justify-center text-gray-600 font-medium">
+                      {student.user.firstName[0]}
+                      {student.user.lastName[0]}
+                    </div>
+                  )}
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {student.user.firstName} {student.user.lastName}
+                    </p>
+                    <p className="text-sm text-gray-600">{displayEmail(student.user.email) ?? <span className="italic text-gray-400">Brak adresu email</span>}</p>
+                  </div>
+                </div>
+
+                <div className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full border ${badge.className}`}>
+                  <StatusIcon className="h-4 w-4" />
+                  <span className="text-sm font-medium">{badge.label}</span>
                 </div>
-              )}
-              <div>
-                <p className="font-medium text-gray-900">
-                  {lesson.student.user.firstName} {lesson.student.user.lastName}
-                </p>
-                <p className="text-sm text-gray-600">{displayEmail(lesson.student.user.email) ?? <span className="italic text-gray-400">Brak adresu email</span>}</p>
               </div>
-            </div>
 
-            <div className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full border ${badge.className}`}>
-              <StatusIcon className="h-4 w-4" />
-              <span className="text-sm font-medium">{badge.label}</span>
-            </div>
-          </div>
+              {/* Status Selection */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Status obecności</label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED'] as AttendanceStatus[]).map((status) => {
+                    const statusBadge = getStatusBadge(status);
+                    const Icon = statusBadge.icon;
+                    return (
+                      <button
+                        key={status}
+                        type="button"
+                        onClick={() => handleStatusChange(studentId, status)}
+                        className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg border-2 transition-all ${
+                          currentStatus === status
+                            ? `${statusBadge.className} border-opacity-100 font-medium`
+                            : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        <Icon className="h-4 w-4" />
+                        <span className="text-sm">{statusBadge.label}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
 
-          {/* Status Selection */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Status obecności</label>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-              {(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED'] as AttendanceStatus[]).map((status) => {
-                const statusBadge = getStatusBadge(status);
-                const Icon = statusBadge.icon;
-                return (
-                  <button
-                    key={status}
-                    type="button"
-                    onClick={() => handleStatusChange(studentId, status)}
-                    className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg border-2 transition-all ${
-                      currentStatus === status
-                        ? `${statusBadge.className} border-opacity-100 font-medium`
-                        : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
-                    }`}
-                  >
-                    <Icon className="h-4 w-4" />
-                    <span className="text-sm">{statusBadge.label}</span>
-                  </button>
-                );
-              })}
+              {/* Notes */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notatki (opcjonalnie)
+                </label>
+                <textarea
+                  value={currentNotes}
+                  onChange={(e) => handleNotesChange(studentId, e.target.value)}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  placeholder="Dodatkowe informacje o obecności..."
+                />
+              </div>
             </div>
           </div>
-
-          {/* Notes */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Notatki (opcjonalnie)
-            </label>
-            <textarea
-              value={currentNotes}
-              onChange={(e) => handleNotesChange(studentId, e.target.value)}
-              rows={2}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-              placeholder="Dodatkowe informacje o obecności..."
-            />
-          </div>
-        </div>
-      </div>
+        );
+      })}
 
       <div className="text-xs text-gray-500 bg-gray-50 border border-gray-200 rounded p-3">
         <p className="font-medium text-gray-700">Informacja:</p>
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import attendanceService, { AttendanceSettings } from '../services/attendanceService';
+import { ClipboardCheck, Save } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+const DEFAULT_SETTINGS: AttendanceSettings = {
+  alertsEnabled: false,
+  minAttendancePercent: 70,
+  maxConsecutiveAbsences: 3,
+};
+
+export default function AttendanceSettingsSection() {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<AttendanceSettings>(DEFAULT_SETTINGS);
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['attendance-settings'],
+    queryFn: () => attendanceService.getSettings(),
+  });
+
+  React.useEffect(() => {
+    if (settings) {
+      setFormData({ ...DEFAULT_SETTINGS, ...settings });
+    }
+  }, [settings]);
+
+  const updateMutation = useMutation({
+    mutationFn: (data: AttendanceSettings) => attendanceService.updateSettings(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attendance-settings'] });
+      toast.success('Ustawienia frekwencji zostały zapisane');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error?.message || 'Błąd podczas zapisywania ustawień');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateMutation.mutate(formData);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow border border-gray-200 mt-6">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-3">
+        <ClipboardCheck className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-semibold text-gray-900">Alerty frekwencji</h2>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <div>
+            <p className="text-sm font-medium text-gray-700">Powiadamiaj o niskiej frekwencji</p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Po zapisaniu obecności administratorzy i lektor kursu dostają alert, gdy uczeń przekroczy jeden z progów.
+            </p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer ml-4 flex-shrink-0">
+            <input
+              type="checkbox"
+              checked={formData.alertsEnabled}
+              onChange={(e) => setFormData((prev) => ({ ...prev, alertsEnabled: e.target.checked }))}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Minimalna frekwencja (%)</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="1"
+              value={formData.minAttendancePercent}
+              onChange={(e) => setFormData((prev) => ({ ...prev, minAttendancePercent: parseInt(e.target.value) || 0 }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <p className="text-xs text-gray-500 mt-1">Sprawdzane po co najmniej 3 oznaczonych lekcjach</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Nieobecności z rzędu</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={formData.maxConsecutiveAbsences}
+              onChange={(e) => setFormData((prev) => ({ ...prev, maxConsecutiveAbsences: parseInt(e.target.value) || 0 }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <p className="text-xs text-gray-500 mt-1">0 = wyłączone</p>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Frekwencja = lekcje obecne i spóźnione / wszystkie oznaczone lekcje. Nieobecności usprawiedliwione nie są liczone.
+        </p>
+      </div>
+
+      <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end rounded-b-lg">
+        <button
+          type="submit"
+          disabled={updateMutation.isPending}
+          className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="h-4 w-4" />
+          {updateMutation.isPending ? 'Zapisywanie...' : 'Zapisz ustawienia'}
+        </button>
+      </div>
+    </form>
+  );
+}
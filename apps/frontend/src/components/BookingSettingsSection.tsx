@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import bookingService, { BookingSettings } from '../services/bookingService';
+import { CalendarCheck, Save } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+const DEFAULT_SETTINGS: BookingSettings = {
+  enabled: false,
+  minNoticeHours: 24,
+  maxBookingsPerWeek: 2,
+  maxDaysAhead: 30,
+};
+
+export default function BookingSettingsSection() {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<BookingSettings>(DEFAULT_SETTINGS);
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['booking-settings'],
+    queryFn: () => bookingService.getSettings(),
+  });
+
+  React.useEffect(() => {
+    if (settings) {
+      setFormData({ ...DEFAULT_SETTINGS, ...settings });
+    }
+  }, [settings]);
+
+  const updateMutation = useMutation({
+    mutationFn: (data: BookingSettings) => bookingService.updateSettings(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['booking-settings'] });
+      toast.success('Ustawienia rezerwacji zostały zapisane');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error?.message || 'Błąd podczas zapisywania ustawień');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateMutation.mutate(formData);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow border border-gray-200 mt-6">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-3">
+        <CalendarCheck className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-semibold text-gray-900">Samodzielna rezerwacja lekcji</h2>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <div>
+            <p className="text-sm font-medium text-gray-700">Uczniowie mogą rezerwować lekcje</p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Uczniowie kursów indywidualnych wybierają wolny termin lektora w swoim panelu.
+              Lektor musi mieć ustawione godziny pracy i być dostępny do rezerwacji.
+            </p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer ml-4 flex-shrink-0">
+            <input
+              type="checkbox"
+              checked={formData.enabled}
+              onChange={(e) => setFormData((prev) => ({ ...prev, enabled: e.target.checked }))}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Minimalne wyprzedzenie (godz.)</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={formData.minNoticeHours}
+              onChange={(e) => setFormData((prev) => ({ ...prev, minNoticeHours: parseInt(e.target.value) || 0 }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Limit rezerwacji w tygodniu</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={formData.maxBookingsPerWeek}
+              onChange={(e) => setFormData((prev) => ({ ...prev, maxBookingsPerWeek: parseInt(e.target.value) || 0 }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <p className="text-xs text-gray-500 mt-1">0 = bez limitu</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Rezerwacja maks. z wyprzedzeniem (dni)</label>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={formData.maxDaysAhead}
+              onChange={(e) => setFormData((prev) => ({ ...prev, maxDaysAhead: parseInt(e.target.value) || 1 }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Rezerwacja wymaga dostępnego budżetu: wolnych godzin w pakiecie, środków na saldzie lub lekcji w abonamencie.
+          Lekcje rozliczane za pojedyncze zajęcia nie mają limitu budżetu.
+        </p>
+      </div>
+
+      <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end rounded-b-lg">
+        <button
+          type="submit"
+          disabled={updateMutation.isPending}
+          className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="h-4 w-4" />
+          {updateMutation.isPending ? 'Zapisywanie...' : 'Zapisz ustawienia'}
+        </button>
+      </div>
+    </form>
+  );
+}
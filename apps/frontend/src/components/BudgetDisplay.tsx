@@ -5,6 +5,9 @@ interface BudgetDisplayProps {
   hoursUsed: number;
   hoursRemaining: number;
   lowBudget: boolean;
+  title?: string;
+  hoursExpired?: number;
+  expiresAt?: string | null;
 }
 
 const BudgetDisplay: React.FC<BudgetDisplayProps> = ({
@@ -12,12 +15,23 @@ const BudgetDisplay: React.FC<BudgetDisplayProps> = ({
   hoursUsed,
   hoursRemaining,
   lowBudget,
+  title = 'Budget godzinowy',
+  hoursExpired = 0,
+  expiresAt,
 }) => {
-  const percentageUsed = (hoursUsed / hoursPurchased) * 100;
+  const percentageUsed = hoursPurchased > 0 ? (hoursUsed / hoursPurchased) * 100 : 0;
+  const isExpired = !!expiresAt && new Date(expiresAt) <= new Date();
 
   return (
     <div className="bg-white border border-gray-200 rounded-lg p-4">
-      <h3 className="text-sm font-semibold text-gray-700 mb-3">Budget godzinowy</h3>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-700">{title}</h3>
+        {expiresAt && (
+          <span className={`text-xs ${isExpired ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+            {isExpired ? 'Wygasł' : 'Ważny do'} {new Date(expiresAt).toLocaleDateString('pl-PL')}
+          </span>
+        )}
+      </div>
 
       {/* Progress bar */}
       <div className="mb-3">
@@ -53,8 +67,14 @@ const BudgetDisplay: React.FC<BudgetDisplayProps> = ({
         </div>
       </div>
 
+      {hoursExpired > 0 && (
+        <p className="mt-2 text-xs text-gray-500">
+          Przepadło po terminie ważności: {hoursExpired.toFixed(1)}h
+        </p>
+      )}
+
       {/* Warning */}
-      {lowBudget && (
+      {lowBudget && !isExpired && (
         <div className="mt-3 bg-red-50 border border-red-200 rounded p-2">
           <p className="text-xs text-red-700 font-medium">
             ⚠️ Niski stan konta! Pozostało mniej niż 2 godziny.
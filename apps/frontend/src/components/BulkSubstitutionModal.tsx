@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { addDays, format } from 'date-fns';
+import { pl } from 'date-fns/locale';
+import { X, Search, AlertTriangle } from 'lucide-react';
+import substitutionService, { BulkSubstitutionResult, LessonRecommendation } from '../services/substitutionService';
+import { teacherService } from '../services/teacherService';
+import { getErrorMessage } from '../lib/errorUtils';
+import LoadingSpinner from './LoadingSpinner';
+
+interface BulkSubstitutionModalProps {
+  onClose: () => void;
+}
+
+const toRangeStart = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+const toRangeEnd = (date: string) => new Date(`${date}T23:59:59`).toISOString();
+
+const BulkSubstitutionModal: React.FC<BulkSubstitutionModalProps> = ({ onClose }) => {
+  const queryClient = useQueryClient();
+  const [originalTeacherId, setOriginalTeacherId] = useState('');
+  const [dateFrom, setDateFrom] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [dateTo, setDateTo] = useState(format(addDays(new Date(), 6), 'yyyy-MM-dd'));
+  const [substituteTeacherId, setSubstituteTeacherId] = useState('');
+  const [reason, setReason] = useState('');
+  const [notes, setNotes] = useState('');
+  const [previewParams, setPreviewParams] = useState<{ originalTeacherId: string; dateFrom: string; dateTo: string } | null>(null);
+  const [result, setResult] = useState<BulkSubstitutionResult | null>(null);
+
+  const { data: teachersResult } = useQuery({
+    queryKey: ['teachers', 'active'],
+    queryFn: () => teacherService.getTeachers({ isActive: true, pageSize: 200 }),
+    staleTime: 10 * 60 * 1000,
+  });
+  const teachers = teachersResult?.data ?? [];
+
+  const { data: recommendations = [], isFetching: isLoadingPreview } = useQuery({
+    queryKey: ['substitution-recommendations', previewParams],
+    queryFn: () => substitutionService.getRangeRecommendations(previewParams!),
+    enabled: !!previewParams,
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: () =>
+      substitutionService.bulkSubstitute({
+        originalTeacherId,
+        dateFrom: toRangeStart(dateFrom),
+        dateTo: toRangeEnd(dateTo),
+        substituteTeacherId: substituteTeacherId || undefined,
+        reason: reason || undefined,
+        notes: notes || undefined,
+      }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['substitutions'] });
+      queryClient.invalidateQueries({ queryKey: ['lessons'] });
+      queryClient.invalidateQueries({ queryKey: ['substitution-recommendations'] });
+      toast.success(`Utworzono zastępstw: ${data.created.length}`);
+      if (data.skipped.length === 0) {
+        onClose();
+      } else {
+        setResult(data);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się utworzyć zastępstw'));
+    },
+  });
+
+  const handlePreview = () => {
+    if (!originalTeacherId) {
+      toast.error('Wybierz lektora, którego lekcje mają zostać zastąpione');
+      return;
+    }
+    setResult(null);
+    setPreviewParams({ originalTeacherId, dateFrom: toRangeStart(dateFrom), dateTo: toRangeEnd(dateTo) });
+  };
+
+  const getProposal = (recommendation: LessonRecommendation) => {
+    const candidates = substituteTeacherId
+      ? recommendation.candidates.filter((candidate) => candidate.teacher.id === substituteTeacherId)
+      : recommendation.candidates;
+    return candidates.find((candidate) => !candidate.hasConflict) || null;
+  };
+
+  const isPreviewCurrent =
+    previewParams?.originalTeacherId === originalTeacherId &&
+    previewParams?.dateFrom === toRangeStart(dateFrom) &&
+    previewParams?.dateTo === toRangeEnd(dateTo);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/50" onClick={onClose} />
+
+        <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <h2 className="text-xl font-bold text-gray-900">Zastępstwo za lektora</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Nieobecny lektor *</label>
+                <select
+                  value={originalTeacherId}
+                  onChange={(e) => setOriginalTeacherId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">Wybierz lektora</option>
+                  {teachers.map((teacher) => (
+                    <option key={teacher.id} value={teacher.id}>
+                      {teacher.user.firstName} {teacher.user.lastName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Od *</label>
+                <input
+                  type="date"
+                  value={dateFrom}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Do *</label>
+                <input
+                  type="date"
+                  value={dateTo}
+                  onChange={(e) => setDateTo(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Lektor zastępujący</label>
+                <select
+                  value={substituteTeacherId}
+                  onChange={(e) => setSubstituteTeacherId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">Automatycznie - najlepszy wolny lektor</option>
+                  {teachers
+                    .filter((teacher) => teacher.id !== originalTeacherId)
+                    .map((teacher) => (
+                      <option key={teacher.id} value={teacher.id}>
+                        {teacher.user.firstName} {teacher.user.lastName}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Powód</label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="np. choroba, urlop"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notatki</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+
+            <button
+              type="button"
+              onClick={handlePreview}
+              className="flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Search className="h-4 w-4" />
+              Pokaż lekcje i propozycje
+            </button>
+
+            {isLoadingPreview ? (
+              <LoadingSpinner message="Wyszukiwanie zastępców..." />
+            ) : previewParams && (
+              recommendations.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4">
+                  Brak lekcji bez zastępstwa w wybranym okresie
+                </p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-72 overflow-y-auto">
+                  {recommendations.map((recommendation) => {
+                    const proposal = getProposal(recommendation);
+                    return (
+                      <div key={recommendation.lesson.id} className="px-4 py-2 flex items-center justify-between gap-4 text-sm">
+                        <div>
+                          <p className="font-medium text-gray-900">{recommendation.lesson.title}</p>
+                          <p className="text-xs text-gray-500">
+                            {format(new Date(recommendation.lesson.scheduledAt), 'EEE d.MM, HH:mm', { locale: pl })}
+                            {' · '}{recommendation.lesson.studentName}
+                          </p>
+                        </div>
+                        {proposal ? (
+                          <div className="text-right">
+                            <p className="text-amber-900 font-medium">
+                              {proposal.teacher.firstName} {proposal.teacher.lastName}
+                            </p>
+                            {proposal.reasons.length > 0 && (
+                              <p className="text-xs text-gray-500">{proposal.reasons.join(' · ')}</p>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-xs text-red-600">Brak wolnego lektora</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )
+            )}
+
+            {result && result.skipped.length > 0 && (
+              <div className="flex gap-3 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+                <div>
+                  <p className="font-medium">Pominięte lekcje ({result.skipped.length}):</p>
+                  <ul className="mt-1 space-y-0.5">
+                    {result.skipped.map((skipped) => (
+                      <li key={skipped.lessonId}>
+                        {format(new Date(skipped.scheduledAt), 'd.MM HH:mm')} {skipped.title} - {skipped.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Zamknij
+            </button>
+            <button
+              onClick={() => bulkMutation.mutate()}
+              disabled={bulkMutation.isPending || !isPreviewCurrent || recommendations.length === 0}
+              className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+            >
+              {bulkMutation.isPending ? 'Tworzenie...' : 'Utwórz zastępstwa'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkSubstitutionModal;
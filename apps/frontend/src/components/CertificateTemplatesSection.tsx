@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import certificateService, {
+  CertificateTemplates,
+  CertificateType,
+  CERTIFICATE_TYPE_LABELS,
+} from '../services/certificateService';
+import { Award, Save } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+const PLACEHOLDERS = [
+  'studentName',
+  'courseName',
+  'level',
+  'startDate',
+  'endDate',
+  'lessonsAttended',
+  'hours',
+  'attendancePercent',
+  'organizationName',
+];
+
+export default function CertificateTemplatesSection() {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<CertificateTemplates | null>(null);
+
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ['certificate-templates'],
+    queryFn: () => certificateService.getTemplates(),
+  });
+
+  React.useEffect(() => {
+    if (templates) {
+      setFormData(templates);
+    }
+  }, [templates]);
+
+  const updateMutation = useMutation({
+    mutationFn: (data: CertificateTemplates) => certificateService.updateTemplates(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['certificate-templates'] });
+      toast.success('Szablony zaświadczeń zostały zapisane');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error?.message || 'Błąd podczas zapisywania szablonów');
+    },
+  });
+
+  const handleChange = (type: CertificateType, field: 'title' | 'body', value: string) => {
+    setFormData((prev) => (prev ? { ...prev, [type]: { ...prev[type], [field]: value } } : prev));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData) {
+      updateMutation.mutate(formData);
+    }
+  };
+
+  if (isLoading || !formData) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow border border-gray-200 mt-6">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-3">
+        <Award className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-semibold text-gray-900">Szablony zaświadczeń</h2>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {(Object.keys(CERTIFICATE_TYPE_LABELS) as CertificateType[]).map((type) => (
+          <div key={type} className="space-y-3">
+            <p className="text-sm font-medium text-gray-700">{CERTIFICATE_TYPE_LABELS[type]}</p>
+            <input
+              type="text"
+              value={formData[type].title}
+              onChange={(e) => handleChange(type, 'title', e.target.value)}
+              placeholder="Tytuł"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <textarea
+              value={formData[type].body}
+              onChange={(e) => handleChange(type, 'body', e.target.value)}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+        ))}
+
+        <p className="text-xs text-gray-500">
+          Dostępne pola: {PLACEHOLDERS.map((placeholder) => `{{${placeholder}}}`).join(', ')}. Logo i kolor
+          zaświadczenia pochodzą z danych organizacji, a kod weryfikacyjny jest dodawany automatycznie.
+        </p>
+      </div>
+
+      <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end rounded-b-lg">
+        <button
+          type="submit"
+          disabled={updateMutation.isPending}
+          className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="h-4 w-4" />
+          {updateMutation.isPending ? 'Zapisywanie...' : 'Zapisz szablony'}
+        </button>
+      </div>
+    </form>
+  );
+}
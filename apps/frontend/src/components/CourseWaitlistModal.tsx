@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { pl } from 'date-fns/locale';
+import { X, ChevronUp, ChevronDown, Trash2, UserPlus } from 'lucide-react';
+import waitlistService, { WaitlistEntry, WAITLIST_STATUS_LABELS } from '../services/waitlistService';
+import { studentService } from '../services/studentService';
+import { Course } from '../services/courseService';
+import { getErrorMessage } from '../lib/errorUtils';
+import LoadingSpinner from './LoadingSpinner';
+
+interface CourseWaitlistModalProps {
+  course: Course;
+  onClose: () => void;
+}
+
+const statusClassNames: Record<WaitlistEntry['status'], string> = {
+  WAITING: 'bg-gray-100 text-gray-800',
+  OFFERED: 'bg-amber-100 text-amber-800',
+  ENROLLED: 'bg-green-100 text-green-800',
+  EXPIRED: 'bg-red-100 text-red-800',
+  DECLINED: 'bg-red-100 text-red-800',
+  REMOVED: 'bg-gray-100 text-gray-500',
+};
+
+const CourseWaitlistModal: React.FC<CourseWaitlistModalProps> = ({ course, onClose }) => {
+  const queryClient = useQueryClient();
+  const [studentId, setStudentId] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const { data: waitlist, isLoading } = useQuery({
+    queryKey: ['course-waitlist', course.id],
+    queryFn: () => waitlistService.getCourseWaitlist(course.id),
+  });
+
+  const { data: studentsResult } = useQuery({
+    queryKey: ['students'],
+    queryFn: () => studentService.getStudents({ isActive: true, pageSize: 500 }),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['course-waitlist', course.id] });
+    queryClient.invalidateQueries({ queryKey: ['courses'] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => waitlistService.addToWaitlist({ courseId: course.id, studentId, notes: notes || undefined }),
+    onSuccess: (entry) => {
+      invalidate();
+      setStudentId('');
+      setNotes('');
+      toast.success(`Dodano do listy oczekujących (pozycja ${entry.position})`);
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się dodać do listy oczekujących'));
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: ({ id, direction }: { id: string; direction: 'up' | 'down' }) => waitlistService.moveEntry(id, direction),
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zmienić kolejności'));
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => waitlistService.removeEntry(id),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Usunięto z listy oczekujących');
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się usunąć z listy'));
+    },
+  });
+
+  const handleRemove = (entry: WaitlistEntry) => {
+    const warning = entry.status === 'OFFERED' ? ' Wysłana oferta zostanie anulowana i przekazana kolejnej osobie.' : '';
+    if (confirm(`Usunąć ${entry.name} z listy oczekujących?${warning}`)) {
+      removeMutation.mutate(entry.id);
+    }
+  };
+
+  const queuedStudentIds = new Set(waitlist?.entries.map((entry) => entry.studentId).filter(Boolean));
+  const enrolledStudentIds = new Set(course.enrollments?.map((enrollment) => enrollment.studentId) || []);
+  const availableStudents = (studentsResult?.data ?? []).filter(
+    (student) => !queuedStudentIds.has(student.id) && !enrolledStudentIds.has(student.id)
+  );
+
+  const isMoving = moveMutation.isPending || removeMutation.isPending;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/50" onClick={onClose} />
+
+        <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Lista oczekujących</h2>
+              <p className="text-sm text-gray-500">
+                {course.name}
+                {waitlist && waitlist.course.maxStudents !== null &&
+                  ` · zapisanych ${waitlist.course.activeEnrollments}/${waitlist.course.maxStudents}`}
+              </p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {!course.maxStudents ? (
+              <p className="text-sm text-gray-500 bg-gray-50 border border-gray-200 rounded-lg p-3">
+                Kurs nie ma limitu miejsc - uczniów można zapisywać bezpośrednio.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Uczeń</label>
+                  <select
+                    value={studentId}
+                    onChange={(e) => setStudentId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="">Wybierz ucznia</option>
+                    {availableStudents.map((student) => (
+                      <option key={student.id} value={student.id}>
+                        {student.user.firstName} {student.user.lastName}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notatka</label>
+                  <input
+                    type="text"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="np. woli zajęcia wieczorne"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                <button
+                  onClick={() => addMutation.mutate()}
+                  disabled={!studentId || addMutation.isPending}
+                  className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                >
+                  <UserPlus className="h-4 w-4" />
+                  Dodaj
+                </button>
+              </div>
+            )}
+
+            {isLoading ? (
+              <LoadingSpinner message="Wczytywanie listy..." />
+            ) : !waitlist || waitlist.entries.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">Nikt nie oczekuje na miejsce w tym kursie</p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {waitlist.entries.map((entry, index) => (
+                  <div key={entry.id} className="flex items-center gap-4 px-4 py-3">
+                    <span className="w-8 text-center text-lg font-bold text-gray-400">{entry.position}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900">
+                        {entry.name}
+                        {!entry.studentId && <span className="ml-2 text-xs font-normal text-gray-500">(zgłoszenie)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {entry.email} · od {format(new Date(entry.createdAt), 'd.MM.yyyy', { locale: pl })}
+                        {entry.notes && ` · ${entry.notes}`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusClassNames[entry.status]}`}>
+                        {WAITLIST_STATUS_LABELS[entry.status]}
+                      </span>
+                      {entry.status === 'OFFERED' && entry.offerExpiresAt && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          do {format(new Date(entry.offerExpiresAt), 'd.MM HH:mm', { locale: pl })}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => moveMutation.mutate({ id: entry.id, direction: 'up' })}
+                        disabled={index === 0 || isMoving}
+                        title="W górę"
+                        className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      >
+                        <ChevronUp className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => moveMutation.mutate({ id: entry.id, direction: 'down' })}
+                        disabled={index === waitlist.entries.length - 1 || isMoving}
+                        title="W dół"
+                        className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      >
+                        <ChevronDown className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleRemove(entry)}
+                        disabled={isMoving}
+                        title="Usuń z listy"
+                        className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-30"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {waitlist && waitlist.history.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Historia</h3>
+                <ul className="text-sm text-gray-600 space-y-1 max-h-40 overflow-y-auto">
+                  {waitlist.history.map((entry) => (
+                    <li key={entry.id} className="flex justify-between gap-4">
+                      <span>{entry.name}</span>
+                      <span className="text-gray-500">
+                        {WAITLIST_STATUS_LABELS[entry.status]} · {format(new Date(entry.updatedAt), 'd.MM.yyyy HH:mm')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-between items-center gap-3 p-6 border-t border-gray-200">
+            <span className="text-xs text-gray-500">
+              Po zwolnieniu miejsca pierwsza osoba dostaje e-mail z ofertą ważną 48 godzin
+            </span>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Zamknij
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CourseWaitlistModal;
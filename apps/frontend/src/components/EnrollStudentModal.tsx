@@ -4,7 +4,9 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import { courseService, Course } from '../services/courseService';
 import { studentService } from '../services/studentService';
-import { X, UserPlus, UserMinus } from 'lucide-react';
+import waitlistService from '../services/waitlistService';
+import { getErrorMessage } from '../lib/errorUtils';
+import { X, UserPlus, UserMinus, ListPlus } from 'lucide-react';
 
 interface EnrollStudentModalProps {
   course: Course;
@@ -61,6 +63,23 @@ const EnrollStudentModal: React.FC<EnrollStudentModalProps> = ({ course, onClose
     },
   });
 
+  // Full course - queue the student instead
+  const waitlistMutation = useMutation({
+    mutationFn: (studentId: string) => waitlistService.addToWaitlist({ courseId: course.id, studentId }),
+    onSuccess: (entry) => {
+      toast.success(`Uczeń został dodany do listy oczekujących (pozycja ${entry.position})`);
+      queryClient.invalidateQueries({ queryKey: ['courses'] });
+      queryClient.invalidateQueries({ queryKey: ['course-waitlist', course.id] });
+      setSelectedStudentId('');
+      setError('');
+    },
+    onError: (error: any) => {
+      const errorMessage = getErrorMessage(error, 'Nie udało się dodać ucznia do listy oczekujących');
+      toast.error(errorMessage);
+      setError(errorMessage);
+    },
+  });
+
   // Unenroll mutation
   const unenrollMutation = useMutation({
     mutationFn: (enrollmentId: string) => courseService.unenrollStudent(enrollmentId),
@@ -68,6 +87,7 @@ const EnrollStudentModal: React.FC<EnrollStudentModalProps> = ({ course, onClose
       toast.success('Uczeń został pomyślnie wypisany z kursu');
       queryClient.invalidateQueries({ queryKey: ['courses'] });
       queryClient.invalidateQueries({ queryKey: ['course', course.id] });
+      queryClient.invalidateQueries({ queryKey: ['course-waitlist', course.id] });
     },
     onError: (error: any) => {
       const errorMessage = error.response?.data?.error?.message || 'Wystąpił błąd podczas wypisywania ucznia';
@@ -161,13 +181,11 @@ const EnrollStudentModal: React.FC<EnrollStudentModalProps> = ({ course, onClose
               <select
                 value={selectedStudentId}
                 onChange={(e) => setSelectedStudentId(e.target.value)}
-                disabled={isFull || availableStudents.length === 0}
+                disabled={availableStudents.length === 0}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary disabled:bg-gray-100"
               >
                 <option value="">
-                  {isFull
-                    ? 'Kurs pełny'
-                    : availableStudents.length === 0
+                  {availableStudents.length === 0
                     ? 'Brak dostępnych uczniów'
                     : 'Wybierz ucznia'}
                 </option>
@@ -179,70 +197,88 @@ const EnrollStudentModal: React.FC<EnrollStudentModalProps> = ({ course, onClose
               </select>
             </div>
 
-            {/* Payment mode selection */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Tryb płatności</label>
-              <select
-                value={paymentMode}
-                onChange={(e) => setPaymentMode(e.target.value as 'PACKAGE' | 'PER_LESSON')}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-              >
-                <option value="PACKAGE">Pakiet godzin (uczeń kupuje godziny z góry)</option>
-                <option value="PER_LESSON">Płatność za lekcję (każda lekcja wymaga osobnej płatności)</option>
-              </select>
-            </div>
-
-            {/* Hours purchased - only for PACKAGE mode */}
-            {paymentMode === 'PACKAGE' && (
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Liczba zakupionych godzin
-                </label>
-                <input
-                  type="number"
-                  min="0"
-                  step="0.5"
-                  value={hoursPurchased}
-                  onChange={(e) => setHoursPurchased(parseFloat(e.target.value) || 0)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-                  placeholder="np. 10"
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Liczba godzin, które uczeń zakupił w ramach pakietu
+            {isFull ? (
+              <>
+                <p className="text-sm text-gray-600">
+                  Kurs jest pełny. Uczeń trafi na koniec listy oczekujących i dostanie e-mail z ofertą, gdy zwolni się miejsce.
                 </p>
-              </div>
-            )}
+                <button
+                  onClick={() => selectedStudentId && waitlistMutation.mutate(selectedStudentId)}
+                  disabled={!selectedStudentId || waitlistMutation.isPending}
+                  className="w-full px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  <ListPlus className="h-5 w-5" />
+                  {waitlistMutation.isPending ? 'Dodawanie...' : 'Dodaj do listy oczekujących'}
+                </button>
+              </>
+            ) : (
+              <>
+                {/* Payment mode selection */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Tryb płatności</label>
+                  <select
+                    value={paymentMode}
+                    onChange={(e) => setPaymentMode(e.target.value as 'PACKAGE' | 'PER_LESSON')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="PACKAGE">Pakiet godzin (uczeń kupuje godziny z góry)</option>
+                    <option value="PER_LESSON">Płatność za lekcję (każda lekcja wymaga osobnej płatności)</option>
+                  </select>
+                </div>
 
-            {/* Info box about payment mode */}
-            <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
-              {paymentMode === 'PACKAGE' ? (
-                <>
-                  <p className="font-medium text-gray-900 mb-1">Tryb pakietowy:</p>
-                  <p className="text-gray-600">
-                    Przy oznaczaniu lekcji jako zakończonej system sprawdzi, czy uczeń ma wystarczającą liczbę godzin.
-                    Godziny będą automatycznie odliczane z pakietu.
-                  </p>
-                </>
-              ) : (
-                <>
-                  <p className="font-medium text-gray-900 mb-1">Płatność za lekcję:</p>
-                  <p className="text-gray-600">
-                    Przy oznaczaniu lekcji jako zakończonej system utworzy oczekującą płatność za tę lekcję.
-                    Uczeń będzie widoczny w zakładce "Dłużnicy" do czasu opłacenia.
-                  </p>
-                </>
-              )}
-            </div>
+                {/* Hours purchased - only for PACKAGE mode */}
+                {paymentMode === 'PACKAGE' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Liczba zakupionych godzin
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={hoursPurchased}
+                      onChange={(e) => setHoursPurchased(parseFloat(e.target.value) || 0)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                      placeholder="np. 10"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Liczba godzin, które uczeń zakupił w ramach pakietu
+                    </p>
+                  </div>
+                )}
+
+                {/* Info box about payment mode */}
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+                  {paymentMode === 'PACKAGE' ? (
+                    <>
+                      <p className="font-medium text-gray-900 mb-1">Tryb pakietowy:</p>
+                      <p className="text-gray-600">
+                        Przy oznaczaniu lekcji jako zakończonej system sprawdzi, czy uczeń ma wystarczającą liczbę godzin.
+                        Godziny będą automatycznie odliczane z pakietu.
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <p className="font-medium text-gray-900 mb-1">Płatność za lekcję:</p>
+                      <p className="text-gray-600">
+                        Przy oznaczaniu lekcji jako zakończonej system utworzy oczekującą płatność za tę lekcję.
+                        Uczeń będzie widoczny w zakładce "Dłużnicy" do czasu opłacenia.
+                      </p>
+                    </>
+                  )}
+                </div>
 
-            {/* Submit button */}
-            <button
-              onClick={handleEnroll}
-              disabled={!selectedStudentId || enrollMutation.isPending || isFull}
-              className="w-full px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-            >
-              <UserPlus className="h-5 w-5" />
-              {enrollMutation.isPending ? 'Zapisywanie...' : 'Zapisz ucznia na kurs'}
-            </button>
+                {/* Submit button */}
+                <button
+                  onClick={handleEnroll}
+                  disabled={!selectedStudentId || enrollMutation.isPending || isFull}
+                  className="w-full px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  <UserPlus className="h-5 w-5" />
+                  {enrollMutation.isPending ? 'Zapisywanie...' : 'Zapisz ucznia na kurs'}
+                </button>
+              </>
+            )}
           </div>
 
           {/* Enrolled students list */}
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import invoiceService, { InvoicingSettings, InvoiceSeriesData } from '../services/invoiceService';
+import { FileText, Save, Plus, Trash2 } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+const DEFAULT_SETTINGS: InvoicingSettings = {
+  autoIssueOnPayment: false,
+  taxRate: null,
+  paymentTermDays: 14,
+  defaultDescription: 'Usługa nauki języka obcego',
+  notes: '',
+};
+
+const EMPTY_SERIES: InvoiceSeriesData = {
+  name: '',
+  type: 'INVOICE',
+  pattern: 'FV/{YYYY}/{MM}/{seq}',
+  resetPeriod: 'MONTHLY',
+  isDefault: false,
+};
+
+const resetPeriodLabels: Record<string, string> = {
+  MONTHLY: 'Co miesiąc',
+  YEARLY: 'Co rok',
+  NEVER: 'Nigdy',
+};
+
+export default function InvoiceSettingsSection() {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<InvoicingSettings>(DEFAULT_SETTINGS);
+  const [newSeries, setNewSeries] = useState<InvoiceSeriesData>(EMPTY_SERIES);
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['invoicing-settings'],
+    queryFn: () => invoiceService.getSettings(),
+  });
+
+  const { data: series = [] } = useQuery({
+    queryKey: ['invoice-series'],
+    queryFn: () => invoiceService.getSeries(),
+  });
+
+  React.useEffect(() => {
+    if (settings) {
+      setFormData({ ...DEFAULT_SETTINGS, ...settings });
+    }
+  }, [settings]);
+
+  const updateMutation = useMutation({
+    mutationFn: (data: InvoicingSettings) => invoiceService.updateSettings(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoicing-settings'] });
+      toast.success('Ustawienia faktur zostały zapisane');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Błąd podczas zapisywania ustawień');
+    },
+  });
+
+  const createSeriesMutation = useMutation({
+    mutationFn: (data: InvoiceSeriesData) => invoiceService.createSeries(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoice-series'] });
+      setNewSeries(EMPTY_SERIES);
+      toast.success('Seria numeracji została utworzona');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Nie udało się utworzyć serii');
+    },
+  });
+
+  const updateSeriesMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<InvoiceSeriesData> }) =>
+      invoiceService.updateSeries(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoice-series'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Nie udało się zaktualizować serii');
+    },
+  });
+
+  const deleteSeriesMutation = useMutation({
+    mutationFn: (id: string) => invoiceService.deleteSeries(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoice-series'] });
+      toast.success('Seria numeracji została usunięta');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Nie udało się usunąć serii');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateMutation.mutate(formData);
+  };
+
+  const handleAddSeries = () => {
+    if (!newSeries.name.trim() || !newSeries.pattern.includes('{seq')) {
+      toast.error('Podaj nazwę serii i wzorzec zawierający {seq}');
+      return;
+    }
+    createSeriesMutation.mutate(newSeries);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-3">
+        <FileText className="w-5 h-5 text-gray-500" />
+        <h3 className="text-base font-semibold text-gray-900">Faktury</h3>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Auto-issue toggle */}
+        <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <div>
+            <p className="text-sm font-medium text-gray-700">Wystawiaj fakturę automatycznie</p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Faktura jest wystawiana po oznaczeniu wpłaty jako opłaconej i dołączana do potwierdzenia e-mail
+            </p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer ml-4 flex-shrink-0">
+            <input
+              type="checkbox"
+              checked={formData.autoIssueOnPayment}
+              onChange={(e) => setFormData((prev) => ({ ...prev, autoIssueOnPayment: e.target.checked }))}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Stawka VAT</label>
+            <select
+              value={formData.taxRate === null ? 'zw' : String(formData.taxRate)}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, taxRate: e.target.value === 'zw' ? null : Number(e.target.value) }))
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="zw">zw. (zwolniona)</option>
+              <option value="23">23%</option>
+              <option value="8">8%</option>
+              <option value="5">5%</option>
+              <option value="0">0%</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Termin płatności (dni)</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={formData.paymentTermDays}
+              onChange={(e) => setFormData((prev) => ({ ...prev, paymentTermDays: parseInt(e.target.value) || 0 }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Domyślna nazwa usługi</label>
+            <input
+              type="text"
+              value={formData.defaultDescription}
+              onChange={(e) => setFormData((prev) => ({ ...prev, defaultDescription: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Uwagi na fakturze</label>
+            <input
+              type="text"
+              value={formData.notes}
+              onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              placeholder="np. numer konta bankowego"
+            />
+          </div>
+        </div>
+
+        {/* Numbering series */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Serie numeracji</h4>
+          <p className="text-xs text-gray-500 mb-3">
+            Dostępne znaczniki: {'{YYYY}'}, {'{YY}'}, {'{MM}'}, {'{DD}'}, {'{seq}'} (np. {'{seq:4}'} = 0001)
+          </p>
+
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {series.length === 0 && (
+              <p className="px-4 py-3 text-sm text-gray-500">
+                Brak serii - przy pierwszej fakturze zostanie utworzona seria FV/{'{YYYY}'}/{'{MM}'}/{'{seq}'}
+              </p>
+            )}
+            {series.map((s) => (
+              <div key={s.id} className="px-4 py-3 flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {s.name}
+                    {s.isDefault && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-700">Domyślna</span>}
+                    {!s.isActive && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">Nieaktywna</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {s.type === 'CORRECTION' ? 'Korekty' : 'Faktury'} · {s.pattern} · reset: {resetPeriodLabels[s.resetPeriod]}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 text-sm">
+                  {!s.isDefault && s.isActive && (
+                    <button
+                      type="button"
+                      onClick={() => updateSeriesMutation.mutate({ id: s.id, data: { isDefault: true } })}
+                      className="text-secondary hover:text-secondary-dark"
+                    >
+                      Ustaw domyślną
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => updateSeriesMutation.mutate({ id: s.id, data: { isActive: !s.isActive } })}
+                    className="text-gray-600 hover:text-gray-800"
+                  >
+                    {s.isActive ? 'Dezaktywuj' : 'Aktywuj'}
+                  </button>
+                  {(s._count?.invoices ?? 0) === 0 && (
+                    <button
+                      type="button"
+                      onClick={() => deleteSeriesMutation.mutate(s.id)}
+                      className="text-red-600 hover:text-red-700"
+                      title="Usuń serię"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-3 grid grid-cols-1 md:grid-cols-5 gap-2">
+            <input
+              type="text"
+              value={newSeries.name}
+              onChange={(e) => setNewSeries((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="Nazwa serii"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <select
+              value={newSeries.type}
+              onChange={(e) => setNewSeries((prev) => ({
+                ...prev,
+                type: e.target.value as InvoiceSeriesData['type'],
+                pattern: e.target.value === 'CORRECTION' ? 'KOR/{YYYY}/{MM}/{seq}' : 'FV/{YYYY}/{MM}/{seq}',
+              }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="INVOICE">Faktury</option>
+              <option value="CORRECTION">Korekty</option>
+            </select>
+            <input
+              type="text"
+              value={newSeries.pattern}
+              onChange={(e) => setNewSeries((prev) => ({ ...prev, pattern: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <select
+              value={newSeries.resetPeriod}
+              onChange={(e) => setNewSeries((prev) => ({ ...prev, resetPeriod: e.target.value as InvoiceSeriesData['resetPeriod'] }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {Object.entries(resetPeriodLabels).map(([value, label]) => (
+                <option key={value} value={value}>Reset: {label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleAddSeries}
+              disabled={createSeriesMutation.isPending}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors border border-gray-300 text-sm disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              Dodaj serię
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={updateMutation.isPending}
+            className="flex items-center gap-2 px-6 py-2.5 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            {updateMutation.isPending ? 'Zapisywanie...' : 'Zapisz ustawienia faktur'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
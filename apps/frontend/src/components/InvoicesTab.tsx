@@ -0,0 +1,336 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import invoiceService, { Invoice } from '../services/invoiceService';
+import { Download, FileMinus, Ban, X } from 'lucide-react';
+import FilterBar from './FilterBar';
+import Pagination from './Pagination';
+import LoadingSpinner from './LoadingSpinner';
+
+type DialogState =
+  | { kind: 'correct'; invoice: Invoice }
+  | { kind: 'void'; invoice: Invoice }
+  | null;
+
+export default function InvoicesTab() {
+  const queryClient = useQueryClient();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterValues, setFilterValues] = useState<Record<string, string>>({});
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [correctedAmount, setCorrectedAmount] = useState('');
+  const [reason, setReason] = useState('');
+
+  const { data: invoicesResult, isLoading } = useQuery({
+    queryKey: ['invoices', searchTerm, filterValues, page, pageSize],
+    queryFn: () => invoiceService.getInvoices({
+      search: searchTerm || undefined,
+      status: filterValues['status'] as any || undefined,
+      type: filterValues['type'] as any || undefined,
+      dateFrom: filterValues['dateFrom'] || undefined,
+      dateTo: filterValues['dateTo'] || undefined,
+      page,
+      pageSize,
+    }),
+  });
+
+  const invoices = invoicesResult?.data ?? [];
+  const pagination = invoicesResult?.pagination;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['invoices'] });
+    queryClient.invalidateQueries({ queryKey: ['payments'] });
+  };
+
+  const closeDialog = () => {
+    setDialog(null);
+    setCorrectedAmount('');
+    setReason('');
+  };
+
+  const correctMutation = useMutation({
+    mutationFn: ({ id, amount, reason }: { id: string; amount: number; reason: string }) =>
+      invoiceService.correctInvoice(id, { correctedTotalAmount: amount, reason }),
+    onSuccess: (correction) => {
+      invalidate();
+      closeDialog();
+      toast.success(`Wystawiono fakturę korygującą ${correction.invoiceNumber}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Nie udało się wystawić korekty');
+    },
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => invoiceService.voidInvoice(id, reason),
+    onSuccess: () => {
+      invalidate();
+      closeDialog();
+      toast.success('Faktura została anulowana');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Nie udało się anulować faktury');
+    },
+  });
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      await invoiceService.downloadInvoice(invoice);
+    } catch {
+      toast.error('Nie udało się pobrać faktury');
+    }
+  };
+
+  // Current total = original amount + non-voided corrections
+  const getCurrentTotal = (invoice: Invoice) =>
+    Number(invoice.totalAmount) +
+    (invoice.corrections ?? [])
+      .filter((c) => c.status !== 'VOIDED')
+      .reduce((sum, c) => sum + Number(c.totalAmount), 0);
+
+  const openCorrect = (invoice: Invoice) => {
+    setCorrectedAmount(getCurrentTotal(invoice).toFixed(2));
+    setReason('');
+    setDialog({ kind: 'correct', invoice });
+  };
+
+  const handleConfirmDialog = () => {
+    if (!dialog) return;
+    if (!reason.trim()) {
+      toast.error(dialog.kind === 'correct' ? 'Podaj przyczynę korekty' : 'Podaj powód anulowania');
+      return;
+    }
+
+    if (dialog.kind === 'correct') {
+      const amount = parseFloat(correctedAmount.replace(',', '.'));
+      if (isNaN(amount) || amount < 0) {
+        toast.error('Podaj prawidłową kwotę po korekcie');
+        return;
+      }
+      correctMutation.mutate({ id: dialog.invoice.id, amount, reason: reason.trim() });
+    } else {
+      voidMutation.mutate({ id: dialog.invoice.id, reason: reason.trim() });
+    }
+  };
+
+  const getStatusBadge = (invoice: Invoice) => {
+    if (invoice.status === 'VOIDED') {
+      return <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-600">Anulowana</span>;
+    }
+    if (invoice.corrections?.some((c) => c.status !== 'VOIDED')) {
+      return <span className="px-2 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-800">Skorygowana</span>;
+    }
+    return <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">Wystawiona</span>;
+  };
+
+  const isPending = correctMutation.isPending || voidMutation.isPending;
+
+  return (
+    <>
+      <FilterBar
+        searchValue={searchTerm}
+        onSearchChange={(v) => { setSearchTerm(v); setPage(1); }}
+        searchPlaceholder="Szukaj po numerze lub nabywcy..."
+        filters={[
+          { key: 'type', label: 'Typ', type: 'select', options: [
+            { value: 'INVOICE', label: 'Faktura' },
+            { value: 'CORRECTION', label: 'Korekta' },
+          ]},
+          { key: 'status', label: 'Status', type: 'select', options: [
+            { value: 'ISSUED', label: 'Wystawiona' },
+            { value: 'VOIDED', label: 'Anulowana' },
+          ]},
+          { key: 'dateFrom', label: 'Od daty', type: 'date' },
+          { key: 'dateTo', label: 'Do daty', type: 'date' },
+        ]}
+        filterValues={filterValues}
+        onFilterChange={(key, value) => {
+          setPage(1);
+          setFilterValues((prev) => ({ ...prev, [key]: value }));
+        }}
+        onClearAll={() => {
+          setSearchTerm(''); setFilterValues({}); setPage(1);
+        }}
+        filterCols={4}
+      />
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Numer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nabywca</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Data wystawienia</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kwota brutto</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Akcje</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6}>
+                    <LoadingSpinner message="Ładowanie faktur..." />
+                  </td>
+                </tr>
+              ) : invoices.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                    Brak faktur do wyświetlenia
+                  </td>
+                </tr>
+              ) : (
+                invoices.map((invoice) => (
+                  <tr key={invoice.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{invoice.invoiceNumber}</div>
+                      {invoice.type === 'CORRECTION' && (
+                        <div className="text-xs text-gray-500">
+                          Korekta do {invoice.correctedInvoice?.invoiceNumber ?? '-'}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{invoice.buyerName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {new Date(invoice.issueDate).toLocaleDateString('pl-PL')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
+                      {Number(invoice.totalAmount).toFixed(2)} {invoice.currency}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">{getStatusBadge(invoice)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handleDownload(invoice)}
+                          className="text-secondary hover:text-secondary-dark"
+                          title="Pobierz PDF"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                        {invoice.type === 'INVOICE' && invoice.status === 'ISSUED' && (
+                          <button
+                            onClick={() => openCorrect(invoice)}
+                            className="text-amber-600 hover:text-amber-700"
+                            title="Wystaw korektę"
+                          >
+                            <FileMinus className="w-4 h-4" />
+                          </button>
+                        )}
+                        {invoice.status === 'ISSUED' && (
+                          <button
+                            onClick={() => { setReason(''); setDialog({ kind: 'void', invoice }); }}
+                            className="text-red-600 hover:text-red-700"
+                            title="Anuluj fakturę"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+        {pagination && pagination.totalPages > 1 && (
+          <Pagination
+            page={pagination.page}
+            totalPages={pagination.totalPages}
+            pageSize={pagination.pageSize}
+            total={pagination.total}
+            onPageChange={(p) => setPage(p)}
+            onPageSizeChange={(ps) => { setPageSize(ps); setPage(1); }}
+            isLoading={isLoading}
+          />
+        )}
+      </div>
+
+      {/* Correct / Void Dialog */}
+      {dialog && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <div className="fixed inset-0 bg-black/50" onClick={closeDialog} />
+
+            <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full">
+              <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                <h2 className="text-xl font-bold text-gray-900">
+                  {dialog.kind === 'correct' ? 'Wystaw fakturę korygującą' : 'Anuluj fakturę'}
+                </h2>
+                <button onClick={closeDialog} className="text-gray-400 hover:text-gray-600 transition-colors">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="font-medium text-gray-900">{dialog.invoice.invoiceNumber}</p>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {dialog.invoice.buyerName} · {getCurrentTotal(dialog.invoice).toFixed(2)} {dialog.invoice.currency}
+                  </p>
+                </div>
+
+                {dialog.kind === 'correct' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Kwota brutto po korekcie ({dialog.invoice.currency})
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={correctedAmount}
+                      onChange={(e) => setCorrectedAmount(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      Wpisz 0, aby skorygować fakturę do zera (np. przy zwrocie wpłaty)
+                    </p>
+                  </div>
+                )}
+
+                {dialog.kind === 'void' && (
+                  <p className="text-sm text-gray-600">
+                    Anulowana faktura pozostaje w rejestrze, a dla płatności będzie można wystawić nową fakturę.
+                  </p>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {dialog.kind === 'correct' ? 'Przyczyna korekty' : 'Powód anulowania'}
+                  </label>
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+                <button
+                  onClick={closeDialog}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Anuluj
+                </button>
+                <button
+                  onClick={handleConfirmDialog}
+                  disabled={isPending}
+                  className={`px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 ${
+                    dialog.kind === 'correct' ? 'bg-primary hover:bg-primary/90' : 'bg-red-600 hover:bg-red-700'
+                  }`}
+                >
+                  {isPending ? 'Zapisywanie...' : dialog.kind === 'correct' ? 'Wystaw korektę' : 'Anuluj fakturę'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
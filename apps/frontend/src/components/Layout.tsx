@@ -7,6 +7,7 @@ import { useSidebarStore } from '../stores/sidebarStore';
 import OrganizationSwitcher from './OrganizationSwitcher';
 import alertService from '../services/alertService';
 import userProfileService from '../services/userProfileService';
+import { authService } from '../services/authService';
 import {
   Home,
   Users,
@@ -26,10 +27,13 @@ import {
   Mail,
   UserCog,
   ClipboardList,
+  ClipboardCheck,
   Building2,
   GripVertical,
   RotateCcw,
   Check,
+  MonitorSmartphone,
+  Wallet,
 } from 'lucide-react';
 
 interface NavItem {
@@ -61,6 +65,7 @@ function getDefaultNavItems(role: string | undefined): NavItem[] {
         { name: 'Grafik', href: '/lessons', icon: Clock },
         { name: 'Sale', href: '/classrooms', icon: Building2 },
         { name: 'Zgłoszenia', href: '/applications', icon: ClipboardList },
+        { name: 'Testy poziomujące', href: '/placement-tests', icon: ClipboardCheck },
         { name: 'Rozliczenia', href: '/payments', icon: CreditCard },
         { name: 'Dłużnicy', href: '/debtors', icon: AlertCircle },
         { name: 'Mailing', href: '/mailing', icon: Mail },
@@ -72,6 +77,7 @@ function getDefaultNavItems(role: string | undefined): NavItem[] {
         { name: 'Alerty', href: '/alerts', icon: Bell },
         { name: 'Mój grafik', href: '/teacher/schedule', icon: Calendar },
         { name: 'Moje lekcje', href: '/lessons', icon: BookOpen },
+        { name: 'Moje zarobki', href: '/teacher/earnings', icon: Wallet },
         { name: 'Uczniowie', href: '/students', icon: Users },
       ];
     case 'STUDENT':
@@ -83,12 +89,15 @@ function getDefaultNavItems(role: string | undefined): NavItem[] {
         { name: 'Grafik', href: '/calendar', icon: Calendar },
         { name: 'Wpłaty', href: '/payments?tab=payments', icon: CreditCard },
       ];
-    case 'PARENT':
+    case 'METHODOLOGIST':
       return [
         ...commonItems,
-        { name: 'Dzieci', href: '/students', icon: Users },
-        { name: 'Grafik', href: '/lessons', icon: Clock },
-        { name: 'Wpłaty', href: '/payments?tab=payments', icon: CreditCard },
+        { name: 'Testy poziomujące', href: '/placement-tests', icon: ClipboardCheck },
+      ];
+    case 'PARENT':
+      // Children's lessons, balance and payments are all on the parent dashboard
+      return [
+        { name: 'Moje dzieci', href: '/dashboard', icon: Users },
       ];
     default:
       return commonItems;
@@ -126,6 +135,16 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const location = useLocation();
   const queryClient = useQueryClient();
 
+  const handleLogout = async () => {
+    try {
+      // End the session server-side so the refresh token can't be reused
+      await authService.logout();
+    } catch {
+      // Session may already be gone - log out locally anyway
+    }
+    logout();
+  };
+
   // Fetch unread alerts count (with auto-generation for admin/manager)
   const { data: unreadCount } = useQuery({
     queryKey: ['unreadCount'],
@@ -510,8 +529,16 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                 </p>
               </div>
 
+              <Link
+                to="/settings/sessions"
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Aktywne sesje"
+              >
+                <MonitorSmartphone className="h-5 w-5" />
+              </Link>
+
               <button
-                onClick={() => { logout(); }}
+                onClick={handleLogout}
                 className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
                 title="Wyloguj"
               >
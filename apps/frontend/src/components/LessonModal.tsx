@@ -13,6 +13,7 @@ import AttendanceSection from './AttendanceSection';
 import { handleApiError } from '../lib/errorUtils';
 import CancelLessonDialog from './CancelLessonDialog';
 import { getHolidayName } from '../utils/polish-holidays';
+import { useAuthStore } from '../stores/authStore';
 
 interface LessonModalProps {
   lesson: Lesson | null;
@@ -28,6 +29,7 @@ type EditTabType = 'basic' | 'schedule' | 'participants' | 'attendance';
 
 const LessonModal: React.FC<LessonModalProps> = ({ lesson, initialDate, initialDuration, initialCourseId, onClose, onSuccess }) => {
   const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
   const isEdit = !!lesson;
   const [activeTab, setActiveTab] = useState<CreateTabType | EditTabType>('basic');
 
@@ -79,6 +81,13 @@ const LessonModal: React.FC<LessonModalProps> = ({ lesson, initialDate, initialD
     enabled: !!lesson,
   });
 
+  // Ranked substitute candidates (language/level match, no clash, location, history with the student)
+  const { data: substituteCandidates = [], isLoading: isLoadingCandidates } = useQuery({
+    queryKey: ['substitute-candidates', lesson?.id],
+    queryFn: () => substitutionService.getCandidates(lesson!.id),
+    enabled: !!lesson && isSubstitution && (user?.role === 'ADMIN' || user?.role === 'MANAGER'),
+  });
+
   // Load substitution data if exists
   useEffect(() => {
     if (existingSubstitution) {
@@ -121,6 +130,24 @@ const LessonModal: React.FC<LessonModalProps> = ({ lesson, initialDate, initialD
     enabled: formData.deliveryMode === 'IN_PERSON',
   });
 
+  // Warn when the lesson falls outside the teacher's working hours or during vacation
+  const scheduledAtIso = formData.scheduledAt && !isNaN(new Date(formData.scheduledAt).getTime())
+    ? new Date(formData.scheduledAt).toISOString()
+    : '';
+  const { data: availabilityCheck } = useQuery({
+    queryKey: ['lesson-availability', formData.teacherId, scheduledAtIso, formData.durationMinutes, lesson?.id],
+    queryFn: () => lessonService.checkConflicts(
+      formData.teacherId,
+      null,
+      scheduledAtIso,
+      Number(formData.durationMinutes),
+      isEdit ? lesson?.id : undefined
+    ),
+    enabled: !!formData.teacherId && !!scheduledAtIso && Number(formData.durationMinutes) > 0,
+    staleTime: 30 * 1000,
+  });
+  const availabilityWarnings = availabilityCheck?.availabilityWarnings ?? [];
+
   // When course is selected, auto-populate students from that course
   useEffect(() => {
     if (formData.courseId && !isEdit) {
@@ -165,17 +192,31 @@ const LessonModal: React.FC<LessonModalProps> = ({ lesson, initialDate, initialD
     }
   }, [formData.teacherId, formData.durationMinutes, formData.courseId, teachers, courses, isEdit, priceWasManuallySet]);
 
+  // GROUP course: one shared lesson for all selected students instead of a lesson per student
+  const lessonCourse = courses.find(c => c.id === formData.courseId);
+  const isGroupCourse = lessonCourse?.courseType === 'GROUP';
+
+  const getEnrollmentId = (studentId: string) => {
+    const enrollment = lessonCourse?.enrollments?.find(
+      e => e.studentId === studentId && e.status === 'ACTIVE'
+    );
+    return enrollment?.id || '';
+  };
+
   const createMutation = useMutation({
     mutationFn: async (data: { lessonData: CreateLessonData; studentIds: string[] }) => {
+      if (isGroupCourse) {
+        const lesson = await lessonService.createLesson({
+          ...data.lessonData,
+          studentId: data.studentIds[0],
+          enrollmentId: getEnrollmentId(data.studentIds[0]),
+          participantStudentIds: data.studentIds,
+        });
+        return [lesson];
+      }
+
       const promises = data.studentIds.map(studentId => {
-        let enrollmentId = '';
-        if (formData.courseId) {
-          const course = courses.find(c => c.id === formData.courseId);
-          const enrollment = course?.enrollments?.find(
-            e => e.studentId === studentId && e.status === 'ACTIVE'
-          );
-          enrollmentId = enrollment?.id || '';
-        }
+        const enrollmentId = getEnrollmentId(studentId);
 
         return lessonService.createLesson({
           ...data.lessonData,
@@ -187,7 +228,9 @@ const LessonModal: React.FC<LessonModalProps> = ({ lesson, initialDate, initialD
       return Promise.all(promises);
     },
     onSuccess: (results) => {
-      toast.success(`Utworzono ${results.length} ${results.length === 1 ? 'lekcję' : 'lekcji'}`);
+      toast.success(isGroupCourse
+        ? 'Utworzono lekcję grupową'
+        : `Utworzono ${results.length} ${results.length === 1 ? 'lekcję' : 'lekcji'}`);
       onSuccess();
     },
     onError: (error: any) => {
@@ -203,21 +246,17 @@ const LessonModal: React.FC<LessonModalProps> = ({ lesson, initialDate, initialD
       pattern: any;
       studentIds: string[];
     }) => {
-      const promises = data.studentIds.map(studentId => {
-        let enrollmentId = '';
-        if (formData.courseId) {
-          const course = courses.find(c => c.id === formData.courseId);
-          const enrollment = course?.enrollments?.find(
-            e => e.studentId === studentId && e.status === 'ACTIVE'
-          );
-          enrollmentId = enrollment?.id || '';
-        }
+      // Group lessons are created once with all participants
+      const studentGroups = isGroupCourse ? [data.studentIds] : data.studentIds.map(studentId => [studentId]);
+      const promises = studentGroups.map(([studentId]) => {
+        const enrollmentId = getEnrollmentId(studentId);
 
         return lessonService.createRecurringLessons(
           {
             ...data.lessonData,
             studentId,
             enrollmentId,
+            ...(isGroupCourse && { participantStudentIds: data.studentIds }),
           },
           data.pattern
         );
@@ -844,6 +883,23 @@ const LessonModal: React.FC<LessonModalProps> = ({ lesson, initialDate, initialD
                     </div>
                   </div>
 
+                  {availabilityWarnings.length > 0 && (
+                    <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                      <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5 flex-shrink-0" />
+                      <div className="text-sm text-amber-700">
+                        <p className="font-medium">Termin poza dostępnością lektora</p>
+                        <ul className="mt-1 space-y-0.5">
+                          {availabilityWarnings.map((warning) => (
+                            <li key={warning}>{warning}</li>
+                          ))}
+                        </ul>
+                        {!isEdit && isRecurring && (
+                          <p className="mt-1 text-xs">Terminy serii poza dostępnością lektora zostaną pominięte.</p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Recurring Lessons - only show for new lessons */}
                   {!isEdit && (
                     <div className="pt-4 border-t border-gray-200">
@@ -980,6 +1036,51 @@ const LessonModal: React.FC<LessonModalProps> = ({ lesson, initialDate, initialD
                             </select>
                           </div>
 
+                          {isLoadingCandidates ? (
+                            <div className="flex items-center gap-2 text-xs text-amber-700">
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                              Wyszukiwanie najlepszych zastępców...
+                            </div>
+                          ) : substituteCandidates.length > 0 && (
+                            <div>
+                              <p className="text-xs font-medium text-amber-800 mb-1">Proponowani zastępcy</p>
+                              <div className="space-y-1">
+                                {substituteCandidates.slice(0, 5).map((candidate) => (
+                                  <button
+                                    key={candidate.teacher.id}
+                                    type="button"
+                                    onClick={() => setSubstituteTeacherId(candidate.teacher.id)}
+                                    disabled={candidate.hasConflict}
+                                    className={`w-full text-left px-3 py-2 rounded-lg border text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                      substituteTeacherId === candidate.teacher.id
+                                        ? 'border-amber-500 bg-amber-100'
+                                        : 'border-amber-200 bg-white hover:bg-amber-50'
+                                    }`}
+                                  >
+                                    <div className="flex items-center justify-between">
+                                      <span className="font-medium text-gray-900">
+                                        {candidate.teacher.firstName} {candidate.teacher.lastName}
+                                      </span>
+                                      <span className="text-gray-500">{candidate.score} pkt</span>
+                                    </div>
+                                    {candidate.hasConflict ? (
+                                      <p className="text-red-600 mt-0.5">Zajęty: {candidate.conflicts.join(', ')}</p>
+                                    ) : (
+                                      <>
+                                        {candidate.reasons.length > 0 && (
+                                          <p className="text-gray-600 mt-0.5">{candidate.reasons.join(' · ')}</p>
+                                        )}
+                                        {candidate.availabilityWarnings.map((warning) => (
+                                          <p key={warning} className="text-amber-700 mt-0.5">{warning}</p>
+                                        ))}
+                                      </>
+                                    )}
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+
                           <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
                               Powód zastępstwa
@@ -1031,6 +1132,7 @@ const LessonModal: React.FC<LessonModalProps> = ({ lesson, initialDate, initialD
                       </select>
                       <p className="mt-1 text-xs text-gray-500">
                         Wybranie kursu automatycznie załaduje uczniów zapisanych na ten kurs
+                        {isGroupCourse && ' — dla kursu grupowego zostanie utworzona jedna wspólna lekcja'}
                       </p>
                     </div>
                   )}
@@ -1043,11 +1145,28 @@ const LessonModal: React.FC<LessonModalProps> = ({ lesson, initialDate, initialD
 
                     {isEdit ? (
                       <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
-                        <p className="text-sm text-gray-700">
-                          {lesson?.student?.user.firstName} {lesson?.student?.user.lastName}
-                        </p>
+                        {lesson?.isGroupLesson && lesson.participants?.length ? (
+                          <>
+                            <p className="text-xs font-medium text-gray-500 mb-1">
+                              Lekcja grupowa ({lesson.participants.length} os.)
+                            </p>
+                            <ul className="space-y-0.5">
+                              {lesson.participants.map((participant) => (
+                                <li key={participant.id} className="text-sm text-gray-700">
+                                  {participant.student.user.firstName} {participant.student.user.lastName}
+                                </li>
+                              ))}
+                            </ul>
+                          </>
+                        ) : (
+                          <p className="text-sm text-gray-700">
+                            {lesson?.student?.user.firstName} {lesson?.student?.user.lastName}
+                          </p>
+                        )}
                         <p className="text-xs text-gray-500 mt-1">
-                          W trybie edycji nie można zmienić ucznia
+                          {lesson?.isGroupLesson
+                            ? 'Uczestnicy są zarządzani przez zapisy na kurs'
+                            : 'W trybie edycji nie można zmienić ucznia'}
                         </p>
                       </div>
                     ) : (
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X } from 'lucide-react';
+import courseApplicationService, {
+  APPLICATION_SOURCE_LABELS,
+  ApplicationSource,
+  CreateApplicationData,
+} from '../services/courseApplicationService';
+import { courseService } from '../services/courseService';
+import { getErrorMessage } from '../lib/errorUtils';
+
+interface NewApplicationModalProps {
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary';
+
+const NewApplicationModal: React.FC<NewApplicationModalProps> = ({ onClose, onSuccess }) => {
+  const [formData, setFormData] = useState<CreateApplicationData>({
+    name: '',
+    email: '',
+    phone: '',
+    courseId: '',
+    preferences: '',
+    languageLevel: '',
+    notes: '',
+    source: 'PHONE',
+  });
+
+  const { data: coursesResult } = useQuery({
+    queryKey: ['courses', 'active'],
+    queryFn: () => courseService.getCourses({ isActive: true, pageSize: 500 }),
+    staleTime: 10 * 60 * 1000,
+  });
+  const courses = coursesResult?.data ?? [];
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      courseApplicationService.createApplication({
+        ...formData,
+        name: formData.name.trim(),
+        email: formData.email.trim(),
+        phone: formData.phone || undefined,
+        courseId: formData.courseId || undefined,
+        preferences: formData.preferences || undefined,
+        languageLevel: formData.languageLevel || undefined,
+        notes: formData.notes || undefined,
+      }),
+    onSuccess: () => {
+      toast.success('Zgłoszenie zostało dodane');
+      onSuccess();
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się dodać zgłoszenia'));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/50" onClick={onClose} />
+
+        <form onSubmit={handleSubmit} className="relative bg-white rounded-lg shadow-xl max-w-lg w-full">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <h2 className="text-xl font-bold text-gray-900">Nowe zgłoszenie</h2>
+            <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Imię i nazwisko *</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Email *</label>
+                <input
+                  type="email"
+                  required
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Telefon</label>
+                <input
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Źródło *</label>
+                <select
+                  value={formData.source}
+                  onChange={(e) => setFormData({ ...formData, source: e.target.value as ApplicationSource })}
+                  className={inputClass}
+                >
+                  {(Object.keys(APPLICATION_SOURCE_LABELS) as ApplicationSource[]).map((source) => (
+                    <option key={source} value={source}>
+                      {APPLICATION_SOURCE_LABELS[source]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Poziom językowy</label>
+                <input
+                  type="text"
+                  value={formData.languageLevel}
+                  onChange={(e) => setFormData({ ...formData, languageLevel: e.target.value })}
+                  placeholder="np. A2"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Kurs</label>
+              <select
+                value={formData.courseId}
+                onChange={(e) => setFormData({ ...formData, courseId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Brak - tylko preferencje</option>
+                {courses.map((course) => (
+                  <option key={course.id} value={course.id}>
+                    {course.name} ({course.level})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Preferencje</label>
+              <input
+                type="text"
+                value={formData.preferences}
+                onChange={(e) => setFormData({ ...formData, preferences: e.target.value })}
+                placeholder="np. angielski, wieczory, online"
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Uwagi</label>
+              <textarea
+                rows={3}
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Anuluj
+            </button>
+            <button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {createMutation.isPending ? 'Zapisywanie...' : 'Dodaj zgłoszenie'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default NewApplicationModal;
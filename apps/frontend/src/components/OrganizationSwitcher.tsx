@@ -19,14 +19,14 @@ const OrganizationSwitcher: React.FC = () => {
   const switchMutation = useMutation({
     mutationFn: (organizationId: string) => organizationService.switchOrganization(organizationId),
     onSuccess: async (data) => {
-      // Update user's organizationId in auth store
+      // Update user's organizationId in auth store - switching ends previous sessions and returns new tokens
       if (user) {
         const updatedUser = {
           ...user,
           organizationId: data.organizationId,
           organization: data.organization,
         };
-        setAuth(updatedUser, localStorage.getItem('token') || '');
+        setAuth(updatedUser, data.token, data.refreshToken);
       }
 
       // Reload the page to refetch all data for new organization
@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import packageService, { Package, PackageFormData } from '../services/packageService';
+import { getErrorMessage } from '../lib/errorUtils';
+import { Plus, Edit, Trash2, X } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+import ConfirmDialog from './ConfirmDialog';
+
+const EMPTY_FORM: PackageFormData = {
+  name: '',
+  description: '',
+  totalHours: 10,
+  price: 0,
+  currency: 'PLN',
+  validityDays: 90,
+  isActive: true,
+};
+
+export default function PackagesTab() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Package | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formData, setFormData] = useState<PackageFormData>(EMPTY_FORM);
+  const [deleteTarget, setDeleteTarget] = useState<Package | null>(null);
+
+  const { data: packages = [], isLoading } = useQuery({
+    queryKey: ['packages'],
+    queryFn: () => packageService.getPackages(),
+  });
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditing(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: PackageFormData) =>
+      editing ? packageService.updatePackage(editing.id, data) : packageService.createPackage(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['packages'] });
+      toast.success(editing ? 'Pakiet został zaktualizowany' : 'Pakiet został utworzony');
+      closeForm();
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zapisać pakietu'));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => packageService.deletePackage(id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['packages'] });
+      toast.success(result.message);
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się usunąć pakietu'));
+    },
+  });
+
+  const openEdit = (pkg: Package) => {
+    setEditing(pkg);
+    setFormData({
+      name: pkg.name,
+      description: pkg.description || '',
+      totalHours: Number(pkg.totalHours),
+      price: Number(pkg.price),
+      currency: pkg.currency,
+      validityDays: pkg.validityDays,
+      isActive: pkg.isActive,
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || formData.totalHours <= 0 || formData.validityDays <= 0) {
+      toast.error('Uzupełnij nazwę, liczbę godzin i ważność pakietu');
+      return;
+    }
+    saveMutation.mutate(formData);
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-gray-600">
+          Pakiety godzin przypisujesz uczniom w ich profilu (zakładka „Pakiety”).
+        </p>
+        <button
+          onClick={() => { setEditing(null); setFormData(EMPTY_FORM); setIsFormOpen(true); }}
+          className="flex items-center gap-2 px-4 py-2 bg-secondary text-white rounded-lg hover:bg-secondary/90 transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          Dodaj pakiet
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nazwa</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Godziny</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cena</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ważność</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sprzedane</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Akcje</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={6}>
+                  <LoadingSpinner message="Ładowanie pakietów..." />
+                </td>
+              </tr>
+            ) : packages.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                  Brak pakietów. Dodaj pierwszy pakiet godzin (np. 10h lub 20h).
+                </td>
+              </tr>
+            ) : (
+              packages.map((pkg) => (
+                <tr key={pkg.id} className={`hover:bg-gray-50 ${pkg.isActive ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">
+                      {pkg.name}
+                      {!pkg.isActive && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">Nieaktywny</span>
+                      )}
+                    </div>
+                    {pkg.description && <div className="text-xs text-gray-500">{pkg.description}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{Number(pkg.totalHours)}h</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
+                    {Number(pkg.price).toFixed(2)} {pkg.currency}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{pkg.validityDays} dni</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{pkg._count?.enrollments ?? 0}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => openEdit(pkg)} className="text-secondary hover:text-secondary-dark">
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setDeleteTarget(pkg)} className="text-red-600 hover:text-red-700">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Package form */}
+      {isFormOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <div className="fixed inset-0 bg-black/50" onClick={closeForm} />
+
+            <form onSubmit={handleSubmit} className="relative bg-white rounded-lg shadow-xl max-w-lg w-full">
+              <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                <h2 className="text-xl font-bold text-gray-900">{editing ? 'Edytuj pakiet' : 'Nowy pakiet'}</h2>
+                <button type="button" onClick={closeForm} className="text-gray-400 hover:text-gray-600 transition-colors">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Nazwa</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="np. Pakiet 10h"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Opis</label>
+                  <input
+                    type="text"
+                    value={formData.description}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Liczba godzin</label>
+                    <input
+                      type="number"
+                      min="0.5"
+                      step="0.5"
+                      value={formData.totalHours}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, totalHours: parseFloat(e.target.value) || 0 }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Ważność (dni)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={formData.validityDays}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, validityDays: parseInt(e.target.value) || 0 }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Cena</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.price}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, price: parseFloat(e.target.value) || 0 }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Waluta</label>
+                    <select
+                      value={formData.currency}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, currency: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      {['PLN', 'EUR', 'USD', 'GBP', 'CHF'].map((c) => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, isActive: e.target.checked }))}
+                    className="rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  Aktywny (dostępny do sprzedaży)
+                </label>
+                {editing && (editing._count?.enrollments ?? 0) > 0 && (
+                  <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">
+                    Zmiany dotyczą tylko nowych sprzedaży - już przypisane pakiety zachowują swoje godziny i ważność.
+                  </p>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Anuluj
+                </button>
+                <button
+                  type="submit"
+                  disabled={saveMutation.isPending}
+                  className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                >
+                  {saveMutation.isPending ? 'Zapisywanie...' : 'Zapisz'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+        title="Usuń pakiet"
+        message={`Czy na pewno chcesz usunąć pakiet "${deleteTarget?.name ?? ''}"? Jeśli został już sprzedany, zostanie jedynie dezaktywowany.`}
+        confirmText="Usuń"
+        cancelText="Anuluj"
+        variant="danger"
+      />
+    </>
+  );
+}
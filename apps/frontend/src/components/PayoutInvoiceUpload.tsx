@@ -0,0 +1,109 @@
+import { useRef, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { FileText, Trash2, Upload } from 'lucide-react';
+import payoutService, { TeacherPayout } from '../services/payoutService';
+
+interface PayoutInvoiceUploadProps {
+  payout: TeacherPayout;
+  onChanged: () => void;
+}
+
+/**
+ * B2B invoice attached to a payout - shown to HR in the payout history and to the teacher in "My earnings"
+ */
+export default function PayoutInvoiceUpload({ payout, onChanged }: PayoutInvoiceUploadProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const isLocked = payout.status === 'PAID' || payout.status === 'CANCELLED';
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => payoutService.uploadInvoice(payout.id, file, invoiceNumber.trim() || undefined),
+    onSuccess: () => {
+      toast.success('Faktura została dołączona');
+      setInvoiceNumber('');
+      onChanged();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Błąd podczas dołączania faktury');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => payoutService.deleteInvoice(payout.id),
+    onSuccess: () => {
+      toast.success('Faktura została usunięta');
+      onChanged();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Błąd podczas usuwania faktury');
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.type !== 'application/pdf') {
+      toast.error('Faktura musi być plikiem PDF');
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  if (payout.invoiceFile) {
+    return (
+      <div className="flex items-center gap-3 text-sm">
+        <FileText className="w-4 h-4 text-green-600" />
+        <a
+          href={payout.invoiceFile.publicUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-primary hover:underline"
+        >
+          Faktura {payout.invoiceNumber || payout.invoiceFile.fileName}
+        </a>
+        {payout.invoiceUploadedAt && (
+          <span className="text-xs text-gray-500">
+            dołączona {new Date(payout.invoiceUploadedAt).toLocaleDateString('pl-PL')}
+          </span>
+        )}
+        {!isLocked && (
+          <button
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+            className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+            title="Usuń fakturę"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (isLocked) {
+    return <p className="text-sm text-gray-500">Brak faktury</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        type="text"
+        value={invoiceNumber}
+        onChange={(e) => setInvoiceNumber(e.target.value)}
+        placeholder="Nr faktury"
+        className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-secondary focus:border-transparent"
+      />
+      <input ref={fileInputRef} type="file" accept="application/pdf" onChange={handleFileChange} className="hidden" />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={uploadMutation.isPending}
+        className="flex items-center gap-2 px-3 py-1.5 text-sm text-amber-800 bg-amber-100 rounded-lg hover:bg-amber-200 transition-colors disabled:opacity-50"
+      >
+        <Upload className="w-4 h-4" />
+        {uploadMutation.isPending ? 'Wysyłanie...' : 'Dołącz fakturę (PDF)'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { FileSpreadsheet, FileText, CheckCircle, AlertCircle } from 'lucide-react';
+import payoutService, { ContractType, PayrollRow } from '../services/payoutService';
+import { reportService } from '../services/reportService';
+import LoadingSpinner from './LoadingSpinner';
+
+const CONTRACT_SECTIONS: { contractType: ContractType | null; label: string }[] = [
+  { contractType: 'EMPLOYMENT', label: 'Umowa o pracę' },
+  { contractType: 'CIVIL', label: 'Umowa zlecenie' },
+  { contractType: 'B2B', label: 'B2B' },
+  { contractType: null, label: 'Bez określonej umowy' },
+];
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('pl-PL', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatPeriod = (row: PayrollRow) =>
+  `${new Date(row.periodStart).toLocaleDateString('pl-PL')} - ${new Date(row.periodEnd).toLocaleDateString('pl-PL')}`;
+
+/**
+ * Monthly payroll from approved payouts - gross/net estimates per contract type and the accountant export
+ */
+export default function PayrollPanel() {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+  });
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ['payroll', month],
+    queryFn: () => payoutService.getPayroll(month),
+    enabled: !!month,
+  });
+
+  const handleExport = async (fileFormat: 'csv' | 'xlsx') => {
+    setIsExporting(true);
+    try {
+      const blob = await payoutService.exportPayroll(month, fileFormat);
+      reportService.downloadFile(blob, `lista-plac-${month}.${fileFormat}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Błąd podczas eksportu listy płac');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderSection = (contractType: ContractType | null, label: string) => {
+    const sectionRows = rows.filter((row) => row.contractType === contractType);
+    if (sectionRows.length === 0) return null;
+
+    const isB2B = contractType === 'B2B';
+    const hasContributions = contractType === 'EMPLOYMENT' || contractType === 'CIVIL';
+    const sum = (key: 'amount' | 'netAmount' | 'employerCost') =>
+      sectionRows.reduce((total, row) => total + row[key], 0);
+
+    return (
+      <div key={label} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-3 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-900">{label}</h3>
+          <span className="text-xs text-gray-500">
+            {sectionRows.length} {sectionRows.length === 1 ? 'wypłata' : 'wypłat'} • do wypłaty {formatAmount(sum('netAmount'))} •
+            koszt {formatAmount(sum('employerCost'))}
+          </span>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 border-b border-gray-200">
+                <th className="text-left px-6 py-2 font-medium">Lektor</th>
+                <th className="text-left px-3 py-2 font-medium">Okres</th>
+                <th className="text-right px-3 py-2 font-medium">{isB2B ? 'Netto' : 'Brutto'}</th>
+                {hasContributions && (
+                  <>
+                    <th className="text-right px-3 py-2 font-medium">ZUS</th>
+                    <th className="text-right px-3 py-2 font-medium">Zdrowotna</th>
+                    <th className="text-right px-3 py-2 font-medium">PIT</th>
+                  </>
+                )}
+                {isB2B && (
+                  <>
+                    <th className="text-right px-3 py-2 font-medium">VAT</th>
+                    <th className="text-left px-3 py-2 font-medium">Faktura</th>
+                  </>
+                )}
+                <th className="text-right px-3 py-2 font-medium">{isB2B ? 'Brutto faktury' : 'Do wypłaty'}</th>
+                <th className="text-right px-6 py-2 font-medium">Koszt</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sectionRows.map((row) => (
+                <tr key={row.payoutId} className="text-gray-700">
+                  <td className="px-6 py-2 font-medium text-gray-900">{row.teacherName}</td>
+                  <td className="px-3 py-2 text-gray-500 whitespace-nowrap">{formatPeriod(row)}</td>
+                  <td className="px-3 py-2 text-right">{formatAmount(row.amount)}</td>
+                  {hasContributions && (
+                    <>
+                      <td className="px-3 py-2 text-right">{formatAmount(row.employeeZus)}</td>
+                      <td className="px-3 py-2 text-right">{formatAmount(row.healthInsurance)}</td>
+                      <td className="px-3 py-2 text-right">{formatAmount(row.pitAdvance)}</td>
+                    </>
+                  )}
+                  {isB2B && (
+                    <>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        {formatAmount(row.vatAmount)} ({row.vatRate === null ? 'zw' : `${row.vatRate}%`})
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.hasInvoice ? (
+                          <span className="flex items-center gap-1 text-green-700">
+                            <CheckCircle className="w-4 h-4" />
+                            {row.invoiceNumber || 'dołączona'}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-amber-700">
+                            <AlertCircle className="w-4 h-4" />
+                            brak
+                          </span>
+                        )}
+                      </td>
+                    </>
+                  )}
+                  <td className="px-3 py-2 text-right font-semibold">
+                    {formatAmount(row.netAmount)} {row.currency}
+                  </td>
+                  <td className="px-6 py-2 text-right">{formatAmount(row.employerCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Miesiąc</label>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-secondary focus:border-transparent"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Zatwierdzone i wypłacone wypłaty. Składki i podatek to szacunki - ostateczne kwoty wylicza księgowość.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={isExporting || rows.length === 0}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <FileText className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={() => handleExport('xlsx')}
+            disabled={isExporting || rows.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            XLSX
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <LoadingSpinner message="Ładowanie listy płac..." />
+      ) : rows.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+          Brak zatwierdzonych wypłat w wybranym miesiącu
+        </div>
+      ) : (
+        CONTRACT_SECTIONS.map((section) => renderSection(section.contractType, section.label))
+      )}
+    </div>
+  );
+}
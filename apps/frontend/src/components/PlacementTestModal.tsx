@@ -0,0 +1,368 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, Plus, Trash2 } from 'lucide-react';
+import placementTestService, {
+  CEFR_LEVELS,
+  CefrLevel,
+  PlacementQuestion,
+  PlacementQuestionType,
+  PlacementTestData,
+  QUESTION_TYPE_LABELS,
+} from '../services/placementTestService';
+import { getErrorMessage } from '../lib/errorUtils';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PlacementTestModalProps {
+  testId: string | null;
+  onClose: () => void;
+}
+
+const LANGUAGES = [
+  { value: 'en', label: 'Angielski' },
+  { value: 'de', label: 'Niemiecki' },
+  { value: 'es', label: 'Hiszpański' },
+  { value: 'fr', label: 'Francuski' },
+  { value: 'it', label: 'Włoski' },
+  { value: 'pl', label: 'Polski' },
+];
+
+const emptyQuestion = (level: CefrLevel = 'A1'): PlacementQuestion => ({
+  type: 'MULTIPLE_CHOICE',
+  level,
+  prompt: '',
+  options: ['', '', '', ''],
+  correctAnswers: [],
+});
+
+const DEFAULT_FORM: PlacementTestData = {
+  language: 'en',
+  name: '',
+  description: '',
+  timeLimitMinutes: 20,
+  passThreshold: 60,
+  isActive: true,
+  questions: [emptyQuestion()],
+};
+
+const PlacementTestModal: React.FC<PlacementTestModalProps> = ({ testId, onClose }) => {
+  const queryClient = useQueryClient();
+  const isEdit = !!testId;
+  const [formData, setFormData] = useState<PlacementTestData>(DEFAULT_FORM);
+
+  const { data: test, isLoading } = useQuery({
+    queryKey: ['placement-test', testId],
+    queryFn: () => placementTestService.getTestById(testId!),
+    enabled: isEdit,
+  });
+
+  useEffect(() => {
+    if (test) {
+      setFormData({
+        language: test.language,
+        name: test.name,
+        description: test.description || '',
+        timeLimitMinutes: test.timeLimitMinutes,
+        passThreshold: test.passThreshold,
+        isActive: test.isActive,
+        questions: (test.questions || []).map(({ type, level, prompt, options, correctAnswers }) => ({
+          type,
+          level,
+          prompt,
+          options: type === 'MULTIPLE_CHOICE' ? options : [],
+          correctAnswers,
+        })),
+      });
+    }
+  }, [test]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: PlacementTestData) =>
+      isEdit ? placementTestService.updateTest(testId!, data) : placementTestService.createTest(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['placement-tests'] });
+      queryClient.invalidateQueries({ queryKey: ['placement-test', testId] });
+      toast.success(isEdit ? 'Test został zaktualizowany' : 'Test został utworzony');
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zapisać testu'));
+    },
+  });
+
+  const updateQuestion = (index: number, changes: Partial<PlacementQuestion>) => {
+    setFormData((prev) => ({
+      ...prev,
+      questions: prev.questions.map((question, i) => (i === index ? { ...question, ...changes } : question)),
+    }));
+  };
+
+  const changeQuestionType = (index: number, type: PlacementQuestionType) => {
+    updateQuestion(index, {
+      type,
+      options: type === 'MULTIPLE_CHOICE' ? ['', '', '', ''] : [],
+      correctAnswers: [],
+    });
+  };
+
+  const addQuestion = () => {
+    const lastLevel = formData.questions[formData.questions.length - 1]?.level;
+    setFormData((prev) => ({ ...prev, questions: [...prev.questions, emptyQuestion(lastLevel)] }));
+  };
+
+  const removeQuestion = (index: number) => {
+    setFormData((prev) => ({ ...prev, questions: prev.questions.filter((_, i) => i !== index) }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      ...formData,
+      description: formData.description || undefined,
+      questions: formData.questions.map((question) => ({
+        ...question,
+        options: question.options.map((option) => option.trim()).filter(Boolean),
+        correctAnswers: question.correctAnswers.map((answer) => answer.trim()).filter(Boolean),
+      })),
+    });
+  };
+
+  const levelCounts = CEFR_LEVELS.map((level) => ({
+    level,
+    count: formData.questions.filter((question) => question.level === level).length,
+  }));
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/50" onClick={onClose} />
+
+        <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+            <h2 className="text-xl font-bold text-gray-900">
+              {isEdit ? 'Edytuj test poziomujący' : 'Nowy test poziomujący'}
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {isEdit && isLoading ? (
+            <LoadingSpinner message="Wczytywanie testu..." />
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div className="p-6 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Nazwa *</label>
+                    <input
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      placeholder="np. Test z języka angielskiego"
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Język *</label>
+                    <select
+                      value={formData.language}
+                      onChange={(e) => setFormData({ ...formData, language: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      {LANGUAGES.map((language) => (
+                        <option key={language.value} value={language.value}>
+                          {language.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Opis dla kandydata</label>
+                  <textarea
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Limit czasu (min)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="180"
+                      value={formData.timeLimitMinutes}
+                      onChange={(e) => setFormData({ ...formData, timeLimitMinutes: parseInt(e.target.value) || 1 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Próg zaliczenia poziomu (%)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={formData.passThreshold}
+                      onChange={(e) => setFormData({ ...formData, passThreshold: parseInt(e.target.value) || 1 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 py-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={formData.isActive}
+                      onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                    />
+                    Dostępny w formularzu zapisu
+                  </label>
+                </div>
+
+                <p className="text-xs text-gray-500">
+                  Sugerowany poziom to najwyższy poziom, do którego kandydat zaliczył wszystkie niższe poziomy.
+                  Pytania na poziomie:{' '}
+                  {levelCounts.map(({ level, count }) => `${level} ${count}`).join(' · ')}
+                </p>
+
+                <div className="space-y-3 pt-2 border-t border-gray-200">
+                  {formData.questions.map((question, index) => (
+                    <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm font-medium text-gray-700">{index + 1}.</span>
+                        <select
+                          value={question.type}
+                          onChange={(e) => changeQuestionType(index, e.target.value as PlacementQuestionType)}
+                          className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                        >
+                          {(Object.keys(QUESTION_TYPE_LABELS) as PlacementQuestionType[]).map((type) => (
+                            <option key={type} value={type}>
+                              {QUESTION_TYPE_LABELS[type]}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={question.level}
+                          onChange={(e) => updateQuestion(index, { level: e.target.value as CefrLevel })}
+                          className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                        >
+                          {CEFR_LEVELS.map((level) => (
+                            <option key={level} value={level}>
+                              {level}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => removeQuestion(index)}
+                          className="ml-auto p-1.5 text-gray-400 hover:text-red-600 rounded hover:bg-red-50 transition-colors"
+                          title="Usuń pytanie"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+
+                      <textarea
+                        value={question.prompt}
+                        onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                        rows={2}
+                        required
+                        placeholder={
+                          question.type === 'GAP_FILL' ? 'np. She ___ to school every day.' : 'Treść pytania'
+                        }
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                      />
+
+                      {question.type === 'MULTIPLE_CHOICE' ? (
+                        <div className="space-y-2">
+                          {question.options.map((option, optionIndex) => (
+                            <div key={optionIndex} className="flex items-center gap-2">
+                              <input
+                                type="radio"
+                                name={`correct-${index}`}
+                                checked={!!option && question.correctAnswers.includes(option)}
+                                onChange={() => updateQuestion(index, { correctAnswers: [option] })}
+                                disabled={!option.trim()}
+                                title="Poprawna odpowiedź"
+                              />
+                              <input
+                                type="text"
+                                value={option}
+                                onChange={(e) => {
+                                  const options = [...question.options];
+                                  options[optionIndex] = e.target.value;
+                                  const wasCorrect = question.correctAnswers.includes(option);
+                                  updateQuestion(index, {
+                                    options,
+                                    correctAnswers: wasCorrect ? [e.target.value] : question.correctAnswers,
+                                  });
+                                }}
+                                placeholder={`Odpowiedź ${optionIndex + 1}`}
+                                className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                              />
+                            </div>
+                          ))}
+                          <p className="text-xs text-gray-500">Zaznacz poprawną odpowiedź</p>
+                        </div>
+                      ) : (
+                        <div>
+                          <input
+                            type="text"
+                            value={question.correctAnswers.join('; ')}
+                            onChange={(e) =>
+                              updateQuestion(index, {
+                                correctAnswers: e.target.value.split(';').map((answer) => answer.trimStart()),
+                              })
+                            }
+                            placeholder="np. goes"
+                            className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                          />
+                          <p className="text-xs text-gray-500 mt-1">
+                            Akceptowane odpowiedzi oddziel średnikiem; wielkość liter nie ma znaczenia
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+
+                  <button
+                    type="button"
+                    onClick={addQuestion}
+                    className="flex items-center gap-2 px-4 py-2 text-sm border border-dashed border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors w-full justify-center"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Dodaj pytanie
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Anuluj
+                </button>
+                <button
+                  type="submit"
+                  disabled={saveMutation.isPending || !formData.name.trim()}
+                  className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                >
+                  {saveMutation.isPending ? 'Zapisywanie...' : isEdit ? 'Zapisz zmiany' : 'Utwórz test'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlacementTestModal;
@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ClipboardCheck, Clock, Loader2 } from 'lucide-react';
+import placementTestService, { PlacementAttemptStart, PlacementResult } from '../services/placementTestService';
+
+interface PlacementTestRunnerProps {
+  orgSlug: string;
+  primaryColor: string;
+  result: PlacementResult | null;
+  onComplete: (result: PlacementResult) => void;
+}
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'angielski',
+  de: 'niemiecki',
+  es: 'hiszpański',
+  fr: 'francuski',
+  it: 'włoski',
+  pl: 'polski',
+};
+
+function formatRemaining(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function getErrorMessage(error: unknown): string {
+  return (error as any)?.response?.data?.error?.message || 'Wystąpił błąd. Spróbuj ponownie.';
+}
+
+export default function PlacementTestRunner({ orgSlug, primaryColor, result, onComplete }: PlacementTestRunnerProps) {
+  const [attempt, setAttempt] = useState<PlacementAttemptStart | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+  const answersRef = useRef(answers);
+  answersRef.current = answers;
+
+  const { data: tests = [] } = useQuery({
+    queryKey: ['public-placement-tests', orgSlug],
+    queryFn: () => placementTestService.getPublicTests(orgSlug),
+  });
+
+  const startMutation = useMutation({
+    mutationFn: (testId: string) => placementTestService.startAttempt(orgSlug, testId),
+    onSuccess: (data) => {
+      setAnswers({});
+      setAttempt(data);
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: () => placementTestService.submitAttempt(attempt!.attemptId, answersRef.current),
+    onSuccess: (data) => {
+      setAttempt(null);
+      onComplete(data);
+    },
+  });
+
+  const submit = useCallback(() => {
+    if (!submitMutation.isPending) {
+      submitMutation.mutate();
+    }
+  }, [submitMutation]);
+
+  // Countdown from the server deadline; answers given so far are sent when time runs out
+  useEffect(() => {
+    if (!attempt) return;
+    const deadline = new Date(attempt.expiresAt).getTime();
+    const tick = () => {
+      const seconds = Math.max(0, Math.round((deadline - Date.now()) / 1000));
+      setRemainingSeconds(seconds);
+      if (seconds === 0) {
+        clearInterval(timer);
+        submit();
+      }
+    };
+    const timer = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attempt]);
+
+  if (tests.length === 0) {
+    return null;
+  }
+
+  if (result) {
+    return (
+      <div className="border border-green-200 bg-green-50 rounded-lg p-4 text-sm text-green-800">
+        <p className="font-medium">
+          Wynik testu: {result.score}/{result.maxScore} · sugerowany poziom: {result.suggestedLevel}
+        </p>
+        <p className="text-xs mt-1">Wynik zostanie dołączony do zgłoszenia.</p>
+      </div>
+    );
+  }
+
+  if (!attempt) {
+    return (
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5" style={{ color: primaryColor }} />
+          <p className="text-sm font-medium text-gray-900">Test poziomujący (opcjonalnie)</p>
+        </div>
+        <p className="text-xs text-gray-500">
+          Nie znasz swojego poziomu? Rozwiąż krótki test - pomoże nam dobrać odpowiednią grupę.
+        </p>
+        <div className="space-y-2">
+          {tests.map((test) => (
+            <div key={test.id} className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm text-gray-900">
+                  {test.name}
+                  {LANGUAGE_NAMES[test.language] && (
+                    <span className="text-gray-500"> · {LANGUAGE_NAMES[test.language]}</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {test.questionCount} pytań · {test.timeLimitMinutes} min
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => startMutation.mutate(test.id)}
+                disabled={startMutation.isPending}
+                className="px-3 py-1.5 text-sm text-white rounded-lg disabled:opacity-50"
+                style={{ backgroundColor: primaryColor }}
+              >
+                Rozpocznij
+              </button>
+            </div>
+          ))}
+        </div>
+        {startMutation.isError && <p className="text-sm text-red-600">{getErrorMessage(startMutation.error)}</p>}
+      </div>
+    );
+  }
+
+  const answeredCount = attempt.questions.filter((question) => answers[question.id]?.trim()).length;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between sticky top-0 bg-white py-2 border-b border-gray-100">
+        <p className="text-sm font-medium text-gray-900">{attempt.testName}</p>
+        <span
+          className={`flex items-center gap-1 text-sm font-mono ${remainingSeconds < 60 ? 'text-red-600' : 'text-gray-700'}`}
+        >
+          <Clock className="w-4 h-4" />
+          {formatRemaining(remainingSeconds)}
+        </span>
+      </div>
+
+      {attempt.questions.map((question, index) => (
+        <div key={question.id} className="space-y-2">
+          <p className="text-sm text-gray-900">
+            <span className="font-medium">{index + 1}.</span> {question.prompt}
+          </p>
+          {question.type === 'MULTIPLE_CHOICE' ? (
+            <div className="space-y-1">
+              {question.options.map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name={question.id}
+                    checked={answers[question.id] === option}
+                    onChange={() => setAnswers((prev) => ({ ...prev, [question.id]: option }))}
+                  />
+                  {option}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <input
+              type="text"
+              value={answers[question.id] || ''}
+              onChange={(e) => setAnswers((prev) => ({ ...prev, [question.id]: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+              className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Wpisz brakujące słowo"
+            />
+          )}
+        </div>
+      ))}
+
+      {submitMutation.isError && <p className="text-sm text-red-600">{getErrorMessage(submitMutation.error)}</p>}
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">
+          Odpowiedzi: {answeredCount}/{attempt.questions.length}
+        </span>
+        <button
+          type="button"
+          onClick={submit}
+          disabled={submitMutation.isPending}
+          className="flex items-center gap-2 px-4 py-2 text-sm text-white rounded-lg disabled:opacity-50"
+          style={{ backgroundColor: primaryColor }}
+        >
+          {submitMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+          Zakończ test
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import mailingService, { ScheduledMailing } from '../services/mailingService';
+import { getErrorMessage } from '../lib/errorUtils';
+import LoadingSpinner from './LoadingSpinner';
+import ConfirmDialog from './ConfirmDialog';
+import { Clock, Pencil, XCircle, Paperclip, X, ChevronDown, ChevronUp } from 'lucide-react';
+
+const statusLabels: Record<string, { label: string; className: string }> = {
+  PENDING: { label: 'Zaplanowana', className: 'bg-blue-100 text-blue-800' },
+  SENDING: { label: 'Wysyłanie...', className: 'bg-yellow-100 text-yellow-800' },
+  SENT: { label: 'Wysłana', className: 'bg-green-100 text-green-800' },
+  FAILED: { label: 'Nieudana', className: 'bg-red-100 text-red-800' },
+  CANCELLED: { label: 'Anulowana', className: 'bg-gray-100 text-gray-600' },
+};
+
+const recipientLabels: Record<string, string> = {
+  all: 'Wszyscy uczniowie',
+  selected: 'Wybrani uczniowie',
+  debtors: 'Dłużnicy',
+  course: 'Uczniowie kursu',
+  lesson: 'Uczeń lekcji',
+};
+
+interface EditFormData {
+  subject: string;
+  message: string;
+  scheduledAt: string;
+}
+
+export default function ScheduledMailingsList() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<ScheduledMailing | null>(null);
+  const [editForm, setEditForm] = useState<EditFormData>({ subject: '', message: '', scheduledAt: '' });
+  const [cancelTarget, setCancelTarget] = useState<ScheduledMailing | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: mailings = [], isLoading } = useQuery({
+    queryKey: ['scheduled-mailings'],
+    queryFn: () => mailingService.getScheduledMailings(),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: () =>
+      mailingService.updateScheduledMailing(editing!.id, {
+        subject: editForm.subject,
+        message: editForm.message,
+        scheduledAt: new Date(editForm.scheduledAt).toISOString(),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scheduled-mailings'] });
+      setEditing(null);
+      toast.success('Zaplanowana wysyłka została zaktualizowana');
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zaktualizować wysyłki'));
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => mailingService.cancelScheduledMailing(id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['scheduled-mailings'] });
+      toast.success(result.message);
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się anulować wysyłki'));
+    },
+  });
+
+  const openEdit = (mailing: ScheduledMailing) => {
+    setEditing(mailing);
+    setEditForm({
+      subject: mailing.subject,
+      message: mailing.message,
+      scheduledAt: format(new Date(mailing.scheduledAt), "yyyy-MM-dd'T'HH:mm"),
+    });
+  };
+
+  const handleSave = () => {
+    if (!editForm.subject.trim() || !editForm.message.trim()) {
+      toast.error('Wypełnij temat i treść wiadomości');
+      return;
+    }
+    if (!editForm.scheduledAt || new Date(editForm.scheduledAt) <= new Date()) {
+      toast.error('Data wysyłki musi być w przyszłości');
+      return;
+    }
+    updateMutation.mutate();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <Clock className="h-5 w-5 text-gray-500" />
+        Zaplanowane wysyłki
+      </h2>
+
+      {isLoading ? (
+        <LoadingSpinner message="Ładowanie zaplanowanych wysyłek..." />
+      ) : mailings.length === 0 ? (
+        <p className="text-sm text-gray-500">Brak zaplanowanych wysyłek</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {mailings.map((mailing) => {
+            const statusKey = mailing.isSending ? 'SENDING' : mailing.status;
+            const status = statusLabels[statusKey] || statusLabels.PENDING;
+            const isEditable = mailing.status === 'PENDING' && !mailing.isSending;
+            const failedResults = mailing.delivery?.results.filter((r) => r.status === 'FAILED') ?? [];
+            const isExpanded = expandedId === mailing.id;
+
+            return (
+              <div key={mailing.id} className="py-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-gray-900 truncate">{mailing.subject}</p>
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${status.className}`}>{status.label}</span>
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                      <span>{new Date(mailing.scheduledAt).toLocaleString('pl-PL')}</span>
+                      <span>{recipientLabels[mailing.recipients] || mailing.recipients}</span>
+                      {mailing.attachments.length > 0 && (
+                        <span className="flex items-center gap-1">
+                          <Paperclip className="h-3 w-3" />
+                          {mailing.attachments.map((a) => a.filename).join(', ')}
+                        </span>
+                      )}
+                      {mailing.createdBy && (
+                        <span>
+                          {mailing.createdBy.firstName} {mailing.createdBy.lastName}
+                        </span>
+                      )}
+                    </div>
+                    {mailing.delivery && (
+                      <div className="mt-1 text-xs">
+                        {mailing.delivery.error ? (
+                          <span className="text-red-600">{mailing.delivery.error}</span>
+                        ) : (
+                          <span className="text-gray-700">
+                            Wysłano {mailing.delivery.totalSent} z {mailing.delivery.totalRecipients}
+                            {mailing.delivery.totalFailed > 0 && (
+                              <button
+                                type="button"
+                                onClick={() => setExpandedId(isExpanded ? null : mailing.id)}
+                                className="ml-2 inline-flex items-center gap-1 text-red-600 hover:text-red-700"
+                              >
+                                {mailing.delivery.totalFailed} nieudanych
+                                {isExpanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                              </button>
+                            )}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {isExpanded && failedResults.length > 0 && (
+                      <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                        {failedResults.map((r) => (
+                          <li key={r.studentId}>
+                            {r.email} — <span className="text-red-600">{r.error}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {isEditable && (
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => openEdit(mailing)}
+                        className="text-primary hover:text-primary/80"
+                        title="Edytuj wysyłkę"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setCancelTarget(mailing)}
+                        disabled={cancelMutation.isPending}
+                        className="text-red-600 hover:text-red-700"
+                        title="Anuluj wysyłkę"
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Edit Modal */}
+      {editing && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <div className="fixed inset-0 bg-black/50" onClick={() => setEditing(null)} />
+            <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Edytuj zaplanowaną wysyłkę</h3>
+                <button type="button" onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Temat</label>
+                  <input
+                    type="text"
+                    value={editForm.subject}
+                    onChange={(e) => setEditForm((prev) => ({ ...prev, subject: e.target.value }))}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Treść wiadomości</label>
+                  <textarea
+                    value={editForm.message}
+                    onChange={(e) => setEditForm((prev) => ({ ...prev, message: e.target.value }))}
+                    rows={10}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Data wysyłki</label>
+                  <input
+                    type="datetime-local"
+                    value={editForm.scheduledAt}
+                    onChange={(e) => setEditForm((prev) => ({ ...prev, scheduledAt: e.target.value }))}
+                    className="w-full max-w-xs px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  Odbiorcy zostaną ustaleni w chwili wysyłki ({recipientLabels[editing.recipients] || editing.recipients}).
+                </p>
+              </div>
+
+              <div className="flex justify-end gap-2 mt-6">
+                <button
+                  type="button"
+                  onClick={() => setEditing(null)}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Anuluj
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={updateMutation.isPending}
+                  className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                >
+                  {updateMutation.isPending ? 'Zapisywanie...' : 'Zapisz'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!cancelTarget}
+        onClose={() => setCancelTarget(null)}
+        onConfirm={() => cancelTarget && cancelMutation.mutate(cancelTarget.id)}
+        title="Anuluj wysyłkę"
+        message={`Czy na pewno chcesz anulować wysyłkę „${cancelTarget?.subject ?? ''}”? Wiadomość nie zostanie wysłana.`}
+        confirmText="Anuluj wysyłkę"
+        cancelText="Wróć"
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { addDays, addWeeks, format, startOfDay, startOfWeek } from 'date-fns';
+import { pl } from 'date-fns/locale';
+import { CalendarPlus, ChevronLeft, ChevronRight, Info } from 'lucide-react';
+import bookingService, { BookableCourse, BookingSlot } from '../services/bookingService';
+import LoadingSpinner from './LoadingSpinner';
+
+const budgetUnitLabels: Record<string, string> = {
+  HOURS: 'h',
+  PLN: 'zł',
+  LESSONS: 'lekcji',
+};
+
+function formatBudget(course: BookableCourse): string {
+  const { budget } = course;
+  if (budget.remaining === null || budget.unit === null) {
+    return 'płatność za lekcję';
+  }
+  const amount = budget.unit === 'LESSONS' ? budget.remaining.toString() : budget.remaining.toFixed(2);
+  return `pozostało: ${amount} ${budgetUnitLabels[budget.unit]}`;
+}
+
+export default function StudentBookingSection() {
+  const queryClient = useQueryClient();
+  const [enrollmentId, setEnrollmentId] = useState('');
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [deliveryMode, setDeliveryMode] = useState<'IN_PERSON' | 'ONLINE'>('ONLINE');
+
+  const { data: options, isLoading } = useQuery({
+    queryKey: ['booking-options'],
+    queryFn: () => bookingService.getMyOptions(),
+  });
+
+  const courses = options?.courses ?? [];
+  const selectedCourse = courses.find((course) => course.enrollmentId === enrollmentId) ?? courses[0];
+
+  const weekStart = addWeeks(startOfWeek(new Date(), { weekStartsOn: 1 }), weekOffset);
+  const weekEnd = addDays(weekStart, 7);
+
+  const { data: slots = [], isLoading: isLoadingSlots } = useQuery({
+    queryKey: ['booking-slots', selectedCourse?.enrollmentId, weekStart.toISOString()],
+    queryFn: () =>
+      bookingService.getMySlots(selectedCourse!.enrollmentId, weekStart.toISOString(), weekEnd.toISOString()),
+    enabled: !!selectedCourse && !!options?.settings.enabled,
+  });
+
+  const bookMutation = useMutation({
+    mutationFn: (slot: BookingSlot) =>
+      bookingService.bookLesson({
+        enrollmentId: selectedCourse!.enrollmentId,
+        scheduledAt: slot.start,
+        deliveryMode: selectedCourse!.deliveryMode === 'BOTH' ? deliveryMode : undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['studentLessons'] });
+      queryClient.invalidateQueries({ queryKey: ['booking-options'] });
+      queryClient.invalidateQueries({ queryKey: ['booking-slots'] });
+      toast.success('Lekcja została zarezerwowana');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error?.message || 'Nie udało się zarezerwować lekcji');
+      queryClient.invalidateQueries({ queryKey: ['booking-slots'] });
+    },
+  });
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!options?.settings.enabled || courses.length === 0 || !selectedCourse) {
+    return null;
+  }
+
+  const handleBook = (slot: BookingSlot) => {
+    const label = format(new Date(slot.start), "EEEE, d MMMM 'o' HH:mm", { locale: pl });
+    if (confirm(`Zarezerwować lekcję ${selectedCourse.courseName} (${label})?`)) {
+      bookMutation.mutate(slot);
+    }
+  };
+
+  const slotsByDay = Array.from({ length: 7 }, (_, index) => {
+    const day = addDays(weekStart, index);
+    return {
+      day,
+      slots: slots.filter((slot) => startOfDay(new Date(slot.start)).getTime() === day.getTime()),
+    };
+  });
+
+  const limitReached = options.bookingsLeftThisWeek !== null && options.bookingsLeftThisWeek <= 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 border border-gray-200 mb-8">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarPlus className="h-5 w-5 text-primary" />
+        <h2 className="text-xl font-semibold text-gray-900">Zarezerwuj lekcję</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Kurs</label>
+          <select
+            value={selectedCourse.enrollmentId}
+            onChange={(e) => setEnrollmentId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {courses.map((course) => (
+              <option key={course.enrollmentId} value={course.enrollmentId}>
+                {course.courseName} – {course.teacher.firstName} {course.teacher.lastName}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            {selectedCourse.durationMinutes} min · {formatBudget(selectedCourse)}
+            {selectedCourse.budget.expiresAt &&
+              ` · ważne do ${format(new Date(selectedCourse.budget.expiresAt), 'dd.MM.yyyy')}`}
+          </p>
+        </div>
+
+        {selectedCourse.deliveryMode === 'BOTH' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Forma zajęć</label>
+            <select
+              value={deliveryMode}
+              onChange={(e) => setDeliveryMode(e.target.value as 'IN_PERSON' | 'ONLINE')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="ONLINE">Online</option>
+              <option value="IN_PERSON">Stacjonarnie</option>
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-start gap-2 p-3 mb-4 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+        <Info className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <span>
+          Rezerwacja co najmniej {options.settings.minNoticeHours} godz. przed lekcją, maksymalnie {options.settings.maxDaysAhead} dni naprzód.
+          {options.bookingsLeftThisWeek !== null &&
+            ` W tym tygodniu możesz zarezerwować jeszcze ${options.bookingsLeftThisWeek} z ${options.settings.maxBookingsPerWeek} lekcji.`}
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between mb-3">
+        <button
+          type="button"
+          onClick={() => setWeekOffset((offset) => offset - 1)}
+          disabled={weekOffset === 0}
+          className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span className="text-sm font-medium text-gray-700">
+          {format(weekStart, 'd MMM', { locale: pl })} – {format(addDays(weekStart, 6), 'd MMM yyyy', { locale: pl })}
+        </span>
+        <button
+          type="button"
+          onClick={() => setWeekOffset((offset) => offset + 1)}
+          disabled={addDays(weekStart, 7) > addDays(new Date(), options.settings.maxDaysAhead)}
+          className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+
+      {isLoadingSlots ? (
+        <LoadingSpinner />
+      ) : slots.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">Brak wolnych terminów w tym tygodniu</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-7 gap-3">
+          {slotsByDay.map(({ day, slots: daySlots }) => (
+            <div key={day.toISOString()}>
+              <p className="text-xs font-semibold text-gray-600 uppercase mb-2">
+                {format(day, 'EEE d.MM', { locale: pl })}
+              </p>
+              <div className="space-y-1">
+                {daySlots.map((slot) => (
+                  <button
+                    key={slot.start}
+                    type="button"
+                    onClick={() => handleBook(slot)}
+                    disabled={limitReached || bookMutation.isPending}
+                    className="w-full px-2 py-1 text-sm border border-primary/40 text-primary rounded-md hover:bg-primary hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    {format(new Date(slot.start), 'HH:mm')}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { Award, Download, Link as LinkIcon, Ban } from 'lucide-react';
+import certificateService, { CertificateType, CERTIFICATE_TYPE_LABELS } from '../services/certificateService';
+import { getErrorMessage } from '../lib/errorUtils';
+
+interface Props {
+  studentId: string;
+  enrollments?: any[];
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('pl-PL', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+}
+
+export default function StudentCertificatesSection({ studentId, enrollments = [] }: Props) {
+  const queryClient = useQueryClient();
+  const courseEnrollments = enrollments.filter((enrollment) => enrollment.course);
+  const [enrollmentId, setEnrollmentId] = useState('');
+  const [type, setType] = useState<CertificateType>('ATTENDANCE');
+
+  const { data: certificates = [] } = useQuery({
+    queryKey: ['student-certificates', studentId],
+    queryFn: () => certificateService.getStudentCertificates(studentId),
+    enabled: !!studentId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['student-certificates', studentId] });
+    queryClient.invalidateQueries({ queryKey: ['student-documents', studentId] });
+  };
+
+  const issueMutation = useMutation({
+    mutationFn: () =>
+      certificateService.issueCertificate({
+        enrollmentId: enrollmentId || courseEnrollments[0]?.id,
+        type,
+      }),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Zaświadczenie zostało wystawione');
+    },
+    onError: (error: any) => toast.error(getErrorMessage(error, 'Nie udało się wystawić zaświadczenia')),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => certificateService.revokeCertificate(id),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Zaświadczenie zostało unieważnione');
+    },
+    onError: (error: any) => toast.error(getErrorMessage(error, 'Nie udało się unieważnić zaświadczenia')),
+  });
+
+  const copyVerificationLink = async (code: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/verify/${code}`);
+    toast.success('Skopiowano link weryfikacyjny');
+  };
+
+  const handleRevoke = (id: string) => {
+    if (confirm('Unieważnić zaświadczenie? Weryfikacja kodu pokaże, że dokument jest nieważny.')) {
+      revokeMutation.mutate(id);
+    }
+  };
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-gray-200">
+      <h3 className="text-sm font-medium text-gray-700">Zaświadczenia i certyfikaty</h3>
+
+      {courseEnrollments.length > 0 ? (
+        <div className="flex flex-wrap items-end gap-2">
+          <select
+            value={enrollmentId || courseEnrollments[0].id}
+            onChange={(e) => setEnrollmentId(e.target.value)}
+            className="flex-1 min-w-[10rem] px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary"
+          >
+            {courseEnrollments.map((enrollment) => (
+              <option key={enrollment.id} value={enrollment.id}>
+                {enrollment.course.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as CertificateType)}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary"
+          >
+            {(Object.keys(CERTIFICATE_TYPE_LABELS) as CertificateType[]).map((value) => (
+              <option key={value} value={value}>
+                {CERTIFICATE_TYPE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => issueMutation.mutate()}
+            disabled={issueMutation.isPending}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-white text-sm rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            <Award className="w-4 h-4" />
+            {issueMutation.isPending ? 'Generowanie...' : 'Wystaw'}
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">Uczeń nie jest zapisany na żaden kurs.</p>
+      )}
+
+      {certificates.length > 0 && (
+        <div className="space-y-2">
+          {certificates.map((certificate) => (
+            <div
+              key={certificate.id}
+              className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg"
+            >
+              <Award className={`w-4 h-4 mt-0.5 flex-shrink-0 ${certificate.revokedAt ? 'text-gray-300' : 'text-amber-500'}`} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">
+                  {CERTIFICATE_TYPE_LABELS[certificate.type]} - {certificate.courseName}
+                </p>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Kod: <span className="font-mono">{certificate.verificationCode}</span> · wystawiono{' '}
+                  {formatDate(certificate.issuedAt)} ({certificate.issuedBy.firstName} {certificate.issuedBy.lastName})
+                </p>
+                {certificate.revokedAt && (
+                  <p className="text-xs text-red-600 mt-0.5">Unieważniono: {formatDate(certificate.revokedAt)}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {certificate.document?.file && (
+                  <a
+                    href={certificate.document.file.publicUrl}
+                    download={certificate.document.file.fileName}
+                    className="p-1.5 text-gray-400 hover:text-gray-600 rounded hover:bg-gray-100 transition-colors"
+                    title="Pobierz PDF"
+                  >
+                    <Download className="w-4 h-4" />
+                  </a>
+                )}
+                <button
+                  onClick={() => copyVerificationLink(certificate.verificationCode)}
+                  className="p-1.5 text-gray-400 hover:text-blue-600 rounded hover:bg-blue-50 transition-colors"
+                  title="Kopiuj link weryfikacyjny"
+                >
+                  <LinkIcon className="w-4 h-4" />
+                </button>
+                {!certificate.revokedAt && (
+                  <button
+                    onClick={() => handleRevoke(certificate.id)}
+                    disabled={revokeMutation.isPending}
+                    className="p-1.5 text-gray-400 hover:text-red-600 rounded hover:bg-red-50 transition-colors"
+                    title="Unieważnij"
+                  >
+                    <Ban className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
   X,
   Check,
   Archive,
+  Award,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import documentService, {
@@ -21,21 +22,25 @@ import documentService, {
   UploadDocumentData,
 } from '../services/documentService';
 import LoadingSpinner from './LoadingSpinner';
+import StudentCertificatesSection from './StudentCertificatesSection';
 
 interface Props {
   studentId: string;
   studentEmail?: string;
+  enrollments?: any[];
 }
 
 const TYPE_LABELS: Record<StudentDocumentType, string> = {
   CONTRACT: 'Umowa',
   ATTACHMENT: 'Załącznik',
+  CERTIFICATE: 'Zaświadczenie',
   OTHER: 'Inny',
 };
 
 const TYPE_COLORS: Record<StudentDocumentType, string> = {
   CONTRACT: 'bg-blue-100 text-blue-700',
   ATTACHMENT: 'bg-gray-100 text-gray-700',
+  CERTIFICATE: 'bg-amber-100 text-amber-700',
   OTHER: 'bg-purple-100 text-purple-700',
 };
 
@@ -56,6 +61,7 @@ const STATUS_COLORS: Record<DocumentStatus, string> = {
 const TYPE_ICONS: Record<StudentDocumentType, React.ReactNode> = {
   CONTRACT: <FileText className="w-4 h-4" />,
   ATTACHMENT: <Paperclip className="w-4 h-4" />,
+  CERTIFICATE: <Award className="w-4 h-4" />,
   OTHER: <FileIcon className="w-4 h-4" />,
 };
 
@@ -73,7 +79,7 @@ function formatDate(dateStr: string): string {
   });
 }
 
-export default function StudentDocumentsTab({ studentId, studentEmail }: Props) {
+export default function StudentDocumentsTab({ studentId, studentEmail, enrollments }: Props) {
   const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -340,6 +346,8 @@ export default function StudentDocumentsTab({ studentId, studentEmail }: Props)
         </div>
       )}
 
+      <StudentCertificatesSection studentId={studentId} enrollments={enrollments} />
+
       {/* Upload modal */}
       {showUploadModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
@@ -6,6 +6,9 @@ import { X, FileText, Activity } from 'lucide-react';
 import StudentBalanceCard from './StudentBalanceCard';
 import StudentDocumentsTab from './StudentDocumentsTab';
 import StudentActivityTab from './StudentActivityTab';
+import StudentPackagesTab from './StudentPackagesTab';
+import StudentSubscriptionsSection from './StudentSubscriptionsSection';
+import StudentParentsTab from './StudentParentsTab';
 import { handleApiError } from '../lib/errorUtils';
 import { useAuthStore } from '../stores/authStore';
 import { generateSecurePassword } from '../lib/passwordUtils';
@@ -27,7 +30,7 @@ const LANGUAGES = [
   { value: 'pl', label: 'Polski' },
 ];
 
-type TabType = 'personal' | 'cancellation' | 'balance' | 'notes' | 'documents' | 'activity';
+type TabType = 'personal' | 'cancellation' | 'balance' | 'packages' | 'parents' | 'notes' | 'documents' | 'activity';
 
 const PERSONAL_TAB_FIELDS = [
   'firstName', 'lastName', 'email', 'phone', 'password',
@@ -298,6 +301,32 @@ const StudentModal: React.FC<StudentModalProps> = ({ student, onClose, onSuccess
                 Saldo
               </button>
             )}
+            {isEdit && canSeeNotes && (
+              <button
+                type="button"
+                onClick={() => setActiveTab('packages')}
+                className={`py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
+                  activeTab === 'packages'
+                    ? 'border-primary text-primary'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Pakiety
+              </button>
+            )}
+            {isEdit && canSeeNotes && (
+              <button
+                type="button"
+                onClick={() => setActiveTab('parents')}
+                className={`py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
+                  activeTab === 'parents'
+                    ? 'border-primary text-primary'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Rodzice
+              </button>
+            )}
             {isEdit && canSeeNotes && (
               <button
                 type="button"
@@ -824,6 +853,19 @@ const StudentModal: React.FC<StudentModalProps> = ({ student, onClose, onSuccess
             </div>
           )}
 
+          {/* Packages Tab */}
+          {activeTab === 'packages' && student && canSeeNotes && (
+            <div className="space-y-8">
+              <StudentPackagesTab studentId={student.id} enrollments={student.enrollments} />
+              <StudentSubscriptionsSection studentId={student.id} enrollments={student.enrollments} />
+            </div>
+          )}
+
+          {/* Parents Tab */}
+          {activeTab === 'parents' && student && canSeeNotes && (
+            <StudentParentsTab studentId={student.id} isMinor={student.isMinor} />
+          )}
+
           {/* Notes Tab */}
           {activeTab === 'notes' && canSeeNotes && (
             <div>
@@ -851,6 +893,7 @@ const StudentModal: React.FC<StudentModalProps> = ({ student, onClose, onSuccess
             <StudentDocumentsTab
               studentId={student.id}
               studentEmail={student.user.email}
+              enrollments={student.enrollments}
             />
           )}
 
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import packageService from '../services/packageService';
+import { getErrorMessage } from '../lib/errorUtils';
+import BudgetDisplay from './BudgetDisplay';
+import LoadingSpinner from './LoadingSpinner';
+import { Package as PackageIcon } from 'lucide-react';
+
+interface StudentPackagesTabProps {
+  studentId: string;
+  enrollments?: any[];
+}
+
+export default function StudentPackagesTab({ studentId, enrollments = [] }: StudentPackagesTabProps) {
+  const queryClient = useQueryClient();
+  const [selectedPackageId, setSelectedPackageId] = useState('');
+  const [selectedCourseId, setSelectedCourseId] = useState('');
+
+  const { data: studentPackages = [], isLoading } = useQuery({
+    queryKey: ['student-packages', studentId],
+    queryFn: () => packageService.getStudentPackages(studentId),
+  });
+
+  const { data: packages = [] } = useQuery({
+    queryKey: ['packages', 'active'],
+    queryFn: () => packageService.getPackages({ isActive: true }),
+  });
+
+  // Only active package-mode course enrollments can be topped up
+  const courseOptions = enrollments.filter(
+    (e) => e.status === 'ACTIVE' && e.paymentMode === 'PACKAGE' && e.course
+  );
+
+  const assignMutation = useMutation({
+    mutationFn: () =>
+      packageService.assignPackage(selectedPackageId, {
+        studentId,
+        courseId: selectedCourseId || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['student-packages', studentId] });
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      setSelectedPackageId('');
+      setSelectedCourseId('');
+      toast.success('Pakiet przypisany. Utworzono oczekującą płatność.');
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się przypisać pakietu'));
+    },
+  });
+
+  const selectedPackage = packages.find((p) => p.id === selectedPackageId);
+
+  return (
+    <div className="space-y-6">
+      {/* Assign package */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <PackageIcon className="w-5 h-5 text-gray-500" />
+          <h3 className="text-sm font-semibold text-gray-900">Przypisz pakiet godzin</h3>
+        </div>
+
+        {packages.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Brak aktywnych pakietów. Dodaj je w zakładce „Pakiety” w module Rozliczenia i wpłaty.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <select
+                value={selectedPackageId}
+                onChange={(e) => setSelectedPackageId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Wybierz pakiet...</option>
+                {packages.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name} - {Number(p.totalHours)}h, {Number(p.price).toFixed(2)} {p.currency}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={selectedCourseId}
+                onChange={(e) => setSelectedCourseId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Osobny pakiet (bez kursu)</option>
+                {courseOptions.map((e) => (
+                  <option key={e.id} value={e.course.id}>
+                    Doładuj kurs: {e.course.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {selectedPackage && (
+              <p className="text-xs text-gray-600">
+                Ważność: {selectedPackage.validityDays} dni od dziś. Zostanie utworzona płatność oczekująca na{' '}
+                {Number(selectedPackage.price).toFixed(2)} {selectedPackage.currency}.
+              </p>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => assignMutation.mutate()}
+                disabled={!selectedPackageId || assignMutation.isPending}
+                className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {assignMutation.isPending ? 'Przypisywanie...' : 'Przypisz pakiet'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Student packages */}
+      {isLoading ? (
+        <LoadingSpinner message="Ładowanie pakietów..." />
+      ) : studentPackages.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">Uczeń nie ma jeszcze żadnych pakietów</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {studentPackages.map((sp) => (
+            <BudgetDisplay
+              key={sp.id}
+              title={`${sp.package?.name ?? 'Pakiet'}${sp.course ? ` · ${sp.course.name}` : ''}`}
+              hoursPurchased={sp.hoursPurchased}
+              hoursUsed={sp.hoursUsed}
+              hoursRemaining={sp.hoursRemaining}
+              hoursExpired={sp.hoursExpired}
+              expiresAt={sp.expiresAt}
+              lowBudget={sp.lowBudget && sp.status === 'ACTIVE'}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import parentService, { LinkParentData, ParentRelation } from '../services/parentService';
+import { getErrorMessage } from '../lib/errorUtils';
+import LoadingSpinner from './LoadingSpinner';
+import ConfirmDialog from './ConfirmDialog';
+import { UserPlus, Trash2, Mail, Phone } from 'lucide-react';
+
+interface StudentParentsTabProps {
+  studentId: string;
+  isMinor?: boolean;
+}
+
+const relationshipLabels: Record<string, string> = {
+  parent: 'Rodzic',
+  guardian: 'Opiekun prawny',
+  other: 'Inna osoba',
+};
+
+const EMPTY_FORM: LinkParentData = {
+  email: '',
+  firstName: '',
+  lastName: '',
+  phone: '',
+  relationshipType: 'parent',
+  canManagePayments: true,
+  canManageSchedule: true,
+};
+
+export default function StudentParentsTab({ studentId, isMinor }: StudentParentsTabProps) {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<LinkParentData>(EMPTY_FORM);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [unlinkTarget, setUnlinkTarget] = useState<ParentRelation | null>(null);
+
+  const { data: relations = [], isLoading } = useQuery({
+    queryKey: ['student-parents', studentId],
+    queryFn: () => parentService.getStudentParents(studentId),
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: () => parentService.linkParent(studentId, { ...formData, phone: formData.phone || undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['student-parents', studentId] });
+      setFormData(EMPTY_FORM);
+      setIsFormOpen(false);
+      toast.success('Rodzic został powiązany z uczniem');
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się powiązać rodzica'));
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: { canManagePayments?: boolean; canManageSchedule?: boolean } }) =>
+      parentService.updateRelation(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['student-parents', studentId] });
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zaktualizować uprawnień'));
+    },
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: (id: string) => parentService.unlinkParent(id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['student-parents', studentId] });
+      toast.success(result.message);
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się odłączyć rodzica'));
+    },
+  });
+
+  const handleLink = () => {
+    if (!formData.email.trim() || !formData.firstName.trim() || !formData.lastName.trim()) {
+      toast.error('Uzupełnij imię, nazwisko i email rodzica');
+      return;
+    }
+    linkMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {isMinor
+            ? 'Uczeń jest niepełnoletni - powiązani rodzice otrzymują kopie wiadomości o lekcjach i płatnościach.'
+            : 'Rodzice mają dostęp do grafiku i płatności ucznia w swoim panelu.'}
+        </p>
+        {!isFormOpen && (
+          <button
+            type="button"
+            onClick={() => setIsFormOpen(true)}
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-secondary text-white rounded-lg hover:bg-secondary/90 transition-colors"
+          >
+            <UserPlus className="w-4 h-4" />
+            Powiąż rodzica
+          </button>
+        )}
+      </div>
+
+      {/* Link parent form (no nested <form> - rendered inside StudentModal form) */}
+      {isFormOpen && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={formData.firstName}
+              onChange={(e) => setFormData((prev) => ({ ...prev, firstName: e.target.value }))}
+              placeholder="Imię"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <input
+              type="text"
+              value={formData.lastName}
+              onChange={(e) => setFormData((prev) => ({ ...prev, lastName: e.target.value }))}
+              placeholder="Nazwisko"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <input
+              type="email"
+              value={formData.email}
+              onChange={(e) => setFormData((prev) => ({ ...prev, email: e.target.value }))}
+              placeholder="Email"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <input
+              type="tel"
+              value={formData.phone}
+              onChange={(e) => setFormData((prev) => ({ ...prev, phone: e.target.value }))}
+              placeholder="Telefon (opcjonalnie)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <select
+              value={formData.relationshipType}
+              onChange={(e) => setFormData((prev) => ({ ...prev, relationshipType: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {Object.entries(relationshipLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.canManagePayments}
+                onChange={(e) => setFormData((prev) => ({ ...prev, canManagePayments: e.target.checked }))}
+                className="rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              Widzi saldo i płatności
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.canManageSchedule}
+                onChange={(e) => setFormData((prev) => ({ ...prev, canManageSchedule: e.target.checked }))}
+                className="rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              Może odwoływać lekcje
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            Jeśli konto rodzica nie istnieje, zostanie utworzone, a na podany adres wyślemy zaproszenie z hasłem tymczasowym.
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => { setIsFormOpen(false); setFormData(EMPTY_FORM); }}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Anuluj
+            </button>
+            <button
+              type="button"
+              onClick={handleLink}
+              disabled={linkMutation.isPending}
+              className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {linkMutation.isPending ? 'Zapisywanie...' : 'Powiąż'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <LoadingSpinner message="Ładowanie rodziców..." />
+      ) : relations.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">Brak powiązanych rodziców</p>
+      ) : (
+        <div className="space-y-3">
+          {relations.map((relation) => (
+            <div key={relation.id} className="bg-white border border-gray-200 rounded-lg p-4 flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-semibold text-gray-900">
+                    {relation.parent.firstName} {relation.parent.lastName}
+                  </p>
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-orange-100 text-orange-800">
+                    {relationshipLabels[relation.relationshipType] || relation.relationshipType}
+                  </span>
+                  {!relation.parent.isActive && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">Nieaktywne konto</span>
+                  )}
+                </div>
+                <div className="mt-1 flex flex-wrap gap-4 text-xs text-gray-500">
+                  <span className="flex items-center gap-1"><Mail className="w-3 h-3" />{relation.parent.email}</span>
+                  {relation.parent.phone && (
+                    <span className="flex items-center gap-1"><Phone className="w-3 h-3" />{relation.parent.phone}</span>
+                  )}
+                </div>
+                <div className="mt-3 flex flex-wrap gap-4">
+                  <label className="flex items-center gap-2 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={relation.canManagePayments}
+                      disabled={updateMutation.isPending}
+                      onChange={(e) => updateMutation.mutate({ id: relation.id, data: { canManagePayments: e.target.checked } })}
+                      className="rounded border-gray-300 text-primary focus:ring-primary"
+                    />
+                    Saldo i płatności
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={relation.canManageSchedule}
+                      disabled={updateMutation.isPending}
+                      onChange={(e) => updateMutation.mutate({ id: relation.id, data: { canManageSchedule: e.target.checked } })}
+                      className="rounded border-gray-300 text-primary focus:ring-primary"
+                    />
+                    Odwoływanie lekcji
+                  </label>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => setUnlinkTarget(relation)}
+                className="text-red-600 hover:text-red-700"
+                title="Odłącz rodzica"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!unlinkTarget}
+        onClose={() => setUnlinkTarget(null)}
+        onConfirm={() => unlinkTarget && unlinkMutation.mutate(unlinkTarget.id)}
+        title="Odłącz rodzica"
+        message={`Czy na pewno chcesz odłączyć ${unlinkTarget?.parent.firstName ?? ''} ${unlinkTarget?.parent.lastName ?? ''} od ucznia? Konto rodzica nie zostanie usunięte.`}
+        confirmText="Odłącz"
+        cancelText="Anuluj"
+        variant="danger"
+      />
+    </div>
+  );
+}
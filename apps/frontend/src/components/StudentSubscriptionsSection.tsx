@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import subscriptionService, { SubscriptionEnrollmentStatus } from '../services/subscriptionService';
+import { courseService } from '../services/courseService';
+import { getErrorMessage } from '../lib/errorUtils';
+import LoadingSpinner from './LoadingSpinner';
+import { Repeat, Pause, Play, XCircle, AlertTriangle } from 'lucide-react';
+
+interface StudentSubscriptionsSectionProps {
+  studentId: string;
+  enrollments?: any[];
+}
+
+const statusLabels: Record<string, { label: string; className: string }> = {
+  ACTIVE: { label: 'Aktywny', className: 'bg-green-100 text-green-800' },
+  PAUSED: { label: 'Wstrzymany', className: 'bg-yellow-100 text-yellow-800' },
+  CANCELLED: { label: 'Anulowany', className: 'bg-gray-100 text-gray-600' },
+  COMPLETED: { label: 'Zakończony', className: 'bg-gray-100 text-gray-600' },
+};
+
+export default function StudentSubscriptionsSection({ studentId, enrollments = [] }: StudentSubscriptionsSectionProps) {
+  const queryClient = useQueryClient();
+  const [selectedSubscriptionId, setSelectedSubscriptionId] = useState('');
+  const [selectedCourseId, setSelectedCourseId] = useState('');
+
+  const { data: studentSubscriptions = [], isLoading } = useQuery({
+    queryKey: ['student-subscriptions', studentId],
+    queryFn: () => subscriptionService.getStudentSubscriptions(studentId),
+  });
+
+  const { data: subscriptions = [] } = useQuery({
+    queryKey: ['subscriptions', 'active'],
+    queryFn: () => subscriptionService.getSubscriptions({ isActive: true }),
+  });
+
+  const { data: coursesData } = useQuery({
+    queryKey: ['courses', 'active-list'],
+    queryFn: () => courseService.getCourses({ isActive: true, pageSize: 100 }),
+  });
+
+  // Courses the student is not in yet, or already attends on a subscription (plan change)
+  const blockedCourseIds = new Set(
+    enrollments
+      .filter((e) => ['ACTIVE', 'PAUSED'].includes(e.status) && e.paymentMode !== 'SUBSCRIPTION' && e.courseId)
+      .map((e) => e.courseId)
+  );
+  const courseOptions = (coursesData?.data || []).filter((c) => !blockedCourseIds.has(c.id));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['student-subscriptions', studentId] });
+    queryClient.invalidateQueries({ queryKey: ['payments'] });
+    queryClient.invalidateQueries({ queryKey: ['students'] });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: () =>
+      subscriptionService.assignSubscription(selectedSubscriptionId, {
+        studentId,
+        courseId: selectedCourseId || undefined,
+      }),
+    onSuccess: (result) => {
+      invalidate();
+      setSelectedSubscriptionId('');
+      setSelectedCourseId('');
+      toast.success(
+        result?.payment
+          ? 'Abonament przypisany. Utworzono płatność za bieżący miesiąc.'
+          : 'Plan abonamentu zmieniony. Nowa cena obowiązuje od kolejnego miesiąca.'
+      );
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się przypisać abonamentu'));
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ enrollmentId, status }: { enrollmentId: string; status: SubscriptionEnrollmentStatus }) =>
+      subscriptionService.updateStatus(enrollmentId, status),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Status abonamentu zaktualizowany');
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zmienić statusu abonamentu'));
+    },
+  });
+
+  const selectedSubscription = subscriptions.find((s) => s.id === selectedSubscriptionId);
+
+  return (
+    <div className="space-y-4">
+      {/* Assign subscription */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Repeat className="w-5 h-5 text-gray-500" />
+          <h3 className="text-sm font-semibold text-gray-900">Przypisz abonament miesięczny</h3>
+        </div>
+
+        {subscriptions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Brak aktywnych abonamentów. Dodaj je w zakładce „Abonamenty” w module Rozliczenia i wpłaty.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <select
+                value={selectedSubscriptionId}
+                onChange={(e) => setSelectedSubscriptionId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Wybierz abonament...</option>
+                {subscriptions.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name} - {s.lessonsPerMonth} lekcji, {Number(s.monthlyPrice).toFixed(2)} {s.currency}/mies.
+                  </option>
+                ))}
+              </select>
+              <select
+                value={selectedCourseId}
+                onChange={(e) => setSelectedCourseId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Bez kursu</option>
+                {courseOptions.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {selectedSubscription && (
+              <p className="text-xs text-gray-600">
+                Płatność {Number(selectedSubscription.monthlyPrice).toFixed(2)} {selectedSubscription.currency} zostanie
+                utworzona za bieżący miesiąc, a kolejne automatycznie na początku każdego miesiąca.
+              </p>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => assignMutation.mutate()}
+                disabled={!selectedSubscriptionId || assignMutation.isPending}
+                className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {assignMutation.isPending ? 'Przypisywanie...' : 'Przypisz abonament'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Student subscriptions */}
+      {isLoading ? (
+        <LoadingSpinner message="Ładowanie abonamentów..." />
+      ) : studentSubscriptions.length > 0 && (
+        <div className="space-y-3">
+          {studentSubscriptions.map((ss) => {
+            const status = statusLabels[ss.status] || statusLabels.ACTIVE;
+            const isOpen = ss.status === 'ACTIVE' || ss.status === 'PAUSED';
+
+            return (
+              <div key={ss.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h4 className="text-sm font-semibold text-gray-900">
+                        {ss.subscription?.name ?? 'Abonament'}
+                        {ss.course ? ` · ${ss.course.name}` : ''}
+                      </h4>
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${status.className}`}>{status.label}</span>
+                    </div>
+                    {ss.subscription && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {Number(ss.subscription.monthlyPrice).toFixed(2)} {ss.subscription.currency}/mies.
+                        {ss.billingPeriod ? ` · okres rozliczeniowy ${ss.billingPeriod}` : ''}
+                      </p>
+                    )}
+                  </div>
+
+                  {isOpen && (
+                    <div className="flex items-center gap-2">
+                      {ss.status === 'ACTIVE' ? (
+                        <button
+                          type="button"
+                          onClick={() => statusMutation.mutate({ enrollmentId: ss.id, status: 'PAUSED' })}
+                          disabled={statusMutation.isPending}
+                          className="text-yellow-600 hover:text-yellow-700"
+                          title="Wstrzymaj (brak opłat w kolejnych miesiącach)"
+                        >
+                          <Pause className="w-4 h-4" />
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => statusMutation.mutate({ enrollmentId: ss.id, status: 'ACTIVE' })}
+                          disabled={statusMutation.isPending}
+                          className="text-green-600 hover:text-green-700"
+                          title="Wznów (opłata od kolejnego miesiąca)"
+                        >
+                          <Play className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => statusMutation.mutate({ enrollmentId: ss.id, status: 'CANCELLED' })}
+                        disabled={statusMutation.isPending}
+                        className="text-red-600 hover:text-red-700"
+                        title="Zakończ abonament"
+                      >
+                        <XCircle className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {isOpen && (
+                  <div className="mt-3">
+                    <div className="flex justify-between text-xs text-gray-600 mb-1">
+                      <span>Wykorzystano w tym miesiącu: {ss.lessonsUsedInPeriod} / {ss.lessonsPerMonth}</span>
+                      <span>Pozostało: {ss.lessonsRemaining}</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2.5">
+                      <div
+                        className={`h-2.5 rounded-full transition-all ${ss.overLimit ? 'bg-red-600' : 'bg-green-600'}`}
+                        style={{
+                          width: `${ss.lessonsPerMonth > 0 ? Math.min((ss.lessonsUsedInPeriod / ss.lessonsPerMonth) * 100, 100) : 0}%`,
+                        }}
+                      ></div>
+                    </div>
+                    {ss.overLimit && (
+                      <div className="mt-2 flex items-center gap-2 text-xs text-red-700">
+                        <AlertTriangle className="w-4 h-4" />
+                        Przekroczono miesięczny limit lekcji o {ss.lessonsUsedInPeriod - ss.lessonsPerMonth}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import subscriptionService, { Subscription, SubscriptionFormData } from '../services/subscriptionService';
+import { getErrorMessage } from '../lib/errorUtils';
+import { Plus, Edit, Trash2, X } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+import ConfirmDialog from './ConfirmDialog';
+
+const EMPTY_FORM: SubscriptionFormData = {
+  name: '',
+  description: '',
+  monthlyPrice: 0,
+  lessonsPerMonth: 4,
+  currency: 'PLN',
+  isActive: true,
+};
+
+export default function SubscriptionsTab() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Subscription | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formData, setFormData] = useState<SubscriptionFormData>(EMPTY_FORM);
+  const [deleteTarget, setDeleteTarget] = useState<Subscription | null>(null);
+
+  const { data: subscriptions = [], isLoading } = useQuery({
+    queryKey: ['subscriptions'],
+    queryFn: () => subscriptionService.getSubscriptions(),
+  });
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditing(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: SubscriptionFormData) =>
+      editing ? subscriptionService.updateSubscription(editing.id, data) : subscriptionService.createSubscription(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
+      toast.success(editing ? 'Abonament został zaktualizowany' : 'Abonament został utworzony');
+      closeForm();
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zapisać abonamentu'));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => subscriptionService.deleteSubscription(id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
+      toast.success(result.message);
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się usunąć abonamentu'));
+    },
+  });
+
+  const openEdit = (subscription: Subscription) => {
+    setEditing(subscription);
+    setFormData({
+      name: subscription.name,
+      description: subscription.description || '',
+      monthlyPrice: Number(subscription.monthlyPrice),
+      lessonsPerMonth: subscription.lessonsPerMonth,
+      currency: subscription.currency,
+      isActive: subscription.isActive,
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || formData.lessonsPerMonth <= 0) {
+      toast.error('Uzupełnij nazwę i liczbę lekcji w miesiącu');
+      return;
+    }
+    saveMutation.mutate(formData);
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-gray-600">
+          Abonamenty przypisujesz uczniom w ich profilu (zakładka „Pakiety”). Opłaty miesięczne generowane są automatycznie na początku każdego miesiąca.
+        </p>
+        <button
+          onClick={() => { setEditing(null); setFormData(EMPTY_FORM); setIsFormOpen(true); }}
+          className="flex items-center gap-2 px-4 py-2 bg-secondary text-white rounded-lg hover:bg-secondary/90 transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          Dodaj abonament
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nazwa</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lekcje / mies.</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cena / mies.</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Uczniowie</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Akcje</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={5}>
+                  <LoadingSpinner message="Ładowanie abonamentów..." />
+                </td>
+              </tr>
+            ) : subscriptions.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                  Brak abonamentów. Dodaj pierwszy plan (np. 4 lekcje miesięcznie).
+                </td>
+              </tr>
+            ) : (
+              subscriptions.map((subscription) => (
+                <tr key={subscription.id} className={`hover:bg-gray-50 ${subscription.isActive ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">
+                      {subscription.name}
+                      {!subscription.isActive && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">Nieaktywny</span>
+                      )}
+                    </div>
+                    {subscription.description && <div className="text-xs text-gray-500">{subscription.description}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{subscription.lessonsPerMonth}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
+                    {Number(subscription.monthlyPrice).toFixed(2)} {subscription.currency}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{subscription._count?.enrollments ?? 0}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => openEdit(subscription)} className="text-secondary hover:text-secondary-dark">
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setDeleteTarget(subscription)} className="text-red-600 hover:text-red-700">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Subscription form */}
+      {isFormOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <div className="fixed inset-0 bg-black/50" onClick={closeForm} />
+
+            <form onSubmit={handleSubmit} className="relative bg-white rounded-lg shadow-xl max-w-lg w-full">
+              <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                <h2 className="text-xl font-bold text-gray-900">{editing ? 'Edytuj abonament' : 'Nowy abonament'}</h2>
+                <button type="button" onClick={closeForm} className="text-gray-400 hover:text-gray-600 transition-colors">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Nazwa</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="np. Abonament 4 lekcje"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Opis</label>
+                  <input
+                    type="text"
+                    value={formData.description}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Lekcje w miesiącu</label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={formData.lessonsPerMonth}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, lessonsPerMonth: parseInt(e.target.value) || 0 }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Cena miesięczna</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.monthlyPrice}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, monthlyPrice: parseFloat(e.target.value) || 0 }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Waluta</label>
+                    <select
+                      value={formData.currency}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, currency: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      {['PLN', 'EUR', 'USD', 'GBP', 'CHF'].map((c) => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, isActive: e.target.checked }))}
+                    className="rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  Aktywny (można przypisywać uczniom)
+                </label>
+                {editing && (editing._count?.enrollments ?? 0) > 0 && (
+                  <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">
+                    Nowa cena zostanie naliczona uczniom od kolejnego miesiąca.
+                  </p>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Anuluj
+                </button>
+                <button
+                  type="submit"
+                  disabled={saveMutation.isPending}
+                  className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                >
+                  {saveMutation.isPending ? 'Zapisywanie...' : 'Zapisz'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+        title="Usuń abonament"
+        message={`Czy na pewno chcesz usunąć abonament "${deleteTarget?.name ?? ''}"? Jeśli był przypisany uczniom, zostanie jedynie dezaktywowany.`}
+        confirmText="Usuń"
+        cancelText="Anuluj"
+        variant="danger"
+      />
+    </>
+  );
+}
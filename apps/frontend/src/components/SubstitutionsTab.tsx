@@ -4,8 +4,10 @@ import toast from 'react-hot-toast';
 import substitutionService, { Substitution } from '../services/substitutionService';
 import { format } from 'date-fns';
 import { pl } from 'date-fns/locale';
-import { GraduationCap, User, AlertCircle, Trash2, Calendar } from 'lucide-react';
+import { GraduationCap, User, AlertCircle, Trash2, Calendar, Users } from 'lucide-react';
 import ConfirmDialog from './ConfirmDialog';
+import BulkSubstitutionModal from './BulkSubstitutionModal';
+import { useAuthStore } from '../stores/authStore';
 
 interface SubstitutionsTabProps {
   substitutions: Substitution[];
@@ -14,6 +16,9 @@ interface SubstitutionsTabProps {
 const SubstitutionsTab: React.FC<SubstitutionsTabProps> = ({ substitutions }) => {
   const queryClient = useQueryClient();
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [isBulkModalOpen, setIsBulkModalOpen] = useState(false);
+  const user = useAuthStore((state) => state.user);
+  const canManage = user?.role === 'ADMIN' || user?.role === 'MANAGER';
 
   const deleteMutation = useMutation({
     mutationFn: (id: string) => substitutionService.deleteSubstitution(id),
@@ -28,6 +33,10 @@ const SubstitutionsTab: React.FC<SubstitutionsTabProps> = ({ substitutions }) =>
     },
   });
 
+  // The substitute is paid at their own rate; the original teacher gets nothing for the lesson
+  const getSubstitutePay = (substitution: Substitution) =>
+    (substitution.lesson.durationMinutes / 60) * Number(substitution.substituteTeacher.hourlyRate);
+
   const handleDelete = (id: string) => {
     setDeleteId(id);
   };
@@ -38,20 +47,39 @@ const SubstitutionsTab: React.FC<SubstitutionsTabProps> = ({ substitutions }) =>
     }
   };
 
+  const bulkToolbar = canManage && (
+    <div className="flex justify-end mb-4">
+      <button
+        onClick={() => setIsBulkModalOpen(true)}
+        className="flex items-center gap-2 px-4 py-2 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+      >
+        <Users className="h-4 w-4" />
+        Zastępstwo za lektora
+      </button>
+    </div>
+  );
+
+  const bulkModal = isBulkModalOpen && <BulkSubstitutionModal onClose={() => setIsBulkModalOpen(false)} />;
+
   if (substitutions.length === 0) {
     return (
-      <div className="bg-white rounded-lg shadow-sm border border-gray-200 py-12">
-        <div className="flex flex-col items-center justify-center text-gray-500">
-          <GraduationCap className="h-12 w-12 mb-2 text-gray-400" />
-          <p className="text-lg font-medium">Brak zastępstw</p>
-          <p className="text-sm">Zastępstwa można dodać podczas edycji lekcji</p>
+      <>
+        {bulkToolbar}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 py-12">
+          <div className="flex flex-col items-center justify-center text-gray-500">
+            <GraduationCap className="h-12 w-12 mb-2 text-gray-400" />
+            <p className="text-lg font-medium">Brak zastępstw</p>
+            <p className="text-sm">Zastępstwa można dodać podczas edycji lekcji</p>
+          </div>
         </div>
-      </div>
+        {bulkModal}
+      </>
     );
   }
 
   return (
     <>
+      {bulkToolbar}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
         <div className="px-6 py-3 bg-gray-50 border-b border-gray-200">
           <div className="grid grid-cols-7 gap-4 text-xs font-medium text-gray-500 uppercase tracking-wider">
@@ -101,6 +129,7 @@ const SubstitutionsTab: React.FC<SubstitutionsTabProps> = ({ substitutions }) =>
                   <div className="text-sm text-gray-900">
                     {substitution.originalTeacher.user.firstName}{' '}
                     {substitution.originalTeacher.user.lastName}
+                    <div className="text-xs text-gray-500">Bez wynagrodzenia za lekcję</div>
                   </div>
                 </div>
 
@@ -110,6 +139,10 @@ const SubstitutionsTab: React.FC<SubstitutionsTabProps> = ({ substitutions }) =>
                   <div className="text-sm font-medium text-amber-900">
                     {substitution.substituteTeacher.user.firstName}{' '}
                     {substitution.substituteTeacher.user.lastName}
+                    <div className="text-xs font-normal text-gray-500">
+                      Wynagrodzenie: {getSubstitutePay(substitution).toFixed(2)} {substitution.lesson.currency}
+                      {' '}({Number(substitution.substituteTeacher.hourlyRate).toFixed(2)}/h)
+                    </div>
                   </div>
                 </div>
 
@@ -165,6 +198,8 @@ const SubstitutionsTab: React.FC<SubstitutionsTabProps> = ({ substitutions }) =>
         confirmText="Usuń"
         variant="danger"
       />
+
+      {bulkModal}
     </>
   );
 };
@@ -0,0 +1,320 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { pl } from 'date-fns/locale';
+import { X, Plus, Trash2, CalendarOff } from 'lucide-react';
+import {
+  teacherService,
+  TeacherAvailabilityWindow,
+  TeacherUnavailabilityReason,
+} from '../services/teacherService';
+import LoadingSpinner from './LoadingSpinner';
+
+interface TeacherAvailabilityModalProps {
+  teacherId: string;
+  teacherName: string;
+  onClose: () => void;
+}
+
+// Monday first, values follow Date.getDay() (0 = Sunday)
+const WEEK_DAYS = [
+  { value: 1, label: 'Poniedziałek' },
+  { value: 2, label: 'Wtorek' },
+  { value: 3, label: 'Środa' },
+  { value: 4, label: 'Czwartek' },
+  { value: 5, label: 'Piątek' },
+  { value: 6, label: 'Sobota' },
+  { value: 0, label: 'Niedziela' },
+];
+
+const REASON_LABELS: Record<TeacherUnavailabilityReason, string> = {
+  VACATION: 'Urlop',
+  SICK_LEAVE: 'Zwolnienie lekarskie',
+  OTHER: 'Inne',
+};
+
+const TeacherAvailabilityModal: React.FC<TeacherAvailabilityModalProps> = ({ teacherId, teacherName, onClose }) => {
+  const queryClient = useQueryClient();
+  const [windows, setWindows] = useState<TeacherAvailabilityWindow[]>([]);
+  const [unavailabilityForm, setUnavailabilityForm] = useState({
+    startDate: '',
+    endDate: '',
+    reason: 'VACATION' as TeacherUnavailabilityReason,
+    notes: '',
+  });
+
+  const { data: availability, isLoading } = useQuery({
+    queryKey: ['teacher-availability', teacherId],
+    queryFn: () => teacherService.getAvailability(teacherId),
+  });
+
+  useEffect(() => {
+    if (availability) {
+      setWindows(availability.windows);
+    }
+  }, [availability]);
+
+  const saveWindowsMutation = useMutation({
+    mutationFn: () => teacherService.setAvailability(teacherId, windows),
+    onSuccess: () => {
+      toast.success('Godziny dostępności zostały zapisane');
+      queryClient.invalidateQueries({ queryKey: ['teacher-availability', teacherId] });
+      queryClient.invalidateQueries({ queryKey: ['lesson-availability'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error?.message || 'Błąd zapisywania dostępności');
+    },
+  });
+
+  const createUnavailabilityMutation = useMutation({
+    mutationFn: () =>
+      teacherService.createUnavailability(teacherId, {
+        startDate: new Date(unavailabilityForm.startDate).toISOString(),
+        endDate: new Date(unavailabilityForm.endDate).toISOString(),
+        reason: unavailabilityForm.reason,
+        notes: unavailabilityForm.notes || undefined,
+      }),
+    onSuccess: () => {
+      toast.success('Niedostępność została dodana');
+      setUnavailabilityForm({ startDate: '', endDate: '', reason: 'VACATION', notes: '' });
+      queryClient.invalidateQueries({ queryKey: ['teacher-availability', teacherId] });
+      queryClient.invalidateQueries({ queryKey: ['lesson-availability'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error?.message || 'Błąd dodawania niedostępności');
+    },
+  });
+
+  const deleteUnavailabilityMutation = useMutation({
+    mutationFn: (unavailabilityId: string) => teacherService.deleteUnavailability(teacherId, unavailabilityId),
+    onSuccess: () => {
+      toast.success('Niedostępność została usunięta');
+      queryClient.invalidateQueries({ queryKey: ['teacher-availability', teacherId] });
+      queryClient.invalidateQueries({ queryKey: ['lesson-availability'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error?.message || 'Błąd usuwania niedostępności');
+    },
+  });
+
+  const addWindow = (dayOfWeek: number) => {
+    setWindows((prev) => [...prev, { dayOfWeek, startTime: '09:00', endTime: '17:00' }]);
+  };
+
+  const updateWindow = (index: number, field: 'startTime' | 'endTime', value: string) => {
+    setWindows((prev) => prev.map((window, i) => (i === index ? { ...window, [field]: value } : window)));
+  };
+
+  const removeWindow = (index: number) => {
+    setWindows((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleAddUnavailability = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!unavailabilityForm.startDate || !unavailabilityForm.endDate) {
+      toast.error('Podaj datę rozpoczęcia i zakończenia');
+      return;
+    }
+    createUnavailabilityMutation.mutate();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Dostępność lektora</h2>
+            <p className="text-sm text-gray-500 mt-1">{teacherName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-12 flex justify-center">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className="p-6 space-y-8">
+            {/* Weekly working hours */}
+            <section>
+              <h3 className="text-lg font-semibold text-gray-900">Godziny pracy</h3>
+              <p className="text-sm text-gray-500 mt-1 mb-4">
+                Lekcje poza tymi godzinami będą oznaczane ostrzeżeniem. Brak godzin oznacza, że lektor jest zawsze dostępny.
+              </p>
+
+              <div className="space-y-3">
+                {WEEK_DAYS.map((day) => {
+                  const dayWindows = windows
+                    .map((window, index) => ({ window, index }))
+                    .filter(({ window }) => window.dayOfWeek === day.value);
+
+                  return (
+                    <div key={day.value} className="flex items-start gap-4 py-2 border-b border-gray-100 last:border-b-0">
+                      <span className="w-32 pt-2 text-sm font-medium text-gray-700">{day.label}</span>
+                      <div className="flex-1 space-y-2">
+                        {dayWindows.length === 0 && (
+                          <p className="pt-2 text-sm text-gray-400">Niedostępny</p>
+                        )}
+                        {dayWindows.map(({ window, index }) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <input
+                              type="time"
+                              value={window.startTime}
+                              onChange={(e) => updateWindow(index, 'startTime', e.target.value)}
+                              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                            />
+                            <span className="text-gray-400">–</span>
+                            <input
+                              type="time"
+                              value={window.endTime}
+                              onChange={(e) => updateWindow(index, 'endTime', e.target.value)}
+                              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => removeWindow(index)}
+                              className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                              title="Usuń przedział"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => addWindow(day.value)}
+                        className="mt-1 p-1 text-primary hover:bg-primary/10 rounded transition-colors"
+                        title="Dodaj przedział"
+                      >
+                        <Plus className="h-4 w-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="flex justify-end mt-4">
+                <button
+                  type="button"
+                  onClick={() => saveWindowsMutation.mutate()}
+                  disabled={saveWindowsMutation.isPending}
+                  className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                >
+                  {saveWindowsMutation.isPending ? 'Zapisywanie...' : 'Zapisz godziny pracy'}
+                </button>
+              </div>
+            </section>
+
+            {/* One-off unavailability */}
+            <section className="pt-6 border-t border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Urlopy i nieobecności</h3>
+              <p className="text-sm text-gray-500 mt-1 mb-4">
+                W tych terminach lektor nie jest dostępny do rezerwacji, a nowe lekcje są oznaczane ostrzeżeniem.
+              </p>
+
+              {availability && availability.unavailabilities.length > 0 ? (
+                <div className="space-y-2 mb-4">
+                  {availability.unavailabilities.map((unavailability) => (
+                    <div
+                      key={unavailability.id}
+                      className="flex items-center justify-between p-3 bg-gray-50 border border-gray-200 rounded-lg"
+                    >
+                      <div className="flex items-start gap-3">
+                        <CalendarOff className="h-4 w-4 text-gray-500 mt-0.5" />
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {REASON_LABELS[unavailability.reason]}
+                          </p>
+                          <p className="text-xs text-gray-600">
+                            {format(new Date(unavailability.startDate), 'dd MMM yyyy HH:mm', { locale: pl })}
+                            {' – '}
+                            {format(new Date(unavailability.endDate), 'dd MMM yyyy HH:mm', { locale: pl })}
+                          </p>
+                          {unavailability.notes && (
+                            <p className="text-xs text-gray-500 mt-0.5">{unavailability.notes}</p>
+                          )}
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => deleteUnavailabilityMutation.mutate(unavailability.id)}
+                        disabled={deleteUnavailabilityMutation.isPending}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Usuń"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400 mb-4">Brak zaplanowanych nieobecności</p>
+              )}
+
+              <form onSubmit={handleAddUnavailability} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Od *</label>
+                  <input
+                    type="datetime-local"
+                    value={unavailabilityForm.startDate}
+                    onChange={(e) => setUnavailabilityForm((prev) => ({ ...prev, startDate: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Do *</label>
+                  <input
+                    type="datetime-local"
+                    value={unavailabilityForm.endDate}
+                    onChange={(e) => setUnavailabilityForm((prev) => ({ ...prev, endDate: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Powód</label>
+                  <select
+                    value={unavailabilityForm.reason}
+                    onChange={(e) =>
+                      setUnavailabilityForm((prev) => ({ ...prev, reason: e.target.value as TeacherUnavailabilityReason }))
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    {(Object.keys(REASON_LABELS) as TeacherUnavailabilityReason[]).map((reason) => (
+                      <option key={reason} value={reason}>
+                        {REASON_LABELS[reason]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Uwagi</label>
+                  <input
+                    type="text"
+                    value={unavailabilityForm.notes}
+                    onChange={(e) => setUnavailabilityForm((prev) => ({ ...prev, notes: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                <div className="md:col-span-2 flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={createUnavailabilityMutation.isPending}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    {createUnavailabilityMutation.isPending ? 'Dodawanie...' : 'Dodaj nieobecność'}
+                  </button>
+                </div>
+              </form>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeacherAvailabilityModal;
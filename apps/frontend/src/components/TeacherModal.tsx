@@ -36,6 +36,10 @@ const TeacherModal: React.FC<TeacherModalProps> = ({ teacher, onClose, onSuccess
     cancellationPayoutEnabled: teacher?.cancellationPayoutEnabled ?? false,
     cancellationPayoutHours: teacher?.cancellationPayoutHours ?? null as number | null,
     cancellationPayoutPercent: teacher?.cancellationPayoutPercent ?? null as number | null,
+    vatRate: teacher?.vatRate === null ? 'zw' : String(teacher?.vatRate ?? 23),
+    zusExempt: teacher?.zusExempt ?? false,
+    pitExempt: teacher?.pitExempt ?? false,
+    bankAccountNumber: teacher?.bankAccountNumber || '',
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -122,6 +126,10 @@ const TeacherModal: React.FC<TeacherModalProps> = ({ teacher, onClose, onSuccess
           cancellationPayoutEnabled: formData.cancellationPayoutEnabled,
           cancellationPayoutHours: formData.cancellationPayoutEnabled ? formData.cancellationPayoutHours : null,
           cancellationPayoutPercent: formData.cancellationPayoutEnabled ? formData.cancellationPayoutPercent : null,
+          vatRate: formData.vatRate === 'zw' ? null : parseInt(formData.vatRate, 10),
+          zusExempt: formData.zusExempt,
+          pitExempt: formData.pitExempt,
+          bankAccountNumber: formData.bankAccountNumber.trim() || null,
         },
       });
     } else {
@@ -328,6 +336,67 @@ const TeacherModal: React.FC<TeacherModalProps> = ({ teacher, onClose, onSuccess
                 </select>
               </div>
 
+              {/* Payroll settings used for the monthly payroll export */}
+              {isEdit && formData.contractType === 'B2B' && (
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Stawka VAT na fakturze</label>
+                  <select
+                    name="vatRate"
+                    value={formData.vatRate}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="23">23%</option>
+                    <option value="8">8%</option>
+                    <option value="0">0%</option>
+                    <option value="zw">zw. (zwolniony z VAT)</option>
+                  </select>
+                </div>
+              )}
+              {isEdit && (formData.contractType === 'CIVIL' || formData.contractType === 'EMPLOYMENT') && (
+                <div className="col-span-2 flex flex-wrap gap-6">
+                  {formData.contractType === 'CIVIL' && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        name="zusExempt"
+                        checked={formData.zusExempt}
+                        onChange={handleChange}
+                        className="rounded border-gray-300"
+                      />
+                      Student do 26 lat (bez składek ZUS)
+                    </label>
+                  )}
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      name="pitExempt"
+                      checked={formData.pitExempt}
+                      onChange={handleChange}
+                      className="rounded border-gray-300"
+                    />
+                    Ulga dla młodych (bez zaliczki PIT)
+                  </label>
+                </div>
+              )}
+
+              {isEdit && (
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Numer konta do wypłat (NRB lub IBAN)</label>
+                  <input
+                    type="text"
+                    name="bankAccountNumber"
+                    value={formData.bankAccountNumber}
+                    onChange={handleChange}
+                    placeholder="PL61 1090 1014 0000 0712 1981 2874"
+                    className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary ${
+                      errors.bankAccountNumber ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.bankAccountNumber && <p className="mt-1 text-sm text-red-600">{errors.bankAccountNumber}</p>}
+                </div>
+              )}
+
               <div className="col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Specjalizacje (oddziel przecinkami)
@@ -7,6 +7,7 @@ import payoutService, {
   LessonForDay,
   TeacherPayoutStatus,
   TeacherForecast,
+  TeacherPayout,
   groupLessonsByStudent,
   groupLessonsForDayByStudent,
 } from '../services/payoutService';
@@ -29,9 +30,17 @@ import {
   AlertCircle,
   TrendingUp,
   Info,
+  Wallet,
+  FileSpreadsheet,
+  AlertTriangle,
+  Landmark,
 } from 'lucide-react';
 import LoadingSpinner from './LoadingSpinner';
 import ConfirmDialog from './ConfirmDialog';
+import TeacherRateCardModal from './TeacherRateCardModal';
+import PayrollPanel from './PayrollPanel';
+import TransferBatchPanel from './TransferBatchPanel';
+import PayoutInvoiceUpload from './PayoutInvoiceUpload';
 
 type ViewMode = 'list' | 'payout' | 'history';
 
@@ -51,6 +60,9 @@ export default function TeacherPayoutsTab() {
   const [rangeDraft, setRangeDraft] = useState<string | null>(null);
   const [expandedStudents, setExpandedStudents] = useState<Set<string>>(new Set());
   const [expandedLessonsStudents, setExpandedLessonsStudents] = useState<Set<string>>(new Set());
+  const [isRateCardOpen, setIsRateCardOpen] = useState(false);
+  const [resolvingPayoutId, setResolvingPayoutId] = useState<string | null>(null);
+  const [disputeResolution, setDisputeResolution] = useState('');
   type CalendarFilter =
     | { type: 'ALL' }
     | { type: 'DAY'; date: string };
@@ -59,7 +71,7 @@ export default function TeacherPayoutsTab() {
     useState<CalendarFilter>({ type: 'ALL' });
 
   // Forecast state
-  const [listTab, setListTab] = useState<'payouts' | 'forecast'>('payouts');
+  const [listTab, setListTab] = useState<'payouts' | 'forecast' | 'payroll' | 'transfers'>('payouts');
   const [forecastDateFrom, setForecastDateFrom] = useState<string>(() => {
     const today = new Date();
     return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-01`;
@@ -154,10 +166,12 @@ export default function TeacherPayoutsTab() {
 
   // Update payout status mutation
   const updateStatusMutation = useMutation({
-    mutationFn: ({ id, status }: { id: string; status: TeacherPayoutStatus }) =>
-      payoutService.updatePayoutStatus(id, status),
+    mutationFn: ({ id, status, resolution }: { id: string; status: TeacherPayoutStatus; resolution?: string }) =>
+      payoutService.updatePayoutStatus(id, status, undefined, resolution),
     onSuccess: () => {
       toast.success('Status wypłaty został zaktualizowany');
+      setResolvingPayoutId(null);
+      setDisputeResolution('');
       queryClient.invalidateQueries({ queryKey: ['teacher-payouts'] });
       queryClient.invalidateQueries({ queryKey: ['payouts-teachers-summary'] });
     },
@@ -312,6 +326,17 @@ export default function TeacherPayoutsTab() {
     return `${amount.toFixed(2)} ${currency}`;
   };
 
+  // One-line gross/net estimate depending on the contract the payout was made under
+  const formatPayrollSummary = (payout: TeacherPayout) => {
+    const payroll = payout.payroll!;
+    if (payroll.contractType === 'B2B') {
+      const vat = payroll.vatRate === null ? 'zw' : `VAT ${payroll.vatRate}% ${formatCurrency(payroll.vatAmount, payout.currency)}`;
+      return `B2B • netto ${formatCurrency(payroll.amount, payout.currency)} • ${vat} • faktura brutto ${formatCurrency(payroll.netAmount, payout.currency)}`;
+    }
+    const label = payroll.contractType === 'EMPLOYMENT' ? 'Umowa o pracę' : 'Umowa zlecenie';
+    return `${label} • brutto ${formatCurrency(payroll.amount, payout.currency)} • ZUS ${formatCurrency(payroll.employeeZus, payout.currency)} • zdrowotna ${formatCurrency(payroll.healthInsurance, payout.currency)} • PIT ${formatCurrency(payroll.pitAdvance, payout.currency)} • netto ${formatCurrency(payroll.netAmount, payout.currency)}`;
+  };
+
   const getStatusBadge = (status: TeacherPayoutStatus) => {
     const badges = {
       PENDING: (
@@ -513,8 +538,30 @@ export default function TeacherPayoutsTab() {
             <TrendingUp className="w-4 h-4" />
             Prognoza wypłat
           </button>
+          <button
+            onClick={() => setListTab('payroll')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              listTab === 'payroll' ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Lista płac
+          </button>
+          <button
+            onClick={() => setListTab('transfers')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              listTab === 'transfers' ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <Landmark className="w-4 h-4" />
+            Przelewy
+          </button>
         </div>
 
+        {listTab === 'payroll' && <PayrollPanel />}
+
+        {listTab === 'transfers' && <TransferBatchPanel />}
+
         {listTab === 'payouts' && (
           <>
             {/* Search */}
@@ -763,7 +810,14 @@ export default function TeacherPayoutsTab() {
                                       <td className="py-2 text-gray-500 whitespace-nowrap">
                                         {new Date(lesson.scheduledAt).toLocaleDateString('pl-PL')} {new Date(lesson.scheduledAt).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' })}
                                       </td>
-                                      <td className="py-2 font-medium">{lesson.title}</td>
+                                      <td className="py-2 font-medium">
+                                        {lesson.title}
+                                        {lesson.substituteFor && (
+                                          <span className="block text-xs font-normal text-amber-700">
+                                            Zastępstwo za {lesson.substituteFor}
+                                          </span>
+                                        )}
+                                      </td>
                                       <td className="py-2">{lesson.studentName}</td>
                                       <td className="py-2">{getCourseTypeLabel(lesson.courseType)}</td>
                                       <td className="py-2">
@@ -771,6 +825,9 @@ export default function TeacherPayoutsTab() {
                                       </td>
                                       <td className="py-2 text-right font-semibold">
                                         {formatCurrency(lesson.amount, lesson.currency)}
+                                        {lesson.rateRuleName && (
+                                          <span className="block text-xs font-normal text-gray-400">{lesson.rateRuleName}</span>
+                                        )}
                                       </td>
                                     </tr>
                                   ))}
@@ -847,6 +904,21 @@ export default function TeacherPayoutsTab() {
                           {new Date(payout.periodEnd).toLocaleDateString('pl-PL')}
                         </span>
                         {getStatusBadge(payout.status)}
+                        {payout.signOffStatus === 'CONFIRMED' && (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-50 text-green-700 flex items-center gap-1">
+                            <CheckCircle className="w-3 h-3" /> Potwierdzona przez lektora
+                          </span>
+                        )}
+                        {payout.signOffStatus === 'DISPUTED' && (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800 flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3" /> Zakwestionowana przez lektora
+                          </span>
+                        )}
+                        {payout.signOffStatus === 'RESOLVED' && (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-50 text-blue-700 flex items-center gap-1">
+                            <CheckCircle className="w-3 h-3" /> Zastrzeżenia rozstrzygnięte
+                          </span>
+                        )}
                         <span className="text-xs text-gray-500">
                           Utworzono: {new Date(payout.createdAt).toLocaleDateString('pl-PL')}
                         </span>
@@ -879,14 +951,84 @@ export default function TeacherPayoutsTab() {
                       {payout.notes && (
                         <p className="mt-2 text-sm text-gray-600">Notatki: {payout.notes}</p>
                       )}
+                      {payout.signOffStatus === 'DISPUTED' && (
+                        <div className="mt-3 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm">
+                          <p className="text-orange-900">
+                            <span className="font-medium">Zastrzeżenia lektora:</span> {payout.disputeReason}
+                          </p>
+                          <ul className="mt-2 space-y-1 text-orange-800">
+                            {payout.lessons
+                              ?.filter((line) => line.isDisputed)
+                              .map((line) => (
+                                <li key={line.id}>
+                                  {new Date(line.lessonDate).toLocaleDateString('pl-PL')} • {line.lessonTitle} •{' '}
+                                  {line.studentName} • {formatCurrency(Number(line.amount), line.currency)}
+                                </li>
+                              ))}
+                          </ul>
+                          {payout.status === 'PENDING' && resolvingPayoutId === payout.id && (
+                            <div className="mt-3 space-y-2">
+                              <textarea
+                                value={disputeResolution}
+                                onChange={(e) => setDisputeResolution(e.target.value)}
+                                rows={2}
+                                placeholder="Jak rozstrzygnięto zastrzeżenia lektora (np. korekta kwoty, wyjaśnienie)"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-secondary focus:border-transparent"
+                              />
+                              <div className="flex justify-end gap-2">
+                                <button
+                                  onClick={() => setResolvingPayoutId(null)}
+                                  className="px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                                >
+                                  Anuluj
+                                </button>
+                                <button
+                                  onClick={() =>
+                                    updateStatusMutation.mutate({
+                                      id: payout.id,
+                                      status: 'APPROVED',
+                                      resolution: disputeResolution.trim(),
+                                    })
+                                  }
+                                  disabled={!disputeResolution.trim() || updateStatusMutation.isPending}
+                                  className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                                >
+                                  Rozstrzygnij i zatwierdź
+                                </button>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      {payout.signOffStatus === 'RESOLVED' && payout.disputeResolution && (
+                        <p className="mt-2 text-sm text-gray-600">
+                          Rozstrzygnięcie zastrzeżeń: {payout.disputeResolution}
+                        </p>
+                      )}
+                      {payout.payroll?.contractType && (
+                        <p className="mt-2 text-xs text-gray-500">{formatPayrollSummary(payout)}</p>
+                      )}
+                      {payout.payroll?.contractType === 'B2B' && (
+                        <div className="mt-3">
+                          <PayoutInvoiceUpload
+                            payout={payout}
+                            onChanged={() => queryClient.invalidateQueries({ queryKey: ['teacher-payouts'] })}
+                          />
+                        </div>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       {payout.status === 'PENDING' && (
                         <>
                           <button
-                            onClick={() =>
-                              updateStatusMutation.mutate({ id: payout.id, status: 'APPROVED' })
-                            }
+                            onClick={() => {
+                              if (payout.signOffStatus === 'DISPUTED') {
+                                setResolvingPayoutId(payout.id);
+                                setDisputeResolution('');
+                              } else {
+                                updateStatusMutation.mutate({ id: payout.id, status: 'APPROVED' });
+                              }
+                            }}
                             className="px-3 py-1.5 text-sm bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
                           >
                             Zatwierdź
@@ -905,7 +1047,13 @@ export default function TeacherPayoutsTab() {
                           onClick={() =>
                             updateStatusMutation.mutate({ id: payout.id, status: 'PAID' })
                           }
-                          className="px-3 py-1.5 text-sm bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition-colors"
+                          disabled={payout.payroll?.contractType === 'B2B' && !payout.invoiceFileId}
+                          title={
+                            payout.payroll?.contractType === 'B2B' && !payout.invoiceFileId
+                              ? 'Najpierw dołącz fakturę lektora'
+                              : undefined
+                          }
+                          className="px-3 py-1.5 text-sm bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                           Oznacz jako wypłacona
                         </button>
@@ -953,15 +1101,38 @@ export default function TeacherPayoutsTab() {
             </p>
           </div>
         </div>
-        <button
-          onClick={handleShowHistory}
-          className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
-        >
-          <History className="w-5 h-5" />
-          Historia wypłat
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIsRateCardOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <Wallet className="w-5 h-5" />
+            Stawki
+          </button>
+          <button
+            onClick={handleShowHistory}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <History className="w-5 h-5" />
+            Historia wypłat
+          </button>
+        </div>
       </div>
 
+      {isRateCardOpen && selectedTeacher && (
+        <TeacherRateCardModal
+          teacherId={selectedTeacher.id}
+          teacherName={`${selectedTeacher.firstName} ${selectedTeacher.lastName}`}
+          baseHourlyRate={Number(selectedTeacher.hourlyRate)}
+          onClose={() => {
+            setIsRateCardOpen(false);
+            // Amounts depend on the rate card - refresh what is on screen
+            if (preview) previewMutation.mutate();
+            if (lessonsRangeQuery.data) lessonsRangeQuery.refetch();
+          }}
+        />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left column - Calendar and settings */}
         <div className="lg:col-span-1 space-y-6">
@@ -1206,6 +1377,9 @@ export default function TeacherPayoutsTab() {
                                     {lesson.qualificationReason && (
                                       <> • {getQualificationReasonLabel(lesson.qualificationReason, lesson.payoutPercent)}</>
                                     )}
+                                    {lesson.substituteFor && (
+                                      <span className="text-amber-700"> • Zastępstwo za {lesson.substituteFor}</span>
+                                    )}
                                   </div>
                                 </div>
                                 <div className="text-right">
@@ -1214,6 +1388,7 @@ export default function TeacherPayoutsTab() {
                                   </div>
                                   <div className="text-xs text-gray-400">
                                     {formatCurrency(lesson.hourlyRate)}/h
+                                    {lesson.rateRuleName && <> • {lesson.rateRuleName}</>}
                                   </div>
                                 </div>
                               </div>
@@ -1255,6 +1430,29 @@ export default function TeacherPayoutsTab() {
                     </div>
                   </div>
                 </div>
+
+                {/* Amounts per rate card rule - only worth showing once any rule applies */}
+                {preview.ruleBreakdown.some((item) => item.rateRuleId !== null) && (
+                  <div className="mt-6">
+                    <h4 className="text-sm font-semibold text-gray-700 mb-2">Podział według stawek</h4>
+                    <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                      {preview.ruleBreakdown.map((item) => (
+                        <div key={item.rateRuleId ?? 'BASE'} className="flex items-center justify-between px-3 py-2 text-sm">
+                          <span className="text-gray-900">{item.rateRuleName}</span>
+                          <div className="flex items-center gap-4">
+                            <span className="text-xs text-gray-500">
+                              {item.lessonsCount} {item.lessonsCount === 1 ? 'lekcja' : item.lessonsCount < 5 ? 'lekcje' : 'lekcji'} •{' '}
+                              {(item.totalMinutes / 60).toFixed(2)}h
+                            </span>
+                            <span className="font-semibold text-green-600">
+                              {formatCurrency(item.totalAmount, preview.currency)}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Qualified lessons grouped by student */}
@@ -1332,6 +1530,9 @@ export default function TeacherPayoutsTab() {
                                         {new Date(lesson.scheduledAt).toLocaleDateString('pl-PL')} •{' '}
                                         {lesson.durationMinutes} min •{' '}
                                         {getQualificationReasonLabel(lesson.qualificationReason, lesson.payoutPercent)}
+                                        {lesson.substituteFor && (
+                                          <span className="text-amber-700"> • Zastępstwo za {lesson.substituteFor}</span>
+                                        )}
                                       </div>
                                     </div>
                                     <div className="text-right">
@@ -1340,6 +1541,7 @@ export default function TeacherPayoutsTab() {
                                       </div>
                                       <div className="text-xs text-gray-400">
                                         {formatCurrency(lesson.hourlyRate)}/h
+                                        {lesson.rateRuleName && <> • {lesson.rateRuleName}</>}
                                       </div>
                                     </div>
                                   </div>
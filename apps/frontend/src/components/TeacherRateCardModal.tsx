@@ -0,0 +1,468 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { ArrowDown, ArrowUp, Edit, Plus, Trash2, Wallet, X } from 'lucide-react';
+import payoutService, { TeacherRateRule, TeacherRateRuleInput } from '../services/payoutService';
+import { courseService } from '../services/courseService';
+import ConfirmDialog from './ConfirmDialog';
+import LoadingSpinner from './LoadingSpinner';
+
+interface TeacherRateCardModalProps {
+  teacherId: string;
+  teacherName: string;
+  baseHourlyRate: number;
+  onClose: () => void;
+}
+
+// Monday first, values follow Date.getDay()
+const DAYS = [
+  { value: 1, label: 'Pn' },
+  { value: 2, label: 'Wt' },
+  { value: 3, label: 'Śr' },
+  { value: 4, label: 'Cz' },
+  { value: 5, label: 'Pt' },
+  { value: 6, label: 'Sb' },
+  { value: 0, label: 'Nd' },
+];
+
+const emptyRule: TeacherRateRuleInput = {
+  name: '',
+  isActive: true,
+  courseFormat: null,
+  deliveryMode: null,
+  courseId: null,
+  minParticipants: null,
+  maxParticipants: null,
+  daysOfWeek: [],
+  startTime: null,
+  endTime: null,
+  rateType: 'HOURLY',
+  rate: 0,
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary';
+
+/**
+ * Short description of rule conditions, e.g. "Grupowe • Online • Pn, Śr • 17:00-21:00"
+ */
+const describeConditions = (rule: TeacherRateRule) => {
+  const parts: string[] = [];
+  if (rule.courseFormat) parts.push(rule.courseFormat === 'GROUP' ? 'Grupowe' : 'Indywidualne');
+  if (rule.deliveryMode) parts.push(rule.deliveryMode === 'ONLINE' ? 'Online' : 'Stacjonarnie');
+  if (rule.course) parts.push(`Kurs: ${rule.course.name}`);
+  if (rule.minParticipants !== null || rule.maxParticipants !== null) {
+    parts.push(`Uczestników: ${rule.minParticipants ?? 1}-${rule.maxParticipants ?? '∞'}`);
+  }
+  if (rule.daysOfWeek.length > 0) {
+    parts.push(DAYS.filter((day) => rule.daysOfWeek.includes(day.value)).map((day) => day.label).join(', '));
+  }
+  if (rule.startTime || rule.endTime) parts.push(`${rule.startTime ?? '00:00'}-${rule.endTime ?? '24:00'}`);
+  return parts.length > 0 ? parts.join(' • ') : 'Wszystkie lekcje';
+};
+
+const TeacherRateCardModal: React.FC<TeacherRateCardModalProps> = ({
+  teacherId,
+  teacherName,
+  baseHourlyRate,
+  onClose,
+}) => {
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState<TeacherRateRuleInput>(emptyRule);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ['teacher-rate-rules', teacherId],
+    queryFn: () => payoutService.getRateRules(teacherId),
+  });
+
+  const { data: coursesResult } = useQuery({
+    queryKey: ['courses', 'active'],
+    queryFn: () => courseService.getCourses({ isActive: true, pageSize: 500 }),
+    staleTime: 10 * 60 * 1000,
+  });
+  const courses = coursesResult?.data ?? [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['teacher-rate-rules', teacherId] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editingId === 'new'
+        ? payoutService.createRateRule(teacherId, form)
+        : payoutService.updateRateRule(editingId!, form),
+    onSuccess: () => {
+      toast.success(editingId === 'new' ? 'Reguła została dodana' : 'Reguła została zaktualizowana');
+      setEditingId(null);
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Błąd podczas zapisywania reguły');
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: (rule: TeacherRateRule) => payoutService.updateRateRule(rule.id, { isActive: !rule.isActive }),
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Błąd podczas aktualizacji reguły');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => payoutService.deleteRateRule(id),
+    onSuccess: () => {
+      toast.success('Reguła została usunięta');
+      setDeleteId(null);
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Błąd podczas usuwania reguły');
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (ruleIds: string[]) => payoutService.reorderRateRules(teacherId, ruleIds),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['teacher-rate-rules', teacherId], data);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Błąd podczas zmiany kolejności');
+    },
+  });
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const ids = rules.map((rule) => rule.id);
+    const target = index + direction;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const startEdit = (rule?: TeacherRateRule) => {
+    if (rule) {
+      setForm({
+        name: rule.name,
+        isActive: rule.isActive,
+        courseFormat: rule.courseFormat,
+        deliveryMode: rule.deliveryMode,
+        courseId: rule.courseId,
+        minParticipants: rule.minParticipants,
+        maxParticipants: rule.maxParticipants,
+        daysOfWeek: rule.daysOfWeek,
+        startTime: rule.startTime,
+        endTime: rule.endTime,
+        rateType: rule.rateType,
+        rate: Number(rule.rate),
+      });
+      setEditingId(rule.id);
+    } else {
+      setForm(emptyRule);
+      setEditingId('new');
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    setForm((prev) => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter((d) => d !== day)
+        : [...prev.daysOfWeek, day],
+    }));
+  };
+
+  const parseOptionalInt = (value: string) => (value === '' ? null : parseInt(value, 10));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/50" onClick={onClose} />
+
+        <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div className="flex items-center gap-3">
+              <Wallet className="h-5 w-5 text-primary" />
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Stawki: {teacherName}</h2>
+                <p className="text-sm text-gray-500">
+                  Reguły sprawdzane są od góry - lekcję wycenia pierwsza pasująca. Pozostałe lekcje rozliczane są
+                  stawką podstawową {baseHourlyRate.toFixed(2)} zł/h.
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {isLoading ? (
+              <LoadingSpinner message="Ładowanie stawek..." />
+            ) : rules.length === 0 && editingId === null ? (
+              <p className="text-sm text-gray-500 text-center py-4">
+                Brak reguł - wszystkie lekcje rozliczane są stawką podstawową.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {rules.map((rule, index) => (
+                  <li key={rule.id} className={`flex items-center gap-3 px-4 py-3 ${rule.isActive ? '' : 'opacity-50'}`}>
+                    <div className="flex flex-col">
+                      <button
+                        onClick={() => moveRule(index, -1)}
+                        disabled={index === 0 || reorderMutation.isPending}
+                        className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                        title="W górę"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => moveRule(index, 1)}
+                        disabled={index === rules.length - 1 || reorderMutation.isPending}
+                        className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                        title="W dół"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{rule.name}</p>
+                      <p className="text-xs text-gray-500">{describeConditions(rule)}</p>
+                    </div>
+                    <span className="text-sm font-semibold text-gray-900 whitespace-nowrap">
+                      {Number(rule.rate).toFixed(2)} zł{rule.rateType === 'HOURLY' ? '/h' : ' / lekcja'}
+                    </span>
+                    <label className="flex items-center gap-1 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={rule.isActive}
+                        onChange={() => toggleActiveMutation.mutate(rule)}
+                        className="rounded border-gray-300"
+                      />
+                      Aktywna
+                    </label>
+                    <button
+                      onClick={() => startEdit(rule)}
+                      className="p-1 text-gray-400 hover:text-primary"
+                      title="Edytuj"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setDeleteId(rule.id)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Usuń"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {editingId !== null ? (
+              <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 space-y-4 bg-gray-50">
+                <h3 className="text-sm font-semibold text-gray-900">
+                  {editingId === 'new' ? 'Nowa reguła' : 'Edycja reguły'}
+                </h3>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div className="md:col-span-1">
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Nazwa *</label>
+                    <input
+                      type="text"
+                      required
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      placeholder="np. Grupy wieczorne"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Typ stawki</label>
+                    <select
+                      value={form.rateType}
+                      onChange={(e) => setForm({ ...form, rateType: e.target.value as TeacherRateRuleInput['rateType'] })}
+                      className={inputClass}
+                    >
+                      <option value="HOURLY">Za godzinę</option>
+                      <option value="PER_LESSON">Za lekcję</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Stawka (zł) *</label>
+                    <input
+                      type="number"
+                      required
+                      min={0}
+                      step="0.01"
+                      value={form.rate}
+                      onChange={(e) => setForm({ ...form, rate: parseFloat(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Format</label>
+                    <select
+                      value={form.courseFormat ?? ''}
+                      onChange={(e) =>
+                        setForm({ ...form, courseFormat: (e.target.value || null) as TeacherRateRuleInput['courseFormat'] })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="">Dowolny</option>
+                      <option value="GROUP">Grupowe</option>
+                      <option value="INDIVIDUAL">Indywidualne</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Tryb</label>
+                    <select
+                      value={form.deliveryMode ?? ''}
+                      onChange={(e) =>
+                        setForm({ ...form, deliveryMode: (e.target.value || null) as TeacherRateRuleInput['deliveryMode'] })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="">Dowolny</option>
+                      <option value="IN_PERSON">Stacjonarnie</option>
+                      <option value="ONLINE">Online</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Kurs</label>
+                    <select
+                      value={form.courseId ?? ''}
+                      onChange={(e) => setForm({ ...form, courseId: e.target.value || null })}
+                      className={inputClass}
+                    >
+                      <option value="">Dowolny</option>
+                      {courses.map((course: any) => (
+                        <option key={course.id} value={course.id}>{course.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Min. uczestników</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={form.minParticipants ?? ''}
+                      onChange={(e) => setForm({ ...form, minParticipants: parseOptionalInt(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Maks. uczestników</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={form.maxParticipants ?? ''}
+                      onChange={(e) => setForm({ ...form, maxParticipants: parseOptionalInt(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Start od</label>
+                    <input
+                      type="time"
+                      value={form.startTime ?? ''}
+                      onChange={(e) => setForm({ ...form, startTime: e.target.value || null })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Start przed</label>
+                    <input
+                      type="time"
+                      value={form.endTime ?? ''}
+                      onChange={(e) => setForm({ ...form, endTime: e.target.value || null })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    Dni tygodnia (brak zaznaczenia = każdy dzień)
+                  </label>
+                  <div className="flex flex-wrap gap-3">
+                    {DAYS.map((day) => (
+                      <label key={day.value} className="flex items-center gap-1 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={form.daysOfWeek.includes(day.value)}
+                          onChange={() => toggleDay(day.value)}
+                          className="rounded border-gray-300"
+                        />
+                        {day.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Anuluj
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saveMutation.isPending}
+                    className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                  >
+                    {saveMutation.isPending ? 'Zapisywanie...' : 'Zapisz regułę'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                onClick={() => startEdit()}
+                className="flex items-center gap-2 text-sm text-primary hover:text-primary/80"
+              >
+                <Plus className="h-4 w-4" />
+                Dodaj regułę
+              </button>
+            )}
+          </div>
+
+          <div className="flex justify-end p-6 border-t border-gray-200">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Zamknij
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={deleteId !== null}
+        onClose={() => setDeleteId(null)}
+        onConfirm={() => deleteId && deleteMutation.mutate(deleteId)}
+        title="Usuń regułę stawki"
+        message="Reguła zostanie usunięta. Zapisane wypłaty zachowają naliczone kwoty."
+        confirmText="Usuń"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </div>
+  );
+};
+
+export default TeacherRateCardModal;
@@ -0,0 +1,254 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { Download, CheckCircle, AlertCircle, Landmark } from 'lucide-react';
+import payoutService, { TeacherPayout, TransferFileFormat } from '../services/payoutService';
+import { reportService } from '../services/reportService';
+import LoadingSpinner from './LoadingSpinner';
+import ConfirmDialog from './ConfirmDialog';
+
+const formatCurrency = (amount: number, currency = 'PLN') =>
+  new Intl.NumberFormat('pl-PL', { style: 'currency', currency }).format(amount);
+
+const formatAccount = (account: string) => account.replace(/(.{4})/g, '$1 ').trim();
+
+// Net pay after ZUS/PIT withholding, for B2B the invoice gross - the amount that goes into the transfer
+const transferAmount = (payout: TeacherPayout) => payout.payroll?.netAmount ?? Number(payout.totalAmount);
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Reason the payout cannot go into a transfer file, null when it is ready
+ */
+const getBlocker = (payout: TeacherPayout): string | null => {
+  if (payout.signOffStatus === 'DISPUTED') return 'Zakwestionowana przez lektora';
+  if (!payout.teacher?.bankAccountNumber) return 'Brak numeru konta lektora';
+  const contractType = payout.contractType ?? payout.teacher.contractType;
+  if (contractType === 'B2B' && !payout.invoiceFileId) return 'Brak faktury';
+  return null;
+};
+
+/**
+ * Approved payouts -> Elixir-O / SEPA bulk transfer file, then the whole batch is marked as paid
+ */
+export default function TransferBatchPanel() {
+  const queryClient = useQueryClient();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [fileFormat, setFileFormat] = useState<TransferFileFormat>('elixir');
+  const [executionDate, setExecutionDate] = useState(today);
+  const [exportedIds, setExportedIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  const { data: payouts = [], isLoading } = useQuery({
+    queryKey: ['payouts', 'APPROVED'],
+    queryFn: () => payoutService.getPayouts({ status: 'APPROVED' }),
+  });
+
+  const readyPayouts = useMemo(() => payouts.filter((payout) => !getBlocker(payout)), [payouts]);
+  const selectedPayouts = payouts.filter((payout) => selectedIds.has(payout.id));
+
+  const selectedTotals = useMemo(() => {
+    const totals = new Map<string, number>();
+    for (const payout of selectedPayouts) {
+      totals.set(payout.currency, (totals.get(payout.currency) || 0) + transferAmount(payout));
+    }
+    return Array.from(totals.entries());
+  }, [selectedPayouts]);
+
+  const markPaidMutation = useMutation({
+    mutationFn: () => payoutService.markTransferBatchPaid(exportedIds, executionDate),
+    onSuccess: (result) => {
+      toast.success(`Oznaczono ${result.count} wypłat jako wypłacone`);
+      setExportedIds([]);
+      setSelectedIds(new Set());
+      setIsConfirmOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['payouts'] });
+      queryClient.invalidateQueries({ queryKey: ['teacher-payouts'] });
+      queryClient.invalidateQueries({ queryKey: ['payouts-teachers-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['payroll'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Błąd podczas oznaczania wypłat');
+    },
+  });
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(
+      selectedIds.size === readyPayouts.length ? new Set() : new Set(readyPayouts.map((payout) => payout.id))
+    );
+  };
+
+  const handleExport = async () => {
+    const payoutIds = Array.from(selectedIds);
+    setIsExporting(true);
+    try {
+      const blob = await payoutService.exportTransferBatch(payoutIds, fileFormat, executionDate);
+      reportService.downloadFile(blob, `przelewy-lektorzy-${executionDate}.${fileFormat === 'sepa' ? 'xml' : 'pli'}`);
+      setExportedIds(payoutIds);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Błąd podczas generowania pliku przelewów');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-wrap gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Format pliku</label>
+            <select
+              value={fileFormat}
+              onChange={(e) => setFileFormat(e.target.value as TransferFileFormat)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-secondary focus:border-transparent"
+            >
+              <option value="elixir">Elixir-O (przelewy krajowe PLN)</option>
+              <option value="sepa">SEPA pain.001 (XML, przelewy w EUR)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Data realizacji</label>
+            <input
+              type="date"
+              value={executionDate}
+              onChange={(e) => setExecutionDate(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-secondary focus:border-transparent"
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          {selectedTotals.length > 0 && (
+            <span className="text-sm text-gray-600">
+              Wybrano {selectedIds.size}:{' '}
+              {selectedTotals.map(([currency, total]) => formatCurrency(total, currency)).join(', ')}
+            </span>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={isExporting || selectedIds.size === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            {isExporting ? 'Generowanie...' : 'Pobierz plik przelewów'}
+          </button>
+        </div>
+      </div>
+
+      {exportedIds.length > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3 text-sm text-blue-900">
+            <Landmark className="w-5 h-5 text-blue-600" />
+            Plik dla {exportedIds.length} wypłat został pobrany. Po zaimportowaniu go w banku i zatwierdzeniu przelewów
+            oznacz wypłaty jako wypłacone.
+          </div>
+          <button
+            onClick={() => setIsConfirmOpen(true)}
+            className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+          >
+            Przelewy zlecone - oznacz jako wypłacone
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        {isLoading ? (
+          <LoadingSpinner message="Ładowanie zatwierdzonych wypłat..." />
+        ) : payouts.length === 0 ? (
+          <div className="p-12 text-center text-gray-500">Brak zatwierdzonych wypłat do przelania</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-xs text-gray-500 border-b border-gray-200">
+                <th className="w-10 px-6 py-3">
+                  <input
+                    type="checkbox"
+                    checked={readyPayouts.length > 0 && selectedIds.size === readyPayouts.length}
+                    onChange={toggleAll}
+                    disabled={readyPayouts.length === 0}
+                    className="rounded border-gray-300"
+                  />
+                </th>
+                <th className="text-left px-3 py-3 font-medium">Lektor</th>
+                <th className="text-left px-3 py-3 font-medium">Okres</th>
+                <th className="text-left px-3 py-3 font-medium">Rachunek</th>
+                <th className="text-right px-6 py-3 font-medium">Kwota przelewu</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {payouts.map((payout) => {
+                const blocker = getBlocker(payout);
+                return (
+                  <tr key={payout.id} className={blocker ? 'text-gray-400' : 'text-gray-700'}>
+                    <td className="px-6 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(payout.id)}
+                        onChange={() => toggleSelected(payout.id)}
+                        disabled={!!blocker}
+                        className="rounded border-gray-300"
+                      />
+                    </td>
+                    <td className="px-3 py-3 font-medium text-gray-900">
+                      {payout.teacher?.user.firstName} {payout.teacher?.user.lastName}
+                    </td>
+                    <td className="px-3 py-3 whitespace-nowrap">
+                      {new Date(payout.periodStart).toLocaleDateString('pl-PL')} -{' '}
+                      {new Date(payout.periodEnd).toLocaleDateString('pl-PL')}
+                    </td>
+                    <td className="px-3 py-3">
+                      {blocker ? (
+                        <span className="flex items-center gap-1 text-amber-700">
+                          <AlertCircle className="w-4 h-4" />
+                          {blocker}
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 font-mono text-xs">
+                          <CheckCircle className="w-4 h-4 text-green-600" />
+                          {formatAccount(payout.teacher!.bankAccountNumber!)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-right font-semibold">
+                      {formatCurrency(transferAmount(payout), payout.currency)}
+                      {transferAmount(payout) !== Number(payout.totalAmount) && (
+                        <div className="text-xs font-normal text-gray-500">
+                          wypłata {formatCurrency(Number(payout.totalAmount), payout.currency)}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={isConfirmOpen}
+        onClose={() => setIsConfirmOpen(false)}
+        onConfirm={() => markPaidMutation.mutate()}
+        title="Oznacz wypłaty jako wypłacone"
+        message={`Potwierdzasz, że bank przyjął plik przelewów? ${exportedIds.length} wypłat otrzyma status "Wypłacona" z datą ${new Date(executionDate).toLocaleDateString('pl-PL')}.`}
+        confirmText="Oznacz jako wypłacone"
+        cancelText="Anuluj"
+        variant="info"
+        isLoading={markPaidMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { AlertTriangle, CalendarPlus, X } from 'lucide-react';
+import courseApplicationService, { CourseApplication } from '../services/courseApplicationService';
+import { teacherService } from '../services/teacherService';
+import { lessonService } from '../services/lessonService';
+import classroomService from '../services/classroomService';
+import { getErrorMessage } from '../lib/errorUtils';
+
+interface TrialLessonModalProps {
+  application: CourseApplication;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary';
+
+const TrialLessonModal: React.FC<TrialLessonModalProps> = ({ application, onClose, onSuccess }) => {
+  const [formData, setFormData] = useState({
+    teacherId: '',
+    scheduledAt: '',
+    durationMinutes: 60,
+    deliveryMode: 'ONLINE' as 'IN_PERSON' | 'ONLINE',
+    meetingUrl: '',
+    classroomId: '',
+    pricePerLesson: 0,
+  });
+
+  const { data: teachersResult } = useQuery({
+    queryKey: ['teachers', 'active'],
+    queryFn: () => teacherService.getTeachers({ isActive: true, pageSize: 200 }),
+    staleTime: 10 * 60 * 1000,
+  });
+  const teachers = teachersResult?.data ?? [];
+
+  const { data: classrooms = [] } = useQuery({
+    queryKey: ['classrooms', 'active'],
+    queryFn: () => classroomService.getClassrooms({ isActive: true }),
+    staleTime: 5 * 60 * 1000,
+    enabled: formData.deliveryMode === 'IN_PERSON',
+  });
+
+  // Live check of the teacher's calendar - the server rejects conflicting bookings anyway
+  const { data: conflicts } = useQuery({
+    queryKey: ['lesson-conflicts', formData.teacherId, formData.scheduledAt, formData.durationMinutes],
+    queryFn: () =>
+      lessonService.checkConflicts(
+        formData.teacherId,
+        null,
+        new Date(formData.scheduledAt).toISOString(),
+        formData.durationMinutes,
+      ),
+    enabled: !!formData.teacherId && !!formData.scheduledAt && formData.durationMinutes > 0,
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: () => {
+      const classroom = classrooms.find((c) => c.id === formData.classroomId);
+      return courseApplicationService.scheduleTrialLesson(application.id, {
+        teacherId: formData.teacherId,
+        scheduledAt: new Date(formData.scheduledAt).toISOString(),
+        durationMinutes: formData.durationMinutes,
+        deliveryMode: formData.deliveryMode,
+        meetingUrl: formData.deliveryMode === 'ONLINE' ? formData.meetingUrl || undefined : undefined,
+        classroomId: formData.deliveryMode === 'IN_PERSON' ? formData.classroomId : undefined,
+        locationId: formData.deliveryMode === 'IN_PERSON' ? classroom?.locationId : undefined,
+        pricePerLesson: formData.pricePerLesson,
+      });
+    },
+    onSuccess: () => {
+      toast.success('Lekcja próbna umówiona. Szczegóły wysłano do zgłaszającego.');
+      onSuccess();
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się umówić lekcji próbnej'));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.deliveryMode === 'IN_PERSON' && !formData.classroomId) {
+      toast.error('Wybierz salę dla lekcji stacjonarnej');
+      return;
+    }
+    scheduleMutation.mutate();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/50" onClick={onClose} />
+
+        <form onSubmit={handleSubmit} className="relative bg-white rounded-lg shadow-xl max-w-lg w-full">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div className="flex items-center gap-3">
+              <CalendarPlus className="h-5 w-5 text-primary" />
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Lekcja próbna</h2>
+                <p className="text-sm text-gray-500">{application.name}</p>
+              </div>
+            </div>
+            <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-600 bg-blue-50 border border-blue-200 rounded-lg p-3">
+              Zgłaszający zostanie dodany jako uczeń próbny (bez dostępu do konta) i otrzyma email ze szczegółami lekcji.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Lektor *</label>
+              <select
+                required
+                value={formData.teacherId}
+                onChange={(e) => setFormData({ ...formData, teacherId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">-- Wybierz lektora --</option>
+                {teachers.map((teacher) => (
+                  <option key={teacher.id} value={teacher.id}>
+                    {teacher.user.firstName} {teacher.user.lastName}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Data i godzina *</label>
+                <input
+                  type="datetime-local"
+                  required
+                  value={formData.scheduledAt}
+                  onChange={(e) => setFormData({ ...formData, scheduledAt: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Czas trwania (min) *</label>
+                <input
+                  type="number"
+                  required
+                  min={15}
+                  step={15}
+                  value={formData.durationMinutes}
+                  onChange={(e) => setFormData({ ...formData, durationMinutes: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {conflicts?.hasConflicts && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                <p className="font-medium flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  Lektor ma już zajęcia w tym terminie
+                </p>
+                <ul className="mt-1 list-disc list-inside">
+                  {conflicts.teacherConflicts.map((conflict) => (
+                    <li key={conflict.id}>
+                      {conflict.title} ({new Date(conflict.scheduledAt).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' })},{' '}
+                      {conflict.durationMinutes} min)
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {!conflicts?.hasConflicts && conflicts?.isOutsideAvailability && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                {conflicts.availabilityWarnings.map((warning) => (
+                  <p key={warning}>{warning}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Tryb *</label>
+                <select
+                  value={formData.deliveryMode}
+                  onChange={(e) => setFormData({ ...formData, deliveryMode: e.target.value as 'IN_PERSON' | 'ONLINE' })}
+                  className={inputClass}
+                >
+                  <option value="ONLINE">Online</option>
+                  <option value="IN_PERSON">Stacjonarnie</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cena (PLN)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={formData.pricePerLesson}
+                  onChange={(e) => setFormData({ ...formData, pricePerLesson: Number(e.target.value) })}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-gray-500">0 = bezpłatna lekcja próbna</p>
+              </div>
+            </div>
+
+            {formData.deliveryMode === 'ONLINE' ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Link do spotkania</label>
+                <input
+                  type="url"
+                  value={formData.meetingUrl}
+                  onChange={(e) => setFormData({ ...formData, meetingUrl: e.target.value })}
+                  placeholder="https://"
+                  className={inputClass}
+                />
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Sala *</label>
+                <select
+                  value={formData.classroomId}
+                  onChange={(e) => setFormData({ ...formData, classroomId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">-- Wybierz salę --</option>
+                  {classrooms.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.location?.name ? `${c.location.name} — ` : ''}{c.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Anuluj
+            </button>
+            <button
+              type="submit"
+              disabled={scheduleMutation.isPending || conflicts?.hasConflicts}
+              className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {scheduleMutation.isPending ? 'Zapisywanie...' : 'Umów lekcję próbną'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TrialLessonModal;
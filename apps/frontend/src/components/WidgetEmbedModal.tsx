@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Code2, Copy, ExternalLink, X } from 'lucide-react';
+
+interface WidgetEmbedModalProps {
+  orgSlug: string;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary';
+
+const WidgetEmbedModal: React.FC<WidgetEmbedModalProps> = ({ orgSlug, onClose }) => {
+  const [preset, setPreset] = useState({ language: '', level: '', mode: '', freeSeats: false });
+
+  const origin = window.location.origin;
+  const params = new URLSearchParams();
+  if (preset.language) params.set('language', preset.language);
+  if (preset.level) params.set('level', preset.level);
+  if (preset.mode) params.set('mode', preset.mode);
+  if (preset.freeSeats) params.set('freeSeats', 'true');
+  const query = params.toString();
+  const embedUrl = `${origin}/embed/${orgSlug}${query ? `?${query}` : ''}`;
+
+  const scriptAttributes = [
+    `data-org="${orgSlug}"`,
+    preset.language && `data-language="${preset.language}"`,
+    preset.level && `data-level="${preset.level}"`,
+    preset.mode && `data-mode="${preset.mode}"`,
+    preset.freeSeats && 'data-free-seats="true"',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  const scriptSnippet = `<div id="lingodesk-widget"></div>\n<script src="${origin}/widget.js" ${scriptAttributes} async></script>`;
+  const iframeSnippet = `<iframe src="${embedUrl}" title="Oferta kursów" style="width:100%;min-height:600px;border:0"></iframe>`;
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text).then(() => {
+      toast.success('Kod skopiowany!');
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/50" onClick={onClose} />
+
+        <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div className="flex items-center gap-3">
+              <Code2 className="h-5 w-5 text-primary" />
+              <h2 className="text-xl font-bold text-gray-900">Widget na stronę szkoły</h2>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-5">
+            <p className="text-sm text-gray-600">
+              Widget pokazuje aktualne kursy grupowe z wolnymi miejscami i pozwala zapisać się bez wychodzenia ze strony.
+              Kolory i logo pobierane są z ustawień organizacji. Zgłoszenia trafiają na listę ze źródłem „Widget na stronie”.
+            </p>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Filtry domyślne (opcjonalnie)</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-center">
+                <input
+                  type="text"
+                  value={preset.language}
+                  onChange={(e) => setPreset({ ...preset, language: e.target.value.trim() })}
+                  placeholder="Język, np. en"
+                  className={inputClass}
+                />
+                <select
+                  value={preset.level}
+                  onChange={(e) => setPreset({ ...preset, level: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Każdy poziom</option>
+                  {['A1', 'A2', 'B1', 'B2', 'C1', 'C2'].map((level) => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+                <select
+                  value={preset.mode}
+                  onChange={(e) => setPreset({ ...preset, mode: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Każdy tryb</option>
+                  <option value="IN_PERSON">Stacjonarnie</option>
+                  <option value="ONLINE">Online</option>
+                </select>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={preset.freeSeats}
+                    onChange={(e) => setPreset({ ...preset, freeSeats: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  Tylko wolne miejsca
+                </label>
+              </div>
+            </div>
+
+            {[
+              { label: 'Skrypt (zalecany - automatyczna wysokość)', snippet: scriptSnippet },
+              { label: 'Iframe', snippet: iframeSnippet },
+            ].map(({ label, snippet }) => (
+              <div key={label}>
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="text-sm font-semibold text-gray-900">{label}</h3>
+                  <button
+                    onClick={() => copy(snippet)}
+                    className="flex items-center gap-1 text-sm text-primary hover:text-primary/80"
+                  >
+                    <Copy className="h-4 w-4" />
+                    Kopiuj
+                  </button>
+                </div>
+                <pre className="bg-gray-900 text-gray-100 text-xs rounded-lg p-3 whitespace-pre-wrap break-all">{snippet}</pre>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between gap-3 p-6 border-t border-gray-200">
+            <a
+              href={embedUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <ExternalLink className="h-4 w-4" />
+              Podgląd
+            </a>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Zamknij
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WidgetEmbedModal;
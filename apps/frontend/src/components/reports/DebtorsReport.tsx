@@ -3,19 +3,24 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import { reportService } from '../../services/reportService';
 import { Download, FileText } from 'lucide-react';
 import LoadingSpinner from '../LoadingSpinner';
+import OriginalAmounts from './OriginalAmounts';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
 
-const DebtorsReport: React.FC = () => {
+interface DebtorsReportProps {
+  reportingCurrency?: string;
+}
+
+const DebtorsReport: React.FC<DebtorsReportProps> = ({ reportingCurrency }) => {
   // Fetch report data
   const { data, isLoading } = useQuery({
-    queryKey: ['report-debtors'],
-    queryFn: () => reportService.getDebtors(),
+    queryKey: ['report-debtors', reportingCurrency],
+    queryFn: () => reportService.getDebtors({ reportingCurrency }),
   });
 
   // Export mutations
   const exportCsvMutation = useMutation({
-    mutationFn: () => reportService.exportReport('debtors', 'csv', {}),
+    mutationFn: () => reportService.exportReport('debtors', 'csv', { reportingCurrency }),
     onSuccess: (blob) => {
       reportService.downloadFile(blob, `dluznicy-${new Date().toISOString().split('T')[0]}.csv`);
       toast.success('Raport CSV został pobrany');
@@ -26,7 +31,7 @@ const DebtorsReport: React.FC = () => {
   });
 
   const exportPdfMutation = useMutation({
-    mutationFn: () => reportService.exportReport('debtors', 'pdf', {}),
+    mutationFn: () => reportService.exportReport('debtors', 'pdf', { reportingCurrency }),
     onSuccess: (blob) => {
       reportService.downloadFile(blob, `dluznicy-${new Date().toISOString().split('T')[0]}.pdf`);
       toast.success('Raport PDF został pobrany');
@@ -38,6 +43,7 @@ const DebtorsReport: React.FC = () => {
 
   // Calculate total debt
   const totalDebt = data ? data.reduce((sum, row) => sum + row.totalDebt, 0) : 0;
+  const currency = data?.[0]?.currency || reportingCurrency || 'PLN';
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200">
@@ -92,7 +98,7 @@ const DebtorsReport: React.FC = () => {
                       Email
                     </th>
                     <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
-                      Dług
+                      Dług ({currency})
                     </th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-900">
                       Najstarsza płatność
@@ -111,7 +117,8 @@ const DebtorsReport: React.FC = () => {
                       <td className="px-4 py-3 text-sm text-gray-900">{row.studentName}</td>
                       <td className="px-4 py-3 text-sm text-gray-600">{row.email}</td>
                       <td className="px-4 py-3 text-sm font-medium text-red-600 text-right">
-                        {row.totalDebt.toFixed(2)} PLN
+                        {row.totalDebt.toFixed(2)} {row.currency}
+                        <OriginalAmounts amounts={row.originalDebt} currency={row.currency} />
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-900">
                         {format(new Date(row.oldestPaymentDate), 'dd.MM.yyyy')}
@@ -147,7 +154,7 @@ const DebtorsReport: React.FC = () => {
               <div className="bg-orange-50 rounded-lg p-4">
                 <div className="text-sm font-medium text-orange-900">Łączny dług</div>
                 <div className="mt-1 text-2xl font-bold text-orange-900">
-                  {totalDebt.toFixed(2)} PLN
+                  {totalDebt.toFixed(2)} {currency}
                 </div>
               </div>
             </div>
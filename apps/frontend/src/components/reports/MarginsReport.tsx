@@ -3,10 +3,15 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import { reportService } from '../../services/reportService';
 import { Download, FileText, Calendar } from 'lucide-react';
 import LoadingSpinner from '../LoadingSpinner';
+import OriginalAmounts from './OriginalAmounts';
 import toast from 'react-hot-toast';
 import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
 
-const MarginsReport: React.FC = () => {
+interface MarginsReportProps {
+  reportingCurrency?: string;
+}
+
+const MarginsReport: React.FC<MarginsReportProps> = ({ reportingCurrency }) => {
   const today = new Date();
   const lastMonthStart = startOfMonth(subMonths(today, 1));
   const lastMonthEnd = endOfMonth(subMonths(today, 1));
@@ -16,11 +21,12 @@ const MarginsReport: React.FC = () => {
 
   // Fetch report data
   const { data, isLoading } = useQuery({
-    queryKey: ['report-margins', startDate, endDate],
+    queryKey: ['report-margins', startDate, endDate, reportingCurrency],
     queryFn: () =>
       reportService.getMargins({
         startDate,
         endDate,
+        reportingCurrency,
       }),
   });
 
@@ -30,6 +36,7 @@ const MarginsReport: React.FC = () => {
       reportService.exportReport('margins', 'csv', {
         startDate,
         endDate,
+        reportingCurrency,
       }),
     onSuccess: (blob) => {
       reportService.downloadFile(blob, `marze-${startDate}.csv`);
@@ -45,6 +52,7 @@ const MarginsReport: React.FC = () => {
       reportService.exportReport('margins', 'pdf', {
         startDate,
         endDate,
+        reportingCurrency,
       }),
     onSuccess: (blob) => {
       reportService.downloadFile(blob, `marze-${startDate}.pdf`);
@@ -63,6 +71,7 @@ const MarginsReport: React.FC = () => {
         totalProfit: data.reduce((sum, row) => sum + row.grossProfit, 0),
       }
     : { totalRevenue: 0, totalCosts: 0, totalProfit: 0 };
+  const currency = data?.[0]?.currency || reportingCurrency || 'PLN';
 
   const avgMargin = totals.totalRevenue > 0 ? (totals.totalProfit / totals.totalRevenue) * 100 : 0;
 
@@ -132,13 +141,13 @@ const MarginsReport: React.FC = () => {
                       Format
                     </th>
                     <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
-                      Przychód
+                      Przychód ({currency})
                     </th>
                     <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
-                      Koszty
+                      Koszty ({currency})
                     </th>
                     <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
-                      Zysk
+                      Zysk ({currency})
                     </th>
                     <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
                       Marża
@@ -156,13 +165,15 @@ const MarginsReport: React.FC = () => {
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-600">{row.courseType === 'GROUP' ? 'Grupowy' : 'Indywidualny'}</td>
                       <td className="px-4 py-3 text-sm text-gray-900 text-right">
-                        {row.totalRevenue.toFixed(2)} PLN
+                        {row.totalRevenue.toFixed(2)} {row.currency}
+                        <OriginalAmounts amounts={row.originalRevenue} currency={row.currency} />
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-900 text-right">
-                        {row.totalTeacherCost.toFixed(2)} PLN
+                        {row.totalTeacherCost.toFixed(2)} {row.currency}
+                        <OriginalAmounts amounts={row.originalTeacherCost} currency={row.currency} />
                       </td>
                       <td className="px-4 py-3 text-sm font-medium text-gray-900 text-right">
-                        {row.grossProfit.toFixed(2)} PLN
+                        {row.grossProfit.toFixed(2)} {row.currency}
                       </td>
                       <td className="px-4 py-3 text-sm text-right">
                         <span
@@ -188,19 +199,19 @@ const MarginsReport: React.FC = () => {
               <div className="bg-blue-50 rounded-lg p-4">
                 <div className="text-sm font-medium text-blue-900">Całkowity przychód</div>
                 <div className="mt-1 text-2xl font-bold text-blue-900">
-                  {totals.totalRevenue.toFixed(2)} PLN
+                  {totals.totalRevenue.toFixed(2)} {currency}
                 </div>
               </div>
               <div className="bg-red-50 rounded-lg p-4">
                 <div className="text-sm font-medium text-red-900">Całkowite koszty</div>
                 <div className="mt-1 text-2xl font-bold text-red-900">
-                  {totals.totalCosts.toFixed(2)} PLN
+                  {totals.totalCosts.toFixed(2)} {currency}
                 </div>
               </div>
               <div className="bg-green-50 rounded-lg p-4">
                 <div className="text-sm font-medium text-green-900">Całkowity zysk</div>
                 <div className="mt-1 text-2xl font-bold text-green-900">
-                  {totals.totalProfit.toFixed(2)} PLN
+                  {totals.totalProfit.toFixed(2)} {currency}
                 </div>
               </div>
               <div className="bg-purple-50 rounded-lg p-4">
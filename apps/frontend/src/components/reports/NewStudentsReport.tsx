@@ -3,18 +3,23 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import { reportService } from '../../services/reportService';
 import { Download, FileText } from 'lucide-react';
 import LoadingSpinner from '../LoadingSpinner';
+import OriginalAmounts from './OriginalAmounts';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
 
-const NewStudentsReport: React.FC = () => {
+interface NewStudentsReportProps {
+  reportingCurrency?: string;
+}
+
+const NewStudentsReport: React.FC<NewStudentsReportProps> = ({ reportingCurrency }) => {
   const today = new Date();
   const [selectedMonth, setSelectedMonth] = useState(today.getMonth() + 1);
   const [selectedYear, setSelectedYear] = useState(today.getFullYear());
 
   // Fetch report data
   const { data, isLoading } = useQuery({
-    queryKey: ['report-new-students', selectedMonth, selectedYear],
-    queryFn: () => reportService.getNewStudents(selectedMonth, selectedYear),
+    queryKey: ['report-new-students', selectedMonth, selectedYear, reportingCurrency],
+    queryFn: () => reportService.getNewStudents(selectedMonth, selectedYear, reportingCurrency),
   });
 
   // Export mutations
@@ -23,6 +28,7 @@ const NewStudentsReport: React.FC = () => {
       reportService.exportReport('new-students', 'csv', {
         month: selectedMonth,
         year: selectedYear,
+        reportingCurrency,
       }),
     onSuccess: (blob) => {
       reportService.downloadFile(blob, `nowi-uczniowie-${selectedMonth}-${selectedYear}.csv`);
@@ -38,6 +44,7 @@ const NewStudentsReport: React.FC = () => {
       reportService.exportReport('new-students', 'pdf', {
         month: selectedMonth,
         year: selectedYear,
+        reportingCurrency,
       }),
     onSuccess: (blob) => {
       reportService.downloadFile(blob, `nowi-uczniowie-${selectedMonth}-${selectedYear}.pdf`);
@@ -50,6 +57,7 @@ const NewStudentsReport: React.FC = () => {
 
   // Calculate totals
   const totalSpent = data ? data.reduce((sum, row) => sum + row.totalSpent, 0) : 0;
+  const currency = data?.[0]?.currency || reportingCurrency || 'PLN';
 
   const months = [
     'Styczeń', 'Luty', 'Marzec', 'Kwiecień', 'Maj', 'Czerwiec',
@@ -136,7 +144,7 @@ const NewStudentsReport: React.FC = () => {
                       Poziom
                     </th>
                     <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
-                      Wydano
+                      Wydano ({currency})
                     </th>
                   </tr>
                 </thead>
@@ -154,7 +162,8 @@ const NewStudentsReport: React.FC = () => {
                         {row.languageLevel || '-'}
                       </td>
                       <td className="px-4 py-3 text-sm font-medium text-gray-900 text-right">
-                        {row.totalSpent.toFixed(2)} PLN
+                        {row.totalSpent.toFixed(2)} {row.currency}
+                        <OriginalAmounts amounts={row.originalSpent} currency={row.currency} />
                       </td>
                     </tr>
                   ))}
@@ -171,7 +180,7 @@ const NewStudentsReport: React.FC = () => {
               <div className="bg-green-50 rounded-lg p-4">
                 <div className="text-sm font-medium text-green-900">Łączne wydatki</div>
                 <div className="mt-1 text-2xl font-bold text-green-900">
-                  {totalSpent.toFixed(2)} PLN
+                  {totalSpent.toFixed(2)} {currency}
                 </div>
               </div>
             </div>
@@ -0,0 +1,22 @@
+import React from 'react';
+import { CurrencyAmount } from '../../services/reportService';
+
+interface OriginalAmountsProps {
+  amounts: CurrencyAmount[];
+  currency: string;
+}
+
+/**
+ * Amounts before conversion - hidden when everything was already in the reporting currency
+ */
+const OriginalAmounts: React.FC<OriginalAmountsProps> = ({ amounts, currency }) => {
+  if (amounts.every((item) => item.currency === currency)) return null;
+
+  return (
+    <div className="text-xs font-normal text-gray-500">
+      {amounts.map((item) => `${item.amount.toFixed(2)} ${item.currency}`).join(' + ')}
+    </div>
+  );
+};
+
+export default OriginalAmounts;
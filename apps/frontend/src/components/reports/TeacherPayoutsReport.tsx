@@ -3,10 +3,15 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import { reportService } from '../../services/reportService';
 import { Download, FileText, Calendar } from 'lucide-react';
 import LoadingSpinner from '../LoadingSpinner';
+import OriginalAmounts from './OriginalAmounts';
 import toast from 'react-hot-toast';
 import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
 
-const TeacherPayoutsReport: React.FC = () => {
+interface TeacherPayoutsReportProps {
+  reportingCurrency?: string;
+}
+
+const TeacherPayoutsReport: React.FC<TeacherPayoutsReportProps> = ({ reportingCurrency }) => {
   const today = new Date();
   const lastMonthStart = startOfMonth(subMonths(today, 1));
   const lastMonthEnd = endOfMonth(subMonths(today, 1));
@@ -16,11 +21,12 @@ const TeacherPayoutsReport: React.FC = () => {
 
   // Fetch report data
   const { data, isLoading } = useQuery({
-    queryKey: ['report-teacher-payouts', startDate, endDate],
+    queryKey: ['report-teacher-payouts', startDate, endDate, reportingCurrency],
     queryFn: () =>
       reportService.getTeacherPayouts({
         startDate,
         endDate,
+        reportingCurrency,
       }),
   });
 
@@ -30,6 +36,7 @@ const TeacherPayoutsReport: React.FC = () => {
       reportService.exportReport('teacher-payouts', 'csv', {
         startDate,
         endDate,
+        reportingCurrency,
       }),
     onSuccess: (blob) => {
       reportService.downloadFile(blob, `wyplaty-nauczycieli-${startDate}.csv`);
@@ -45,6 +52,7 @@ const TeacherPayoutsReport: React.FC = () => {
       reportService.exportReport('teacher-payouts', 'pdf', {
         startDate,
         endDate,
+        reportingCurrency,
       }),
     onSuccess: (blob) => {
       reportService.downloadFile(blob, `wyplaty-nauczycieli-${startDate}.pdf`);
@@ -63,6 +71,7 @@ const TeacherPayoutsReport: React.FC = () => {
         totalPayout: data.reduce((sum, row) => sum + row.totalPayout, 0),
       }
     : { lessonsCount: 0, totalHours: 0, totalPayout: 0 };
+  const currency = data?.[0]?.currency || reportingCurrency || 'PLN';
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200">
@@ -136,7 +145,7 @@ const TeacherPayoutsReport: React.FC = () => {
                       Godziny
                     </th>
                     <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
-                      Wypłata
+                      Wypłata ({currency})
                     </th>
                   </tr>
                 </thead>
@@ -152,7 +161,8 @@ const TeacherPayoutsReport: React.FC = () => {
                         {row.totalHours.toFixed(2)}
                       </td>
                       <td className="px-4 py-3 text-sm font-medium text-gray-900 text-right">
-                        {row.totalPayout.toFixed(2)} PLN
+                        {row.totalPayout.toFixed(2)} {row.currency}
+                        <OriginalAmounts amounts={row.originalPayout} currency={row.currency} />
                       </td>
                     </tr>
                   ))}
@@ -175,7 +185,7 @@ const TeacherPayoutsReport: React.FC = () => {
               <div className="bg-purple-50 rounded-lg p-4">
                 <div className="text-sm font-medium text-purple-900">Całkowita wypłata</div>
                 <div className="mt-1 text-2xl font-bold text-purple-900">
-                  {totals.totalPayout.toFixed(2)} PLN
+                  {totals.totalPayout.toFixed(2)} {currency}
                 </div>
               </div>
             </div>
@@ -1,4 +1,4 @@
-import axios, { AxiosError } from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { useAuthStore } from '../stores/authStore';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
@@ -9,6 +9,9 @@ const REQUEST_TIMEOUT = 30000; // 30 seconds
 // Flag to prevent multiple simultaneous 401 redirects
 let isRedirectingToLogin = false;
 
+// Shared refresh request - parallel 401s wait for the same token rotation
+let refreshPromise: Promise<string | null> | null = null;
+
 export const api = axios.create({
   baseURL: API_URL,
   timeout: REQUEST_TIMEOUT,
@@ -34,10 +37,39 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+/**
+ * Exchange the stored refresh token for a new token pair.
+ * Resolves to the new access token, or null when the session can't be continued.
+ */
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    const refreshToken = localStorage.getItem('refreshToken');
+    const request = refreshToken
+      ? axios
+          .post(`${API_URL}/auth/refresh`, { refreshToken }, { timeout: REQUEST_TIMEOUT })
+          .then((response) => {
+            const { token, refreshToken: nextRefreshToken } = response.data.data;
+            useAuthStore.getState().setTokens(token, nextRefreshToken);
+            return token as string;
+          })
+          .catch(() => {
+            // Another tab may have rotated the token a moment earlier - pick up its result
+            const current = localStorage.getItem('refreshToken');
+            return current && current !== refreshToken ? localStorage.getItem('token') : null;
+          })
+      : Promise.resolve(null);
+
+    refreshPromise = request.finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response) => response,
-  (error: AxiosError) => {
+  async (error: AxiosError) => {
     // Don't handle cancelled requests
     if (axios.isCancel(error)) {
       return Promise.reject(error);
@@ -57,6 +89,18 @@ api.interceptors.response.use(
 
     // Handle 401 - unauthorized
     if (error.response?.status === 401) {
+      // Expired access token - refresh once and replay the request
+      const config = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+      const errorCode = (error.response.data as any)?.error?.code;
+      if (config && !config._retry && errorCode === 'TOKEN_EXPIRED') {
+        config._retry = true;
+        const token = await refreshAccessToken();
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+          return api(config);
+        }
+      }
+
       const isLoginRequest = error.config?.url?.includes('/auth/login');
       const isOnLoginPage = window.location.pathname === '/login';
 
@@ -143,6 +143,10 @@ const CalendarPage: React.FC = () => {
           return;
         }
 
+        if (conflicts.isOutsideAvailability) {
+          toast(conflicts.availabilityWarnings.join('\n'), { icon: '⚠️', duration: 6000 });
+        }
+
         // No conflicts - update the lesson
         await updateLessonMutation.mutateAsync({
           id: lesson.id,
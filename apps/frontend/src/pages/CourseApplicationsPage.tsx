@@ -1,15 +1,27 @@
 import React, { useState, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
-import courseApplicationService, { CourseApplication } from '../services/courseApplicationService';
+import courseApplicationService, { APPLICATION_SOURCE_LABELS, CourseApplication } from '../services/courseApplicationService';
 import { useAuthStore } from '../stores/authStore';
-import { Search, MoreVertical, Link2, ClipboardList } from 'lucide-react';
+import { Search, MoreVertical, Link2, ClipboardList, List, Columns, BarChart3, Settings2, Plus, Code2 } from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmDialog from '../components/ConfirmDialog';
 import Dropdown from '../components/Dropdown';
 import ApplicationDetailsModal from '../components/ApplicationDetailsModal';
+import ApplicationKanbanBoard from '../components/ApplicationKanbanBoard';
+import ApplicationStagesModal from '../components/ApplicationStagesModal';
+import ApplicationConversionReport from '../components/ApplicationConversionReport';
+import NewApplicationModal from '../components/NewApplicationModal';
+import WidgetEmbedModal from '../components/WidgetEmbedModal';
 
 type StatusFilter = 'NEW' | 'ACCEPTED' | 'REJECTED' | 'ALL';
+type ViewMode = 'list' | 'board' | 'report';
+
+const VIEW_TABS: { label: string; value: ViewMode; icon: React.ElementType }[] = [
+  { label: 'Lista', value: 'list', icon: List },
+  { label: 'Tablica', value: 'board', icon: Columns },
+  { label: 'Raport', value: 'report', icon: BarChart3 },
+];
 
 const STATUS_TABS: { label: string; value: StatusFilter }[] = [
   { label: 'Nowe', value: 'NEW' },
@@ -33,24 +45,38 @@ const STATUS_LABEL: Record<string, string> = {
 const CourseApplicationsPage: React.FC = () => {
   const queryClient = useQueryClient();
   const { user } = useAuthStore();
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('NEW');
   const [searchTerm, setSearchTerm] = useState('');
   const [openDropdownId, setOpenDropdownId] = useState<string | null>(null);
   const [selectedApplication, setSelectedApplication] = useState<CourseApplication | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  const [isStagesOpen, setIsStagesOpen] = useState(false);
+  const [isNewOpen, setIsNewOpen] = useState(false);
+  const [isWidgetOpen, setIsWidgetOpen] = useState(false);
   const [rejectDialog, setRejectDialog] = useState<{ isOpen: boolean; applicationId: string | null }>({ isOpen: false, applicationId: null });
   const [acceptDialog, setAcceptDialog] = useState<{ isOpen: boolean; applicationId: string | null }>({ isOpen: false, applicationId: null });
   const dropdownTriggerRefs = useRef<Map<string, HTMLButtonElement>>(new Map());
 
   const orgSlug = user?.organization?.slug;
 
+  // The board always shows every status - won and lost applications have their own columns
+  const status = viewMode === 'list' && statusFilter !== 'ALL' ? statusFilter : undefined;
+
   const { data: applications = [], isLoading } = useQuery({
-    queryKey: ['applications', statusFilter === 'ALL' ? undefined : statusFilter, searchTerm],
+    queryKey: ['applications', status, searchTerm],
     queryFn: () =>
       courseApplicationService.getApplications({
-        status: statusFilter === 'ALL' ? undefined : statusFilter,
+        status,
         search: searchTerm || undefined,
       }),
+    enabled: viewMode !== 'report',
+  });
+
+  const { data: stages = [] } = useQuery({
+    queryKey: ['application-stages'],
+    queryFn: () => courseApplicationService.getStages(),
+    enabled: viewMode === 'board',
   });
 
   const updateStatusMutation = useMutation({
@@ -118,160 +144,229 @@ const CourseApplicationsPage: React.FC = () => {
             Zarządzaj zgłoszeniami z formularza zapisu ({applications.length})
           </p>
         </div>
-        <button
-          onClick={handleCopyLink}
-          className="flex items-center gap-2 px-4 py-2 bg-secondary text-white rounded-lg hover:bg-secondary/90 transition-colors shadow-sm"
-        >
-          <Link2 className="h-5 w-5" />
-          Kopiuj link formularza
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setIsStagesOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
+          >
+            <Settings2 className="h-5 w-5" />
+            Etapy
+          </button>
+          <button
+            onClick={handleCopyLink}
+            className="flex items-center gap-2 px-4 py-2 bg-secondary text-white rounded-lg hover:bg-secondary/90 transition-colors shadow-sm"
+          >
+            <Link2 className="h-5 w-5" />
+            Kopiuj link formularza
+          </button>
+          <button
+            onClick={() => (orgSlug ? setIsWidgetOpen(true) : toast.error('Brak slug organizacji'))}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
+          >
+            <Code2 className="h-5 w-5" />
+            Widget
+          </button>
+          <button
+            onClick={() => setIsNewOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors shadow-sm"
+          >
+            <Plus className="h-5 w-5" />
+            Dodaj zgłoszenie
+          </button>
+        </div>
+      </div>
+
+      {/* View switch */}
+      <div className="flex gap-2 mb-4">
+        {VIEW_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => setViewMode(tab.value)}
+            className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+              viewMode === tab.value ? 'bg-primary text-white' : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <tab.icon className="h-4 w-4" />
+            {tab.label}
+          </button>
+        ))}
       </div>
 
+      {viewMode === 'report' && <ApplicationConversionReport />}
+
       {/* Filters */}
-      <div className="bg-white rounded-lg shadow p-6 border border-gray-200 mb-6">
-        {/* Status tabs */}
-        <div className="flex gap-2 mb-4">
-          {STATUS_TABS.map((tab) => (
-            <button
-              key={tab.value}
-              onClick={() => setStatusFilter(tab.value)}
-              className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
-                statusFilter === tab.value
-                  ? 'bg-secondary text-white'
-                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-            >
-              {tab.label}
-            </button>
-          ))}
-        </div>
+      {viewMode !== 'report' && (
+        <div className="bg-white rounded-lg shadow p-6 border border-gray-200 mb-6">
+          {/* Status tabs */}
+          {viewMode === 'list' && (
+            <div className="flex gap-2 mb-4">
+              {STATUS_TABS.map((tab) => (
+                <button
+                  key={tab.value}
+                  onClick={() => setStatusFilter(tab.value)}
+                  className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                    statusFilter === tab.value
+                      ? 'bg-secondary text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+          )}
 
-        {/* Search */}
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
-          <input
-            type="text"
-            placeholder="Szukaj po imieniu lub emailu..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg w-full focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
-          />
+          {/* Search */}
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Szukaj po imieniu lub emailu..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg w-full focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+          </div>
         </div>
-      </div>
+      )}
 
-      {/* Table */}
-      <div className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
-        {isLoading ? (
+      {/* Kanban board */}
+      {viewMode === 'board' &&
+        (isLoading ? (
           <LoadingSpinner message="Ładowanie zgłoszeń..." />
-        ) : applications.length === 0 ? (
-          <div className="p-12 text-center text-gray-500">
-            <ClipboardList className="h-12 w-12 mx-auto mb-3 text-gray-300" />
-            {searchTerm ? 'Nie znaleziono zgłoszeń' : 'Brak zgłoszeń w tej kategorii'}
-          </div>
         ) : (
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-gray-50 border-b border-gray-200">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Imię i nazwisko
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Kontakt
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Kurs / Preferencje
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Data
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Status
-                  </th>
-                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Akcje
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {applications.map((app) => (
-                  <tr key={app.id} className="hover:bg-gray-50 transition-colors">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">{app.name}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      <div>{app.email}</div>
-                      {app.phone && <div className="text-gray-400">{app.phone}</div>}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
-                      {app.course ? (
-                        <span className="font-medium text-gray-700">
-                          {app.course.name} ({app.course.level})
-                        </span>
-                      ) : app.preferences ? (
-                        <span className="italic">{app.preferences}</span>
-                      ) : (
-                        <span className="text-gray-300">—</span>
-                      )}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {formatDate(app.createdAt)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span
-                        className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_BADGE[app.status]}`}
-                      >
-                        {STATUS_LABEL[app.status]}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <button
-                        ref={(el) => {
-                          if (el) {
-                            dropdownTriggerRefs.current.set(app.id, el);
-                          }
-                        }}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setOpenDropdownId(openDropdownId === app.id ? null : app.id);
-                        }}
-                        className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-                        title="Akcje"
-                      >
-                        <MoreVertical className="h-4 w-4 text-gray-600" />
-                      </button>
-                      <Dropdown
-                        isOpen={openDropdownId === app.id}
-                        onClose={() => setOpenDropdownId(null)}
-                        triggerRef={{ current: dropdownTriggerRefs.current.get(app.id) || null }}
-                        items={[
-                          {
-                            label: 'Podgląd',
-                            onClick: () => handleViewDetails(app),
-                          },
-                          ...(app.status === 'NEW'
-                            ? [
-                                {
-                                  label: 'Zaakceptuj',
-                                  onClick: () => handleAccept(app.id),
-                                },
-                                {
-                                  label: 'Odrzuć',
-                                  onClick: () => handleReject(app.id),
-                                  variant: 'danger' as const,
-                                },
-                              ]
-                            : []),
-                        ]}
-                      />
-                    </td>
+          <ApplicationKanbanBoard applications={applications} stages={stages} onOpen={handleViewDetails} />
+        ))}
+
+      {/* Table */}
+      {viewMode === 'list' && (
+        <div className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
+          {isLoading ? (
+            <LoadingSpinner message="Ładowanie zgłoszeń..." />
+          ) : applications.length === 0 ? (
+            <div className="p-12 text-center text-gray-500">
+              <ClipboardList className="h-12 w-12 mx-auto mb-3 text-gray-300" />
+              {searchTerm ? 'Nie znaleziono zgłoszeń' : 'Brak zgłoszeń w tej kategorii'}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Imię i nazwisko
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Kontakt
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Kurs / Preferencje
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Data
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Etap
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Akcje
+                    </th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        )}
-      </div>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {applications.map((app) => (
+                    <tr key={app.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{app.name}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        <div>{app.email}</div>
+                        {app.phone && <div className="text-gray-400">{app.phone}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
+                        {app.course ? (
+                          <span className="font-medium text-gray-700">
+                            {app.course.name} ({app.course.level})
+                          </span>
+                        ) : app.preferences ? (
+                          <span className="italic">{app.preferences}</span>
+                        ) : (
+                          <span className="text-gray-300">—</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(app.createdAt)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_BADGE[app.status]}`}
+                        >
+                          {STATUS_LABEL[app.status]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {app.stage ? (
+                          <div className="flex items-center gap-2 text-gray-700">
+                            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: app.stage.color }} />
+                            {app.stage.name}
+                          </div>
+                        ) : (
+                          <span className="text-gray-300">—</span>
+                        )}
+                        <div className="text-xs text-gray-400">{APPLICATION_SOURCE_LABELS[app.source]}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          ref={(el) => {
+                            if (el) {
+                              dropdownTriggerRefs.current.set(app.id, el);
+                            }
+                          }}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setOpenDropdownId(openDropdownId === app.id ? null : app.id);
+                          }}
+                          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Akcje"
+                        >
+                          <MoreVertical className="h-4 w-4 text-gray-600" />
+                        </button>
+                        <Dropdown
+                          isOpen={openDropdownId === app.id}
+                          onClose={() => setOpenDropdownId(null)}
+                          triggerRef={{ current: dropdownTriggerRefs.current.get(app.id) || null }}
+                          items={[
+                            {
+                              label: 'Podgląd',
+                              onClick: () => handleViewDetails(app),
+                            },
+                            ...(app.status === 'NEW'
+                              ? [
+                                  {
+                                    label: 'Zaakceptuj',
+                                    onClick: () => handleAccept(app.id),
+                                  },
+                                  {
+                                    label: 'Odrzuć',
+                                    onClick: () => handleReject(app.id),
+                                    variant: 'danger' as const,
+                                  },
+                                ]
+                              : []),
+                          ]}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Accept Confirm Dialog */}
       <ConfirmDialog
@@ -297,6 +392,17 @@ const CourseApplicationsPage: React.FC = () => {
         variant="danger"
       />
 
+      {isStagesOpen && <ApplicationStagesModal onClose={() => setIsStagesOpen(false)} />}
+
+      {isWidgetOpen && orgSlug && <WidgetEmbedModal orgSlug={orgSlug} onClose={() => setIsWidgetOpen(false)} />}
+
+      {isNewOpen && (
+        <NewApplicationModal
+          onClose={() => setIsNewOpen(false)}
+          onSuccess={() => queryClient.invalidateQueries({ queryKey: ['applications'] })}
+        />
+      )}
+
       {/* Details Modal */}
       {isDetailsOpen && selectedApplication && (
         <ApplicationDetailsModal
@@ -7,6 +7,8 @@ import { Plus, Users, BookOpen, Calendar, MapPin, Wifi, Home, MoreVertical, Tras
 import { useAuthStore } from '../stores/authStore';
 import CourseModal from '../components/CourseModal';
 import EnrollStudentModal from '../components/EnrollStudentModal';
+import AttendanceRegisterModal from '../components/AttendanceRegisterModal';
+import CourseWaitlistModal from '../components/CourseWaitlistModal';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmDialog from '../components/ConfirmDialog';
 import Dropdown from '../components/Dropdown';
@@ -18,6 +20,7 @@ const CoursesPage: React.FC = () => {
   const navigate = useNavigate();
   const user = useAuthStore((state) => state.user);
   const canAccessSettlements = ['ADMIN', 'MANAGER'].includes(user?.role || '');
+  const canManageWaitlist = ['ADMIN', 'MANAGER'].includes(user?.role || '');
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<'name' | 'startDate' | 'createdAt' | 'teacher'>('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
@@ -28,6 +31,8 @@ const CoursesPage: React.FC = () => {
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [isEnrollModalOpen, setIsEnrollModalOpen] = useState(false);
   const [courseForEnrollment, setCourseForEnrollment] = useState<Course | null>(null);
+  const [courseForRegister, setCourseForRegister] = useState<Course | null>(null);
+  const [courseForWaitlist, setCourseForWaitlist] = useState<Course | null>(null);
   const [openDropdownId, setOpenDropdownId] = useState<string | null>(null);
   const [isCopyMode, setIsCopyMode] = useState(false);
   const [confirmDialog, setConfirmDialog] = useState<{ isOpen: boolean; courseId: string | null }>({ isOpen: false, courseId: null });
@@ -455,6 +460,18 @@ const CoursesPage: React.FC = () => {
                           {course.enrollments?.length || 0}
                           {course.maxStudents ? `/${course.maxStudents}` : ''}
                         </span>
+                        {canManageWaitlist && (course._count?.waitlistEntries || 0) > 0 && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setCourseForWaitlist(course);
+                            }}
+                            title="Lista oczekujących"
+                            className="ml-1 px-1.5 py-0.5 text-xs font-medium bg-amber-100 text-amber-800 rounded-full hover:bg-amber-200"
+                          >
+                            +{course._count?.waitlistEntries} oczek.
+                          </button>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
@@ -503,6 +520,16 @@ const CoursesPage: React.FC = () => {
                             label: 'Zarządzaj uczniami',
                             onClick: () => handleManageStudents(course),
                           },
+                          {
+                            label: 'Dziennik obecności',
+                            onClick: () => setCourseForRegister(course),
+                          },
+                          ...(course.maxStudents && canManageWaitlist
+                            ? [{
+                                label: 'Lista oczekujących',
+                                onClick: () => setCourseForWaitlist(course),
+                              }]
+                            : []),
                           ...(course.courseType === 'GROUP' && canAccessSettlements
                             ? [{
                                 label: 'Rozlicz grupę',
@@ -565,6 +592,22 @@ const CoursesPage: React.FC = () => {
         />
       )}
 
+      {/* Attendance Register Modal */}
+      {courseForRegister && (
+        <AttendanceRegisterModal
+          course={courseForRegister}
+          onClose={() => setCourseForRegister(null)}
+        />
+      )}
+
+      {/* Waiting List Modal */}
+      {courseForWaitlist && (
+        <CourseWaitlistModal
+          course={courseForWaitlist}
+          onClose={() => setCourseForWaitlist(null)}
+        />
+      )}
+
       {/* Confirm Delete Dialog */}
       {(() => {
         const hasImpact = deleteImpact && (deleteImpact.activeEnrollments > 0 || deleteImpact.futureLessons > 0);
@@ -8,6 +8,7 @@ import LoadingSpinner from '../components/LoadingSpinner';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import TeacherDashboard from './TeacherDashboard';
 import StudentDashboard from './StudentDashboard';
+import ParentDashboard from './ParentDashboard';
 import StudentModal from '../components/StudentModal';
 import CourseModal from '../components/CourseModal';
 import LessonModal from '../components/LessonModal';
@@ -99,6 +100,7 @@ const DashboardPage: React.FC = () => {
   const [rangeType, setRangeType] = useState<DateRangeType>('last30days');
   const [selectedYear, setSelectedYear] = useState(currentDate.getFullYear());
   const [selectedMonth, setSelectedMonth] = useState(currentDate.getMonth() + 1); // 1-12
+  const [reportingCurrency, setReportingCurrency] = useState(''); // '' = organization currency
 
   // Role-based dashboard rendering
   if (user?.role === 'TEACHER') {
@@ -110,7 +112,7 @@ const DashboardPage: React.FC = () => {
   }
 
   if (user?.role === 'PARENT') {
-    return <StudentDashboard />;
+    return <ParentDashboard />;
   }
 
   // ADMIN and MANAGER see the full dashboard below
@@ -130,7 +132,7 @@ const DashboardPage: React.FC = () => {
 
   // Build chart query params
   const chartParams: ChartDataParams = useMemo(() => {
-    const params: ChartDataParams = { rangeType };
+    const params: ChartDataParams = { rangeType, reportingCurrency: reportingCurrency || undefined };
     if (rangeType === 'month') {
       params.year = selectedYear;
       params.month = selectedMonth;
@@ -138,7 +140,7 @@ const DashboardPage: React.FC = () => {
       params.year = selectedYear;
     }
     return params;
-  }, [rangeType, selectedYear, selectedMonth]);
+  }, [rangeType, selectedYear, selectedMonth, reportingCurrency]);
 
   // Fetch chart data
   const { data: chartData, isLoading: isLoadingCharts } = useQuery({
@@ -170,6 +172,7 @@ const DashboardPage: React.FC = () => {
     'Nowi kursanci': item.amountNew || 0,
     'Stali kursanci': item.amountReturning || 0,
   })) || [];
+  const revenueCurrency = chartData?.revenue.currency || reportingCurrency || 'PLN';
 
   // Format lessons data for chart from new API
   const lessonsData = chartData?.lessons.data.map(item => ({
@@ -328,11 +331,24 @@ const DashboardPage: React.FC = () => {
             {/* Revenue Chart */}
             {showRevenueChart && (
               <div className="bg-white rounded-lg shadow p-6 border border-gray-200">
-                <div className="flex items-center gap-2 mb-4">
-                  <TrendingUp className="h-5 w-5 text-secondary" />
-                  <h2 className="text-xl font-semibold text-gray-900">
-                    Przychody ({getChartRangeTitle()})
-                  </h2>
+                <div className="flex items-center justify-between gap-2 mb-4">
+                  <div className="flex items-center gap-2">
+                    <TrendingUp className="h-5 w-5 text-secondary" />
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      Przychody ({getChartRangeTitle()})
+                    </h2>
+                  </div>
+                  <select
+                    value={reportingCurrency}
+                    onChange={(e) => setReportingCurrency(e.target.value)}
+                    title="Kwoty przeliczane kursem NBP z dnia płatności"
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-secondary focus:border-transparent"
+                  >
+                    <option value="">Waluta organizacji</option>
+                    {['PLN', 'EUR', 'USD', 'GBP', 'CHF', 'CZK', 'DKK', 'NOK', 'SEK'].map((c) => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                  </select>
                 </div>
                 {isLoadingCharts ? (
                   <div className="h-[280px] flex items-center justify-center">
@@ -349,9 +365,9 @@ const DashboardPage: React.FC = () => {
                         textAnchor="end"
                         height={80}
                       />
-                      <YAxis tick={{ fontSize: 12 }} tickFormatter={(v) => `${v} PLN`} />
+                      <YAxis tick={{ fontSize: 12 }} tickFormatter={(v) => `${v} ${revenueCurrency}`} />
                       <Tooltip
-                        formatter={(value: number | undefined, name: string | undefined) => [value !== undefined ? `${Number(value).toFixed(2)} PLN` : 'N/A', name ?? '']}
+                        formatter={(value: number | undefined, name: string | undefined) => [value !== undefined ? `${Number(value).toFixed(2)} ${revenueCurrency}` : 'N/A', name ?? '']}
                         labelStyle={{ color: '#000' }}
                       />
                       <Bar dataKey="Nowi kursanci" stackId="revenue" fill="#10b981" radius={[0, 0, 0, 0]} />
@@ -366,15 +382,15 @@ const DashboardPage: React.FC = () => {
                 {chartData?.revenue.total !== undefined && (
                   <div className="mt-4 pt-4 border-t border-gray-200 flex flex-wrap gap-6 text-sm text-gray-600">
                     <span>
-                      Łącznie: <span className="font-bold text-gray-900">{chartData.revenue.total.toFixed(2)} PLN</span>
+                      Łącznie: <span className="font-bold text-gray-900">{chartData.revenue.total.toFixed(2)} {revenueCurrency}</span>
                     </span>
                     <span className="flex items-center gap-1.5">
                       <span className="inline-block w-3 h-3 rounded-sm bg-emerald-500" />
-                      Nowi uczniowie: <span className="font-semibold text-emerald-700">{(chartData.revenue.totalNew ?? 0).toFixed(2)} PLN</span>
+                      Nowi uczniowie: <span className="font-semibold text-emerald-700">{(chartData.revenue.totalNew ?? 0).toFixed(2)} {revenueCurrency}</span>
                     </span>
                     <span className="flex items-center gap-1.5">
                       <span className="inline-block w-3 h-3 rounded-sm bg-blue-500" />
-                      Stali uczniowie: <span className="font-semibold text-blue-700">{(chartData.revenue.totalReturning ?? 0).toFixed(2)} PLN</span>
+                      Stali uczniowie: <span className="font-semibold text-blue-700">{(chartData.revenue.totalReturning ?? 0).toFixed(2)} {revenueCurrency}</span>
                     </span>
                   </div>
                 )}
@@ -0,0 +1,380 @@
+import { useState, useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { Mail, Save, Send, RotateCcw, Info, AlertTriangle, FileText } from 'lucide-react';
+import toast from 'react-hot-toast';
+import notificationTemplateService, {
+  NotificationTemplate,
+  TemplateTriggerEvent,
+} from '../services/notificationTemplateService';
+import { useDebounce } from '../hooks/useDebounce';
+import { getErrorMessage } from '../lib/errorUtils';
+import LoadingSpinner from '../components/LoadingSpinner';
+import ConfirmDialog from '../components/ConfirmDialog';
+
+interface EditorState {
+  name: string;
+  subjectTemplate: string;
+  bodyTemplate: string;
+  isActive: boolean;
+}
+
+export default function EmailTemplatesPage() {
+  const queryClient = useQueryClient();
+  const [selectedTrigger, setSelectedTrigger] = useState<string | null>(null);
+  const [editor, setEditor] = useState<EditorState>({ name: '', subjectTemplate: '', bodyTemplate: '', isActive: true });
+  const [hasChanges, setHasChanges] = useState(false);
+  const [isResetOpen, setIsResetOpen] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const { data: triggers = [], isLoading: triggersLoading } = useQuery({
+    queryKey: ['notification-template-triggers'],
+    queryFn: () => notificationTemplateService.getTriggerEvents(),
+  });
+
+  const { data: templates = [], isLoading: templatesLoading } = useQuery({
+    queryKey: ['notification-templates'],
+    queryFn: () => notificationTemplateService.getTemplates(),
+  });
+
+  // One template per trigger: the active one, otherwise the most recently edited
+  const templateFor = (triggerKey: string): NotificationTemplate | undefined =>
+    templates.find((t) => t.triggerEvent === triggerKey && t.isActive) ||
+    templates.find((t) => t.triggerEvent === triggerKey);
+
+  const trigger = triggers.find((t) => t.key === selectedTrigger);
+  const template = selectedTrigger ? templateFor(selectedTrigger) : undefined;
+
+  useEffect(() => {
+    if (!selectedTrigger && triggers.length > 0) {
+      setSelectedTrigger(triggers[0].key);
+    }
+  }, [triggers, selectedTrigger]);
+
+  useEffect(() => {
+    if (!trigger) return;
+    setEditor(
+      template
+        ? {
+            name: template.name,
+            subjectTemplate: template.subjectTemplate,
+            bodyTemplate: template.bodyTemplate,
+            isActive: template.isActive,
+          }
+        : {
+            name: trigger.label,
+            subjectTemplate: trigger.defaultSubject,
+            bodyTemplate: trigger.defaultBody,
+            isActive: true,
+          }
+    );
+    setHasChanges(false);
+    // Reset only when switching trigger or after the saved template changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trigger?.key, template?.id, template?.updatedAt]);
+
+  const draft = useDebounce(
+    { triggerEvent: selectedTrigger || '', subjectTemplate: editor.subjectTemplate, bodyTemplate: editor.bodyTemplate },
+    400
+  );
+
+  const { data: preview, isFetching: previewLoading } = useQuery({
+    queryKey: ['notification-template-preview', draft],
+    queryFn: () => notificationTemplateService.previewTemplate(draft),
+    enabled: !!draft.triggerEvent && !!draft.subjectTemplate.trim() && !!draft.bodyTemplate.trim(),
+    placeholderData: keepPreviousData,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      template
+        ? notificationTemplateService.updateTemplate(template.id, editor)
+        : notificationTemplateService.createTemplate({ ...editor, triggerEvent: selectedTrigger! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notification-templates'] });
+      setHasChanges(false);
+      toast.success('Szablon zapisany');
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zapisać szablonu'));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => notificationTemplateService.deleteTemplate(id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['notification-templates'] });
+      toast.success(result.message);
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się usunąć szablonu'));
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () =>
+      notificationTemplateService.sendTestEmail({
+        triggerEvent: selectedTrigger!,
+        subjectTemplate: editor.subjectTemplate,
+        bodyTemplate: editor.bodyTemplate,
+      }),
+    onSuccess: (result) => {
+      toast.success(result.message);
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się wysłać wiadomości testowej'));
+    },
+  });
+
+  const updateEditor = (changes: Partial<EditorState>) => {
+    setEditor((prev) => ({ ...prev, ...changes }));
+    setHasChanges(true);
+  };
+
+  const insertPlaceholder = (key: string) => {
+    const placeholder = `{{${key}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) {
+      updateEditor({ bodyTemplate: editor.bodyTemplate + placeholder });
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    const body = editor.bodyTemplate;
+    updateEditor({ bodyTemplate: body.slice(0, selectionStart) + placeholder + body.slice(selectionEnd) });
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  const loadStarter = (t: TemplateTriggerEvent) => {
+    updateEditor({ subjectTemplate: t.defaultSubject, bodyTemplate: t.defaultBody });
+  };
+
+  const handleSave = () => {
+    if (!editor.name.trim() || !editor.subjectTemplate.trim() || !editor.bodyTemplate.trim()) {
+      toast.error('Uzupełnij nazwę, temat i treść szablonu');
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  if (triggersLoading || templatesLoading) {
+    return <LoadingSpinner message="Ładowanie szablonów..." />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-100 rounded-lg">
+          <Mail className="w-5 h-5 text-blue-600" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Szablony wiadomości email</h2>
+          <p className="text-sm text-gray-500">
+            Dostosuj treść automatycznych wiadomości. Bez aktywnego szablonu wysyłana jest wiadomość domyślna.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Trigger list */}
+        <div className="bg-white border border-gray-200 rounded-xl overflow-hidden lg:col-span-1">
+          <ul className="divide-y divide-gray-100">
+            {triggers.map((t) => {
+              const custom = templateFor(t.key);
+              const isSelected = t.key === selectedTrigger;
+              return (
+                <li key={t.key}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedTrigger(t.key)}
+                    className={`w-full text-left px-4 py-3 transition-colors ${
+                      isSelected ? 'bg-primary/10' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className={`text-sm font-medium ${isSelected ? 'text-primary' : 'text-gray-900'}`}>{t.label}</p>
+                    <p className="text-xs mt-0.5">
+                      {custom?.isActive ? (
+                        <span className="text-green-700">Własny szablon</span>
+                      ) : custom ? (
+                        <span className="text-gray-500">Szablon nieaktywny</span>
+                      ) : (
+                        <span className="text-gray-400">Domyślna treść</span>
+                      )}
+                    </p>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        {/* Editor + preview */}
+        {trigger && (
+          <div className="lg:col-span-3 space-y-6">
+            <div className="bg-white border border-gray-200 rounded-xl p-6 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-base font-semibold text-gray-900">{trigger.label}</h3>
+                  <p className="text-sm text-gray-500">{trigger.description}</p>
+                </div>
+                {hasChanges && <span className="text-xs text-amber-600 font-medium">Niezapisane zmiany</span>}
+              </div>
+
+              {!template && (
+                <div className="flex items-start gap-2 px-4 py-3 bg-blue-50 border border-blue-100 rounded-lg text-sm text-blue-700">
+                  <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <p>Ta wiadomość korzysta z domyślnej treści. Zapisz szablon, aby zastąpić ją własną wersją.</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Nazwa szablonu</label>
+                  <input
+                    type="text"
+                    value={editor.name}
+                    onChange={(e) => updateEditor({ name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-7">
+                  <input
+                    type="checkbox"
+                    checked={editor.isActive}
+                    onChange={(e) => updateEditor({ isActive: e.target.checked })}
+                    className="rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  Używaj tego szablonu
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Temat</label>
+                <input
+                  type="text"
+                  value={editor.subjectTemplate}
+                  onChange={(e) => updateEditor({ subjectTemplate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Treść</label>
+                <textarea
+                  ref={bodyRef}
+                  value={editor.bodyTemplate}
+                  onChange={(e) => updateEditor({ bodyTemplate: e.target.value })}
+                  rows={12}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Możesz używać zwykłego tekstu lub HTML. Kliknij zmienną, aby wstawić ją w miejscu kursora.
+                </p>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {trigger.placeholders.map((p) => (
+                  <button
+                    key={p.key}
+                    type="button"
+                    onClick={() => insertPlaceholder(p.key)}
+                    title={`${p.label} (np. ${p.sample})`}
+                    className="px-2 py-1 text-xs font-mono bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                  >
+                    {`{{${p.key}}}`}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-3 pt-2 border-t border-gray-100">
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => loadStarter(trigger)}
+                    className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    <FileText className="w-4 h-4" />
+                    Wstaw treść startową
+                  </button>
+                  {template && (
+                    <button
+                      type="button"
+                      onClick={() => setIsResetOpen(true)}
+                      className="flex items-center gap-1.5 px-3 py-2 text-sm text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Przywróć domyślną
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => testMutation.mutate()}
+                    disabled={testMutation.isPending || !editor.subjectTemplate.trim() || !editor.bodyTemplate.trim()}
+                    className="flex items-center gap-1.5 px-4 py-2 text-sm text-primary border border-primary rounded-lg hover:bg-primary/5 transition-colors disabled:opacity-50"
+                  >
+                    <Send className="w-4 h-4" />
+                    {testMutation.isPending ? 'Wysyłanie...' : 'Wyślij test'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={saveMutation.isPending}
+                    className="flex items-center gap-1.5 px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    {saveMutation.isPending ? 'Zapisywanie...' : 'Zapisz'}
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Live preview */}
+            <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+              <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+                <span className="text-xs text-gray-500">Podgląd z przykładowymi danymi</span>
+                {previewLoading && <span className="text-xs text-gray-400">Odświeżanie...</span>}
+              </div>
+              {preview ? (
+                <div className="p-4 space-y-3">
+                  {preview.unknownPlaceholders.length > 0 && (
+                    <div className="flex items-start gap-2 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                      Nieznane zmienne: {preview.unknownPlaceholders.map((key) => `{{${key}}}`).join(', ')}
+                    </div>
+                  )}
+                  <p className="text-sm">
+                    <span className="text-gray-500">Temat: </span>
+                    <span className="font-medium text-gray-900">{preview.subject}</span>
+                  </p>
+                  <iframe
+                    title="Podgląd wiadomości"
+                    sandbox=""
+                    srcDoc={preview.html}
+                    className="w-full h-96 border border-gray-200 rounded-lg"
+                  />
+                </div>
+              ) : (
+                <p className="p-4 text-sm text-gray-500">Uzupełnij temat i treść, aby zobaczyć podgląd.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={isResetOpen}
+        onClose={() => setIsResetOpen(false)}
+        onConfirm={() => template && deleteMutation.mutate(template.id)}
+        title="Przywróć domyślną treść"
+        message="Własny szablon zostanie usunięty, a wiadomości będą wysyłane w domyślnej treści."
+        confirmText="Przywróć"
+        cancelText="Anuluj"
+        variant="danger"
+      />
+    </div>
+  );
+}
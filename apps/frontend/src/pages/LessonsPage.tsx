@@ -487,6 +487,10 @@ const LessonsPage: React.FC = () => {
           return;
         }
 
+        if (conflicts.isOutsideAvailability) {
+          toast(conflicts.availabilityWarnings.join('\n'), { icon: '⚠️', duration: 6000 });
+        }
+
         await updateLessonMutation.mutateAsync({
           id: lesson.id,
           scheduledAt: start.toISOString(),
@@ -18,8 +18,8 @@ const LoginPage: React.FC = () => {
     setError('');
     setGoogleLoading(true);
     try {
-      const { user, token } = await authService.googleLogin(credentialResponse.credential);
-      setAuth(user, token);
+      const { user, token, refreshToken } = await authService.googleLogin(credentialResponse.credential);
+      setAuth(user, token, refreshToken);
       navigate('/dashboard');
     } catch (err: any) {
       setError(err.response?.data?.error?.message || 'Logowanie przez Google nie powiodło się');
@@ -34,8 +34,8 @@ const LoginPage: React.FC = () => {
     setLoading(true);
 
     try {
-      const { user, token } = await authService.login({ email, password });
-      setAuth(user, token);
+      const { user, token, refreshToken } = await authService.login({ email, password });
+      setAuth(user, token, refreshToken);
       navigate('/dashboard');
     } catch (err: any) {
       setError(err.response?.data?.error?.message || 'Login failed');
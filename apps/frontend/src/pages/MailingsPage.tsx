@@ -1,5 +1,5 @@
 import React, { useState, useRef, useMemo } from 'react';
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Mail, Users, Send, Loader2, AlertCircle, Paperclip, X, FileText, Star, ClipboardList, MessageSquareWarning, Calendar, Eye, BookOpen, GraduationCap } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { studentService } from '../services/studentService';
@@ -8,6 +8,7 @@ import { lessonService } from '../services/lessonService';
 import mailingService from '../services/mailingService';
 import type { MailType } from '../services/mailingService';
 import SearchableSelect from '../components/SearchableSelect';
+import ScheduledMailingsList from '../components/ScheduledMailingsList';
 
 const ALLOWED_FILE_TYPES = [
   'application/pdf',
@@ -43,6 +44,7 @@ interface MailingFormData {
 }
 
 const MailingsPage: React.FC = () => {
+  const queryClient = useQueryClient();
   const [formData, setFormData] = useState<MailingFormData>({
     subject: '',
     message: '',
@@ -268,12 +270,13 @@ Zespół szkoły`,
         selectedStudentIds: data.recipients === 'selected' ? data.selectedStudentIds : undefined,
         courseId: (data.recipients === 'course' || data.recipients === 'lesson') ? data.courseId : undefined,
         lessonId: data.recipients === 'lesson' ? data.lessonId : undefined,
-        scheduledAt: data.scheduledAt || undefined,
+        scheduledAt: data.scheduledAt ? new Date(data.scheduledAt).toISOString() : undefined,
         attachments: data.attachments.length > 0 ? data.attachments : undefined,
       });
     },
     onSuccess: (result) => {
       if (result.scheduled) {
+        queryClient.invalidateQueries({ queryKey: ['scheduled-mailings'] });
         toast.success(`Wiadomość zaplanowana na ${new Date(result.scheduledAt!).toLocaleString('pl-PL')}`);
       } else {
         let message = `Wysłano ${result.totalSent} z ${result.totalRecipients} wiadomości.`;
@@ -941,6 +944,10 @@ Zespół szkoły`,
           </div>
         </div>
       </form>
+
+      <div className="mt-6">
+        <ScheduledMailingsList />
+      </div>
     </div>
   );
 };
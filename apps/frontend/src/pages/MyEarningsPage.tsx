@@ -0,0 +1,438 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { Wallet, BookOpen, Clock, CheckCircle, AlertTriangle, DollarSign, XCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import payoutService, { TeacherPayout, TeacherPayoutStatus } from '../services/payoutService';
+import PayoutInvoiceUpload from '../components/PayoutInvoiceUpload';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const formatCurrency = (amount: number, currency = 'PLN') =>
+  new Intl.NumberFormat('pl-PL', { style: 'currency', currency }).format(amount);
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('pl-PL');
+
+const STATUS_BADGES: Record<TeacherPayoutStatus, { label: string; className: string; icon: React.ElementType }> = {
+  PENDING: { label: 'Oczekuje', className: 'bg-yellow-100 text-yellow-800', icon: Clock },
+  APPROVED: { label: 'Zatwierdzona', className: 'bg-blue-100 text-blue-800', icon: CheckCircle },
+  PAID: { label: 'Wypłacona', className: 'bg-green-100 text-green-800', icon: DollarSign },
+  CANCELLED: { label: 'Anulowana', className: 'bg-red-100 text-red-800', icon: XCircle },
+};
+
+const QUALIFICATION_LABELS: Record<string, string> = {
+  COMPLETED: 'Ukończona',
+  CONFIRMED: 'Potwierdzona',
+  LATE_CANCELLATION: 'Późna anulacja',
+};
+
+const MyEarningsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+  });
+  const [expandedPayoutId, setExpandedPayoutId] = useState<string | null>(null);
+  const [disputingPayoutId, setDisputingPayoutId] = useState<string | null>(null);
+  const [disputedLessonIds, setDisputedLessonIds] = useState<string[]>([]);
+  const [disputeReason, setDisputeReason] = useState('');
+
+  const { data: summary, isLoading: isLoadingSummary } = useQuery({
+    queryKey: ['my-earnings', month],
+    queryFn: () => payoutService.getMyEarnings(month),
+    enabled: !!month,
+  });
+
+  const { data: payouts = [], isLoading: isLoadingPayouts } = useQuery({
+    queryKey: ['my-payouts'],
+    queryFn: () => payoutService.getMyPayouts(),
+  });
+
+  const refreshPayouts = () => queryClient.invalidateQueries({ queryKey: ['my-payouts'] });
+
+  const confirmMutation = useMutation({
+    mutationFn: (id: string) => payoutService.confirmPayout(id),
+    onSuccess: () => {
+      toast.success('Wypłata została potwierdzona');
+      refreshPayouts();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Błąd podczas potwierdzania wypłaty');
+    },
+  });
+
+  const disputeMutation = useMutation({
+    mutationFn: ({ id, lessonIds, reason }: { id: string; lessonIds: string[]; reason: string }) =>
+      payoutService.disputePayout(id, lessonIds, reason),
+    onSuccess: () => {
+      toast.success('Zastrzeżenia zostały przekazane do działu kadr');
+      setDisputingPayoutId(null);
+      refreshPayouts();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Błąd podczas zgłaszania zastrzeżeń');
+    },
+  });
+
+  const startDispute = (payout: TeacherPayout) => {
+    setExpandedPayoutId(payout.id);
+    setDisputingPayoutId(payout.id);
+    setDisputedLessonIds((payout.lessons || []).filter((line) => line.isDisputed).map((line) => line.id));
+    setDisputeReason(payout.disputeReason || '');
+  };
+
+  const toggleDisputedLesson = (lessonId: string) => {
+    setDisputedLessonIds((prev) =>
+      prev.includes(lessonId) ? prev.filter((id) => id !== lessonId) : [...prev, lessonId]
+    );
+  };
+
+  const submitDispute = (payoutId: string) => {
+    if (disputedLessonIds.length === 0) {
+      toast.error('Zaznacz co najmniej jedną kwestionowaną lekcję');
+      return;
+    }
+    if (disputeReason.trim().length < 3) {
+      toast.error('Opisz, co się nie zgadza');
+      return;
+    }
+    disputeMutation.mutate({ id: payoutId, lessonIds: disputedLessonIds, reason: disputeReason.trim() });
+  };
+
+  const renderSignOffBadge = (payout: TeacherPayout) => {
+    if (payout.signOffStatus === 'CONFIRMED') {
+      return (
+        <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-50 text-green-700 flex items-center gap-1">
+          <CheckCircle className="w-3 h-3" /> Potwierdzona przez Ciebie
+        </span>
+      );
+    }
+    if (payout.signOffStatus === 'DISPUTED') {
+      return (
+        <span className="px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3" /> Zgłoszono zastrzeżenia
+        </span>
+      );
+    }
+    if (payout.signOffStatus === 'RESOLVED') {
+      return (
+        <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-50 text-blue-700 flex items-center gap-1">
+          <CheckCircle className="w-3 h-3" /> Zastrzeżenia rozstrzygnięte
+        </span>
+      );
+    }
+    if (payout.status === 'PENDING') {
+      return <span className="text-xs text-amber-700">Wymaga Twojego potwierdzenia</span>;
+    }
+    return null;
+  };
+
+  const renderPayout = (payout: TeacherPayout) => {
+    const badge = STATUS_BADGES[payout.status];
+    const BadgeIcon = badge.icon;
+    const isExpanded = expandedPayoutId === payout.id;
+    const isDisputing = disputingPayoutId === payout.id;
+    const canSignOff = payout.status === 'PENDING';
+
+    return (
+      <div key={payout.id} className="p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="flex-1">
+            <div className="flex flex-wrap items-center gap-3 mb-2">
+              <span className="text-sm font-medium text-gray-900">
+                {formatDate(payout.periodStart)} - {formatDate(payout.periodEnd)}
+              </span>
+              <span className={`px-2 py-1 text-xs font-medium rounded-full flex items-center gap-1 ${badge.className}`}>
+                <BadgeIcon className="w-3 h-3" /> {badge.label}
+              </span>
+              {renderSignOffBadge(payout)}
+            </div>
+            <div className="flex flex-wrap gap-6 text-sm">
+              <div>
+                <span className="text-gray-500">Godziny:</span>
+                <span className="ml-2 font-medium text-gray-900">{Number(payout.totalHours).toFixed(2)}h</span>
+              </div>
+              <div>
+                <span className="text-gray-500">Kwota:</span>
+                <span className="ml-2 font-medium text-green-600">
+                  {formatCurrency(Number(payout.totalAmount), payout.currency)}
+                </span>
+              </div>
+              {payout.payroll?.contractType && payout.payroll.contractType !== 'B2B' && (
+                <div>
+                  <span className="text-gray-500">Szacunkowo netto:</span>
+                  <span className="ml-2 font-medium text-gray-900">
+                    {formatCurrency(payout.payroll.netAmount, payout.currency)}
+                  </span>
+                </div>
+              )}
+              {payout.paidAt && (
+                <div>
+                  <span className="text-gray-500">Wypłacono:</span>
+                  <span className="ml-2 font-medium text-gray-900">{formatDate(payout.paidAt)}</span>
+                </div>
+              )}
+            </div>
+            {payout.disputeReason && payout.signOffStatus === 'DISPUTED' && (
+              <p className="mt-2 text-sm text-orange-800">Twoje zastrzeżenia: {payout.disputeReason}</p>
+            )}
+            {payout.signOffStatus === 'RESOLVED' && payout.disputeResolution && (
+              <p className="mt-2 text-sm text-gray-600">Rozstrzygnięcie: {payout.disputeResolution}</p>
+            )}
+            {payout.payroll?.contractType === 'B2B' && (
+              <div className="mt-3">
+                <PayoutInvoiceUpload payout={payout} onChanged={refreshPayouts} />
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {canSignOff && !isDisputing && (
+              <>
+                {payout.signOffStatus !== 'CONFIRMED' && (
+                  <button
+                    onClick={() => confirmMutation.mutate(payout.id)}
+                    disabled={confirmMutation.isPending}
+                    className="px-3 py-1.5 text-sm bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition-colors disabled:opacity-50"
+                  >
+                    Potwierdź
+                  </button>
+                )}
+                <button
+                  onClick={() => startDispute(payout)}
+                  className="px-3 py-1.5 text-sm bg-orange-100 text-orange-700 rounded-lg hover:bg-orange-200 transition-colors"
+                >
+                  Zgłoś zastrzeżenia
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => setExpandedPayoutId(isExpanded ? null : payout.id)}
+              className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+              title={isExpanded ? 'Ukryj lekcje' : 'Pokaż lekcje'}
+            >
+              {isExpanded ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+            </button>
+          </div>
+        </div>
+
+        {isExpanded && (
+          <div className="mt-4 border border-gray-200 rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-xs text-gray-500">
+                  {isDisputing && <th className="w-10 px-3 py-2" />}
+                  <th className="text-left px-3 py-2 font-medium">Data</th>
+                  <th className="text-left px-3 py-2 font-medium">Lekcja</th>
+                  <th className="text-left px-3 py-2 font-medium">Uczeń</th>
+                  <th className="text-left px-3 py-2 font-medium">Rozliczenie</th>
+                  <th className="text-right px-3 py-2 font-medium">Kwota</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {(payout.lessons || []).map((line) => (
+                  <tr key={line.id} className={line.isDisputed ? 'bg-orange-50' : undefined}>
+                    {isDisputing && (
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={disputedLessonIds.includes(line.id)}
+                          onChange={() => toggleDisputedLesson(line.id)}
+                          className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                        />
+                      </td>
+                    )}
+                    <td className="px-3 py-2 text-gray-700 whitespace-nowrap">
+                      {new Date(line.lessonDate).toLocaleString('pl-PL', { dateStyle: 'short', timeStyle: 'short' })}
+                    </td>
+                    <td className="px-3 py-2 text-gray-900">
+                      {line.lessonTitle}
+                      {line.isDisputed && !isDisputing && (
+                        <span className="ml-2 text-xs text-orange-700">zakwestionowana</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-700">{line.studentName}</td>
+                    <td className="px-3 py-2 text-gray-500">
+                      {QUALIFICATION_LABELS[line.qualificationReason] || line.qualificationReason}
+                      {line.payoutPercent != null && line.payoutPercent < 100 && ` • ${line.payoutPercent}%`}
+                      {line.rateRuleName && ` • ${line.rateRuleName}`}
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium text-gray-900">
+                      {formatCurrency(Number(line.amount), line.currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {isDisputing && (
+              <div className="p-4 bg-gray-50 border-t border-gray-200 space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Co się nie zgadza?</label>
+                  <textarea
+                    value={disputeReason}
+                    onChange={(e) => setDisputeReason(e.target.value)}
+                    rows={3}
+                    maxLength={1000}
+                    placeholder="Np. lekcja z 12.03 trwała 90 minut, a nie 60"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-secondary focus:border-transparent"
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setDisputingPayoutId(null)}
+                    className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Anuluj
+                  </button>
+                  <button
+                    onClick={() => submitDispute(payout.id)}
+                    disabled={disputeMutation.isPending}
+                    className="px-4 py-2 text-sm text-white bg-orange-600 rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50"
+                  >
+                    {disputeMutation.isPending ? 'Wysyłanie...' : `Zgłoś (${disputedLessonIds.length})`}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Moje zarobki</h1>
+          <p className="mt-2 text-gray-600">
+            Rozliczone lekcje w bieżącym miesiącu i historia Twoich wypłat
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Miesiąc</label>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-secondary focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {isLoadingSummary ? (
+        <LoadingSpinner message="Ładowanie zarobków..." />
+      ) : summary && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            <div className="bg-white rounded-lg shadow p-6 border border-gray-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Zarobione w miesiącu</p>
+                  <p className="text-2xl font-bold text-gray-900 mt-1">
+                    {formatCurrency(summary.totalAmount, summary.currency)}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formatDate(summary.dateFrom)} - {formatDate(summary.dateTo)}
+                  </p>
+                </div>
+                <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center">
+                  <Wallet className="h-6 w-6 text-green-600" />
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6 border border-gray-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Rozliczone lekcje</p>
+                  <p className="text-2xl font-bold text-gray-900 mt-1">{summary.lessonsCount}</p>
+                </div>
+                <div className="h-12 w-12 bg-blue-100 rounded-lg flex items-center justify-center">
+                  <BookOpen className="h-6 w-6 text-blue-600" />
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6 border border-gray-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Jeszcze nie w wypłacie</p>
+                  <p className="text-2xl font-bold text-gray-900 mt-1">
+                    {formatCurrency(summary.unsettledAmount, summary.currency)}
+                  </p>
+                </div>
+                <div className="h-12 w-12 bg-yellow-100 rounded-lg flex items-center justify-center">
+                  <Clock className="h-6 w-6 text-yellow-600" />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-8">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Lekcje kwalifikujące się do wypłaty</h2>
+            </div>
+            {summary.lessons.length === 0 ? (
+              <div className="px-6 py-12 text-center text-gray-500">Brak rozliczonych lekcji w tym miesiącu</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 border-b border-gray-200">
+                      <th className="text-left px-6 py-2 font-medium">Data</th>
+                      <th className="text-left px-3 py-2 font-medium">Lekcja</th>
+                      <th className="text-left px-3 py-2 font-medium">Uczeń</th>
+                      <th className="text-left px-3 py-2 font-medium">Rozliczenie</th>
+                      <th className="text-right px-6 py-2 font-medium">Kwota</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {summary.lessons.map((lesson) => (
+                      <tr key={lesson.id}>
+                        <td className="px-6 py-2 text-gray-700 whitespace-nowrap">
+                          {new Date(lesson.scheduledAt).toLocaleString('pl-PL', { dateStyle: 'short', timeStyle: 'short' })}
+                        </td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {lesson.title}
+                          {lesson.substituteFor && (
+                            <span className="ml-2 text-xs text-gray-500">zastępstwo za {lesson.substituteFor}</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-700">{lesson.studentName}</td>
+                        <td className="px-3 py-2 text-gray-500">
+                          {QUALIFICATION_LABELS[lesson.qualificationReason] || lesson.qualificationReason}
+                          {lesson.payoutPercent < 100 && ` • ${lesson.payoutPercent}%`}
+                          {lesson.rateRuleName && ` • ${lesson.rateRuleName}`}
+                        </td>
+                        <td className="px-6 py-2 text-right font-medium text-gray-900">
+                          {formatCurrency(lesson.amount, lesson.currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Moje wypłaty</h2>
+          <p className="text-sm text-gray-500">
+            Sprawdź lekcje w oczekującej wypłacie i potwierdź je lub zgłoś zastrzeżenia przed zatwierdzeniem
+          </p>
+        </div>
+        {isLoadingPayouts ? (
+          <LoadingSpinner message="Ładowanie wypłat..." />
+        ) : payouts.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">Nie masz jeszcze żadnych wypłat</div>
+        ) : (
+          <div className="divide-y divide-gray-200">{payouts.map(renderPayout)}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyEarningsPage;
@@ -3,6 +3,9 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import organizationService, { UpdateOrganizationData } from '../services/organizationService';
 import { Building2, Save, CalendarOff, Info, Upload, Trash2 } from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
+import BookingSettingsSection from '../components/BookingSettingsSection';
+import AttendanceSettingsSection from '../components/AttendanceSettingsSection';
+import CertificateTemplatesSection from '../components/CertificateTemplatesSection';
 import toast from 'react-hot-toast';
 
 const OrganizationSettingsPage: React.FC = () => {
@@ -30,6 +33,7 @@ const OrganizationSettingsPage: React.FC = () => {
         email: organization.email || '',
         website: organization.website || '',
         taxId: organization.taxId || '',
+        bankAccountNumber: organization.bankAccountNumber || '',
         description: organization.description || '',
         timezone: organization.timezone || 'Europe/Warsaw',
         currency: organization.currency || 'PLN',
@@ -323,6 +327,23 @@ const OrganizationSettingsPage: React.FC = () => {
                   placeholder="123-456-78-90"
                 />
               </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Numer konta do wypłat dla lektorów
+                </label>
+                <input
+                  type="text"
+                  name="bankAccountNumber"
+                  value={formData.bankAccountNumber || ''}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  placeholder="PL61 1090 1014 0000 0712 1981 2874"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Rachunek obciążany w plikach przelewów (Elixir-O / SEPA)
+                </p>
+              </div>
             </div>
           </div>
 
@@ -529,6 +550,10 @@ const OrganizationSettingsPage: React.FC = () => {
           </button>
         </div>
       </form>
+
+      <BookingSettingsSection />
+      <AttendanceSettingsSection />
+      <CertificateTemplatesSection />
     </div>
   );
 };
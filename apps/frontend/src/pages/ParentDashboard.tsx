@@ -0,0 +1,323 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { useAuthStore } from '../stores/authStore';
+import parentService, { ChildOverview } from '../services/parentService';
+import { getErrorMessage } from '../lib/errorUtils';
+import { Calendar, Clock, Wallet, CreditCard, Ban, X, AlertTriangle, Users } from 'lucide-react';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { format } from 'date-fns';
+import { pl } from 'date-fns/locale';
+
+type UpcomingLesson = ChildOverview['upcomingLessons'][number];
+
+const paymentStatusLabels: Record<string, { label: string; className: string }> = {
+  PENDING: { label: 'Oczekująca', className: 'bg-yellow-100 text-yellow-800' },
+  COMPLETED: { label: 'Opłacona', className: 'bg-green-100 text-green-800' },
+  FAILED: { label: 'Nieudana', className: 'bg-red-100 text-red-800' },
+  REFUNDED: { label: 'Zwrócona', className: 'bg-gray-100 text-gray-700' },
+};
+
+const ParentDashboard: React.FC = () => {
+  const user = useAuthStore((state) => state.user);
+  const queryClient = useQueryClient();
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
+  const [lessonToCancel, setLessonToCancel] = useState<UpcomingLesson | null>(null);
+  const [cancellationReason, setCancellationReason] = useState('');
+
+  const { data: children = [], isLoading } = useQuery({
+    queryKey: ['parentChildren', user?.id],
+    queryFn: () => parentService.getMyChildren(),
+    enabled: !!user?.id,
+  });
+
+  const { data: feePreview, isLoading: isLoadingPreview } = useQuery({
+    queryKey: ['parent-cancellation-preview', lessonToCancel?.id],
+    queryFn: () => parentService.getCancellationPreview(lessonToCancel!.id),
+    enabled: !!lessonToCancel,
+  });
+
+  const closeCancelDialog = () => {
+    setLessonToCancel(null);
+    setCancellationReason('');
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: () => parentService.cancelLesson(lessonToCancel!.id, cancellationReason || undefined),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['parentChildren'] });
+      if (feePreview?.feeApplies) {
+        toast.success(`Lekcja odwołana. Naliczono opłatę ${feePreview.feeAmount?.toFixed(2)} ${feePreview.currency}`);
+      } else {
+        toast.success('Lekcja została odwołana');
+      }
+      closeCancelDialog();
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się odwołać lekcji'));
+    },
+  });
+
+  if (isLoading) {
+    return <LoadingSpinner message="Ładowanie danych..." />;
+  }
+
+  const child = children.find((c) => c.student.id === selectedChildId) || children[0];
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">
+          Witaj, {user?.firstName}! 👋
+        </h1>
+        <p className="mt-2 text-gray-600">
+          Grafik, saldo i płatności Twoich dzieci w jednym miejscu
+        </p>
+      </div>
+
+      {children.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-12 border border-gray-200 text-center">
+          <Users className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-600">Twoje konto nie jest jeszcze powiązane z żadnym uczniem.</p>
+          <p className="text-sm text-gray-500 mt-1">Skontaktuj się ze szkołą, aby powiązać konto z dzieckiem.</p>
+        </div>
+      ) : (
+        <>
+          {/* Child switcher */}
+          {children.length > 1 && (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {children.map((c) => (
+                <button
+                  key={c.student.id}
+                  onClick={() => setSelectedChildId(c.student.id)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    child?.student.id === c.student.id
+                      ? 'bg-primary text-white'
+                      : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {c.student.firstName} {c.student.lastName}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {child && (
+            <>
+              {/* Stats Grid */}
+              <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 mb-8">
+                <div className="bg-white rounded-lg shadow p-6 border border-gray-200">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Nadchodzące lekcje</p>
+                      <p className="mt-2 text-3xl font-semibold text-gray-900">{child.upcomingLessons.length}</p>
+                    </div>
+                    <div className="bg-primary p-3 rounded-lg">
+                      <Calendar className="h-6 w-6 text-white" />
+                    </div>
+                  </div>
+                </div>
+
+                {child.balance && (
+                  <div className="bg-white rounded-lg shadow p-6 border border-gray-200">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-600">Saldo</p>
+                        <p className={`mt-2 text-3xl font-semibold ${child.balance.balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                          {child.balance.balance.toFixed(2)} {child.balance.currency}
+                        </p>
+                      </div>
+                      <div className="bg-secondary p-3 rounded-lg">
+                        <Wallet className="h-6 w-6 text-white" />
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {child.canManagePayments && (
+                  <div className="bg-white rounded-lg shadow p-6 border border-gray-200">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-600">Do zapłaty</p>
+                        <p className="mt-2 text-3xl font-semibold text-gray-900">
+                          {child.payments.filter((p) => p.status === 'PENDING').length}
+                        </p>
+                      </div>
+                      <div className="bg-yellow-500 p-3 rounded-lg">
+                        <CreditCard className="h-6 w-6 text-white" />
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Upcoming Lessons */}
+              <div className="bg-white rounded-lg shadow p-6 border border-gray-200 mb-8">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Nadchodzące lekcje</h2>
+                {child.upcomingLessons.length > 0 ? (
+                  <div className="space-y-3">
+                    {child.upcomingLessons.map((lesson) => (
+                      <div key={lesson.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                        <div className="flex items-center gap-4">
+                          <div className="flex flex-col items-center justify-center bg-primary text-white rounded-lg p-3">
+                            <span className="text-xs font-medium">
+                              {format(new Date(lesson.scheduledAt), 'MMM', { locale: pl })}
+                            </span>
+                            <span className="text-xl font-bold">
+                              {format(new Date(lesson.scheduledAt), 'dd', { locale: pl })}
+                            </span>
+                          </div>
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">{lesson.title}</p>
+                            <p className="text-xs text-gray-600">
+                              {lesson.teacher?.user.firstName} {lesson.teacher?.user.lastName}
+                              {lesson.course ? ` · ${lesson.course.name}` : ''}
+                            </p>
+                            <div className="flex items-center gap-2 mt-1">
+                              <Clock className="h-3 w-3 text-gray-500" />
+                              <span className="text-xs text-gray-500">
+                                {format(new Date(lesson.scheduledAt), 'HH:mm', { locale: pl })}
+                                {' '}({lesson.durationMinutes} min)
+                              </span>
+                            </div>
+                          </div>
+                        </div>
+                        {child.canManageSchedule && (
+                          <button
+                            onClick={() => setLessonToCancel(lesson)}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                          >
+                            <Ban className="h-4 w-4" />
+                            Odwołaj
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500 text-center py-8">Brak nadchodzących lekcji</p>
+                )}
+              </div>
+
+              {/* Payments */}
+              {child.canManagePayments && (
+                <div className="bg-white rounded-lg shadow p-6 border border-gray-200">
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">Płatności</h2>
+                  {child.payments.length > 0 ? (
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-gray-50 border-b border-gray-200">
+                          <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Opis</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kwota</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Termin</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {child.payments.map((payment) => {
+                            const status = paymentStatusLabels[payment.status] || paymentStatusLabels.PENDING;
+                            return (
+                              <tr key={payment.id}>
+                                <td className="px-4 py-3 text-sm text-gray-700">{payment.notes || '-'}</td>
+                                <td className="px-4 py-3 text-sm font-semibold text-gray-900 whitespace-nowrap">
+                                  {Number(payment.amount).toFixed(2)} {payment.currency}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                                  {payment.paidAt
+                                    ? `Opłacono ${new Date(payment.paidAt).toLocaleDateString('pl-PL')}`
+                                    : payment.dueAt
+                                      ? new Date(payment.dueAt).toLocaleDateString('pl-PL')
+                                      : '-'}
+                                </td>
+                                <td className="px-4 py-3 whitespace-nowrap">
+                                  <span className={`px-2 py-0.5 text-xs rounded-full ${status.className}`}>{status.label}</span>
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : (
+                    <p className="text-gray-500 text-center py-8">Brak płatności</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+
+      {/* Cancel lesson dialog */}
+      {lessonToCancel && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <div className="fixed inset-0 bg-black/50" onClick={closeCancelDialog} />
+
+            <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full">
+              <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                <h2 className="text-xl font-bold text-gray-900">Odwołaj lekcję</h2>
+                <button onClick={closeCancelDialog} className="text-gray-400 hover:text-gray-600 transition-colors">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <p className="text-sm text-gray-700">
+                  <strong>{lessonToCancel.title}</strong>
+                  <br />
+                  {format(new Date(lessonToCancel.scheduledAt), 'EEEE, d MMMM yyyy, HH:mm', { locale: pl })}
+                </p>
+
+                {isLoadingPreview ? (
+                  <LoadingSpinner message="Sprawdzanie warunków odwołania..." />
+                ) : feePreview?.feeApplies ? (
+                  <div className="flex gap-3 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                    <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+                    <span>
+                      Odwołanie później niż {feePreview.hoursThreshold}h przed lekcją - zostanie naliczona opłata{' '}
+                      <strong>{feePreview.feeAmount?.toFixed(2)} {feePreview.currency}</strong> ({feePreview.feePercent}% ceny lekcji).
+                    </span>
+                  </div>
+                ) : (
+                  <p className="text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg p-3">
+                    Odwołanie bez opłat.
+                  </p>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Powód (opcjonalnie)</label>
+                  <textarea
+                    value={cancellationReason}
+                    onChange={(e) => setCancellationReason(e.target.value)}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+                <button
+                  onClick={closeCancelDialog}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Wróć
+                </button>
+                <button
+                  onClick={() => cancelMutation.mutate()}
+                  disabled={cancelMutation.isPending || isLoadingPreview}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  {cancelMutation.isPending ? 'Odwoływanie...' : 'Odwołaj lekcję'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParentDashboard;
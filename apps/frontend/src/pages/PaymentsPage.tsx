@@ -4,7 +4,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSearchParams } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import paymentService, { Payment } from '../services/paymentService';
-import { Plus, Trash2, Edit, DollarSign, Clock, CheckCircle, XCircle, Upload, Calculator, CreditCard, Bell, Settings, ChevronsUpDown, ChevronUp, ChevronDown } from 'lucide-react';
+import invoiceService from '../services/invoiceService';
+import { Plus, Trash2, Edit, DollarSign, Clock, CheckCircle, XCircle, Upload, Calculator, CreditCard, Bell, Settings, FileText, Package, Repeat, ChevronsUpDown, ChevronUp, ChevronDown } from 'lucide-react';
 import FilterBar from '../components/FilterBar';
 import Pagination from '../components/Pagination';
 import PaymentModal from '../components/PaymentModal';
@@ -13,8 +14,12 @@ import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmDialog from '../components/ConfirmDialog';
 import SettlementsTab from '../components/SettlementsTab';
 import PaymentSettingsTab from '../components/PaymentSettingsTab';
+import InvoicesTab from '../components/InvoicesTab';
+import InvoiceSettingsSection from '../components/InvoiceSettingsSection';
+import PackagesTab from '../components/PackagesTab';
+import SubscriptionsTab from '../components/SubscriptionsTab';
 
-type TabType = 'payments' | 'settlements' | 'settings';
+type TabType = 'payments' | 'settlements' | 'invoices' | 'packages' | 'subscriptions' | 'settings';
 
 export default function PaymentsPage() {
   const queryClient = useQueryClient();
@@ -115,6 +120,27 @@ export default function PaymentsPage() {
     },
   });
 
+  // Issue invoice mutation
+  const issueInvoiceMutation = useMutation({
+    mutationFn: (paymentId: string) => invoiceService.issueInvoice({ paymentId }),
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      toast.success(`Wystawiono fakturę ${invoice.invoiceNumber}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Nie udało się wystawić faktury');
+    },
+  });
+
+  const handleDownloadInvoice = async (invoice: { id: string; invoiceNumber: string }) => {
+    try {
+      await invoiceService.downloadInvoice(invoice);
+    } catch {
+      toast.error('Nie udało się pobrać faktury');
+    }
+  };
+
   const handleSendReminderClick = (payment: Payment) => {
     const studentName = payment.student
       ? `${payment.student.user.firstName} ${payment.student.user.lastName}`
@@ -206,6 +232,9 @@ export default function PaymentsPage() {
   const tabs = [
     { id: 'settlements' as TabType, name: 'Rozliczenia', icon: Calculator },
     { id: 'payments' as TabType, name: 'Wpłaty', icon: CreditCard },
+    { id: 'invoices' as TabType, name: 'Faktury', icon: FileText },
+    { id: 'packages' as TabType, name: 'Pakiety', icon: Package },
+    { id: 'subscriptions' as TabType, name: 'Abonamenty', icon: Repeat },
     { id: 'settings' as TabType, name: 'Ustawienia', icon: Settings },
   ];
 
@@ -455,6 +484,24 @@ export default function PaymentsPage() {
                                 <Bell className="w-4 h-4" />
                               </button>
                             )}
+                            {payment.invoice ? (
+                              <button
+                                onClick={() => handleDownloadInvoice(payment.invoice!)}
+                                className="text-gray-600 hover:text-gray-800"
+                                title={`Pobierz fakturę ${payment.invoice.invoiceNumber}`}
+                              >
+                                <FileText className="w-4 h-4" />
+                              </button>
+                            ) : payment.status === 'COMPLETED' && (
+                              <button
+                                onClick={() => issueInvoiceMutation.mutate(payment.id)}
+                                disabled={issueInvoiceMutation.isPending}
+                                className="text-primary hover:text-primary/80 disabled:opacity-50"
+                                title="Wystaw fakturę"
+                              >
+                                <FileText className="w-4 h-4" />
+                              </button>
+                            )}
                             <button
                               onClick={() => handleEdit(payment)}
                               className="text-secondary hover:text-secondary-dark"
@@ -499,8 +546,23 @@ export default function PaymentsPage() {
         />
       )}
 
+      {activeTab === 'invoices' && (
+        <InvoicesTab />
+      )}
+
+      {activeTab === 'packages' && (
+        <PackagesTab />
+      )}
+
+      {activeTab === 'subscriptions' && (
+        <SubscriptionsTab />
+      )}
+
       {activeTab === 'settings' && (
-        <PaymentSettingsTab />
+        <div className="space-y-8">
+          <PaymentSettingsTab />
+          <InvoiceSettingsSection />
+        </div>
       )}
 
       {/* Payment Modal */}
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { ClipboardCheck, Plus, Pencil, Trash2 } from 'lucide-react';
+import placementTestService, { PlacementTest } from '../services/placementTestService';
+import LoadingSpinner from '../components/LoadingSpinner';
+import ConfirmDialog from '../components/ConfirmDialog';
+import PlacementTestModal from '../components/PlacementTestModal';
+
+const PlacementTestsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [editedTestId, setEditedTestId] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [testToDelete, setTestToDelete] = useState<PlacementTest | null>(null);
+
+  const { data: tests = [], isLoading } = useQuery({
+    queryKey: ['placement-tests'],
+    queryFn: () => placementTestService.getTests(),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => placementTestService.deleteTest(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['placement-tests'] });
+      toast.success('Test został usunięty');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error?.message || 'Nie udało się usunąć testu');
+    },
+  });
+
+  const openModal = (testId: string | null) => {
+    setEditedTestId(testId);
+    setIsModalOpen(true);
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner message="Wczytywanie testów..." />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Testy poziomujące</h1>
+          <p className="mt-2 text-gray-600">
+            Banki pytań wykorzystywane w publicznym formularzu zapisu do określenia poziomu kandydata
+          </p>
+        </div>
+        <button
+          onClick={() => openModal(null)}
+          className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          Nowy test
+        </button>
+      </div>
+
+      {tests.length === 0 ? (
+        <div className="bg-white rounded-lg shadow border border-gray-200 p-12 text-center">
+          <ClipboardCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Brak testów poziomujących</h3>
+          <p className="text-gray-500">Utwórz test, aby kandydaci mogli sprawdzić swój poziom przy zapisie.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nazwa</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Język</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pytania</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Czas</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Podejścia</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Akcje</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {tests.map((test) => (
+                <tr key={test.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{test.name}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600 uppercase">{test.language}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{test._count?.questions ?? 0}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{test.timeLimitMinutes} min</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{test._count?.attempts ?? 0}</td>
+                  <td className="px-6 py-4">
+                    <span
+                      className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                        test.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                      }`}
+                    >
+                      {test.isActive ? 'Aktywny' : 'Nieaktywny'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex justify-end gap-1">
+                      <button
+                        onClick={() => openModal(test.id)}
+                        className="p-1.5 text-gray-400 hover:text-primary rounded hover:bg-gray-100 transition-colors"
+                        title="Edytuj"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => setTestToDelete(test)}
+                        className="p-1.5 text-gray-400 hover:text-red-600 rounded hover:bg-red-50 transition-colors"
+                        title="Usuń"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {isModalOpen && (
+        <PlacementTestModal
+          testId={editedTestId}
+          onClose={() => setIsModalOpen(false)}
+        />
+      )}
+
+      <ConfirmDialog
+        isOpen={!!testToDelete}
+        onClose={() => setTestToDelete(null)}
+        onConfirm={() => {
+          if (testToDelete) deleteMutation.mutate(testToDelete.id);
+          setTestToDelete(null);
+        }}
+        title="Usuń test poziomujący"
+        message={`Czy na pewno chcesz usunąć test "${testToDelete?.name}"? Szczegóły wyników w zgłoszeniach zostaną usunięte, sugerowany poziom pozostanie.`}
+        confirmText="Usuń"
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default PlacementTestsPage;
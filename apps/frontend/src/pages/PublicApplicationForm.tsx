@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import courseApplicationService, { SubmitApplicationData } from '../services/courseApplicationService';
+import { PlacementResult } from '../services/placementTestService';
+import PlacementTestRunner from '../components/PlacementTestRunner';
 import { CheckCircle, Send, Loader2 } from 'lucide-react';
 
 const LANGUAGE_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
@@ -10,6 +12,7 @@ export default function PublicApplicationForm() {
   const { orgSlug } = useParams<{ orgSlug: string }>();
   const [submitted, setSubmitted] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [placementResult, setPlacementResult] = useState<PlacementResult | null>(null);
 
   const [formData, setFormData] = useState<SubmitApplicationData>({
     name: '',
@@ -20,6 +23,7 @@ export default function PublicApplicationForm() {
     languageLevel: '',
     availability: '',
     notes: '',
+    website: '',
   });
 
   // Fetch public courses and org info
@@ -43,6 +47,8 @@ export default function PublicApplicationForm() {
         notes: isIndividualRequest
           ? [formData.notes, 'Preferencja: kurs indywidualny'].filter(Boolean).join('\n')
           : formData.notes || undefined,
+        placementAttemptId: placementResult?.attemptId,
+        website: formData.website || undefined,
       };
       return courseApplicationService.submitApplication(orgSlug!, submitData);
     },
@@ -69,6 +75,13 @@ export default function PublicApplicationForm() {
     submitMutation.mutate();
   };
 
+  const handlePlacementComplete = (result: PlacementResult) => {
+    setPlacementResult(result);
+    if (LANGUAGE_LEVELS.includes(result.suggestedLevel)) {
+      handleChange('languageLevel', result.suggestedLevel);
+    }
+  };
+
   const handleChange = (field: keyof SubmitApplicationData, value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
     if (errors[field]) {
@@ -131,6 +144,18 @@ export default function PublicApplicationForm() {
 
         {/* Form */}
         <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg p-6 space-y-5">
+          {/* Honeypot - hidden from people, only bots fill it in */}
+          <input
+            type="text"
+            name="website"
+            tabIndex={-1}
+            autoComplete="off"
+            aria-hidden="true"
+            value={formData.website}
+            onChange={(e) => handleChange('website', e.target.value)}
+            className="hidden"
+          />
+
           {/* Name */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -207,6 +232,14 @@ export default function PublicApplicationForm() {
             />
           </div>
 
+          {/* Placement test */}
+          <PlacementTestRunner
+            orgSlug={orgSlug!}
+            primaryColor={primaryColor}
+            result={placementResult}
+            onComplete={handlePlacementComplete}
+          />
+
           {/* Language level */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Poziom językowy</label>
@@ -0,0 +1,322 @@
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { pl } from 'date-fns/locale';
+import courseApplicationService, {
+  PublicCatalogCourse,
+  PublicCatalogFilters,
+} from '../services/courseApplicationService';
+import { CheckCircle, Send, Loader2, MapPin, Monitor, Users, CalendarDays } from 'lucide-react';
+
+const DELIVERY_MODE_LABELS: Record<PublicCatalogCourse['deliveryMode'], string> = {
+  IN_PERSON: 'Stacjonarnie',
+  ONLINE: 'Online',
+  BOTH: 'Stacjonarnie i online',
+};
+
+const selectClass =
+  'px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const inputClass =
+  'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * Embeddable course catalog (iframe mode, loaded by public/widget.js).
+ * Query params preset the filters: language, level, mode, from, to, freeSeats.
+ */
+export default function PublicCourseWidget() {
+  const { orgSlug } = useParams<{ orgSlug: string }>();
+  const [searchParams] = useSearchParams();
+
+  const [filters, setFilters] = useState<PublicCatalogFilters>({
+    language: searchParams.get('language') || undefined,
+    level: searchParams.get('level') || undefined,
+    deliveryMode: (searchParams.get('mode') as PublicCatalogFilters['deliveryMode']) || undefined,
+    startDateFrom: searchParams.get('from') || undefined,
+    startDateTo: searchParams.get('to') || undefined,
+    hasFreeSeats: searchParams.get('freeSeats') === 'true',
+  });
+  const [selectedCourse, setSelectedCourse] = useState<PublicCatalogCourse | null>(null);
+  const [submittedCourseId, setSubmittedCourseId] = useState<string | null>(null);
+  const [formData, setFormData] = useState({ name: '', email: '', phone: '', notes: '', website: '' });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['public-catalog', orgSlug, filters],
+    queryFn: () => courseApplicationService.getPublicCatalog(orgSlug!, filters),
+    enabled: !!orgSlug,
+    placeholderData: (previous) => previous,
+  });
+
+  // Let the host page resize the iframe to fit the content
+  useEffect(() => {
+    if (window.parent === window) return;
+    const postHeight = () => {
+      window.parent.postMessage(
+        { type: 'lingodesk:widget-height', org: orgSlug, height: document.documentElement.scrollHeight },
+        '*',
+      );
+    };
+    const observer = new ResizeObserver(postHeight);
+    observer.observe(document.body);
+    postHeight();
+    return () => observer.disconnect();
+  }, [orgSlug]);
+
+  const submitMutation = useMutation({
+    mutationFn: (course: PublicCatalogCourse) =>
+      courseApplicationService.submitApplication(orgSlug!, {
+        name: formData.name.trim(),
+        email: formData.email.trim(),
+        phone: formData.phone || undefined,
+        courseId: course.id,
+        languageLevel: course.level,
+        notes: formData.notes || undefined,
+        source: 'WIDGET',
+        website: formData.website || undefined,
+      }),
+    onSuccess: (_, course) => {
+      setSubmittedCourseId(course.id);
+      setSelectedCourse(null);
+      setFormData({ name: '', email: '', phone: '', notes: '', website: '' });
+    },
+  });
+
+  const organization = data?.organization;
+  const primaryColor = organization?.primaryColor || '#3B82F6';
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!data || !organization) {
+    return (
+      <div className="p-6 text-center">
+        <h1 className="text-lg font-bold text-gray-900 mb-1">Nie znaleziono szkoły</h1>
+        <p className="text-sm text-gray-600">Sprawdź kod osadzenia widgetu.</p>
+      </div>
+    );
+  }
+
+  const updateFilter = (patch: Partial<PublicCatalogFilters>) => setFilters((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <div className="bg-white p-4 space-y-4">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        {organization.logoUrl && <img src={organization.logoUrl} alt={organization.name} className="h-10" />}
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">{organization.name}</h1>
+          <p className="text-sm text-gray-500">Aktualna oferta kursów</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filters.language ?? ''}
+          onChange={(e) => updateFilter({ language: e.target.value || undefined })}
+          className={selectClass}
+        >
+          <option value="">Wszystkie języki</option>
+          {data.filters.languages.map((language) => (
+            <option key={language} value={language}>{language}</option>
+          ))}
+        </select>
+        <select
+          value={filters.level ?? ''}
+          onChange={(e) => updateFilter({ level: e.target.value || undefined })}
+          className={selectClass}
+        >
+          <option value="">Wszystkie poziomy</option>
+          {data.filters.levels.map((level) => (
+            <option key={level} value={level}>{level}</option>
+          ))}
+        </select>
+        <select
+          value={filters.deliveryMode ?? ''}
+          onChange={(e) =>
+            updateFilter({ deliveryMode: (e.target.value as PublicCatalogFilters['deliveryMode']) || undefined })
+          }
+          className={selectClass}
+        >
+          <option value="">Każdy tryb</option>
+          <option value="IN_PERSON">Stacjonarnie</option>
+          <option value="ONLINE">Online</option>
+        </select>
+        <input
+          type="date"
+          value={filters.startDateFrom ?? ''}
+          onChange={(e) => updateFilter({ startDateFrom: e.target.value || undefined })}
+          className={selectClass}
+          title="Start kursu od"
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!filters.hasFreeSeats}
+            onChange={(e) => updateFilter({ hasFreeSeats: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          Tylko z wolnymi miejscami
+        </label>
+      </div>
+
+      {/* Courses */}
+      {data.courses.length === 0 ? (
+        <p className="text-sm text-gray-500 py-6 text-center">Brak kursów spełniających wybrane kryteria.</p>
+      ) : (
+        <div className="space-y-3">
+          {data.courses.map((course) => {
+            const isFull = course.freeSeats === 0;
+            const isSelected = selectedCourse?.id === course.id;
+            return (
+              <div key={course.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <h2 className="font-semibold text-gray-900">
+                      {course.name}{' '}
+                      <span className="text-sm font-normal text-gray-500">
+                        {course.language.toUpperCase()} · {course.level}
+                      </span>
+                    </h2>
+                    <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                      <span className="flex items-center gap-1">
+                        <CalendarDays className="w-4 h-4" />
+                        od {format(new Date(course.startDate), 'd MMMM yyyy', { locale: pl })}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        {course.deliveryMode === 'ONLINE' ? <Monitor className="w-4 h-4" /> : <MapPin className="w-4 h-4" />}
+                        {DELIVERY_MODE_LABELS[course.deliveryMode]}
+                        {course.location && course.deliveryMode !== 'ONLINE' && ` · ${course.location.name}`}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Users className="w-4 h-4" />
+                        {course.freeSeats === null
+                          ? 'Wolne miejsca'
+                          : isFull
+                            ? 'Brak wolnych miejsc'
+                            : `Wolne miejsca: ${course.freeSeats}`}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-600">
+                      Lektor: {course.teacher.user.firstName} {course.teacher.user.lastName} ·{' '}
+                      {Number(course.pricePerLesson).toFixed(2)} {course.currency} / lekcja ({course.defaultDurationMinutes} min)
+                    </p>
+                    {course.description && <p className="mt-2 text-sm text-gray-500">{course.description}</p>}
+                  </div>
+                  {submittedCourseId === course.id ? (
+                    <span className="flex items-center gap-1 text-sm font-medium" style={{ color: primaryColor }}>
+                      <CheckCircle className="w-4 h-4" />
+                      Zgłoszenie wysłane
+                    </span>
+                  ) : (
+                    !isSelected && (
+                      <button
+                        onClick={() => {
+                          setSelectedCourse(course);
+                          submitMutation.reset();
+                        }}
+                        className="px-4 py-2 text-sm text-white font-medium rounded-lg"
+                        style={{ backgroundColor: primaryColor }}
+                      >
+                        {isFull ? 'Zapisz na listę rezerwową' : 'Zapisz się'}
+                      </button>
+                    )
+                  )}
+                </div>
+
+                {isSelected && (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      submitMutation.mutate(course);
+                    }}
+                    className="mt-4 pt-4 border-t border-gray-100 space-y-3"
+                  >
+                    {/* Honeypot - hidden from people, only bots fill it in */}
+                    <input
+                      type="text"
+                      name="website"
+                      tabIndex={-1}
+                      autoComplete="off"
+                      aria-hidden="true"
+                      value={formData.website}
+                      onChange={(e) => setFormData({ ...formData, website: e.target.value })}
+                      className="hidden"
+                    />
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <input
+                        type="text"
+                        required
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        placeholder="Imię i nazwisko *"
+                        className={inputClass}
+                      />
+                      <input
+                        type="email"
+                        required
+                        value={formData.email}
+                        onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                        placeholder="Email *"
+                        className={inputClass}
+                      />
+                      <input
+                        type="tel"
+                        value={formData.phone}
+                        onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                        placeholder="Telefon"
+                        className={inputClass}
+                      />
+                    </div>
+                    <textarea
+                      rows={2}
+                      value={formData.notes}
+                      onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                      placeholder="Uwagi, np. preferowane godziny"
+                      className={inputClass}
+                    />
+
+                    {submitMutation.isError && (() => {
+                      const err = (submitMutation.error as any)?.response?.data?.error;
+                      const fieldErrors = err?.errors?.map((e: any) => e.message).join(', ');
+                      return (
+                        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+                          {fieldErrors || err?.message || 'Wystąpił błąd. Spróbuj ponownie.'}
+                        </div>
+                      );
+                    })()}
+
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setSelectedCourse(null)}
+                        className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+                      >
+                        Anuluj
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={submitMutation.isPending}
+                        className="flex items-center gap-2 px-4 py-2 text-sm text-white font-medium rounded-lg disabled:opacity-50"
+                        style={{ backgroundColor: primaryColor }}
+                      >
+                        {submitMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                        {submitMutation.isPending ? 'Wysyłanie...' : 'Wyślij zgłoszenie'}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -23,8 +23,8 @@ const RegisterPage: React.FC = () => {
     setError('');
     setGoogleLoading(true);
     try {
-      const { user, token } = await authService.googleLogin(credentialResponse.credential);
-      setAuth(user, token);
+      const { user, token, refreshToken } = await authService.googleLogin(credentialResponse.credential);
+      setAuth(user, token, refreshToken);
       navigate('/dashboard');
     } catch (err: any) {
       setError(err.response?.data?.error?.message || 'Rejestracja przez Google nie powiodła się');
@@ -46,8 +46,8 @@ const RegisterPage: React.FC = () => {
     setLoading(true);
 
     try {
-      const { user, token } = await authService.register(formData);
-      setAuth(user, token);
+      const { user, token, refreshToken } = await authService.register(formData);
+      setAuth(user, token, refreshToken);
       navigate('/dashboard');
     } catch (err: any) {
       setError(err.response?.data?.error?.message || 'Registration failed');
@@ -8,8 +8,12 @@ import RetentionReport from '../components/reports/RetentionReport';
 
 type ReportType = 'teacher-payouts' | 'new-students' | 'margins' | 'debtors' | 'retention';
 
+// Currencies with NBP reference rates - amounts are converted with the rate from their payment/lesson date
+const REPORTING_CURRENCIES = ['PLN', 'EUR', 'USD', 'GBP', 'CHF', 'CZK', 'DKK', 'NOK', 'SEK'];
+
 const ReportsPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<ReportType>('teacher-payouts');
+  const [reportingCurrency, setReportingCurrency] = useState('');
 
   const tabs = [
     {
@@ -42,11 +46,30 @@ const ReportsPage: React.FC = () => {
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Header */}
-      <div className="mb-6">
-        <h1 className="text-3xl font-bold text-gray-900">Raporty</h1>
-        <p className="mt-2 text-sm text-gray-600">
-          Generuj raporty i eksportuj dane do CSV lub PDF
-        </p>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Raporty</h1>
+          <p className="mt-2 text-sm text-gray-600">
+            Generuj raporty i eksportuj dane do CSV lub PDF
+          </p>
+        </div>
+        {activeTab !== 'retention' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Waluta raportu</label>
+            <select
+              value={reportingCurrency}
+              onChange={(e) => setReportingCurrency(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-secondary focus:border-transparent"
+            >
+              <option value="">Waluta organizacji</option>
+              {REPORTING_CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       {/* Tabs Navigation */}
@@ -74,10 +97,10 @@ const ReportsPage: React.FC = () => {
 
       {/* Tab Content */}
       <div className="mt-6">
-        {activeTab === 'teacher-payouts' && <TeacherPayoutsReport />}
-        {activeTab === 'new-students' && <NewStudentsReport />}
-        {activeTab === 'margins' && <MarginsReport />}
-        {activeTab === 'debtors' && <DebtorsReport />}
+        {activeTab === 'teacher-payouts' && <TeacherPayoutsReport reportingCurrency={reportingCurrency || undefined} />}
+        {activeTab === 'new-students' && <NewStudentsReport reportingCurrency={reportingCurrency || undefined} />}
+        {activeTab === 'margins' && <MarginsReport reportingCurrency={reportingCurrency || undefined} />}
+        {activeTab === 'debtors' && <DebtorsReport reportingCurrency={reportingCurrency || undefined} />}
         {activeTab === 'retention' && <RetentionReport />}
       </div>
     </div>
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { formatDistanceToNow, format } from 'date-fns';
+import { pl } from 'date-fns/locale';
+import { LogOut, Monitor, Smartphone, MonitorSmartphone } from 'lucide-react';
+import { authService, UserSession } from '../services/authService';
+import { useAuthStore } from '../stores/authStore';
+import LoadingSpinner from '../components/LoadingSpinner';
+import ConfirmDialog from '../components/ConfirmDialog';
+import { getErrorMessage } from '../lib/errorUtils';
+
+/**
+ * Rough "Browser on OS" label from the user agent - good enough to recognise own devices
+ */
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return { label: 'Nieznane urządzenie', isMobile: false };
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Przeglądarka';
+  const os =
+    /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return {
+    label: os ? `${browser} · ${os}` : browser,
+    isMobile: /Mobile|Android|iPhone|iPad/.test(userAgent),
+  };
+};
+
+const SessionsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const logout = useAuthStore((state) => state.logout);
+  const [confirmLogoutAll, setConfirmLogoutAll] = useState(false);
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: () => authService.getSessions(),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => authService.revokeSession(id),
+    onSuccess: () => {
+      toast.success('Sesja została zakończona');
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się zakończyć sesji'));
+    },
+  });
+
+  const logoutOthersMutation = useMutation({
+    mutationFn: () => authService.logoutAll(true),
+    onSuccess: ({ count }) => {
+      toast.success(count > 0 ? `Wylogowano pozostałe sesje (${count})` : 'Brak innych aktywnych sesji');
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się wylogować pozostałych sesji'));
+    },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: () => authService.logoutAll(false),
+    onSuccess: () => {
+      logout();
+      window.location.href = '/login';
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się wylogować ze wszystkich urządzeń'));
+    },
+  });
+
+  const renderSession = (session: UserSession) => {
+    const device = describeDevice(session.userAgent);
+    const Icon = device.isMobile ? Smartphone : Monitor;
+
+    return (
+      <li key={session.id} className="flex items-center gap-4 px-4 py-3">
+        <Icon className="h-6 w-6 text-gray-400 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+            {device.label}
+            {session.isCurrent && (
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                To urządzenie
+              </span>
+            )}
+          </p>
+          <p className="text-xs text-gray-500">
+            {session.ipAddress || 'nieznany adres IP'} · aktywność{' '}
+            {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true, locale: pl })} · zalogowano{' '}
+            {format(new Date(session.createdAt), 'd.MM.yyyy HH:mm')}
+          </p>
+        </div>
+        {!session.isCurrent && (
+          <button
+            onClick={() => revokeMutation.mutate(session.id)}
+            disabled={revokeMutation.isPending}
+            className="px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            Wyloguj
+          </button>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="max-w-3xl">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+          <MonitorSmartphone className="h-8 w-8 text-primary" />
+          Aktywne sesje
+        </h1>
+        <p className="mt-2 text-gray-600">
+          Urządzenia, na których jesteś zalogowany. Jeśli nie rozpoznajesz któregoś z nich, zakończ sesję i zmień hasło.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <LoadingSpinner message="Ładowanie sesji..." />
+      ) : (
+        <div className="bg-white rounded-lg shadow border border-gray-200">
+          <ul className="divide-y divide-gray-100">{sessions.map(renderSession)}</ul>
+          <div className="flex flex-wrap justify-end gap-3 p-4 border-t border-gray-200">
+            <button
+              onClick={() => logoutOthersMutation.mutate()}
+              disabled={logoutOthersMutation.isPending || sessions.length <= 1}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Wyloguj pozostałe urządzenia
+            </button>
+            <button
+              onClick={() => setConfirmLogoutAll(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            >
+              <LogOut className="h-4 w-4" />
+              Wyloguj wszędzie
+            </button>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmLogoutAll}
+        onClose={() => setConfirmLogoutAll(false)}
+        onConfirm={() => logoutAllMutation.mutate()}
+        title="Wyloguj wszędzie"
+        message="Wszystkie sesje, łącznie z bieżącą, zostaną zakończone. Trzeba będzie zalogować się ponownie na każdym urządzeniu."
+        confirmText="Wyloguj wszędzie"
+        variant="danger"
+        isLoading={logoutAllMutation.isPending}
+      />
+    </div>
+  );
+};
+
+export default SessionsPage;
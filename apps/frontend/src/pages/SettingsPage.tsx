@@ -1,14 +1,15 @@
 import React, { useState, useMemo } from 'react';
-import { Building2, Bell, Plug, LayoutDashboard, Eye, BookOpen } from 'lucide-react';
+import { Building2, Bell, Plug, LayoutDashboard, Eye, BookOpen, Mail } from 'lucide-react';
 import OrganizationSettingsPage from './OrganizationSettingsPage';
 import NotificationSettingsPage from './NotificationSettingsPage';
 import IntegrationsPage from './IntegrationsPage';
 import DashboardSettingsPage from './DashboardSettingsPage';
 import VisibilitySettingsPage from './VisibilitySettingsPage';
 import RegulationsPage from './RegulationsPage';
+import EmailTemplatesPage from './EmailTemplatesPage';
 import { useAuthStore } from '../stores/authStore';
 
-type TabType = 'organization' | 'dashboard' | 'notifications' | 'integrations' | 'visibility' | 'regulations';
+type TabType = 'organization' | 'dashboard' | 'notifications' | 'emailTemplates' | 'integrations' | 'visibility' | 'regulations';
 
 const SettingsPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabType>('organization');
@@ -32,6 +33,11 @@ const SettingsPage: React.FC = () => {
         name: 'Powiadomienia',
         icon: Bell,
       },
+      {
+        id: 'emailTemplates' as TabType,
+        name: 'Szablony email',
+        icon: Mail,
+      },
       {
         id: 'integrations' as TabType,
         name: 'Integracje',
@@ -93,6 +99,7 @@ const SettingsPage: React.FC = () => {
         {activeTab === 'organization' && <OrganizationSettingsPage />}
         {activeTab === 'dashboard' && <DashboardSettingsPage />}
         {activeTab === 'notifications' && <NotificationSettingsPage />}
+        {activeTab === 'emailTemplates' && <EmailTemplatesPage />}
         {activeTab === 'integrations' && <IntegrationsPage />}
         {activeTab === 'regulations' && <RegulationsPage />}
         {activeTab === 'visibility' && isAdmin && <VisibilitySettingsPage />}
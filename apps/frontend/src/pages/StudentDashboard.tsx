@@ -1,15 +1,21 @@
-import React from 'react';
-import { useQuery } from '@tanstack/react-query';
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
 import { useAuthStore } from '../stores/authStore';
 import { lessonService } from '../services/lessonService';
 import { studentService } from '../services/studentService';
-import { BookOpen, Calendar, Clock, TrendingUp, MessageSquare } from 'lucide-react';
+import { getErrorMessage } from '../lib/errorUtils';
+import { BookOpen, Calendar, Clock, TrendingUp, MessageSquare, Ban, X, AlertTriangle } from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
+import StudentBookingSection from '../components/StudentBookingSection';
 import { format } from 'date-fns';
 import { pl } from 'date-fns/locale';
 
 const StudentDashboard: React.FC = () => {
   const user = useAuthStore((state) => state.user);
+  const queryClient = useQueryClient();
+  const [lessonToCancel, setLessonToCancel] = useState<any | null>(null);
+  const [cancellationReason, setCancellationReason] = useState('');
 
   // Fetch student data (uses /me endpoint to look up by userId)
   const { data: studentData, isLoading: isLoadingStudent } = useQuery({
@@ -29,6 +35,34 @@ const StudentDashboard: React.FC = () => {
   });
   const lessons = lessonsResult?.data ?? [];
 
+  const { data: cancellationPreview, isLoading: isLoadingPreview } = useQuery({
+    queryKey: ['student-cancellation-preview', lessonToCancel?.id],
+    queryFn: () => lessonService.getSelfCancellationPreview(lessonToCancel!.id),
+    enabled: !!lessonToCancel,
+  });
+
+  const closeCancelDialog = () => {
+    setLessonToCancel(null);
+    setCancellationReason('');
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: () => lessonService.selfCancelLesson(lessonToCancel!.id, cancellationReason || undefined),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['studentLessons'] });
+      queryClient.invalidateQueries({ queryKey: ['booking-options'] });
+      if (cancellationPreview?.feeApplies) {
+        toast.success(`Lekcja odwołana. Naliczono opłatę ${cancellationPreview.feeAmount?.toFixed(2)} ${cancellationPreview.currency}`);
+      } else {
+        toast.success('Lekcja została odwołana');
+      }
+      closeCancelDialog();
+    },
+    onError: (error: any) => {
+      toast.error(getErrorMessage(error, 'Nie udało się odwołać lekcji'));
+    },
+  });
+
   if (isLoadingStudent || isLoadingLessons) {
     return <LoadingSpinner message="Ładowanie danych..." />;
   }
@@ -96,6 +130,8 @@ const StudentDashboard: React.FC = () => {
 
       </div>
 
+      <StudentBookingSection />
+
       {/* Upcoming Lessons */}
       <div className="bg-white rounded-lg shadow p-6 border border-gray-200 mb-8">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">
@@ -131,6 +167,15 @@ const StudentDashboard: React.FC = () => {
                     </div>
                   </div>
                 </div>
+                {!lesson.isGroupLesson && (
+                  <button
+                    onClick={() => setLessonToCancel(lesson)}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                  >
+                    <Ban className="h-4 w-4" />
+                    Odwołaj
+                  </button>
+                )}
               </div>
             ))}
           </div>
@@ -193,6 +238,93 @@ const StudentDashboard: React.FC = () => {
           <p className="text-gray-500 text-center py-4">Brak notatek od szkoły</p>
         )}
       </div>
+
+      {/* Cancel lesson dialog */}
+      {lessonToCancel && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <div className="fixed inset-0 bg-black/50" onClick={closeCancelDialog} />
+
+            <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full">
+              <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                <h2 className="text-xl font-bold text-gray-900">Odwołaj lekcję</h2>
+                <button onClick={closeCancelDialog} className="text-gray-400 hover:text-gray-600 transition-colors">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <p className="text-sm text-gray-700">
+                  <strong>{lessonToCancel.title}</strong>
+                  <br />
+                  {format(new Date(lessonToCancel.scheduledAt), 'EEEE, d MMMM yyyy, HH:mm', { locale: pl })}
+                </p>
+
+                {isLoadingPreview ? (
+                  <LoadingSpinner message="Sprawdzanie warunków odwołania..." />
+                ) : cancellationPreview && (
+                  <>
+                    {!cancellationPreview.canCancel ? (
+                      <div className="flex gap-3 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                        <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+                        <span>
+                          Wykorzystano limit odwołań ({cancellationPreview.used} z {cancellationPreview.limit}).
+                          Skontaktuj się ze szkołą, aby odwołać lekcję.
+                        </span>
+                      </div>
+                    ) : cancellationPreview.feeApplies ? (
+                      <div className="flex gap-3 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                        <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+                        <span>
+                          Odwołanie później niż {cancellationPreview.hoursThreshold}h przed lekcją - zostanie naliczona opłata{' '}
+                          <strong>{cancellationPreview.feeAmount?.toFixed(2)} {cancellationPreview.currency}</strong> ({cancellationPreview.feePercent}% ceny lekcji).
+                        </span>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg p-3">
+                        Odwołanie bez opłat.
+                      </p>
+                    )}
+
+                    {cancellationPreview.limitEnabled && cancellationPreview.canCancel && (
+                      <p className="text-sm text-gray-600">
+                        Pozostałe odwołania w tym okresie: <strong>{cancellationPreview.remaining}</strong> z {cancellationPreview.limit}
+                        {cancellationPreview.remaining === 1 && ' - to ostatnie dostępne odwołanie'}
+                      </p>
+                    )}
+                  </>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Powód (opcjonalnie)</label>
+                  <textarea
+                    value={cancellationReason}
+                    onChange={(e) => setCancellationReason(e.target.value)}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+                <button
+                  onClick={closeCancelDialog}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Wróć
+                </button>
+                <button
+                  onClick={() => cancelMutation.mutate()}
+                  disabled={cancelMutation.isPending || isLoadingPreview || cancellationPreview?.canCancel === false}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  {cancelMutation.isPending ? 'Odwoływanie...' : 'Odwołaj lekcję'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
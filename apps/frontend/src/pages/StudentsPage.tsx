@@ -417,6 +417,9 @@ const StudentsPage: React.FC = () => {
                           {student.isMinor && (
                             <span className="text-xs text-orange-600">Niepełnoletni</span>
                           )}
+                          {student.isProvisional && (
+                            <span className="block text-xs text-blue-600">Lekcja próbna</span>
+                          )}
                         </div>
                       </div>
                     </td>
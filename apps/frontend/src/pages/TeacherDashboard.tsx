@@ -4,7 +4,8 @@ import { Link } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
 import { dashboardService } from '../services/dashboardService';
 import teacherScheduleService from '../services/teacherScheduleService';
-import { Clock, Users, AlertTriangle, CheckCircle, BookOpen, ArrowRight } from 'lucide-react';
+import payoutService from '../services/payoutService';
+import { Clock, Users, AlertTriangle, CheckCircle, BookOpen, ArrowRight, Wallet } from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { format, startOfWeek, endOfWeek } from 'date-fns';
 import { pl } from 'date-fns/locale';
@@ -32,6 +33,13 @@ const TeacherDashboard: React.FC = () => {
       }),
   });
 
+  // Payouts waiting for the teacher's sign-off
+  const { data: myPayouts = [] } = useQuery({
+    queryKey: ['my-payouts'],
+    queryFn: () => payoutService.getMyPayouts(),
+  });
+  const payoutsToSignOff = myPayouts.filter((payout) => payout.status === 'PENDING' && !payout.signOffStatus);
+
   // Filter today's lessons
   const today = new Date();
   const todayLessons = weekLessons.filter((lesson: any) => {
@@ -129,6 +137,27 @@ const TeacherDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Payouts to sign off */}
+      {payoutsToSignOff.length > 0 && (
+        <div className="mb-8 bg-blue-50 border border-blue-200 rounded-lg p-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Wallet className="h-5 w-5 text-blue-600" />
+            <p className="text-sm text-blue-900">
+              {payoutsToSignOff.length === 1
+                ? 'Masz wypłatę oczekującą na Twoje potwierdzenie'
+                : `Masz ${payoutsToSignOff.length} wypłaty oczekujące na Twoje potwierdzenie`}
+            </p>
+          </div>
+          <Link
+            to="/teacher/earnings"
+            className="text-sm text-primary hover:text-primary/80 flex items-center gap-1 whitespace-nowrap"
+          >
+            Sprawdź wypłaty
+            <ArrowRight className="h-4 w-4" />
+          </Link>
+        </div>
+      )}
+
       {/* Reminders */}
       {reminders?.incompleteAttendance && reminders.incompleteAttendance.length > 0 && (
         <div className="mb-8 bg-yellow-50 border border-yellow-200 rounded-lg p-6">
@@ -5,10 +5,12 @@ import 'moment/locale/pl';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
 import { useQuery } from '@tanstack/react-query';
 import teacherScheduleService from '../services/teacherScheduleService';
+import { teacherService } from '../services/teacherService';
 import { Lesson } from '../services/lessonService';
 import LessonModal from '../components/LessonModal';
+import TeacherAvailabilityModal from '../components/TeacherAvailabilityModal';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { Calendar as CalendarIcon, Clock, Users, BookOpen } from 'lucide-react';
+import { Calendar as CalendarIcon, Clock, Users, BookOpen, CalendarClock } from 'lucide-react';
 
 // Set Polish locale
 moment.locale('pl');
@@ -53,6 +55,12 @@ const TeacherSchedulePage: React.FC = () => {
   const [date, setDate] = useState(new Date());
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedLesson, setSelectedLesson] = useState<Lesson | null>(null);
+  const [isAvailabilityOpen, setIsAvailabilityOpen] = useState(false);
+
+  const { data: me } = useQuery({
+    queryKey: ['currentTeacher'],
+    queryFn: () => teacherService.getMe(),
+  });
 
   // Calculate date range for the current view
   const dateRange = useMemo(() => {
@@ -125,11 +133,22 @@ const TeacherSchedulePage: React.FC = () => {
 
   return (
     <div>
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900">Mój grafik</h1>
-        <p className="mt-2 text-gray-600">
-          Przeglądaj swoje zaplanowane lekcje i zarządzaj grafikiem
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Mój grafik</h1>
+          <p className="mt-2 text-gray-600">
+            Przeglądaj swoje zaplanowane lekcje i zarządzaj grafikiem
+          </p>
+        </div>
+        {me && (
+          <button
+            onClick={() => setIsAvailabilityOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <CalendarClock className="h-4 w-4" />
+            Moja dostępność
+          </button>
+        )}
       </div>
 
       {/* Statistics */}
@@ -235,6 +254,14 @@ const TeacherSchedulePage: React.FC = () => {
       {isModalOpen && selectedLesson && (
         <LessonModal lesson={selectedLesson} onClose={handleCloseModal} onSuccess={() => {}}/>
       )}
+
+      {isAvailabilityOpen && me && (
+        <TeacherAvailabilityModal
+          teacherId={me.id}
+          teacherName={`${me.user.firstName} ${me.user.lastName}`}
+          onClose={() => setIsAvailabilityOpen(false)}
+        />
+      )}
     </div>
   );
 };
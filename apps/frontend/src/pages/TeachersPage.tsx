@@ -4,6 +4,7 @@ import toast from 'react-hot-toast';
 import { teacherService, Teacher } from '../services/teacherService';
 import { Plus, Mail, Phone, BookOpen, Calendar, MoreVertical, Users, Wallet, Trash2, Loader2, ChevronsUpDown, ChevronUp, ChevronDown } from 'lucide-react';
 import TeacherModal from '../components/TeacherModal';
+import TeacherAvailabilityModal from '../components/TeacherAvailabilityModal';
 import TeacherPayoutsTab from '../components/TeacherPayoutsTab';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmDialog from '../components/ConfirmDialog';
@@ -23,6 +24,7 @@ const TeachersPage: React.FC = () => {
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [availabilityTeacher, setAvailabilityTeacher] = useState<Teacher | null>(null);
   const [selectedTeacher, setSelectedTeacher] = useState<Teacher | null>(null);
   const [confirmDialog, setConfirmDialog] = useState<{ isOpen: boolean; teacherId: string | null }>({ isOpen: false, teacherId: null });
   const [bulkConfirmOpen, setBulkConfirmOpen] = useState(false);
@@ -457,6 +459,10 @@ const TeachersPage: React.FC = () => {
                                 label: 'Edytuj lektora',
                                 onClick: () => handleEdit(teacher),
                               },
+                              {
+                                label: 'Dostępność',
+                                onClick: () => setAvailabilityTeacher(teacher),
+                              },
                               {
                                 label: 'Usuń lektora',
                                 onClick: () => handleDelete(teacher.id),
@@ -499,6 +505,14 @@ const TeachersPage: React.FC = () => {
         />
       )}
 
+      {availabilityTeacher && (
+        <TeacherAvailabilityModal
+          teacherId={availabilityTeacher.id}
+          teacherName={`${availabilityTeacher.user.firstName} ${availabilityTeacher.user.lastName}`}
+          onClose={() => setAvailabilityTeacher(null)}
+        />
+      )}
+
       {/* Confirm Delete Dialog */}
       <ConfirmDialog
         isOpen={confirmDialog.isOpen}
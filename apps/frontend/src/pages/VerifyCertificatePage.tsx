@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { CheckCircle, XCircle, Search, Loader2 } from 'lucide-react';
+import certificateService, { CERTIFICATE_TYPE_LABELS } from '../services/certificateService';
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('pl-PL', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+}
+
+export default function VerifyCertificatePage() {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const [input, setInput] = useState(code || '');
+
+  const { data: certificate, isLoading, isError } = useQuery({
+    queryKey: ['certificate-verification', code],
+    queryFn: () => certificateService.verifyCertificate(code!),
+    enabled: !!code,
+    retry: false,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) {
+      navigate(`/verify/${input.trim().toUpperCase()}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">Weryfikacja zaświadczenia</h1>
+          <p className="text-gray-600 mt-2">Wpisz kod wydrukowany na zaświadczeniu lub certyfikacie</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-4 flex gap-2">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="XXXX-XXXX-XXXX"
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-mono uppercase focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Search className="w-4 h-4" />
+            Sprawdź
+          </button>
+        </form>
+
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {code && isError && (
+          <div className="bg-white rounded-lg shadow p-8 text-center">
+            <XCircle className="w-12 h-12 mx-auto mb-3 text-red-500" />
+            <h2 className="text-xl font-bold text-gray-900 mb-1">Nie znaleziono zaświadczenia</h2>
+            <p className="text-gray-600">Sprawdź, czy kod został wpisany poprawnie.</p>
+          </div>
+        )}
+
+        {certificate && (
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex items-center gap-3 mb-6">
+              {certificate.valid ? (
+                <CheckCircle className="w-10 h-10 text-green-500 flex-shrink-0" />
+              ) : (
+                <XCircle className="w-10 h-10 text-red-500 flex-shrink-0" />
+              )}
+              <div>
+                <h2 className={`text-xl font-bold ${certificate.valid ? 'text-green-700' : 'text-red-700'}`}>
+                  {certificate.valid ? 'Dokument jest ważny' : 'Dokument został unieważniony'}
+                </h2>
+                {certificate.revokedAt && (
+                  <p className="text-sm text-gray-600">Data unieważnienia: {formatDate(certificate.revokedAt)}</p>
+                )}
+              </div>
+            </div>
+
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Rodzaj dokumentu</dt>
+                <dd className="font-medium text-gray-900">{CERTIFICATE_TYPE_LABELS[certificate.type]}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Wystawca</dt>
+                <dd className="font-medium text-gray-900">{certificate.organization.name}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Uczestnik</dt>
+                <dd className="font-medium text-gray-900">{certificate.studentName}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Kurs</dt>
+                <dd className="font-medium text-gray-900">
+                  {certificate.courseName} ({certificate.courseLevel})
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Okres</dt>
+                <dd className="font-medium text-gray-900">
+                  {formatDate(certificate.periodStart)} – {formatDate(certificate.periodEnd)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Zajęcia</dt>
+                <dd className="font-medium text-gray-900">
+                  {certificate.lessonsAttended} ({certificate.hoursAttended.toFixed(1)} godz.)
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Data wystawienia</dt>
+                <dd className="font-medium text-gray-900">{formatDate(certificate.issuedAt)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Kod</dt>
+                <dd className="font-mono font-medium text-gray-900">{certificate.verificationCode}</dd>
+              </div>
+            </dl>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
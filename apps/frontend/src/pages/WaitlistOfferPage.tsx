@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { CheckCircle, XCircle, Clock, Loader2 } from 'lucide-react';
+import waitlistService from '../services/waitlistService';
+import { getErrorMessage } from '../lib/errorUtils';
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('pl-PL', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function WaitlistOfferPage() {
+  const { token } = useParams<{ token: string }>();
+  const [error, setError] = useState('');
+
+  const { data: offer, isLoading, isError, refetch } = useQuery({
+    queryKey: ['waitlist-offer', token],
+    queryFn: () => waitlistService.getOffer(token!),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => waitlistService.acceptOffer(token!),
+    onSuccess: () => refetch(),
+    onError: (err) => setError(getErrorMessage(err, 'Nie udało się potwierdzić miejsca')),
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: () => waitlistService.declineOffer(token!),
+    onSuccess: () => refetch(),
+    onError: (err) => setError(getErrorMessage(err, 'Nie udało się zapisać rezygnacji')),
+  });
+
+  const handleDecline = () => {
+    if (confirm('Czy na pewno chcesz zrezygnować z miejsca? Zostanie ono zaproponowane kolejnej osobie.')) {
+      declineMutation.mutate();
+    }
+  };
+
+  const isPending = acceptMutation.isPending || declineMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-xl mx-auto">
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {(isError || !token) && (
+          <div className="bg-white rounded-lg shadow p-8 text-center">
+            <XCircle className="w-12 h-12 mx-auto mb-3 text-red-500" />
+            <h2 className="text-xl font-bold text-gray-900 mb-1">Nie znaleziono oferty</h2>
+            <p className="text-gray-600">Link jest nieprawidłowy lub oferta została wycofana.</p>
+          </div>
+        )}
+
+        {offer && (
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+            <div className="text-center">
+              {offer.course.organization.logoUrl && (
+                <img
+                  src={offer.course.organization.logoUrl}
+                  alt={offer.course.organization.name}
+                  className="h-12 mx-auto mb-3 object-contain"
+                />
+              )}
+              <p className="text-sm text-gray-500">{offer.course.organization.name}</p>
+              <h1 className="text-2xl font-bold text-gray-900 mt-1">{offer.course.name}</h1>
+              <p className="text-sm text-gray-600 mt-1">
+                {offer.course.language.toUpperCase()} · {offer.course.level} · start{' '}
+                {new Date(offer.course.startDate).toLocaleDateString('pl-PL')}
+              </p>
+            </div>
+
+            {offer.status === 'OFFERED' && (
+              <>
+                <p className="text-gray-700">
+                  Dzień dobry {offer.name}, w kursie zwolniło się miejsce i jest ono zarezerwowane dla Ciebie.
+                </p>
+                {offer.offerExpiresAt && (
+                  <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                    <Clock className="w-4 h-4 flex-shrink-0" />
+                    Oferta jest ważna do {formatDateTime(offer.offerExpiresAt)}
+                  </div>
+                )}
+                {error && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">{error}</div>
+                )}
+                <div className="flex gap-3">
+                  <button
+                    onClick={handleDecline}
+                    disabled={isPending}
+                    className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  >
+                    Rezygnuję
+                  </button>
+                  <button
+                    onClick={() => acceptMutation.mutate()}
+                    disabled={isPending}
+                    className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    {acceptMutation.isPending ? 'Zapisywanie...' : 'Zajmuję miejsce'}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {offer.status === 'ENROLLED' && (
+              <div className="text-center">
+                <CheckCircle className="w-12 h-12 mx-auto mb-3 text-green-500" />
+                <h2 className="text-xl font-bold text-gray-900 mb-1">Miejsce potwierdzone</h2>
+                <p className="text-gray-600">Zostałeś/aś zapisany/a na kurs. Szczegóły otrzymasz od szkoły.</p>
+              </div>
+            )}
+
+            {offer.status === 'DECLINED' && (
+              <div className="text-center">
+                <XCircle className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+                <h2 className="text-xl font-bold text-gray-900 mb-1">Rezygnacja zapisana</h2>
+                <p className="text-gray-600">Miejsce zostało zaproponowane kolejnej osobie z listy.</p>
+              </div>
+            )}
+
+            {(offer.status === 'EXPIRED' || offer.status === 'REMOVED' || offer.status === 'WAITING') && (
+              <div className="text-center">
+                <Clock className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+                <h2 className="text-xl font-bold text-gray-900 mb-1">Oferta nie jest już aktualna</h2>
+                <p className="text-gray-600">Skontaktuj się ze szkołą, jeśli nadal chcesz dołączyć do kursu.</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -45,6 +45,57 @@ export interface BulkUpsertAttendanceData {
   }>;
 }
 
+export interface AttendanceSettings {
+  alertsEnabled: boolean;
+  minAttendancePercent: number;
+  maxConsecutiveAbsences: number; // 0 = off
+}
+
+export interface StudentAttendanceStats {
+  present: number;
+  absent: number;
+  late: number;
+  excused: number;
+  percent: number | null; // (present + late) / (present + late + absent), excused not counted
+  consecutiveAbsences: number;
+}
+
+export interface CourseRegister {
+  alertSettings: AttendanceSettings;
+  course: {
+    id: string;
+    name: string;
+    courseType: 'INDIVIDUAL' | 'GROUP';
+    teacherName: string;
+  };
+  lessons: Array<{
+    id: string;
+    title: string;
+    scheduledAt: string;
+    durationMinutes: number;
+    status: string;
+    studentIds: string[]; // students expected at the lesson
+  }>;
+  students: Array<{
+    id: string;
+    firstName: string;
+    lastName: string;
+    attendance: Record<string, AttendanceStatus>; // keyed by lessonId
+    stats: StudentAttendanceStats;
+  }>;
+}
+
+export interface RegisterEntry {
+  lessonId: string;
+  studentId: string;
+  status: AttendanceStatus;
+}
+
+export interface RegisterFilters {
+  dateFrom?: string;
+  dateTo?: string;
+}
+
 class AttendanceService {
   async getAttendanceByLesson(lessonId: string): Promise<Attendance[]> {
     const response = await api.get(`/attendance/lesson/${lessonId}`) as any;
@@ -73,6 +124,34 @@ class AttendanceService {
     const response = await api.post('/attendance/bulk-upsert', data) as any;
     return response.data.data;
   }
+
+  async getCourseRegister(courseId: string, filters: RegisterFilters = {}): Promise<CourseRegister> {
+    const response = await api.get(`/attendance/course/${courseId}/register`, { params: filters }) as any;
+    return response.data.data;
+  }
+
+  async bulkMarkRegister(courseId: string, entries: RegisterEntry[]): Promise<{ updated: number }> {
+    const response = await api.post(`/attendance/course/${courseId}/register`, { entries }) as any;
+    return response.data.data;
+  }
+
+  async exportCourseRegister(courseId: string, format: 'pdf' | 'xlsx', filters: RegisterFilters = {}): Promise<Blob> {
+    const response = await api.get(`/attendance/course/${courseId}/register/export`, {
+      params: { ...filters, format },
+      responseType: 'blob',
+    }) as any;
+    return response.data;
+  }
+
+  async getSettings(): Promise<AttendanceSettings> {
+    const response = await api.get('/attendance/settings') as any;
+    return response.data.data;
+  }
+
+  async updateSettings(data: Partial<AttendanceSettings>): Promise<AttendanceSettings> {
+    const response = await api.put('/attendance/settings', data) as any;
+    return response.data.data;
+  }
 }
 
 export default new AttendanceService();
@@ -13,6 +13,16 @@ export interface RegisterData {
   organizationName?: string;
 }
 
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: string;
+  createdAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
 export const authService = {
   async login(credentials: LoginCredentials) {
     const response = await api.post('/auth/login', credentials) as any;
@@ -43,4 +53,22 @@ export const authService = {
     const response = await api.post('/auth/reset-password', { token, password }) as any;
     return response.data.message as string;
   },
+
+  async logout() {
+    await api.post('/auth/logout');
+  },
+
+  async logoutAll(keepCurrent = false) {
+    const response = await api.post('/auth/logout-all', { keepCurrent }) as any;
+    return response.data.data as { count: number };
+  },
+
+  async getSessions(): Promise<UserSession[]> {
+    const response = await api.get('/auth/sessions') as any;
+    return response.data.data;
+  },
+
+  async revokeSession(id: string) {
+    await api.delete(`/auth/sessions/${id}`);
+  },
 };
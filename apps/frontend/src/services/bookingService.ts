@@ -0,0 +1,86 @@
+import api from '../lib/api';
+
+export interface BookingSettings {
+  enabled: boolean;
+  minNoticeHours: number;
+  maxBookingsPerWeek: number; // 0 = no limit
+  maxDaysAhead: number;
+}
+
+export interface BookingBudget {
+  paymentMode: 'PACKAGE' | 'PER_LESSON' | 'BALANCE' | 'SUBSCRIPTION';
+  remaining: number | null; // null = paid after the lesson, no prepaid limit
+  unit: 'HOURS' | 'PLN' | 'LESSONS' | null;
+  expiresAt: string | null;
+}
+
+export interface BookableCourse {
+  enrollmentId: string;
+  courseId: string;
+  courseName: string;
+  durationMinutes: number;
+  deliveryMode: 'IN_PERSON' | 'ONLINE' | 'BOTH';
+  teacher: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  budget: BookingBudget;
+}
+
+export interface BookingOptions {
+  settings: BookingSettings;
+  bookingsThisWeek: number;
+  bookingsLeftThisWeek: number | null;
+  courses: BookableCourse[];
+}
+
+export interface BookingSlot {
+  start: string;
+  end: string;
+}
+
+const bookingService = {
+  /**
+   * Get organization self-booking rules
+   */
+  async getSettings(): Promise<BookingSettings> {
+    const response = await api.get('/booking/settings') as any;
+    return response.data.data;
+  },
+
+  /**
+   * Update organization self-booking rules
+   */
+  async updateSettings(data: Partial<BookingSettings>): Promise<BookingSettings> {
+    const response = await api.put('/booking/settings', data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Get bookable courses, rules and remaining budget of the logged-in student
+   */
+  async getMyOptions(): Promise<BookingOptions> {
+    const response = await api.get('/booking/me/options') as any;
+    return response.data.data;
+  },
+
+  /**
+   * Get free slots of the course teacher
+   */
+  async getMySlots(enrollmentId: string, from: string, to: string): Promise<BookingSlot[]> {
+    const params = new URLSearchParams({ enrollmentId, from, to });
+    const response = await api.get(`/booking/me/slots?${params.toString()}`) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Book a lesson in a free slot
+   */
+  async bookLesson(data: { enrollmentId: string; scheduledAt: string; deliveryMode?: 'IN_PERSON' | 'ONLINE' }) {
+    const response = await api.post('/booking/me/lessons', data) as any;
+    return response.data.data;
+  },
+};
+
+export default bookingService;
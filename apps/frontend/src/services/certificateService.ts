@@ -0,0 +1,99 @@
+import axios from 'axios';
+import api from '../lib/api';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+// Public API instance (no auth token) - certificate verification by third parties
+const publicApi = axios.create({
+  baseURL: API_URL,
+  timeout: 30000,
+  headers: { 'Content-Type': 'application/json' },
+});
+
+export type CertificateType = 'ATTENDANCE' | 'COMPLETION';
+
+export interface CertificateTemplate {
+  title: string;
+  body: string; // Supports {{placeholders}}, e.g. {{studentName}}
+}
+
+export type CertificateTemplates = Record<CertificateType, CertificateTemplate>;
+
+export interface Certificate {
+  id: string;
+  studentId: string;
+  enrollmentId: string;
+  documentId: string | null;
+  type: CertificateType;
+  verificationCode: string;
+  studentName: string;
+  courseName: string;
+  courseLevel: string;
+  periodStart: string;
+  periodEnd: string;
+  lessonsAttended: number;
+  hoursAttended: string | number;
+  attendancePercent: string | number | null;
+  issuedAt: string;
+  revokedAt: string | null;
+  issuedBy: { firstName: string; lastName: string };
+  document: {
+    id: string;
+    file: { id: string; publicUrl: string; fileName: string } | null;
+  } | null;
+}
+
+export interface CertificateVerification {
+  valid: boolean;
+  revokedAt: string | null;
+  type: CertificateType;
+  verificationCode: string;
+  studentName: string;
+  courseName: string;
+  courseLevel: string;
+  periodStart: string;
+  periodEnd: string;
+  lessonsAttended: number;
+  hoursAttended: number;
+  issuedAt: string;
+  organization: { name: string; logoUrl: string | null };
+}
+
+export const CERTIFICATE_TYPE_LABELS: Record<CertificateType, string> = {
+  ATTENDANCE: 'Zaświadczenie o uczestnictwie',
+  COMPLETION: 'Certyfikat ukończenia kursu',
+};
+
+const certificateService = {
+  async getTemplates(): Promise<CertificateTemplates> {
+    const response = await api.get('/certificates/templates') as any;
+    return response.data.data;
+  },
+
+  async updateTemplates(data: Partial<CertificateTemplates>): Promise<CertificateTemplates> {
+    const response = await api.put('/certificates/templates', data) as any;
+    return response.data.data;
+  },
+
+  async getStudentCertificates(studentId: string): Promise<Certificate[]> {
+    const response = await api.get(`/certificates/student/${studentId}`) as any;
+    return response.data.data;
+  },
+
+  async issueCertificate(data: { enrollmentId: string; type: CertificateType }): Promise<Certificate> {
+    const response = await api.post('/certificates', data) as any;
+    return response.data.data;
+  },
+
+  async revokeCertificate(id: string): Promise<Certificate> {
+    const response = await api.post(`/certificates/${id}/revoke`) as any;
+    return response.data.data;
+  },
+
+  async verifyCertificate(code: string): Promise<CertificateVerification> {
+    const response = await publicApi.get(`/certificates/verify/${encodeURIComponent(code)}`);
+    return response.data.data;
+  },
+};
+
+export default certificateService;
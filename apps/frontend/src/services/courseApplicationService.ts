@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { api } from '../lib/api';
+import { LevelScores } from './placementTestService';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
@@ -10,6 +11,83 @@ const publicApi = axios.create({
   headers: { 'Content-Type': 'application/json' },
 });
 
+export type ApplicationStageKind = 'OPEN' | 'WON' | 'LOST';
+
+export type ApplicationSource = 'WEBSITE' | 'WIDGET' | 'PHONE' | 'EMAIL' | 'WALK_IN' | 'REFERRAL' | 'SOCIAL_MEDIA' | 'OTHER';
+
+export type ApplicationActivityType =
+  | 'CREATED'
+  | 'STAGE_CHANGED'
+  | 'STATUS_CHANGED'
+  | 'EMAIL_SENT'
+  | 'NOTE'
+  | 'TASK_CREATED'
+  | 'TASK_COMPLETED'
+  | 'CONVERTED'
+  | 'TRIAL_SCHEDULED';
+
+export const APPLICATION_SOURCE_LABELS: Record<ApplicationSource, string> = {
+  WEBSITE: 'Formularz WWW',
+  WIDGET: 'Widget na stronie',
+  PHONE: 'Telefon',
+  EMAIL: 'E-mail',
+  WALK_IN: 'Wizyta w szkole',
+  REFERRAL: 'Polecenie',
+  SOCIAL_MEDIA: 'Media społecznościowe',
+  OTHER: 'Inne',
+};
+
+export const STAGE_KIND_LABELS: Record<ApplicationStageKind, string> = {
+  OPEN: 'W toku',
+  WON: 'Wygrane (akceptacja)',
+  LOST: 'Przegrane (odrzucenie)',
+};
+
+export interface ApplicationStage {
+  id: string;
+  name: string;
+  color: string;
+  kind: ApplicationStageKind;
+  position: number;
+}
+
+export interface ApplicationTask {
+  id: string;
+  applicationId: string;
+  title: string;
+  dueAt: string;
+  completedAt: string | null;
+  createdAt: string;
+  assignedTo: { id: string; firstName: string; lastName: string } | null;
+  createdBy: { id: string; firstName: string; lastName: string } | null;
+}
+
+export interface ApplicationActivity {
+  id: string;
+  type: ApplicationActivityType;
+  message: string;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+  user: { id: string; firstName: string; lastName: string } | null;
+}
+
+export interface ConversionSummary {
+  total: number;
+  open: number;
+  won: number;
+  lost: number;
+  converted: number;
+  conversionRate: number;
+}
+
+export interface ConversionReport {
+  summary: ConversionSummary;
+  bySource: (ConversionSummary & { source: ApplicationSource; label: string })[];
+  byCourse: (ConversionSummary & { courseId: string | null; courseName: string })[];
+  byStage: { stageId: string; name: string; color: string; kind: ApplicationStageKind; count: number }[];
+  lossReasons: { reason: string; count: number }[];
+}
+
 export interface CourseApplication {
   id: string;
   organizationId: string;
@@ -24,8 +102,28 @@ export interface CourseApplication {
   status: 'NEW' | 'ACCEPTED' | 'REJECTED';
   internalNotes: string | null;
   convertedStudentId: string | null;
+  placementLevel: string | null;
+  stageId: string | null;
+  source: ApplicationSource;
+  lossReason: string | null;
+  stageChangedAt: string | null;
   createdAt: string;
   updatedAt: string;
+  trialStudentId: string | null;
+  trialLessonId: string | null;
+  stage?: Pick<ApplicationStage, 'id' | 'name' | 'color' | 'kind'> | null;
+  trialLesson?: {
+    id: string;
+    scheduledAt: string;
+    durationMinutes: number;
+    status: 'CONFIRMED' | 'COMPLETED' | 'CANCELLED_ON_TIME' | 'CANCELLED_LATE';
+    deliveryMode: 'IN_PERSON' | 'ONLINE';
+    pricePerLesson: string | null;
+    teacher: { id: string; user: { firstName: string; lastName: string } };
+  } | null;
+  trialStudent?: { id: string; isProvisional: boolean; archivedAt: string | null } | null;
+  tasks?: Pick<ApplicationTask, 'id' | 'title' | 'dueAt'>[];
+  _count?: { tasks: number };
   course?: {
     id: string;
     name: string;
@@ -33,6 +131,29 @@ export interface CourseApplication {
     level: string;
     courseType: string;
   } | null;
+  placementAttempt?: {
+    id: string;
+    score: number | null;
+    maxScore: number | null;
+    levelScores: LevelScores | null;
+    suggestedLevel: string | null;
+    startedAt: string;
+    submittedAt: string | null;
+    test: { id: string; name: string; language: string };
+  } | null;
+}
+
+export interface SuggestedCourse {
+  id: string;
+  name: string;
+  language: string;
+  level: string;
+  courseType: string;
+  startDate: string;
+  maxStudents: number | null;
+  currentStudentsCount: number;
+  hasFreeSpots: boolean;
+  teacher: { user: { firstName: string; lastName: string } };
 }
 
 export interface PublicCourse {
@@ -50,6 +171,40 @@ export interface PublicOrgInfo {
   primaryColor: string | null;
 }
 
+export interface PublicCatalogCourse {
+  id: string;
+  name: string;
+  language: string;
+  level: string;
+  deliveryMode: 'IN_PERSON' | 'ONLINE' | 'BOTH';
+  description: string | null;
+  startDate: string;
+  endDate: string | null;
+  defaultDurationMinutes: number;
+  pricePerLesson: string;
+  currency: string;
+  maxStudents: number | null;
+  /** null = no seat limit */
+  freeSeats: number | null;
+  teacher: { user: { firstName: string; lastName: string } };
+  location: { name: string; address: string | null } | null;
+}
+
+export interface PublicCatalog {
+  organization: Omit<PublicOrgInfo, 'id'> & { website: string | null; description: string | null };
+  courses: PublicCatalogCourse[];
+  filters: { languages: string[]; levels: string[] };
+}
+
+export interface PublicCatalogFilters {
+  language?: string;
+  level?: string;
+  deliveryMode?: 'IN_PERSON' | 'ONLINE';
+  startDateFrom?: string;
+  startDateTo?: string;
+  hasFreeSeats?: boolean;
+}
+
 export interface SubmitApplicationData {
   name: string;
   email: string;
@@ -59,6 +214,33 @@ export interface SubmitApplicationData {
   languageLevel?: string;
   availability?: string;
   notes?: string;
+  placementAttemptId?: string;
+  source?: 'WEBSITE' | 'WIDGET';
+  /** Honeypot - must stay empty */
+  website?: string;
+}
+
+export interface CreateApplicationData {
+  name: string;
+  email: string;
+  phone?: string;
+  courseId?: string;
+  preferences?: string;
+  languageLevel?: string;
+  availability?: string;
+  notes?: string;
+  source: ApplicationSource;
+}
+
+export interface ScheduleTrialLessonData {
+  teacherId: string;
+  scheduledAt: string;
+  durationMinutes: number;
+  deliveryMode: 'IN_PERSON' | 'ONLINE';
+  meetingUrl?: string;
+  locationId?: string;
+  classroomId?: string;
+  pricePerLesson?: number;
 }
 
 export interface ConvertToStudentData {
@@ -80,6 +262,18 @@ const courseApplicationService = {
     return response.data.data;
   },
 
+  async getPublicCatalog(orgSlug: string, filters?: PublicCatalogFilters): Promise<PublicCatalog> {
+    const params = new URLSearchParams();
+    if (filters?.language) params.append('language', filters.language);
+    if (filters?.level) params.append('level', filters.level);
+    if (filters?.deliveryMode) params.append('deliveryMode', filters.deliveryMode);
+    if (filters?.startDateFrom) params.append('startDateFrom', filters.startDateFrom);
+    if (filters?.startDateTo) params.append('startDateTo', filters.startDateTo);
+    if (filters?.hasFreeSeats) params.append('hasFreeSeats', 'true');
+    const response = await publicApi.get(`/applications/public/${orgSlug}/catalog?${params.toString()}`);
+    return response.data.data;
+  },
+
   async submitApplication(orgSlug: string, data: SubmitApplicationData): Promise<CourseApplication> {
     const response = await publicApi.post(`/applications/public/${orgSlug}`, data);
     return response.data.data;
@@ -87,9 +281,16 @@ const courseApplicationService = {
 
   // === PROTECTED METHODS (require auth) ===
 
-  async getApplications(filters?: { status?: string; search?: string }): Promise<CourseApplication[]> {
+  async getApplications(filters?: {
+    status?: string;
+    stageId?: string;
+    source?: ApplicationSource;
+    search?: string;
+  }): Promise<CourseApplication[]> {
     const params = new URLSearchParams();
     if (filters?.status) params.append('status', filters.status);
+    if (filters?.stageId) params.append('stageId', filters.stageId);
+    if (filters?.source) params.append('source', filters.source);
     if (filters?.search) params.append('search', filters.search);
     const response = await api.get(`/applications?${params.toString()}`) as any;
     return response.data.data;
@@ -100,8 +301,18 @@ const courseApplicationService = {
     return response.data.data;
   },
 
-  async updateStatus(id: string, status: string, internalNotes?: string): Promise<CourseApplication> {
-    const response = await api.put(`/applications/${id}/status`, { status, internalNotes }) as any;
+  async getSuggestedCourses(id: string): Promise<{ level: string | null; language: string | null; courses: SuggestedCourse[] }> {
+    const response = await api.get(`/applications/${id}/suggested-courses`) as any;
+    return response.data.data;
+  },
+
+  async createApplication(data: CreateApplicationData): Promise<CourseApplication> {
+    const response = await api.post('/applications', data) as any;
+    return response.data.data;
+  },
+
+  async updateStatus(id: string, status: string, internalNotes?: string, lossReason?: string): Promise<CourseApplication> {
+    const response = await api.put(`/applications/${id}/status`, { status, internalNotes, lossReason }) as any;
     return response.data.data;
   },
 
@@ -109,6 +320,84 @@ const courseApplicationService = {
     const response = await api.post(`/applications/${id}/convert`, data) as any;
     return response.data.data;
   },
+
+  async scheduleTrialLesson(id: string, data: ScheduleTrialLessonData): Promise<{ application: CourseApplication; lesson: any }> {
+    const response = await api.post(`/applications/${id}/trial-lesson`, data) as any;
+    return response.data.data;
+  },
+
+  async convertTrialStudent(id: string): Promise<{ student: any; application: CourseApplication; enrolledCourseName?: string }> {
+    const response = await api.post(`/applications/${id}/trial-lesson/convert`) as any;
+    return response.data.data;
+  },
+
+  async archiveTrialStudent(id: string, lossReason?: string): Promise<CourseApplication> {
+    const response = await api.post(`/applications/${id}/trial-lesson/archive`, { lossReason }) as any;
+    return response.data.data;
+  },
+
+  // === PIPELINE (CRM) ===
+
+  async moveToStage(id: string, stageId: string, lossReason?: string): Promise<CourseApplication> {
+    const response = await api.put(`/applications/${id}/stage`, { stageId, lossReason }) as any;
+    return response.data.data;
+  },
+
+  async getStages(): Promise<ApplicationStage[]> {
+    const response = await api.get('/applications/stages') as any;
+    return response.data.data;
+  },
+
+  async createStage(data: { name: string; color?: string; kind?: ApplicationStageKind }): Promise<ApplicationStage> {
+    const response = await api.post('/applications/stages', data) as any;
+    return response.data.data;
+  },
+
+  async updateStage(stageId: string, data: { name?: string; color?: string }): Promise<ApplicationStage> {
+    const response = await api.put(`/applications/stages/${stageId}`, data) as any;
+    return response.data.data;
+  },
+
+  async deleteStage(stageId: string): Promise<void> {
+    await api.delete(`/applications/stages/${stageId}`);
+  },
+
+  async reorderStages(stageIds: string[]): Promise<ApplicationStage[]> {
+    const response = await api.put('/applications/stages/reorder', { stageIds }) as any;
+    return response.data.data;
+  },
+
+  async getTimeline(id: string): Promise<{ activities: ApplicationActivity[]; tasks: ApplicationTask[] }> {
+    const response = await api.get(`/applications/${id}/timeline`) as any;
+    return response.data.data;
+  },
+
+  async addNote(id: string, message: string): Promise<ApplicationActivity> {
+    const response = await api.post(`/applications/${id}/notes`, { message }) as any;
+    return response.data.data;
+  },
+
+  async createTask(id: string, data: { title: string; dueAt: string; assignedToId?: string }): Promise<ApplicationTask> {
+    const response = await api.post(`/applications/${id}/tasks`, data) as any;
+    return response.data.data;
+  },
+
+  async toggleTask(taskId: string): Promise<ApplicationTask> {
+    const response = await api.post(`/applications/tasks/${taskId}/toggle`) as any;
+    return response.data.data;
+  },
+
+  async deleteTask(taskId: string): Promise<void> {
+    await api.delete(`/applications/tasks/${taskId}`);
+  },
+
+  async getConversionReport(filters?: { dateFrom?: string; dateTo?: string }): Promise<ConversionReport> {
+    const params = new URLSearchParams();
+    if (filters?.dateFrom) params.append('dateFrom', filters.dateFrom);
+    if (filters?.dateTo) params.append('dateTo', filters.dateTo);
+    const response = await api.get(`/applications/reports/conversion?${params.toString()}`) as any;
+    return response.data.data;
+  },
 };
 
 export default courseApplicationService;
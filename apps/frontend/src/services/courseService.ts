@@ -40,12 +40,13 @@ export interface Course {
   _count?: {
     enrollments: number;
     lessons: number;
+    waitlistEntries?: number;
   };
   enrollments?: Array<{
     id: string;
     studentId: string;
     status: string;
-    paymentMode: 'PACKAGE' | 'PER_LESSON';
+    paymentMode: 'PACKAGE' | 'PER_LESSON' | 'BALANCE' | 'SUBSCRIPTION';
     hoursPurchased: number;
     hoursUsed: number;
   }>;
@@ -55,6 +55,7 @@ export interface ChartDataParams {
   rangeType: DateRangeType;
   year?: number;
   month?: number;
+  reportingCurrency?: string;
 }
 
 export interface RevenueDataPoint {
@@ -78,6 +79,7 @@ export interface ChartData {
   groupBy: 'day' | 'month';
   revenue: {
     data: RevenueDataPoint[];
+    currency: string;
     total: number;
     totalNew: number;
     totalReturning: number;
@@ -99,6 +101,7 @@ class DashboardService {
     queryParams.append('rangeType', params.rangeType);
     if (params.year) queryParams.append('year', params.year.toString());
     if (params.month) queryParams.append('month', params.month.toString());
+    if (params.reportingCurrency) queryParams.append('reportingCurrency', params.reportingCurrency);
 
     const response = await api.get(`/dashboard/charts?${queryParams.toString()}`) as any;
     return response.data.data;
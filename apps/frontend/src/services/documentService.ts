@@ -1,6 +1,6 @@
 import api from '../lib/api';
 
-export type StudentDocumentType = 'CONTRACT' | 'ATTACHMENT' | 'OTHER';
+export type StudentDocumentType = 'CONTRACT' | 'ATTACHMENT' | 'CERTIFICATE' | 'OTHER';
 export type DocumentStatus = 'PENDING' | 'SENT' | 'SIGNED' | 'ARCHIVED';
 
 export interface StudentDocumentFile {
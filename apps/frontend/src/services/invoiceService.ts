@@ -0,0 +1,201 @@
+import api from '../lib/api';
+
+export type InvoiceType = 'INVOICE' | 'CORRECTION';
+export type InvoiceStatus = 'ISSUED' | 'VOIDED';
+export type InvoiceSeriesResetPeriod = 'MONTHLY' | 'YEARLY' | 'NEVER';
+
+export interface Invoice {
+  id: string;
+  organizationId: string;
+  paymentId?: string | null;
+  seriesId?: string | null;
+  correctedInvoiceId?: string | null;
+  type: InvoiceType;
+  status: InvoiceStatus;
+  invoiceNumber: string;
+  issueDate: string;
+  saleDate?: string | null;
+  dueDate: string;
+  studentId: string;
+  sellerName: string;
+  sellerTaxId?: string | null;
+  sellerAddress?: string | null;
+  buyerName: string;
+  buyerEmail?: string | null;
+  buyerAddress?: string | null;
+  description: string;
+  currency: string;
+  netAmount: number | string;
+  taxRate: number | string | null;
+  taxAmount: number | string;
+  totalAmount: number | string;
+  paymentMethod?: string | null;
+  notes?: string | null;
+  correctionReason?: string | null;
+  voidedAt?: string | null;
+  voidReason?: string | null;
+  fileUrl?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  correctedInvoice?: { id: string; invoiceNumber: string } | null;
+  corrections?: Array<{ id: string; invoiceNumber: string; totalAmount: number | string; status: InvoiceStatus }>;
+  series?: { id: string; name: string } | null;
+}
+
+export interface InvoiceSeries {
+  id: string;
+  name: string;
+  type: InvoiceType;
+  pattern: string;
+  resetPeriod: InvoiceSeriesResetPeriod;
+  currentPeriod?: string | null;
+  lastNumber: number;
+  isDefault: boolean;
+  isActive: boolean;
+  _count?: { invoices: number };
+}
+
+export interface InvoicingSettings {
+  autoIssueOnPayment: boolean;
+  taxRate: number | null;
+  paymentTermDays: number;
+  defaultDescription: string;
+  notes: string;
+}
+
+export interface GetInvoicesFilters {
+  studentId?: string;
+  status?: InvoiceStatus;
+  type?: InvoiceType;
+  dateFrom?: string;
+  dateTo?: string;
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface IssueInvoiceData {
+  paymentId: string;
+  seriesId?: string;
+  issueDate?: string;
+  dueDate?: string;
+  taxRate?: number | null;
+  description?: string;
+  notes?: string;
+}
+
+export interface CorrectInvoiceData {
+  correctedTotalAmount: number;
+  reason: string;
+  seriesId?: string;
+}
+
+export interface InvoiceSeriesData {
+  name: string;
+  type?: InvoiceType;
+  pattern: string;
+  resetPeriod: InvoiceSeriesResetPeriod;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+const invoiceService = {
+  /**
+   * Get invoices with filters
+   */
+  async getInvoices(filters?: GetInvoicesFilters): Promise<{ data: Invoice[]; pagination: any }> {
+    const response = await api.get('/invoices', { params: filters }) as any;
+    return { data: response.data.data, pagination: response.data.pagination };
+  },
+
+  /**
+   * Issue invoice for a completed payment
+   */
+  async issueInvoice(data: IssueInvoiceData): Promise<Invoice> {
+    const response = await api.post('/invoices', data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Issue credit note for invoice
+   */
+  async correctInvoice(id: string, data: CorrectInvoiceData): Promise<Invoice> {
+    const response = await api.post(`/invoices/${id}/correct`, data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Void invoice
+   */
+  async voidInvoice(id: string, reason: string): Promise<Invoice> {
+    const response = await api.post(`/invoices/${id}/void`, { reason }) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Download invoice PDF
+   */
+  async downloadInvoice(invoice: Pick<Invoice, 'id' | 'invoiceNumber'>): Promise<void> {
+    const response = await api.get(`/invoices/${invoice.id}/pdf`, {
+      responseType: 'blob',
+    }) as any;
+
+    const url = window.URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${invoice.invoiceNumber.replace(/[^a-zA-Z0-9-_]/g, '_')}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  },
+
+  /**
+   * Get numbering series
+   */
+  async getSeries(): Promise<InvoiceSeries[]> {
+    const response = await api.get('/invoices/series') as any;
+    return response.data.data;
+  },
+
+  /**
+   * Create numbering series
+   */
+  async createSeries(data: InvoiceSeriesData): Promise<InvoiceSeries> {
+    const response = await api.post('/invoices/series', data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Update numbering series
+   */
+  async updateSeries(id: string, data: Partial<InvoiceSeriesData>): Promise<InvoiceSeries> {
+    const response = await api.put(`/invoices/series/${id}`, data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Delete numbering series
+   */
+  async deleteSeries(id: string): Promise<void> {
+    await api.delete(`/invoices/series/${id}`);
+  },
+
+  /**
+   * Get invoicing settings
+   */
+  async getSettings(): Promise<InvoicingSettings> {
+    const response = await api.get('/invoices/settings') as any;
+    return response.data.data;
+  },
+
+  /**
+   * Update invoicing settings
+   */
+  async updateSettings(data: Partial<InvoicingSettings>): Promise<InvoicingSettings> {
+    const response = await api.put('/invoices/settings', data) as any;
+    return response.data.data;
+  },
+};
+
+export default invoiceService;
@@ -18,6 +18,15 @@ export interface CancellationFeePreview {
   currency: string;
 }
 
+export interface StudentCancellationPreview extends CancellationFeePreview {
+  limitEnabled: boolean;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  period: string | null;
+  canCancel: boolean;
+}
+
 export interface CancellationStats {
   limitEnabled: boolean;
   limit: number | null;
@@ -58,6 +67,8 @@ export interface Lesson {
   teamsMeetingId?: string;
   recordingUrl?: string;
   status: LessonStatus;
+  isGroupLesson: boolean;
+  bookedByStudent?: boolean;
   isRecurring: boolean;
   recurringPatternId?: string;
   cancelledAt?: string;
@@ -120,6 +131,27 @@ export interface Lesson {
     status: string;
     notes?: string;
   }>;
+  participants?: LessonParticipant[];
+  _count?: {
+    attendances?: number;
+    participants?: number;
+  };
+}
+
+export interface LessonParticipant {
+  id: string;
+  studentId: string;
+  enrollmentId?: string;
+  student: {
+    id: string;
+    user: {
+      id: string;
+      firstName: string;
+      lastName: string;
+      email: string;
+      avatarUrl?: string;
+    };
+  };
 }
 
 export interface CreateLessonData {
@@ -140,6 +172,7 @@ export interface CreateLessonData {
   status?: LessonStatus;
   isRecurring?: boolean;
   recurringPatternId?: string;
+  participantStudentIds?: string[];
 }
 
 export interface UpdateLessonData {
@@ -239,14 +272,14 @@ export const lessonService = {
 
   async checkConflicts(
     teacherId: string,
-    studentId: string,
+    studentId: string | null,
     scheduledAt: string,
     durationMinutes: number,
     excludeLessonId?: string
   ) {
     const params = new URLSearchParams();
     params.append('teacherId', teacherId);
-    params.append('studentId', studentId);
+    if (studentId) params.append('studentId', studentId);
     params.append('scheduledAt', scheduledAt);
     params.append('durationMinutes', durationMinutes.toString());
     if (excludeLessonId) params.append('excludeLessonId', excludeLessonId);
@@ -254,6 +287,8 @@ export const lessonService = {
     const response = await api.get(`/lessons/check-conflicts?${params.toString()}`) as any;
     return response.data.data as {
       hasConflicts: boolean;
+      isOutsideAvailability: boolean;
+      availabilityWarnings: string[];
       teacherConflicts: Array<{
         id: string;
         title: string;
@@ -302,6 +337,16 @@ export const lessonService = {
     return response.data.data as CancellationStats;
   },
 
+  async getSelfCancellationPreview(lessonId: string) {
+    const response = await api.get(`/lessons/${lessonId}/self-cancellation-preview`) as any;
+    return response.data.data as StudentCancellationPreview;
+  },
+
+  async selfCancelLesson(lessonId: string, reason?: string): Promise<Lesson> {
+    const response = await api.post(`/lessons/${lessonId}/self-cancel`, { reason }) as any;
+    return response.data.data;
+  },
+
   async bulkUpdateStatus(lessonIds: string[], status: LessonStatus): Promise<{
     updated: number;
     failed: number;
@@ -26,6 +26,49 @@ interface SendBulkEmailResult {
   scheduledId?: string;
 }
 
+export type ScheduledMailingStatus = 'PENDING' | 'SENT' | 'FAILED' | 'CANCELLED';
+
+export interface MailingRecipientResult {
+  studentId: string;
+  email: string;
+  status: 'SENT' | 'FAILED';
+  error?: string;
+}
+
+export interface ScheduledMailing {
+  id: string;
+  subject: string;
+  message: string;
+  status: ScheduledMailingStatus;
+  isSending: boolean;
+  sentAt?: string | null;
+  createdAt: string;
+  createdBy?: { firstName: string; lastName: string };
+  mailType: MailType;
+  recipients: SendBulkEmailData['recipients'];
+  selectedStudentIds?: string[];
+  courseId?: string;
+  lessonId?: string;
+  scheduledAt: string;
+  attachments: { filename: string; contentType: string }[];
+  delivery?: {
+    startedAt: string;
+    completedAt: string;
+    totalRecipients: number;
+    totalSent: number;
+    totalFailed: number;
+    error?: string;
+    results: MailingRecipientResult[];
+  };
+}
+
+export interface UpdateScheduledMailingData {
+  subject?: string;
+  message?: string;
+  mailType?: MailType;
+  scheduledAt?: string;
+}
+
 const mailingService = {
   sendBulkEmail: async (data: SendBulkEmailData): Promise<SendBulkEmailResult> => {
     const formData = new FormData();
@@ -68,6 +111,21 @@ const mailingService = {
     const response = await api.get('/mailings/debtors-count') as any;
     return response.data.count;
   },
+
+  getScheduledMailings: async (): Promise<ScheduledMailing[]> => {
+    const response = await api.get('/mailings/scheduled') as any;
+    return response.data;
+  },
+
+  updateScheduledMailing: async (id: string, data: UpdateScheduledMailingData) => {
+    const response = await api.put(`/mailings/scheduled/${id}`, data) as any;
+    return response.data.data;
+  },
+
+  cancelScheduledMailing: async (id: string): Promise<{ message: string }> => {
+    const response = await api.post(`/mailings/scheduled/${id}/cancel`) as any;
+    return response.data;
+  },
 };
 
 export default mailingService;
@@ -0,0 +1,108 @@
+import api from '../lib/api';
+
+export interface TemplatePlaceholder {
+  key: string;
+  label: string;
+  sample: string;
+}
+
+export interface TemplateTriggerEvent {
+  key: string;
+  label: string;
+  description: string;
+  placeholders: TemplatePlaceholder[];
+  defaultSubject: string;
+  defaultBody: string;
+}
+
+export interface NotificationTemplate {
+  id: string;
+  name: string;
+  triggerEvent: string;
+  subjectTemplate: string;
+  bodyTemplate: string;
+  channels: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TemplateDraft {
+  triggerEvent: string;
+  subjectTemplate: string;
+  bodyTemplate: string;
+}
+
+export interface TemplatePreview {
+  subject: string;
+  html: string;
+  unknownPlaceholders: string[];
+}
+
+export interface SaveTemplateData {
+  name: string;
+  triggerEvent: string;
+  subjectTemplate: string;
+  bodyTemplate: string;
+  isActive?: boolean;
+}
+
+const notificationTemplateService = {
+  /**
+   * Get trigger events with their placeholders
+   */
+  async getTriggerEvents(): Promise<TemplateTriggerEvent[]> {
+    const response = await api.get('/notification-templates/triggers') as any;
+    return response.data.data;
+  },
+
+  /**
+   * Get organization email templates
+   */
+  async getTemplates(): Promise<NotificationTemplate[]> {
+    const response = await api.get('/notification-templates') as any;
+    return response.data.data;
+  },
+
+  /**
+   * Create template
+   */
+  async createTemplate(data: SaveTemplateData): Promise<NotificationTemplate> {
+    const response = await api.post('/notification-templates', data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Update template
+   */
+  async updateTemplate(id: string, data: Partial<Omit<SaveTemplateData, 'triggerEvent'>>): Promise<NotificationTemplate> {
+    const response = await api.put(`/notification-templates/${id}`, data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Delete template (the built-in email is used again)
+   */
+  async deleteTemplate(id: string): Promise<{ message: string }> {
+    const response = await api.delete(`/notification-templates/${id}`) as any;
+    return response.data;
+  },
+
+  /**
+   * Render draft with sample data
+   */
+  async previewTemplate(draft: TemplateDraft): Promise<TemplatePreview> {
+    const response = await api.post('/notification-templates/preview', draft) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Send draft rendered with sample data to the current user
+   */
+  async sendTestEmail(draft: TemplateDraft & { to?: string }): Promise<{ message: string }> {
+    const response = await api.post('/notification-templates/test', draft) as any;
+    return response.data;
+  },
+};
+
+export default notificationTemplateService;
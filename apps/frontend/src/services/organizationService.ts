@@ -49,6 +49,7 @@ export interface Organization {
   email?: string;
   website?: string;
   taxId?: string;
+  bankAccountNumber?: string | null;
   description?: string;
   settings?: OrganizationSettings;
   createdAt: string;
@@ -76,6 +77,7 @@ export interface UpdateOrganizationData {
   email?: string;
   website?: string;
   taxId?: string;
+  bankAccountNumber?: string | null;
   description?: string;
   logoUrl?: string;
   primaryColor?: string;
@@ -129,7 +131,7 @@ const organizationService = {
     return response.data.data;
   },
 
-  async switchOrganization(organizationId: string): Promise<UserOrganization> {
+  async switchOrganization(organizationId: string): Promise<UserOrganization & { token: string; refreshToken: string }> {
     const response = await api.post('/organizations/switch', { organizationId }) as any;
     return response.data.data;
   },
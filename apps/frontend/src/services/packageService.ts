@@ -0,0 +1,103 @@
+import api from '../lib/api';
+
+export interface Package {
+  id: string;
+  organizationId: string;
+  name: string;
+  description?: string | null;
+  totalHours: number | string;
+  price: number | string;
+  currency: string;
+  validityDays: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  _count?: {
+    enrollments: number;
+  };
+}
+
+export interface PackageFormData {
+  name: string;
+  description?: string;
+  totalHours: number;
+  price: number;
+  currency?: string;
+  validityDays: number;
+  isActive?: boolean;
+}
+
+export interface AssignPackageData {
+  studentId: string;
+  courseId?: string;
+  paymentMethod?: 'CASH' | 'BANK_TRANSFER' | 'CARD' | 'ONLINE' | 'OTHER';
+  dueAt?: string;
+  notes?: string;
+}
+
+export interface StudentPackage {
+  id: string;
+  status: string;
+  enrollmentDate: string;
+  expiresAt?: string | null;
+  hoursPurchased: number;
+  hoursUsed: number;
+  hoursExpired: number;
+  hoursRemaining: number;
+  lowBudget: boolean;
+  isExpired: boolean;
+  package?: { id: string; name: string; totalHours: number | string; validityDays: number } | null;
+  course?: { id: string; name: string } | null;
+}
+
+const packageService = {
+  /**
+   * Get all packages
+   */
+  async getPackages(filters?: { isActive?: boolean }): Promise<Package[]> {
+    const response = await api.get('/packages', { params: filters }) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Create package
+   */
+  async createPackage(data: PackageFormData): Promise<Package> {
+    const response = await api.post('/packages', data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Update package
+   */
+  async updatePackage(id: string, data: Partial<PackageFormData>): Promise<Package> {
+    const response = await api.put(`/packages/${id}`, data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Delete package (deactivated instead if already sold)
+   */
+  async deletePackage(id: string): Promise<{ message: string; deactivated: boolean }> {
+    const response = await api.delete(`/packages/${id}`) as any;
+    return response.data;
+  },
+
+  /**
+   * Assign package to student - creates enrollment and pending payment
+   */
+  async assignPackage(packageId: string, data: AssignPackageData) {
+    const response = await api.post(`/packages/${packageId}/assign`, data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Get student's package enrollments with budget
+   */
+  async getStudentPackages(studentId: string): Promise<StudentPackage[]> {
+    const response = await api.get(`/packages/student/${studentId}`) as any;
+    return response.data.data;
+  },
+};
+
+export default packageService;
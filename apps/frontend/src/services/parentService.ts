@@ -0,0 +1,142 @@
+import api from '../lib/api';
+
+export interface ParentUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string | null;
+  isActive: boolean;
+  lastLoginAt?: string | null;
+}
+
+export interface ParentRelation {
+  id: string;
+  parentId: string;
+  studentId: string;
+  relationshipType: string;
+  canManagePayments: boolean;
+  canManageSchedule: boolean;
+  createdAt: string;
+  parent: ParentUser;
+}
+
+export interface LinkParentData {
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  relationshipType?: string;
+  canManagePayments?: boolean;
+  canManageSchedule?: boolean;
+}
+
+export interface ChildOverview {
+  relationId: string;
+  relationshipType: string;
+  canManagePayments: boolean;
+  canManageSchedule: boolean;
+  student: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    isMinor: boolean;
+    languageLevel: string;
+    enrollments: Array<{ id: string; status: string; course?: { id: string; name: string } | null }>;
+  };
+  upcomingLessons: Array<{
+    id: string;
+    title: string;
+    scheduledAt: string;
+    durationMinutes: number;
+    deliveryMode: string;
+    teacher?: { user: { firstName: string; lastName: string } };
+    course?: { id: string; name: string } | null;
+  }>;
+  balance: { balance: number; currency: string } | null;
+  payments: Array<{
+    id: string;
+    amount: number | string;
+    currency: string;
+    status: string;
+    dueAt?: string | null;
+    paidAt?: string | null;
+    createdAt: string;
+    notes?: string | null;
+    invoice?: { id: string; invoiceNumber: string } | null;
+  }>;
+}
+
+export interface CancellationPreview {
+  feeApplies: boolean;
+  feeAmount: number | null;
+  feePercent: number | null;
+  hoursThreshold: number | null;
+  hoursUntilLesson: number;
+  lessonPrice: number | null;
+  currency: string;
+}
+
+const parentService = {
+  /**
+   * Get parents linked to a student
+   */
+  async getStudentParents(studentId: string): Promise<ParentRelation[]> {
+    const response = await api.get(`/parents/student/${studentId}`) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Link parent to student (creates parent account if needed)
+   */
+  async linkParent(studentId: string, data: LinkParentData): Promise<ParentRelation> {
+    const response = await api.post(`/parents/student/${studentId}`, data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Update parent permissions
+   */
+  async updateRelation(
+    relationId: string,
+    data: Partial<Pick<LinkParentData, 'relationshipType' | 'canManagePayments' | 'canManageSchedule'>>
+  ): Promise<ParentRelation> {
+    const response = await api.put(`/parents/relations/${relationId}`, data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Unlink parent from student
+   */
+  async unlinkParent(relationId: string): Promise<{ message: string }> {
+    const response = await api.delete(`/parents/relations/${relationId}`) as any;
+    return response.data;
+  },
+
+  /**
+   * Get logged-in parent's children overview
+   */
+  async getMyChildren(): Promise<ChildOverview[]> {
+    const response = await api.get('/parents/me/children') as any;
+    return response.data.data;
+  },
+
+  /**
+   * Get cancellation fee preview for child's lesson
+   */
+  async getCancellationPreview(lessonId: string): Promise<CancellationPreview> {
+    const response = await api.get(`/parents/me/lessons/${lessonId}/cancellation-preview`) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Cancel child's lesson
+   */
+  async cancelLesson(lessonId: string, reason?: string) {
+    const response = await api.post(`/parents/me/lessons/${lessonId}/cancel`, { reason }) as any;
+    return response.data.data;
+  },
+};
+
+export default parentService;
@@ -2,6 +2,63 @@ import api from '../lib/api';
 
 export type TeacherPayoutStatus = 'PENDING' | 'APPROVED' | 'PAID' | 'CANCELLED';
 export type QualificationReason = 'COMPLETED' | 'CONFIRMED' | 'LATE_CANCELLATION';
+export type TeacherRateType = 'HOURLY' | 'PER_LESSON';
+export type ContractType = 'B2B' | 'EMPLOYMENT' | 'CIVIL';
+export type PayoutSignOffStatus = 'CONFIRMED' | 'DISPUTED' | 'RESOLVED';
+
+// Gross/net estimate for a payout depending on the teacher's contract
+export interface PayrollBreakdown {
+  contractType: ContractType | null;
+  amount: number; // gross pay, or the net invoice amount for B2B
+  employeeZus: number;
+  healthInsurance: number;
+  taxDeductibleCosts: number;
+  pitAdvance: number;
+  netAmount: number; // what the teacher receives (for B2B: invoice gross)
+  employerZus: number;
+  employerCost: number;
+  vatRate: number | null;
+  vatAmount: number;
+}
+
+export interface PayrollRow extends PayrollBreakdown {
+  payoutId: string;
+  teacherId: string;
+  teacherName: string;
+  email: string;
+  periodStart: string;
+  periodEnd: string;
+  totalHours: number;
+  currency: string;
+  status: TeacherPayoutStatus;
+  invoiceNumber: string | null;
+  hasInvoice: boolean;
+}
+
+export interface TeacherRateRule {
+  id: string;
+  organizationId: string;
+  teacherId: string;
+  name: string;
+  position: number;
+  isActive: boolean;
+  courseFormat: 'GROUP' | 'INDIVIDUAL' | null;
+  deliveryMode: 'IN_PERSON' | 'ONLINE' | null;
+  courseId: string | null;
+  minParticipants: number | null;
+  maxParticipants: number | null;
+  daysOfWeek: number[]; // 0 = Sunday, empty = every day
+  startTime: string | null; // HH:mm, lesson start time
+  endTime: string | null;
+  rateType: TeacherRateType;
+  rate: number;
+  course?: { id: string; name: string } | null;
+}
+
+export type TeacherRateRuleInput = Omit<
+  TeacherRateRule,
+  'id' | 'organizationId' | 'teacherId' | 'position' | 'course'
+>;
 
 export interface QualifiedLesson {
   id: string;
@@ -16,6 +73,17 @@ export interface QualifiedLesson {
   currency: string;
   qualificationReason: QualificationReason;
   payoutPercent: number; // 100 = full payout, e.g. 80 = 80% of rate
+  substituteFor: string | null; // original teacher when taught as a substitute
+  rateRuleId: string | null;
+  rateRuleName: string | null; // null = teacher's base hourly rate
+}
+
+export interface RuleBreakdownItem {
+  rateRuleId: string | null;
+  rateRuleName: string;
+  lessonsCount: number;
+  totalMinutes: number;
+  totalAmount: number;
 }
 
 export interface PayoutPreview {
@@ -24,6 +92,7 @@ export interface PayoutPreview {
   periodStart: string;
   periodEnd: string;
   qualifiedLessons: QualifiedLesson[];
+  ruleBreakdown: RuleBreakdownItem[];
   totalHours: number;
   totalAmount: number;
   currency: string;
@@ -42,6 +111,8 @@ export interface TeacherPayoutLesson {
   payoutPercent: number | null; // null = 100%, otherwise partial % (e.g. 80)
   studentName: string;
   lessonTitle: string;
+  rateRuleName: string | null;
+  isDisputed: boolean; // contested by the teacher during sign-off
   createdAt: string;
 }
 
@@ -57,9 +128,21 @@ export interface TeacherPayout {
   status: TeacherPayoutStatus;
   paidAt: string | null;
   notes: string | null;
+  contractType: ContractType | null;
+  invoiceFileId: string | null;
+  invoiceNumber: string | null;
+  invoiceUploadedAt: string | null;
+  invoiceFile?: { id: string; fileName: string; publicUrl: string } | null;
+  payroll?: PayrollBreakdown | null;
+  signOffStatus: PayoutSignOffStatus | null; // null = teacher has not reviewed the payout yet
+  signedOffAt: string | null;
+  disputeReason: string | null;
+  disputeResolution: string | null;
   createdAt: string;
   updatedAt: string;
   teacher?: {
+    contractType?: ContractType | null;
+    bankAccountNumber?: string | null;
     user: {
       firstName: string;
       lastName: string;
@@ -96,6 +179,8 @@ export interface LessonForDay {
   qualifiesForPayout: boolean;
   qualificationReason: QualificationReason | null;
   payoutPercent: number | null; // null or 100 = full payout, e.g. 80 = 80% of rate
+  substituteFor: string | null;
+  rateRuleName: string | null;
   payout: {
     id: string;
     status: TeacherPayoutStatus;
@@ -115,6 +200,8 @@ export interface ForecastLesson {
   currency: string;
   qualificationReason: QualificationReason;
   payoutPercent: number;
+  substituteFor: string | null;
+  rateRuleName: string | null;
 }
 
 export interface TeacherForecast {
@@ -136,6 +223,20 @@ export interface PayoutForecast {
   currency: string;
 }
 
+// Teacher's own month-to-date earnings
+export interface MyEarningsSummary {
+  month: string; // YYYY-MM
+  dateFrom: string;
+  dateTo: string;
+  lessons: ForecastLesson[];
+  lessonsCount: number;
+  totalAmount: number;
+  unsettledAmount: number; // qualified lessons not yet included in any payout
+  currency: string;
+}
+
+export type TransferFileFormat = 'elixir' | 'sepa';
+
 export interface CreatePayoutData {
   teacherId: string;
   periodStart: string;
@@ -291,9 +392,10 @@ const payoutService = {
   updatePayoutStatus: async (
     id: string,
     status: TeacherPayoutStatus,
-    notes?: string
+    notes?: string,
+    disputeResolution?: string
   ): Promise<TeacherPayout> => {
-    const response = await api.patch(`/payouts/${id}/status`, { status, notes });
+    const response = await api.patch(`/payouts/${id}/status`, { status, notes, disputeResolution });
     return response.data;
   },
 
@@ -326,6 +428,105 @@ const payoutService = {
     const response = await api.get(`/payouts/teacher/${teacherId}/lessons-range?${params.toString()}`);
     return response.data;
   },
+
+  // Monthly payroll (approved payouts) with gross/net per contract type
+  getPayroll: async (month: string): Promise<PayrollRow[]> => {
+    const response = await api.get('/payouts/payroll', { params: { month } });
+    return response.data;
+  },
+
+  exportPayroll: async (month: string, format: 'csv' | 'xlsx'): Promise<Blob> => {
+    const response = await api.get('/payouts/payroll/export', {
+      params: { month, format },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Bulk bank transfer file for approved payouts
+  exportTransferBatch: async (payoutIds: string[], format: TransferFileFormat, executionDate: string): Promise<Blob> => {
+    try {
+      const response = await api.post(
+        '/payouts/transfer-batch/export',
+        { payoutIds, format, executionDate },
+        { responseType: 'blob' }
+      );
+      return response.data;
+    } catch (error: any) {
+      // Blob responses carry the JSON error as a blob too
+      if (error.response?.data instanceof Blob) {
+        error.response.data = JSON.parse(await error.response.data.text());
+      }
+      throw error;
+    }
+  },
+
+  markTransferBatchPaid: async (payoutIds: string[], paidAt: string): Promise<{ count: number }> => {
+    const response = await api.post('/payouts/transfer-batch/mark-paid', { payoutIds, paidAt });
+    return response.data;
+  },
+
+  // Teacher's invoice (PDF) for a B2B payout
+  uploadInvoice: async (id: string, file: File, invoiceNumber?: string): Promise<TeacherPayout> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (invoiceNumber) formData.append('invoiceNumber', invoiceNumber);
+    const response = await api.post(`/payouts/${id}/invoice`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  },
+
+  deleteInvoice: async (id: string): Promise<TeacherPayout> => {
+    const response = await api.delete(`/payouts/${id}/invoice`);
+    return response.data;
+  },
+
+  // Teacher self-service - own earnings and payout sign-off
+  getMyEarnings: async (month: string): Promise<MyEarningsSummary> => {
+    const response = await api.get('/payouts/my/summary', { params: { month } });
+    return response.data;
+  },
+
+  getMyPayouts: async (): Promise<TeacherPayout[]> => {
+    const response = await api.get('/payouts/my');
+    return response.data;
+  },
+
+  confirmPayout: async (id: string): Promise<TeacherPayout> => {
+    const response = await api.post(`/payouts/my/${id}/confirm`);
+    return response.data;
+  },
+
+  disputePayout: async (id: string, lessonIds: string[], reason: string): Promise<TeacherPayout> => {
+    const response = await api.post(`/payouts/my/${id}/dispute`, { lessonIds, reason });
+    return response.data;
+  },
+
+  // Rate card rules - evaluated in order, first match prices the lesson
+  getRateRules: async (teacherId: string): Promise<TeacherRateRule[]> => {
+    const response = await api.get(`/payouts/teacher/${teacherId}/rate-rules`);
+    return response.data;
+  },
+
+  createRateRule: async (teacherId: string, data: TeacherRateRuleInput): Promise<TeacherRateRule> => {
+    const response = await api.post(`/payouts/teacher/${teacherId}/rate-rules`, data);
+    return response.data;
+  },
+
+  updateRateRule: async (ruleId: string, data: Partial<TeacherRateRuleInput>): Promise<TeacherRateRule> => {
+    const response = await api.put(`/payouts/rate-rules/${ruleId}`, data);
+    return response.data;
+  },
+
+  deleteRateRule: async (ruleId: string): Promise<void> => {
+    await api.delete(`/payouts/rate-rules/${ruleId}`);
+  },
+
+  reorderRateRules: async (teacherId: string, ruleIds: string[]): Promise<TeacherRateRule[]> => {
+    const response = await api.put(`/payouts/teacher/${teacherId}/rate-rules/reorder`, { ruleIds });
+    return response.data;
+  },
 };
 
 export default payoutService;
@@ -0,0 +1,128 @@
+import axios from 'axios';
+import api from '../lib/api';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+// Public API instance (no auth token) - the test is taken on the public application form
+const publicApi = axios.create({
+  baseURL: API_URL,
+  timeout: 30000,
+  headers: { 'Content-Type': 'application/json' },
+});
+
+export type PlacementQuestionType = 'MULTIPLE_CHOICE' | 'GAP_FILL';
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const;
+
+export type CefrLevel = (typeof CEFR_LEVELS)[number];
+
+export type LevelScores = Partial<Record<CefrLevel, { correct: number; total: number }>>;
+
+export interface PlacementQuestion {
+  id?: string;
+  type: PlacementQuestionType;
+  level: CefrLevel;
+  prompt: string;
+  options: string[];
+  correctAnswers: string[];
+}
+
+export interface PlacementTest {
+  id: string;
+  language: string;
+  name: string;
+  description: string | null;
+  timeLimitMinutes: number;
+  passThreshold: number;
+  isActive: boolean;
+  createdAt: string;
+  questions?: PlacementQuestion[];
+  _count?: { questions: number; attempts: number };
+}
+
+export interface PlacementTestData {
+  language: string;
+  name: string;
+  description?: string;
+  timeLimitMinutes: number;
+  passThreshold: number;
+  isActive: boolean;
+  questions: Omit<PlacementQuestion, 'id'>[];
+}
+
+export interface PublicPlacementTest {
+  id: string;
+  language: string;
+  name: string;
+  description: string | null;
+  timeLimitMinutes: number;
+  questionCount: number;
+}
+
+export interface PlacementAttemptStart {
+  attemptId: string;
+  testName: string;
+  timeLimitMinutes: number;
+  expiresAt: string;
+  questions: { id: string; type: PlacementQuestionType; prompt: string; options: string[] }[];
+}
+
+export interface PlacementResult {
+  attemptId: string;
+  score: number;
+  maxScore: number;
+  levelScores: LevelScores;
+  suggestedLevel: string;
+}
+
+export const QUESTION_TYPE_LABELS: Record<PlacementQuestionType, string> = {
+  MULTIPLE_CHOICE: 'Wybór odpowiedzi',
+  GAP_FILL: 'Uzupełnianie luki',
+};
+
+const placementTestService = {
+  // === PUBLIC METHODS (no auth) ===
+
+  async getPublicTests(orgSlug: string): Promise<PublicPlacementTest[]> {
+    const response = await publicApi.get(`/placement-tests/public/${orgSlug}`);
+    return response.data.data;
+  },
+
+  async startAttempt(orgSlug: string, testId: string): Promise<PlacementAttemptStart> {
+    const response = await publicApi.post(`/placement-tests/public/${orgSlug}/${testId}/start`);
+    return response.data.data;
+  },
+
+  async submitAttempt(attemptId: string, answers: Record<string, string>): Promise<PlacementResult> {
+    const response = await publicApi.post(`/placement-tests/attempts/${attemptId}/submit`, { answers });
+    return response.data.data;
+  },
+
+  // === PROTECTED METHODS (require auth) ===
+
+  async getTests(): Promise<PlacementTest[]> {
+    const response = await api.get('/placement-tests') as any;
+    return response.data.data;
+  },
+
+  async getTestById(id: string): Promise<PlacementTest> {
+    const response = await api.get(`/placement-tests/${id}`) as any;
+    return response.data.data;
+  },
+
+  async createTest(data: PlacementTestData): Promise<PlacementTest> {
+    const response = await api.post('/placement-tests', data) as any;
+    return response.data.data;
+  },
+
+  async updateTest(id: string, data: Partial<PlacementTestData>): Promise<PlacementTest> {
+    const response = await api.put(`/placement-tests/${id}`, data) as any;
+    return response.data.data;
+  },
+
+  async deleteTest(id: string): Promise<void> {
+    await api.delete(`/placement-tests/${id}`);
+  },
+};
+
+export default placementTestService;
@@ -10,6 +10,12 @@ interface ReportFilters {
   periodDays?: number;
   minAmount?: number;
   daysPastDue?: number;
+  reportingCurrency?: string;
+}
+
+interface CurrencyAmount {
+  currency: string;
+  amount: number;
 }
 
 interface TeacherPayoutData {
@@ -21,6 +27,8 @@ interface TeacherPayoutData {
   lessonsCount: number;
   totalHours: number;
   totalPayout: number;
+  currency: string;
+  originalPayout: CurrencyAmount[];
   payoutStatus?: string;
 }
 
@@ -36,6 +44,8 @@ interface NewStudentData {
   goals: string | null;
   enrollmentsCount: number;
   totalSpent: number;
+  currency: string;
+  originalSpent: CurrencyAmount[];
 }
 
 interface MarginData {
@@ -50,6 +60,9 @@ interface MarginData {
   totalTeacherCost: number;
   grossProfit: number;
   marginPercent: number;
+  currency: string;
+  originalRevenue: CurrencyAmount[];
+  originalTeacherCost: CurrencyAmount[];
 }
 
 interface DebtorData {
@@ -58,6 +71,8 @@ interface DebtorData {
   email: string;
   phone: string | null;
   totalDebt: number;
+  currency: string;
+  originalDebt: CurrencyAmount[];
   oldestPaymentDate: string;
   daysOverdue: number;
   pendingPaymentsCount: number;
@@ -104,9 +119,9 @@ class ReportService {
   /**
    * Get new students report
    */
-  async getNewStudents(month: number, year: number): Promise<NewStudentData[]> {
+  async getNewStudents(month: number, year: number, reportingCurrency?: string): Promise<NewStudentData[]> {
     const response = await api.get('/reports/new-students', {
-      params: { month, year },
+      params: { month, year, reportingCurrency },
     }) as any;
     return response.data.data;
   }
@@ -122,7 +137,11 @@ class ReportService {
   /**
    * Get debtors report
    */
-  async getDebtors(filters?: { minAmount?: number; daysPastDue?: number }): Promise<DebtorData[]> {
+  async getDebtors(filters?: {
+    minAmount?: number;
+    daysPastDue?: number;
+    reportingCurrency?: string;
+  }): Promise<DebtorData[]> {
     const response = await api.get('/reports/debtors', { params: filters }) as any;
     return response.data.data;
   }
@@ -169,6 +188,7 @@ class ReportService {
 
 export const reportService = new ReportService();
 export type {
+  CurrencyAmount,
   TeacherPayoutData,
   NewStudentData,
   MarginData,
@@ -20,6 +20,7 @@ export interface Student {
   cancellationLimitPeriod?: string | null;
   internalNotes?: string | null;
   archivedAt?: string | null;
+  isProvisional?: boolean; // Trial lesson student, not converted from the application yet
   daysUntilDeletion?: number | null;
   enrollmentDate: string;
   user: {
@@ -193,7 +194,8 @@ export const studentService = {
         for (const enrollment of student.enrollments) {
           const hoursPurchased = parseFloat(enrollment.hoursPurchased?.toString() || '0');
           const hoursUsed = parseFloat(enrollment.hoursUsed?.toString() || '0');
-          const hoursRemaining = hoursPurchased - hoursUsed;
+          const hoursExpired = parseFloat(enrollment.hoursExpired?.toString() || '0');
+          const hoursRemaining = hoursPurchased - hoursUsed - hoursExpired;
 
           if (hoursRemaining <= 2 && hoursRemaining > 0 && enrollment.status === 'ACTIVE') {
             lowBudgetAlerts.push({
@@ -0,0 +1,114 @@
+import api from '../lib/api';
+
+export interface Subscription {
+  id: string;
+  organizationId: string;
+  name: string;
+  description?: string | null;
+  monthlyPrice: number | string;
+  lessonsPerMonth: number;
+  currency: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  _count?: {
+    enrollments: number;
+  };
+}
+
+export interface SubscriptionFormData {
+  name: string;
+  description?: string;
+  monthlyPrice: number;
+  lessonsPerMonth: number;
+  currency?: string;
+  isActive?: boolean;
+}
+
+export interface AssignSubscriptionData {
+  studentId: string;
+  courseId?: string;
+  paymentMethod?: 'CASH' | 'BANK_TRANSFER' | 'CARD' | 'ONLINE' | 'OTHER';
+  notes?: string;
+}
+
+export type SubscriptionEnrollmentStatus = 'ACTIVE' | 'PAUSED' | 'CANCELLED';
+
+export interface StudentSubscription {
+  id: string;
+  status: string;
+  enrollmentDate: string;
+  billingPeriod?: string | null;
+  lessonsUsedInPeriod: number;
+  lessonsPerMonth: number;
+  lessonsRemaining: number;
+  overLimit: boolean;
+  subscription?: {
+    id: string;
+    name: string;
+    monthlyPrice: number | string;
+    lessonsPerMonth: number;
+    currency: string;
+  } | null;
+  course?: { id: string; name: string } | null;
+}
+
+const subscriptionService = {
+  /**
+   * Get all subscription plans
+   */
+  async getSubscriptions(filters?: { isActive?: boolean }): Promise<Subscription[]> {
+    const response = await api.get('/subscriptions', { params: filters }) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Create subscription plan
+   */
+  async createSubscription(data: SubscriptionFormData): Promise<Subscription> {
+    const response = await api.post('/subscriptions', data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Update subscription plan
+   */
+  async updateSubscription(id: string, data: Partial<SubscriptionFormData>): Promise<Subscription> {
+    const response = await api.put(`/subscriptions/${id}`, data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Delete subscription plan (deactivated instead if already assigned)
+   */
+  async deleteSubscription(id: string): Promise<{ message: string; deactivated: boolean }> {
+    const response = await api.delete(`/subscriptions/${id}`) as any;
+    return response.data;
+  },
+
+  /**
+   * Assign subscription to student - creates enrollment and charges the current month
+   */
+  async assignSubscription(subscriptionId: string, data: AssignSubscriptionData) {
+    const response = await api.post(`/subscriptions/${subscriptionId}/assign`, data) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Get student's subscription enrollments with monthly allowance
+   */
+  async getStudentSubscriptions(studentId: string): Promise<StudentSubscription[]> {
+    const response = await api.get(`/subscriptions/student/${studentId}`) as any;
+    return response.data.data;
+  },
+
+  /**
+   * Pause, resume or cancel student's subscription
+   */
+  async updateStatus(enrollmentId: string, status: SubscriptionEnrollmentStatus) {
+    const response = await api.patch(`/subscriptions/enrollments/${enrollmentId}/status`, { status }) as any;
+    return response.data.data;
+  },
+};
+
+export default subscriptionService;
@@ -18,6 +18,7 @@ export interface Lesson {
   scheduledAt: string;
   durationMinutes: number;
   status: string;
+  currency: string;
   student: {
     id: string;
     user: {
@@ -70,6 +71,46 @@ export interface GetSubstitutionsParams {
   offset?: number;
 }
 
+export interface SubstituteCandidate {
+  teacher: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  score: number;
+  hasConflict: boolean;
+  conflicts: string[];
+  availabilityWarnings: string[];
+  reasons: string[];
+}
+
+export interface LessonRecommendation {
+  lesson: {
+    id: string;
+    title: string;
+    scheduledAt: string;
+    durationMinutes: number;
+    courseName: string | null;
+    studentName: string;
+  };
+  candidates: SubstituteCandidate[];
+}
+
+export interface BulkSubstitutionData {
+  originalTeacherId: string;
+  dateFrom: string;
+  dateTo: string;
+  substituteTeacherId?: string;
+  reason?: string;
+  notes?: string;
+}
+
+export interface BulkSubstitutionResult {
+  created: Substitution[];
+  skipped: Array<{ lessonId: string; title: string; scheduledAt: string; reason: string }>;
+}
+
 class SubstitutionService {
   /**
    * Get all substitutions
@@ -102,6 +143,30 @@ class SubstitutionService {
     }
   }
 
+  /**
+   * Get ranked substitute candidates for a lesson
+   */
+  async getCandidates(lessonId: string): Promise<SubstituteCandidate[]> {
+    const response = await api.get(`/substitutions/candidates/${lessonId}`) as any;
+    return response.data.data;
+  }
+
+  /**
+   * Get ranked candidates for all lessons of a teacher in a date range
+   */
+  async getRangeRecommendations(params: { originalTeacherId: string; dateFrom: string; dateTo: string }): Promise<LessonRecommendation[]> {
+    const response = await api.get('/substitutions/recommendations', { params }) as any;
+    return response.data.data;
+  }
+
+  /**
+   * Substitute all lessons of a teacher in a date range
+   */
+  async bulkSubstitute(data: BulkSubstitutionData): Promise<BulkSubstitutionResult> {
+    const response = await api.post('/substitutions/bulk', data) as any;
+    return response.data.data;
+  }
+
   /**
    * Create a new substitution
    */
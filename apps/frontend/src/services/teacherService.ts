@@ -12,6 +12,10 @@ export interface Teacher {
   cancellationPayoutEnabled: boolean;
   cancellationPayoutHours?: number | null;
   cancellationPayoutPercent?: number | null;
+  vatRate?: number | null; // B2B, null = VAT exempt
+  zusExempt?: boolean;
+  pitExempt?: boolean;
+  bankAccountNumber?: string | null; // IBAN, used for payout transfer files
   user: {
     id: string;
     email: string;
@@ -28,6 +32,35 @@ export interface Teacher {
   };
 }
 
+export type TeacherUnavailabilityReason = 'VACATION' | 'SICK_LEAVE' | 'OTHER';
+
+export interface TeacherAvailabilityWindow {
+  id?: string;
+  dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc.
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+}
+
+export interface TeacherUnavailability {
+  id: string;
+  teacherId: string;
+  startDate: string;
+  endDate: string;
+  reason: TeacherUnavailabilityReason;
+  notes?: string | null;
+  createdAt: string;
+}
+
+export interface TeacherAvailability {
+  windows: TeacherAvailabilityWindow[];
+  unavailabilities: TeacherUnavailability[];
+}
+
+export interface FreeSlot {
+  start: string;
+  end: string;
+}
+
 export interface CreateTeacherData {
   email: string;
   password: string;
@@ -56,6 +89,10 @@ export interface UpdateTeacherData {
   cancellationPayoutEnabled?: boolean;
   cancellationPayoutHours?: number | null;
   cancellationPayoutPercent?: number | null;
+  vatRate?: number | null;
+  zusExempt?: boolean;
+  pitExempt?: boolean;
+  bankAccountNumber?: string | null;
 }
 
 export const teacherService = {
@@ -120,6 +157,42 @@ export const teacherService = {
     return response.data as { deleted: number; failed: number; errors: { id: string; error: string }[] };
   },
 
+  async getAvailability(id: string) {
+    const response = await api.get(`/teachers/${id}/availability`) as any;
+    return response.data.data as TeacherAvailability;
+  },
+
+  async setAvailability(id: string, windows: TeacherAvailabilityWindow[]) {
+    const response = await api.put(`/teachers/${id}/availability`, {
+      windows: windows.map(({ dayOfWeek, startTime, endTime }) => ({ dayOfWeek, startTime, endTime })),
+    }) as any;
+    return response.data.data as TeacherAvailability;
+  },
+
+  async createUnavailability(
+    id: string,
+    data: { startDate: string; endDate: string; reason?: TeacherUnavailabilityReason; notes?: string }
+  ) {
+    const response = await api.post(`/teachers/${id}/unavailability`, data) as any;
+    return response.data.data as TeacherUnavailability;
+  },
+
+  async deleteUnavailability(id: string, unavailabilityId: string) {
+    const response = await api.delete(`/teachers/${id}/unavailability/${unavailabilityId}`);
+    return response.data;
+  },
+
+  async getFreeSlots(id: string, params: { from: string; to?: string; durationMinutes?: number; stepMinutes?: number }) {
+    const query = new URLSearchParams();
+    query.append('from', params.from);
+    if (params.to) query.append('to', params.to);
+    if (params.durationMinutes) query.append('durationMinutes', String(params.durationMinutes));
+    if (params.stepMinutes) query.append('stepMinutes', String(params.stepMinutes));
+
+    const response = await api.get(`/teachers/${id}/free-slots?${query.toString()}`) as any;
+    return response.data.data as FreeSlot[];
+  },
+
   async getStats() {
     const response = await api.get('/teachers/stats') as any;
     return response.data.data as { total: number; active: number; available: number };
@@ -0,0 +1,110 @@
+import axios from 'axios';
+import api from '../lib/api';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+// Public API instance (no auth token) - seat offers opened from the email link
+const publicApi = axios.create({
+  baseURL: API_URL,
+  timeout: 30000,
+  headers: { 'Content-Type': 'application/json' },
+});
+
+export type WaitlistStatus = 'WAITING' | 'OFFERED' | 'ENROLLED' | 'EXPIRED' | 'DECLINED' | 'REMOVED';
+
+export interface WaitlistEntry {
+  id: string;
+  courseId: string;
+  studentId: string | null;
+  applicationId: string | null;
+  name: string;
+  email: string;
+  position: number;
+  status: WaitlistStatus;
+  offeredAt: string | null;
+  offerExpiresAt: string | null;
+  respondedAt: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+  student: {
+    id: string;
+    user: { firstName: string; lastName: string; email: string };
+  } | null;
+  application: { id: string; status: string } | null;
+}
+
+export interface CourseWaitlist {
+  course: {
+    id: string;
+    name: string;
+    maxStudents: number | null;
+    activeEnrollments: number;
+    freeSpots: number | null;
+  };
+  entries: WaitlistEntry[];
+  history: WaitlistEntry[];
+}
+
+export interface WaitlistOffer {
+  name: string;
+  status: WaitlistStatus;
+  offerExpiresAt: string | null;
+  course: {
+    name: string;
+    language: string;
+    level: string;
+    startDate: string;
+    organization: { name: string; logoUrl: string | null; primaryColor: string | null };
+  };
+}
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  WAITING: 'Oczekuje',
+  OFFERED: 'Oferta wysłana',
+  ENROLLED: 'Zapisany',
+  EXPIRED: 'Oferta wygasła',
+  DECLINED: 'Zrezygnował',
+  REMOVED: 'Usunięty',
+};
+
+const waitlistService = {
+  async getCourseWaitlist(courseId: string): Promise<CourseWaitlist> {
+    const response = await api.get(`/waitlist/course/${courseId}`) as any;
+    return response.data.data;
+  },
+
+  async addToWaitlist(data: {
+    courseId: string;
+    studentId?: string;
+    applicationId?: string;
+    notes?: string;
+  }): Promise<WaitlistEntry> {
+    const response = await api.post('/waitlist', data) as any;
+    return response.data.data;
+  },
+
+  async moveEntry(id: string, direction: 'up' | 'down'): Promise<void> {
+    await api.post(`/waitlist/${id}/move`, { direction });
+  },
+
+  async removeEntry(id: string): Promise<void> {
+    await api.delete(`/waitlist/${id}`);
+  },
+
+  async getOffer(token: string): Promise<WaitlistOffer> {
+    const response = await publicApi.get(`/waitlist/offer/${token}`);
+    return response.data.data;
+  },
+
+  async acceptOffer(token: string): Promise<{ courseName: string }> {
+    const response = await publicApi.post(`/waitlist/offer/${token}/accept`);
+    return response.data.data;
+  },
+
+  async declineOffer(token: string): Promise<void> {
+    await publicApi.post(`/waitlist/offer/${token}/decline`);
+  },
+};
+
+export default waitlistService;
@@ -20,8 +20,10 @@ export interface User {
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
-  setAuth: (user: User, token: string) => void;
+  setAuth: (user: User, token: string, refreshToken: string) => void;
+  setTokens: (token: string, refreshToken: string) => void;
   logout: () => void;
 }
 
@@ -30,14 +32,22 @@ export const useAuthStore = create<AuthState>()(
     (set) => ({
       user: null,
       token: null,
+      refreshToken: null,
       isAuthenticated: false,
-      setAuth: (user, token) => {
+      setAuth: (user, token, refreshToken) => {
         localStorage.setItem('token', token);
-        set({ user, token, isAuthenticated: true });
+        localStorage.setItem('refreshToken', refreshToken);
+        set({ user, token, refreshToken, isAuthenticated: true });
+      },
+      setTokens: (token, refreshToken) => {
+        localStorage.setItem('token', token);
+        localStorage.setItem('refreshToken', refreshToken);
+        set({ token, refreshToken });
       },
       logout: () => {
         localStorage.removeItem('token');
-        set({ user: null, token: null, isAuthenticated: false });
+        localStorage.removeItem('refreshToken');
+        set({ user: null, token: null, refreshToken: null, isAuthenticated: false });
       },
     }),
     {